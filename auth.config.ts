@@ -28,6 +28,7 @@ import {
 } from "@/lib/auth-analytics";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { autoJoinVerifiedOrgs } from "@/lib/org-auto-join";
 
 /**
  * Get user entitlements from database
@@ -456,6 +457,28 @@ export const authConfig = {
         // Track provider usage
         trackProviderUsage(provider);
       }
+
+      // Join organizations with auto-join on for the user's verified domain.
+      // Runs here rather than in the signIn callback because first-time
+      // magic-link users only exist in the database once sign-in completes.
+      if (user.id) {
+        try {
+          const joined = await autoJoinVerifiedOrgs(user.id);
+
+          if (joined.length > 0) {
+            logger.info(
+              {
+                userId: user.id,
+                orgIds: joined.map((member) => member.orgId),
+              },
+              "User auto-joined organizations by email domain"
+            );
+          }
+        } catch (error) {
+          // Never block sign-in on membership sync
+          logger.error({ err: error, userId: user.id }, "Error auto-joining organizations on sign-in");
+        }
+      }
     },
     async signOut(params) {
       console.log(`User signed out`);
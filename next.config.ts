@@ -63,6 +63,10 @@ const nextConfig: NextConfig = {
     // Minimize layout shift (CLS ≤0.1 target)
     minimumCacheTTL: 60 * 60 * 24 * 365, // 1 year for static assets
   },
+  // tesseract.js spawns its OCR worker from a file path, which breaks when bundled;
+  // pdfjs-dist loads its worker and canvas backend the same way
+  serverExternalPackages: ["tesseract.js", "pdfjs-dist"],
+
   eslint: {
     ignoreDuringBuilds: true,
   },
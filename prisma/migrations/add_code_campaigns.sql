@@ -0,0 +1,38 @@
+-- Migration: Add code campaigns
+-- Purpose: Group VIP codes into named batches with an owner, partner org,
+-- redemption budget and dates, and track code validations for funnel metrics
+
+CREATE TYPE "CodeCampaignStatus" AS ENUM ('ACTIVE', 'REVOKED');
+
+CREATE TABLE "code_campaigns" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "CodeType" NOT NULL,
+    "status" "CodeCampaignStatus" NOT NULL DEFAULT 'ACTIVE',
+    "ownerId" TEXT NOT NULL,
+    "orgId" TEXT,
+    "redemptionBudget" INTEGER,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endsAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "code_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "code_campaigns_name_key" ON "code_campaigns"("name");
+CREATE INDEX "code_campaigns_status_idx" ON "code_campaigns"("status");
+CREATE INDEX "code_campaigns_orgId_idx" ON "code_campaigns"("orgId");
+
+ALTER TABLE "code_campaigns" ADD CONSTRAINT "code_campaigns_orgId_fkey"
+    FOREIGN KEY ("orgId") REFERENCES "orgs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "codes" ADD COLUMN "campaignId" TEXT;
+ALTER TABLE "codes" ADD COLUMN "validationCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "codes" ADD COLUMN "firstValidatedAt" TIMESTAMP(3);
+
+CREATE INDEX "codes_campaignId_idx" ON "codes"("campaignId");
+
+ALTER TABLE "codes" ADD CONSTRAINT "codes_campaignId_fkey"
+    FOREIGN KEY ("campaignId") REFERENCES "code_campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Migration: Add code recipient email
+-- Purpose: Bind a VIP code to one email address so it can be sent as a
+-- personalised invite link that nobody else can redeem
+
+ALTER TABLE "codes" ADD COLUMN "recipientEmail" TEXT;
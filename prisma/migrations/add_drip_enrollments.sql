@@ -0,0 +1,30 @@
+-- Migration: Add drip sequence enrollments
+-- Purpose: Track each lead's progress through the pre-launch email sequence
+-- for their capture source, so the scheduler can send the next step on time
+-- and stop once they buy or unsubscribe
+
+CREATE TYPE "DripEnrollmentStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'STOPPED');
+
+CREATE TABLE "drip_enrollments" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "sequenceId" TEXT NOT NULL,
+    "source" "EmailCaptureSource" NOT NULL,
+    "geo" TEXT,
+    "status" "DripEnrollmentStatus" NOT NULL DEFAULT 'ACTIVE',
+    "stepIndex" INTEGER NOT NULL DEFAULT 0,
+    "nextSendAt" TIMESTAMP(3),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lastSentAt" TIMESTAMP(3),
+    "stopReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drip_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "drip_enrollments_email_sequenceId_key" ON "drip_enrollments"("email", "sequenceId");
+CREATE INDEX "drip_enrollments_status_nextSendAt_idx" ON "drip_enrollments"("status", "nextSendAt");
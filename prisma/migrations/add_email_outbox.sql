@@ -0,0 +1,40 @@
+-- Migration: Add email outbox
+-- Purpose: Persist every email send with its delivery status, retry failed
+-- sends in the background and suppress addresses that hard-bounce or complain
+
+CREATE TYPE "EmailMessageStatus" AS ENUM ('PENDING', 'SENT', 'DELIVERED', 'BOUNCED', 'COMPLAINED', 'FAILED', 'SUPPRESSED');
+CREATE TYPE "EmailSuppressionReason" AS ENUM ('HARD_BOUNCE', 'COMPLAINT');
+
+CREATE TABLE "email_outbox" (
+    "id" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "status" "EmailMessageStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "providerMessageId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "lastEventAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "email_outbox_providerMessageId_key" ON "email_outbox"("providerMessageId");
+CREATE INDEX "email_outbox_recipient_idx" ON "email_outbox"("recipient");
+CREATE INDEX "email_outbox_template_status_idx" ON "email_outbox"("template", "status");
+CREATE INDEX "email_outbox_status_idx" ON "email_outbox"("status");
+CREATE INDEX "email_outbox_createdAt_idx" ON "email_outbox"("createdAt");
+
+CREATE TABLE "email_suppressions" (
+    "email" TEXT NOT NULL,
+    "reason" "EmailSuppressionReason" NOT NULL,
+    "providerMessageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("email")
+);
@@ -0,0 +1,5 @@
+-- Migration: Add plain-text alternates to the email outbox
+-- Purpose: Templates render a plain-text part alongside the HTML; keep it so
+-- background retries resend both
+
+ALTER TABLE "email_outbox" ADD COLUMN "text" TEXT;
@@ -0,0 +1,31 @@
+-- Migration: Add A/B experiment exposures and conversions
+-- Purpose: Persist variant assignments and conversion events server-side so
+-- experiment results are computed from real data rather than GTM exports
+
+CREATE TABLE "experiment_exposures" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "exposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "experiment_exposures_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "experiment_exposures_experimentId_participantId_key" ON "experiment_exposures"("experimentId", "participantId");
+CREATE INDEX "experiment_exposures_experimentId_exposedAt_idx" ON "experiment_exposures"("experimentId", "exposedAt");
+
+CREATE TABLE "experiment_conversions" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "convertedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "experiment_conversions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "experiment_conversions_experimentId_participantId_eventName_key" ON "experiment_conversions"("experimentId", "participantId", "eventName");
+CREATE INDEX "experiment_conversions_experimentId_eventName_convertedAt_idx" ON "experiment_conversions"("experimentId", "eventName", "convertedAt");
@@ -0,0 +1,30 @@
+-- Migration: Add durable background job queue
+-- Purpose: Persist receipt verification (and other) jobs so they survive
+-- crashes, deploys and serverless timeouts, with retries and dead-lettering
+
+CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'DEAD');
+
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "queue" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "idempotencyKey" TEXT,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "result" JSONB,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "jobs_queue_idempotencyKey_key" ON "jobs"("queue", "idempotencyKey");
+CREATE INDEX "jobs_queue_status_runAt_idx" ON "jobs"("queue", "status", "runAt");
+CREATE INDEX "jobs_status_idx" ON "jobs"("status");
+CREATE INDEX "jobs_createdAt_idx" ON "jobs"("createdAt");
@@ -0,0 +1,59 @@
+-- Migration: Add database-managed A/B experiments
+-- Purpose: Move experiment definitions out of src/config/experiments.ts so
+-- admins can create, schedule, pause, stop and roll out winners without a deploy
+
+CREATE TYPE "ExperimentStatus" AS ENUM ('DRAFT', 'RUNNING', 'PAUSED', 'STOPPED');
+
+CREATE TABLE "experiments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "status" "ExperimentStatus" NOT NULL DEFAULT 'DRAFT',
+    "variants" JSONB NOT NULL,
+    "trafficAllocation" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "primaryMetric" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "winnerVariantId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "experiments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "experiments_status_idx" ON "experiments"("status");
+
+-- Seed the experiments previously hardcoded in src/config/experiments.ts
+INSERT INTO "experiments" ("id", "name", "description", "status", "variants", "trafficAllocation", "primaryMetric", "updatedAt")
+VALUES
+    (
+        'hero-headline',
+        'Hero Headline Variant Test',
+        'Test three different headline variants to maximize engagement and conversions',
+        'RUNNING',
+        '[{"id":"A","name":"Labour Focus","weight":0.33,"description":"The job title is dying."},{"id":"B","name":"Scale Focus","weight":0.33,"description":"Three people. Thirty thousand outcomes."},{"id":"C","name":"Transformation Focus","weight":0.34,"description":"From AI-enabled to AI-born."}]',
+        1,
+        'hero_cta_click',
+        CURRENT_TIMESTAMP
+    ),
+    (
+        'cta-label',
+        'CTA Label Variant Test',
+        'Test different CTA labels to optimize click-through rate',
+        'RUNNING',
+        '[{"id":"A","name":"Pre-order Now","weight":0.5,"description":"Pre-order now (urgency)"},{"id":"B","name":"Reserve Your Copy","weight":0.5,"description":"Reserve your copy (exclusivity)"}]',
+        1,
+        'hero_cta_click',
+        CURRENT_TIMESTAMP
+    ),
+    (
+        'bonus-placement',
+        'Bonus Placement Test',
+        'Test different placements for pre-order bonus to maximize claims',
+        'RUNNING',
+        '[{"id":"A","name":"Hero Section","weight":0.5,"description":"Display bonus in hero section"},{"id":"B","name":"Dedicated Section","weight":0.5,"description":"Display bonus in dedicated section"}]',
+        1,
+        'bonus_claim_submit',
+        CURRENT_TIMESTAMP
+    )
+ON CONFLICT ("id") DO NOTHING;
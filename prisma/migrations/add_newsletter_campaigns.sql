@@ -0,0 +1,58 @@
+-- Migration: Add newsletter campaigns
+-- Purpose: Compose newsletter issues, broadcast them to subscriber segments in
+-- throttled batches and track per-recipient send, open and click status
+
+CREATE TYPE "NewsletterCampaignStatus" AS ENUM ('DRAFT', 'SENDING', 'SENT', 'CANCELLED');
+CREATE TYPE "NewsletterRecipientStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'SKIPPED');
+
+CREATE TABLE "newsletter_campaigns" (
+    "id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "previewText" TEXT,
+    "body" TEXT NOT NULL,
+    "segment" JSONB,
+    "status" "NewsletterCampaignStatus" NOT NULL DEFAULT 'DRAFT',
+    "createdBy" TEXT NOT NULL,
+    "testSentAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "newsletter_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "newsletter_campaigns_status_idx" ON "newsletter_campaigns"("status");
+CREATE INDEX "newsletter_campaigns_createdAt_idx" ON "newsletter_campaigns"("createdAt");
+
+CREATE TABLE "newsletter_campaign_recipients" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "subscriberId" TEXT,
+    "email" TEXT NOT NULL,
+    "status" "NewsletterRecipientStatus" NOT NULL DEFAULT 'PENDING',
+    "skipReason" TEXT,
+    "lastError" TEXT,
+    "providerMessageId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "openedAt" TIMESTAMP(3),
+    "clickedAt" TIMESTAMP(3),
+    "openCount" INTEGER NOT NULL DEFAULT 0,
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "newsletter_campaign_recipients_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "newsletter_campaign_recipients_providerMessageId_key" ON "newsletter_campaign_recipients"("providerMessageId");
+CREATE UNIQUE INDEX "newsletter_campaign_recipients_campaignId_email_key" ON "newsletter_campaign_recipients"("campaignId", "email");
+CREATE INDEX "newsletter_campaign_recipients_campaignId_status_idx" ON "newsletter_campaign_recipients"("campaignId", "status");
+CREATE INDEX "newsletter_campaign_recipients_email_sentAt_idx" ON "newsletter_campaign_recipients"("email", "sentAt");
+
+ALTER TABLE "newsletter_campaign_recipients" ADD CONSTRAINT "newsletter_campaign_recipients_campaignId_fkey"
+    FOREIGN KEY ("campaignId") REFERENCES "newsletter_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Outbox: keep extra headers (List-Unsubscribe) so background retries resend them
+ALTER TABLE "email_outbox" ADD COLUMN "headers" JSONB;
@@ -0,0 +1,11 @@
+-- Migration: Track outbox retries of newsletter campaign sends
+-- Purpose: Keep campaign recipients whose in-call sends failed as SENDING,
+-- linked to the outbox message, until the background retry resolves them
+
+ALTER TYPE "NewsletterRecipientStatus" ADD VALUE 'SENDING' BEFORE 'SENT';
+
+ALTER TABLE "newsletter_campaign_recipients" ADD COLUMN "emailMessageId" TEXT;
+
+CREATE UNIQUE INDEX "newsletter_campaign_recipients_emailMessageId_key" ON "newsletter_campaign_recipients"("emailMessageId");
+
+COMMENT ON COLUMN "newsletter_campaign_recipients"."emailMessageId" IS 'Outbox message (email_outbox.id) retried in the background while the recipient is SENDING.';
@@ -0,0 +1,38 @@
+-- Migration: Add newsletter subscribers
+-- Purpose: Durable double opt-in subscriber list (replaces the in-memory
+-- NewsletterStore) with status, interests, attribution and consent timestamps
+
+CREATE TYPE "NewsletterSubscriberStatus" AS ENUM ('PENDING', 'CONFIRMED', 'UNSUBSCRIBED', 'BOUNCED');
+
+CREATE TABLE "newsletter_subscribers" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "status" "NewsletterSubscriberStatus" NOT NULL DEFAULT 'PENDING',
+    "interests" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "source" TEXT NOT NULL DEFAULT 'other',
+    "referrer" TEXT,
+    "utmSource" TEXT,
+    "utmMedium" TEXT,
+    "utmCampaign" TEXT,
+    "geo" TEXT,
+    "consentedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "confirmedAt" TIMESTAMP(3),
+    "unsubscribedAt" TIMESTAMP(3),
+    "bouncedAt" TIMESTAMP(3),
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "newsletter_subscribers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "newsletter_subscribers_email_key" ON "newsletter_subscribers"("email");
+CREATE INDEX "newsletter_subscribers_status_idx" ON "newsletter_subscribers"("status");
+CREATE INDEX "newsletter_subscribers_source_idx" ON "newsletter_subscribers"("source");
+CREATE INDEX "newsletter_subscribers_geo_idx" ON "newsletter_subscribers"("geo");
+CREATE INDEX "newsletter_subscribers_createdAt_idx" ON "newsletter_subscribers"("createdAt");
+
+-- Interest segment lookups (interests @> ARRAY[...])
+CREATE INDEX "newsletter_subscribers_interests_idx" ON "newsletter_subscribers" USING GIN ("interests");
@@ -0,0 +1,12 @@
+-- Migration: Add organization domain auto-join
+-- Purpose: Add signed-in users with a verified organization's email domain
+-- as members automatically, with an admin-chosen role and an owner digest
+
+ALTER TABLE "orgs" ADD COLUMN "autoJoinRole" "OrgMemberRole" NOT NULL DEFAULT 'MEMBER';
+
+ALTER TABLE "org_members" ADD COLUMN "autoJoinedAt" TIMESTAMP(3);
+ALTER TABLE "org_members" ADD COLUMN "autoJoinNotifiedAt" TIMESTAMP(3);
+
+CREATE INDEX "org_members_orgId_autoJoinedAt_idx" ON "org_members"("orgId", "autoJoinedAt");
+
+COMMENT ON COLUMN "org_members"."autoJoinNotifiedAt" IS 'Set once the member has been listed in an auto-join digest to the organization owners.';
@@ -0,0 +1,9 @@
+-- Migration: Track every organization domain re-verification attempt
+-- Purpose: Rotate domains whose checks were inconclusive to the back of the
+-- queue instead of re-checking them first on every run
+
+ALTER TABLE "orgs" ADD COLUMN "domainCheckAttemptedAt" TIMESTAMP(3);
+
+UPDATE "orgs" SET "domainCheckAttemptedAt" = "domainCheckedAt" WHERE "domainCheckedAt" IS NOT NULL;
+
+CREATE INDEX "orgs_domainVerified_domainCheckAttemptedAt_idx" ON "orgs"("domainVerified", "domainCheckAttemptedAt");
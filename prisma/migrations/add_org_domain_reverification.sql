@@ -0,0 +1,33 @@
+-- Migration: Add periodic re-verification of organization domains
+-- Purpose: Re-check verified domains' TXT records on a schedule, warn owners
+-- during a grace period and revoke verification when the record stays missing
+
+ALTER TABLE "orgs" ADD COLUMN "domainCheckedAt" TIMESTAMP(3);
+ALTER TABLE "orgs" ADD COLUMN "domainCheckFailedAt" TIMESTAMP(3);
+ALTER TABLE "orgs" ADD COLUMN "domainWarnedAt" TIMESTAMP(3);
+
+CREATE INDEX "orgs_domainVerified_domainCheckedAt_idx" ON "orgs"("domainVerified", "domainCheckedAt");
+
+-- Existing verifications count as checked when they were verified
+UPDATE "orgs" SET "domainCheckedAt" = "domainVerifiedAt" WHERE "domainVerified" = true;
+
+CREATE TYPE "OrgDomainEventType" AS ENUM ('VERIFIED', 'CHECK_FAILED', 'CHECK_RECOVERED', 'UNVERIFIED');
+
+CREATE TABLE "org_domain_events" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "type" "OrgDomainEventType" NOT NULL,
+    "reason" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "org_domain_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "org_domain_events_orgId_createdAt_idx" ON "org_domain_events"("orgId", "createdAt");
+
+ALTER TABLE "org_domain_events" ADD CONSTRAINT "org_domain_events_orgId_fkey"
+    FOREIGN KEY ("orgId") REFERENCES "orgs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+COMMENT ON COLUMN "orgs"."domainCheckFailedAt" IS 'Start of the grace period; verification is revoked once the record has been missing for the whole period.';
@@ -0,0 +1,16 @@
+-- Migration: Add organization invitations
+-- Purpose: Add members as INVITED memberships with an expiring accept link
+-- instead of creating ACTIVE members (and placeholder users) directly
+
+ALTER TYPE "OrgMemberStatus" ADD VALUE 'EXPIRED' BEFORE 'SUSPENDED';
+
+-- Invites to emails without an account have no user until accepted
+ALTER TABLE "org_members" ALTER COLUMN "userId" DROP NOT NULL;
+
+ALTER TABLE "org_members" ADD COLUMN "inviteEmail" TEXT;
+ALTER TABLE "org_members" ADD COLUMN "inviteExpiresAt" TIMESTAMP(3);
+
+CREATE UNIQUE INDEX "org_members_orgId_inviteEmail_key" ON "org_members"("orgId", "inviteEmail");
+CREATE INDEX "org_members_status_inviteExpiresAt_idx" ON "org_members"("status", "inviteExpiresAt");
+
+COMMENT ON COLUMN "org_members"."invitedAt" IS 'Last time the invite was sent. Accept links carry it, so resending invalidates earlier links.';
@@ -0,0 +1,9 @@
+-- Migration: Add background plan generation
+-- Purpose: Generate organization plans in a background job that persists
+-- partial content while streaming, so plans can be cancelled and followed live
+
+ALTER TABLE "org_plans" ADD COLUMN "generationStartedAt" TIMESTAMP(3);
+ALTER TABLE "org_plans" ADD COLUMN "generationCancelledAt" TIMESTAMP(3);
+ALTER TABLE "org_plans" ADD COLUMN "generationError" TEXT;
+
+COMMENT ON COLUMN "org_plans"."generationError" IS 'Set when generation failed, was cancelled or produced an invalid plan; the partial content is kept.';
@@ -0,0 +1,36 @@
+-- Migration: Add organization plan revision history
+-- Purpose: Keep every content change to a plan as an immutable revision with
+-- its author, time and source, so earlier versions can be compared and restored
+
+CREATE TYPE "OrgPlanRevisionSource" AS ENUM ('GENERATION', 'MANUAL_EDIT', 'SECTION_REGENERATION', 'RESTORE');
+
+ALTER TABLE "org_plans" ADD COLUMN "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "org_plan_revisions" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" "OrgPlanRevisionSource" NOT NULL,
+    "authorId" TEXT,
+    "model" TEXT,
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "org_plan_revisions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "org_plan_revisions_planId_number_key" ON "org_plan_revisions"("planId", "number");
+
+ALTER TABLE "org_plan_revisions" ADD CONSTRAINT "org_plan_revisions_planId_fkey"
+    FOREIGN KEY ("planId") REFERENCES "org_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing content becomes each plan's first revision
+INSERT INTO "org_plan_revisions" ("id", "planId", "number", "content", "source", "model", "createdAt")
+SELECT 'rev_' || "id", "id", 1, "content", 'GENERATION', "model", "updatedAt"
+FROM "org_plans"
+WHERE "content" <> '' AND "status" <> 'GENERATING';
+
+UPDATE "org_plans" SET "revisionCount" = 1 WHERE "content" <> '' AND "status" <> 'GENERATING';
+
+COMMENT ON COLUMN "org_plans"."revisionCount" IS 'Number of the latest revision; incremented in the same transaction that stores a revision.';
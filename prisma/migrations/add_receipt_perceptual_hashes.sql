@@ -0,0 +1,14 @@
+-- Migration: Near-duplicate receipt detection
+-- Purpose: Catch re-cropped, re-screenshotted or re-compressed receipts that
+-- slip past the SHA-256 fileHash check, and repeated order numbers
+
+ALTER TABLE "receipts" ADD COLUMN "perceptualHashes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "receipts" ADD COLUMN "perceptualHashBands" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "receipts" ADD COLUMN "orderKey" TEXT;
+
+CREATE INDEX "receipts_orderKey_idx" ON "receipts"("orderKey");
+
+-- GIN index for band-token overlap queries (perceptualHashBands && ARRAY[...])
+CREATE INDEX "receipts_perceptualHashBands_idx" ON "receipts" USING GIN ("perceptualHashBands");
+
+COMMENT ON COLUMN "receipts"."perceptualHashBands" IS 'Band tokens ("<band>:<hex>") of perceptualHashes; receipts sharing a token are near-duplicate candidates.';
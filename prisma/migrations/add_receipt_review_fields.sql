@@ -0,0 +1,18 @@
+-- Migration: Persist automated review results on receipts
+-- Purpose: Power the admin receipt review queue (/admin/receipts) with the
+-- parsed fields, verification score and fraud reasons, and link duplicates
+-- to the receipt they duplicate
+
+ALTER TABLE "receipts" ADD COLUMN "parsedData" JSONB;
+ALTER TABLE "receipts" ADD COLUMN "verificationScore" INTEGER;
+ALTER TABLE "receipts" ADD COLUMN "fraudReasons" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "receipts" ADD COLUMN "duplicateOfId" TEXT;
+
+ALTER TABLE "receipts"
+  ADD CONSTRAINT "receipts_duplicateOfId_fkey"
+  FOREIGN KEY ("duplicateOfId") REFERENCES "receipts"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "receipts_duplicateOfId_idx" ON "receipts"("duplicateOfId") WHERE "duplicateOfId" IS NOT NULL;
+
+COMMENT ON COLUMN "receipts"."parsedData" IS 'Parsed receipt fields and redacted image regions from automated verification (ReceiptReviewData).';
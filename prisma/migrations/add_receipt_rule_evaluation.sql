@@ -0,0 +1,7 @@
+-- Migration: Store the fraud rules breakdown on receipts
+-- Purpose: Explain verification scores in the admin review queue
+-- (one entry per rule: outcome, points awarded, weight and detail)
+
+ALTER TABLE "receipts" ADD COLUMN "ruleEvaluation" JSONB;
+
+COMMENT ON COLUMN "receipts"."ruleEvaluation" IS 'ReceiptRuleEvaluation from the receipt rules engine (score, fraud verdict, per-rule breakdown).';
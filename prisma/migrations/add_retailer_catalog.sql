@@ -0,0 +1,35 @@
+-- Migration: Add DB-driven retailer catalog
+-- Purpose: Serve the retailer menu from retailer_selections so retailers can be
+-- reordered, toggled per region and relinked on launch day without a deploy
+
+ALTER TABLE "retailer_selections" ADD COLUMN "paperbackUrl" TEXT;
+
+-- Seed the retailers previously hardcoded in src/lib/retailers.ts
+-- (priority: higher is shown first)
+INSERT INTO "retailer_selections" ("id", "retailerName", "retailerSlug", "geo", "hardcoverUrl", "paperbackUrl", "ebookUrl", "audiobookUrl", "displayName", "logoUrl", "priority", "updatedAt")
+VALUES
+    ('rs_amazon_us', 'Amazon', 'amazon', 'US', 'https://www.amazon.com/dp/[ISBN_HARDCOVER]', 'https://www.amazon.com/dp/[ISBN_PAPERBACK]', 'https://www.amazon.com/dp/[KINDLE_ASIN]', 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Amazon', '/images/retailers/amazon.svg', 90, CURRENT_TIMESTAMP),
+    ('rs_amazon_uk', 'Amazon', 'amazon', 'UK', 'https://www.amazon.com/dp/[ISBN_HARDCOVER]', 'https://www.amazon.com/dp/[ISBN_PAPERBACK]', 'https://www.amazon.com/dp/[KINDLE_ASIN]', 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Amazon', '/images/retailers/amazon.svg', 90, CURRENT_TIMESTAMP),
+    ('rs_amazon_eu', 'Amazon', 'amazon', 'EU', 'https://www.amazon.com/dp/[ISBN_HARDCOVER]', 'https://www.amazon.com/dp/[ISBN_PAPERBACK]', 'https://www.amazon.com/dp/[KINDLE_ASIN]', 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Amazon', '/images/retailers/amazon.svg', 90, CURRENT_TIMESTAMP),
+    ('rs_amazon_au', 'Amazon', 'amazon', 'AU', 'https://www.amazon.com/dp/[ISBN_HARDCOVER]', 'https://www.amazon.com/dp/[ISBN_PAPERBACK]', 'https://www.amazon.com/dp/[KINDLE_ASIN]', 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Amazon', '/images/retailers/amazon.svg', 90, CURRENT_TIMESTAMP),
+    ('rs_barnesnoble_us', 'Barnes & Noble', 'barnesnoble', 'US', 'https://www.barnesandnoble.com/w/[BN_ID]', 'https://www.barnesandnoble.com/w/[BN_ID_PAPERBACK]', 'https://www.barnesandnoble.com/w/[BN_ID]', 'https://www.barnesandnoble.com/w/[BN_ID]', 'Barnes & Noble', '/images/retailers/barnesnoble.svg', 80, CURRENT_TIMESTAMP),
+    ('rs_bookshop_us', 'Bookshop.org', 'bookshop', 'US', 'https://bookshop.org/books/ai-born/[BOOKSHOP_ID]', 'https://bookshop.org/books/ai-born/[BOOKSHOP_ID_PAPERBACK]', NULL, NULL, 'Bookshop.org', '/images/retailers/bookshop.svg', 60, CURRENT_TIMESTAMP),
+    ('rs_bookshop_uk', 'Bookshop.org', 'bookshop', 'UK', 'https://bookshop.org/books/ai-born/[BOOKSHOP_ID]', 'https://bookshop.org/books/ai-born/[BOOKSHOP_ID_PAPERBACK]', NULL, NULL, 'Bookshop.org', '/images/retailers/bookshop.svg', 60, CURRENT_TIMESTAMP),
+    ('rs_applebooks_us', 'Apple Books', 'applebooks', 'US', NULL, NULL, 'https://books.apple.com/us/book/ai-born/[APPLE_ID]', 'https://books.apple.com/us/audiobook/ai-born/[APPLE_AUDIO_ID]', 'Apple Books', '/images/retailers/applebooks.svg', 50, CURRENT_TIMESTAMP),
+    ('rs_applebooks_uk', 'Apple Books', 'applebooks', 'UK', NULL, NULL, 'https://books.apple.com/us/book/ai-born/[APPLE_ID]', 'https://books.apple.com/us/audiobook/ai-born/[APPLE_AUDIO_ID]', 'Apple Books', '/images/retailers/applebooks.svg', 50, CURRENT_TIMESTAMP),
+    ('rs_applebooks_eu', 'Apple Books', 'applebooks', 'EU', NULL, NULL, 'https://books.apple.com/us/book/ai-born/[APPLE_ID]', 'https://books.apple.com/us/audiobook/ai-born/[APPLE_AUDIO_ID]', 'Apple Books', '/images/retailers/applebooks.svg', 50, CURRENT_TIMESTAMP),
+    ('rs_applebooks_au', 'Apple Books', 'applebooks', 'AU', NULL, NULL, 'https://books.apple.com/us/book/ai-born/[APPLE_ID]', 'https://books.apple.com/us/audiobook/ai-born/[APPLE_AUDIO_ID]', 'Apple Books', '/images/retailers/applebooks.svg', 50, CURRENT_TIMESTAMP),
+    ('rs_googleplay_us', 'Google Play', 'googleplay', 'US', NULL, NULL, 'https://play.google.com/store/books/details?id=[GOOGLE_ID]', 'https://play.google.com/store/audiobooks/details?id=[GOOGLE_AUDIO_ID]', 'Google Play', '/images/retailers/googleplay.svg', 40, CURRENT_TIMESTAMP),
+    ('rs_googleplay_uk', 'Google Play', 'googleplay', 'UK', NULL, NULL, 'https://play.google.com/store/books/details?id=[GOOGLE_ID]', 'https://play.google.com/store/audiobooks/details?id=[GOOGLE_AUDIO_ID]', 'Google Play', '/images/retailers/googleplay.svg', 40, CURRENT_TIMESTAMP),
+    ('rs_googleplay_eu', 'Google Play', 'googleplay', 'EU', NULL, NULL, 'https://play.google.com/store/books/details?id=[GOOGLE_ID]', 'https://play.google.com/store/audiobooks/details?id=[GOOGLE_AUDIO_ID]', 'Google Play', '/images/retailers/googleplay.svg', 40, CURRENT_TIMESTAMP),
+    ('rs_googleplay_au', 'Google Play', 'googleplay', 'AU', NULL, NULL, 'https://play.google.com/store/books/details?id=[GOOGLE_ID]', 'https://play.google.com/store/audiobooks/details?id=[GOOGLE_AUDIO_ID]', 'Google Play', '/images/retailers/googleplay.svg', 40, CURRENT_TIMESTAMP),
+    ('rs_kobo_us', 'Kobo', 'kobo', 'US', NULL, NULL, 'https://www.kobo.com/us/en/ebook/ai-born', NULL, 'Kobo', '/images/retailers/kobo.svg', 30, CURRENT_TIMESTAMP),
+    ('rs_kobo_uk', 'Kobo', 'kobo', 'UK', NULL, NULL, 'https://www.kobo.com/us/en/ebook/ai-born', NULL, 'Kobo', '/images/retailers/kobo.svg', 30, CURRENT_TIMESTAMP),
+    ('rs_kobo_eu', 'Kobo', 'kobo', 'EU', NULL, NULL, 'https://www.kobo.com/us/en/ebook/ai-born', NULL, 'Kobo', '/images/retailers/kobo.svg', 30, CURRENT_TIMESTAMP),
+    ('rs_kobo_au', 'Kobo', 'kobo', 'AU', NULL, NULL, 'https://www.kobo.com/us/en/ebook/ai-born', NULL, 'Kobo', '/images/retailers/kobo.svg', 30, CURRENT_TIMESTAMP),
+    ('rs_walmart_us', 'Walmart', 'walmart', 'US', 'https://www.walmart.com/ip/[WALMART_ID_HARDCOVER]', NULL, 'https://www.walmart.com/ip/[WALMART_ID_EBOOK]', NULL, 'Walmart', '/images/retailers/walmart.svg', 70, CURRENT_TIMESTAMP),
+    ('rs_target_us', 'Target', 'target', 'US', 'https://www.target.com/p/[TARGET_ID_HARDCOVER]', NULL, 'https://www.target.com/p/[TARGET_ID_EBOOK]', NULL, 'Target', '/images/retailers/target.svg', 60, CURRENT_TIMESTAMP),
+    ('rs_audible_us', 'Audible', 'audible', 'US', NULL, NULL, NULL, 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Audible', '/images/retailers/audible.svg', 20, CURRENT_TIMESTAMP),
+    ('rs_audible_uk', 'Audible', 'audible', 'UK', NULL, NULL, NULL, 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Audible', '/images/retailers/audible.svg', 20, CURRENT_TIMESTAMP),
+    ('rs_audible_au', 'Audible', 'audible', 'AU', NULL, NULL, NULL, 'https://www.audible.com/pd/[AUDIBLE_ASIN]', 'Audible', '/images/retailers/audible.svg', 20, CURRENT_TIMESTAMP)
+ON CONFLICT ("retailerSlug", "geo") DO NOTHING;
@@ -202,11 +202,11 @@ async function main() {
       },
     }),
     prisma.retailerSelection.upsert({
-      where: { retailerSlug_geo: { retailerSlug: 'bn', geo: RetailerGeo.US } },
+      where: { retailerSlug_geo: { retailerSlug: 'barnesnoble', geo: RetailerGeo.US } },
       update: {},
       create: {
         retailerName: 'Barnes & Noble',
-        retailerSlug: 'bn',
+        retailerSlug: 'barnesnoble',
         geo: RetailerGeo.US,
         displayName: 'Barnes & Noble',
         hardcoverUrl: 'https://barnesandnoble.com/w/ai-born-mehran-granfar/XXXXXXXXXX',
@@ -233,11 +233,11 @@ async function main() {
       },
     }),
     prisma.retailerSelection.upsert({
-      where: { retailerSlug_geo: { retailerSlug: 'apple', geo: RetailerGeo.US } },
+      where: { retailerSlug_geo: { retailerSlug: 'applebooks', geo: RetailerGeo.US } },
       update: {},
       create: {
         retailerName: 'Apple Books',
-        retailerSlug: 'apple',
+        retailerSlug: 'applebooks',
         geo: RetailerGeo.US,
         displayName: 'Apple Books',
         ebookUrl: 'https://books.apple.com/us/book/ai-born/idXXXXXXXXXX',
@@ -249,11 +249,11 @@ async function main() {
       },
     }),
     prisma.retailerSelection.upsert({
-      where: { retailerSlug_geo: { retailerSlug: 'google', geo: RetailerGeo.US } },
+      where: { retailerSlug_geo: { retailerSlug: 'googleplay', geo: RetailerGeo.US } },
       update: {},
       create: {
         retailerName: 'Google Play',
-        retailerSlug: 'google',
+        retailerSlug: 'googleplay',
         geo: RetailerGeo.US,
         displayName: 'Google Play',
         ebookUrl: 'https://play.google.com/store/books/details/AI_Born?id=XXXXXXXXXX',
@@ -7,10 +7,12 @@
  *   npx tsx scripts/generate-vip-codes.ts --count=1000 --type=VIP_PREVIEW
  *   npx tsx scripts/generate-vip-codes.ts --count=500 --type=PARTNER --description="Launch partners" --max-redemptions=1
  *   npx tsx scripts/generate-vip-codes.ts --count=100 --type=MEDIA --valid-until="2025-12-31" --output=codes.csv
+ *   npx tsx scripts/generate-vip-codes.ts --count=200 --campaign=<campaign-id>
  *
  * Options:
  *   --count              Number of codes to generate (required, 1-10000)
- *   --type               Code type (required: VIP_PREVIEW, VIP_BONUS, VIP_LAUNCH, PARTNER, MEDIA, INFLUENCER)
+ *   --type               Code type (required unless --campaign: VIP_PREVIEW, VIP_BONUS, VIP_LAUNCH, PARTNER, MEDIA, INFLUENCER)
+ *   --campaign           Campaign ID to generate into (type, org and dates default to the campaign's)
  *   --description        Optional description
  *   --max-redemptions    Maximum redemptions per code (default: 1)
  *   --valid-until        Expiration date (ISO format: YYYY-MM-DD)
@@ -68,6 +70,7 @@ function warn(message: string) {
 function parseArgs(): {
   count?: number;
   type?: CodeType;
+  campaignId?: string;
   description?: string;
   maxRedemptions?: number;
   validUntil?: string;
@@ -89,6 +92,7 @@ function parseArgs(): {
   return {
     count: args.count ? parseInt(args.count, 10) : undefined,
     type: args.type as CodeType | undefined,
+    campaignId: args.campaign,
     description: args.description,
     maxRedemptions: args['max-redemptions']
       ? parseInt(args['max-redemptions'], 10)
@@ -116,8 +120,9 @@ ${colors.cyan}Usage:${colors.reset}
 
 ${colors.cyan}Options:${colors.reset}
   ${colors.bright}--count${colors.reset}              Number of codes to generate (required, 1-10000)
-  ${colors.bright}--type${colors.reset}               Code type (required):
+  ${colors.bright}--type${colors.reset}               Code type (required unless --campaign):
                          VIP_PREVIEW, VIP_BONUS, VIP_LAUNCH, PARTNER, MEDIA, INFLUENCER
+  ${colors.bright}--campaign${colors.reset}           Campaign ID to generate into (type, org and dates default to the campaign's)
   ${colors.bright}--description${colors.reset}        Optional description
   ${colors.bright}--max-redemptions${colors.reset}    Maximum redemptions per code (default: 1)
   ${colors.bright}--valid-until${colors.reset}        Expiration date (ISO format: YYYY-MM-DD)
@@ -139,6 +144,9 @@ ${colors.cyan}Examples:${colors.reset}
 
   ${colors.gray}# Generate with description and multi-use${colors.reset}
   npx tsx scripts/generate-vip-codes.ts --count=50 --type=INFLUENCER --description="YouTube creators" --max-redemptions=10
+
+  ${colors.gray}# Generate into an existing campaign${colors.reset}
+  npx tsx scripts/generate-vip-codes.ts --count=200 --campaign=<campaign-id>
 `);
 }
 
@@ -157,8 +165,8 @@ function validateArgs(args: ReturnType<typeof parseArgs>): {
     return { valid: false, error: 'Count must be between 1 and 10,000' };
   }
 
-  if (!args.type) {
-    return { valid: false, error: 'Missing required argument: --type' };
+  if (!args.type && !args.campaignId) {
+    return { valid: false, error: 'Missing required argument: --type (or --campaign)' };
   }
 
   const validTypes: CodeType[] = [
@@ -170,7 +178,7 @@ function validateArgs(args: ReturnType<typeof parseArgs>): {
     'INFLUENCER',
   ];
 
-  if (!validTypes.includes(args.type)) {
+  if (args.type && !validTypes.includes(args.type)) {
     return {
       valid: false,
       error: `Invalid type. Must be one of: ${validTypes.join(', ')}`,
@@ -218,7 +226,8 @@ async function main() {
   // Prepare options
   const options: CodeGenerationOptions = {
     count: args.count!,
-    type: args.type!,
+    type: args.type,
+    campaignId: args.campaignId,
     description: args.description,
     maxRedemptions: args.maxRedemptions || 1,
     validUntil: args.validUntil ? new Date(args.validUntil) : undefined,
@@ -229,7 +238,10 @@ async function main() {
   // Show configuration
   info('Configuration:');
   console.log(`  Count:            ${colors.bright}${options.count}${colors.reset}`);
-  console.log(`  Type:             ${colors.bright}${options.type}${colors.reset}`);
+  console.log(`  Type:             ${colors.bright}${options.type ?? '(from campaign)'}${colors.reset}`);
+  if (options.campaignId) {
+    console.log(`  Campaign ID:      ${options.campaignId}`);
+  }
   if (options.description) {
     console.log(`  Description:      ${options.description}`);
   }
@@ -280,9 +292,10 @@ async function main() {
 
     // Show statistics
     info('Fetching statistics...');
-    const stats = await getCodeStatistics(args.type);
+    const generatedType = codes[0].type;
+    const stats = await getCodeStatistics(generatedType);
 
-    log(`\n${colors.cyan}Statistics for ${args.type}:${colors.reset}`);
+    log(`\n${colors.cyan}Statistics for ${generatedType}:${colors.reset}`);
     console.log(`  Total Codes:      ${stats.totalCodes.toLocaleString()}`);
     console.log(`  Active:           ${stats.activeCount.toLocaleString()}`);
     console.log(`  Redeemed:         ${stats.redeemedCount.toLocaleString()}`);
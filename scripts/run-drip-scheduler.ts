@@ -0,0 +1,64 @@
+#!/usr/bin/env tsx
+/**
+ * Drip Sequence Scheduler
+ * Sends due steps of the pre-launch drip sequences on a fixed tick
+ *
+ * Usage:
+ *   npm run drip:scheduler              # Tick until interrupted
+ *   npm run drip:scheduler -- --once    # Run a single tick and exit
+ *
+ * Environment:
+ *   DRIP_TICK_MS     - Interval between ticks (default: 60000)
+ *   BOOK_LAUNCH_DATE - Publication date (ISO 8601) for launch-week steps
+ */
+
+import { runDripTick } from '../src/lib/drip-sequences';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  if (once) {
+    const summary = await runDripTick();
+    console.log('Drip tick complete:', summary);
+    return;
+  }
+
+  const tickMs = parseInt(process.env.DRIP_TICK_MS || '60000', 10);
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    console.log('\nStopping drip scheduler after current tick...');
+    stopped = true;
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Drip scheduler started (every ${tickMs}ms). Press Ctrl+C to stop.`);
+
+  while (!stopped) {
+    const summary = await runDripTick();
+    if (summary.processed > 0) {
+      console.log('[Drip] Tick complete:', summary);
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, tickMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
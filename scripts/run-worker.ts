@@ -0,0 +1,48 @@
+#!/usr/bin/env tsx
+/**
+ * Background Job Worker Entrypoint
+ * Processes durable queue jobs (receipt verification, etc.)
+ *
+ * Usage:
+ *   npm run jobs:worker              # Run until interrupted
+ *   npm run jobs:worker -- --once    # Drain due jobs once and exit
+ *
+ * Environment:
+ *   JOB_WORKER_POLL_MS - Poll interval when idle (default: 5000)
+ */
+
+import { runJobsOnce, runWorkerLoop } from '../src/jobs/worker';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  if (once) {
+    const summary = await runJobsOnce({ maxJobs: Number.MAX_SAFE_INTEGER });
+    console.log('Job worker pass complete:', summary);
+    return;
+  }
+
+  const controller = new AbortController();
+  const stop = () => {
+    console.log('\nStopping job worker after current job...');
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log('Job worker started. Press Ctrl+C to stop.');
+  await runWorkerLoop({
+    pollIntervalMs: parseInt(process.env.JOB_WORKER_POLL_MS || '5000', 10),
+    signal: controller.signal,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+/**
+ * Receipt OCR Test Script
+ * Runs receipt images through OCR, PII redaction and (optionally) LLM parsing
+ *
+ * Usage:
+ *   npx tsx scripts/test-receipt-ocr.ts path/to/receipt.png [more.jpg ...]
+ *
+ * Select the OCR backend with OCR_PROVIDER=tesseract|textract.
+ * LLM parsing runs only when ANTHROPIC_API_KEY is set.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { disposeOcrProvider, getOcrProvider } from '../src/lib/ocr';
+import { parseReceipt } from '../src/lib/receipt-parser';
+import { evaluateReceiptRules } from '../src/lib/receipt-rules';
+import { processReceiptFile } from '../src/lib/receipt-processor';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+async function main() {
+  const files = process.argv.slice(2);
+
+  if (files.length === 0) {
+    console.log('Usage: npx tsx scripts/test-receipt-ocr.ts <receipt-file> [...]');
+    process.exit(1);
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Receipt OCR Test (provider: ${getOcrProvider().name})`);
+  console.log('='.repeat(60));
+
+  for (const file of files) {
+    console.log(`\n📄 ${file}`);
+
+    const buffer = await fs.readFile(file);
+    const mimeType = MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+    const result = await processReceiptFile(buffer, mimeType);
+
+    if (!result.success) {
+      console.log(`❌ OCR failed: ${result.error}`);
+      continue;
+    }
+
+    console.log(`✅ OCR confidence: ${(result.confidence * 100).toFixed(1)}%`);
+    console.log(`   PII detected: ${result.piiDetected.join(', ') || 'none'}`);
+    result.redactedLines.forEach((line) => {
+      const top = line.boundingBox ? line.boundingBox.top.toFixed(2) : ' ?  ';
+      console.log(`   [${(line.confidence * 100).toFixed(0).padStart(3)}% y=${top}] ${line.text}`);
+    });
+
+    if (!process.env.ANTHROPIC_API_KEY) {
+      console.log('   (Set ANTHROPIC_API_KEY to run LLM parsing)');
+      continue;
+    }
+
+    const parsed = await parseReceipt(result.redactedText, {
+      lines: result.redactedLines,
+      confidence: result.confidence,
+      provider: result.ocrProvider,
+    });
+
+    console.log(`   Retailer: ${parsed.retailer ?? '-'}`);
+    console.log(`   Amount: ${parsed.amount ?? '-'} ${parsed.currency ?? ''}`);
+    console.log(`   Title: ${parsed.bookTitle ?? '-'}`);
+    console.log(`   Format: ${parsed.format ?? '-'}`);
+    const evaluation = evaluateReceiptRules(parsed);
+    console.log(`   Verification score: ${evaluation.score}${evaluation.isFraudulent ? ' (FRAUD)' : ''}`);
+    for (const rule of evaluation.rules) {
+      console.log(`     [${rule.outcome}] ${rule.label}: ${rule.points}/${rule.weight} - ${rule.detail}`);
+    }
+    if (parsed.requiresManualReview) {
+      console.log(`   ⚠️  Manual review: ${parsed.manualReviewReason}`);
+    }
+  }
+
+  await disposeOcrProvider();
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
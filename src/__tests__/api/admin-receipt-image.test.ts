@@ -0,0 +1,109 @@
+/**
+ * Admin Receipt Image API Tests
+ *
+ * @module __tests__/api/admin-receipt-image
+ */
+
+import { NextRequest } from 'next/server';
+
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { GET } from '@/app/api/admin/receipts/[receiptId]/image/route';
+import { fetchReceiptFile } from '@/jobs/receipt-processor';
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/admin-auth', () => ({
+  checkAdminAuth: vi.fn(),
+}));
+
+vi.mock('@/jobs/receipt-processor', () => ({
+  fetchReceiptFile: vi.fn(),
+  getMimeTypeFromUrl: () => 'image/jpeg',
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    receipt: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+function getImage() {
+  return GET(new NextRequest('http://localhost/api/admin/receipts/rcpt_1/image'), {
+    params: Promise.resolve({ receiptId: 'rcpt_1' }),
+  });
+}
+
+describe('GET /api/admin/receipts/[receiptId]/image', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkAdminAuth).mockResolvedValue({ authorized: true, adminId: 'admin@example.com' });
+  });
+
+  it('should only send the redacted image', async () => {
+    const original = await sharp({
+      create: { width: 100, height: 100, channels: 3, background: '#ffffff' },
+    })
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { ImageDescription: 'Jane Doe' } } })
+      .toBuffer();
+    vi.mocked(fetchReceiptFile).mockResolvedValue(original);
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({
+      fileUrl: 'receipts/rcpt_1.jpg',
+      parsedData: {
+        ocrProvider: 'tesseract',
+        piiDetected: ['name'],
+        redactedRegions: [{ left: 0, top: 0, width: 0.5, height: 0.5 }],
+      },
+    } as never);
+
+    const response = await getImage();
+    const body = Buffer.from(await response.arrayBuffer());
+    const { data } = await sharp(body).raw().toBuffer({ resolveWithObject: true });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+    expect(body.equals(original)).toBe(false);
+    expect(body.includes('Jane Doe')).toBe(false);
+    expect(data[0]).toBeLessThan(20);
+  });
+
+  it('should fail rather than send an image it cannot redact', async () => {
+    vi.mocked(fetchReceiptFile).mockResolvedValue(Buffer.from('not an image'));
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({
+      fileUrl: 'receipts/rcpt_1.jpg',
+      parsedData: { ocrProvider: 'tesseract', piiDetected: [], redactedRegions: [] },
+    } as never);
+
+    const response = await getImage();
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Receipt file unavailable' });
+  });
+
+  it('should withhold images without redaction data', async () => {
+    const withoutRedaction = [
+      // OCR failed, or the receipt predates review data
+      null,
+      // OCR did not run
+      { piiDetected: [], redactedRegions: [] },
+      // PII detected but never located
+      { ocrProvider: 'tesseract', piiDetected: ['email'], redactedRegions: [] },
+    ];
+
+    for (const parsedData of withoutRedaction) {
+      vi.mocked(prisma.receipt.findUnique).mockResolvedValue({
+        fileUrl: 'receipts/rcpt_1.jpg',
+        parsedData,
+      } as never);
+
+      const response = await getImage();
+
+      expect(response.status).toBe(409);
+    }
+    expect(fetchReceiptFile).not.toHaveBeenCalled();
+  });
+});
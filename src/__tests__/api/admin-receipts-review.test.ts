@@ -0,0 +1,171 @@
+/**
+ * Admin Receipt Review API Tests
+ *
+ * @module __tests__/api/admin-receipts-review
+ */
+
+import { NextRequest } from 'next/server';
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { POST } from '@/app/api/admin/receipts/review/route';
+import {
+  manuallyApproveReceipt,
+  manuallyMarkDuplicate,
+  manuallyRejectReceipt,
+  ReceiptNotPendingError,
+} from '@/jobs/receipt-processor';
+import { checkAdminAuth, logAdminAction } from '@/lib/admin-auth';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/admin-auth', () => ({
+  checkAdminAuth: vi.fn(),
+  getClientIp: () => '203.0.113.7',
+  logAdminAction: vi.fn(),
+}));
+
+vi.mock('@/jobs/receipt-processor', () => ({
+  manuallyApproveReceipt: vi.fn(),
+  manuallyRejectReceipt: vi.fn(),
+  manuallyMarkDuplicate: vi.fn(),
+  ReceiptNotPendingError: class extends Error {},
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    receipt: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+function review(body: object) {
+  return POST(
+    new NextRequest('http://localhost/api/admin/receipts/review', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('POST /api/admin/receipts/review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkAdminAuth).mockResolvedValue({ authorized: true, adminId: 'admin@example.com' });
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({ status: 'PENDING' } as never);
+  });
+
+  it('should approve a batch and audit each receipt once', async () => {
+    const response = await review({
+      receiptIds: ['rcpt_1', 'rcpt_2', 'rcpt_1'],
+      action: 'approve',
+      notes: 'Clear receipts',
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ action: 'approve', processed: 2, failed: 0 });
+    expect(manuallyApproveReceipt).toHaveBeenCalledTimes(2);
+    expect(manuallyApproveReceipt).toHaveBeenCalledWith('rcpt_1', 'admin@example.com', 'Clear receipts');
+    expect(logAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'RECEIPT_APPROVE',
+        resourceId: 'rcpt_2',
+        details: expect.objectContaining({ bulk: true }),
+      })
+    );
+  });
+
+  it('should report receipts that fail without stopping the batch', async () => {
+    vi.mocked(manuallyRejectReceipt)
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new ReceiptNotPendingError('Receipt not found or no longer pending'))
+      .mockResolvedValueOnce();
+
+    const response = await review({
+      receiptIds: ['rcpt_1', 'rcpt_2', 'rcpt_3'],
+      action: 'reject',
+      reason: '  Wrong book ',
+    });
+    const { success, data } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(success).toBe(false);
+    expect(data).toMatchObject({ processed: 2, failed: 1 });
+    expect(data.results).toEqual([
+      { receiptId: 'rcpt_1', success: true },
+      { receiptId: 'rcpt_2', success: false, error: 'Receipt not found or no longer pending' },
+      { receiptId: 'rcpt_3', success: true },
+    ]);
+    expect(manuallyRejectReceipt).toHaveBeenCalledWith('rcpt_3', 'admin@example.com', 'Wrong book');
+    expect(logAdminAction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 409 when no receipt in the batch is still pending', async () => {
+    vi.mocked(manuallyMarkDuplicate).mockRejectedValue(
+      new ReceiptNotPendingError('Receipt not found or no longer pending')
+    );
+
+    const response = await review({
+      receiptIds: ['rcpt_1', 'rcpt_2'],
+      action: 'duplicate',
+      duplicateOfId: 'rcpt_0',
+    });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).data).toMatchObject({ processed: 0, failed: 2 });
+    expect(manuallyMarkDuplicate).toHaveBeenCalledWith('rcpt_1', 'admin@example.com', 'rcpt_0');
+    expect(logAdminAction).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when every receipt in the batch fails unexpectedly', async () => {
+    vi.mocked(manuallyApproveReceipt)
+      .mockRejectedValueOnce(new ReceiptNotPendingError('Receipt not found or no longer pending'))
+      .mockRejectedValueOnce(new Error('Connection lost'));
+
+    const response = await review({ receiptIds: ['rcpt_1', 'rcpt_2'], action: 'approve' });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).data).toMatchObject({ processed: 0, failed: 2 });
+  });
+
+  it('should reject a body that is not JSON', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost/api/admin/receipts/review', {
+        method: 'POST',
+        body: '{"receiptIds":',
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON' });
+  });
+
+  it('should validate the request before reviewing anything', async () => {
+    const missingReason = await review({ receiptIds: ['rcpt_1'], action: 'reject', reason: ' ' });
+    const selfDuplicate = await review({
+      receiptIds: ['rcpt_1'],
+      action: 'duplicate',
+      duplicateOfId: 'rcpt_1',
+    });
+    const tooMany = await review({
+      receiptIds: Array.from({ length: 101 }, (_, i) => `rcpt_${i}`),
+      action: 'approve',
+    });
+
+    expect(missingReason.status).toBe(400);
+    expect(selfDuplicate.status).toBe(400);
+    expect(tooMany.status).toBe(400);
+    expect(manuallyRejectReceipt).not.toHaveBeenCalled();
+    expect(manuallyMarkDuplicate).not.toHaveBeenCalled();
+    expect(manuallyApproveReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should require an admin session', async () => {
+    vi.mocked(checkAdminAuth).mockResolvedValue({ authorized: false, error: 'Unauthorized' });
+
+    const response = await review({ receiptIds: ['rcpt_1'], action: 'approve' });
+
+    expect(response.status).toBe(401);
+    expect(manuallyApproveReceipt).not.toHaveBeenCalled();
+  });
+});
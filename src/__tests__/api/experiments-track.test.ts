@@ -0,0 +1,105 @@
+/**
+ * Experiment Tracking API Tests
+ *
+ * @module __tests__/api/experiments-track
+ */
+
+import { NextRequest } from 'next/server';
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { POST } from '@/app/api/experiments/track/route';
+import type { Experiment } from '@/lib/ab-testing';
+import { recordExperimentConversion, recordExperimentExposure } from '@/lib/experiment-results';
+import { getExperimentConfig } from '@/lib/experiment-store';
+
+vi.mock('@/lib/experiment-results', () => ({
+  recordExperimentExposure: vi.fn(),
+  recordExperimentConversion: vi.fn(),
+}));
+
+vi.mock('@/lib/experiment-store', () => ({
+  getExperimentConfig: vi.fn(),
+}));
+
+const EXPERIMENT: Experiment = {
+  id: 'hero-cta',
+  name: 'Hero CTA',
+  description: 'Hero button copy',
+  active: true,
+  variants: [
+    { id: 'A', name: 'Control', weight: 0.5 },
+    { id: 'B', name: 'Pre-order now', weight: 0.5 },
+  ],
+};
+
+function track(body: object) {
+  return POST(
+    new NextRequest('http://localhost/api/experiments/track', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('POST /api/experiments/track', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(recordExperimentExposure).mockResolvedValue(true);
+    vi.mocked(recordExperimentConversion).mockResolvedValue(true);
+  });
+
+  it('should record events for an active experiment', async () => {
+    vi.mocked(getExperimentConfig).mockResolvedValue(EXPERIMENT);
+
+    const response = await track({
+      type: 'exposure',
+      experimentId: 'hero-cta',
+      variantId: 'B',
+      participantId: 'p_1',
+    });
+
+    expect(response.status).toBe(202);
+    expect(recordExperimentExposure).toHaveBeenCalledWith(
+      EXPERIMENT,
+      expect.objectContaining({ variantId: 'B', participantId: 'p_1' })
+    );
+  });
+
+  it('should reject events once the experiment is paused or stopped', async () => {
+    vi.mocked(getExperimentConfig).mockResolvedValue({ ...EXPERIMENT, active: false });
+
+    const exposure = await track({
+      type: 'exposure',
+      experimentId: 'hero-cta',
+      variantId: 'A',
+      participantId: 'p_1',
+    });
+    const conversion = await track({
+      type: 'conversion',
+      experimentId: 'hero-cta',
+      variantId: 'A',
+      participantId: 'p_1',
+      eventName: 'preorder_click',
+    });
+
+    expect(exposure.status).toBe(409);
+    expect(conversion.status).toBe(409);
+    expect(await conversion.json()).toEqual({ error: 'Experiment is not running' });
+    expect(recordExperimentExposure).not.toHaveBeenCalled();
+    expect(recordExperimentConversion).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown experiments', async () => {
+    vi.mocked(getExperimentConfig).mockResolvedValue(undefined);
+
+    const response = await track({
+      type: 'exposure',
+      experimentId: 'missing',
+      variantId: 'A',
+      participantId: 'p_1',
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -33,6 +33,14 @@ vi.mock('../../../auth', () => ({
   auth: vi.fn(),
 }));
 
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
 vi.mock('next/navigation', () => ({
   redirect: vi.fn((url: string) => {
     throw new Error(`REDIRECT: ${url}`);
@@ -40,6 +48,7 @@ vi.mock('next/navigation', () => ({
 }));
 
 const { auth } = await import('../../../auth');
+const { prisma } = await import('@/lib/prisma');
 
 describe('Admin Authentication Tests', () => {
   const ORIGINAL_ENV = process.env;
@@ -366,7 +375,7 @@ describe('Admin Authentication Tests', () => {
       consoleLogSpy.mockRestore();
     });
 
-    it('should log admin action to console', () => {
+    it('should log admin action to console', async () => {
       const auditEntry = {
         timestamp: new Date(),
         adminId: 'admin@example.com',
@@ -378,7 +387,7 @@ describe('Admin Authentication Tests', () => {
         userAgent: 'Mozilla/5.0',
       };
 
-      logAdminAction(auditEntry);
+      await logAdminAction(auditEntry);
 
       expect(consoleLogSpy).toHaveBeenCalledWith(
         '[ADMIN_AUDIT]',
@@ -390,7 +399,7 @@ describe('Admin Authentication Tests', () => {
       );
     });
 
-    it('should handle optional fields', () => {
+    it('should handle optional fields', async () => {
       const minimalEntry = {
         timestamp: new Date(),
         adminId: 'admin@example.com',
@@ -398,10 +407,36 @@ describe('Admin Authentication Tests', () => {
         resource: 'dashboard',
       };
 
-      logAdminAction(minimalEntry);
+      await logAdminAction(minimalEntry);
 
       expect(consoleLogSpy).toHaveBeenCalled();
     });
+
+    it('should persist the action to the audit log', async () => {
+      await logAdminAction({
+        timestamp: new Date(),
+        adminId: 'admin@example.com',
+        action: 'RECEIPT_APPROVE',
+        resource: 'receipts',
+        resourceId: 'receipt-123',
+        before: { status: 'PENDING' },
+        after: { status: 'VERIFIED' },
+        ipAddress: '192.168.1.1',
+      });
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorType: 'ADMIN',
+          actorId: 'admin@example.com',
+          action: 'RECEIPT_APPROVE',
+          entityType: 'receipts',
+          entityId: 'receipt-123',
+          before: { status: 'PENDING' },
+          after: { status: 'VERIFIED' },
+          ipAddress: '192.168.1.1',
+        }),
+      });
+    });
   });
 
   describe('getClientIp', () => {
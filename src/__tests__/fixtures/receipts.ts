@@ -0,0 +1,70 @@
+/**
+ * Receipt Fixtures for Testing
+ *
+ * Provides sample receipt files and OCR engine output for exercising
+ * the receipt verification pipeline without a live OCR backend
+ */
+
+import type { Block as TextractBlock } from '@aws-sdk/client-textract';
+import type { Page } from 'tesseract.js';
+
+/**
+ * Blank 400x600 PNG (valid header and image data)
+ */
+export const receiptPngBuffer = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAZAAAAJYAQAAAABkl40lAAAAdElEQVR4nO3LoQEAAAwCIP9/Wm9YWYJOehZFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRFURRF+SoDTSLBnXgbw7oAAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * Minimal PDF header (enough for MIME detection)
+ */
+export const receiptPdfBuffer = Buffer.from('%PDF-1.4\n%âãÏÓ\n1 0 obj\n<<>>\nendobj\ntrailer\n<<>>\n%%EOF\n');
+
+/**
+ * Lines of a sample Amazon receipt, in pixel coordinates of the 400x600 PNG
+ */
+const sampleReceiptLines = [
+  { text: 'amazon.com', confidence: 96, bbox: { x0: 20, y0: 20, x1: 180, y1: 44 } },
+  { text: 'Order #112-4455667-1234567', confidence: 91, bbox: { x0: 20, y0: 60, x1: 360, y1: 80 } },
+  { text: 'Ordered by: Jane Smith', confidence: 88, bbox: { x0: 20, y0: 90, x1: 300, y1: 110 } },
+  { text: 'AI-Born (Hardcover)', confidence: 93, bbox: { x0: 20, y0: 240, x1: 260, y1: 262 } },
+  { text: 'Grand Total: $28.99', confidence: 54, bbox: { x0: 20, y0: 540, x1: 280, y1: 562 } },
+];
+
+/**
+ * Tesseract page output for the sample receipt
+ */
+export const tesseractReceiptPage = {
+  text: sampleReceiptLines.map((line) => line.text).join('\n'),
+  confidence: 84,
+  blocks: [
+    {
+      paragraphs: [{ lines: sampleReceiptLines.slice(0, 3) }],
+    },
+    {
+      paragraphs: [{ lines: sampleReceiptLines.slice(3) }],
+    },
+  ],
+} as unknown as Page;
+
+/**
+ * Textract DetectDocumentText blocks for the sample receipt
+ */
+export const textractReceiptBlocks: TextractBlock[] = [
+  { BlockType: 'PAGE', Confidence: 99 },
+  ...sampleReceiptLines.map((line) => ({
+    BlockType: 'LINE' as const,
+    Text: line.text,
+    Confidence: line.confidence,
+    Geometry: {
+      BoundingBox: {
+        Left: line.bbox.x0 / 400,
+        Top: line.bbox.y0 / 600,
+        Width: (line.bbox.x1 - line.bbox.x0) / 400,
+        Height: (line.bbox.y1 - line.bbox.y0) / 600,
+      },
+    },
+  })),
+  { BlockType: 'WORD', Text: 'amazon.com', Confidence: 96 },
+];
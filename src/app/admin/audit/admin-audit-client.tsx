@@ -0,0 +1,381 @@
+'use client';
+
+/**
+ * Admin Audit Log Client Component
+ *
+ * Client-side UI for browsing and exporting the audit log.
+ * Uses session cookies for API authentication.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type AuditActorType = 'ADMIN' | 'USER' | 'SYSTEM';
+
+interface AuditEntry {
+  id: string;
+  actorType: AuditActorType;
+  actorId: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+interface AuditFilters {
+  actor: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+interface AdminAuditClientProps {
+  adminEmail: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = {
+  actor: '',
+  entityType: '',
+  entityId: '',
+  action: '',
+  from: '',
+  to: '',
+};
+
+/**
+ * Render a JSON value compactly for the before/after columns
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Query string for the current filters (empty values omitted)
+ */
+function toSearchParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params;
+}
+
+export default function AdminAuditClient({ adminEmail }: AdminAuditClientProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = toSearchParams(appliedFilters);
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/admin/audit?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load audit log');
+      }
+
+      const data = await response.json();
+      setEntries(data.data.entries);
+      setEntityTypes(data.data.facets.entityTypes);
+      setActions(data.data.facets.actions);
+      setTotal(data.data.pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = () => {
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const exportParams = toSearchParams(appliedFilters);
+  exportParams.set('format', 'csv');
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+              Audit Log
+            </h1>
+            <Text className="text-brand-porcelain/70">
+              Admin and user actions for compliance reviews • Logged in as {adminEmail}
+            </Text>
+          </div>
+          <a href={`/api/admin/audit?${exportParams}`} download>
+            <Button className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian">
+              Export CSV
+            </Button>
+          </a>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <form
+            className="grid grid-cols-1 md:grid-cols-3 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters();
+            }}
+          >
+            <div>
+              <Label htmlFor="actor" className="text-brand-porcelain">
+                Actor
+              </Label>
+              <Input
+                id="actor"
+                value={filters.actor}
+                onChange={(e) => updateFilter('actor', e.target.value)}
+                placeholder="Admin email or user ID"
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            <div>
+              <Label htmlFor="entityType" className="text-brand-porcelain">
+                Entity Type
+              </Label>
+              <select
+                id="entityType"
+                value={filters.entityType}
+                onChange={(e) => updateFilter('entityType', e.target.value)}
+                className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+              >
+                <option value="">All Entities</option>
+                {entityTypes.map((entityType) => (
+                  <option key={entityType} value={entityType}>
+                    {entityType}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="entityId" className="text-brand-porcelain">
+                Entity ID
+              </Label>
+              <Input
+                id="entityId"
+                value={filters.entityId}
+                onChange={(e) => updateFilter('entityId', e.target.value)}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            <div>
+              <Label htmlFor="action" className="text-brand-porcelain">
+                Action
+              </Label>
+              <select
+                id="action"
+                value={filters.action}
+                onChange={(e) => updateFilter('action', e.target.value)}
+                className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+              >
+                <option value="">All Actions</option>
+                {actions.map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="from" className="text-brand-porcelain">
+                From
+              </Label>
+              <Input
+                id="from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            <div>
+              <Label htmlFor="to" className="text-brand-porcelain">
+                To
+              </Label>
+              <Input
+                id="to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            <div className="md:col-span-3 flex gap-3">
+              <Button
+                type="submit"
+                disabled={loading}
+                className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+              >
+                Apply Filters
+              </Button>
+              <Button
+                type="button"
+                onClick={resetFilters}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Reset
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* Entries */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-brand-porcelain text-xl font-semibold">
+              Entries ({total.toLocaleString()})
+            </h3>
+            <div className="flex items-center gap-3">
+              <Button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={loading || page <= 1}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Previous
+              </Button>
+              <Text className="text-brand-porcelain/70 text-sm">
+                Page {page} of {totalPages}
+              </Text>
+              <Button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={loading || page >= totalPages}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <Text className="text-brand-porcelain/70">Loading...</Text>
+          ) : entries.length === 0 ? (
+            <Text className="text-brand-porcelain/70">No audit entries found</Text>
+          ) : (
+            <div className="space-y-4">
+              {entries.map((entry) => {
+                const changedKeys = Array.from(
+                  new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])
+                );
+
+                return (
+                  <Card key={entry.id} className="p-4 bg-white/5 border-white/10">
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <code className="font-mono text-sm text-brand-cyan">{entry.action}</code>
+                        <Badge variant={entry.actorType === 'ADMIN' ? 'default' : 'secondary'}>
+                          {entry.actorType}
+                        </Badge>
+                        <Badge variant="outline">
+                          {entry.entityType}
+                          {entry.entityId && `: ${entry.entityId}`}
+                        </Badge>
+                      </div>
+
+                      {changedKeys.length > 0 && (
+                        <table className="text-sm font-mono">
+                          <tbody>
+                            {changedKeys.map((key) => (
+                              <tr key={key}>
+                                <td className="pr-4 text-brand-porcelain/50">{key}</td>
+                                <td className="pr-2 text-red-400 break-all">
+                                  {formatValue(entry.before?.[key])}
+                                </td>
+                                <td className="pr-2 text-brand-porcelain/50">→</td>
+                                <td className="text-green-400 break-all">
+                                  {formatValue(entry.after?.[key])}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      {entry.details && (
+                        <Text className="text-brand-porcelain/70 text-sm font-mono break-all">
+                          {JSON.stringify(entry.details)}
+                        </Text>
+                      )}
+
+                      <div className="flex flex-wrap gap-4 text-sm text-brand-porcelain/50">
+                        <span>By: {entry.actorId}</span>
+                        <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                        {entry.ipAddress && <span>IP: {entry.ipAddress}</span>}
+                        {entry.userAgent && (
+                          <span className="truncate max-w-md" title={entry.userAgent}>
+                            {entry.userAgent}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Admin Dashboard: Audit Log
+ *
+ * Features:
+ * - Browse admin and user actions, newest first
+ * - Filter by actor, entity and date range
+ * - Before/after state of each change
+ * - CSV export for compliance reviews
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminAuditClient from './admin-audit-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+
+/**
+ * Server Component: Admin Audit Log Page
+ */
+export default async function AdminAuditPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminAuditClient adminEmail={user.email || ''} />;
+}
@@ -9,11 +9,15 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Card } from '@/components/ui/card';
+
+import CampaignDashboard, { type Campaign } from './campaign-dashboard';
+import InviteLinks from './invite-links';
+
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Badge } from '@/components/ui/badge';
 import { Text } from '@/components/ui/text';
 
 type CodeType = 'VIP_PREVIEW' | 'VIP_BONUS' | 'VIP_LAUNCH' | 'PARTNER' | 'MEDIA' | 'INFLUENCER';
@@ -36,6 +40,10 @@ interface Code {
     name: string;
     type: string;
   } | null;
+  campaign?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 interface CodeStatistics {
@@ -55,6 +63,7 @@ interface AdminCodesClientProps {
 export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps) {
   const [codes, setCodes] = useState<Code[]>([]);
   const [stats, setStats] = useState<CodeStatistics | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -65,11 +74,13 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
   // Filters
   const [filterType, setFilterType] = useState<CodeType | ''>('');
   const [filterStatus, setFilterStatus] = useState<CodeStatus | ''>('');
+  const [filterCampaign, setFilterCampaign] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
 
   // Generation form
   const [genCount, setGenCount] = useState(10);
   const [genType, setGenType] = useState<CodeType>('VIP_PREVIEW');
+  const [genCampaignId, setGenCampaignId] = useState('');
   const [genDescription, setGenDescription] = useState('');
   const [genMaxRedemptions, setGenMaxRedemptions] = useState(1);
   const [genValidUntil, setGenValidUntil] = useState('');
@@ -89,6 +100,7 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
 
       if (filterType) params.set('type', filterType);
       if (filterStatus) params.set('status', filterStatus);
+      if (filterCampaign) params.set('campaignId', filterCampaign);
       if (searchQuery) params.set('search', searchQuery);
 
       const response = await fetch(`/api/admin/codes/list?${params}`, {
@@ -112,6 +124,30 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
     }
   };
 
+  // Load campaigns with funnel metrics
+  const loadCampaigns = async () => {
+    try {
+      const response = await fetch('/api/admin/codes/campaigns', {
+        credentials: 'include', // Include session cookies
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load campaigns');
+      }
+
+      const data = await response.json();
+      setCampaigns(data.data.campaigns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  // Reload after campaign changes (revokes also change code statuses)
+  const reloadAll = async () => {
+    setError('');
+    await Promise.all([loadCampaigns(), loadCodes()]);
+  };
+
   // Generate codes
   const generateCodes = async () => {
     setGenerating(true);
@@ -126,7 +162,8 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
         credentials: 'include', // Include session cookies
         body: JSON.stringify({
           count: genCount,
-          type: genType,
+          type: genCampaignId ? undefined : genType,
+          campaignId: genCampaignId || undefined,
           description: genDescription || undefined,
           maxRedemptions: genMaxRedemptions,
           validUntil: genValidUntil || undefined,
@@ -142,8 +179,8 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
       const data = await response.json();
       alert(`Successfully generated ${data.count} codes!`);
 
-      // Reload codes
-      await loadCodes();
+      // Reload codes and campaign funnels
+      await reloadAll();
 
       // Reset form
       setGenCount(10);
@@ -166,7 +203,8 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
         credentials: 'include', // Include session cookies
         body: JSON.stringify({
           count: genCount,
-          type: genType,
+          type: genCampaignId ? undefined : genType,
+          campaignId: genCampaignId || undefined,
           description: genDescription || undefined,
           maxRedemptions: genMaxRedemptions,
           validUntil: genValidUntil || undefined,
@@ -192,7 +230,11 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
 
   useEffect(() => {
     loadCodes();
-  }, [page, filterType, filterStatus, searchQuery]);
+  }, [page, filterType, filterStatus, filterCampaign, searchQuery]);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
 
   return (
     <div className="min-h-screen bg-brand-obsidian p-6">
@@ -244,6 +286,12 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
           </div>
         )}
 
+        {/* Campaigns */}
+        <CampaignDashboard campaigns={campaigns} onChange={reloadAll} onError={setError} />
+
+        {/* Invite Links */}
+        <InviteLinks campaigns={campaigns} onChange={reloadAll} onError={setError} />
+
         {/* Generation Form */}
         <Card className="p-6 bg-white/5 border-white/10">
           <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">
@@ -272,6 +320,7 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
                 id="genType"
                 value={genType}
                 onChange={(e) => setGenType(e.target.value as CodeType)}
+                disabled={!!genCampaignId}
                 className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
               >
                 <option value="VIP_PREVIEW">VIP Preview</option>
@@ -296,7 +345,27 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
               />
             </div>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <Label htmlFor="genCampaign" className="text-brand-porcelain">
+                Campaign (optional)
+              </Label>
+              <select
+                id="genCampaign"
+                value={genCampaignId}
+                onChange={(e) => setGenCampaignId(e.target.value)}
+                className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+              >
+                <option value="">No campaign</option>
+                {campaigns
+                  .filter((campaign) => campaign.status === 'ACTIVE')
+                  .map((campaign) => (
+                    <option key={campaign.id} value={campaign.id}>
+                      {campaign.name} ({campaign.type})
+                    </option>
+                  ))}
+              </select>
+            </div>
             <div>
               <Label htmlFor="genDescription" className="text-brand-porcelain">
                 Description (optional)
@@ -343,7 +412,7 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
 
         {/* Filters */}
         <Card className="p-6 bg-white/5 border-white/10">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <Label htmlFor="search" className="text-brand-porcelain">
                 Search Code
@@ -392,6 +461,24 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
                 <option value="REVOKED">Revoked</option>
               </select>
             </div>
+            <div>
+              <Label htmlFor="filterCampaign" className="text-brand-porcelain">
+                Filter by Campaign
+              </Label>
+              <select
+                id="filterCampaign"
+                value={filterCampaign}
+                onChange={(e) => setFilterCampaign(e.target.value)}
+                className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+              >
+                <option value="">All Campaigns</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </Card>
 
@@ -418,6 +505,9 @@ export default function AdminCodesClient({ adminEmail }: AdminCodesClientProps)
                           {code.status}
                         </Badge>
                         <Badge variant="outline">{code.type}</Badge>
+                        {code.campaign && (
+                          <Badge variant="secondary">{code.campaign.name}</Badge>
+                        )}
                       </div>
                       {code.description && (
                         <Text className="text-brand-porcelain/70 text-sm">
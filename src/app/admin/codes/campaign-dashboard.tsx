@@ -0,0 +1,331 @@
+'use client';
+
+/**
+ * Campaign Dashboard Component
+ *
+ * Lists code campaigns with their redemption funnel
+ * (issued → validated → redeemed → fulfilled), creates campaigns and runs
+ * bulk revoke / extend actions. Rendered inside AdminCodesClient, which
+ * owns the campaign list.
+ */
+
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type CodeType = 'VIP_PREVIEW' | 'VIP_BONUS' | 'VIP_LAUNCH' | 'PARTNER' | 'MEDIA' | 'INFLUENCER';
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string | null;
+  type: CodeType;
+  status: 'ACTIVE' | 'REVOKED';
+  ownerId: string;
+  redemptionBudget: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  createdAt: string;
+  org: { id: string; name: string } | null;
+  funnel: {
+    issued: number;
+    validated: number;
+    redeemed: number;
+    fulfilled: number;
+    redemptions: number;
+  };
+}
+
+interface CampaignDashboardProps {
+  campaigns: Campaign[];
+  onChange: () => Promise<void>;
+  onError: (message: string) => void;
+}
+
+const FUNNEL_STEPS: Array<{ key: keyof Campaign['funnel']; label: string }> = [
+  { key: 'issued', label: 'Issued' },
+  { key: 'validated', label: 'Validated' },
+  { key: 'redeemed', label: 'Redeemed' },
+  { key: 'fulfilled', label: 'Fulfilled' },
+];
+
+/**
+ * Percentage of `value` in `total`, for funnel bars
+ */
+function percentOf(value: number, total: number): number {
+  return total > 0 ? Math.round((value / total) * 100) : 0;
+}
+
+export default function CampaignDashboard({ campaigns, onChange, onError }: CampaignDashboardProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [extendDates, setExtendDates] = useState<Record<string, string>>({});
+
+  // Creation form
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CodeType>('PARTNER');
+  const [description, setDescription] = useState('');
+  const [budget, setBudget] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const createCampaign = async () => {
+    setCreating(true);
+
+    try {
+      const response = await fetch('/api/admin/codes/campaigns', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          name,
+          type,
+          description: description || undefined,
+          redemptionBudget: budget ? parseInt(budget, 10) : undefined,
+          endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create campaign');
+      }
+
+      setName('');
+      setDescription('');
+      setBudget('');
+      setEndsAt('');
+      await onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const runAction = async (campaign: Campaign, action: 'revoke' | 'extend') => {
+    if (
+      action === 'revoke' &&
+      !confirm(`Revoke campaign "${campaign.name}" and all of its active codes?`)
+    ) {
+      return;
+    }
+
+    const newEndsAt = extendDates[campaign.id];
+    if (action === 'extend' && !newEndsAt) {
+      onError('Choose a new end date first');
+      return;
+    }
+
+    setBusy(campaign.id);
+
+    try {
+      const response = await fetch(`/api/admin/codes/campaigns/${campaign.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(
+          action === 'extend'
+            ? { action, endsAt: new Date(newEndsAt).toISOString() }
+            : { action }
+        ),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} campaign`);
+      }
+
+      await onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white/5 border-white/10">
+      <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">Campaigns</h3>
+
+      {/* Creation Form */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <div>
+          <Label htmlFor="campaignName" className="text-brand-porcelain">
+            Name
+          </Label>
+          <Input
+            id="campaignName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+            placeholder="e.g., Spring partner push"
+          />
+        </div>
+        <div>
+          <Label htmlFor="campaignType" className="text-brand-porcelain">
+            Type
+          </Label>
+          <select
+            id="campaignType"
+            value={type}
+            onChange={(e) => setType(e.target.value as CodeType)}
+            className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+          >
+            <option value="VIP_PREVIEW">VIP Preview</option>
+            <option value="VIP_BONUS">VIP Bonus</option>
+            <option value="VIP_LAUNCH">VIP Launch</option>
+            <option value="PARTNER">Partner</option>
+            <option value="MEDIA">Media</option>
+            <option value="INFLUENCER">Influencer</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="campaignDescription" className="text-brand-porcelain">
+            Description (optional)
+          </Label>
+          <Input
+            id="campaignDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+          />
+        </div>
+        <div>
+          <Label htmlFor="campaignBudget" className="text-brand-porcelain">
+            Redemption Budget (optional)
+          </Label>
+          <Input
+            id="campaignBudget"
+            type="number"
+            min={1}
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+          />
+        </div>
+        <div>
+          <Label htmlFor="campaignEndsAt" className="text-brand-porcelain">
+            Ends (optional)
+          </Label>
+          <Input
+            id="campaignEndsAt"
+            type="datetime-local"
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+          />
+        </div>
+      </div>
+      <Button
+        onClick={createCampaign}
+        disabled={creating || !name.trim()}
+        className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian mb-6"
+      >
+        {creating ? 'Creating...' : 'Create Campaign'}
+      </Button>
+
+      {/* Campaign List */}
+      {campaigns.length === 0 ? (
+        <Text className="text-brand-porcelain/70">No campaigns yet</Text>
+      ) : (
+        <div className="space-y-4">
+          {campaigns.map((campaign) => (
+            <Card key={campaign.id} className="p-4 bg-white/5 border-white/10">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <Text className="text-brand-porcelain font-semibold">{campaign.name}</Text>
+                <Badge variant={campaign.status === 'ACTIVE' ? 'default' : 'destructive'}>
+                  {campaign.status}
+                </Badge>
+                <Badge variant="outline">{campaign.type}</Badge>
+                {campaign.org && <Badge variant="secondary">{campaign.org.name}</Badge>}
+              </div>
+              {campaign.description && (
+                <Text className="text-brand-porcelain/70 text-sm mb-2">{campaign.description}</Text>
+              )}
+              <div className="flex flex-wrap gap-4 text-sm text-brand-porcelain/50 mb-4">
+                <span>Owner: {campaign.ownerId}</span>
+                <span>
+                  Budget: {campaign.funnel.redemptions}
+                  {campaign.redemptionBudget !== null
+                    ? ` / ${campaign.redemptionBudget}`
+                    : ' (unlimited)'}
+                </span>
+                <span>Starts: {new Date(campaign.startsAt).toLocaleDateString()}</span>
+                {campaign.endsAt && (
+                  <span>Ends: {new Date(campaign.endsAt).toLocaleDateString()}</span>
+                )}
+              </div>
+
+              {/* Funnel */}
+              <div className="grid grid-cols-4 gap-4 mb-4">
+                {FUNNEL_STEPS.map((step) => (
+                  <div key={step.key}>
+                    <Text className="text-brand-porcelain/50 text-xs">{step.label}</Text>
+                    <h3 className="text-brand-porcelain text-lg font-semibold">
+                      {campaign.funnel[step.key].toLocaleString()}
+                    </h3>
+                    <div className="h-2 rounded bg-white/10">
+                      <div
+                        className="h-2 rounded bg-brand-cyan"
+                        style={{
+                          width: `${percentOf(campaign.funnel[step.key], campaign.funnel.issued)}%`,
+                        }}
+                      />
+                    </div>
+                    <Text className="text-brand-porcelain/50 text-xs mt-1">
+                      {percentOf(campaign.funnel[step.key], campaign.funnel.issued)}% of issued
+                    </Text>
+                  </div>
+                ))}
+              </div>
+
+              {/* Bulk Actions */}
+              {campaign.status === 'ACTIVE' && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <div>
+                    <Label htmlFor={`extend-${campaign.id}`} className="text-brand-porcelain text-sm">
+                      New end date
+                    </Label>
+                    <Input
+                      id={`extend-${campaign.id}`}
+                      type="datetime-local"
+                      value={extendDates[campaign.id] ?? ''}
+                      onChange={(e) =>
+                        setExtendDates((dates) => ({ ...dates, [campaign.id]: e.target.value }))
+                      }
+                      className="mt-1 bg-white/10 border-white/20 text-brand-porcelain"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => runAction(campaign, 'extend')}
+                    disabled={busy === campaign.id}
+                    variant="outline"
+                    className="border-brand-cyan text-brand-cyan hover:bg-brand-cyan/10"
+                  >
+                    Extend
+                  </Button>
+                  <Button
+                    onClick={() => runAction(campaign, 'revoke')}
+                    disabled={busy === campaign.id}
+                    variant="destructive"
+                  >
+                    Revoke All Codes
+                  </Button>
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
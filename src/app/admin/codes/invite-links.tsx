@@ -0,0 +1,216 @@
+'use client';
+
+/**
+ * Invite Links Component
+ *
+ * Issues personalised, single-use redemption links for partner and media
+ * outreach: one code per email, redeemable only by that address. Rendered
+ * inside AdminCodesClient, which owns the campaign list.
+ */
+
+import { useState } from 'react';
+
+import { type Campaign } from './campaign-dashboard';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { Textarea } from '@/components/ui/textarea';
+
+type CodeType = 'VIP_PREVIEW' | 'VIP_BONUS' | 'VIP_LAUNCH' | 'PARTNER' | 'MEDIA' | 'INFLUENCER';
+
+interface IssuedInvite {
+  email: string;
+  code: string;
+  url: string;
+  expiresAt: string;
+}
+
+interface InviteLinksProps {
+  campaigns: Campaign[];
+  onChange: () => Promise<void>;
+  onError: (message: string) => void;
+}
+
+/**
+ * Split pasted addresses on commas, semicolons and whitespace
+ */
+function parseEmails(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+}
+
+export default function InviteLinks({ campaigns, onChange, onError }: InviteLinksProps) {
+  const [emails, setEmails] = useState('');
+  const [type, setType] = useState<CodeType>('MEDIA');
+  const [campaignId, setCampaignId] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [issuing, setIssuing] = useState(false);
+  const [invites, setInvites] = useState<IssuedInvite[]>([]);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const issueInvites = async () => {
+    setIssuing(true);
+
+    try {
+      const response = await fetch('/api/admin/codes/invites', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          emails: parseEmails(emails),
+          ...(campaignId ? { campaignId } : { type }),
+          validUntil: validUntil ? new Date(validUntil).toISOString() : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to issue invite links');
+      }
+
+      setInvites(data.data.invites);
+      setEmails('');
+      await onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const copyLink = async (invite: IssuedInvite) => {
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      setCopied(invite.email);
+    } catch {
+      onError('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white/5 border-white/10">
+      <h3 className="text-brand-porcelain mb-2 text-xl font-semibold">Invite Links</h3>
+      <Text className="text-brand-porcelain/70 text-sm mb-4">
+        One single-use link per email. Only an account signed in with that address can redeem it.
+      </Text>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="md:col-span-3">
+          <Label htmlFor="inviteEmails" className="text-brand-porcelain">
+            Recipient Emails
+          </Label>
+          <Textarea
+            id="inviteEmails"
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+            placeholder="editor@example.com, producer@example.com"
+            rows={3}
+          />
+        </div>
+        <div>
+          <Label htmlFor="inviteCampaign" className="text-brand-porcelain">
+            Campaign (optional)
+          </Label>
+          <select
+            id="inviteCampaign"
+            value={campaignId}
+            onChange={(e) => setCampaignId(e.target.value)}
+            className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+          >
+            <option value="">No campaign</option>
+            {campaigns
+              .filter((campaign) => campaign.status === 'ACTIVE')
+              .map((campaign) => (
+                <option key={campaign.id} value={campaign.id}>
+                  {campaign.name} ({campaign.type})
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="inviteType" className="text-brand-porcelain">
+            Type
+          </Label>
+          <select
+            id="inviteType"
+            value={type}
+            onChange={(e) => setType(e.target.value as CodeType)}
+            disabled={Boolean(campaignId)}
+            className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+          >
+            <option value="VIP_PREVIEW">VIP Preview</option>
+            <option value="VIP_BONUS">VIP Bonus</option>
+            <option value="VIP_LAUNCH">VIP Launch</option>
+            <option value="PARTNER">Partner</option>
+            <option value="MEDIA">Media</option>
+            <option value="INFLUENCER">Influencer</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="inviteValidUntil" className="text-brand-porcelain">
+            Valid Until (optional)
+          </Label>
+          <Input
+            id="inviteValidUntil"
+            type="datetime-local"
+            value={validUntil}
+            onChange={(e) => setValidUntil(e.target.value)}
+            className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+          />
+        </div>
+      </div>
+      <Button
+        onClick={issueInvites}
+        disabled={issuing || parseEmails(emails).length === 0}
+        className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian mb-4"
+      >
+        {issuing ? 'Issuing...' : 'Issue Invite Links'}
+      </Button>
+
+      {/* Issued Links */}
+      {invites.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Email</th>
+                <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Code</th>
+                <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Expires</th>
+                <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Link</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invites.map((invite) => (
+                <tr key={invite.email} className="border-b border-white/5">
+                  <td className="py-3 px-4 text-brand-porcelain text-sm">{invite.email}</td>
+                  <td className="py-3 px-4 font-mono text-brand-cyan">{invite.code}</td>
+                  <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                    {new Date(invite.expiresAt).toLocaleDateString()}
+                  </td>
+                  <td className="py-3 px-4">
+                    <Button
+                      onClick={() => copyLink(invite)}
+                      variant="outline"
+                      size="sm"
+                      className="border-brand-cyan text-brand-cyan hover:bg-brand-cyan/10"
+                    >
+                      {copied === invite.email ? 'Copied' : 'Copy Link'}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * Admin Email Gallery Client Component
+ *
+ * Client-side UI for browsing the pre-rendered email template previews.
+ */
+
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import type { EmailTemplatePreview } from '@/lib/email-templates';
+
+interface AdminEmailsClientProps {
+  adminEmail: string;
+  previews: EmailTemplatePreview[];
+}
+
+export default function AdminEmailsClient({ adminEmail, previews }: AdminEmailsClientProps) {
+  const [selected, setSelected] = useState(previews[0]?.name);
+  const [view, setView] = useState<'html' | 'text'>('html');
+
+  const preview = previews.find((p) => p.name === selected);
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+            Email Templates
+          </h1>
+          <Text className="text-brand-porcelain/70">
+            {previews.length} templates rendered with fixture data (development only) • Logged in as {adminEmail}
+          </Text>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Template List */}
+          <Card className="p-4 bg-white/5 border-white/10 h-fit">
+            <ul className="space-y-1">
+              {previews.map((p) => (
+                <li key={p.name}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(p.name)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-sm hover:bg-white/10 ${
+                      p.name === selected ? 'bg-white/10 text-brand-cyan' : 'text-brand-porcelain/80'
+                    }`}
+                  >
+                    {p.label}
+                    <span className="block font-mono text-xs text-brand-porcelain/50">{p.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          {/* Preview */}
+          <Card className="p-6 bg-white/5 border-white/10 lg:col-span-3">
+            {preview ? (
+              <>
+                <div className="flex items-center justify-between mb-4 gap-4">
+                  <div>
+                    <Text className="text-brand-porcelain/50 text-sm">Subject</Text>
+                    <h3 className="text-brand-porcelain text-lg font-semibold">{preview.subject}</h3>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['html', 'text'] as const).map((option) => (
+                      <Button
+                        key={option}
+                        type="button"
+                        onClick={() => setView(option)}
+                        variant={view === option ? 'default' : 'outline'}
+                        className={
+                          view === option
+                            ? 'bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian'
+                            : 'border-white/20 text-brand-porcelain'
+                        }
+                      >
+                        {option === 'html' ? 'HTML' : 'Plain text'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {view === 'html' ? (
+                  <iframe
+                    title={`${preview.label} preview`}
+                    srcDoc={preview.html}
+                    sandbox=""
+                    className="w-full h-[800px] rounded-md bg-white"
+                  />
+                ) : (
+                  <pre className="whitespace-pre-wrap rounded-md bg-black/40 p-4 font-mono text-sm text-brand-porcelain/90">
+                    {preview.text}
+                  </pre>
+                )}
+              </>
+            ) : (
+              <Text className="text-brand-porcelain/70">No templates registered</Text>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Admin Dashboard: Email Template Gallery
+ *
+ * Features:
+ * - Every registered email template rendered with fixture data
+ * - HTML preview and plain-text alternate side by side
+ *
+ * Development only: returns 404 in production builds.
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import { notFound } from 'next/navigation';
+
+import AdminEmailsClient from './admin-emails-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+import { renderEmailTemplatePreviews } from '@/lib/email-templates';
+
+/**
+ * Server Component: Admin Email Gallery Page
+ */
+export default async function AdminEmailsPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  // Verify admin access server-side
+  const user = await requireAdmin();
+  const previews = await renderEmailTemplatePreviews();
+
+  return <AdminEmailsClient adminEmail={user.email || ''} previews={previews} />;
+}
@@ -1,33 +1,70 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import {
-  getAllExperiments,
-  getExperiment,
-  type ExperimentId,
-  ConversionEvents,
-} from '@/config/experiments';
+import { useState, useEffect, useCallback } from 'react';
+import { ConversionEvents } from '@/config/experiments';
 import {
+  type ConfidenceLevel,
   type Experiment,
-  type VariantMetrics,
-  type SignificanceResult,
-  calculateVariantMetrics,
-  calculateSignificance,
   getAllAssignments,
   forceVariant,
   clearAllAssignments,
 } from '@/lib/ab-testing';
+import type { ExperimentResultsReport, LiftTimeSeriesPoint } from '@/lib/experiment-results';
+import type { ManagedExperiment } from '@/lib/experiment-store';
+import type { ExperimentActionInput, ExperimentCreateInput } from '@/lib/validation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 
 // ==================== Types ====================
 
-interface ExperimentStats {
-  experimentId: string;
-  variantMetrics: VariantMetrics[];
-  significance: SignificanceResult;
-  totalParticipants: number;
-  totalConversions: number;
+/**
+ * Metric selection: a conversion event, the experiment's primary metric
+ * (`default`) or any conversion (`any`)
+ */
+type MetricSelection = 'default' | 'any' | string;
+
+/**
+ * Line colours for lift series, by variant index (control has no line)
+ */
+const SERIES_COLORS = ['#2563eb', '#db2777', '#ea580c', '#16a34a', '#9333ea'];
+
+/**
+ * Shared style for form controls
+ */
+const INPUT_CLASS = 'rounded-md border bg-background px-2 py-1';
+
+/**
+ * Format a rate (0-1) as a percentage
+ */
+function formatPercent(rate: number, digits = 2): string {
+  return `${(rate * 100).toFixed(digits)}%`;
+}
+
+/**
+ * ISO date to a `datetime-local` input value (local time)
+ */
+function toDateTimeLocal(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * `datetime-local` input value to ISO date (null when empty)
+ */
+function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Read an admin API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data.data as T;
 }
 
 // ==================== Main Component ====================
@@ -37,36 +74,123 @@ interface ExperimentsAdminClientProps {
 }
 
 export default function ExperimentsAdminClient({ adminEmail }: ExperimentsAdminClientProps) {
-  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [experiments, setExperiments] = useState<ManagedExperiment[]>([]);
+  const [listError, setListError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
   const [selectedExperiment, setSelectedExperiment] = useState<string | null>(null);
-  const [experimentStats, setExperimentStats] = useState<ExperimentStats | null>(null);
+  const [experimentStats, setExperimentStats] = useState<ExperimentResultsReport | null>(null);
+  const [metric, setMetric] = useState<MetricSelection>('default');
+  const [confidence, setConfidence] = useState<ConfidenceLevel>(95);
+  const [loadingStats, setLoadingStats] = useState(false);
+  const [statsError, setStatsError] = useState<string | null>(null);
   const [assignments, setAssignments] = useState(0);
 
+  const loadExperiments = useCallback(async () => {
+    try {
+      const data = await readResponse<{ experiments: ManagedExperiment[] }>(
+        await fetch('/api/admin/experiments', { credentials: 'include' })
+      );
+      setExperiments(data.experiments);
+      setListError(null);
+    } catch (err) {
+      setListError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
   // Load experiments on mount
   useEffect(() => {
-    const allExperiments = getAllExperiments();
-    setExperiments(allExperiments);
+    void loadExperiments();
 
     // Count assignments
     const allAssignments = getAllAssignments();
     setAssignments(allAssignments.size);
-  }, []);
+  }, [loadExperiments]);
+
+  /**
+   * Create an experiment; throws with the API error message
+   */
+  const handleCreate = async (input: ExperimentCreateInput) => {
+    const data = await readResponse<{ experiment: ManagedExperiment }>(
+      await fetch('/api/admin/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(input),
+      })
+    );
+
+    setShowCreate(false);
+    await loadExperiments();
+    setSelectedExperiment(data.experiment.id);
+  };
+
+  /**
+   * Edit or change the status of an experiment; throws with the API error
+   */
+  const handleAction = async (experimentId: string, action: ExperimentActionInput) => {
+    await readResponse<{ experiment: ManagedExperiment }>(
+      await fetch(`/api/admin/experiments/${experimentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(action),
+      })
+    );
+
+    await loadExperiments();
+  };
 
-  // Load stats for selected experiment
+  // Load results for selected experiment
   useEffect(() => {
     if (!selectedExperiment) {
       setExperimentStats(null);
       return;
     }
 
-    // In production, fetch stats from analytics API
-    // For now, generate mock data for demonstration
-    const stats = generateMockStats(selectedExperiment);
-    setExperimentStats(stats);
-  }, [selectedExperiment]);
+    let cancelled = false;
+    const params = new URLSearchParams({ confidence: String(confidence) });
+    if (metric !== 'default') {
+      params.set('metric', metric);
+    }
+
+    const loadResults = async () => {
+      setLoadingStats(true);
+      setStatsError(null);
+
+      try {
+        const response = await fetch(
+          `/api/admin/experiments/${selectedExperiment}/results?${params}`,
+          { credentials: 'include' }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load results');
+        }
+        if (!cancelled) {
+          setExperimentStats(data.data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setExperimentStats(null);
+          setStatsError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingStats(false);
+        }
+      }
+    };
+
+    void loadResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedExperiment, metric, confidence]);
 
   const handleForceVariant = (experimentId: string, variantId: string) => {
-    const experiment = getExperiment(experimentId);
+    const experiment = experiments.find((e) => e.id === experimentId);
     if (!experiment) return;
 
     const variant = experiment.variants.find(v => v.id === variantId);
@@ -106,7 +230,14 @@ export default function ExperimentsAdminClient({ adminEmail }: ExperimentsAdminC
       <div className="grid gap-8 lg:grid-cols-3">
         {/* Experiments List */}
         <div className="lg:col-span-1">
-          <h2 className="mb-4 text-2xl font-semibold">Experiments</h2>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-2xl font-semibold">Experiments</h2>
+            <Button variant="outline" size="sm" onClick={() => setShowCreate(!showCreate)}>
+              {showCreate ? 'Cancel' : 'New Experiment'}
+            </Button>
+          </div>
+          {listError && <p className="mb-3 text-sm text-red-600">{listError}</p>}
+          {showCreate && <CreateExperimentForm onCreate={handleCreate} />}
           <div className="space-y-3">
             {experiments.map((experiment) => (
               <Card
@@ -114,17 +245,20 @@ export default function ExperimentsAdminClient({ adminEmail }: ExperimentsAdminC
                 className={`cursor-pointer p-4 transition-colors hover:bg-accent ${
                   selectedExperiment === experiment.id ? 'border-primary bg-accent' : ''
                 }`}
-                onClick={() => setSelectedExperiment(experiment.id)}
+                onClick={() => {
+                  setSelectedExperiment(experiment.id);
+                  setMetric('default');
+                }}
               >
                 <div className="mb-2 flex items-start justify-between">
                   <h3 className="font-semibold">{experiment.name}</h3>
-                  <StatusBadge active={experiment.active} />
+                  <StatusBadge experiment={experiment} />
                 </div>
                 <p className="mb-2 text-sm text-muted-foreground">{experiment.description}</p>
                 <div className="flex gap-2 text-xs text-muted-foreground">
                   <span>{experiment.variants.length} variants</span>
                   <span>•</span>
-                  <span>{(experiment.trafficAllocation || 1) * 100}% traffic</span>
+                  <span>{(experiment.trafficAllocation ?? 1) * 100}% traffic</span>
                 </div>
               </Card>
             ))}
@@ -135,9 +269,16 @@ export default function ExperimentsAdminClient({ adminEmail }: ExperimentsAdminC
         <div className="lg:col-span-2">
           {selectedExperiment ? (
             <ExperimentDetails
-              experimentId={selectedExperiment}
+              experiment={experiments.find((e) => e.id === selectedExperiment)}
               stats={experimentStats}
+              loading={loadingStats}
+              error={statsError}
+              metric={metric}
+              confidence={confidence}
+              onMetricChange={setMetric}
+              onConfidenceChange={setConfidence}
               onForceVariant={handleForceVariant}
+              onAction={(action) => handleAction(selectedExperiment, action)}
             />
           ) : (
             <Card className="flex h-64 items-center justify-center p-8">
@@ -164,31 +305,370 @@ export default function ExperimentsAdminClient({ adminEmail }: ExperimentsAdminC
 
 // ==================== Sub-components ====================
 
-function StatusBadge({ active }: { active: boolean }) {
+/**
+ * Status label, distinguishing running experiments outside their schedule
+ * and stopped experiments serving a winner
+ */
+function getStatusLabel(experiment: ManagedExperiment): string {
+  switch (experiment.status) {
+    case 'RUNNING':
+      return experiment.active ? 'Running' : 'Scheduled';
+    case 'STOPPED':
+      return experiment.winnerVariantId ? `Winner: ${experiment.winnerVariantId}` : 'Stopped';
+    case 'PAUSED':
+      return 'Paused';
+    default:
+      return 'Draft';
+  }
+}
+
+function StatusBadge({ experiment }: { experiment: ManagedExperiment }) {
   return (
     <span
       className={`rounded-full px-2 py-1 text-xs font-medium ${
-        active
+        experiment.active
           ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
           : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
       }`}
     >
-      {active ? 'Active' : 'Inactive'}
+      {getStatusLabel(experiment)}
     </span>
   );
 }
 
+/**
+ * Form for a new experiment (created as a draft)
+ */
+function CreateExperimentForm({
+  onCreate,
+}: {
+  onCreate: (input: ExperimentCreateInput) => Promise<void>;
+}) {
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [primaryMetric, setPrimaryMetric] = useState('');
+  const [variants, setVariants] = useState([
+    { id: 'A', name: 'Control', weight: 0.5 },
+    { id: 'B', name: 'Challenger', weight: 0.5 },
+  ]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateVariant = (index: number, changes: Partial<(typeof variants)[number]>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await onCreate({
+        id,
+        name,
+        description,
+        variants,
+        trafficAllocation: 1,
+        primaryMetric: primaryMetric || null,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4 p-4">
+      <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+        <input
+          className={`${INPUT_CLASS} w-full`}
+          placeholder="ID (e.g. pricing-copy)"
+          value={id}
+          onChange={(e) => setId(e.target.value)}
+          required
+        />
+        <input
+          className={`${INPUT_CLASS} w-full`}
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        <input
+          className={`${INPUT_CLASS} w-full`}
+          placeholder="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <select
+          className={`${INPUT_CLASS} w-full`}
+          value={primaryMetric}
+          onChange={(e) => setPrimaryMetric(e.target.value)}
+        >
+          <option value="">Primary metric: any conversion</option>
+          {Object.values(ConversionEvents).map((eventName) => (
+            <option key={eventName} value={eventName}>
+              {eventName}
+            </option>
+          ))}
+        </select>
+
+        <div className="space-y-2">
+          {variants.map((variant, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                className={`${INPUT_CLASS} w-12`}
+                value={variant.id}
+                onChange={(e) => updateVariant(index, { id: e.target.value })}
+                aria-label="Variant ID"
+                required
+              />
+              <input
+                className={`${INPUT_CLASS} min-w-0 flex-1`}
+                value={variant.name}
+                onChange={(e) => updateVariant(index, { name: e.target.value })}
+                aria-label="Variant name"
+                required
+              />
+              <input
+                className={`${INPUT_CLASS} w-20`}
+                type="number"
+                min={0}
+                max={1}
+                step={0.01}
+                value={variant.weight}
+                onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                aria-label="Variant weight"
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setVariants([
+                ...variants,
+                { id: String.fromCharCode(65 + variants.length), name: '', weight: 0 },
+              ])
+            }
+          >
+            Add Variant
+          </Button>
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+        <Button type="submit" size="sm" disabled={submitting}>
+          {submitting ? 'Creating…' : 'Create Draft'}
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+/**
+ * Lifecycle actions, variant weights, traffic and schedule
+ */
+function ExperimentManagement({
+  experiment,
+  onAction,
+}: {
+  experiment: ManagedExperiment;
+  onAction: (action: ExperimentActionInput) => Promise<void>;
+}) {
+  const [weights, setWeights] = useState<Record<string, number>>(() =>
+    Object.fromEntries(experiment.variants.map((variant) => [variant.id, variant.weight]))
+  );
+  const [trafficAllocation, setTrafficAllocation] = useState(experiment.trafficAllocation ?? 1);
+  const [startDate, setStartDate] = useState(toDateTimeLocal(experiment.startDate));
+  const [endDate, setEndDate] = useState(toDateTimeLocal(experiment.endDate));
+  const [winner, setWinner] = useState(experiment.winnerVariantId ?? experiment.variants[0].id);
+  // Stop and declare winner need a second click to confirm
+  const [confirming, setConfirming] = useState<'stop' | 'declare_winner' | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: ExperimentActionInput) => {
+    setBusy(true);
+    setError(null);
+    setConfirming(null);
+
+    try {
+      await onAction(action);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stopped = experiment.status === 'STOPPED';
+
+  return (
+    <Card className="p-6">
+      <h3 className="mb-4 text-xl font-semibold">Manage</h3>
+
+      <div className="mb-4 flex flex-wrap gap-2">
+        {(experiment.status === 'DRAFT' || experiment.status === 'PAUSED') && (
+          <Button size="sm" disabled={busy} onClick={() => run({ action: 'start' })}>
+            {experiment.status === 'DRAFT' ? 'Start' : 'Resume'}
+          </Button>
+        )}
+        {experiment.status === 'RUNNING' && (
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => run({ action: 'pause' })}>
+            Pause
+          </Button>
+        )}
+        {!stopped && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy}
+            onClick={() =>
+              confirming === 'stop' ? void run({ action: 'stop' }) : setConfirming('stop')
+            }
+          >
+            {confirming === 'stop' ? 'Confirm: everyone sees control' : 'Stop'}
+          </Button>
+        )}
+        {experiment.status !== 'DRAFT' && (
+          <div className="flex items-center gap-2">
+            <select
+              className={INPUT_CLASS}
+              value={winner}
+              onChange={(e) => {
+                setWinner(e.target.value);
+                setConfirming(null);
+              }}
+              aria-label="Winning variant"
+            >
+              {experiment.variants.map((variant) => (
+                <option key={variant.id} value={variant.id}>
+                  Variant {variant.id}: {variant.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy || experiment.winnerVariantId === winner}
+              onClick={() =>
+                confirming === 'declare_winner'
+                  ? void run({ action: 'declare_winner', variantId: winner })
+                  : setConfirming('declare_winner')
+              }
+            >
+              {confirming === 'declare_winner'
+                ? `Confirm: serve ${winner} to 100%`
+                : 'Declare Winner'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!stopped && (
+        <form
+          className="space-y-3 text-sm"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void run({
+              action: 'update',
+              weights,
+              trafficAllocation,
+              startDate: fromDateTimeLocal(startDate),
+              endDate: fromDateTimeLocal(endDate),
+            });
+          }}
+        >
+          <div className="flex flex-wrap gap-4">
+            {experiment.variants.map((variant) => (
+              <label key={variant.id} className="flex items-center gap-2">
+                <span className="font-medium">Weight {variant.id}:</span>
+                <input
+                  className={`${INPUT_CLASS} w-20`}
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={weights[variant.id] ?? 0}
+                  onChange={(e) => setWeights({ ...weights, [variant.id]: Number(e.target.value) })}
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Traffic:</span>
+              <input
+                className={`${INPUT_CLASS} w-20`}
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={trafficAllocation}
+                onChange={(e) => setTrafficAllocation(Number(e.target.value))}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Start:</span>
+              <input
+                className={INPUT_CLASS}
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="font-medium">End:</span>
+              <input
+                className={INPUT_CLASS}
+                type="datetime-local"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Changing weights mid-experiment only affects new participants and will show as a
+            sample ratio mismatch.
+          </p>
+          <Button type="submit" size="sm" variant="outline" disabled={busy}>
+            Save Changes
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </Card>
+  );
+}
+
 function ExperimentDetails({
-  experimentId,
+  experiment,
   stats,
+  loading,
+  error,
+  metric,
+  confidence,
+  onMetricChange,
+  onConfidenceChange,
   onForceVariant,
+  onAction,
 }: {
-  experimentId: string;
-  stats: ExperimentStats | null;
+  experiment: ManagedExperiment | undefined;
+  stats: ExperimentResultsReport | null;
+  loading: boolean;
+  error: string | null;
+  metric: MetricSelection;
+  confidence: ConfidenceLevel;
+  onMetricChange: (metric: MetricSelection) => void;
+  onConfidenceChange: (confidence: ConfidenceLevel) => void;
   onForceVariant: (experimentId: string, variantId: string) => void;
+  onAction: (action: ExperimentActionInput) => Promise<void>;
 }) {
-  const experiment = getExperiment(experimentId);
-
   if (!experiment) {
     return (
       <Card className="p-8">
@@ -205,25 +685,93 @@ function ExperimentDetails({
         <p className="mb-4 text-muted-foreground">{experiment.description}</p>
         <div className="flex flex-wrap gap-4 text-sm">
           <div>
-            <span className="font-medium">Status:</span>{' '}
-            {experiment.active ? 'Active' : 'Inactive'}
+            <span className="font-medium">Status:</span> {getStatusLabel(experiment)}
           </div>
           <div>
             <span className="font-medium">Traffic:</span>{' '}
-            {(experiment.trafficAllocation || 1) * 100}%
+            {(experiment.trafficAllocation ?? 1) * 100}%
           </div>
+          {(experiment.startDate || experiment.endDate) && (
+            <div>
+              <span className="font-medium">Schedule:</span>{' '}
+              {experiment.startDate ? new Date(experiment.startDate).toLocaleString() : 'now'} –{' '}
+              {experiment.endDate ? new Date(experiment.endDate).toLocaleString() : 'open-ended'}
+            </div>
+          )}
           <div>
             <span className="font-medium">Variants:</span> {experiment.variants.length}
           </div>
         </div>
+
+        <div className="mt-4 flex flex-wrap gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="font-medium">Metric:</span>
+            <select
+              className="rounded-md border bg-background px-2 py-1"
+              value={metric}
+              onChange={(e) => onMetricChange(e.target.value)}
+            >
+              <option value="default">
+                Primary ({experiment.primaryMetric ?? 'any conversion'})
+              </option>
+              <option value="any">Any conversion</option>
+              {Object.values(ConversionEvents).map((eventName) => (
+                <option key={eventName} value={eventName}>
+                  {eventName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="font-medium">Confidence:</span>
+            <select
+              className="rounded-md border bg-background px-2 py-1"
+              value={confidence}
+              onChange={(e) => onConfidenceChange(Number(e.target.value) as ConfidenceLevel)}
+            >
+              {[90, 95, 99, 99.9].map((level) => (
+                <option key={level} value={level}>
+                  {level}%
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {loading && <p className="mt-4 text-sm text-muted-foreground">Loading results…</p>}
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
       </Card>
 
+      <ExperimentManagement key={experiment.updatedAt} experiment={experiment} onAction={onAction} />
+
+      {/* Sample Ratio Mismatch */}
+      {stats?.sampleRatioMismatch.detected && (
+        <Card className="border-red-500 bg-red-50 p-6 dark:bg-red-950">
+          <h3 className="mb-2 text-lg font-semibold">Sample ratio mismatch detected</h3>
+          <p className="mb-3 text-sm">
+            The traffic split differs from the configured weights (χ² ={' '}
+            {stats.sampleRatioMismatch.chiSquared.toFixed(2)}, p &lt; 0.001). Assignment or
+            exposure tracking is likely broken; do not trust these results until it is fixed.
+          </p>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {experiment.variants.map((variant) => (
+              <div key={variant.id}>
+                <span className="font-medium">Variant {variant.id}:</span>{' '}
+                {formatPercent(stats.sampleRatioMismatch.observedShares[variant.id] ?? 0, 1)} observed
+                vs {formatPercent(stats.sampleRatioMismatch.expectedShares[variant.id] ?? 0, 1)}{' '}
+                expected
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Variants */}
       <Card className="p-6">
         <h3 className="mb-4 text-xl font-semibold">Variants</h3>
         <div className="space-y-4">
           {experiment.variants.map((variant) => {
-            const variantStats = stats?.variantMetrics.find((v) => v.variantId === variant.id);
+            const variantStats = stats?.variants.find((v) => v.variantId === variant.id);
 
             return (
               <div key={variant.id} className="rounded-lg border p-4">
@@ -239,7 +787,7 @@ function ExperimentDetails({
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => onForceVariant(experimentId, variant.id)}
+                    onClick={() => onForceVariant(experiment.id, variant.id)}
                   >
                     Force
                   </Button>
@@ -266,8 +814,30 @@ function ExperimentDetails({
                         : '0.00'}
                       %
                     </div>
+                    {variantStats && variantStats.participants > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {formatPercent(variantStats.confidenceInterval.lower)} –{' '}
+                        {formatPercent(variantStats.confidenceInterval.upper)}
+                      </div>
+                    )}
                   </div>
                 </div>
+
+                {variantStats?.lift && (
+                  <div className="mt-3 text-sm">
+                    <span className="text-muted-foreground">Lift vs control:</span>{' '}
+                    <span className="font-medium">
+                      {variantStats.lift.relativeLift === null
+                        ? 'n/a'
+                        : `${variantStats.lift.relativeLift >= 0 ? '+' : ''}${variantStats.lift.relativeLift.toFixed(2)}%`}
+                    </span>{' '}
+                    <span className="text-muted-foreground">
+                      (difference {formatPercent(variantStats.lift.absoluteDifference)}, {confidence}% CI{' '}
+                      {formatPercent(variantStats.lift.interval.lower)} to{' '}
+                      {formatPercent(variantStats.lift.interval.upper)})
+                    </span>
+                  </div>
+                )}
               </div>
             );
           })}
@@ -350,10 +920,27 @@ function ExperimentDetails({
         </Card>
       )}
 
+      {/* Cumulative Lift */}
+      {stats && stats.timeSeries.length > 0 && experiment.variants.length > 1 && (
+        <Card className="p-6">
+          <h3 className="mb-1 text-xl font-semibold">Cumulative Lift Over Time</h3>
+          <p className="mb-4 text-sm text-muted-foreground">
+            Relative lift of each variant over control (Variant {experiment.variants[0].id}),
+            using all data up to each day.
+          </p>
+          <LiftChart experiment={experiment} series={stats.timeSeries} />
+        </Card>
+      )}
+
       {/* Instructions */}
       <Card className="p-6">
         <h3 className="mb-3 text-xl font-semibold">Testing Instructions</h3>
         <div className="space-y-2 text-sm">
+          <p>
+            <strong>Lifecycle:</strong> Drafts and paused experiments show the control to everyone.
+            Declaring a winner stops the experiment and serves that variant to 100% of traffic.
+            Changes reach every server within a minute.
+          </p>
           <p>
             <strong>Force Variant:</strong> Click &quot;Force&quot; to test a specific variant. This
             will override the automatic assignment for your browser.
@@ -362,6 +949,11 @@ function ExperimentDetails({
             <strong>Clear Assignments:</strong> Use the &quot;Clear All Assignments&quot; button to
             reset all users to new variant assignments.
           </p>
+          <p>
+            <strong>Results:</strong> Computed from exposures and conversions stored by{' '}
+            <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">/api/experiments/track</code>.
+            Each participant counts once per metric.
+          </p>
           <p>
             <strong>View in GTM:</strong> All experiment events are tracked in Google Tag Manager
             under <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">experiment_assigned</code> and{' '}
@@ -373,61 +965,88 @@ function ExperimentDetails({
   );
 }
 
-// ==================== Mock Data Generator ====================
+// ==================== Lift Chart ====================
 
 /**
- * Generate mock statistics for demonstration
- * In production, replace with API call to analytics backend
+ * Line chart of cumulative relative lift per non-control variant
  */
-function generateMockStats(experimentId: string): ExperimentStats {
-  const experiment = getExperiment(experimentId);
-
-  if (!experiment) {
-    return {
-      experimentId,
-      variantMetrics: [],
-      significance: {
-        isSignificant: false,
-        confidence: 95,
-        chiSquared: 0,
-        pValue: 1,
-        degreesOfFreedom: 0,
-      },
-      totalParticipants: 0,
-      totalConversions: 0,
-    };
-  }
-
-  // Generate realistic mock data
-  const variantMetrics: VariantMetrics[] = experiment.variants.map((variant, index) => {
-    // Base participants on variant weight
-    const participants = Math.floor(1000 * variant.weight);
+function LiftChart({
+  experiment,
+  series,
+}: {
+  experiment: Experiment;
+  series: LiftTimeSeriesPoint[];
+}) {
+  const width = 640;
+  const height = 220;
+  const padding = { top: 12, right: 12, bottom: 24, left: 48 };
+  const challengers = experiment.variants.slice(1);
 
-    // Vary conversion rates slightly between variants
-    const baseRate = 0.12; // 12% base conversion rate
-    const variance = index * 0.02; // Each variant differs by 2%
-    const conversionRate = baseRate + variance;
+  const values = series.flatMap((point) =>
+    challengers
+      .map((variant) => point.variants[variant.id]?.relativeLift)
+      .filter((lift): lift is number => lift !== null && lift !== undefined)
+  );
+  const maxAbs = Math.max(10, ...values.map((value) => Math.abs(value)));
 
-    const conversions = Math.floor(participants * conversionRate);
+  const x = (index: number) =>
+    padding.left +
+    (series.length > 1 ? (index / (series.length - 1)) * (width - padding.left - padding.right) : 0);
+  const y = (lift: number) =>
+    padding.top + ((maxAbs - lift) / (2 * maxAbs)) * (height - padding.top - padding.bottom);
 
-    return calculateVariantMetrics(
-      variant.id,
-      variant.name,
-      participants,
-      conversions
-    );
-  });
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label="Cumulative lift over time">
+        <line x1={padding.left} x2={width - padding.right} y1={y(0)} y2={y(0)} stroke="currentColor" strokeOpacity={0.3} />
+        <text x={padding.left - 6} y={y(maxAbs) + 4} textAnchor="end" fontSize={10} fill="currentColor">
+          +{maxAbs.toFixed(0)}%
+        </text>
+        <text x={padding.left - 6} y={y(0) + 4} textAnchor="end" fontSize={10} fill="currentColor">
+          0%
+        </text>
+        <text x={padding.left - 6} y={y(-maxAbs) + 4} textAnchor="end" fontSize={10} fill="currentColor">
+          -{maxAbs.toFixed(0)}%
+        </text>
+        <text x={padding.left} y={height - 6} fontSize={10} fill="currentColor">
+          {series[0].date}
+        </text>
+        <text x={width - padding.right} y={height - 6} textAnchor="end" fontSize={10} fill="currentColor">
+          {series[series.length - 1].date}
+        </text>
 
-  const totalParticipants = variantMetrics.reduce((sum, v) => sum + v.participants, 0);
-  const totalConversions = variantMetrics.reduce((sum, v) => sum + v.conversions, 0);
+        {challengers.map((variant, index) => {
+          const points = series
+            .map((point, pointIndex) => {
+              const lift = point.variants[variant.id]?.relativeLift;
+              return lift === null || lift === undefined ? null : `${x(pointIndex)},${y(lift)}`;
+            })
+            .filter(Boolean)
+            .join(' ');
 
-  const significance = calculateSignificance(variantMetrics, 95);
+          return (
+            <polyline
+              key={variant.id}
+              points={points}
+              fill="none"
+              stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+              strokeWidth={2}
+            />
+          );
+        })}
+      </svg>
 
-  return {
-    experimentId,
-    variantMetrics,
-    significance,
-    totalParticipants,
-    totalConversions,
-  };
+      <div className="mt-2 flex flex-wrap gap-4 text-sm">
+        {challengers.map((variant, index) => (
+          <div key={variant.id} className="flex items-center gap-2">
+            <span
+              className="inline-block h-2 w-4 rounded"
+              style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+            />
+            Variant {variant.id}: {variant.name}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
 }
@@ -0,0 +1,246 @@
+'use client';
+
+/**
+ * Admin Jobs Client Component
+ *
+ * Client-side UI for inspecting the durable job queue and re-driving
+ * failed jobs. Uses session cookies for API authentication.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+interface Job {
+  id: string;
+  queue: string;
+  idempotencyKey: string | null;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobCount {
+  queue: string;
+  status: JobStatus;
+  count: number;
+}
+
+interface AdminJobsClientProps {
+  adminEmail: string;
+}
+
+const STATUSES: JobStatus[] = ['DEAD', 'PENDING', 'RUNNING', 'COMPLETED'];
+
+export default function AdminJobsClient({ adminEmail }: AdminJobsClientProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [counts, setCounts] = useState<JobCount[]>([]);
+  const [filterStatus, setFilterStatus] = useState<JobStatus | ''>('DEAD');
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (filterStatus) params.set('status', filterStatus);
+
+      const response = await fetch(`/api/admin/jobs?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load jobs');
+      }
+
+      const data = await response.json();
+      setJobs(data.data.jobs);
+      setCounts(data.data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus]);
+
+  const retry = async (jobId: string) => {
+    setRetrying(jobId);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobId}/retry`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to retry job');
+      }
+
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const queues = Array.from(new Set(counts.map((c) => c.queue))).sort();
+  const countFor = (queue: string, status: JobStatus) =>
+    counts.find((c) => c.queue === queue && c.status === status)?.count ?? 0;
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+            Background Jobs
+          </h1>
+          <Text className="text-brand-porcelain/70">
+            Monitor queues and re-drive failed jobs • Logged in as {adminEmail}
+          </Text>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+
+        {/* Queue Counts */}
+        {queues.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {queues.map((queue) => (
+              <Card key={queue} className="p-6 bg-white/5 border-white/10">
+                <Text className="text-brand-porcelain mb-3 font-mono text-sm">{queue}</Text>
+                <div className="flex gap-6 text-sm">
+                  {STATUSES.map((status) => (
+                    <div key={status}>
+                      <Text className="text-brand-porcelain/50 text-xs">{status}</Text>
+                      <h3
+                        className={
+                          status === 'DEAD' && countFor(queue, status) > 0
+                            ? 'text-red-400 text-xl font-semibold'
+                            : 'text-brand-porcelain text-xl font-semibold'
+                        }
+                      >
+                        {countFor(queue, status).toLocaleString()}
+                      </h3>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Filters */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <div className="flex items-end gap-4">
+            <div>
+              <Label htmlFor="filterStatus" className="text-brand-porcelain">
+                Filter by Status
+              </Label>
+              <select
+                id="filterStatus"
+                value={filterStatus}
+                onChange={(e) => setFilterStatus(e.target.value as JobStatus | '')}
+                className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+              >
+                <option value="">All Statuses</option>
+                {STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button
+              onClick={loadJobs}
+              disabled={loading}
+              variant="outline"
+              className="border-white/20 text-brand-porcelain"
+            >
+              Refresh
+            </Button>
+          </div>
+        </Card>
+
+        {/* Jobs List */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">Jobs</h3>
+          {loading ? (
+            <Text className="text-brand-porcelain/70">Loading...</Text>
+          ) : jobs.length === 0 ? (
+            <Text className="text-brand-porcelain/70">No jobs found</Text>
+          ) : (
+            <div className="space-y-4">
+              {jobs.map((job) => (
+                <Card key={job.id} className="p-4 bg-white/5 border-white/10">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-2 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <code className="font-mono text-sm text-brand-cyan">{job.queue}</code>
+                        <Badge variant={job.status === 'DEAD' ? 'destructive' : 'secondary'}>
+                          {job.status}
+                        </Badge>
+                        {job.idempotencyKey && (
+                          <Badge variant="outline">{job.idempotencyKey}</Badge>
+                        )}
+                      </div>
+                      {job.lastError && (
+                        <Text className="text-red-400 text-sm break-words">{job.lastError}</Text>
+                      )}
+                      <div className="flex gap-4 text-sm text-brand-porcelain/50">
+                        <span>
+                          Attempts: {job.attempts} / {job.maxAttempts}
+                        </span>
+                        <span>Created: {new Date(job.createdAt).toLocaleString()}</span>
+                        {job.status === 'PENDING' && (
+                          <span>Next run: {new Date(job.runAt).toLocaleString()}</span>
+                        )}
+                      </div>
+                    </div>
+                    {(job.status === 'DEAD' || job.status === 'PENDING') && (
+                      <Button
+                        onClick={() => retry(job.id)}
+                        disabled={retrying === job.id}
+                        className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian shrink-0"
+                      >
+                        {retrying === job.id
+                          ? 'Retrying...'
+                          : job.status === 'DEAD'
+                            ? 'Re-drive'
+                            : 'Run now'}
+                      </Button>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
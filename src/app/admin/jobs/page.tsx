@@ -0,0 +1,26 @@
+/**
+ * Admin Dashboard: Background Jobs
+ *
+ * Features:
+ * - Per-queue job counts by status
+ * - List dead-lettered and pending jobs with their last error
+ * - Re-drive failed jobs
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminJobsClient from './admin-jobs-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+
+/**
+ * Server Component: Admin Jobs Page
+ */
+export default async function AdminJobsPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminJobsClient adminEmail={user.email || ''} />;
+}
@@ -0,0 +1,375 @@
+'use client';
+
+/**
+ * Admin Newsletter Client Component
+ *
+ * Client-side UI for segmenting newsletter subscribers.
+ * Uses session cookies for API authentication.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type SubscriberStatus = 'PENDING' | 'CONFIRMED' | 'UNSUBSCRIBED' | 'BOUNCED';
+
+interface Subscriber {
+  id: string;
+  email: string;
+  name: string | null;
+  status: SubscriberStatus;
+  interests: string[];
+  source: string;
+  utmSource: string | null;
+  utmCampaign: string | null;
+  geo: string | null;
+  consentedAt: string;
+  confirmedAt: string | null;
+  createdAt: string;
+}
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface SubscriberFacets {
+  status: FacetCount[];
+  interests: FacetCount[];
+  geo: FacetCount[];
+  source: FacetCount[];
+}
+
+interface SegmentFilters {
+  status: string;
+  interest: string;
+  geo: string;
+  source: string;
+  search: string;
+}
+
+interface AdminNewsletterClientProps {
+  adminEmail: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: SegmentFilters = {
+  status: '',
+  interest: '',
+  geo: '',
+  source: '',
+  search: '',
+};
+
+const EMPTY_FACETS: SubscriberFacets = {
+  status: [],
+  interests: [],
+  geo: [],
+  source: [],
+};
+
+const FACET_SECTIONS: Array<{
+  title: string;
+  facet: keyof SubscriberFacets;
+  filter: keyof SegmentFilters;
+}> = [
+  { title: 'Status', facet: 'status', filter: 'status' },
+  { title: 'Interests', facet: 'interests', filter: 'interest' },
+  { title: 'Geo', facet: 'geo', filter: 'geo' },
+  { title: 'Source', facet: 'source', filter: 'source' },
+];
+
+const STATUS_VARIANTS: Record<SubscriberStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  CONFIRMED: 'default',
+  PENDING: 'secondary',
+  UNSUBSCRIBED: 'outline',
+  BOUNCED: 'destructive',
+};
+
+/**
+ * Query string for the current filters (empty values omitted)
+ */
+function toSearchParams(filters: SegmentFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params;
+}
+
+export default function AdminNewsletterClient({ adminEmail }: AdminNewsletterClientProps) {
+  const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [facets, setFacets] = useState<SubscriberFacets>(EMPTY_FACETS);
+  const [filters, setFilters] = useState<SegmentFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<SegmentFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSubscribers = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = toSearchParams(appliedFilters);
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/admin/newsletter/subscribers?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load subscribers');
+      }
+
+      const data = await response.json();
+      setSubscribers(data.data.subscribers);
+      setFacets(data.data.facets);
+      setTotal(data.data.pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    loadSubscribers();
+  }, [loadSubscribers]);
+
+  const applyFilters = (next: SegmentFilters) => {
+    setFilters(next);
+    setPage(1);
+    setAppliedFilters(next);
+  };
+
+  const updateFilter = (key: keyof SegmentFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const toggleFacet = (key: keyof SegmentFilters, value: string) => {
+    applyFilters({ ...appliedFilters, [key]: appliedFilters[key] === value ? '' : value });
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+              Newsletter Subscribers
+            </h1>
+            <Text className="text-brand-porcelain/70">
+              Segment by status, interest, geo and source • Logged in as {adminEmail}
+            </Text>
+          </div>
+          <a href="/admin/newsletter/campaigns">
+            <Button variant="outline" className="border-white/20 text-brand-porcelain">
+              Campaigns
+            </Button>
+          </a>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <form
+            className="grid grid-cols-1 md:grid-cols-5 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters(filters);
+            }}
+          >
+            <div className="md:col-span-5">
+              <Label htmlFor="search" className="text-brand-porcelain">
+                Email
+              </Label>
+              <Input
+                id="search"
+                value={filters.search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+                placeholder="Search by email"
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            {FACET_SECTIONS.map(({ title, facet, filter }) => (
+              <div key={filter}>
+                <Label htmlFor={filter} className="text-brand-porcelain">
+                  {title}
+                </Label>
+                <select
+                  id={filter}
+                  value={filters[filter]}
+                  onChange={(e) => updateFilter(filter, e.target.value)}
+                  className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+                >
+                  <option value="">All</option>
+                  {facets[facet].map(({ value }) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                  {filters[filter] && !facets[facet].some(({ value }) => value === filters[filter]) && (
+                    <option value={filters[filter]}>{filters[filter]}</option>
+                  )}
+                </select>
+              </div>
+            ))}
+            <div className="flex items-end gap-3">
+              <Button
+                type="submit"
+                disabled={loading}
+                className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+              >
+                Apply
+              </Button>
+              <Button
+                type="button"
+                onClick={() => applyFilters(EMPTY_FILTERS)}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Reset
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* Segment Breakdown */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {FACET_SECTIONS.map(({ title, facet, filter }) => (
+            <Card key={facet} className="p-6 bg-white/5 border-white/10">
+              <h3 className="text-brand-porcelain mb-3 font-semibold">{title}</h3>
+              {facets[facet].length === 0 ? (
+                <Text className="text-brand-porcelain/50 text-sm">No subscribers</Text>
+              ) : (
+                <ul className="space-y-1">
+                  {facets[facet].map(({ value, count }) => (
+                    <li key={value}>
+                      <button
+                        type="button"
+                        onClick={() => toggleFacet(filter, value)}
+                        className={`flex w-full justify-between text-sm hover:text-brand-cyan ${
+                          appliedFilters[filter] === value ? 'text-brand-cyan' : 'text-brand-porcelain/80'
+                        }`}
+                      >
+                        <span>{value}</span>
+                        <span className="font-mono">{count.toLocaleString()}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          ))}
+        </div>
+
+        {/* Subscribers */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-brand-porcelain text-xl font-semibold">
+              Subscribers ({total.toLocaleString()})
+            </h3>
+            <div className="flex items-center gap-3">
+              <Button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={loading || page <= 1}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Previous
+              </Button>
+              <Text className="text-brand-porcelain/70 text-sm">
+                Page {page} of {totalPages}
+              </Text>
+              <Button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={loading || page >= totalPages}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <Text className="text-brand-porcelain/70">Loading...</Text>
+          ) : subscribers.length === 0 ? (
+            <Text className="text-brand-porcelain/70">No subscribers found</Text>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/10">
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Email</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Status</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Interests</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Source</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Geo</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Subscribed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {subscribers.map((subscriber) => (
+                    <tr key={subscriber.id} className="border-b border-white/5">
+                      <td className="py-3 px-4 text-brand-porcelain text-sm">
+                        {subscriber.email}
+                        {subscriber.name && (
+                          <span className="block text-brand-porcelain/50">{subscriber.name}</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge variant={STATUS_VARIANTS[subscriber.status]}>{subscriber.status}</Badge>
+                      </td>
+                      <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                        {subscriber.interests.join(', ') || '—'}
+                      </td>
+                      <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                        {subscriber.source}
+                        {subscriber.utmSource && (
+                          <span className="block text-brand-porcelain/50">
+                            {subscriber.utmSource}
+                            {subscriber.utmCampaign && ` / ${subscriber.utmCampaign}`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                        {subscriber.geo ?? '—'}
+                      </td>
+                      <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                        {new Date(subscriber.createdAt).toLocaleDateString()}
+                        {subscriber.confirmedAt && (
+                          <span className="block text-brand-porcelain/50">
+                            Confirmed {new Date(subscriber.confirmedAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
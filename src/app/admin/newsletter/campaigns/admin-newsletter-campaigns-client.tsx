@@ -0,0 +1,645 @@
+'use client';
+
+/**
+ * Admin Newsletter Campaigns Client Component
+ *
+ * Client-side UI for composing, testing and broadcasting newsletter issues.
+ * Uses session cookies for API authentication.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type CampaignStatus = 'DRAFT' | 'SENDING' | 'SENT' | 'CANCELLED';
+
+interface CampaignSegment {
+  interest?: string;
+  geo?: string;
+  source?: string;
+}
+
+interface Campaign {
+  id: string;
+  subject: string;
+  previewText: string | null;
+  body: string;
+  segment: CampaignSegment | null;
+  status: CampaignStatus;
+  createdBy: string;
+  testSentAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  recipientCount: number;
+  createdAt: string;
+  stats: {
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+    opened: number;
+    clicked: number;
+  };
+}
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface SegmentOptions {
+  interests: FacetCount[];
+  geo: FacetCount[];
+  source: FacetCount[];
+}
+
+interface Draft {
+  subject: string;
+  previewText: string;
+  body: string;
+  interest: string;
+  geo: string;
+  source: string;
+}
+
+interface AdminNewsletterCampaignsClientProps {
+  adminEmail: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  subject: '',
+  previewText: '',
+  body: '',
+  interest: '',
+  geo: '',
+  source: '',
+};
+
+const EMPTY_OPTIONS: SegmentOptions = {
+  interests: [],
+  geo: [],
+  source: [],
+};
+
+const SEGMENT_FIELDS: Array<{
+  title: string;
+  field: 'interest' | 'geo' | 'source';
+  facet: keyof SegmentOptions;
+}> = [
+  { title: 'Interest', field: 'interest', facet: 'interests' },
+  { title: 'Geo', field: 'geo', facet: 'geo' },
+  { title: 'Source', field: 'source', facet: 'source' },
+];
+
+const STATUS_VARIANTS: Record<CampaignStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  DRAFT: 'outline',
+  SENDING: 'secondary',
+  SENT: 'default',
+  CANCELLED: 'destructive',
+};
+
+/**
+ * Segment of the draft (empty filters omitted)
+ */
+function toSegment(draft: Draft): CampaignSegment {
+  return {
+    ...(draft.interest && { interest: draft.interest }),
+    ...(draft.geo && { geo: draft.geo }),
+    ...(draft.source && { source: draft.source }),
+  };
+}
+
+/**
+ * Percentage of `value` in `total`
+ */
+function percentOf(value: number, total: number): string {
+  return total > 0 ? `${Math.round((value / total) * 100)}%` : '—';
+}
+
+export default function AdminNewsletterCampaignsClient({ adminEmail }: AdminNewsletterCampaignsClientProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [options, setOptions] = useState<SegmentOptions>(EMPTY_OPTIONS);
+  const [audience, setAudience] = useState<number | null>(null);
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [testEmails, setTestEmails] = useState(adminEmail);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadCampaigns = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/newsletter/campaigns', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load campaigns');
+      }
+
+      const data = await response.json();
+      setCampaigns(data.data.campaigns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Confirmed subscribers in the selected segment, and the options to narrow it
+  const loadAudience = useCallback(async (segment: CampaignSegment) => {
+    try {
+      const params = new URLSearchParams({ ...segment, status: 'CONFIRMED', limit: '1' });
+      const response = await fetch(`/api/admin/newsletter/subscribers?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load segment');
+      }
+
+      const data = await response.json();
+      setAudience(data.data.pagination.total);
+      setOptions(data.data.facets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const { interest, geo, source } = draft;
+  useEffect(() => {
+    loadAudience({
+      ...(interest && { interest }),
+      ...(geo && { geo }),
+      ...(source && { source }),
+    });
+  }, [loadAudience, interest, geo, source]);
+
+  const updateDraft = (key: keyof Draft, value: string) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  /**
+   * Run a request, surfacing its error message
+   */
+  const run = async (action: () => Promise<Response>): Promise<{ data?: Record<string, unknown> } | null> => {
+    setBusy(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await action();
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const result = await run(() =>
+      fetch('/api/admin/newsletter/campaigns/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ subject: draft.subject, body: draft.body, previewText: draft.previewText }),
+      })
+    );
+
+    if (result?.data) {
+      setPreviewHtml(result.data.html as string);
+    }
+  };
+
+  const handleSave = async (): Promise<string | null> => {
+    const payload = {
+      subject: draft.subject,
+      body: draft.body,
+      previewText: draft.previewText,
+      segment: toSegment(draft),
+    };
+
+    const result = await run(() =>
+      editingId
+        ? fetch(`/api/admin/newsletter/campaigns/${editingId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ action: 'update', ...payload }),
+          })
+        : fetch('/api/admin/newsletter/campaigns', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify(payload),
+          })
+    );
+
+    if (!result?.data) {
+      return null;
+    }
+
+    const campaign = result.data.campaign as Campaign;
+    setEditingId(campaign.id);
+    setNotice('Draft saved');
+    await loadCampaigns();
+    return campaign.id;
+  };
+
+  const handleTestSend = async () => {
+    const campaignId = await handleSave();
+    if (!campaignId) return;
+
+    const emails = testEmails
+      .split(',')
+      .map((email) => email.trim())
+      .filter(Boolean);
+
+    const result = await run(() =>
+      fetch(`/api/admin/newsletter/campaigns/${campaignId}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ emails }),
+      })
+    );
+
+    if (result?.data) {
+      const results = result.data.results as Array<{ email: string; success: boolean; error?: string }>;
+      const failed = results.filter((r) => !r.success);
+      if (failed.length > 0) {
+        setError(`Test send failed for ${failed.map((r) => `${r.email} (${r.error})`).join(', ')}`);
+      } else {
+        setNotice(`Test sent to ${results.map((r) => r.email).join(', ')}`);
+      }
+      await loadCampaigns();
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (
+      !confirm(
+        `Broadcast "${draft.subject}" to ${audience?.toLocaleString() ?? 'all'} confirmed subscribers in this segment?`
+      )
+    ) {
+      return;
+    }
+
+    const campaignId = await handleSave();
+    if (!campaignId) return;
+
+    const result = await run(() =>
+      fetch(`/api/admin/newsletter/campaigns/${campaignId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action: 'send' }),
+      })
+    );
+
+    if (result?.data) {
+      setNotice(`Broadcast started to ${(result.data.recipientCount as number).toLocaleString()} recipients`);
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+      setPreviewHtml('');
+      await loadCampaigns();
+    }
+  };
+
+  const handleCancel = async (campaign: Campaign) => {
+    if (!confirm(`Cancel "${campaign.subject}"? Recipients not yet sent will be skipped.`)) {
+      return;
+    }
+
+    const result = await run(() =>
+      fetch(`/api/admin/newsletter/campaigns/${campaign.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action: 'cancel' }),
+      })
+    );
+
+    if (result) {
+      if (editingId === campaign.id) {
+        setDraft(EMPTY_DRAFT);
+        setEditingId(null);
+      }
+      await loadCampaigns();
+    }
+  };
+
+  const handleEdit = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    setPreviewHtml('');
+    setDraft({
+      subject: campaign.subject,
+      previewText: campaign.previewText ?? '',
+      body: campaign.body,
+      interest: campaign.segment?.interest ?? '',
+      geo: campaign.segment?.geo ?? '',
+      source: campaign.segment?.source ?? '',
+    });
+  };
+
+  const canSubmit = !busy && draft.subject.trim() !== '' && draft.body.trim() !== '';
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+              Newsletter Campaigns
+            </h1>
+            <Text className="text-brand-porcelain/70">
+              Compose, test and broadcast issues • Logged in as {adminEmail}
+            </Text>
+          </div>
+          <a href="/admin/newsletter">
+            <Button variant="outline" className="border-white/20 text-brand-porcelain">
+              Subscribers
+            </Button>
+          </a>
+        </div>
+
+        {/* Messages */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+        {notice && (
+          <Card className="p-4 bg-green-500/10 border-green-500/20">
+            <Text className="text-green-400">{notice}</Text>
+          </Card>
+        )}
+
+        {/* Composer */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-6 bg-white/5 border-white/10 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-brand-porcelain text-xl font-semibold">
+                {editingId ? 'Edit Draft' : 'New Campaign'}
+              </h3>
+              {editingId && (
+                <Button
+                  type="button"
+                  onClick={() => {
+                    setDraft(EMPTY_DRAFT);
+                    setEditingId(null);
+                    setPreviewHtml('');
+                  }}
+                  variant="outline"
+                  className="border-white/20 text-brand-porcelain"
+                >
+                  New
+                </Button>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="subject" className="text-brand-porcelain">
+                Subject
+              </Label>
+              <Input
+                id="subject"
+                value={draft.subject}
+                onChange={(e) => updateDraft('subject', e.target.value)}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="previewText" className="text-brand-porcelain">
+                Preview text
+              </Label>
+              <Input
+                id="previewText"
+                value={draft.previewText}
+                onChange={(e) => updateDraft('previewText', e.target.value)}
+                placeholder="Shown after the subject in most inboxes"
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="body" className="text-brand-porcelain">
+                Body (MDX / Markdown)
+              </Label>
+              <textarea
+                id="body"
+                value={draft.body}
+                onChange={(e) => updateDraft('body', e.target.value)}
+                rows={16}
+                className="mt-2 w-full p-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain font-mono text-sm"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {SEGMENT_FIELDS.map(({ title, field, facet }) => (
+                <div key={field}>
+                  <Label htmlFor={field} className="text-brand-porcelain">
+                    {title}
+                  </Label>
+                  <select
+                    id={field}
+                    value={draft[field]}
+                    onChange={(e) => updateDraft(field, e.target.value)}
+                    className="mt-2 w-full h-10 px-3 rounded-md bg-white/10 border border-white/20 text-brand-porcelain"
+                  >
+                    <option value="">All</option>
+                    {options[facet].map(({ value }) => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                    {draft[field] && !options[facet].some(({ value }) => value === draft[field]) && (
+                      <option value={draft[field]}>{draft[field]}</option>
+                    )}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <Text className="text-brand-porcelain/70 text-sm">
+              {audience === null ? 'Counting recipients...' : `${audience.toLocaleString()} confirmed subscribers in this segment`}
+            </Text>
+
+            <div>
+              <Label htmlFor="testEmails" className="text-brand-porcelain">
+                Test recipients (comma-separated)
+              </Label>
+              <Input
+                id="testEmails"
+                value={testEmails}
+                onChange={(e) => setTestEmails(e.target.value)}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <Button
+                type="button"
+                onClick={handlePreview}
+                disabled={busy || draft.body.trim() === ''}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Preview
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={!canSubmit}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Save Draft
+              </Button>
+              <Button
+                type="button"
+                onClick={handleTestSend}
+                disabled={!canSubmit}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Send Test
+              </Button>
+              <Button
+                type="button"
+                onClick={handleBroadcast}
+                disabled={!canSubmit || !audience}
+                className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+              >
+                Broadcast
+              </Button>
+            </div>
+          </Card>
+
+          {/* Preview */}
+          <Card className="p-6 bg-white/5 border-white/10">
+            <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">Preview</h3>
+            {previewHtml ? (
+              <iframe
+                title="Email preview"
+                srcDoc={previewHtml}
+                sandbox=""
+                className="w-full h-[720px] rounded-md bg-white"
+              />
+            ) : (
+              <Text className="text-brand-porcelain/50">
+                Preview renders the body in the email layout, as subscribers will see it
+              </Text>
+            )}
+          </Card>
+        </div>
+
+        {/* Campaigns */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">
+            Campaigns ({campaigns.length})
+          </h3>
+
+          {loading ? (
+            <Text className="text-brand-porcelain/70">Loading...</Text>
+          ) : campaigns.length === 0 ? (
+            <Text className="text-brand-porcelain/70">No campaigns yet</Text>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/10">
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Subject</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Status</th>
+                    <th className="text-left py-3 px-4 text-brand-porcelain/70 text-sm">Segment</th>
+                    <th className="text-right py-3 px-4 text-brand-porcelain/70 text-sm">Sent</th>
+                    <th className="text-right py-3 px-4 text-brand-porcelain/70 text-sm">Opened</th>
+                    <th className="text-right py-3 px-4 text-brand-porcelain/70 text-sm">Clicked</th>
+                    <th className="text-right py-3 px-4 text-brand-porcelain/70 text-sm">Skipped / Failed</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {campaigns.map((campaign) => (
+                    <tr key={campaign.id} className="border-b border-white/5">
+                      <td className="py-3 px-4 text-brand-porcelain text-sm">
+                        {campaign.subject}
+                        <span className="block text-brand-porcelain/50">
+                          {new Date(campaign.startedAt ?? campaign.createdAt).toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge variant={STATUS_VARIANTS[campaign.status]}>{campaign.status}</Badge>
+                      </td>
+                      <td className="py-3 px-4 text-brand-porcelain/70 text-sm">
+                        {Object.values(campaign.segment ?? {}).filter(Boolean).join(' / ') || 'All'}
+                      </td>
+                      <td className="py-3 px-4 text-right text-brand-porcelain font-mono text-sm">
+                        {campaign.stats.sent.toLocaleString()} / {campaign.stats.total.toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-right text-brand-porcelain font-mono text-sm">
+                        {percentOf(campaign.stats.opened, campaign.stats.sent)}
+                      </td>
+                      <td className="py-3 px-4 text-right text-brand-porcelain font-mono text-sm">
+                        {percentOf(campaign.stats.clicked, campaign.stats.sent)}
+                      </td>
+                      <td className="py-3 px-4 text-right text-brand-porcelain/70 font-mono text-sm">
+                        {campaign.stats.skipped.toLocaleString()} / {campaign.stats.failed.toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-right space-x-2 whitespace-nowrap">
+                        {campaign.status === 'DRAFT' && (
+                          <Button
+                            onClick={() => handleEdit(campaign)}
+                            disabled={busy}
+                            variant="outline"
+                            className="border-white/20 text-brand-porcelain"
+                          >
+                            Edit
+                          </Button>
+                        )}
+                        {(campaign.status === 'DRAFT' || campaign.status === 'SENDING') && (
+                          <Button
+                            onClick={() => handleCancel(campaign)}
+                            disabled={busy}
+                            variant="outline"
+                            className="border-red-500/40 text-red-400"
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Admin Dashboard: Newsletter Campaigns
+ *
+ * Features:
+ * - Compose issues in MDX / Markdown with a live preview in the email layout
+ * - Test sends to admin addresses
+ * - Broadcast to a subscriber segment in throttled batches
+ * - Per-campaign send, open and click totals
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminNewsletterCampaignsClient from './admin-newsletter-campaigns-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+/**
+ * Server Component: Admin Newsletter Campaigns Page
+ */
+export default async function AdminNewsletterCampaignsPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminNewsletterCampaignsClient adminEmail={user.email || ''} />;
+}
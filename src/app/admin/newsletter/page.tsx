@@ -0,0 +1,25 @@
+/**
+ * Admin Dashboard: Newsletter Subscribers
+ *
+ * Features:
+ * - Browse the newsletter list, newest first
+ * - Segment by status, interest, geo and source
+ * - Segment breakdown by each dimension
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminNewsletterClient from './admin-newsletter-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+/**
+ * Server Component: Admin Newsletter Page
+ */
+export default async function AdminNewsletterPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminNewsletterClient adminEmail={user.email || ''} />;
+}
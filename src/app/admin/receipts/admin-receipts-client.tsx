@@ -0,0 +1,668 @@
+'use client';
+
+/**
+ * Admin Receipts Client Component
+ *
+ * Client-side UI for the receipt review queue. Shows the redacted receipt
+ * image next to the automated parsing results and lets reviewers approve,
+ * reject or mark receipts as duplicates, one at a time or in bulk.
+ *
+ * Keyboard shortcuts (ignored while typing in a field):
+ * - j / k: next / previous receipt
+ * - x: toggle selection of the current receipt
+ * - a: approve current (or selected) receipts
+ * - r: reject current (or selected) receipts with the entered reason
+ * - d: mark current (or selected) receipts as duplicates
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type ReceiptStatus = 'PENDING' | 'VERIFIED' | 'REJECTED' | 'DUPLICATE';
+type ReviewAction = 'approve' | 'reject' | 'duplicate';
+
+interface ParsedData {
+  retailer: string | null;
+  amount: number | null;
+  currency: string | null;
+  bookTitle: string | null;
+  purchaseDate: string | null;
+  orderNumber: string | null;
+  format: string | null;
+  confidence: number;
+  requiresManualReview: boolean;
+  manualReviewReason: string | null;
+  piiDetected: string[];
+  ocrProvider: string | null;
+  ocrConfidence: number;
+}
+
+interface RuleResult {
+  id: string;
+  label: string;
+  outcome: 'pass' | 'fail' | 'skip';
+  fraud: boolean;
+  points: number;
+  weight: number;
+  detail: string;
+}
+
+interface RuleEvaluation {
+  version: number;
+  score: number;
+  rules: RuleResult[];
+}
+
+interface Receipt {
+  id: string;
+  status: ReceiptStatus;
+  retailer: string;
+  orderNumber: string | null;
+  purchaseDate: string | null;
+  format: string | null;
+  userEmail: string;
+  verificationScore: number | null;
+  fraudReasons: string[];
+  rejectionReason: string | null;
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+  duplicateOfId: string | null;
+  bonusClaimStatus: string | null;
+  parsedData: ParsedData | null;
+  /** False when the image route withholds the image (no redaction data) */
+  imageRedactable: boolean;
+  ruleEvaluation: RuleEvaluation | null;
+  createdAt: string;
+}
+
+interface AdminReceiptsClientProps {
+  adminEmail: string;
+}
+
+const STATUSES: ReceiptStatus[] = ['PENDING', 'VERIFIED', 'REJECTED', 'DUPLICATE'];
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  duplicate: 'Mark duplicate',
+};
+
+/**
+ * Score badge colour thresholds match the auto-verification cut-offs
+ */
+function scoreClassName(score: number | null): string {
+  if (score === null) return 'text-brand-porcelain/50';
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+function ruleClassName(rule: RuleResult): string {
+  if (rule.fraud) return 'text-red-400';
+  if (rule.outcome === 'fail') return 'text-yellow-400';
+  if (rule.outcome === 'skip') return 'text-brand-porcelain/40';
+  return 'text-green-400';
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function formatAmount(amount: number | null, currency: string | null): string {
+  if (amount === null) return '—';
+  return currency ? `${amount.toFixed(2)} ${currency}` : amount.toFixed(2);
+}
+
+export default function AdminReceiptsClient({ adminEmail }: AdminReceiptsClientProps) {
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [counts, setCounts] = useState<Record<ReceiptStatus, number> | null>(null);
+  const [filterStatus, setFilterStatus] = useState<ReceiptStatus>('PENDING');
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // Pagination
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  // Review state
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [rejectReason, setRejectReason] = useState('');
+  const [duplicateOfId, setDuplicateOfId] = useState('');
+  const reasonInputRef = useRef<HTMLInputElement>(null);
+
+  const active = receipts[activeIndex] ?? null;
+
+  // Load receipts
+  const loadReceipts = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({
+        status: filterStatus,
+        page: page.toString(),
+        limit: '50',
+      });
+
+      const response = await fetch(`/api/admin/receipts?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load receipts');
+      }
+
+      const data = await response.json();
+      setReceipts(data.data.receipts);
+      setCounts(data.data.counts);
+      setTotalPages(data.data.pagination.totalPages || 1);
+      setActiveIndex((index) => Math.min(index, Math.max(0, data.data.receipts.length - 1)));
+      setSelectedIds(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus, page]);
+
+  // Apply a review action to the selection, or the active receipt
+  const review = useCallback(
+    async (action: ReviewAction) => {
+      let receiptIds = Array.from(selectedIds);
+      if (receiptIds.length === 0 && active) receiptIds = [active.id];
+      if (receiptIds.length === 0 || acting) return;
+
+      if (action === 'reject' && !rejectReason.trim()) {
+        setError('Enter a rejection reason first');
+        reasonInputRef.current?.focus();
+        return;
+      }
+
+      setActing(true);
+      setError('');
+      setNotice('');
+
+      try {
+        const response = await fetch('/api/admin/receipts/review', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            receiptIds,
+            action,
+            reason: action === 'reject' ? rejectReason.trim() : undefined,
+            duplicateOfId: action === 'duplicate' && duplicateOfId.trim() ? duplicateOfId.trim() : undefined,
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok && !data.data) {
+          throw new Error(data.error || 'Review failed');
+        }
+
+        const { processed, failed } = data.data;
+        const failedSuffix = failed > 0 ? `, ${failed} failed` : '';
+        setNotice(
+          `${ACTION_LABELS[action]}: ${processed} receipt${processed === 1 ? '' : 's'} updated${failedSuffix}`
+        );
+        setDuplicateOfId('');
+        await loadReceipts();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setActing(false);
+      }
+    },
+    [active, acting, selectedIds, rejectReason, duplicateOfId, loadReceipts]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds((prev) =>
+      prev.size === receipts.length ? new Set() : new Set(receipts.map((r) => r.id))
+    );
+  };
+
+  useEffect(() => {
+    loadReceipts();
+  }, [loadReceipts]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          event.preventDefault();
+          setActiveIndex((index) => Math.min(index + 1, receipts.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          event.preventDefault();
+          setActiveIndex((index) => Math.max(index - 1, 0));
+          break;
+        case 'x':
+          if (active) toggleSelected(active.id);
+          break;
+        case 'a':
+          review('approve');
+          break;
+        case 'r':
+          review('reject');
+          break;
+        case 'd':
+          review('duplicate');
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [receipts.length, active, review]);
+
+  const parsed = active?.parsedData ?? null;
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+            Receipt Review
+          </h1>
+          <Text className="text-brand-porcelain/70">
+            Verify uploaded receipts • Logged in as {adminEmail}
+          </Text>
+        </div>
+
+        {/* Status Tabs */}
+        <div className="flex flex-wrap gap-2">
+          {STATUSES.map((status) => (
+            <Button
+              key={status}
+              variant={filterStatus === status ? 'default' : 'outline'}
+              onClick={() => {
+                setFilterStatus(status);
+                setPage(1);
+                setActiveIndex(0);
+              }}
+              className={
+                filterStatus === status
+                  ? 'bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian'
+                  : 'border-white/20 text-brand-porcelain'
+              }
+            >
+              {status}
+              {counts && <span className="ml-2 opacity-70">{counts[status].toLocaleString()}</span>}
+            </Button>
+          ))}
+        </div>
+
+        {/* Error / Notice */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+        {notice && (
+          <Card className="p-4 bg-green-500/10 border-green-500/20">
+            <Text className="text-green-400">{notice}</Text>
+          </Card>
+        )}
+
+        {/* Actions */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="rejectReason" className="text-brand-porcelain">
+                Rejection Reason
+              </Label>
+              <Input
+                id="rejectReason"
+                ref={reasonInputRef}
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') e.currentTarget.blur();
+                }}
+                placeholder="e.g., Not an AI-Born purchase"
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain"
+              />
+            </div>
+            <div>
+              <Label htmlFor="duplicateOfId" className="text-brand-porcelain">
+                Duplicate Of (Receipt ID, optional)
+              </Label>
+              <Input
+                id="duplicateOfId"
+                value={duplicateOfId}
+                onChange={(e) => setDuplicateOfId(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') e.currentTarget.blur();
+                }}
+                className="mt-2 bg-white/10 border-white/20 text-brand-porcelain font-mono"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => review('approve')}
+                disabled={acting || !active}
+                className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+              >
+                Approve{selectedIds.size > 0 && ` (${selectedIds.size})`}
+              </Button>
+              <Button
+                onClick={() => review('reject')}
+                disabled={acting || !active}
+                variant="destructive"
+              >
+                Reject{selectedIds.size > 0 && ` (${selectedIds.size})`}
+              </Button>
+              <Button
+                onClick={() => review('duplicate')}
+                disabled={acting || !active}
+                variant="outline"
+                className="border-white/20 text-brand-porcelain"
+              >
+                Duplicate{selectedIds.size > 0 && ` (${selectedIds.size})`}
+              </Button>
+            </div>
+          </div>
+          <Text className="text-brand-porcelain/50 text-xs mt-4">
+            Shortcuts: <kbd>j</kbd>/<kbd>k</kbd> navigate • <kbd>x</kbd> select •{' '}
+            <kbd>a</kbd> approve • <kbd>r</kbd> reject • <kbd>d</kbd> duplicate • <kbd>Esc</kbd>{' '}
+            leave field. Actions apply to the selection when one exists.
+          </Text>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Receipt List */}
+          <Card className="p-4 bg-white/5 border-white/10 lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-brand-porcelain text-xl font-semibold">Receipts</h3>
+              {receipts.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-brand-porcelain/70">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.size === receipts.length}
+                    onChange={toggleSelectAll}
+                  />
+                  Select all
+                </label>
+              )}
+            </div>
+
+            {loading ? (
+              <Text className="text-brand-porcelain/70">Loading...</Text>
+            ) : receipts.length === 0 ? (
+              <Text className="text-brand-porcelain/70">No receipts found</Text>
+            ) : (
+              <div className="space-y-2">
+                {receipts.map((receipt, index) => (
+                  <div
+                    key={receipt.id}
+                    onClick={() => setActiveIndex(index)}
+                    className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer ${
+                      index === activeIndex
+                        ? 'border-brand-cyan bg-brand-cyan/10'
+                        : 'border-white/10 hover:bg-white/5'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(receipt.id)}
+                      onChange={() => toggleSelected(receipt.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-1"
+                      aria-label={`Select receipt ${receipt.id}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-brand-porcelain font-medium truncate">
+                          {receipt.retailer}
+                        </span>
+                        <span className={`font-mono text-sm ${scoreClassName(receipt.verificationScore)}`}>
+                          {receipt.verificationScore ?? '—'}
+                        </span>
+                      </div>
+                      <div className="text-xs text-brand-porcelain/50 truncate">
+                        {receipt.userEmail} • {new Date(receipt.createdAt).toLocaleString()}
+                      </div>
+                      {receipt.fraudReasons.length > 0 && (
+                        <div className="text-xs text-red-400 truncate">
+                          {receipt.fraudReasons.length} fraud flag
+                          {receipt.fraudReasons.length === 1 ? '' : 's'}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <Button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1 || loading}
+                  variant="outline"
+                  className="border-white/20 text-brand-porcelain"
+                >
+                  Previous
+                </Button>
+                <Text className="text-brand-porcelain/70">
+                  Page {page} of {totalPages}
+                </Text>
+                <Button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages || loading}
+                  variant="outline"
+                  className="border-white/20 text-brand-porcelain"
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </Card>
+
+          {/* Receipt Detail */}
+          <Card className="p-6 bg-white/5 border-white/10 lg:col-span-3">
+            {!active ? (
+              <Text className="text-brand-porcelain/70">Select a receipt to review</Text>
+            ) : (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                {/* Redacted Image */}
+                <div>
+                  {active.imageRedactable ? (
+                    <>
+                      {/* Plain img: the authenticated admin route cannot go through the image optimizer */}
+                      {/* Redacted server-side; PDFs arrive as an image of their first page */}
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={`/api/admin/receipts/${active.id}/image`}
+                        alt={`Receipt from ${active.retailer}`}
+                        className="w-full h-auto rounded-md"
+                      />
+                    </>
+                  ) : (
+                    <div className="rounded-md border border-dashed border-white/20 p-6 text-center">
+                      <Text className="text-brand-porcelain/70 text-sm">
+                        Image withheld: OCR did not locate this receipt&apos;s personal details, so it
+                        cannot be shown redacted. Review it from the parsed fields.
+                      </Text>
+                    </div>
+                  )}
+                  {active.imageRedactable && parsed && parsed.piiDetected.length > 0 && (
+                    <Text className="text-brand-porcelain/50 text-xs mt-2">
+                      Redacted: {parsed.piiDetected.join(', ')}
+                    </Text>
+                  )}
+                </div>
+
+                {/* Parsed Fields */}
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={active.status === 'VERIFIED' ? 'default' : 'secondary'}>
+                      {active.status}
+                    </Badge>
+                    {active.bonusClaimStatus && (
+                      <Badge variant="outline">Bonus: {active.bonusClaimStatus}</Badge>
+                    )}
+                  </div>
+
+                  <div>
+                    <Text className="text-brand-porcelain/70 text-sm">Verification Score</Text>
+                    <h3 className={`text-3xl font-bold ${scoreClassName(active.verificationScore)}`}>
+                      {active.verificationScore ?? '—'}
+                    </h3>
+                  </div>
+
+                  {active.ruleEvaluation && (
+                    <div>
+                      <Text className="text-brand-porcelain/70 text-sm mb-1">
+                        Score Breakdown (rules v{active.ruleEvaluation.version})
+                      </Text>
+                      <ul className="space-y-1 text-sm">
+                        {active.ruleEvaluation.rules.map((rule) => (
+                          <li key={rule.id} className="flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                              <span className={ruleClassName(rule)}>
+                                {rule.fraud ? 'FRAUD' : rule.outcome.toUpperCase()}
+                              </span>{' '}
+                              <span className="text-brand-porcelain">{rule.label}</span>
+                              <div className="text-xs text-brand-porcelain/50">{rule.detail}</div>
+                            </div>
+                            <span className="font-mono text-brand-porcelain/70 shrink-0">
+                              {rule.points}/{rule.weight}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <dt className="text-brand-porcelain/50">Retailer</dt>
+                    <dd className="text-brand-porcelain">{parsed?.retailer ?? active.retailer}</dd>
+                    <dt className="text-brand-porcelain/50">Book Title</dt>
+                    <dd className="text-brand-porcelain">{parsed?.bookTitle ?? '—'}</dd>
+                    <dt className="text-brand-porcelain/50">Amount</dt>
+                    <dd className="text-brand-porcelain">
+                      {formatAmount(parsed?.amount ?? null, parsed?.currency ?? null)}
+                    </dd>
+                    <dt className="text-brand-porcelain/50">Format</dt>
+                    <dd className="text-brand-porcelain">{parsed?.format ?? active.format ?? '—'}</dd>
+                    <dt className="text-brand-porcelain/50">Purchase Date</dt>
+                    <dd className="text-brand-porcelain">
+                      {formatDate(parsed?.purchaseDate ?? active.purchaseDate)}
+                    </dd>
+                    <dt className="text-brand-porcelain/50">Order Number</dt>
+                    <dd className="text-brand-porcelain font-mono">
+                      {parsed?.orderNumber ?? active.orderNumber ?? '—'}
+                    </dd>
+                    <dt className="text-brand-porcelain/50">Parse Confidence</dt>
+                    <dd className="text-brand-porcelain">
+                      {parsed ? formatPercent(parsed.confidence) : '—'}
+                    </dd>
+                    <dt className="text-brand-porcelain/50">OCR</dt>
+                    <dd className="text-brand-porcelain">
+                      {parsed
+                        ? `${parsed.ocrProvider ?? 'unknown'} (${formatPercent(parsed.ocrConfidence)})`
+                        : '—'}
+                    </dd>
+                    <dt className="text-brand-porcelain/50">Submitted By</dt>
+                    <dd className="text-brand-porcelain truncate">{active.userEmail}</dd>
+                  </dl>
+
+                  {active.fraudReasons.length > 0 && (
+                    <div>
+                      <Text className="text-brand-porcelain/70 text-sm mb-1">Fraud Reasons</Text>
+                      <ul className="list-disc list-inside text-sm text-red-400 space-y-1">
+                        {active.fraudReasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {parsed?.manualReviewReason && (
+                    <div>
+                      <Text className="text-brand-porcelain/70 text-sm mb-1">Review Note</Text>
+                      <Text className="text-yellow-400 text-sm">{parsed.manualReviewReason}</Text>
+                    </div>
+                  )}
+
+                  {active.rejectionReason && (
+                    <div>
+                      <Text className="text-brand-porcelain/70 text-sm mb-1">Status Reason</Text>
+                      <Text className="text-brand-porcelain text-sm">{active.rejectionReason}</Text>
+                    </div>
+                  )}
+
+                  {active.duplicateOfId && (
+                    <Text className="text-brand-porcelain/70 text-sm">
+                      Duplicate of{' '}
+                      <a
+                        href={`/api/admin/receipts/${active.duplicateOfId}/image`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-brand-cyan underline font-mono"
+                      >
+                        {active.duplicateOfId}
+                      </a>
+                    </Text>
+                  )}
+
+                  {active.verifiedBy && (
+                    <Text className="text-brand-porcelain/50 text-xs">
+                      Reviewed by {active.verifiedBy}
+                      {active.verifiedAt && ` on ${new Date(active.verifiedAt).toLocaleString()}`}
+                    </Text>
+                  )}
+
+                  <Text className="text-brand-porcelain/30 text-xs font-mono">{active.id}</Text>
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
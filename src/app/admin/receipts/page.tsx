@@ -0,0 +1,27 @@
+/**
+ * Admin Dashboard: Receipt Review Queue
+ *
+ * Features:
+ * - Browse receipts by verification status
+ * - Redacted receipt image beside the parsed fields, score and fraud reasons
+ * - Approve, reject or mark as duplicate (single or bulk)
+ * - Keyboard shortcuts for fast triage
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminReceiptsClient from './admin-receipts-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+
+/**
+ * Server Component: Admin Receipts Page
+ */
+export default async function AdminReceiptsPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminReceiptsClient adminEmail={user.email || ''} />;
+}
@@ -0,0 +1,27 @@
+/**
+ * Admin Dashboard: Retailers
+ *
+ * Features:
+ * - Reorder the retailer menu per region
+ * - Show or hide retailers per region
+ * - Update retailer links (e.g. on launch day) without a deploy
+ * - Add a retailer to a region
+ *
+ * SECURITY: This page requires admin authentication.
+ * Admin access is verified server-side by middleware and requireAdmin().
+ */
+
+import AdminRetailersClient from './retailers-admin-client';
+
+import { requireAdmin } from '@/lib/admin-auth';
+
+
+/**
+ * Server Component: Admin Retailers Page
+ */
+export default async function AdminRetailersPage() {
+  // Verify admin access server-side
+  const user = await requireAdmin();
+
+  return <AdminRetailersClient adminEmail={user.email || ''} />;
+}
@@ -0,0 +1,500 @@
+'use client';
+
+/**
+ * Admin Retailers Client Component
+ *
+ * Client-side UI for the retailer catalog: reorder retailers per region,
+ * toggle them on or off, and update their links. Uses session cookies for
+ * API authentication.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+
+type RetailerGeo = 'US' | 'UK' | 'EU' | 'AU' | 'GLOBAL';
+
+type LinkField = 'hardcoverUrl' | 'paperbackUrl' | 'ebookUrl' | 'audiobookUrl';
+
+interface RetailerSelection extends Record<LinkField, string | null> {
+  id: string;
+  retailerName: string;
+  retailerSlug: string;
+  geo: RetailerGeo;
+  displayName: string;
+  logoUrl: string | null;
+  priority: number;
+  isActive: boolean;
+  clickCount: number;
+  conversionCount: number;
+  nytEligible: boolean;
+  updatedAt: string;
+}
+
+interface RetailerFormValues extends Record<LinkField, string> {
+  retailerSlug: string;
+  retailerName: string;
+  displayName: string;
+  nytEligible: boolean;
+}
+
+interface AdminRetailersClientProps {
+  adminEmail: string;
+}
+
+const GEOS: RetailerGeo[] = ['US', 'UK', 'EU', 'AU', 'GLOBAL'];
+
+const LINK_FIELDS: { field: LinkField; label: string }[] = [
+  { field: 'hardcoverUrl', label: 'Hardcover' },
+  { field: 'paperbackUrl', label: 'Paperback' },
+  { field: 'ebookUrl', label: 'eBook' },
+  { field: 'audiobookUrl', label: 'Audiobook' },
+];
+
+const INPUT_CLASS = 'mt-2 bg-white/10 border-white/20 text-brand-porcelain';
+
+const EMPTY_FORM: RetailerFormValues = {
+  retailerSlug: '',
+  retailerName: '',
+  displayName: '',
+  nytEligible: true,
+  hardcoverUrl: '',
+  paperbackUrl: '',
+  ebookUrl: '',
+  audiobookUrl: '',
+};
+
+/**
+ * Parse an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.errors?.[0] || data.error || fallbackError);
+  }
+
+  return data.data as T;
+}
+
+/**
+ * Links from the form, with empty fields removing the format
+ */
+function toLinkChanges(values: RetailerFormValues): Record<LinkField, string | null> {
+  return Object.fromEntries(
+    LINK_FIELDS.map(({ field }) => [field, values[field].trim() || null])
+  ) as Record<LinkField, string | null>;
+}
+
+export default function AdminRetailersClient({ adminEmail }: AdminRetailersClientProps) {
+  const [retailers, setRetailers] = useState<RetailerSelection[]>([]);
+  const [geo, setGeo] = useState<RetailerGeo>('US');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadRetailers = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/retailers', { credentials: 'include' });
+      const data = await readResponse<{ retailers: RetailerSelection[] }>(
+        response,
+        'Failed to load retailers'
+      );
+      setRetailers(data.retailers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRetailers();
+  }, [loadRetailers]);
+
+  const regionRetailers = retailers.filter((retailer) => retailer.geo === geo);
+
+  /**
+   * Run a change, then reload the catalog
+   */
+  const save = async (key: string, request: () => Promise<Response>, fallbackError: string) => {
+    setSaving(key);
+    setError('');
+
+    try {
+      await readResponse(await request(), fallbackError);
+      await loadRetailers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const updateRetailer = (id: string, changes: Record<string, unknown>) =>
+    save(
+      id,
+      () =>
+        fetch(`/api/admin/retailers/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(changes),
+        }),
+      'Failed to update retailer'
+    );
+
+  const move = (index: number, offset: -1 | 1) => {
+    const ids = regionRetailers.map((retailer) => retailer.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    return save(
+      'reorder',
+      () =>
+        fetch('/api/admin/retailers/reorder', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ geo, ids }),
+        }),
+      'Failed to reorder retailers'
+    );
+  };
+
+  const createRetailer = async (values: RetailerFormValues) => {
+    const created = await save(
+      'create',
+      () =>
+        fetch('/api/admin/retailers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            retailerSlug: values.retailerSlug.trim(),
+            retailerName: values.retailerName.trim(),
+            displayName: values.displayName.trim() || values.retailerName.trim(),
+            nytEligible: values.nytEligible,
+            geo,
+            ...toLinkChanges(values),
+          }),
+        }),
+      'Failed to add retailer'
+    );
+
+    if (created) setShowCreate(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-brand-obsidian p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-brand-porcelain mb-2 text-3xl font-bold">
+            Retailers
+          </h1>
+          <Text className="text-brand-porcelain/70">
+            Order, toggle and relink the retailer menu per region • Logged in as {adminEmail}
+          </Text>
+          <Text className="text-brand-porcelain/50 text-sm mt-1">
+            Changes reach the site within a minute. GLOBAL retailers appear in every region
+            without its own entry for that retailer.
+          </Text>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <Card className="p-4 bg-red-500/10 border-red-500/20">
+            <Text className="text-red-400">{error}</Text>
+          </Card>
+        )}
+
+        {/* Region */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Region">
+              {GEOS.map((region) => (
+                <Button
+                  key={region}
+                  onClick={() => {
+                    setGeo(region);
+                    setEditing(null);
+                  }}
+                  variant={geo === region ? 'default' : 'outline'}
+                  className={
+                    geo === region
+                      ? 'bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian'
+                      : 'border-white/20 text-brand-porcelain'
+                  }
+                  aria-pressed={geo === region}
+                >
+                  {region} ({retailers.filter((retailer) => retailer.geo === region).length})
+                </Button>
+              ))}
+            </div>
+            <Button
+              onClick={() => setShowCreate((show) => !show)}
+              variant="outline"
+              className="border-white/20 text-brand-porcelain"
+            >
+              {showCreate ? 'Cancel' : `Add Retailer to ${geo}`}
+            </Button>
+          </div>
+        </Card>
+
+        {showCreate && (
+          <Card className="p-6 bg-white/5 border-white/10">
+            <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">
+              Add Retailer to {geo}
+            </h3>
+            <RetailerForm
+              idPrefix="create"
+              initialValues={EMPTY_FORM}
+              isNew
+              submitLabel="Add Retailer"
+              submitting={saving === 'create'}
+              onSubmit={createRetailer}
+            />
+          </Card>
+        )}
+
+        {/* Retailer List */}
+        <Card className="p-6 bg-white/5 border-white/10">
+          <h3 className="text-brand-porcelain mb-4 text-xl font-semibold">
+            Display Order ({geo})
+          </h3>
+          {regionRetailers.length === 0 ? (
+            <Text className="text-brand-porcelain/70">
+              {loading ? 'Loading...' : `No retailers set up for ${geo}`}
+            </Text>
+          ) : (
+            <div className="space-y-4">
+              {regionRetailers.map((retailer, index) => (
+                <Card key={retailer.id} className="p-4 bg-white/5 border-white/10">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-2 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-brand-porcelain/50 text-sm w-6">{index + 1}.</span>
+                        <span className="text-brand-porcelain font-semibold">
+                          {retailer.displayName}
+                        </span>
+                        <code className="font-mono text-sm text-brand-cyan">
+                          {retailer.retailerSlug}
+                        </code>
+                        <Badge variant={retailer.isActive ? 'secondary' : 'destructive'}>
+                          {retailer.isActive ? 'Shown' : 'Hidden'}
+                        </Badge>
+                        {retailer.nytEligible && <Badge variant="outline">NYT eligible</Badge>}
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-sm text-brand-porcelain/50">
+                        {LINK_FIELDS.map(({ field, label }) => (
+                          <span key={field}>
+                            {label}: {retailer[field] ? '✓' : '—'}
+                          </span>
+                        ))}
+                        <span>Clicks: {retailer.clickCount.toLocaleString()}</span>
+                        <span>Conversions: {retailer.conversionCount.toLocaleString()}</span>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0 || saving !== null}
+                        variant="outline"
+                        className="border-white/20 text-brand-porcelain"
+                        aria-label={`Move ${retailer.displayName} up`}
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        onClick={() => move(index, 1)}
+                        disabled={index === regionRetailers.length - 1 || saving !== null}
+                        variant="outline"
+                        className="border-white/20 text-brand-porcelain"
+                        aria-label={`Move ${retailer.displayName} down`}
+                      >
+                        ↓
+                      </Button>
+                      <Button
+                        onClick={() => updateRetailer(retailer.id, { isActive: !retailer.isActive })}
+                        disabled={saving !== null}
+                        variant="outline"
+                        className="border-white/20 text-brand-porcelain"
+                      >
+                        {retailer.isActive ? 'Hide' : 'Show'}
+                      </Button>
+                      <Button
+                        onClick={() => setEditing(editing === retailer.id ? null : retailer.id)}
+                        className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+                      >
+                        {editing === retailer.id ? 'Close' : 'Edit Links'}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {editing === retailer.id && (
+                    <div className="mt-4 pt-4 border-t border-white/10">
+                      <RetailerForm
+                        key={retailer.updatedAt}
+                        idPrefix={retailer.id}
+                        initialValues={{
+                          retailerSlug: retailer.retailerSlug,
+                          retailerName: retailer.retailerName,
+                          displayName: retailer.displayName,
+                          nytEligible: retailer.nytEligible,
+                          hardcoverUrl: retailer.hardcoverUrl ?? '',
+                          paperbackUrl: retailer.paperbackUrl ?? '',
+                          ebookUrl: retailer.ebookUrl ?? '',
+                          audiobookUrl: retailer.audiobookUrl ?? '',
+                        }}
+                        submitLabel="Save Changes"
+                        submitting={saving === retailer.id}
+                        onSubmit={async (values) => {
+                          const saved = await updateRetailer(retailer.id, {
+                            displayName: values.displayName.trim(),
+                            nytEligible: values.nytEligible,
+                            ...toLinkChanges(values),
+                          });
+                          if (saved) setEditing(null);
+                        }}
+                      />
+                    </div>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+interface RetailerFormProps {
+  idPrefix: string;
+  initialValues: RetailerFormValues;
+  /** Whether the slug and retailer name can be set */
+  isNew?: boolean;
+  submitLabel: string;
+  submitting: boolean;
+  onSubmit: (values: RetailerFormValues) => void;
+}
+
+/**
+ * Retailer details and per-format links (empty link = format not offered)
+ */
+function RetailerForm({
+  idPrefix,
+  initialValues,
+  isNew = false,
+  submitLabel,
+  submitting,
+  onSubmit,
+}: RetailerFormProps) {
+  const [values, setValues] = useState<RetailerFormValues>(initialValues);
+
+  const setValue = <K extends keyof RetailerFormValues>(key: K, value: RetailerFormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(values);
+      }}
+      className="space-y-4"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {isNew && (
+          <>
+            <div>
+              <Label htmlFor={`${idPrefix}-slug`} className="text-brand-porcelain">
+                Retailer ID
+              </Label>
+              <Input
+                id={`${idPrefix}-slug`}
+                value={values.retailerSlug}
+                onChange={(e) => setValue('retailerSlug', e.target.value)}
+                placeholder="waterstones"
+                required
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-name`} className="text-brand-porcelain">
+                Retailer Name
+              </Label>
+              <Input
+                id={`${idPrefix}-name`}
+                value={values.retailerName}
+                onChange={(e) => setValue('retailerName', e.target.value)}
+                required
+                className={INPUT_CLASS}
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <Label htmlFor={`${idPrefix}-display`} className="text-brand-porcelain">
+            Display Name
+          </Label>
+          <Input
+            id={`${idPrefix}-display`}
+            value={values.displayName}
+            onChange={(e) => setValue('displayName', e.target.value)}
+            placeholder={values.retailerName}
+            required={!isNew}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {LINK_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <Label htmlFor={`${idPrefix}-${field}`} className="text-brand-porcelain">
+              {label} Link
+            </Label>
+            <Input
+              id={`${idPrefix}-${field}`}
+              type="url"
+              value={values[field]}
+              onChange={(e) => setValue(field, e.target.value)}
+              placeholder="https://"
+              className={INPUT_CLASS}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-brand-porcelain">
+          <input
+            type="checkbox"
+            checked={values.nytEligible}
+            onChange={(e) => setValue('nytEligible', e.target.checked)}
+          />
+          Counts toward NYT bestseller lists
+        </label>
+        <Button
+          type="submit"
+          disabled={submitting}
+          className="bg-brand-cyan hover:bg-brand-cyan/90 text-brand-obsidian"
+        >
+          {submitting ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -95,13 +95,13 @@ export const GET = withErrorHandler(async (request: NextRequest) => {
     const hasExcerpt = userData.entitlements.some(
       (e) =>
         (e.type === "EARLY_EXCERPT" || e.type === "BONUS_PACK") &&
-        e.status === "ACTIVE"
+        (e.status === "ACTIVE" || e.status === "FULFILLED")
     );
 
     const hasAgentCharterPack = userData.entitlements.some(
       (e) =>
         (e.type === "BONUS_PACK" || e.type === "ENHANCED_BONUS") &&
-        e.status === "ACTIVE"
+        (e.status === "ACTIVE" || e.status === "FULFILLED")
     );
 
     const hasPreordered = userData.receipts.some(
@@ -155,7 +155,7 @@ export const GET = withErrorHandler(async (request: NextRequest) => {
         hasAgentCharterPack,
         hasPreordered,
         entitlementCount: userData.entitlements.filter(
-          (e) => e.status === "ACTIVE"
+          (e) => e.status === "ACTIVE" || e.status === "FULFILLED"
         ).length,
         receiptCount: userData.receipts.length,
         bonusClaimCount: userData.bonusClaims.length,
@@ -0,0 +1,125 @@
+/**
+ * Admin API: Audit Log
+ *
+ * GET /api/admin/audit
+ *
+ * Query the append-only audit log with actor / entity / action / date
+ * filters. `format=csv` downloads the filtered entries (up to
+ * AUDIT_LOG_EXPORT_LIMIT) for compliance reviews; the export itself is
+ * audited. Requires admin authentication.
+ *
+ * Query parameters:
+ * - actor: actor ID substring (admin email or user ID)
+ * - entityType, entityId, action: exact matches
+ * - from, to: dates (YYYY-MM-DD, inclusive)
+ * - page, limit: pagination (JSON only)
+ * - format: "json" (default) or "csv"
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  type AuditLogFilters,
+  auditLogsToCsv,
+  exportAuditLogs,
+  getAuditLogFacets,
+  listAuditLogs,
+} from '@/lib/audit-log';
+
+/**
+ * Parse a YYYY-MM-DD date, optionally as the end of that day (UTC)
+ */
+function parseDateParam(value: string | null, endOfDay = false): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    // Parse query
+    const searchParams = request.nextUrl.searchParams;
+    const filters: AuditLogFilters = {
+      actorId: searchParams.get('actor') || undefined,
+      entityType: searchParams.get('entityType') || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      action: searchParams.get('action') || undefined,
+      from: parseDateParam(searchParams.get('from')),
+      to: parseDateParam(searchParams.get('to'), true),
+    };
+
+    if (searchParams.get('format') === 'csv') {
+      const entries = await exportAuditLogs(filters);
+
+      await logAdminAction({
+        timestamp: new Date(),
+        adminId: authResult.adminId!,
+        action: 'AUDIT_LOG_EXPORT',
+        resource: 'audit_logs',
+        details: {
+          filters: searchParams.toString(),
+          rows: entries.length,
+        },
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+      });
+
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new NextResponse(auditLogsToCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const [result, facets] = await Promise.all([
+      listAuditLogs(filters, { page, limit }),
+      getAuditLogFacets(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries: result.entries,
+        facets,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error querying audit log:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
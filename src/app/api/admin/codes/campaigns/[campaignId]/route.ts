@@ -0,0 +1,158 @@
+/**
+ * Admin API: Code Campaign Detail
+ *
+ * GET /api/admin/codes/campaigns/[campaignId] - Campaign with funnel metrics
+ * PATCH /api/admin/codes/campaigns/[campaignId] - Bulk action on the campaign
+ *
+ * PATCH body:
+ * - { action: 'revoke' } - revoke the campaign and all its active codes
+ * - { action: 'extend', endsAt } - move the end date on all its codes
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { extendCampaign, getCampaign, revokeCampaign } from '@/lib/code-campaigns';
+
+/**
+ * Request body schema
+ */
+interface CampaignActionRequest {
+  action: 'revoke' | 'extend';
+  endsAt?: string; // ISO date string, required for extend
+}
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { campaignId } = await params;
+    const campaign = await getCampaign(campaignId);
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { campaign } });
+  } catch (error) {
+    console.error('[Admin API] Error fetching campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+    const { campaignId } = await params;
+    const body = (await request.json()) as Partial<CampaignActionRequest>;
+
+    const before = await getCampaign(campaignId);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    let details: Record<string, unknown>;
+
+    if (body.action === 'revoke') {
+      const result = await revokeCampaign(campaignId);
+      details = { revokedCodes: result?.revokedCodes ?? 0 };
+    } else if (body.action === 'extend') {
+      if (!body.endsAt || isNaN(Date.parse(body.endsAt))) {
+        return NextResponse.json(
+          { error: 'endsAt must be a valid ISO date' },
+          { status: 400 }
+        );
+      }
+
+      const endsAt = new Date(body.endsAt);
+      if (endsAt <= new Date()) {
+        return NextResponse.json(
+          { error: 'endsAt must be in the future' },
+          { status: 400 }
+        );
+      }
+
+      const result = await extendCampaign(campaignId, endsAt);
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Revoked campaigns cannot be extended' },
+          { status: 409 }
+        );
+      }
+      details = { updatedCodes: result.updatedCodes };
+    } else {
+      return NextResponse.json(
+        { error: 'action must be "revoke" or "extend"' },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await getCampaign(campaignId);
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: body.action === 'revoke' ? 'REVOKE_CAMPAIGN' : 'EXTEND_CAMPAIGN',
+      resource: 'code_campaigns',
+      resourceId: campaignId,
+      before: { status: before.status, endsAt: before.endsAt },
+      after: { status: campaign?.status, endsAt: campaign?.endsAt },
+      details,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { campaign, ...details } });
+  } catch (error) {
+    console.error('[Admin API] Error updating campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Admin API: Code Campaigns
+ *
+ * GET /api/admin/codes/campaigns - List campaigns with funnel metrics
+ * POST /api/admin/codes/campaigns - Create a campaign
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { CodeType, Prisma } from '@prisma/client';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { createCampaign, listCampaigns } from '@/lib/code-campaigns';
+
+/**
+ * Request body schema
+ */
+interface CreateCampaignRequest {
+  name: string;
+  description?: string;
+  type: CodeType;
+  orgId?: string;
+  redemptionBudget?: number;
+  startsAt?: string; // ISO date string
+  endsAt?: string; // ISO date string
+}
+
+/**
+ * Validate request body
+ */
+function validateRequest(body: unknown): {
+  valid: boolean;
+  data?: CreateCampaignRequest;
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const req = body as Partial<CreateCampaignRequest>;
+
+  if (!req.name || typeof req.name !== 'string' || !req.name.trim()) {
+    return { valid: false, error: 'name is required' };
+  }
+
+  if (!req.type || !Object.values(CodeType).includes(req.type)) {
+    return {
+      valid: false,
+      error: `Type must be one of: ${Object.values(CodeType).join(', ')}`,
+    };
+  }
+
+  if (
+    req.redemptionBudget !== undefined &&
+    (typeof req.redemptionBudget !== 'number' || req.redemptionBudget < 1)
+  ) {
+    return { valid: false, error: 'redemptionBudget must be a positive number' };
+  }
+
+  if (req.startsAt && isNaN(Date.parse(req.startsAt))) {
+    return { valid: false, error: 'startsAt must be a valid ISO date' };
+  }
+
+  if (req.endsAt && isNaN(Date.parse(req.endsAt))) {
+    return { valid: false, error: 'endsAt must be a valid ISO date' };
+  }
+
+  const startsAt = req.startsAt ? Date.parse(req.startsAt) : Date.now();
+  if (req.endsAt && Date.parse(req.endsAt) <= startsAt) {
+    return { valid: false, error: 'endsAt must be after startsAt' };
+  }
+
+  return { valid: true, data: req as CreateCampaignRequest };
+}
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const campaigns = await listCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      data: { campaigns },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing campaigns:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    // Validate request
+    const validation = validateRequest(await request.json());
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, type, orgId, redemptionBudget, startsAt, endsAt } =
+      validation.data!;
+
+    let campaign;
+    try {
+      campaign = await createCampaign({
+        name,
+        description,
+        type,
+        ownerId: adminId,
+        orgId,
+        redemptionBudget,
+        startsAt: startsAt ? new Date(startsAt) : undefined,
+        endsAt: endsAt ? new Date(endsAt) : undefined,
+      });
+    } catch (error) {
+      // Unique constraint on name
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'A campaign with this name already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'CREATE_CAMPAIGN',
+      resource: 'code_campaigns',
+      resourceId: campaign.id,
+      after: campaign,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { campaign } }, { status: 201 });
+  } catch (error) {
+    console.error('[Admin API] Error creating campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -19,13 +19,15 @@ import {
   logAdminAction,
   getClientIp,
 } from '@/lib/admin-auth';
+import { prisma } from '@/lib/prisma';
 
 /**
  * Request body schema
  */
 interface GenerateCodesRequest {
   count: number;
-  type: CodeType;
+  type?: CodeType; // Defaults to the campaign type
+  campaignId?: string;
   description?: string;
   maxRedemptions?: number;
   validFrom?: string; // ISO date string
@@ -65,7 +67,7 @@ function validateRequest(body: unknown): {
     'MEDIA',
     'INFLUENCER',
   ];
-  if (!req.type || !validTypes.includes(req.type)) {
+  if ((!req.type && !req.campaignId) || (req.type && !validTypes.includes(req.type))) {
     return {
       valid: false,
       error: `Type must be one of: ${validTypes.join(', ')}`,
@@ -139,6 +141,7 @@ export async function POST(request: NextRequest) {
       validFrom,
       validUntil,
       orgId,
+      campaignId,
       format = 'json',
     } = validation.data!;
 
@@ -152,13 +155,32 @@ export async function POST(request: NextRequest) {
       validUntil: validUntil ? new Date(validUntil) : undefined,
       createdBy: adminId,
       orgId,
+      campaignId,
     };
 
+    // Codes can only be generated into an active campaign
+    if (campaignId) {
+      const campaign = await prisma.codeCampaign.findUnique({
+        where: { id: campaignId },
+        select: { status: true },
+      });
+
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+      }
+      if (campaign.status !== 'ACTIVE') {
+        return NextResponse.json(
+          { error: 'Cannot generate codes into a revoked campaign' },
+          { status: 409 }
+        );
+      }
+    }
+
     // Generate codes
     const codes = await generateAndSaveCodes(options);
 
     // Log action
-    logAdminAction({
+    await logAdminAction({
       timestamp: new Date(),
       adminId,
       action: 'GENERATE_CODES',
@@ -171,6 +193,7 @@ export async function POST(request: NextRequest) {
         validFrom,
         validUntil,
         orgId,
+        campaignId,
       },
       ipAddress: getClientIp(request),
       userAgent: request.headers.get('user-agent') || undefined,
@@ -183,7 +206,7 @@ export async function POST(request: NextRequest) {
         status: 200,
         headers: {
           'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="vip-codes-${type}-${Date.now()}.csv"`,
+          'Content-Disposition': `attachment; filename="vip-codes-${codes[0]?.type ?? type}-${Date.now()}.csv"`,
         },
       });
     }
@@ -0,0 +1,174 @@
+/**
+ * Admin API: VIP Code Invite Links
+ *
+ * POST /api/admin/codes/invites
+ *
+ * Issue personalised, single-use redemption links, one per email. Each
+ * link can only be redeemed by the account with that email.
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { CodeType } from '@prisma/client';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { createCodeInvites, MAX_INVITES_PER_BATCH } from '@/lib/code-invites';
+import { prisma } from '@/lib/prisma';
+import { isValidEmail } from '@/lib/validation';
+
+/**
+ * Request body schema
+ */
+interface CreateInvitesRequest {
+  emails: string[];
+  type?: CodeType; // Defaults to the campaign type
+  campaignId?: string;
+  description?: string;
+  validUntil?: string; // ISO date string
+}
+
+/**
+ * Validate request body
+ */
+function validateRequest(body: unknown): {
+  valid: boolean;
+  data?: CreateInvitesRequest;
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const req = body as Partial<CreateInvitesRequest>;
+
+  if (
+    !Array.isArray(req.emails) ||
+    req.emails.length === 0 ||
+    req.emails.length > MAX_INVITES_PER_BATCH
+  ) {
+    return {
+      valid: false,
+      error: `emails must be a list of 1 to ${MAX_INVITES_PER_BATCH} addresses`,
+    };
+  }
+
+  const invalid = req.emails.filter(
+    (email) => typeof email !== 'string' || !isValidEmail(email.trim())
+  );
+  if (invalid.length > 0) {
+    return { valid: false, error: `Invalid email addresses: ${invalid.join(', ')}` };
+  }
+
+  if ((!req.type && !req.campaignId) || (req.type && !Object.values(CodeType).includes(req.type))) {
+    return {
+      valid: false,
+      error: `Type must be one of: ${Object.values(CodeType).join(', ')}`,
+    };
+  }
+
+  if (req.validUntil && isNaN(Date.parse(req.validUntil))) {
+    return { valid: false, error: 'validUntil must be a valid ISO date' };
+  }
+
+  if (req.validUntil && Date.parse(req.validUntil) <= Date.now()) {
+    return { valid: false, error: 'validUntil must be in the future' };
+  }
+
+  return { valid: true, data: req as CreateInvitesRequest };
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    // Validate request
+    const validation = validateRequest(await request.json());
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { emails, type, campaignId, description, validUntil } = validation.data!;
+
+    // Invites can only be issued into an active campaign
+    if (campaignId) {
+      const campaign = await prisma.codeCampaign.findUnique({
+        where: { id: campaignId },
+        select: { status: true },
+      });
+
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+      }
+      if (campaign.status !== 'ACTIVE') {
+        return NextResponse.json(
+          { error: 'Cannot issue invites into a revoked campaign' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const invites = await createCodeInvites({
+      emails,
+      type,
+      campaignId,
+      description,
+      validUntil: validUntil ? new Date(validUntil) : undefined,
+      createdBy: adminId,
+    });
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'CREATE_CODE_INVITES',
+      resource: 'codes',
+      details: {
+        count: invites.length,
+        type,
+        campaignId,
+        codeIds: invites.map((invite) => invite.codeId),
+      },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          invites: invites.map((invite) => ({
+            email: invite.email,
+            code: invite.code,
+            url: invite.url,
+            expiresAt: invite.expiresAt.toISOString(),
+          })),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Admin API] Error creating code invites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -23,6 +23,7 @@ interface ListCodesQuery {
   status?: CodeStatus;
   search?: string; // Search by code
   orgId?: string;
+  campaignId?: string;
   includeStats?: boolean;
 }
 
@@ -37,6 +38,7 @@ function parseQuery(searchParams: URLSearchParams): ListCodesQuery {
     status: (searchParams.get('status') as CodeStatus) || undefined,
     search: searchParams.get('search') || undefined,
     orgId: searchParams.get('orgId') || undefined,
+    campaignId: searchParams.get('campaignId') || undefined,
     includeStats: searchParams.get('includeStats') === 'true',
   };
 }
@@ -60,7 +62,8 @@ export async function GET(request: NextRequest) {
 
     // Parse query
     const query = parseQuery(request.nextUrl.searchParams);
-    const { page = 1, limit = 50, type, status, search, orgId, includeStats } = query;
+    const { page = 1, limit = 50, type, status, search, orgId, campaignId, includeStats } =
+      query;
 
     // Build where clause
     const where: {
@@ -68,12 +71,14 @@ export async function GET(request: NextRequest) {
       status?: CodeStatus;
       code?: { contains: string; mode: 'insensitive' };
       orgId?: string;
+      campaignId?: string;
     } = {};
 
     if (type) where.type = type;
     if (status) where.status = status;
     if (search) where.code = { contains: search, mode: 'insensitive' };
     if (orgId) where.orgId = orgId;
+    if (campaignId) where.campaignId = campaignId;
 
     // Count total
     const total = await prisma.code.count({ where });
@@ -105,6 +110,12 @@ export async function GET(request: NextRequest) {
             type: true,
           },
         },
+        campaign: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
@@ -132,6 +143,7 @@ export async function GET(request: NextRequest) {
           updatedAt: c.updatedAt.toISOString(),
           orgId: c.orgId,
           org: c.org,
+          campaign: c.campaign,
         })),
         pagination: {
           page,
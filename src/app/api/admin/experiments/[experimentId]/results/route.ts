@@ -0,0 +1,83 @@
+/**
+ * Admin API: Experiment Results
+ *
+ * GET /api/admin/experiments/[experimentId]/results
+ *
+ * Per-variant conversion rates with confidence intervals, lift over
+ * control, significance, sample ratio mismatch check and a daily series
+ * of cumulative lift, computed from stored exposures and conversions.
+ * Requires admin authentication.
+ *
+ * Query parameters:
+ * - metric: Conversion event to measure (default: the experiment's
+ *   primary metric; "any" for any conversion)
+ * - confidence: 90 | 95 | 99 | 99.9 (default: 95)
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import type { ConfidenceLevel } from '@/lib/ab-testing';
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { getExperimentResults } from '@/lib/experiment-results';
+import { getExperimentConfig } from '@/lib/experiment-store';
+
+/**
+ * Confidence levels accepted in the query string
+ */
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = [90, 95, 99, 99.9];
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { experimentId } = await params;
+    const experiment = await getExperimentConfig(experimentId);
+    if (!experiment) {
+      return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+    }
+
+    // Parse query
+    const searchParams = request.nextUrl.searchParams;
+    const metricParam = searchParams.get('metric');
+    const confidenceParam = Number(searchParams.get('confidence') || 95);
+
+    if (!CONFIDENCE_LEVELS.includes(confidenceParam as ConfidenceLevel)) {
+      return NextResponse.json(
+        { error: `Confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await getExperimentResults(experiment, {
+      metric: metricParam === 'any' ? null : metricParam || undefined,
+      confidenceLevel: confidenceParam as ConfidenceLevel,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error('[Admin Experiments API] Error computing results:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute experiment results' },
+      { status: 500 }
+    );
+  }
+}
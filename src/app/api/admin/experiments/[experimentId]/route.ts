@@ -0,0 +1,161 @@
+/**
+ * Admin API: Experiment Detail
+ *
+ * GET /api/admin/experiments/[experimentId] - Experiment with its status
+ * PATCH /api/admin/experiments/[experimentId] - Edit or change status
+ *
+ * PATCH body:
+ * - { action: 'update', name?, description?, weights?, trafficAllocation?,
+ *     primaryMetric?, startDate?, endDate? } - edit (not once stopped)
+ * - { action: 'start' | 'pause' | 'stop' } - lifecycle change
+ * - { action: 'declare_winner', variantId } - stop and serve the winner
+ *   to 100% of traffic
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  applyExperimentAction,
+  ExperimentConfigError,
+  getManagedExperiment,
+  updateExperiment,
+} from '@/lib/experiment-store';
+import { ExperimentActionSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * Audit log action per request action
+ */
+const AUDIT_ACTIONS = {
+  update: 'UPDATE_EXPERIMENT',
+  start: 'START_EXPERIMENT',
+  pause: 'PAUSE_EXPERIMENT',
+  stop: 'STOP_EXPERIMENT',
+  declare_winner: 'DECLARE_EXPERIMENT_WINNER',
+} as const;
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { experimentId } = await params;
+    const experiment = await getManagedExperiment(experimentId);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { experiment } });
+  } catch (error) {
+    console.error('[Admin API] Error fetching experiment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+    const { experimentId } = await params;
+
+    const validation = validateSchema(ExperimentActionSchema, await request.json());
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: 'Invalid experiment action', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const before = await getManagedExperiment(experimentId);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = validation.data;
+    let experiment;
+
+    try {
+      if (body.action === 'update') {
+        experiment = await updateExperiment(experimentId, body);
+      } else {
+        experiment = await applyExperimentAction(
+          experimentId,
+          body.action,
+          body.action === 'declare_winner' ? body.variantId : undefined
+        );
+      }
+    } catch (error) {
+      if (error instanceof ExperimentConfigError) {
+        return NextResponse.json(
+          { error: error.message, errors: error.errors },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: AUDIT_ACTIONS[body.action],
+      resource: 'experiments',
+      resourceId: experimentId,
+      before,
+      after: experiment,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { experiment } });
+  } catch (error) {
+    console.error('[Admin API] Error updating experiment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Admin API: Experiments
+ *
+ * GET /api/admin/experiments - List experiments with their status
+ * POST /api/admin/experiments - Create an experiment (as a draft)
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { Prisma } from '@prisma/client';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  createExperiment,
+  ExperimentConfigError,
+  listManagedExperiments,
+} from '@/lib/experiment-store';
+import { ExperimentCreateSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const experiments = await listManagedExperiments();
+
+    return NextResponse.json({
+      success: true,
+      data: { experiments },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing experiments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    // Validate request
+    const validation = validateSchema(ExperimentCreateSchema, await request.json());
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: 'Invalid experiment', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    let experiment;
+    try {
+      experiment = await createExperiment(validation.data);
+    } catch (error) {
+      if (error instanceof ExperimentConfigError) {
+        return NextResponse.json(
+          { error: error.message, errors: error.errors },
+          { status: error.statusCode }
+        );
+      }
+      // Primary key on the experiment ID
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'An experiment with this ID already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'CREATE_EXPERIMENT',
+      resource: 'experiments',
+      resourceId: experiment.id,
+      after: experiment,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { experiment } }, { status: 201 });
+  } catch (error) {
+    console.error('[Admin API] Error creating experiment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
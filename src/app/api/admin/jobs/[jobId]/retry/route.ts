@@ -0,0 +1,68 @@
+/**
+ * Admin API: Re-drive Background Job
+ *
+ * POST /api/admin/jobs/[jobId]/retry
+ *
+ * Resets a dead-lettered (or waiting) job so it runs again immediately.
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import {
+  checkAdminAuth,
+  getClientIp,
+  logAdminAction,
+} from '@/lib/admin-auth';
+import { retryJob } from '@/lib/job-queue';
+
+/**
+ * POST handler
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = await retryJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found or not in a retryable state' },
+        { status: 404 }
+      );
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId: authResult.adminId!,
+      action: 'RETRY_JOB',
+      resource: 'jobs',
+      resourceId: job.id,
+      details: { queue: job.queue, idempotencyKey: job.idempotencyKey },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('[Admin API] Error retrying job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
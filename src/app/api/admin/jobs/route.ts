@@ -0,0 +1,73 @@
+/**
+ * Admin API: List Background Jobs
+ *
+ * GET /api/admin/jobs
+ *
+ * List durable queue jobs with filtering and pagination, plus per-queue
+ * status counts. Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { JobStatus } from '@prisma/client';
+
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { getJobCounts, listJobs } from '@/lib/job-queue';
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    // Parse query
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const status = Object.values(JobStatus).includes(statusParam as JobStatus)
+      ? (statusParam as JobStatus)
+      : undefined;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const [result, counts] = await Promise.all([
+      listJobs({
+        queue: searchParams.get('queue') || undefined,
+        status,
+        page,
+        limit,
+      }),
+      getJobCounts(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs: result.jobs,
+        counts,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
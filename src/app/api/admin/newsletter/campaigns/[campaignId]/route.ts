@@ -0,0 +1,186 @@
+/**
+ * Admin API: Newsletter Campaign Detail
+ *
+ * GET /api/admin/newsletter/campaigns/[campaignId] - Campaign with recipient totals
+ * PATCH /api/admin/newsletter/campaigns/[campaignId] - Edit, send or cancel
+ *
+ * PATCH body:
+ * - { action: 'update', subject?, body?, previewText?, segment? } - edit a draft
+ * - { action: 'send' } - broadcast a draft to its segment in throttled batches
+ * - { action: 'cancel' } - stop a broadcast (or discard a draft)
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  type UpdateNewsletterCampaignInput,
+  cancelNewsletterCampaign,
+  getNewsletterCampaign,
+  startCampaignBroadcast,
+  updateNewsletterCampaign,
+} from '@/lib/newsletter-campaigns';
+
+/**
+ * Request body schema
+ */
+interface CampaignActionRequest extends UpdateNewsletterCampaignInput {
+  action: 'update' | 'send' | 'cancel';
+}
+
+/**
+ * Audit log action per PATCH action
+ */
+const AUDIT_ACTIONS: Record<CampaignActionRequest['action'], string> = {
+  update: 'UPDATE_NEWSLETTER_CAMPAIGN',
+  send: 'SEND_NEWSLETTER_CAMPAIGN',
+  cancel: 'CANCEL_NEWSLETTER_CAMPAIGN',
+};
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { campaignId } = await params;
+    const campaign = await getNewsletterCampaign(campaignId);
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { campaign } });
+  } catch (error) {
+    console.error('[Admin API] Error fetching newsletter campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+    const { campaignId } = await params;
+    const body = (await request.json()) as Partial<CampaignActionRequest>;
+
+    const before = await getNewsletterCampaign(campaignId);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    let details: Record<string, unknown> = {};
+
+    if (body.action === 'update') {
+      let result;
+      try {
+        result = await updateNewsletterCampaign(campaignId, {
+          subject: body.subject,
+          body: body.body,
+          previewText: body.previewText,
+          segment: body.segment,
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid campaign' },
+          { status: 400 }
+        );
+      }
+
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Only drafts can be edited' },
+          { status: 409 }
+        );
+      }
+    } else if (body.action === 'send') {
+      const result = await startCampaignBroadcast(campaignId);
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Only drafts can be sent' },
+          { status: 409 }
+        );
+      }
+      details = { recipientCount: result.recipientCount };
+    } else if (body.action === 'cancel') {
+      const result = await cancelNewsletterCampaign(campaignId);
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Finished campaigns cannot be cancelled' },
+          { status: 409 }
+        );
+      }
+      details = { skippedRecipients: result.skippedRecipients };
+    } else {
+      return NextResponse.json(
+        { error: 'action must be "update", "send" or "cancel"' },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await getNewsletterCampaign(campaignId);
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: AUDIT_ACTIONS[body.action],
+      resource: 'newsletter_campaigns',
+      resourceId: campaignId,
+      before: { status: before.status, subject: before.subject, segment: before.segment },
+      after: { status: campaign?.status, subject: campaign?.subject, segment: campaign?.segment },
+      details,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { campaign, ...details } });
+  } catch (error) {
+    console.error('[Admin API] Error updating newsletter campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
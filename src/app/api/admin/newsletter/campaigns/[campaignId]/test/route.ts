@@ -0,0 +1,90 @@
+/**
+ * Admin API: Newsletter Campaign Test Send
+ *
+ * POST /api/admin/newsletter/campaigns/[campaignId]/test
+ *
+ * Sends the campaign with a "[Test]" subject prefix to up to
+ * MAX_TEST_RECIPIENTS addresses (defaults to the requesting admin).
+ * Test sends are not tracked as recipients. Requires admin authentication.
+ *
+ * Body: { emails?: string[] }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { MAX_TEST_RECIPIENTS, sendCampaignTest } from '@/lib/newsletter-campaigns';
+import { isValidEmail } from '@/lib/validation';
+
+/**
+ * POST handler
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+    const { campaignId } = await params;
+    const body = (await request.json().catch(() => ({}))) as { emails?: unknown };
+
+    const emails = Array.isArray(body.emails) && body.emails.length > 0
+      ? body.emails.map((email) => String(email).trim().toLowerCase())
+      : [adminId];
+
+    if (emails.length > MAX_TEST_RECIPIENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TEST_RECIPIENTS} test recipients` },
+        { status: 400 }
+      );
+    }
+
+    const invalid = emails.filter((email) => !isValidEmail(email));
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid email address: ${invalid.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await sendCampaignTest(campaignId, emails);
+
+    if (!results) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'TEST_NEWSLETTER_CAMPAIGN',
+      resource: 'newsletter_campaigns',
+      resourceId: campaignId,
+      details: { recipients: emails, sent: results.filter((result) => result.success).length },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { results } });
+  } catch (error) {
+    console.error('[Admin API] Error sending newsletter campaign test:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
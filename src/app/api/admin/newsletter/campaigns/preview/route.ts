@@ -0,0 +1,76 @@
+/**
+ * Admin API: Newsletter Campaign Preview
+ *
+ * POST /api/admin/newsletter/campaigns/preview
+ *
+ * Renders an MDX / Markdown body in the branded email layout, exactly as
+ * subscribers will receive it (with the signed unsubscribe link generated
+ * for the requesting admin). Requires admin authentication.
+ *
+ * Body: { subject, body, previewText? }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { renderNewsletterIssue } from '@/lib/email';
+import { renderCampaignIssue } from '@/lib/newsletter-campaigns';
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { subject, body, previewText } = (await request.json()) as {
+      subject?: string;
+      body?: string;
+      previewText?: string;
+    };
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json(
+        { error: 'body is required' },
+        { status: 400 }
+      );
+    }
+
+    let issue;
+    try {
+      issue = await renderCampaignIssue({
+        subject: subject || '',
+        body,
+        previewText: previewText || null,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Body does not compile: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+
+    const { html } = await renderNewsletterIssue(issue, authResult.adminId!);
+
+    return NextResponse.json({
+      success: true,
+      data: { html },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error previewing newsletter campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Admin API: Newsletter Campaigns
+ *
+ * GET /api/admin/newsletter/campaigns - List campaigns with recipient totals
+ * POST /api/admin/newsletter/campaigns - Create a draft
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  type CampaignSegment,
+  createNewsletterCampaign,
+  listNewsletterCampaigns,
+} from '@/lib/newsletter-campaigns';
+
+/**
+ * Request body schema
+ */
+interface CreateCampaignRequest {
+  subject: string;
+  body: string;
+  previewText?: string;
+  segment?: CampaignSegment;
+}
+
+/**
+ * Validate request body
+ */
+function validateRequest(body: unknown): {
+  valid: boolean;
+  data?: CreateCampaignRequest;
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const req = body as Partial<CreateCampaignRequest>;
+
+  if (!req.subject || typeof req.subject !== 'string' || !req.subject.trim()) {
+    return { valid: false, error: 'subject is required' };
+  }
+
+  if (!req.body || typeof req.body !== 'string' || !req.body.trim()) {
+    return { valid: false, error: 'body is required' };
+  }
+
+  if (req.previewText !== undefined && typeof req.previewText !== 'string') {
+    return { valid: false, error: 'previewText must be a string' };
+  }
+
+  if (req.segment !== undefined && (typeof req.segment !== 'object' || req.segment === null)) {
+    return { valid: false, error: 'segment must be an object' };
+  }
+
+  return { valid: true, data: req as CreateCampaignRequest };
+}
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const campaigns = await listNewsletterCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      data: { campaigns },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing newsletter campaigns:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    // Validate request
+    const validation = validateRequest(await request.json());
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { subject, body, previewText, segment } = validation.data!;
+
+    let campaign;
+    try {
+      campaign = await createNewsletterCampaign({
+        subject,
+        body,
+        previewText,
+        segment,
+        createdBy: adminId,
+      });
+    } catch (error) {
+      // Body does not compile
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid campaign' },
+        { status: 400 }
+      );
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'CREATE_NEWSLETTER_CAMPAIGN',
+      resource: 'newsletter_campaigns',
+      resourceId: campaign.id,
+      after: { subject: campaign.subject, segment: campaign.segment },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { campaign } }, { status: 201 });
+  } catch (error) {
+    console.error('[Admin API] Error creating newsletter campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Admin API: Newsletter Subscribers
+ *
+ * GET /api/admin/newsletter/subscribers
+ *
+ * Segment the newsletter list by status, interest, geo and source. Returns
+ * the matching subscribers (paginated) and the segment's breakdown by each
+ * dimension. Requires admin authentication.
+ *
+ * Query parameters:
+ * - status: PENDING, CONFIRMED, UNSUBSCRIBED or BOUNCED
+ * - interest: interest slug (e.g. "governance")
+ * - geo: region code (e.g. "UK"), or "unknown" for no detected region
+ * - source: signup source (e.g. "hero")
+ * - search: email substring
+ * - page, limit: pagination
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth } from '@/lib/admin-auth';
+import {
+  type SubscriberFilters,
+  getSubscriberFacets,
+  listSubscribers,
+} from '@/lib/newsletter-subscribers';
+
+import type { NewsletterSubscriberStatus } from '@prisma/client';
+
+const STATUSES: NewsletterSubscriberStatus[] = ['PENDING', 'CONFIRMED', 'UNSUBSCRIBED', 'BOUNCED'];
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    // Parse query
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (status && !STATUSES.includes(status as NewsletterSubscriberStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const filters: SubscriberFilters = {
+      status: (status as NewsletterSubscriberStatus) || undefined,
+      interest: searchParams.get('interest') || undefined,
+      geo: searchParams.get('geo') || undefined,
+      source: searchParams.get('source') || undefined,
+      search: searchParams.get('search') || undefined,
+    };
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const [result, facets] = await Promise.all([
+      listSubscribers(filters, { page, limit }),
+      getSubscriberFacets(filters),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        subscribers: result.subscribers,
+        facets,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error querying newsletter subscribers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
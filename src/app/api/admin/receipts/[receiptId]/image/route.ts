@@ -0,0 +1,83 @@
+/**
+ * Admin API: Receipt Image
+ *
+ * GET /api/admin/receipts/[receiptId]/image
+ *
+ * Returns the receipt for the review queue with the PII regions recorded in
+ * `parsedData.redactedRegions` painted over. PDFs are returned as an image
+ * of their first page; the original file is never sent. Receipts without
+ * usable redaction data get 409 instead (see `canRedactReceipt`).
+ * Requires admin authentication; responses are never cached.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { fetchReceiptFile, getMimeTypeFromUrl } from '@/jobs/receipt-processor';
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { prisma } from '@/lib/prisma';
+import {
+  canRedactReceipt,
+  readReceiptReviewData,
+  redactReceiptFile,
+} from '@/lib/receipt-review';
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ receiptId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const { receiptId } = await params;
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: receiptId },
+      select: { fileUrl: true, parsedData: true },
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    const reviewData = readReceiptReviewData(receipt.parsedData);
+    if (!canRedactReceipt(reviewData)) {
+      return NextResponse.json(
+        { error: 'Receipt image withheld: no redaction data' },
+        { status: 409 }
+      );
+    }
+
+    const file = await fetchReceiptFile(receipt.fileUrl);
+    const redacted = await redactReceiptFile(
+      file,
+      getMimeTypeFromUrl(receipt.fileUrl),
+      reviewData.redactedRegions
+    );
+
+    return new NextResponse(new Uint8Array(redacted.buffer), {
+      headers: {
+        'Content-Type': redacted.mimeType,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error fetching receipt image:', error);
+    return NextResponse.json(
+      { error: 'Receipt file unavailable' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Admin API: Review Receipts
+ *
+ * POST /api/admin/receipts/review
+ *
+ * Approve, reject or mark receipts as duplicates. Accepts a single receipt
+ * or a batch; each receipt is processed independently and reported back.
+ * A batch where every receipt fails returns 409 if none of them were still
+ * pending, 500 otherwise.
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import {
+  manuallyApproveReceipt,
+  manuallyMarkDuplicate,
+  manuallyRejectReceipt,
+  ReceiptNotPendingError,
+} from '@/jobs/receipt-processor';
+import {
+  checkAdminAuth,
+  getClientIp,
+  logAdminAction,
+} from '@/lib/admin-auth';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Review actions
+ */
+type ReviewAction = 'approve' | 'reject' | 'duplicate';
+
+/**
+ * Request body schema
+ */
+interface ReviewReceiptsRequest {
+  receiptIds: string[];
+  action: ReviewAction;
+  /** Required for reject */
+  reason?: string;
+  /** Optional admin notes (approve) */
+  notes?: string;
+  /** Original receipt (duplicate) */
+  duplicateOfId?: string;
+}
+
+/**
+ * Maximum receipts per bulk request
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Validate request body
+ */
+function validateRequest(body: unknown): {
+  valid: boolean;
+  data?: ReviewReceiptsRequest;
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const req = body as Partial<ReviewReceiptsRequest>;
+
+  if (
+    !Array.isArray(req.receiptIds) ||
+    req.receiptIds.length === 0 ||
+    !req.receiptIds.every((id) => typeof id === 'string' && id.length > 0)
+  ) {
+    return { valid: false, error: 'receiptIds must be a non-empty array of IDs' };
+  }
+
+  if (req.receiptIds.length > MAX_BATCH_SIZE) {
+    return {
+      valid: false,
+      error: `At most ${MAX_BATCH_SIZE} receipts can be reviewed at once`,
+    };
+  }
+
+  if (!req.action || !['approve', 'reject', 'duplicate'].includes(req.action)) {
+    return {
+      valid: false,
+      error: 'action must be one of: approve, reject, duplicate',
+    };
+  }
+
+  if (req.action === 'reject' && (!req.reason || !req.reason.trim())) {
+    return { valid: false, error: 'A reason is required to reject receipts' };
+  }
+
+  if (req.duplicateOfId && req.receiptIds.includes(req.duplicateOfId)) {
+    return { valid: false, error: 'A receipt cannot duplicate itself' };
+  }
+
+  return { valid: true, data: req as ReviewReceiptsRequest };
+}
+
+/**
+ * Receipt fields captured in the audit log before and after review
+ */
+async function getReceiptAuditState(receiptId: string) {
+  return prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: {
+      status: true,
+      rejectionReason: true,
+      duplicateOfId: true,
+      verifiedBy: true,
+    },
+  });
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    // Validate request
+    const validation = validateRequest(body);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { receiptIds, action, reason, notes, duplicateOfId } = validation.data!;
+    const results: Array<{ receiptId: string; success: boolean; error?: string }> = [];
+    let notPending = 0;
+
+    // Sequential so bonus pack emails are not fired in parallel bursts
+    for (const receiptId of Array.from(new Set(receiptIds))) {
+      try {
+        const before = await getReceiptAuditState(receiptId);
+
+        if (action === 'approve') {
+          await manuallyApproveReceipt(receiptId, adminId, notes);
+        } else if (action === 'reject') {
+          await manuallyRejectReceipt(receiptId, adminId, (reason ?? '').trim());
+        } else {
+          await manuallyMarkDuplicate(receiptId, adminId, duplicateOfId);
+        }
+
+        await logAdminAction({
+          timestamp: new Date(),
+          adminId,
+          action: `RECEIPT_${action.toUpperCase()}`,
+          resource: 'receipts',
+          resourceId: receiptId,
+          before,
+          after: await getReceiptAuditState(receiptId),
+          details: { reason, notes, duplicateOfId, bulk: receiptIds.length > 1 },
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get('user-agent') || undefined,
+        });
+
+        results.push({ receiptId, success: true });
+      } catch (error) {
+        if (error instanceof ReceiptNotPendingError) {
+          notPending++;
+        } else {
+          console.error(`[Admin API] Error reviewing receipt ${receiptId}:`, error);
+        }
+        results.push({
+          receiptId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const failed = results.filter((r) => !r.success).length;
+
+    let status = 200;
+    if (failed === results.length) {
+      status = notPending === failed ? 409 : 500;
+    }
+
+    return NextResponse.json(
+      {
+        success: failed === 0,
+        data: {
+          action,
+          processed: results.length - failed,
+          failed,
+          results,
+        },
+      },
+      { status }
+    );
+  } catch (error) {
+    console.error('[Admin API] Error reviewing receipts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Admin API: Receipt Review Queue
+ *
+ * GET /api/admin/receipts
+ *
+ * List receipts by status with their automated verification results,
+ * plus per-status counts. Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { ReceiptStatus } from '@prisma/client';
+
+import { checkAdminAuth } from '@/lib/admin-auth';
+import { getReceiptStatusCounts, listReceiptsForReview } from '@/lib/receipt-review';
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    // Parse query
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const status = Object.values(ReceiptStatus).includes(statusParam as ReceiptStatus)
+      ? (statusParam as ReceiptStatus)
+      : undefined;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const [result, counts] = await Promise.all([
+      listReceiptsForReview({ status, page, limit }),
+      getReceiptStatusCounts(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipts: result.receipts,
+        counts,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing receipts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Admin API: Retailer Detail
+ *
+ * PATCH /api/admin/retailers/[retailerId] - Update a retailer in one region
+ *
+ * PATCH body (all optional): { displayName, logoUrl, isActive, nytEligible,
+ * hardcoverUrl, paperbackUrl, ebookUrl, audiobookUrl }; a null link removes
+ * that format. Changes reach the site within a minute (catalog cache).
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { getRetailerSelection, updateRetailerSelection } from '@/lib/retailer-catalog';
+import { RetailerSelectionUpdateSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * PATCH handler
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ retailerId: string }> }
+) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+    const { retailerId } = await params;
+
+    const validation = validateSchema(RetailerSelectionUpdateSchema, await request.json());
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: 'Invalid retailer update', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const before = await getRetailerSelection(retailerId);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Retailer not found' },
+        { status: 404 }
+      );
+    }
+
+    const retailer = await updateRetailerSelection(retailerId, validation.data);
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'UPDATE_RETAILER',
+      resource: 'retailers',
+      resourceId: retailerId,
+      before,
+      after: retailer,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { retailer } });
+  } catch (error) {
+    console.error('[Admin API] Error updating retailer:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Admin API: Retailer Order
+ *
+ * POST /api/admin/retailers/reorder - Set the display order of a region
+ *
+ * Body: { geo, ids } with every retailer ID in the region, first shown
+ * first. Returns 409 if the region changed since it was loaded.
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import { RetailerCatalogError, reorderRetailerSelections } from '@/lib/retailer-catalog';
+import { RetailerReorderSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    const validation = validateSchema(RetailerReorderSchema, await request.json());
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: 'Invalid retailer order', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    let retailers;
+    try {
+      retailers = await reorderRetailerSelections(validation.data);
+    } catch (error) {
+      if (error instanceof RetailerCatalogError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'REORDER_RETAILERS',
+      resource: 'retailers',
+      resourceId: validation.data.geo,
+      after: { ids: validation.data.ids },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { retailers } });
+  } catch (error) {
+    console.error('[Admin API] Error reordering retailers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Admin API: Retailers
+ *
+ * GET /api/admin/retailers - List retailers by region, in display order
+ * POST /api/admin/retailers - Add a retailer to a region (shown last)
+ *
+ * Requires admin authentication.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { Prisma } from '@prisma/client';
+
+import { checkAdminAuth, getClientIp, logAdminAction } from '@/lib/admin-auth';
+import {
+  createRetailerSelection,
+  listRetailerSelections,
+  RetailerCatalogError,
+} from '@/lib/retailer-catalog';
+import { RetailerSelectionCreateSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const retailers = await listRetailerSelections();
+
+    return NextResponse.json({
+      success: true,
+      data: { retailers },
+    });
+  } catch (error) {
+    console.error('[Admin API] Error listing retailers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await checkAdminAuth(request);
+    if (!authResult.authorized) {
+      return NextResponse.json(
+        {
+          error: authResult.error,
+          rateLimited: authResult.rateLimited,
+        },
+        { status: authResult.rateLimited ? 429 : 401 }
+      );
+    }
+
+    const adminId = authResult.adminId!;
+
+    // Validate request
+    const validation = validateSchema(RetailerSelectionCreateSchema, await request.json());
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: 'Invalid retailer', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    let retailer;
+    try {
+      retailer = await createRetailerSelection(validation.data);
+    } catch (error) {
+      if (error instanceof RetailerCatalogError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.statusCode }
+        );
+      }
+      // Unique on retailer slug + region
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'This retailer is already set up for that region' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await logAdminAction({
+      timestamp: new Date(),
+      adminId,
+      action: 'CREATE_RETAILER',
+      resource: 'retailers',
+      resourceId: retailer.id,
+      after: retailer,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { retailer } }, { status: 201 });
+  } catch (error) {
+    console.error('[Admin API] Error creating retailer:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
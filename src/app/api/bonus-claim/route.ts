@@ -14,7 +14,6 @@
  *
  * TODO: Production improvements
  * - TODO: Integrate email service for bonus delivery
- * - TODO: Move receipt storage to S3/R2 (Cloudflare R2 or AWS S3)
  * - TODO: Automated verification (OCR or retailer API integration)
  * - TODO: Admin dashboard for manual verification
  * - TODO: Malware scanning (ClamAV or cloud scanning service)
@@ -22,14 +21,10 @@
 
 import { type NextRequest, NextResponse } from 'next/server';
 
-import { promises as fs } from 'fs';
-import path from 'path';
-
 import {
   validateFileType,
   validateFileSize,
   generateUniqueFilename,
-  saveFile,
   sanitizeFilename,
   getFileExtension,
 } from '@/lib/file-utils';
@@ -40,6 +35,7 @@ import {
   fileUploadRateLimiter,
   BONUS_CLAIM_RATE_LIMIT,
 } from '@/lib/ratelimit';
+import { getStorage } from '@/lib/storage';
 import { sanitizeString } from '@/lib/validation';
 import { sendBonusPackEmail } from '@/lib/email';
 
@@ -220,12 +216,12 @@ export async function POST(request: NextRequest) {
     const uniqueFilename = generateUniqueFilename(sanitizedOriginalName, fileExtension);
 
     // ==================== Save Receipt File ====================
-    // TODO: Move this to S3/R2 in production for better scalability and security
-    const uploadDir = '/uploads/receipts';
-    let receiptPath: string;
+    const receiptPath = `receipts/${uniqueFilename}`;
 
     try {
-      receiptPath = await saveFile(fileBuffer, uniqueFilename, uploadDir);
+      await getStorage().put(receiptPath, fileBuffer, {
+        contentType: typeValidation.mimeType,
+      });
     } catch (saveError) {
        
       console.error('Error saving receipt file:', saveError);
@@ -254,7 +250,7 @@ export async function POST(request: NextRequest) {
     };
 
     // ==================== Store Claim Record ====================
-    // For MVP: Store in JSON file
+    // For MVP: Store as a JSON object alongside the receipt
     // TODO: Move to database (PostgreSQL, MongoDB, or Supabase) in production
     try {
       await saveClaimRecord(claimRecord);
@@ -361,35 +357,19 @@ function generateClaimId(): string {
 }
 
 /**
- * Save claim record to JSON file (MVP implementation)
+ * Save claim record as a JSON object in storage (MVP implementation)
  * TODO: Replace with database in production
  */
 async function saveClaimRecord(record: BonusClaimRecord): Promise<void> {
-  const dataDir = path.join(process.cwd(), 'data');
-  const filePath = path.join(dataDir, 'bonus-claims.json');
-
   try {
-    // Ensure data directory exists
-    await fs.mkdir(dataDir, { recursive: true });
-
-    // Read existing claims
-    let claims: BonusClaimRecord[] = [];
-    try {
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      claims = JSON.parse(fileContent);
-    } catch {
-      // File doesn't exist or is empty, start with empty array
-      claims = [];
-    }
-
-    // Add new claim
-    claims.push(record);
-
-    // Write back to file with pretty formatting
-    await fs.writeFile(filePath, JSON.stringify(claims, null, 2), 'utf-8');
+    await getStorage().put(
+      `bonus-claims/${record.id}.json`,
+      JSON.stringify(record, null, 2),
+      { contentType: 'application/json' }
+    );
   } catch (error: unknown) {
      
-    console.error('Error saving claim record to file:', error);
+    console.error('Error saving claim record to storage:', error);
     throw error;
   }
 }
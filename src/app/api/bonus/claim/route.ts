@@ -24,18 +24,18 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { sanitizeString } from '@/lib/validation';
-import { sendBonusPackEmail } from '@/lib/email';
+
+import { ReceiptStatus, BonusClaimStatus } from '@prisma/client';
+
 import { generateAllBonusPackUrls } from '@/lib/bonus-pack-tokens';
+import { sendBonusPackEmail } from '@/lib/email';
 import {
   validateFileType,
   validateFileSize,
-  generateUniqueFilename,
   sanitizeFilename,
-  getFileExtension,
   calculateFileHash,
 } from '@/lib/file-utils';
+import { prisma } from '@/lib/prisma';
 import {
   checkRateLimit,
   getClientIP,
@@ -43,13 +43,9 @@ import {
   fileUploadRateLimiter,
   BONUS_CLAIM_RATE_LIMIT,
 } from '@/lib/ratelimit';
-import {
-  uploadToStorage,
-  generateSecureFilename,
-  isStorageConfigured,
-  getStorageProvider,
-} from '@/lib/upload';
-import { ReceiptStatus, BonusClaimStatus } from '@prisma/client';
+import { getStorage } from '@/lib/storage';
+import { generateSecureFilename } from '@/lib/upload';
+import { sanitizeString } from '@/lib/validation';
 import type { BonusClaimSubmitEvent } from '@/types/analytics';
 
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
@@ -226,41 +222,26 @@ export async function POST(request: NextRequest) {
     }
 
     // ==================== Upload Receipt File ====================
-    let fileUrl: string;
-
-    if (isStorageConfigured()) {
-      // Upload to S3/R2
-      const sanitizedOriginalName = sanitizeFilename(receipt.name);
-      const fileExtension = typeValidation.extension || getFileExtension(sanitizedOriginalName);
-      const filename = generateSecureFilename(
-        sanitizedOriginalName,
-        typeValidation.mimeType!,
-        email // Use email as user identifier
-      );
-
-      fileUrl = await uploadToStorage(fileBuffer, filename, {
-        folder: 'receipts',
-        contentType: typeValidation.mimeType,
-        metadata: {
-          email: sanitizeString(email),
-          retailer: sanitizeString(retailer),
-          orderId: sanitizeString(orderId),
-          uploadedAt: new Date().toISOString(),
-        },
-      });
-
-      console.log(`[Bonus Claim] Uploaded to ${getStorageProvider()}: ${filename}`);
-    } else {
-      // Fallback: local storage for development
-      console.warn('[Bonus Claim] Storage not configured. Using local fallback.');
+    const storage = getStorage();
+    const sanitizedOriginalName = sanitizeFilename(receipt.name);
+    const filename = generateSecureFilename(
+      sanitizedOriginalName,
+      typeValidation.mimeType!,
+      email // Use email as user identifier
+    );
+    const fileUrl = `receipts/${filename}`;
 
-      const { saveFile } = await import('@/lib/file-utils');
-      const sanitizedOriginalName = sanitizeFilename(receipt.name);
-      const fileExtension = typeValidation.extension || getFileExtension(sanitizedOriginalName);
-      const uniqueFilename = generateUniqueFilename(sanitizedOriginalName, fileExtension);
+    await storage.put(fileUrl, fileBuffer, {
+      contentType: typeValidation.mimeType,
+      metadata: {
+        email: sanitizeString(email),
+        retailer: sanitizeString(retailer),
+        orderId: sanitizeString(orderId),
+        uploadedAt: new Date().toISOString(),
+      },
+    });
 
-      fileUrl = await saveFile(fileBuffer, uniqueFilename, '/uploads/receipts');
-    }
+    console.log(`[Bonus Claim] Stored with ${storage.name} driver: ${fileUrl}`);
 
     // ==================== Create or Get User ====================
     const sanitizedEmail = sanitizeString(email.toLowerCase().trim());
@@ -11,7 +11,15 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
+
 import { z } from 'zod';
+
+import { recordAuditEvent } from '@/lib/audit-log';
+import { auth } from '@/lib/auth';
+import {
+  redeemCodeForUser,
+  type CodeRedemptionFailureReason,
+} from '@/lib/code-redemption';
 import {
   checkRateLimit,
   getClientIP,
@@ -19,6 +27,7 @@ import {
   codeRedemptionRateLimiter,
 } from '@/lib/ratelimit';
 import { hashString } from '@/lib/security';
+import { isValidCodeFormat, normalizeCodeInput } from '@/types/vip-codes';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -38,52 +47,53 @@ const CodeRedemptionSchema = z.object({
 type CodeRedemptionInput = z.infer<typeof CodeRedemptionSchema>;
 
 /**
- * Code status enum (matches database schema)
- */
-enum CodeStatus {
-  PENDING = 'pending',
-  REDEEMED = 'redeemed',
-  EXPIRED = 'expired',
-  REVOKED = 'revoked',
-}
-
-/**
- * Book format enum (matches database schema)
- */
-enum BookFormat {
-  HARDCOVER = 'hardcover',
-  PAPERBACK = 'paperback',
-  EBOOK = 'ebook',
-  AUDIOBOOK = 'audiobook',
-}
-
-/**
- * Mock code record structure (replace with actual Prisma model)
+ * Error response per refused redemption
  */
-interface CodeRecord {
-  id: string;
-  code: string;
-  format: BookFormat;
-  status: CodeStatus;
-  org_id: string | null;
-  user_id: string | null;
-  retailer: string | null;
-  redeemed_at: Date | null;
-  expires_at: Date | null;
-  created_at: Date;
-  updated_at: Date;
-}
-
-/**
- * Mock entitlement record
- */
-interface EntitlementRecord {
-  id: string;
-  user_id: string;
-  code_id: string;
-  entitlement_type: string;
-  granted_at: Date;
-}
+const REDEMPTION_ERRORS: Record<
+  CodeRedemptionFailureReason,
+  { code: string; message: string; status: number }
+> = {
+  not_found: {
+    code: 'CODE_NOT_FOUND',
+    message: 'The redemption code does not exist',
+    status: 404,
+  },
+  already_redeemed: {
+    code: 'CODE_ALREADY_REDEEMED',
+    message: 'This code has already been redeemed',
+    status: 409,
+  },
+  duplicate_redemption: {
+    code: 'CODE_ALREADY_REDEEMED_BY_USER',
+    message: 'You have already redeemed this code',
+    status: 409,
+  },
+  expired: {
+    code: 'CODE_EXPIRED',
+    message: 'This code has expired and can no longer be redeemed',
+    status: 410,
+  },
+  not_yet_valid: {
+    code: 'CODE_NOT_YET_VALID',
+    message: 'This code cannot be redeemed yet',
+    status: 403,
+  },
+  revoked: {
+    code: 'CODE_REVOKED',
+    message: 'This code has been revoked and cannot be redeemed',
+    status: 403,
+  },
+  campaign_exhausted: {
+    code: 'CAMPAIGN_EXHAUSTED',
+    message: 'This promotion has reached its redemption limit',
+    status: 410,
+  },
+  recipient_mismatch: {
+    code: 'CODE_RECIPIENT_MISMATCH',
+    message: 'This invite was sent to a different email address. Sign in with that address to redeem it.',
+    status: 403,
+  },
+};
 
 // ============================================================================
 // RATE LIMITING
@@ -99,205 +109,15 @@ const CODE_REDEMPTION_RATE_LIMIT = {
   prefix: 'ratelimit:code',
 };
 
-// ============================================================================
-// MOCK DATABASE FUNCTIONS
-// ============================================================================
-// TODO: Replace with actual Prisma queries when database is connected
-
-/**
- * In-memory store for codes (development only - replace with database)
- */
-const mockCodeStore = new Map<string, CodeRecord>();
-
-/**
- * Find code by code string
- */
-async function findCodeByCode(codeStr: string): Promise<CodeRecord | null> {
-  // TODO: Replace with Prisma query
-  // const code = await prisma.code.findUnique({
-  //   where: { code: codeStr },
-  // });
-
-  const code = mockCodeStore.get(codeStr);
-  return code || null;
-}
-
-/**
- * Check if user already has a code for this format
- */
-async function userHasFormatCode(
-  userId: string,
-  format: BookFormat
-): Promise<boolean> {
-  // TODO: Replace with Prisma query
-  // const existingCode = await prisma.code.findFirst({
-  //   where: {
-  //     user_id: userId,
-  //     format: format,
-  //     status: CodeStatus.REDEEMED,
-  //   },
-  // });
-  // return existingCode !== null;
-
-  const codes = Array.from(mockCodeStore.values());
-  for (const code of codes) {
-    if (
-      code.user_id === userId &&
-      code.format === format &&
-      code.status === CodeStatus.REDEEMED
-    ) {
-      return true;
-    }
-  }
-  return false;
-}
-
-/**
- * Redeem code for user
- */
-async function redeemCode(
-  codeRecord: CodeRecord,
-  userId: string,
-  retailer: string,
-  deviceFingerprint: string | undefined,
-  ipAddress: string
-): Promise<CodeRecord> {
-  // TODO: Replace with Prisma transaction
-  // const updatedCode = await prisma.code.update({
-  //   where: { id: codeRecord.id },
-  //   data: {
-  //     status: CodeStatus.REDEEMED,
-  //     user_id: userId,
-  //     retailer: retailer,
-  //     redeemed_at: new Date(),
-  //     device_fingerprint: deviceFingerprint,
-  //     ip_address: ipAddress,
-  //   },
-  // });
-
-  const updatedCode: CodeRecord = {
-    ...codeRecord,
-    status: CodeStatus.REDEEMED,
-    user_id: userId,
-    retailer: retailer,
-    redeemed_at: new Date(),
-    updated_at: new Date(),
-  };
-
-  mockCodeStore.set(codeRecord.code, updatedCode);
-  return updatedCode;
-}
-
-/**
- * Create entitlement for user
- */
-async function createEntitlement(
-  userId: string,
-  codeId: string
-): Promise<EntitlementRecord> {
-  // TODO: Replace with Prisma query
-  // const entitlement = await prisma.entitlement.create({
-  //   data: {
-  //     user_id: userId,
-  //     code_id: codeId,
-  //     entitlement_type: 'toolkit',
-  //     granted_at: new Date(),
-  //   },
-  // });
-
-  const entitlement: EntitlementRecord = {
-    id: crypto.randomUUID(),
-    user_id: userId,
-    code_id: codeId,
-    entitlement_type: 'toolkit',
-    granted_at: new Date(),
-  };
-
-  return entitlement;
-}
-
-/**
- * Log audit event
- */
-async function logAuditEvent(
-  eventType: string,
-  userId: string | null,
-  entityId: string,
-  changes: Record<string, unknown>
-): Promise<void> {
-  // TODO: Replace with Prisma audit log insert
-  // await prisma.auditLog.create({
-  //   data: {
-  //     event_type: eventType,
-  //     actor_user_id: userId,
-  //     entity_type: 'code',
-  //     entity_id: entityId,
-  //     changes: changes,
-  //     event_timestamp: new Date(),
-  //   },
-  // });
-
-  console.log('[AUDIT]', {
-    eventType,
-    userId,
-    entityId,
-    changes,
-    timestamp: new Date().toISOString(),
-  });
-}
-
-// ============================================================================
-// AUTHENTICATION HELPER
-// ============================================================================
-
-/**
- * Get authenticated user from session
- * TODO: Replace with actual Auth.js session retrieval
- */
-async function getAuthenticatedUser(
-  request: NextRequest
-): Promise<{ id: string; email: string } | null> {
-  // TODO: Implement Auth.js session validation
-  // const session = await getServerSession(authOptions);
-  // if (!session?.user?.id) {
-  //   return null;
-  // }
-  // return {
-  //   id: session.user.id,
-  //   email: session.user.email,
-  // };
-
-  // Mock authentication - check for dev-only session cookie
-  const sessionCookie = request.cookies.get('dev-session-user-id');
-  if (sessionCookie?.value) {
-    return {
-      id: sessionCookie.value,
-      email: 'dev@example.com',
-    };
-  }
-
-  return null;
-}
-
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Validate code format (6-character alphanumeric uppercase)
- */
-function isValidCodeFormat(code: string): boolean {
-  return /^[A-Z0-9]{6}$/.test(code);
-}
-
 /**
  * Get retailer redirect URL
  * TODO: Integrate with retailer configuration
  */
-function getRetailerRedirectUrl(
-  retailer: string,
-  format: BookFormat
-): string {
+function getRetailerRedirectUrl(retailer: string): string {
   // TODO: Replace with actual retailer URL configuration
   const baseUrls: Record<string, string> = {
     amazon: 'https://amazon.com/AI-Born-dp/...',
@@ -346,7 +166,7 @@ export async function POST(
 
     // Extract code from URL parameter
     const { code: codeParam } = await context.params;
-    const codeUpper = codeParam.toUpperCase().trim();
+    const codeUpper = normalizeCodeInput(codeParam.trim());
 
     // Validate code format (6-character alphanumeric)
     if (!isValidCodeFormat(codeUpper)) {
@@ -379,7 +199,10 @@ export async function POST(
     }
 
     // Check authentication
-    user = await getAuthenticatedUser(request);
+    const session = await auth();
+    user = session?.user?.id
+      ? { id: session.user.id, email: session.user.email ?? '' }
+      : null;
     if (!user) {
       logRequest({
         code: codeUpper,
@@ -494,153 +317,58 @@ export async function POST(
       throw error;
     }
 
-    // Find code in database
-    const codeRecord = await findCodeByCode(codeUpper);
-    if (!codeRecord) {
-      logRequest({
-        code: codeUpper,
-        userId: user.id,
-        ip: clientIP,
-        success: false,
-        error: 'Code not found',
-        timestamp,
-      });
-
-      return NextResponse.json(
-        {
-          error: {
-            code: 'CODE_NOT_FOUND',
-            message: 'The redemption code does not exist',
-            details: {
-              code: codeUpper,
-              reason: 'not_found',
-            },
-          },
-          meta: {
-            requestId: crypto.randomUUID(),
-            timestamp,
-          },
-        },
-        { status: 404 }
-      );
-    }
-
-    // Check if code is already redeemed
-    if (codeRecord.status === CodeStatus.REDEEMED) {
-      logRequest({
-        code: codeUpper,
-        userId: user.id,
-        ip: clientIP,
-        success: false,
-        error: 'Code already redeemed',
-        timestamp,
-      });
-
-      return NextResponse.json(
-        {
-          error: {
-            code: 'CODE_ALREADY_REDEEMED',
-            message: 'This code has already been redeemed',
-            details: {
-              code: codeUpper,
-              reason: 'already_redeemed',
-              redeemedAt: codeRecord.redeemed_at?.toISOString(),
-            },
-          },
-          meta: {
-            requestId: crypto.randomUUID(),
-            timestamp,
-          },
-        },
-        { status: 409 }
-      );
-    }
-
-    // Check if code is expired
-    if (
-      codeRecord.status === CodeStatus.EXPIRED ||
-      (codeRecord.expires_at && codeRecord.expires_at < new Date())
-    ) {
-      logRequest({
-        code: codeUpper,
-        userId: user.id,
-        ip: clientIP,
-        success: false,
-        error: 'Code expired',
-        timestamp,
-      });
+    // Redeem the code (serializable transaction)
+    const result = await redeemCodeForUser({
+      code: codeUpper,
+      userId: user.id,
+      email: user.email,
+      metadata: {
+        retailer: body.retailer,
+        ...(body.deviceFingerprint && { deviceFingerprint: body.deviceFingerprint }),
+        ipHash: await hashString(clientIP),
+      },
+    });
 
-      return NextResponse.json(
-        {
-          error: {
-            code: 'CODE_EXPIRED',
-            message: 'This code has expired and can no longer be redeemed',
-            details: {
-              code: codeUpper,
-              reason: 'expired',
-              expiresAt: codeRecord.expires_at?.toISOString(),
-            },
-          },
-          meta: {
-            requestId: crypto.randomUUID(),
-            timestamp,
-          },
-        },
-        { status: 410 }
-      );
-    }
+    if (!result.success) {
+      const redemptionError = REDEMPTION_ERRORS[result.reason];
 
-    // Check if code is revoked
-    if (codeRecord.status === CodeStatus.REVOKED) {
       logRequest({
         code: codeUpper,
         userId: user.id,
         ip: clientIP,
         success: false,
-        error: 'Code revoked',
+        error: redemptionError.message,
         timestamp,
       });
 
-      return NextResponse.json(
-        {
-          error: {
-            code: 'CODE_REVOKED',
-            message: 'This code has been revoked and cannot be redeemed',
-            details: {
-              code: codeUpper,
-              reason: 'revoked',
-            },
-          },
-          meta: {
-            requestId: crypto.randomUUID(),
-            timestamp,
-          },
-        },
-        { status: 403 }
-      );
-    }
-
-    // Check if user already has a code for this format (anti-abuse)
-    const userHasFormat = await userHasFormatCode(user.id, codeRecord.format);
-    if (userHasFormat) {
-      logRequest({
-        code: codeUpper,
-        userId: user.id,
-        ip: clientIP,
-        success: false,
-        error: 'User already has format',
-        timestamp,
-      });
+      // Someone other than the invitee tried to use a personal invite
+      if (result.reason === 'recipient_mismatch' && result.code) {
+        await recordAuditEvent({
+          actorType: 'USER',
+          actorId: user.id,
+          action: 'CODE_INVITE_REJECT',
+          entityType: 'codes',
+          entityId: result.code.id,
+          details: { reason: result.reason },
+          ipAddress: clientIP,
+          userAgent: request.headers.get('user-agent'),
+        });
+      }
 
       return NextResponse.json(
         {
           error: {
-            code: 'USER_ALREADY_HAS_FORMAT',
-            message: `You have already redeemed a code for the ${codeRecord.format} format`,
+            code: redemptionError.code,
+            message: redemptionError.message,
             details: {
               code: codeUpper,
-              format: codeRecord.format,
-              reason: 'duplicate_format',
+              reason: result.reason,
+              ...(result.reason === 'expired' && {
+                expiresAt: result.code?.validUntil?.toISOString(),
+              }),
+              ...(result.reason === 'not_yet_valid' && {
+                validFrom: result.code?.validFrom.toISOString(),
+              }),
             },
           },
           meta: {
@@ -648,33 +376,32 @@ export async function POST(
             timestamp,
           },
         },
-        { status: 409 }
+        { status: redemptionError.status }
       );
     }
 
-    // Redeem the code (database transaction)
-    const updatedCode = await redeemCode(
-      codeRecord,
-      user.id,
-      body.retailer,
-      body.deviceFingerprint,
-      clientIP
-    );
-
-    // Create entitlement for user
-    const entitlement = await createEntitlement(user.id, updatedCode.id);
-
     // Log audit event
-    await logAuditEvent('code_redeemed', user.id, updatedCode.id, {
-      before: { status: codeRecord.status },
-      after: { status: CodeStatus.REDEEMED, retailer: body.retailer },
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: user.id,
+      action: 'CODE_REDEEM',
+      entityType: 'codes',
+      entityId: result.code.id,
+      before: { redemptionCount: result.code.redemptionCount - 1 },
+      after: {
+        status: result.code.status,
+        redemptionCount: result.code.redemptionCount,
+      },
+      details: {
+        retailer: body.retailer,
+        entitlements: result.entitlements.map((entitlement) => entitlement.type),
+      },
+      ipAddress: clientIP,
+      userAgent: request.headers.get('user-agent'),
     });
 
     // Get retailer redirect URL
-    const redirectUrl = getRetailerRedirectUrl(
-      body.retailer,
-      codeRecord.format as BookFormat
-    );
+    const redirectUrl = getRetailerRedirectUrl(body.retailer);
 
     // Success response
     logRequest({
@@ -692,15 +419,15 @@ export async function POST(
           status: 'redeemed',
           redirectUrl,
           retailer: body.retailer,
-          format: updatedCode.format,
+          codeType: result.code.type,
           nextSteps:
             'Complete your purchase at the retailer, then upload your receipt to unlock the toolkit.',
           receiptUploadUrl: '/api/receipts/upload',
           toolkitAccess: false,
-          entitlement: {
-            type: entitlement.entitlement_type,
-            grantedAt: entitlement.granted_at.toISOString(),
-          },
+          entitlements: result.entitlements.map((entitlement) => ({
+            type: entitlement.type,
+            grantedAt: entitlement.createdAt.toISOString(),
+          })),
         },
         meta: {
           requestId: crypto.randomUUID(),
@@ -748,56 +475,3 @@ export async function POST(
     );
   }
 }
-
-// ============================================================================
-// DEVELOPMENT HELPERS
-// ============================================================================
-
-/**
- * Seed mock codes for development
- * TODO: Remove in production
- */
-if (process.env.NODE_ENV === 'development') {
-  // Seed a few test codes
-  mockCodeStore.set('ABC123', {
-    id: 'code_1',
-    code: 'ABC123',
-    format: BookFormat.HARDCOVER,
-    status: CodeStatus.PENDING,
-    org_id: null,
-    user_id: null,
-    retailer: null,
-    redeemed_at: null,
-    expires_at: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-    created_at: new Date(),
-    updated_at: new Date(),
-  });
-
-  mockCodeStore.set('XYZ789', {
-    id: 'code_2',
-    code: 'XYZ789',
-    format: BookFormat.EBOOK,
-    status: CodeStatus.PENDING,
-    org_id: null,
-    user_id: null,
-    retailer: null,
-    redeemed_at: null,
-    expires_at: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-    created_at: new Date(),
-    updated_at: new Date(),
-  });
-
-  mockCodeStore.set('USED99', {
-    id: 'code_3',
-    code: 'USED99',
-    format: BookFormat.HARDCOVER,
-    status: CodeStatus.REDEEMED,
-    org_id: null,
-    user_id: 'user_test',
-    retailer: 'amazon',
-    redeemed_at: new Date(),
-    expires_at: null,
-    created_at: new Date(),
-    updated_at: new Date(),
-  });
-}
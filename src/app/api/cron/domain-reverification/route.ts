@@ -0,0 +1,48 @@
+/**
+ * Cron API: Re-verify Organization Domains
+ *
+ * GET /api/cron/domain-reverification
+ *
+ * Re-checks the TXT records of verified organization domains, warning owners
+ * and revoking verification once a record has been missing for the grace
+ * period (see `@/lib/org-domain-reverification`). Intended to be triggered
+ * by Vercel Cron.
+ *
+ * Requires `Authorization: Bearer ${CRON_SECRET}`.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { runDomainReverification } from '@/lib/org-domain-reverification';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron Domain Re-verification] CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDomainReverification();
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('[Cron Domain Re-verification] Error re-verifying domains:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Cron API: Drip Sequence Tick
+ *
+ * GET /api/cron/drip
+ *
+ * Sends due steps of the pre-launch drip sequences (see
+ * `@/lib/drip-sequences`). Intended to be triggered by Vercel Cron; run
+ * `npm run drip:scheduler` for the same tick locally.
+ *
+ * Requires `Authorization: Bearer ${CRON_SECRET}`.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { runDripTick } from '@/lib/drip-sequences';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Enrollments processed per invocation (keeps runs inside maxDuration)
+ */
+const MAX_ENROLLMENTS_PER_RUN = 40;
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron Drip] CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDripTick({ batchSize: MAX_ENROLLMENTS_PER_RUN });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('[Cron Drip] Error running drip tick:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Cron API: Run Background Jobs
+ *
+ * GET /api/cron/jobs
+ *
+ * Drains due jobs from the durable job queue. Intended to be triggered by
+ * Vercel Cron (or any scheduler) so jobs progress without a long-running
+ * worker process.
+ *
+ * Plan generation runs longer than this route allows, so it has its own
+ * route (`GET /api/cron/plan-generation`).
+ *
+ * Requires `Authorization: Bearer ${CRON_SECRET}`.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { jobHandlers, runJobsOnce } from '@/jobs/worker';
+import { ORG_PLAN_GENERATION_QUEUE } from '@/lib/plan-generation';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Jobs processed per invocation (keeps runs inside maxDuration)
+ */
+const MAX_JOBS_PER_RUN = 10;
+
+/**
+ * Queues drained by this route
+ */
+const QUEUES = Object.keys(jobHandlers).filter((queue) => queue !== ORG_PLAN_GENERATION_QUEUE);
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron Jobs] CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runJobsOnce({
+      queues: QUEUES,
+      maxJobs: MAX_JOBS_PER_RUN,
+      workerId: `cron:${request.headers.get('x-vercel-id') || 'manual'}`,
+    });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('[Cron Jobs] Error running jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
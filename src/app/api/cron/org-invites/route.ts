@@ -0,0 +1,45 @@
+/**
+ * Cron API: Expire Organization Invites
+ *
+ * GET /api/cron/org-invites
+ *
+ * Marks organization invites past their expiry EXPIRED (see
+ * `@/lib/org-invitations`). Intended to be triggered by Vercel Cron.
+ *
+ * Requires `Authorization: Bearer ${CRON_SECRET}`.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { expireStaleOrgInvites } from '@/lib/org-invitations';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron Org Invites] CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await expireStaleOrgInvites();
+
+    return NextResponse.json({ success: true, summary: { expired } });
+  } catch (error) {
+    console.error('[Cron Org Invites] Error expiring invites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Cron API: Run Plan Generation Jobs
+ *
+ * GET /api/cron/plan-generation
+ *
+ * Retries plan generation jobs (see `@/lib/plan-generation`) and releases
+ * ones whose function was killed. New plans start generating from
+ * `POST /api/orgs/[orgId]/plans` without waiting for this route.
+ *
+ * Requires `Authorization: Bearer ${CRON_SECRET}`.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { runJobsOnce } from '@/jobs/worker';
+import { ORG_PLAN_GENERATION_QUEUE } from '@/lib/plan-generation';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+// Matches PLAN_GENERATION_MAX_DURATION_S
+export const maxDuration = 300;
+
+/**
+ * GET handler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron Plan Generation] CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // One plan per run, so a full-length generation fits inside maxDuration
+    const summary = await runJobsOnce({
+      queues: [ORG_PLAN_GENERATION_QUEUE],
+      maxJobs: 1,
+      workerId: `cron:${request.headers.get('x-vercel-id') || 'manual'}`,
+    });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('[Cron Plan Generation] Error running jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,12 @@
  * Email Capture API Endpoint
  *
  * Captures email addresses for the free excerpt download and mailing list.
- * Implements rate limiting, spam protection, and validation.
+ * Implements rate limiting, spam protection, and validation. Captured
+ * addresses join the newsletter list (`@/lib/newsletter-subscribers`) as
+ * pending subscribers and are sent a confirmation email.
+ *
+ * New leads are enrolled in the drip sequence for their capture source
+ * (`@/lib/drip-sequences`), whose first step is the excerpt email.
  *
  * @route POST /api/email-capture
  */
@@ -11,7 +16,13 @@ import { type NextRequest, NextResponse } from 'next/server';
 
 import { z } from 'zod';
 
-import { EmailCaptureSchema, isHoneypotFilled } from '@/lib/validation';
+import { startDripSequence } from '@/lib/drip-sequences';
+import { sendExcerptEmail, sendNewsletterConfirmationEmail } from '@/lib/email';
+import {
+  getCaptureSource,
+  parseNewsletterSource,
+  subscribeToNewsletter,
+} from '@/lib/newsletter-subscribers';
 import {
   checkRateLimit,
   getClientIP,
@@ -19,7 +30,8 @@ import {
   emailCaptureRateLimiter,
   EMAIL_CAPTURE_RATE_LIMIT,
 } from '@/lib/ratelimit';
-import { sendExcerptEmail } from '@/lib/email';
+import { generateNewsletterConfirmationToken } from '@/lib/tokens';
+import { EmailCaptureSchema, isHoneypotFilled } from '@/lib/validation';
 
 // ============================================================================
 // Helper Functions
@@ -173,8 +185,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Send excerpt email via Resend
-    const emailResult = await sendExcerptEmail(validatedData.email);
+    // Start the source's drip sequence, which sends the excerpt now. Sources
+    // without a sequence, and leads already enrolled, get a one-off excerpt.
+    const source = parseNewsletterSource(validatedData.source, 'excerpt');
+    const drip = await startDripSequence({
+      email: validatedData.email,
+      name: validatedData.name || undefined,
+      source: getCaptureSource(source),
+      geo: validatedData.geo,
+    }).catch((error) => {
+      console.error('[Email Capture] Failed to start drip sequence:', error);
+      return null;
+    });
+    const emailResult = drip?.result ?? (await sendExcerptEmail(validatedData.email));
 
     if (!emailResult.success) {
       logRequest({
@@ -210,13 +233,41 @@ export async function POST(request: NextRequest) {
       success: true,
     });
 
-    // TODO: Add to mailing list service (Mailchimp/ConvertKit)
-    console.log('[Email Capture] New subscriber:', {
-      email: validatedData.email,
-      name: validatedData.name || 'Not provided',
-      source: validatedData.source || 'Direct',
-      messageId: emailResult.messageId,
-    });
+    // Add to the newsletter list (double opt-in). The excerpt is already on
+    // its way, so a failure here is logged rather than returned.
+    try {
+      const { subscriber, action } = await subscribeToNewsletter({
+        email: validatedData.email,
+        name: validatedData.name || undefined,
+        source,
+        interests: [],
+        attribution: {
+          referrer: validatedData.referrer,
+          utmSource: validatedData.utmSource,
+          utmMedium: validatedData.utmMedium,
+          utmCampaign: validatedData.utmCampaign,
+          geo: validatedData.geo,
+          ipAddress: clientIP,
+          userAgent: request.headers.get('user-agent') || undefined,
+        },
+      });
+
+      if (action === 'created' || action === 'resubscribed') {
+        await sendNewsletterConfirmationEmail(
+          subscriber.email,
+          generateNewsletterConfirmationToken(subscriber.email)
+        );
+      }
+
+      console.log('[Email Capture] Newsletter subscriber:', {
+        email: subscriber.email,
+        status: subscriber.status,
+        action,
+        messageId: emailResult.messageId,
+      });
+    } catch (error) {
+      console.error('[Email Capture] Failed to add newsletter subscriber:', error);
+    }
 
     const downloadUrl = '/assets/ai-born-excerpt.pdf';
 
@@ -0,0 +1,97 @@
+/**
+ * First-Party Analytics Events API
+ *
+ * POST /api/events
+ *
+ * Receives batched events from the `trackEvent` beacon and stores the
+ * ones mapped to an `AnalyticsEventType` (see `@/lib/analytics-ingest`).
+ *
+ * Features:
+ * - Accepts `navigator.sendBeacon` and `fetch(..., { keepalive: true })`
+ * - Consent-aware: without analytics consent, or with a `Sec-GPC: 1`
+ *   header, only anonymous event counts with UTM and region are stored
+ * - Rate limiting (120 beacons per 10 minutes per IP)
+ * - Responds 202 without echoing data, so beacons never need the body
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { ingestAnalyticsEvents } from '@/lib/analytics-ingest';
+import { auth } from '@/lib/auth';
+import {
+  analyticsEventsRateLimiter,
+  checkRateLimit,
+  getClientIP,
+  getRateLimitHeaders,
+} from '@/lib/ratelimit';
+import { AnalyticsEventBatchSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * In-memory fallback when Redis is not configured
+ */
+const EVENTS_RATE_LIMIT = {
+  maxRequests: 120,
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  prefix: 'ratelimit:events',
+};
+
+/**
+ * Largest accepted request body (bytes)
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await checkRateLimit(
+    getClientIP(request),
+    analyticsEventsRateLimiter,
+    EVENTS_RATE_LIMIT
+  );
+
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const body = await request.text();
+  if (body.length > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const validation = validateSchema(AnalyticsEventBatchSchema, json);
+  if (!validation.success || !validation.data) {
+    return NextResponse.json(
+      { error: 'Invalid event batch', errors: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const batch = validation.data;
+  const consented = batch.consent.analytics && request.headers.get('sec-gpc') !== '1';
+
+  try {
+    const session = consented ? await auth() : null;
+
+    const result = await ingestAnalyticsEvents(batch, {
+      consented,
+      userId: session?.user?.id,
+      userAgent: request.headers.get('user-agent') ?? undefined,
+    });
+
+    return NextResponse.json(result, { status: 202 });
+  } catch (error) {
+    console.error('[Events API] Failed to store events:', error);
+    return NextResponse.json({ error: 'Failed to store events' }, { status: 500 });
+  }
+}
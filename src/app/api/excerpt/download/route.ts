@@ -11,6 +11,8 @@ import { type NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+import { fulfillEntitlements } from '@/lib/code-redemption';
+import { prisma } from '@/lib/prisma';
 import { verifyExcerptToken, extractToken } from '@/lib/tokens';
 import type { ExcerptTokenPayload } from '@/lib/tokens';
 
@@ -72,6 +74,26 @@ function getClientIP(request: NextRequest): string {
   return 'unknown';
 }
 
+/**
+ * Mark the reader's excerpt entitlement fulfilled once the PDF is served
+ *
+ * Best-effort: a failure is logged and never blocks the download.
+ */
+async function markExcerptDelivered(email: string): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user) {
+      await fulfillEntitlements(user.id, ['EARLY_EXCERPT']);
+    }
+  } catch (error) {
+    console.error('[Excerpt Download] Failed to mark excerpt entitlement fulfilled:', error);
+  }
+}
+
 // ============================================================================
 // File Serving
 // ============================================================================
@@ -228,7 +250,12 @@ export async function GET(request: NextRequest) {
     });
 
     // Stream PDF file to client
-    return await streamPDF(PDF_PATH);
+    const response = await streamPDF(PDF_PATH);
+
+    // Excerpt entitlements redeemed from VIP codes are now delivered
+    await markExcerptDelivered(payload.email);
+
+    return response;
 
   } catch (error) {
     // Log server error
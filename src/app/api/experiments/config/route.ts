@@ -0,0 +1,30 @@
+/**
+ * A/B Experiment Config API
+ *
+ * GET /api/experiments/config
+ *
+ * Serves the active experiment definitions to middleware, which cannot
+ * query the database (see `loadActiveExperiments`). Drafts, paused and
+ * stopped experiments are not listed: nobody gets newly assigned to them.
+ *
+ * Features:
+ * - Served from the cached loader in `@/lib/experiment-store`
+ * - Cacheable for a minute at the CDN
+ * - Public: definitions hold no personal data
+ */
+
+import { NextResponse } from 'next/server';
+
+import { getExperimentConfigs } from '@/lib/experiment-store';
+
+/**
+ * GET handler
+ */
+export async function GET() {
+  const experiments = (await getExperimentConfigs()).filter((experiment) => experiment.active);
+
+  return NextResponse.json(
+    { experiments },
+    { headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=60' } }
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * A/B Experiment Tracking API
+ *
+ * POST /api/experiments/track
+ *
+ * Persists exposures (variant assignments) and conversions sent by
+ * `@/lib/ab-testing` so experiment results can be computed server-side.
+ *
+ * Features:
+ * - Accepts `navigator.sendBeacon` and `fetch(..., { keepalive: true })`
+ * - Only experiments and variants stored in the experiments table
+- Only while the experiment is active (409 when draft, paused or stopped)
+ * - Conversions count only for participants with a stored exposure
+ * - Stores the anonymous A/B participant ID only (no IP or user agent)
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { recordExperimentConversion, recordExperimentExposure } from '@/lib/experiment-results';
+import { getExperimentConfig } from '@/lib/experiment-store';
+import { ExperimentTrackingSchema, validateSchema } from '@/lib/validation';
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const validation = validateSchema(ExperimentTrackingSchema, json);
+  if (!validation.success || !validation.data) {
+    return NextResponse.json(
+      { error: 'Invalid tracking event', errors: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const input = validation.data;
+  const experiment = await getExperimentConfig(input.experimentId);
+  if (!experiment) {
+    return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+  }
+  // Events after a pause or stop must not move the results
+  if (!experiment.active) {
+    return NextResponse.json({ error: 'Experiment is not running' }, { status: 409 });
+  }
+  if (!experiment.variants.some((variant) => variant.id === input.variantId)) {
+    return NextResponse.json({ error: 'Variant not found' }, { status: 400 });
+  }
+
+  try {
+    const recorded =
+      input.type === 'exposure'
+        ? await recordExperimentExposure(experiment, input)
+        : await recordExperimentConversion(experiment, input);
+
+    return NextResponse.json({ recorded }, { status: 202 });
+  } catch (error) {
+    console.error('[Experiments API] Failed to record event:', error);
+    return NextResponse.json({ error: 'Failed to record event' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Stored File Download API
+ *
+ * GET /api/files/[...key]
+ *
+ * Streams an object from the configured storage driver. Private objects
+ * (receipts, plan PDFs) require a signed, unexpired URL from
+ * `storage.getSignedUrl()`; public prefixes such as avatars are served
+ * without one.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { Readable } from 'node:stream';
+
+import {
+  assertValidStorageKey,
+  getStorage,
+  isPublicStorageKey,
+  verifySignedFileUrl,
+} from '@/lib/storage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cache policy for public objects stored without one
+ */
+const PUBLIC_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * GET handler
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key: segments } = await params;
+  const key = segments.join('/');
+
+  try {
+    assertValidStorageKey(key);
+  } catch {
+    return NextResponse.json({ error: 'Invalid file key' }, { status: 400 });
+  }
+
+  const isPublic = isPublicStorageKey(key);
+  const { searchParams } = request.nextUrl;
+
+  if (!isPublic && !verifySignedFileUrl(key, searchParams)) {
+    return NextResponse.json({ error: 'Download link is invalid or has expired' }, { status: 403 });
+  }
+
+  try {
+    const object = await getStorage().getStream(key);
+    if (!object) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const headers = new Headers({
+      'Content-Type': object.info.contentType,
+      'Content-Length': String(object.info.size),
+      'Cache-Control': isPublic ? object.info.cacheControl ?? PUBLIC_CACHE_CONTROL : 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    const filename = searchParams.get('filename');
+    if (filename && !isPublic) {
+      headers.set(
+        'Content-Disposition',
+        `attachment; filename="${filename.replace(/["\\\r\n]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+      );
+    }
+
+    return new Response(Readable.toWeb(object.stream) as ReadableStream, { headers });
+  } catch (error) {
+    console.error(`[Files API] Error streaming ${key}:`, error);
+    return NextResponse.json({ error: 'File unavailable' }, { status: 500 });
+  }
+}
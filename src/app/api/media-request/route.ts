@@ -211,8 +211,8 @@ export async function POST(request: NextRequest) {
           `[EMAIL ERROR] Failed to send PR notification for ${requestId}:`,
           emailResult.error
         );
-        // Don't fail the request if email fails - we still have the data stored
-        // TODO: Set up a retry queue or alert system for failed notifications
+        // Don't fail the request if email fails - we still have the data stored,
+        // and the email outbox retries the notification in the background
       } else {
         console.log(
           `[EMAIL SUCCESS] PR notification sent for ${requestId} (Message ID: ${emailResult.messageId})`
@@ -15,21 +15,45 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
+
 import crypto from 'crypto';
+import { z } from 'zod';
 
-import { NewsletterSubscribeSchema, isHoneypotFilled } from '@/lib/validation';
+import { sendNewsletterConfirmationEmail } from '@/lib/email';
+import { type SubscribeResult, subscribeToNewsletter } from '@/lib/newsletter-subscribers';
 import {
   checkRateLimit,
   getClientIP,
   EMAIL_CAPTURE_RATE_LIMIT,
 } from '@/lib/rate-limit';
-import { sendNewsletterConfirmationEmail } from '@/lib/email';
-import {
-  generateNewsletterConfirmationToken,
-  generateNewsletterUnsubscribeToken,
-} from '@/lib/tokens';
-import { NewsletterStore, type NewsletterSubscriber } from '@/types/newsletter';
+import { generateNewsletterConfirmationToken } from '@/lib/tokens';
+import { NewsletterSubscribeSchema, isHoneypotFilled } from '@/lib/validation';
+
+// ============================================================================
+// Response Messages
+// ============================================================================
+
+type ConfirmationAction = Exclude<SubscribeResult['action'], 'updated'>;
+
+/**
+ * Response message for each signup that needs confirming
+ */
+const SUCCESS_MESSAGES: Record<ConfirmationAction, string> = {
+  created:
+    'Thank you for subscribing! Please check your email to confirm your subscription.',
+  pending: "We've resent your confirmation email. Please check your inbox.",
+  resubscribed:
+    'Welcome back! Please check your email to confirm your subscription.',
+};
+
+/**
+ * Log action for each signup that needs confirming
+ */
+const SUCCESS_ACTIONS: Record<ConfirmationAction, string> = {
+  created: 'New subscription created',
+  pending: 'Resent confirmation email',
+  resubscribed: 'Re-subscribed previously unsubscribed user',
+};
 
 // ============================================================================
 // Helper Functions
@@ -51,13 +75,6 @@ function logRequest(data: {
   console.log('[Newsletter Subscribe]', JSON.stringify(data, null, 2));
 }
 
-/**
- * Generate unique subscription ID
- */
-function generateSubscriptionId(): string {
-  return `sub_${crypto.randomBytes(16).toString('hex')}`;
-}
-
 // ============================================================================
 // API Route Handler
 // ============================================================================
@@ -186,176 +203,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if email already exists
-    const existingSubscriber = NewsletterStore.findByEmail(validatedData.email);
-
-    if (existingSubscriber) {
-      // Handle re-subscription based on current status
-      if (existingSubscriber.status === 'confirmed') {
-        // Already confirmed - update interests if provided
-        if (validatedData.interests && validatedData.interests.length > 0) {
-          existingSubscriber.interests = [
-            ...new Set([
-              ...existingSubscriber.interests,
-              ...validatedData.interests,
-            ]),
-          ];
-          existingSubscriber.updatedAt = new Date();
-          NewsletterStore.upsert(existingSubscriber);
-
-          logRequest({
-            ip: clientIP,
-            email: validatedData.email,
-            name: validatedData.name,
-            source: validatedData.source,
-            timestamp,
-            success: true,
-            action: 'Updated interests for existing subscriber',
-          });
-        }
-
-        return NextResponse.json(
-          {
-            success: true,
-            message:
-              "You're already subscribed! We've updated your preferences.",
-            subscriptionId: existingSubscriber.id,
-          },
-          { status: 200 }
-        );
-      }
-
-      if (existingSubscriber.status === 'pending') {
-        // Resend confirmation email
-        const emailResult = await sendNewsletterConfirmationEmail(
-          validatedData.email,
-          existingSubscriber.confirmationToken!
-        );
-
-        if (!emailResult.success) {
-          logRequest({
-            ip: clientIP,
-            email: validatedData.email,
-            timestamp,
-            success: false,
-            error: `Resend confirmation email failed: ${emailResult.error}`,
-          });
-
-          return NextResponse.json(
-            {
-              success: false,
-              message:
-                'Failed to send confirmation email. Please try again or contact support.',
-              errors: {
-                _form: ['Email delivery failed. Please try again later.'],
-              },
-            },
-            { status: 500 }
-          );
-        }
-
-        logRequest({
-          ip: clientIP,
-          email: validatedData.email,
-          timestamp,
-          success: true,
-          action: 'Resent confirmation email',
-        });
-
-        return NextResponse.json(
-          {
-            success: true,
-            message:
-              "We've resent your confirmation email. Please check your inbox.",
-            subscriptionId: existingSubscriber.id,
-          },
-          { status: 200 }
-        );
-      }
-
-      if (existingSubscriber.status === 'unsubscribed') {
-        // Re-subscribe with new confirmation
-        existingSubscriber.status = 'pending';
-        existingSubscriber.confirmationToken = generateNewsletterConfirmationToken(
-          validatedData.email
-        );
-        existingSubscriber.unsubscribeToken = generateNewsletterUnsubscribeToken(
-          validatedData.email
-        );
-        existingSubscriber.source = validatedData.source || 'other';
-        existingSubscriber.interests = validatedData.interests || [];
-        existingSubscriber.updatedAt = new Date();
-        existingSubscriber.unsubscribedAt = undefined;
-
-        NewsletterStore.upsert(existingSubscriber);
-
-        const emailResult = await sendNewsletterConfirmationEmail(
-          validatedData.email,
-          existingSubscriber.confirmationToken
-        );
+    // Store subscriber (merges with any existing record)
+    const { subscriber, action } = await subscribeToNewsletter({
+      email: validatedData.email,
+      name: validatedData.name || undefined,
+      source: validatedData.source,
+      interests: validatedData.interests,
+      attribution: {
+        referrer: validatedData.referrer,
+        utmSource: validatedData.utmSource,
+        utmMedium: validatedData.utmMedium,
+        utmCampaign: validatedData.utmCampaign,
+        geo: validatedData.geo,
+        ipAddress: clientIP,
+        userAgent: request.headers.get('user-agent') || undefined,
+      },
+    });
 
-        if (!emailResult.success) {
-          return NextResponse.json(
-            {
-              success: false,
-              message: 'Failed to send confirmation email.',
-              errors: { _form: ['Email delivery failed.'] },
-            },
-            { status: 500 }
-          );
-        }
+    if (action === 'updated') {
+      // Already confirmed - interests were merged, no confirmation needed
+      logRequest({
+        ip: clientIP,
+        email: validatedData.email,
+        name: validatedData.name,
+        source: validatedData.source,
+        timestamp,
+        success: true,
+        action: 'Updated interests for existing subscriber',
+      });
 
-        logRequest({
-          ip: clientIP,
-          email: validatedData.email,
-          timestamp,
+      return NextResponse.json(
+        {
           success: true,
-          action: 'Re-subscribed previously unsubscribed user',
-        });
-
-        return NextResponse.json(
-          {
-            success: true,
-            message:
-              'Welcome back! Please check your email to confirm your subscription.',
-            subscriptionId: existingSubscriber.id,
-          },
-          { status: 200 }
-        );
-      }
+          message: "You're already subscribed! We've updated your preferences.",
+          subscriptionId: subscriber.id,
+        },
+        { status: 200 }
+      );
     }
 
-    // Create new subscriber
-    const subscriptionId = generateSubscriptionId();
-    const confirmationToken = generateNewsletterConfirmationToken(
-      validatedData.email
-    );
-    const unsubscribeToken = generateNewsletterUnsubscribeToken(
-      validatedData.email
-    );
-
-    const newSubscriber: NewsletterSubscriber = {
-      id: subscriptionId,
-      email: validatedData.email,
-      name: validatedData.name || undefined,
-      source: validatedData.source || 'other',
-      interests: validatedData.interests || [],
-      status: 'pending',
-      confirmationToken,
-      unsubscribeToken,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      ipAddress: clientIP,
-      userAgent: request.headers.get('user-agent') || undefined,
-    };
-
-    // Store subscriber
-    NewsletterStore.upsert(newSubscriber);
-
-    // Send confirmation email via Resend
+    // Send (or resend) confirmation email via Resend
     const emailResult = await sendNewsletterConfirmationEmail(
-      validatedData.email,
-      confirmationToken
+      subscriber.email,
+      generateNewsletterConfirmationToken(subscriber.email)
     );
 
     if (!emailResult.success) {
@@ -390,16 +280,15 @@ export async function POST(request: NextRequest) {
       source: validatedData.source,
       timestamp,
       success: true,
-      action: 'New subscription created',
+      action: SUCCESS_ACTIONS[action],
     });
 
     // Return success
     return NextResponse.json(
       {
         success: true,
-        message:
-          'Thank you for subscribing! Please check your email to confirm your subscription.',
-        subscriptionId,
+        message: SUCCESS_MESSAGES[action],
+        subscriptionId: subscriber.id,
       },
       { status: 200 }
     );
@@ -0,0 +1,173 @@
+/**
+ * Organization Invite Detail API Routes
+ * POST /api/orgs/[orgId]/invites/[memberId] - Resend an invite
+ * DELETE /api/orgs/[orgId]/invites/[memberId] - Revoke an invite
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { auth } from '@/lib/auth';
+import { OrgInviteError, resendOrgInvite, revokeOrgInvite } from '@/lib/org-invitations';
+import { prisma } from '@/lib/prisma';
+import { generalFormRateLimiter } from '@/lib/ratelimit';
+import type { InviteActionResponse } from '@/types/organization';
+
+type RouteParams = { params: Promise<{ orgId: string; memberId: string }> };
+
+/**
+ * Whether the signed-in user may manage the organization's invites
+ */
+async function canManageInvites(orgId: string, userId: string): Promise<boolean> {
+  const membership = await prisma.orgMember.findUnique({
+    where: {
+      orgId_userId: {
+        orgId,
+        userId,
+      },
+    },
+  });
+
+  return (
+    !!membership &&
+    membership.status === 'ACTIVE' &&
+    ['OWNER', 'ADMIN'].includes(membership.role)
+  );
+}
+
+/**
+ * POST /api/orgs/[orgId]/invites/[memberId]
+ * Resend an invite with a fresh expiry; earlier links stop working
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { orgId, memberId } = await params;
+
+    const ip = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
+
+    if (generalFormRateLimiter) {
+      const rateLimitResult = await generalFormRateLimiter.limit(`org-member-invite:${orgId}:${ip}`);
+
+      if (!rateLimitResult.success) {
+        return NextResponse.json(
+          { success: false, error: 'Too many requests. Please try again later.' },
+          { status: 429 }
+        );
+      }
+    }
+
+    if (!(await canManageInvites(orgId, session.user.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to resend invites' },
+        { status: 403 }
+      );
+    }
+
+    const { invite, emailSent } = await resendOrgInvite(orgId, memberId, session.user.id);
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_INVITE_RESEND',
+      entityType: 'org_members',
+      entityId: invite.id,
+      after: { status: invite.status, role: invite.role },
+      details: { orgId, email: invite.email, expiresAt: invite.expiresAt, emailSent },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const response: InviteActionResponse = {
+      success: true,
+      invite,
+      message: emailSent
+        ? `Invitation resent to ${invite.email}`
+        : 'Invite renewed, but the email could not be sent. Try again later.',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof OrgInviteError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error resending invite:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to resend invite' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/orgs/[orgId]/invites/[memberId]
+ * Revoke an invite
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { orgId, memberId } = await params;
+
+    if (!(await canManageInvites(orgId, session.user.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to revoke invites' },
+        { status: 403 }
+      );
+    }
+
+    const member = await revokeOrgInvite(orgId, memberId);
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_INVITE_REVOKE',
+      entityType: 'org_members',
+      entityId: member.id,
+      after: { status: member.status, role: member.role },
+      details: { orgId, email: member.inviteEmail },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const response: InviteActionResponse = {
+      success: true,
+      message: 'Invite revoked',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof OrgInviteError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error revoking invite:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Organization Invites API Route
+ * GET /api/orgs/[orgId]/invites - List pending and expired invites
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { auth } from '@/lib/auth';
+import { listPendingOrgInvites } from '@/lib/org-invitations';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * GET /api/orgs/[orgId]/invites
+ * List invites not yet accepted (owners and admins only)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { orgId } = await params;
+
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to view invites' },
+        { status: 403 }
+      );
+    }
+
+    const invites = await listPendingOrgInvites(orgId);
+
+    return NextResponse.json({
+      success: true,
+      invites,
+    });
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/admin-auth';
+import { diffAuditState, recordAuditEvent } from '@/lib/audit-log';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import type { RemoveMemberResponse, UpdateMemberInput } from '@/types/organization';
@@ -38,7 +40,11 @@ export async function DELETE(
       },
     });
 
-    if (!membership || !['OWNER', 'ADMIN'].includes(membership.role)) {
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to remove members' },
         { status: 403 }
@@ -99,6 +105,19 @@ export async function DELETE(
       },
     });
 
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_REMOVE',
+      entityType: 'org_members',
+      entityId: targetMember.id,
+      before: { status: targetMember.status, role: targetMember.role },
+      after: { status: 'REMOVED', role: targetMember.role },
+      details: { orgId, userId },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
     const response: RemoveMemberResponse = {
       success: true,
       message: 'Member removed successfully',
@@ -144,7 +163,11 @@ export async function PATCH(
       },
     });
 
-    if (!membership || !['OWNER', 'ADMIN'].includes(membership.role)) {
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to update members' },
         { status: 403 }
@@ -171,6 +194,18 @@ export async function PATCH(
     // Parse request body
     const body = (await request.json()) as UpdateMemberInput;
 
+    // Invites only become members by being accepted
+    const inviteStatuses = ['INVITED', 'EXPIRED'];
+    if (
+      inviteStatuses.includes(targetMember.status) ||
+      (body.status && inviteStatuses.includes(body.status))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Pending invites can only be resent or revoked' },
+        { status: 400 }
+      );
+    }
+
     // Prevent non-owners from changing owner roles
     if (
       membership.role !== 'OWNER' &&
@@ -201,6 +236,21 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_UPDATE',
+      entityType: 'org_members',
+      entityId: targetMember.id,
+      ...diffAuditState(
+        { role: targetMember.role, status: targetMember.status },
+        { role: updatedMember.role, status: updatedMember.status }
+      ),
+      details: { orgId, userId },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
     return NextResponse.json({
       success: true,
       member: updatedMember,
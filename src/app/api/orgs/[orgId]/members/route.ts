@@ -1,19 +1,24 @@
 /**
  * Organization Members API Routes
- * POST /api/orgs/[orgId]/members - Add member to organization
+ * POST /api/orgs/[orgId]/members - Invite a member to the organization
  * GET /api/orgs/[orgId]/members - List organization members
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
 import { auth } from '@/lib/auth';
+import { isEmailFromDomain } from '@/lib/domain-verification';
+import { createOrgInvite, OrgInviteError } from '@/lib/org-invitations';
 import { prisma } from '@/lib/prisma';
 import { generalFormRateLimiter } from '@/lib/ratelimit';
 import type { AddMemberRequest, AddMemberResponse } from '@/types/organization';
-import { isEmailFromDomain } from '@/lib/domain-verification';
 
 /**
  * POST /api/orgs/[orgId]/members
- * Add a member to the organization
+ * Invite a member; they join once they accept the emailed link
+ * (see `@/lib/org-invitations`)
  */
 export async function POST(
   request: NextRequest,
@@ -34,7 +39,7 @@ export async function POST(
     const ip = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
 
     if (generalFormRateLimiter) {
-      const rateLimitResult = await generalFormRateLimiter.limit(`org-member-add:${orgId}:${ip}`);
+      const rateLimitResult = await generalFormRateLimiter.limit(`org-member-invite:${orgId}:${ip}`);
 
       if (!rateLimitResult.success) {
         return NextResponse.json(
@@ -44,7 +49,7 @@ export async function POST(
       }
     }
 
-    // Verify user has permission to add members
+    // Verify user has permission to invite members
     const membership = await prisma.orgMember.findUnique({
       where: {
         orgId_userId: {
@@ -57,9 +62,13 @@ export async function POST(
       },
     });
 
-    if (!membership || !['OWNER', 'ADMIN'].includes(membership.role)) {
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
       return NextResponse.json(
-        { success: false, error: 'Insufficient permissions to add members' },
+        { success: false, error: 'Insufficient permissions to invite members' },
         { status: 403 }
       );
     }
@@ -91,103 +100,47 @@ export async function POST(
       );
     }
 
-    // Find or create user
-    let user = await prisma.user.findUnique({
-      where: { email },
+    const { invite, emailSent } = await createOrgInvite({
+      orgId,
+      orgName: membership.org.name,
+      email,
+      role: body.role,
+      invitedBy: session.user.id,
     });
 
-    if (!user) {
-      // Create a new user account
-      user = await prisma.user.create({
-        data: {
-          email,
-          name: email.split('@')[0], // Use email prefix as default name
-        },
-      });
-    }
-
-    // Check if already a member
-    const existingMember = await prisma.orgMember.findUnique({
-      where: {
-        orgId_userId: {
-          orgId,
-          userId: user.id,
-        },
-      },
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_INVITE',
+      entityType: 'org_members',
+      entityId: invite.id,
+      after: { status: invite.status, role: invite.role },
+      details: { orgId, email, expiresAt: invite.expiresAt, emailSent },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
     });
 
-    if (existingMember) {
-      if (existingMember.status === 'ACTIVE') {
-        return NextResponse.json(
-          { success: false, error: 'User is already a member' },
-          { status: 400 }
-        );
-      }
-
-      // Reactivate if previously removed
-      const updatedMember = await prisma.orgMember.update({
-        where: { id: existingMember.id },
-        data: {
-          status: 'ACTIVE',
-          role: body.role || 'MEMBER',
-          joinedAt: new Date(),
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-            },
-          },
-        },
-      });
-
-      const response: AddMemberResponse = {
-        success: true,
-        member: updatedMember,
-        message: 'Member reactivated successfully',
-      };
-
-      return NextResponse.json(response);
-    }
-
-    // Create new member
-    const newMember = await prisma.orgMember.create({
-      data: {
-        orgId,
-        userId: user.id,
-        role: body.role || 'MEMBER',
-        status: 'ACTIVE',
-        invitedBy: session.user.id,
-        invitedAt: new Date(),
-        joinedAt: new Date(),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    // TODO: Send invitation email
-
     const response: AddMemberResponse = {
       success: true,
-      member: newMember,
-      message: 'Member added successfully',
+      invite,
+      message: emailSent
+        ? `Invitation sent to ${email}`
+        : 'Invite created, but the email could not be sent. Try resending it.',
     };
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
-    console.error('Error adding member:', error);
+    if (error instanceof OrgInviteError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error inviting member:', error);
 
     return NextResponse.json(
-      { success: false, error: 'Failed to add member' },
+      { success: false, error: 'Failed to invite member' },
       { status: 500 }
     );
   }
@@ -0,0 +1,71 @@
+/**
+ * Organization Plan Generation Cancel
+ * POST /api/orgs/[orgId]/plans/[planId]/cancel - Stop generating a plan
+ *
+ * The plan moves to DRAFT and keeps the content generated so far.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { auth } from '@/lib/auth';
+import { cancelPlanGeneration } from '@/lib/plan-generation';
+import { prisma } from '@/lib/prisma';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orgId, planId } = await params;
+
+    const plan = await prisma.orgPlan.findUnique({
+      where: { id: planId },
+    });
+
+    if (!plan || plan.orgId !== orgId) {
+      return NextResponse.json({ success: false, error: 'Plan not found' }, { status: 404 });
+    }
+
+    // Creator or admin/owner, as for editing
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    const canCancel =
+      plan.createdBy === session.user.id ||
+      (membership?.status === 'ACTIVE' && ['OWNER', 'ADMIN'].includes(membership.role));
+
+    if (!canCancel) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to cancel this plan' },
+        { status: 403 }
+      );
+    }
+
+    if (!(await cancelPlanGeneration(planId))) {
+      return NextResponse.json(
+        { success: false, error: 'Plan is not generating' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling plan generation:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel plan generation' },
+      { status: 500 }
+    );
+  }
+}
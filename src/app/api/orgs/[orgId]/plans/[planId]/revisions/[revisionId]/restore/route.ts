@@ -0,0 +1,89 @@
+/**
+ * Organization Plan Revision Restore API
+ * POST /api/orgs/[orgId]/plans/[planId]/revisions/[revisionId]/restore - Restore a revision
+ *
+ * The revision's content becomes current as a new RESTORE revision; later
+ * revisions stay in the history.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { auth } from '@/lib/auth';
+import { PlanRevisionError, restorePlanRevision } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string; revisionId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orgId, planId, revisionId } = await params;
+
+    const plan = await prisma.orgPlan.findUnique({
+      where: { id: planId },
+    });
+
+    if (!plan || plan.orgId !== orgId) {
+      return NextResponse.json({ success: false, error: 'Plan not found' }, { status: 404 });
+    }
+
+    // Creator or admin/owner, as for editing
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    const canEdit =
+      plan.createdBy === session.user.id ||
+      (membership?.status === 'ACTIVE' && ['OWNER', 'ADMIN'].includes(membership.role));
+
+    if (!canEdit) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to edit this plan' },
+        { status: 403 }
+      );
+    }
+
+    const { revision } = await restorePlanRevision(plan, revisionId, session.user.id);
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_PLAN_REVISION_RESTORE',
+      entityType: 'org_plans',
+      entityId: planId,
+      before: { revision: plan.revisionCount },
+      after: { revision: revision.number },
+      details: { orgId, restoredFromId: revisionId },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.json({ success: true, revision });
+  } catch (error) {
+    if (error instanceof PlanRevisionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error restoring plan revision:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore plan revision' },
+      { status: 500 }
+    );
+  }
+}
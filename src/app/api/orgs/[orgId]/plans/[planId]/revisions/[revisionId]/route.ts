@@ -0,0 +1,71 @@
+/**
+ * Organization Plan Revision API
+ * GET /api/orgs/[orgId]/plans/[planId]/revisions/[revisionId] - Get one revision with its content
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { auth } from '@/lib/auth';
+import { getPlanRevision, PlanRevisionError, visiblePlanWhere } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string; revisionId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orgId, planId, revisionId } = await params;
+
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!membership || membership.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: 'Not a member of this organization' },
+        { status: 403 }
+      );
+    }
+
+    const plan = await prisma.orgPlan.findFirst({
+      where: { id: planId, orgId, ...visiblePlanWhere(session.user.id) },
+      select: { id: true },
+    });
+
+    if (!plan) {
+      return NextResponse.json(
+        { success: false, error: 'Plan not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      revision: await getPlanRevision(planId, revisionId),
+    });
+  } catch (error) {
+    if (error instanceof PlanRevisionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error fetching plan revision:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch plan revision' },
+      { status: 500 }
+    );
+  }
+}
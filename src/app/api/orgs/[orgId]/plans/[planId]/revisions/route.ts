@@ -0,0 +1,68 @@
+/**
+ * Organization Plan Revisions API
+ * GET /api/orgs/[orgId]/plans/[planId]/revisions - List a plan's revisions
+ *
+ * Revisions are listed newest first without their content; fetch one from
+ * `/revisions/[revisionId]` to compare or read it.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { auth } from '@/lib/auth';
+import { listPlanRevisions, visiblePlanWhere } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orgId, planId } = await params;
+
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!membership || membership.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: 'Not a member of this organization' },
+        { status: 403 }
+      );
+    }
+
+    const plan = await prisma.orgPlan.findFirst({
+      where: { id: planId, orgId, ...visiblePlanWhere(session.user.id) },
+      select: { id: true, revisionCount: true },
+    });
+
+    if (!plan) {
+      return NextResponse.json(
+        { success: false, error: 'Plan not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      currentRevision: plan.revisionCount,
+      revisions: await listPlanRevisions(planId),
+    });
+  } catch (error) {
+    console.error('Error fetching plan revisions:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch plan revisions' },
+      { status: 500 }
+    );
+  }
+}
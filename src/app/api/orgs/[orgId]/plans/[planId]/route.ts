@@ -3,11 +3,20 @@
  * GET /api/orgs/[orgId]/plans/[planId] - Get plan details
  * PATCH /api/orgs/[orgId]/plans/[planId] - Update plan
  * DELETE /api/orgs/[orgId]/plans/[planId] - Delete plan
+ *
+ * `pdfUrl` holds the storage key of the exported PDF; GET returns a
+ * short-lived signed `pdfDownloadUrl` for it.
+ *
+ * PATCH never overwrites content in place: a changed `content` is stored as
+ * a MANUAL_EDIT revision (see `@/lib/plan-revisions`), written in the same
+ * transaction as the other fields.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PlanRevisionError, savePlanRevision } from '@/lib/plan-revisions';
 import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
 import type { UpdatePlanInput } from '@/types/organization';
 
 /**
@@ -112,10 +121,18 @@ export async function GET(
       },
     });
 
+    // Signed link to the exported PDF
+    const pdfDownloadUrl = plan.pdfUrl
+      ? await getStorage().getSignedUrl(plan.pdfUrl, {
+          filename: `${plan.title.replace(/[^a-zA-Z0-9 _-]/g, '').trim() || 'plan'}.pdf`,
+        })
+      : null;
+
     return NextResponse.json({
       success: true,
       plan: {
         ...plan,
+        pdfDownloadUrl,
         creator: creator ?? {
           id: plan.createdBy,
           email: 'unknown@example.com',
@@ -176,7 +193,7 @@ export async function PATCH(
 
     const canEdit =
       plan.createdBy === session.user.id ||
-      (membership && ['OWNER', 'ADMIN'].includes(membership.role));
+      (membership?.status === 'ACTIVE' && ['OWNER', 'ADMIN'].includes(membership.role));
 
     if (!canEdit) {
       return NextResponse.json(
@@ -188,33 +205,59 @@ export async function PATCH(
     // Parse request body
     const body = (await request.json()) as UpdatePlanInput;
 
-    // Update plan
-    const updatedPlan = await prisma.orgPlan.update({
-      where: { id: planId },
-      data: {
-        title: body.title?.trim(),
-        description: body.description?.trim(),
-        status: body.status,
-        privacy: body.privacy,
-        content: body.content,
-        contentJson: body.contentJson as any,
-        publishedAt: body.status === 'PUBLISHED' ? new Date() : undefined,
-      },
-      include: {
-        org: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
+    // The generation job owns content and status until it finishes
+    if (plan.status === 'GENERATING' && (body.content !== undefined || body.status !== undefined)) {
+      return NextResponse.json(
+        { success: false, error: 'Plan is still generating; cancel it first' },
+        { status: 409 }
+      );
+    }
+
+    const data = {
+      title: body.title?.trim(),
+      description: body.description?.trim(),
+      status: body.status,
+      privacy: body.privacy,
+      contentJson: body.contentJson as any,
+      publishedAt: body.status === 'PUBLISHED' ? new Date() : undefined,
+    };
+
+    // Update plan; content changes are kept as revisions
+    const updatedPlan =
+      body.content !== undefined && body.content !== plan.content
+        ? (
+            await savePlanRevision(
+              planId,
+              body.content,
+              { source: 'MANUAL_EDIT', authorId: session.user.id },
+              data
+            )
+          ).plan
+        : await prisma.orgPlan.update({
+            where: { id: planId },
+            data,
+          });
+
+    const org = await prisma.org.findUnique({
+      where: { id: orgId },
+      select: {
+        id: true,
+        name: true,
       },
     });
 
     return NextResponse.json({
       success: true,
-      plan: updatedPlan,
+      plan: { ...updatedPlan, org },
     });
   } catch (error) {
+    if (error instanceof PlanRevisionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error updating plan:', error);
 
     return NextResponse.json(
@@ -267,7 +310,7 @@ export async function DELETE(
 
     const canDelete =
       plan.createdBy === session.user.id ||
-      (membership && membership.role === 'OWNER');
+      (membership?.status === 'ACTIVE' && membership.role === 'OWNER');
 
     if (!canDelete) {
       return NextResponse.json(
@@ -284,6 +327,15 @@ export async function DELETE(
       where: { id: planId },
     });
 
+    // Remove the exported PDF; an orphaned file is not worth failing over
+    if (plan.pdfUrl) {
+      try {
+        await getStorage().delete(plan.pdfUrl);
+      } catch (storageError) {
+        console.error(`Error deleting PDF for plan ${planId}:`, storageError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Plan deleted successfully',
@@ -0,0 +1,130 @@
+/**
+ * Organization Plan Section Regeneration API
+ * POST /api/orgs/[orgId]/plans/[planId]/sections/regenerate - Regenerate one section
+ *
+ * Claude rewrites the named section; the new content is stored as a
+ * SECTION_REGENERATION revision.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { auth } from '@/lib/auth';
+import { PlanSectionError, regeneratePlanSection } from '@/lib/plan-generation';
+import { PlanRevisionError } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+import { generalFormRateLimiter } from '@/lib/ratelimit';
+
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orgId, planId } = await params;
+
+    let body: { heading?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    if (typeof body?.heading !== 'string' || !body.heading.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Section heading is required' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await prisma.orgPlan.findUnique({
+      where: { id: planId },
+    });
+
+    if (!plan || plan.orgId !== orgId) {
+      return NextResponse.json({ success: false, error: 'Plan not found' }, { status: 404 });
+    }
+
+    // Creator or admin/owner, as for editing
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    const canEdit =
+      plan.createdBy === session.user.id ||
+      (membership?.status === 'ACTIVE' && ['OWNER', 'ADMIN'].includes(membership.role));
+
+    if (!canEdit) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to edit this plan' },
+        { status: 403 }
+      );
+    }
+
+    // Rate limiting - expensive LLM operation, shared with plan generation
+    const ip = getClientIp(request);
+
+    if (generalFormRateLimiter) {
+      const { success: rateLimitOk } = await generalFormRateLimiter.limit(
+        `plan-generate:${orgId}:${session.user.id}:${ip ?? 'unknown'}`
+      );
+
+      if (!rateLimitOk) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Plan generation limit reached. Please try again later.',
+          },
+          { status: 429 }
+        );
+      }
+    }
+
+    const { plan: updated, revision } = await regeneratePlanSection(
+      plan,
+      body.heading,
+      session.user.id
+    );
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_PLAN_SECTION_REGENERATE',
+      entityType: 'org_plans',
+      entityId: planId,
+      before: { revision: plan.revisionCount },
+      after: { revision: revision.number },
+      details: { orgId, heading: body.heading.trim() },
+      ipAddress: ip,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.json({ success: true, plan: updated, revision });
+  } catch (error) {
+    if (error instanceof PlanSectionError || error instanceof PlanRevisionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error regenerating plan section:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate plan section' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Organization Plan Generation Stream
+ * GET /api/orgs/[orgId]/plans/[planId]/stream - Follow generation as server-sent events
+ *
+ * Events: `token` (new content; the event ID is the content offset),
+ * `section` (headings so far), `reset` and a final `status`. EventSource
+ * reconnects with `Last-Event-ID`, so a dropped connection resumes where it
+ * left off; `?offset=` does the same for other clients.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { auth } from '@/lib/auth';
+import { createPlanEventStream } from '@/lib/plan-generation';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; planId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { orgId, planId } = await params;
+
+  try {
+    const membership = await prisma.orgMember.findUnique({
+      where: {
+        orgId_userId: {
+          orgId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!membership || membership.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: 'Not a member of this organization' },
+        { status: 403 }
+      );
+    }
+
+    const plan = await prisma.orgPlan.findFirst({
+      where: {
+        id: planId,
+        orgId,
+        OR: [
+          { privacy: 'PUBLIC' },
+          { createdBy: session.user.id },
+          {
+            privacy: 'SHARED',
+            shares: {
+              some: {
+                member: {
+                  userId: session.user.id,
+                  status: 'ACTIVE',
+                },
+              },
+            },
+          },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (!plan) {
+      return NextResponse.json(
+        { success: false, error: 'Plan not found or access denied' },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    console.error('Error opening plan stream:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to open plan stream' },
+      { status: 500 }
+    );
+  }
+
+  const resumeFrom = Number(
+    request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('offset') ?? 0
+  );
+
+  const stream = createPlanEventStream(planId, {
+    offset: Number.isInteger(resumeFrom) && resumeFrom > 0 ? resumeFrom : 0,
+    signal: request.signal,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
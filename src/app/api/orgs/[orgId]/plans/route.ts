@@ -2,21 +2,32 @@
  * Organization Plans API Routes
  * POST /api/orgs/[orgId]/plans - Create/generate a new plan
  * GET /api/orgs/[orgId]/plans - List organization plans
+ *
+ * Plans are generated in the background (see `@/lib/plan-generation`); POST
+ * returns the GENERATING plan with a `streamUrl` to follow it, then runs the
+ * generation job before the function exits.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { after, type NextRequest, NextResponse } from 'next/server';
+
+import { runJobNow } from '@/jobs/worker';
 import { auth } from '@/lib/auth';
+import { buildPrompt } from '@/lib/llm-plan-generator';
+import { schedulePlanGeneration } from '@/lib/plan-generation';
 import { prisma } from '@/lib/prisma';
 import { generalFormRateLimiter } from '@/lib/ratelimit';
-import { generatePlan, parsePlanContent, validatePlanContent } from '@/lib/llm-plan-generator';
 import type {
   GeneratePlanRequest,
   GeneratePlanResponse,
+  LLMPromptContext,
 } from '@/types/organization';
 
+// Covers the generation job run by `after()` (PLAN_GENERATION_MAX_DURATION_S)
+export const maxDuration = 300;
+
 /**
  * POST /api/orgs/[orgId]/plans
- * Generate a new plan using Claude AI
+ * Start generating a new plan using Claude AI
  */
 export async function POST(
   request: NextRequest,
@@ -90,7 +101,16 @@ export async function POST(
       );
     }
 
-    // Create plan record with GENERATING status
+    const context: LLMPromptContext = {
+      organizationName: membership.org.name,
+      organizationType: membership.org.type,
+      industry: body.organizationContext?.industry,
+      size: body.organizationContext?.size,
+      challenges: body.organizationContext?.challenges,
+      goals: body.organizationContext?.goals,
+    };
+
+    // Create plan record with GENERATING status; a background job fills it in
     const plan = await prisma.orgPlan.create({
       data: {
         orgId,
@@ -99,82 +119,49 @@ export async function POST(
         description: body.description?.trim(),
         privacy: body.privacy || 'PRIVATE',
         status: 'GENERATING',
-        content: '', // Will be updated after generation
+        content: '', // Streamed in by the generation job
+        prompt: buildPrompt(context),
       },
-    });
-
-    try {
-      // Generate plan using Claude AI
-      const startTime = Date.now();
-
-      const generationResult = await generatePlan({
-        organizationName: membership.org.name,
-        organizationType: membership.org.type,
-        industry: body.organizationContext?.industry,
-        size: body.organizationContext?.size,
-        challenges: body.organizationContext?.challenges,
-        goals: body.organizationContext?.goals,
-      });
-
-      const generationTime = Date.now() - startTime;
-
-      // Validate generated content
-      const validation = validatePlanContent(generationResult.content);
-
-      if (!validation.valid) {
-        throw new Error(`Generated plan validation failed: ${validation.errors.join(', ')}`);
-      }
-
-      // Parse content into structured JSON
-      const contentJson = parsePlanContent(generationResult.content);
-
-      // Update plan with generated content
-      const updatedPlan = await prisma.orgPlan.update({
-        where: { id: plan.id },
-        data: {
-          content: generationResult.content,
-          contentJson: contentJson as any,
-          status: 'READY',
-          model: generationResult.metadata.model,
-          generationTime,
-          tokenCount: generationResult.metadata.tokenCount,
-        },
-        include: {
-          org: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      });
-
-      const response: GeneratePlanResponse = {
-        success: true,
-        plan: {
-          ...updatedPlan,
-          creator: {
-            id: session.user.id,
-            name: session.user.name ?? null,
-            email: session.user.email ?? '',
+      include: {
+        org: {
+          select: {
+            id: true,
+            name: true,
           },
         },
-        generationTime,
-      };
+      },
+    });
 
-      return NextResponse.json(response, { status: 201 });
+    try {
+      const jobId = await schedulePlanGeneration(plan.id, context);
+      // Retried by `GET /api/cron/plan-generation` if this run fails
+      after(() => runJobNow(jobId));
     } catch (error) {
-      // Update plan status to indicate error
       await prisma.orgPlan.update({
         where: { id: plan.id },
         data: {
           status: 'DRAFT',
-          content: `Error generating plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          generationError: 'Generation could not be started',
         },
       });
 
       throw error;
     }
+
+    const response: GeneratePlanResponse = {
+      success: true,
+      plan: {
+        ...plan,
+        creator: {
+          id: session.user.id,
+          name: session.user.name ?? null,
+          email: session.user.email ?? '',
+        },
+      },
+      streamUrl: `/api/orgs/${orgId}/plans/${plan.id}/stream`,
+    };
+
+    return NextResponse.json(response, { status: 202 });
   } catch (error) {
     console.error('Error generating plan:', error);
 
@@ -6,11 +6,31 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/admin-auth';
+import { diffAuditState, recordAuditEvent } from '@/lib/audit-log';
 import { auth } from '@/lib/auth';
+import { AUTO_JOIN_ROLES, isAutoJoinRole, startAutoJoinBackfill } from '@/lib/org-auto-join';
+import { recordOrgDomainEvent } from '@/lib/org-domain-reverification';
 import { prisma } from '@/lib/prisma';
 import { verifyOrgMembership } from '@/lib/prisma-rls';
 import type { GetOrgResponse, UpdateOrganizationInput } from '@/types/organization';
 
+/**
+ * Organization fields captured in the audit log
+ */
+const ORG_AUDIT_SELECT = {
+  name: true,
+  type: true,
+  contactEmail: true,
+  contactName: true,
+  domain: true,
+  domainVerified: true,
+  notes: true,
+  allowAutoJoin: true,
+  autoJoinRole: true,
+  settings: true,
+} as const;
+
 /**
  * GET /api/orgs/[orgId]
  * Get organization details with statistics
@@ -173,7 +193,11 @@ export async function PATCH(
       },
     });
 
-    if (!membership || !['OWNER', 'ADMIN'].includes(membership.role)) {
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions' },
         { status: 403 }
@@ -183,6 +207,29 @@ export async function PATCH(
     // Parse request body
     const body = (await request.json()) as UpdateOrganizationInput;
 
+    if (body.autoJoinRole !== undefined && !isAutoJoinRole(body.autoJoinRole)) {
+      return NextResponse.json(
+        { success: false, error: `Auto-join role must be one of: ${AUTO_JOIN_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const before = await prisma.org.findUnique({
+      where: { id: orgId },
+      select: ORG_AUDIT_SELECT,
+    });
+
+    if (body.allowAutoJoin && !before?.allowAutoJoin && !before?.domainVerified) {
+      return NextResponse.json(
+        { success: false, error: 'Verify the domain before enabling auto-join' },
+        { status: 400 }
+      );
+    }
+
+    // A new domain has to be verified again
+    const domain = body.domain?.toLowerCase().trim();
+    const domainChanged = domain !== undefined && domain !== before?.domain;
+
     // Update organization
     const org = await prisma.org.update({
       where: { id: orgId },
@@ -191,16 +238,53 @@ export async function PATCH(
         type: body.type,
         contactEmail: body.contactEmail?.trim(),
         contactName: body.contactName?.trim(),
-        domain: body.domain?.toLowerCase().trim(),
+        domain,
+        ...(domainChanged && {
+          domainVerificationToken: null,
+          domainVerified: false,
+          domainVerifiedAt: null,
+          domainCheckedAt: null,
+          domainCheckFailedAt: null,
+          domainWarnedAt: null,
+        }),
         notes: body.notes,
         allowAutoJoin: body.allowAutoJoin,
+        autoJoinRole: body.autoJoinRole,
         settings: body.settings as any,
       },
     });
 
+    if (domainChanged && before?.domainVerified && before.domain) {
+      await recordOrgDomainEvent(orgId, before.domain, 'UNVERIFIED', `Domain changed to ${domain || 'none'}`);
+    }
+
+    // Existing users on the domain join in the background
+    const backfillStarted = !before?.allowAutoJoin && org.allowAutoJoin && org.domainVerified;
+    if (backfillStarted) {
+      await startAutoJoinBackfill(orgId);
+    }
+
+    if (before) {
+      const after = Object.fromEntries(
+        Object.keys(ORG_AUDIT_SELECT).map((key) => [key, org[key as keyof typeof before]])
+      ) as typeof before;
+
+      await recordAuditEvent({
+        actorType: 'USER',
+        actorId: session.user.id,
+        action: 'ORG_UPDATE',
+        entityType: 'orgs',
+        entityId: orgId,
+        ...diffAuditState(before, after),
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent'),
+      });
+    }
+
     return NextResponse.json({
       success: true,
       org,
+      backfillStarted,
     });
   } catch (error) {
     console.error('Error updating organization:', error);
@@ -241,7 +325,7 @@ export async function DELETE(
       },
     });
 
-    if (!membership || membership.role !== 'OWNER') {
+    if (!membership || membership.status !== 'ACTIVE' || membership.role !== 'OWNER') {
       return NextResponse.json(
         { success: false, error: 'Only organization owner can delete' },
         { status: 403 }
@@ -249,8 +333,20 @@ export async function DELETE(
     }
 
     // Delete organization (cascade will handle relations)
-    await prisma.org.delete({
+    const deleted = await prisma.org.delete({
       where: { id: orgId },
+      select: ORG_AUDIT_SELECT,
+    });
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_DELETE',
+      entityType: 'orgs',
+      entityId: orgId,
+      before: deleted,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
     });
 
     return NextResponse.json({
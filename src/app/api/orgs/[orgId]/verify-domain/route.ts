@@ -3,15 +3,20 @@
  * POST /api/orgs/[orgId]/verify-domain - Initiate or verify domain ownership
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
 import { auth } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
 import {
   generateVerificationToken,
   getVerificationRecord,
   verifyDomain,
   isValidDomain,
 } from '@/lib/domain-verification';
+import { startAutoJoinBackfill } from '@/lib/org-auto-join';
+import { recordOrgDomainEvent } from '@/lib/org-domain-reverification';
+import { prisma } from '@/lib/prisma';
 import type {
   VerifyDomainRequest,
   VerifyDomainResponse,
@@ -46,7 +51,11 @@ export async function POST(
       },
     });
 
-    if (!membership || !['OWNER', 'ADMIN'].includes(membership.role)) {
+    if (
+      !membership ||
+      membership.status !== 'ACTIVE' ||
+      !['OWNER', 'ADMIN'].includes(membership.role)
+    ) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions' },
         { status: 403 }
@@ -97,8 +106,15 @@ export async function POST(
           domainVerificationToken: verificationToken,
           domainVerified: false,
           domainVerifiedAt: null,
+          domainCheckedAt: null,
+          domainCheckFailedAt: null,
+          domainWarnedAt: null,
         },
       });
+
+      if (org.domainVerified && org.domain) {
+        await recordOrgDomainEvent(orgId, org.domain, 'UNVERIFIED', `Domain changed to ${domain}`);
+      }
     }
 
     // Get verification record details
@@ -127,14 +143,37 @@ export async function POST(
 
     if (verificationResult.verified) {
       // Update organization as verified
+      const verifiedAt = new Date();
       const updatedOrg = await prisma.org.update({
         where: { id: orgId },
         data: {
           domainVerified: true,
-          domainVerifiedAt: new Date(),
+          domainVerifiedAt: verifiedAt,
+          domainCheckedAt: verifiedAt,
+          domainCheckFailedAt: null,
+          domainWarnedAt: null,
         },
       });
 
+      await recordOrgDomainEvent(orgId, domain, 'VERIFIED', 'TXT record found');
+
+      await recordAuditEvent({
+        actorType: 'USER',
+        actorId: session.user.id,
+        action: 'ORG_DOMAIN_VERIFY',
+        entityType: 'orgs',
+        entityId: orgId,
+        before: { domain: org.domain, domainVerified: org.domainVerified },
+        after: { domain, domainVerified: true },
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent'),
+      });
+
+      // Auto-join was turned on before the domain was verified
+      if (updatedOrg.allowAutoJoin) {
+        await startAutoJoinBackfill(orgId);
+      }
+
       const response: VerifyDomainResponse = {
         success: true,
         verificationStatus: {
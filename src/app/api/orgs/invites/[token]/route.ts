@@ -0,0 +1,96 @@
+/**
+ * Organization Invite Response API Route
+ * POST /api/orgs/invites/[token] - Accept or decline an invite
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { auth } from '@/lib/auth';
+import { acceptOrgInvite, declineOrgInvite, OrgInviteError } from '@/lib/org-invitations';
+
+/**
+ * POST /api/orgs/invites/[token]
+ * Body: { action: 'accept' | 'decline' }
+ *
+ * Accepting requires signing in with the invited email; anyone holding
+ * the link may decline.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const body = (await request.json().catch(() => ({}))) as { action?: string };
+
+    if (body.action !== 'accept' && body.action !== 'decline') {
+      return NextResponse.json(
+        { success: false, error: "Action must be 'accept' or 'decline'" },
+        { status: 400 }
+      );
+    }
+
+    const session = await auth();
+
+    if (body.action === 'decline') {
+      const member = await declineOrgInvite(token);
+
+      await recordAuditEvent({
+        actorType: 'USER',
+        actorId: session?.user?.id ?? member.inviteEmail ?? member.id,
+        action: 'ORG_MEMBER_INVITE_DECLINE',
+        entityType: 'org_members',
+        entityId: member.id,
+        after: { status: member.status, role: member.role },
+        details: { orgId: member.orgId, email: member.inviteEmail },
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent'),
+      });
+
+      return NextResponse.json({ success: true, orgId: member.orgId });
+    }
+
+    if (!session?.user?.id || !session.user.email) {
+      return NextResponse.json(
+        { success: false, error: 'Sign in to accept this invite' },
+        { status: 401 }
+      );
+    }
+
+    const member = await acceptOrgInvite(token, {
+      id: session.user.id,
+      email: session.user.email,
+    });
+
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_MEMBER_INVITE_ACCEPT',
+      entityType: 'org_members',
+      entityId: member.id,
+      before: { status: 'INVITED' },
+      after: { status: member.status, role: member.role },
+      details: { orgId: member.orgId, userId: session.user.id },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.json({ success: true, orgId: member.orgId });
+  } catch (error) {
+    if (error instanceof OrgInviteError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error answering invite:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to answer invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/admin-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { generalFormRateLimiter } from '@/lib/ratelimit';
@@ -94,6 +96,22 @@ export async function POST(request: NextRequest) {
       return newOrg;
     });
 
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: session.user.id,
+      action: 'ORG_CREATE',
+      entityType: 'orgs',
+      entityId: org.id,
+      after: {
+        name: org.name,
+        type: org.type,
+        contactEmail: org.contactEmail,
+        domain: org.domain,
+      },
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
     const response: CreateOrgResponse = {
       success: true,
       orgId: org.id,
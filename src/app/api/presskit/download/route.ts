@@ -17,7 +17,7 @@
  * - Sets appropriate cache headers
  *
  * Performance:
- * - Streams directly to response (no temp files)
+ * - Streams assets from asset storage directly to the response (no temp files)
  * - Handles missing assets gracefully
  * - Includes only available assets
  */
@@ -25,9 +25,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import archiver from 'archiver';
 import { Readable } from 'node:stream';
-import path from 'node:path';
-import fs from 'node:fs';
 import { getPressKitManifest, getAvailableAssets, getAssetCount } from '@/lib/presskit';
+import { getAssetStorage } from '@/lib/storage';
 import type { PressKitAsset, PressKitError } from '@/types/presskit';
 import { getCurrentUser } from '@/lib/auth';
 
@@ -46,12 +45,12 @@ export async function GET(request: NextRequest): Promise<Response> {
     const user = await getCurrentUser();
     const isAuthenticated = !!user;
 
-    // Get public directory path
-    const publicDir = path.join(process.cwd(), 'public');
+    // Press kit assets live in asset storage (public/ in development)
+    const storage = getAssetStorage();
 
     // Get full manifest and filter to available assets
     const fullManifest = getPressKitManifest();
-    const manifest = getAvailableAssets(fullManifest, publicDir);
+    const manifest = await getAvailableAssets(fullManifest, storage);
 
     const totalAssets = getAssetCount(manifest);
     const fullAssets = getAssetCount(fullManifest);
@@ -107,11 +106,10 @@ export async function GET(request: NextRequest): Promise<Response> {
     ];
 
     for (const asset of allAssets) {
-      const filePath = path.join(publicDir, asset.path);
-
       try {
-        if (fs.existsSync(filePath)) {
-          archive.file(filePath, { name: asset.filename });
+        const object = await storage.getStream(asset.path);
+        if (object) {
+          archive.append(object.stream, { name: asset.filename });
         }
       } catch (err) {
         console.error(`[Press Kit] Error adding file ${asset.filename}:`, err);
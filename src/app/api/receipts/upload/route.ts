@@ -15,27 +15,28 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
+
+import { ReceiptStatus } from '@prisma/client';
+
+import { queueReceiptProcessing } from '@/jobs/receipt-processor';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { sanitizeString } from '@/lib/validation';
 import {
   checkRateLimit,
   getClientIP,
   getRateLimitHeaders,
   fileUploadRateLimiter,
 } from '@/lib/ratelimit';
+import { getStorage } from '@/lib/storage';
 import {
   validateReceiptFile,
-  uploadToStorage,
   generateSecureFilename,
   scanFileForVirus,
   checkDuplicateFile,
-  isStorageConfigured,
-  getStorageProvider,
   calculateFileHash,
 } from '@/lib/upload';
+import { sanitizeString } from '@/lib/validation';
 import type { ReceiptUploadResponse } from '@/types/receipt';
-import { ReceiptStatus } from '@prisma/client';
 
 /**
  * Rate limit: 5 uploads per hour per IP
@@ -221,44 +222,28 @@ export async function POST(request: NextRequest) {
     }
 
     // ==================== Upload to Storage ====================
-    let fileUrl: string;
-
-    if (isStorageConfigured()) {
-      // Upload to S3/R2
-      const filename = generateSecureFilename(
-        file.name,
-        validation.mimeType!,
-        user.id
-      );
-
-      fileUrl = await uploadToStorage(fileBuffer, filename, {
-        folder: 'receipts',
-        contentType: validation.mimeType,
-        metadata: {
-          userId: user.id,
-          retailer: sanitizeString(retailer),
-          uploadedAt: new Date().toISOString(),
-        },
-      });
-
-      console.log(
-        `[Receipt Upload] Uploaded to ${getStorageProvider()}: ${filename}`
-      );
-    } else {
-      // Fallback: local storage for development
-      console.warn(
-        '[Receipt Upload] Storage not configured. Using local fallback.'
-      );
+    // Receipts are private: fileUrl holds the storage key, and downloads
+    // go through short-lived signed URLs
+    const storage = getStorage();
+    const filename = generateSecureFilename(
+      file.name,
+      validation.mimeType!,
+      user.id
+    );
+    const fileUrl = `receipts/${filename}`;
 
-      const { saveFile } = await import('@/lib/file-utils');
-      const sanitizedFilename = generateSecureFilename(
-        file.name,
-        validation.mimeType!,
-        user.id
-      );
+    await storage.put(fileUrl, fileBuffer, {
+      contentType: validation.mimeType,
+      metadata: {
+        userId: user.id,
+        retailer: sanitizeString(retailer),
+        uploadedAt: new Date().toISOString(),
+      },
+    });
 
-      fileUrl = await saveFile(fileBuffer, sanitizedFilename, '/uploads/receipts');
-    }
+    console.log(
+      `[Receipt Upload] Stored with ${storage.name} driver: ${fileUrl}`
+    );
 
     // ==================== Create Receipt Record ====================
     const receipt = await prisma.receipt.create({
@@ -289,16 +274,18 @@ export async function POST(request: NextRequest) {
     console.log('Status:', receipt.status);
     console.log('========================');
 
-    // TODO: Trigger receipt processing job
-    // Example with BullMQ:
-    // await receiptQueue.add('verify-receipt', {
-    //   receiptId: receipt.id,
-    //   fileUrl,
-    //   retailer: receipt.retailer,
-    //   orderNumber: receipt.orderNumber,
-    //   userId: user.id,
-    //   createdAt: receipt.createdAt.toISOString(),
-    // });
+    // ==================== Queue Verification Job ====================
+    // Persisted to the durable queue; a failure here leaves the receipt
+    // PENDING for manual review rather than failing the upload
+    try {
+      await queueReceiptProcessing({
+        receiptId: receipt.id,
+        userId: user.id,
+        fileUrl,
+      });
+    } catch (queueError) {
+      console.error('[Receipt Upload] Failed to queue verification job:', queueError);
+    }
 
     // TODO: Send confirmation email to user
     // await sendReceiptUploadConfirmation(user.email, receipt.id);
@@ -312,7 +299,7 @@ export async function POST(request: NextRequest) {
         data: {
           receiptId: receipt.id,
           status: receipt.status as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-          fileUrl: isStorageConfigured() ? fileUrl : undefined,
+          fileUrl: await storage.getSignedUrl(fileUrl),
         },
       },
       {
@@ -0,0 +1,29 @@
+/**
+ * Retailer Catalog API
+ *
+ * GET /api/retailers
+ *
+ * Serves the retailers shown in each region to the retailer menu (see
+ * `useRetailerCatalog`). Inactive retailers are not listed.
+ *
+ * Features:
+ * - Served from the cached loader in `@/lib/retailer-catalog`
+ * - Cacheable for a minute at the CDN
+ * - Public: the catalog holds no personal data
+ */
+
+import { NextResponse } from 'next/server';
+
+import { getRetailerCatalog } from '@/lib/retailer-catalog';
+
+/**
+ * GET handler
+ */
+export async function GET() {
+  const catalog = await getRetailerCatalog();
+
+  return NextResponse.json(
+    { catalog },
+    { headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=60' } }
+  );
+}
@@ -2,7 +2,7 @@
  * Avatar Upload API Routes
  *
  * Handles user avatar upload and deletion
- * - POST: Upload new avatar (resize to 200x200, upload to R2/S3)
+ * - POST: Upload new avatar (resize to 200x200, store under "avatars/")
  * - DELETE: Remove avatar
  *
  * @module api/user/avatar
@@ -13,7 +13,7 @@ import { auth } from "@/lib/auth";
 import sharp from "sharp";
 import crypto from "crypto";
 import { prisma } from "@/lib/prisma";
-import { uploadToStorage } from "@/lib/upload";
+import { getFileRoutePath, getStorage } from "@/lib/storage";
 import { logger } from "@/lib/logger";
 
 /**
@@ -103,16 +103,17 @@ export async function POST(request: NextRequest) {
       .substring(0, 16);
     const filename = `avatar-${user.id}-${timestamp}-${hash}.jpg`;
 
-    // Upload to storage (R2/S3)
-    const avatarUrl = await uploadToStorage(resizedBuffer, filename, {
-      folder: "avatars",
+    // Store the avatar; "avatars/" is a public prefix served by /api/files
+    const avatarKey = `avatars/${filename}`;
+    await getStorage().put(avatarKey, resizedBuffer, {
       contentType: "image/jpeg",
-      maxAge: 31536000, // 1 year cache
+      cacheControl: "public, max-age=31536000, immutable", // 1 year cache
       metadata: {
         userId: user.id,
         uploadedAt: new Date().toISOString(),
       },
     });
+    const avatarUrl = getFileRoutePath(avatarKey);
 
     // Update user record in database
     const currentPreferences = (user.preferences as Record<string, unknown>) || {};
@@ -15,6 +15,7 @@
  */
 
 import { NextResponse } from "next/server";
+import { recordAuditEvent } from "@/lib/audit-log";
 import { getCurrentUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import type { User } from "@prisma/client";
@@ -93,20 +94,38 @@ async function sendDeletionConfirmationEmail(
 
 /**
  * Log account deletion for audit trail
+ *
+ * The audit log is append-only, so the persisted entry cannot be erased
+ * with the account. It records only the user ID, the stated reason and the
+ * grace period end - no email, IP address or user agent.
  */
-function logAccountDeletion(user: User, reason?: string): void {
+async function logAccountDeletion(
+  user: User,
+  reason?: string
+): Promise<void> {
+  const gracePeriodEnd = new Date(
+    Date.now() + 30 * 24 * 60 * 60 * 1000
+  ).toISOString();
+
   console.info("[Account Deletion]", {
     userId: user.id,
     email: user.email,
     timestamp: new Date().toISOString(),
     reason: reason || "Not specified",
-    gracePeriodEnd: new Date(
-      Date.now() + 30 * 24 * 60 * 60 * 1000
-    ).toISOString(),
+    gracePeriodEnd,
   });
 
-  // In production, send to monitoring service
-  // Example: Sentry.captureMessage('Account deletion requested', { user, reason });
+  await recordAuditEvent({
+    actorType: "USER",
+    actorId: user.id,
+    action: "ACCOUNT_DELETE",
+    entityType: "users",
+    entityId: user.id,
+    details: {
+      reason: reason || "Not specified",
+      gracePeriodEnd,
+    },
+  });
 }
 
 /**
@@ -260,7 +279,7 @@ export async function DELETE(request: Request) {
     // Audit Logging
     // =========================================================================
 
-    logAccountDeletion(userRecord, body.reason);
+    await logAccountDeletion(userRecord, body.reason);
 
     // =========================================================================
     // Response
@@ -0,0 +1,94 @@
+/**
+ * Webhook: Resend Delivery Events
+ *
+ * POST /api/webhooks/resend
+ *
+ * Ingests delivery events for emails sent through the outbox
+ * (see `@/lib/email-outbox`):
+ * - email.delivered - marks the message DELIVERED
+ * - email.bounced - marks it BOUNCED and suppresses hard-bounced recipients
+ * - email.complained - marks it COMPLAINED and suppresses the recipient
+ * - email.opened / email.clicked - records engagement on newsletter campaign
+ *   recipients (see `@/lib/newsletter-campaigns`)
+ *
+ * Suppressed recipients are also marked BOUNCED (hard bounce) or
+ * UNSUBSCRIBED (complaint) on the newsletter list.
+ *
+ * Other event types are acknowledged and ignored.
+ *
+ * Requests are verified with the Svix signature headers Resend sends,
+ * using `RESEND_WEBHOOK_SECRET` from the Resend dashboard.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { verifyResendWebhook } from '@/lib/email';
+import { applyEmailEvent, type ResendWebhookEvent } from '@/lib/email-outbox';
+import { recordCampaignEngagement } from '@/lib/newsletter-campaigns';
+import { markSubscribersSuppressed } from '@/lib/newsletter-subscribers';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST handler
+ */
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    console.error('[Resend Webhook] RESEND_WEBHOOK_SECRET not configured');
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 503 });
+  }
+
+  const payload = await request.text();
+  const id = request.headers.get('svix-id');
+  const timestamp = request.headers.get('svix-timestamp');
+  const signature = request.headers.get('svix-signature');
+
+  if (!id || !timestamp || !signature) {
+    return NextResponse.json({ error: 'Missing signature headers' }, { status: 400 });
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = verifyResendWebhook(payload, { id, timestamp, signature }, webhookSecret);
+  } catch (error) {
+    console.warn('[Resend Webhook] Rejected event with invalid signature:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  if (!event?.type || !event.data?.email_id) {
+    return NextResponse.json({ error: 'Invalid event payload' }, { status: 400 });
+  }
+
+  try {
+    if (event.type === 'email.opened' || event.type === 'email.clicked') {
+      const recipient = await recordCampaignEngagement(event);
+      return NextResponse.json({ success: true, data: { recipientId: recipient?.id ?? null } });
+    }
+
+    const result = await applyEmailEvent(event);
+
+    if (result.suppressed.length > 0) {
+      console.warn(
+        `[Resend Webhook] Suppressed ${result.suppressed.length} address(es) after ${event.type} for ${event.data.email_id}`
+      );
+
+      // Take them off the newsletter list too
+      await markSubscribersSuppressed(
+        result.suppressed,
+        event.type === 'email.complained' ? 'COMPLAINT' : 'HARD_BOUNCE'
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    // Non-2xx makes Resend redeliver the event later
+    console.error('[Resend Webhook] Error applying event:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
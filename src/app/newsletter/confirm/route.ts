@@ -10,9 +10,10 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { verifyNewsletterToken } from '@/lib/tokens';
-import { NewsletterStore } from '@/types/newsletter';
+
 import { sendNewsletterWelcomeEmail } from '@/lib/email';
+import { confirmSubscriber } from '@/lib/newsletter-subscribers';
+import { verifyNewsletterToken } from '@/lib/tokens';
 
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
 
@@ -66,10 +67,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Find subscriber by email
-    const subscriber = NewsletterStore.findByEmail(payload.email);
+    // Confirm subscription
+    const result = await confirmSubscriber(payload.email);
 
-    if (!subscriber) {
+    if (!result) {
       console.error('[Newsletter Confirm] Subscriber not found:', payload.email);
       return NextResponse.redirect(
         `${SITE_URL}/?newsletter_error=not_found`,
@@ -77,8 +78,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { subscriber } = result;
+
     // Check if already confirmed
-    if (subscriber.status === 'confirmed') {
+    if (result.unchanged) {
       console.log(
         '[Newsletter Confirm] Already confirmed:',
         subscriber.email
@@ -89,14 +92,6 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Confirm subscription
-    subscriber.status = 'confirmed';
-    subscriber.confirmedAt = new Date();
-    subscriber.updatedAt = new Date();
-
-    // Update subscriber in store
-    NewsletterStore.upsert(subscriber);
-
     console.log('[Newsletter Confirm] Confirmed:', {
       email: subscriber.email,
       source: subscriber.source,
@@ -105,7 +100,7 @@ export async function GET(request: NextRequest) {
     });
 
     // Send welcome email (fire and forget - don't block redirect)
-    sendNewsletterWelcomeEmail(subscriber.email, subscriber.name).catch(
+    sendNewsletterWelcomeEmail(subscriber.email, subscriber.name ?? undefined).catch(
       (error) => {
         console.error('[Newsletter Confirm] Welcome email failed:', error);
       }
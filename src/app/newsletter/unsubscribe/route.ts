@@ -2,6 +2,8 @@
  * Newsletter Unsubscribe Route
  *
  * GET /newsletter/unsubscribe?token=...
+ * POST /newsletter/unsubscribe?token=... (RFC 8058 one-click, from the
+ * List-Unsubscribe header newsletter issues carry)
  *
  * Unsubscribes user from newsletter.
  * CAN-SPAM & GDPR compliant one-click unsubscribe.
@@ -11,8 +13,8 @@
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
+import { unsubscribeSubscriber } from '@/lib/newsletter-subscribers';
 import { verifyNewsletterToken } from '@/lib/tokens';
-import { NewsletterStore } from '@/types/newsletter';
 
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
 
@@ -69,10 +71,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Find subscriber by email
-    const subscriber = NewsletterStore.findByEmail(payload.email);
+    // Unsubscribe
+    const result = await unsubscribeSubscriber(payload.email);
 
-    if (!subscriber) {
+    if (!result) {
       console.error(
         '[Newsletter Unsubscribe] Subscriber not found:',
         payload.email
@@ -84,8 +86,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { subscriber } = result;
+
     // Check if already unsubscribed
-    if (subscriber.status === 'unsubscribed') {
+    if (result.unchanged) {
       console.log(
         '[Newsletter Unsubscribe] Already unsubscribed:',
         subscriber.email
@@ -96,18 +100,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Unsubscribe
-    subscriber.status = 'unsubscribed';
-    subscriber.unsubscribedAt = new Date();
-    subscriber.updatedAt = new Date();
-
-    // Update subscriber in store
-    NewsletterStore.upsert(subscriber);
-
     console.log('[Newsletter Unsubscribe] Unsubscribed:', {
       email: subscriber.email,
       unsubscribedAt: subscriber.unsubscribedAt,
-      previousStatus: subscriber.status,
     });
 
     // Redirect to confirmation page
@@ -125,11 +120,46 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Handle POST unsubscribe (for form submissions)
- * Allows unsubscribe via email address without token
+ * Handle RFC 8058 one-click unsubscribe
+ *
+ * Mail clients POST `List-Unsubscribe=One-Click` to the List-Unsubscribe
+ * URL without following redirects, so this answers with a status only.
+ */
+async function handleOneClickUnsubscribe(token: string): Promise<NextResponse> {
+  const verification = verifyNewsletterToken(token);
+
+  if (!verification.valid || verification.payload?.type !== 'unsubscribe') {
+    console.error('[Newsletter Unsubscribe] Invalid one-click token:', verification.error);
+    return NextResponse.json(
+      { success: false, message: 'Invalid unsubscribe link' },
+      { status: 400 }
+    );
+  }
+
+  const result = await unsubscribeSubscriber(verification.payload.email);
+
+  if (result && !result.unchanged) {
+    console.log('[Newsletter Unsubscribe] One-click unsubscribed:', result.subscriber.email);
+  }
+
+  return NextResponse.json(
+    { success: true, message: "You've been unsubscribed from our newsletter." },
+    { status: 200 }
+  );
+}
+
+/**
+ * Handle POST unsubscribe
+ * - With a token query param: one-click unsubscribe from the List-Unsubscribe header
+ * - Otherwise (form submissions): unsubscribe via email address without token
  */
 export async function POST(request: NextRequest) {
   try {
+    const token = request.nextUrl.searchParams.get('token');
+    if (token) {
+      return await handleOneClickUnsubscribe(token);
+    }
+
     const body = await request.json();
     const email = body.email?.toLowerCase().trim();
 
@@ -143,9 +173,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const subscriber = NewsletterStore.findByEmail(email);
+    const result = await unsubscribeSubscriber(email);
 
-    if (!subscriber) {
+    if (!result) {
       // Don't reveal whether email exists
       return NextResponse.json(
         {
@@ -157,7 +187,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (subscriber.status === 'unsubscribed') {
+    if (result.unchanged) {
       return NextResponse.json(
         {
           success: true,
@@ -167,12 +197,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Unsubscribe
-    subscriber.status = 'unsubscribed';
-    subscriber.unsubscribedAt = new Date();
-    subscriber.updatedAt = new Date();
-    NewsletterStore.upsert(subscriber);
-
     console.log('[Newsletter Unsubscribe POST] Unsubscribed:', email);
 
     return NextResponse.json(
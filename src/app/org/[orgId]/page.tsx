@@ -8,9 +8,11 @@
 import { Suspense } from 'react';
 import { notFound, redirect } from 'next/navigation';
 import { auth } from '@/lib/auth';
+import { getDomainRevocationDate, listOrgDomainEvents } from '@/lib/org-domain-reverification';
+import { listPendingOrgInvites } from '@/lib/org-invitations';
 import { prisma } from '@/lib/prisma';
 import { verifyOrgMembership } from '@/lib/prisma-rls';
-import { getOrgPermissions } from '@/types/organization';
+import { getOrgPermissions, type OrgMemberWithUser } from '@/types/organization';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -115,6 +117,15 @@ export default async function OrganizationDashboardPage({ params }: PageProps) {
   // Get permissions
   const permissions = getOrgPermissions(userMembership.role);
 
+  // Active members always have an account; invites are listed separately
+  const members = org.members.flatMap((member): OrgMemberWithUser[] =>
+    member.userId && member.user ? [{ ...member, userId: member.userId, user: member.user }] : []
+  );
+  const pendingInvites = permissions.canInviteMembers
+    ? await listPendingOrgInvites(orgId)
+    : [];
+  const domainEvents = org.domain ? await listOrgDomainEvents(orgId) : [];
+
   // Calculate statistics
   const stats = {
     totalMembers: org._count.members,
@@ -187,7 +198,7 @@ export default async function OrganizationDashboardPage({ params }: PageProps) {
           </TabsTrigger>
           <TabsTrigger value="codes">VIP Codes ({stats.totalCodes})</TabsTrigger>
           <TabsTrigger value="plans">Plans ({stats.totalPlans})</TabsTrigger>
-          {permissions.canManageOrg && (
+          {permissions.canManageMembers && (
             <TabsTrigger value="settings">Settings</TabsTrigger>
           )}
         </TabsList>
@@ -199,6 +210,8 @@ export default async function OrganizationDashboardPage({ params }: PageProps) {
               org={org}
               stats={stats}
               permissions={permissions}
+              domainEvents={domainEvents}
+              domainRevokesAt={getDomainRevocationDate(org)}
             />
           </Suspense>
         </TabsContent>
@@ -208,7 +221,8 @@ export default async function OrganizationDashboardPage({ params }: PageProps) {
           <Suspense fallback={<LoadingCard />}>
             <MemberList
               orgId={orgId}
-              members={org.members}
+              members={members}
+              pendingInvites={pendingInvites}
               permissions={permissions}
               currentUserId={session.user.id}
             />
@@ -239,7 +253,7 @@ export default async function OrganizationDashboardPage({ params }: PageProps) {
         </TabsContent>
 
         {/* Settings Tab */}
-        {permissions.canManageOrg && (
+        {permissions.canManageMembers && (
           <TabsContent value="settings">
             <Suspense fallback={<LoadingCard />}>
               <OrganizationSettings
@@ -0,0 +1,115 @@
+/**
+ * Organization Plan Page
+ * /org/[orgId]/plans/[planId]
+ *
+ * Shows a plan's current content and its revision history, with a
+ * side-by-side diff between any two revisions, restore and section
+ * regeneration
+ */
+
+import { notFound, redirect } from 'next/navigation';
+
+import { PlanRevisionHistory } from '@/components/org/PlanRevisionHistory';
+import { PlanSectionRegenerate } from '@/components/org/PlanSectionRegenerate';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { auth } from '@/lib/auth';
+import { getPlanSections } from '@/lib/plan-generation';
+import { listPlanRevisions, visiblePlanWhere } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+import { verifyOrgMembership } from '@/lib/prisma-rls';
+import { getOrgPermissions } from '@/types/organization';
+
+interface PageProps {
+  params: Promise<{
+    orgId: string;
+    planId: string;
+  }>;
+}
+
+export default async function OrganizationPlanPage({ params }: PageProps) {
+  const session = await auth();
+  const { orgId, planId } = await params;
+  if (!session?.user?.id) {
+    redirect(`/auth/signin?callbackUrl=/org/${orgId}/plans/${planId}`);
+  }
+
+  const membership = await verifyOrgMembership(prisma, session.user.id, orgId);
+
+  if (!membership.isMember || !membership.role) {
+    notFound();
+  }
+
+  const plan = await prisma.orgPlan.findFirst({
+    where: { id: planId, orgId, ...visiblePlanWhere(session.user.id) },
+  });
+
+  if (!plan) {
+    notFound();
+  }
+
+  const revisions = await listPlanRevisions(planId);
+
+  // Same rule as editing: creator or admin/owner
+  const canRestore =
+    plan.status !== 'GENERATING' &&
+    (plan.createdBy === session.user.id || getOrgPermissions(membership.role).canManagePlans);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{plan.title}</h1>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{plan.status}</Badge>
+            <Badge variant="outline">{plan.privacy}</Badge>
+            {plan.revisionCount > 0 && (
+              <span className="text-sm text-muted-foreground">
+                Revision #{plan.revisionCount}
+              </span>
+            )}
+          </div>
+        </div>
+        <Button asChild variant="outline">
+          <a href={`/org/${orgId}`}>Back to organization</a>
+        </Button>
+      </div>
+
+      {/* Current content */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Plan</CardTitle>
+          {plan.description && <CardDescription>{plan.description}</CardDescription>}
+          {canRestore && (
+            <PlanSectionRegenerate
+              orgId={orgId}
+              planId={planId}
+              sections={getPlanSections(plan.content)}
+            />
+          )}
+        </CardHeader>
+        <CardContent>
+          {plan.content ? (
+            <pre className="whitespace-pre-wrap break-words font-sans text-sm">{plan.content}</pre>
+          ) : (
+            <p className="text-muted-foreground">No content yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <PlanRevisionHistory
+        orgId={orgId}
+        planId={planId}
+        revisions={revisions}
+        canRestore={canRestore}
+      />
+    </div>
+  );
+}
+
+// Metadata (private plan titles stay out of it)
+export const metadata = {
+  title: 'Plan - Organization Dashboard',
+};
@@ -0,0 +1,106 @@
+/**
+ * Organization Invite Page
+ * /org/invite/[token]
+ *
+ * Lets the invitee accept (signed in with the invited email) or decline an
+ * organization invite
+ */
+
+import { InviteResponse } from '@/components/org/InviteResponse';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { auth } from '@/lib/auth';
+import { OrgInviteError, resolveOrgInvite } from '@/lib/org-invitations';
+import type { MemberInvitation } from '@/types/organization';
+
+interface PageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+export const metadata = {
+  title: 'Organization Invite',
+  robots: { index: false, follow: false },
+};
+
+export default async function OrganizationInvitePage({ params }: PageProps) {
+  const { token } = await params;
+  const session = await auth();
+
+  let invite: MemberInvitation;
+  try {
+    invite = await resolveOrgInvite(token);
+  } catch (error) {
+    if (!(error instanceof OrgInviteError)) {
+      throw error;
+    }
+
+    return (
+      <InviteCard title="Invite unavailable" description={error.message}>
+        <Button asChild variant="outline">
+          <a href="/">Go to homepage</a>
+        </Button>
+      </InviteCard>
+    );
+  }
+
+  const signedInEmail = session?.user?.email?.toLowerCase();
+  const callbackUrl = `/org/invite/${encodeURIComponent(token)}`;
+
+  return (
+    <InviteCard
+      title={`Join ${invite.orgName}`}
+      description={`${invite.inviterName ?? 'A team member'} invited ${invite.email} to join as ${invite.role.toLowerCase()}.`}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          This invite expires on {invite.expiresAt.toLocaleDateString()}.
+        </p>
+
+        {!signedInEmail && (
+          <Button asChild>
+            <a href={`/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`}>
+              Sign in as {invite.email} to accept
+            </a>
+          </Button>
+        )}
+
+        {signedInEmail && signedInEmail !== invite.email && (
+          <p className="text-sm text-amber-600">
+            You are signed in as {signedInEmail}. Sign out and sign in as {invite.email} to
+            accept this invite.
+          </p>
+        )}
+
+        <InviteResponse
+          token={token}
+          orgName={invite.orgName}
+          canAccept={signedInEmail === invite.email}
+        />
+      </div>
+    </InviteCard>
+  );
+}
+
+function InviteCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>{children}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { BookNavbarWrapper } from "@/components/BookNavbarWrapper";
+import { ExperimentProvider } from "@/components/ExperimentProvider";
 import { BookAsSeenIn } from "@/components/sections/BookAsSeenIn";
 import { BookAudiences } from "@/components/sections/BookAudiences";
 import { BookDifference } from "@/components/sections/BookDifference";
@@ -11,13 +12,17 @@ import { BookOverview } from "@/components/sections/BookOverview";
 import { BookProblem } from "@/components/sections/BookProblem";
 import { BookSolution } from "@/components/sections/BookSolution";
 import { BookStakes } from "@/components/sections/BookStakes";
+import { getServerExperimentAssignments } from "@/lib/experiments-server";
 import { pageMetadata } from "@/lib/metadata";
 
 export const metadata = pageMetadata.home;
 
-export default function Home() {
+export default async function Home() {
+  // Variants assigned by middleware, rendered server-side without flicker
+  const experiments = await getServerExperimentAssignments();
+
   return (
-    <>
+    <ExperimentProvider value={experiments}>
       <BookNavbarWrapper />
       <main className="min-h-screen bg-white dark:bg-black">
         {/* Hero & Core Value Proposition */}
@@ -53,6 +58,6 @@ export default function Home() {
 
         <BookFooter />
       </main>
-    </>
+    </ExperimentProvider>
   );
 }
@@ -1,7 +1,8 @@
-import { RedeemForm } from '@/components/redeem/RedeemForm';
 import { Background } from '@/components/background';
-import { pageMetadata } from '@/lib/metadata';
+import { RedeemForm } from '@/components/redeem/RedeemForm';
 import { getCurrentUser } from '@/lib/auth';
+import { resolveCodeInvite } from '@/lib/code-invites';
+import { pageMetadata } from '@/lib/metadata';
 
 /**
  * VIP Code Redemption Page
@@ -11,14 +12,23 @@ import { getCurrentUser } from '@/lib/auth';
  * - Auto-fills email for authenticated users
  * - Associates redemptions with user accounts
  * - Redirects to downloads page after successful redemption
+ * - Invite links (?invite=<token>) pre-fill the code and redeem it after sign-in
  */
 
 export const metadata = pageMetadata.redeem;
 
-export default async function RedeemPage() {
+interface RedeemPageProps {
+  searchParams: Promise<{ invite?: string }>;
+}
+
+export default async function RedeemPage({ searchParams }: RedeemPageProps) {
   // Get current user if authenticated
   const user = await getCurrentUser();
 
+  // Personalised invite link
+  const { invite: inviteToken } = await searchParams;
+  const invite = inviteToken ? resolveCodeInvite(inviteToken) : null;
+
   return (
     <Background>
       <section className="py-16 lg:py-24">
@@ -73,7 +83,11 @@ export default async function RedeemPage() {
           </div>
 
           {/* Redemption Form */}
-          <RedeemForm user={user} />
+          <RedeemForm
+            user={user}
+            invite={invite && inviteToken ? { token: inviteToken, ...invite } : null}
+            inviteInvalid={Boolean(inviteToken) && !invite}
+          />
 
           {/* Help Section */}
           <div className="text-muted-foreground mt-12 text-center text-sm">
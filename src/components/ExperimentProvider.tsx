@@ -0,0 +1,58 @@
+/**
+ * Experiment Provider Component
+ *
+ * Hands the variants assigned server-side (by middleware) to client
+ * components, so `useExperiment` renders the assigned variant from the
+ * first paint with no hydration mismatch or variant flicker.
+ *
+ * Without this provider, `useExperiment` falls back to client-side
+ * assignment (control on the server, assigned variant after hydration).
+ *
+ * @example
+ * ```tsx
+ * // In a server component page
+ * import { ExperimentProvider } from '@/components/ExperimentProvider';
+ * import { getServerExperimentAssignments } from '@/lib/experiments-server';
+ *
+ * export default async function Page() {
+ *   const experiments = await getServerExperimentAssignments();
+ *
+ *   return (
+ *     <ExperimentProvider value={experiments}>
+ *       <HeroSection />
+ *     </ExperimentProvider>
+ *   );
+ * }
+ * ```
+ */
+
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+
+import type { ServerExperimentAssignments } from '@/lib/experiments-server';
+
+// ==================== Context ====================
+
+const ExperimentContext = createContext<ServerExperimentAssignments | null>(null);
+
+export interface ExperimentProviderProps {
+  children: ReactNode;
+  /** Result of `getServerExperimentAssignments()` */
+  value: ServerExperimentAssignments;
+}
+
+/**
+ * Experiment Provider
+ * Makes server-assigned variants available to `useExperiment`
+ */
+export function ExperimentProvider({ children, value }: ExperimentProviderProps) {
+  return <ExperimentContext.Provider value={value}>{children}</ExperimentContext.Provider>;
+}
+
+/**
+ * Get the server-assigned variants, or null outside an `ExperimentProvider`
+ */
+export function useServerExperiments(): ServerExperimentAssignments | null {
+  return useContext(ExperimentContext);
+}
@@ -4,7 +4,7 @@
  * Features:
  * - Double opt-in flow
  * - Interest-based segmentation (optional)
- * - Source tracking for analytics
+ * - Source and UTM/geo attribution tracking
  * - GDPR/CCPA compliant
  * - Accessible (WCAG 2.2 AA)
  * - Spam protection (honeypot field)
@@ -21,6 +21,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 
+import { detectUserGeo } from '@/lib/geo';
 import { NewsletterSubscribeSchema } from '@/lib/validation';
 import type { NewsletterSource, NewsletterInterest } from '@/types/newsletter';
 
@@ -97,6 +98,26 @@ const INTEREST_OPTIONS: Array<{
   },
 ];
 
+// ============================================================================
+// Attribution
+// ============================================================================
+
+/**
+ * UTM parameters, referrer and detected region sent with the signup
+ */
+function getSignupAttribution() {
+  const params = new URLSearchParams(window.location.search);
+  const param = (name: string) => params.get(name)?.slice(0, 200) || undefined;
+
+  return {
+    referrer: document.referrer.slice(0, 500) || undefined,
+    utmSource: param('utm_source'),
+    utmMedium: param('utm_medium'),
+    utmCampaign: param('utm_campaign'),
+    geo: detectUserGeo(),
+  };
+}
+
 // ============================================================================
 // Newsletter Form Component
 // ============================================================================
@@ -141,7 +162,7 @@ export function NewsletterForm({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, ...getSignupAttribution() }),
       });
 
       const result = await response.json();
@@ -14,6 +14,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { useRetailerCatalog } from '@/hooks/useRetailerCatalog';
 import { trackEvent } from '@/lib/analytics';
 import { detectUserGeo, saveGeoPreference, getAllRegions, getRegionDisplayName } from '@/lib/geo';
 import { getFormattedPrice, getBundleSavingsPercentage } from '@/lib/pricing';
@@ -51,7 +52,8 @@ export interface RetailerMenuProps {
 /**
  * RetailerMenu - Retailer selection dialog with format and geo switching
  *
- * Displays available retailers filtered by geographic region and book format.
+ * Displays available retailers filtered by geographic region and book format,
+ * from the catalog managed at /admin/retailers (see `useRetailerCatalog`).
  * Tracks analytics events for menu opens, format toggles, region switches,
  * and pre-order clicks.
  *
@@ -74,6 +76,7 @@ export function RetailerMenu({
   const [open, setOpen] = React.useState(false);
   const [selectedFormat, setSelectedFormat] = React.useState<BookFormat>(initialFormat);
   const [selectedGeo, setSelectedGeo] = React.useState<GeoRegion>('US');
+  const catalog = useRetailerCatalog();
 
   // Detect user's geo on mount
   React.useEffect(() => {
@@ -83,8 +86,8 @@ export function RetailerMenu({
 
   // Get retailers for current geo
   const retailers = React.useMemo(
-    () => getDefaultRetailers(selectedGeo),
-    [selectedGeo]
+    () => getDefaultRetailers(selectedGeo, catalog),
+    [selectedGeo, catalog]
   );
 
   // Filter retailers by selected format
@@ -142,7 +145,7 @@ export function RetailerMenu({
   // Handle retailer click
   const handleRetailerClick = React.useCallback(
     (retailer: Retailer) => {
-      const url = getRetailerUrl(retailer.id, selectedFormat);
+      const url = getRetailerUrl(retailer, selectedFormat);
 
       trackEvent({
         event: 'preorder_click',
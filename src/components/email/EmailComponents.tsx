@@ -0,0 +1,346 @@
+/**
+ * Email Components
+ * Shared layout and brand building blocks for transactional email templates
+ *
+ * Email clients ignore stylesheets, so every element carries inline styles.
+ * Templates are rendered to static HTML by `renderEmailTemplate` in
+ * `@/lib/email-templates`; they must not use hooks or client-only APIs.
+ */
+
+import type { CSSProperties, ReactNode } from 'react';
+
+// ============================================================================
+// Brand
+// ============================================================================
+
+export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
+
+export const EMAIL_COLORS = {
+  background: '#0a0a0f',
+  panel: '#1a1a1f',
+  heading: '#fafafa',
+  text: '#d1d5db',
+  muted: '#9ca3af',
+  fine: '#6b7280',
+  border: '#374151',
+  cyan: '#00d9ff',
+  amber: '#ff9f40',
+} as const;
+
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+interface EmailLayoutProps {
+  /** Recipient address, for the default unsubscribe link */
+  recipient: string;
+  /** Footer unsubscribe link; defaults to the email form */
+  unsubscribeUrl?: string;
+  /** Hidden inbox preview line */
+  previewText?: string;
+  children?: ReactNode;
+}
+
+/**
+ * Base layout: branded header, content card and CAN-SPAM footer
+ */
+export function EmailLayout({ recipient, unsubscribeUrl, previewText, children }: EmailLayoutProps) {
+  return (
+    <html lang="en">
+      {/* eslint-disable-next-line @next/next/no-head-element */}
+      <head>
+        <meta charSet="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>AI-Born</title>
+      </head>
+      <body
+        style={{
+          margin: 0,
+          padding: 0,
+          fontFamily: FONT_FAMILY,
+          backgroundColor: EMAIL_COLORS.background,
+          color: EMAIL_COLORS.heading,
+        }}
+      >
+        {previewText && (
+          <div data-preheader="" style={{ display: 'none', maxHeight: 0, overflow: 'hidden' }}>
+            {previewText}
+          </div>
+        )}
+        <table width="100%" cellPadding={0} cellSpacing={0} style={{ backgroundColor: EMAIL_COLORS.background }}>
+          <tbody>
+            <tr>
+              <td align="center" style={{ padding: '40px 20px' }}>
+                <table
+                  width={600}
+                  cellPadding={0}
+                  cellSpacing={0}
+                  style={{ backgroundColor: EMAIL_COLORS.panel, borderRadius: '16px', overflow: 'hidden' }}
+                >
+                  <tbody>
+                    <tr>
+                      <td style={{ padding: '40px 40px 20px', textAlign: 'center' }}>
+                        <h1
+                          style={{
+                            margin: 0,
+                            fontSize: '32px',
+                            fontWeight: 700,
+                            color: EMAIL_COLORS.cyan,
+                            letterSpacing: '-0.5px',
+                          }}
+                        >
+                          AI-BORN
+                        </h1>
+                        <p style={{ margin: '8px 0 0', fontSize: '14px', color: EMAIL_COLORS.muted }}>
+                          The Machine Core, the Human Cortex, and the Next Economy of Being
+                        </p>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: '20px 40px 40px' }}>{children}</td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: '0 40px 40px' }}>
+                        <EmailFooter
+                          unsubscribeUrl={
+                            unsubscribeUrl ?? `${SITE_URL}/unsubscribe?email=${encodeURIComponent(recipient)}`
+                          }
+                        />
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </body>
+    </html>
+  );
+}
+
+/**
+ * CAN-SPAM footer: sender identity, postal address, unsubscribe link
+ */
+function EmailFooter({ unsubscribeUrl }: { unsubscribeUrl: string }) {
+  return (
+    <div
+      style={{
+        marginTop: '40px',
+        paddingTop: '20px',
+        borderTop: '1px solid #e5e7eb',
+        color: EMAIL_COLORS.fine,
+        fontSize: '12px',
+        lineHeight: 1.5,
+      }}
+    >
+      <p>
+        <strong>AI-Born</strong>
+        <br />
+        Mic Press, LLC
+        <br />
+        New York, NY
+      </p>
+      <p>
+        You received this email because you requested content from ai-born.org.
+        <br />
+        <EmailLink href={unsubscribeUrl}>Unsubscribe</EmailLink> |{' '}
+        <EmailLink href={`${SITE_URL}/privacy`}>Privacy Policy</EmailLink>
+      </p>
+    </div>
+  );
+}
+
+// ============================================================================
+// Typography
+// ============================================================================
+
+/**
+ * Email title
+ */
+export function EmailHeading({ children }: { children: ReactNode }) {
+  return (
+    <h2 style={{ margin: '0 0 20px', fontSize: '24px', fontWeight: 600, color: EMAIL_COLORS.heading }}>
+      {children}
+    </h2>
+  );
+}
+
+const TEXT_TONES: Record<'body' | 'muted' | 'fine', CSSProperties> = {
+  body: { margin: '0 0 16px', fontSize: '16px', color: EMAIL_COLORS.text },
+  muted: { margin: '24px 0 0', fontSize: '14px', color: EMAIL_COLORS.muted },
+  fine: { margin: '16px 0 0', fontSize: '12px', color: EMAIL_COLORS.fine },
+};
+
+/**
+ * Paragraph
+ *
+ * @param tone - body copy, muted secondary copy, or fine print
+ * @param style - Overrides (e.g. margins)
+ */
+export function EmailText({
+  tone = 'body',
+  style,
+  children,
+}: {
+  tone?: keyof typeof TEXT_TONES;
+  style?: CSSProperties;
+  children: ReactNode;
+}) {
+  return <p style={{ lineHeight: 1.6, ...TEXT_TONES[tone], ...style }}>{children}</p>;
+}
+
+/**
+ * Inline link
+ */
+export function EmailLink({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <a href={href} style={{ color: EMAIL_COLORS.cyan, textDecoration: 'underline' }}>
+      {children}
+    </a>
+  );
+}
+
+/**
+ * Bulleted list
+ */
+export function EmailList({
+  items,
+  style,
+}: {
+  items: ReactNode[];
+  style?: CSSProperties;
+}) {
+  return (
+    <ul style={{ margin: 0, paddingLeft: '20px', color: EMAIL_COLORS.text, lineHeight: 1.8, ...style }}>
+      {items.map((item, index) => (
+        <li key={index}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * Centred call-to-action button
+ *
+ * @param variant - Filled (primary) or outlined (secondary)
+ */
+export function EmailButton({
+  href,
+  variant = 'primary',
+  padding = '0',
+  children,
+}: {
+  href: string;
+  variant?: 'primary' | 'secondary';
+  /** Padding of the surrounding cell */
+  padding?: string;
+  children: ReactNode;
+}) {
+  const style: CSSProperties =
+    variant === 'primary'
+      ? { backgroundColor: EMAIL_COLORS.cyan, color: EMAIL_COLORS.background }
+      : { backgroundColor: EMAIL_COLORS.panel, border: `2px solid ${EMAIL_COLORS.cyan}`, color: EMAIL_COLORS.cyan };
+
+  return (
+    <table width="100%" cellPadding={0} cellSpacing={0}>
+      <tbody>
+        <tr>
+          <td align="center" style={{ padding }}>
+            <a
+              href={href}
+              style={{
+                display: 'inline-block',
+                padding: '16px 32px',
+                textDecoration: 'none',
+                borderRadius: '8px',
+                fontWeight: 600,
+                fontSize: '16px',
+                ...style,
+              }}
+            >
+              {children}
+            </a>
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+const CALLOUT_ACCENTS = {
+  cyan: EMAIL_COLORS.cyan,
+  amber: EMAIL_COLORS.amber,
+  gray: EMAIL_COLORS.fine,
+} as const;
+
+/**
+ * Boxed section with an accent border and optional title
+ *
+ * @param accent - Left border and title colour; omit for an unbordered panel
+ * @param surface - Darker background or card-coloured panel
+ */
+export function EmailCallout({
+  title,
+  accent,
+  surface = 'dark',
+  children,
+}: {
+  title?: ReactNode;
+  accent?: keyof typeof CALLOUT_ACCENTS;
+  surface?: 'dark' | 'panel';
+  children: ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        margin: '24px 0',
+        padding: accent ? '20px' : '16px',
+        backgroundColor: surface === 'dark' ? EMAIL_COLORS.background : EMAIL_COLORS.panel,
+        borderRadius: '8px',
+        ...(accent && { borderLeft: `4px solid ${CALLOUT_ACCENTS[accent]}` }),
+      }}
+    >
+      {title && (
+        <h3
+          style={{
+            margin: '0 0 12px',
+            fontSize: accent ? '18px' : '16px',
+            fontWeight: 600,
+            color: accent ? CALLOUT_ACCENTS[accent] : EMAIL_COLORS.heading,
+          }}
+        >
+          {title}
+        </h3>
+      )}
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Label / value table
+ */
+export function EmailDetails({ rows }: { rows: Array<[label: string, value: ReactNode]> }) {
+  return (
+    <table style={{ width: '100%', color: EMAIL_COLORS.text, fontSize: '14px', lineHeight: 1.8 }}>
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label}>
+            <td style={{ padding: '4px 12px 4px 0' }}>
+              <strong>{label}:</strong>
+            </td>
+            <td style={{ padding: '4px 0' }}>{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
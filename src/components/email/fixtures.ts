@@ -0,0 +1,110 @@
+/**
+ * Email Template Fixtures
+ * Example props for every registered template, used by the `/admin/emails`
+ * preview gallery and the template snapshot tests
+ */
+
+import type { EmailTemplateName, EmailTemplateProps } from '@/lib/email-templates';
+
+const EXAMPLE_URL = 'https://ai-born.org';
+
+export const emailTemplateFixtures: { [N in EmailTemplateName]: EmailTemplateProps<N> } = {
+  excerpt: {
+    downloadUrl: `${EXAMPLE_URL}/assets/ai-born-excerpt.pdf`,
+  },
+  'bonus-pack': {
+    claimId: 'claim_8f2k1',
+    downloadUrls: {
+      fullPack: `${EXAMPLE_URL}/api/bonus/download/full-pack?token=example`,
+      agentCharterPack: `${EXAMPLE_URL}/api/bonus/download/agent-charter-pack?token=example`,
+      coiDiagnostic: `${EXAMPLE_URL}/api/bonus/download/coi-diagnostic?token=example`,
+      vpAgentTemplates: `${EXAMPLE_URL}/api/bonus/download/vp-agent-templates?token=example`,
+      subAgentLadders: `${EXAMPLE_URL}/api/bonus/download/sub-agent-ladders?token=example`,
+      escalationProtocols: `${EXAMPLE_URL}/api/bonus/download/escalation-protocols?token=example`,
+      implementationGuide: `${EXAMPLE_URL}/api/bonus/download/implementation-guide?token=example`,
+    },
+  },
+  'bonus-pack-legacy': {
+    orderId: 'ORD-20261019-0042',
+  },
+  'org-invite': {
+    orgName: 'Acme & Partners',
+    inviteLink: `${EXAMPLE_URL}/bulk/invite/abc123`,
+  },
+  'org-auto-join-digest': {
+    orgName: 'Acme & Partners',
+    domain: 'acme.example',
+    members: [
+      { name: 'Jordan Lee', email: 'jordan.lee@acme.example', role: 'Member' },
+      { name: null, email: 'procurement@acme.example', role: 'Viewer' },
+    ],
+    totalCount: 3,
+    membersUrl: `${EXAMPLE_URL}/org/org_4m2p`,
+  },
+  'org-domain-warning': {
+    orgName: 'Acme & Partners',
+    domain: 'acme.example',
+    recordName: '_aiborn-verify.acme.example',
+    recordValue: 'aiborn-verification=3f9a1c',
+    revokesAt: new Date('2026-10-26T15:00:00Z'),
+    final: false,
+    settingsUrl: `${EXAMPLE_URL}/org/org_4m2p`,
+  },
+  'org-domain-unverified': {
+    orgName: 'Acme & Partners',
+    domain: 'acme.example',
+    autoJoinPaused: true,
+    settingsUrl: `${EXAMPLE_URL}/org/org_4m2p`,
+  },
+  'bulk-order': {
+    email: 'procurement@acme.example',
+    name: 'Jordan Lee',
+    company: 'Acme & Partners',
+    quantity: 250,
+    format: 'hardcover',
+    distributionStrategy: 'multi-store',
+    timeline: 'within-3-months',
+    inquiryId: 'bulk_7xq2',
+  },
+  'magic-link': {
+    signInUrl: `${EXAMPLE_URL}/auth/verify?token=example-token`,
+  },
+  'media-request': {
+    name: 'Sam Rivera',
+    email: 'sam.rivera@press.example',
+    outlet: 'The Example Times',
+    requestType: 'Interview Request',
+    message: 'We are preparing a feature on AI-native organisations.\nWould the author be available next week?',
+    phone: '+1 212 555 0100',
+    deadline: new Date('2026-11-02T17:00:00Z'),
+    requestId: 'media_3k9d',
+    submittedAt: new Date('2026-10-19T14:30:00Z'),
+  },
+  'newsletter-confirmation': {
+    confirmUrl: `${EXAMPLE_URL}/newsletter/confirm?token=example-token`,
+  },
+  'newsletter-welcome': {
+    name: 'Alex',
+  },
+  'newsletter-issue': {
+    subject: 'Chapter 3 is live',
+    contentHtml:
+      '<h1 style="color: #fafafa;">Chapter 3 is live</h1><p style="color: #d1d5db;">The Human Cortex chapter is now available. <a href="https://ai-born.org/#excerpt" style="color: #00d9ff;">Read it here</a>.</p>',
+  },
+  'framework-teaser': {
+    name: 'Alex',
+  },
+  'preorder-reminder': {
+    name: 'Alex',
+    launchDate: new Date('2026-11-10T00:00:00Z'),
+    retailers: [
+      { id: 'amazon', name: 'Amazon', url: 'https://www.amazon.com/dp/example?utm_source=email&utm_medium=drip' },
+      { id: 'barnesnoble', name: 'Barnes & Noble', url: 'https://www.barnesandnoble.com/w/example' },
+      { id: 'walmart', name: 'Walmart', url: 'https://www.walmart.com/ip/example' },
+    ],
+  },
+  'account-deletion': {
+    name: 'Alex',
+    recoveryDeadline: new Date('2026-11-18T00:00:00Z'),
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * Account Deletion Email
+ * Confirms a deletion request and the 30-day recovery window
+ */
+
+import { EMAIL_COLORS, EmailCallout, EmailHeading, EmailLink, EmailList, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface AccountDeletionEmailProps {
+  name: string;
+  /** End of the recovery window */
+  recoveryDeadline: Date;
+}
+
+export function AccountDeletionEmail({ name, recoveryDeadline }: AccountDeletionEmailProps) {
+  const supportUrl = `${SITE_URL}/contact`;
+  const formattedDeadline = recoveryDeadline.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <>
+      <EmailHeading>Account Deletion Confirmed</EmailHeading>
+
+      <EmailText>{name ? `Hi ${name},` : 'Hello,'}</EmailText>
+
+      <EmailText>
+        We&apos;ve received your request to delete your <strong>AI-Born</strong> account. Your account has been
+        deactivated and scheduled for permanent deletion.
+      </EmailText>
+
+      <EmailCallout title="30-Day Recovery Period" accent="cyan" surface="panel">
+        <EmailText style={{ margin: '0 0 12px', fontSize: '14px' }}>
+          Your account will be soft-deleted immediately, but you have until <strong>{formattedDeadline}</strong> to
+          request account recovery.
+        </EmailText>
+        <EmailText style={{ margin: 0, fontSize: '14px' }}>
+          To recover your account within this 30-day period, please{' '}
+          <EmailLink href={supportUrl}>contact our support team</EmailLink>.
+        </EmailText>
+      </EmailCallout>
+
+      <EmailCallout title="What Happens Next" accent="amber">
+        <EmailList
+          items={[
+            <><strong>Immediate:</strong> Account deactivated, sign-in disabled</>,
+            <><strong>During grace period:</strong> Data retained for recovery</>,
+            <><strong>After {formattedDeadline}:</strong> Personal data permanently deleted</>,
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailCallout title="What Has Been Deleted:" surface="panel">
+        <EmailList
+          style={{ fontSize: '14px' }}
+          items={[
+            'Your profile information (name, email, preferences)',
+            'All entitlements and access to downloadable content',
+            'Newsletter subscription and communication preferences',
+            'Organisation memberships and shared plans',
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailCallout title="What Has Been Kept (Anonymized):" surface="panel">
+        <EmailList
+          style={{ margin: '0 0 12px', fontSize: '14px' }}
+          items={[
+            'Purchase history for accounting and legal compliance (disassociated from your identity)',
+            'Receipt verification records (anonymized, for fraud prevention)',
+          ]}
+        />
+        <EmailText tone="fine" style={{ margin: 0, color: EMAIL_COLORS.muted }}>
+          This complies with GDPR Article 17 (Right to Erasure) whilst maintaining necessary legal and accounting
+          records. For more details, see our <EmailLink href={`${SITE_URL}/privacy`}>Privacy Policy</EmailLink>.
+        </EmailText>
+      </EmailCallout>
+
+      <EmailCallout accent="gray">
+        <EmailText style={{ margin: '0 0 8px', fontSize: '14px' }}>
+          <strong>Didn&apos;t request this?</strong>
+        </EmailText>
+        <EmailText style={{ margin: 0, fontSize: '14px', color: EMAIL_COLORS.muted }}>
+          If you did not request account deletion, please{' '}
+          <EmailLink href={supportUrl}>contact support immediately</EmailLink> to secure your account.
+        </EmailText>
+      </EmailCallout>
+
+      <EmailText tone="muted">
+        We&apos;re sorry to see you go. If you have feedback on how we could have served you better, we&apos;d
+        appreciate hearing from you.
+      </EmailText>
+    </>
+  );
+}
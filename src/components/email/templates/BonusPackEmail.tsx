@@ -0,0 +1,95 @@
+/**
+ * Bonus Pack Email
+ * Sent when a pre-order claim is approved, with expiring download links
+ */
+
+import {
+  EMAIL_COLORS,
+  EmailButton,
+  EmailCallout,
+  EmailHeading,
+  EmailLink,
+  EmailList,
+  EmailText,
+  SITE_URL,
+} from '../EmailComponents';
+
+export interface BonusPackDownloadUrls {
+  fullPack: string;
+  agentCharterPack: string;
+  coiDiagnostic: string;
+  vpAgentTemplates: string;
+  subAgentLadders: string;
+  escalationProtocols: string;
+  implementationGuide: string;
+}
+
+export interface BonusPackEmailProps {
+  claimId: string;
+  downloadUrls: BonusPackDownloadUrls;
+}
+
+const COMPONENT_LINKS: Array<{ key: Exclude<keyof BonusPackDownloadUrls, 'fullPack'>; label: string }> = [
+  { key: 'agentCharterPack', label: 'Agent Charter Pack (PDF)' },
+  { key: 'coiDiagnostic', label: 'COI Diagnostic Tool (Excel)' },
+  { key: 'vpAgentTemplates', label: 'VP-Agent Templates (PDF)' },
+  { key: 'subAgentLadders', label: 'Sub-Agent Ladders (PDF)' },
+  { key: 'escalationProtocols', label: 'Escalation & Override Protocols (PDF)' },
+  { key: 'implementationGuide', label: 'Implementation Guide (PDF)' },
+];
+
+export function BonusPackEmail({ claimId, downloadUrls }: BonusPackEmailProps) {
+  return (
+    <>
+      <EmailHeading>Your Pre-order Bonus Pack is Ready</EmailHeading>
+
+      <EmailText>
+        Thank you for pre-ordering <strong>AI-Born</strong>. Your exclusive Agent Charter Pack and Cognitive
+        Overhead Index diagnostic are now available for download.
+      </EmailText>
+
+      <EmailCallout title="What's Included:" accent="cyan">
+        <EmailList
+          items={[
+            <><strong>Agent Charter Pack:</strong> VP-agent templates, sub-agent ladders, escalation/override protocols</>,
+            <><strong>Cognitive Overhead Index (COI):</strong> Interactive diagnostic tool (Excel/Google Sheets)</>,
+            <><strong>VP-Agent Templates:</strong> Ready-to-use templates for top-level autonomous agents</>,
+            <><strong>Sub-Agent Ladders:</strong> Hierarchical organization patterns and delegation protocols</>,
+            <><strong>Escalation Protocols:</strong> Human oversight frameworks and emergency intervention patterns</>,
+            <><strong>Implementation Guide:</strong> Step-by-step setup and deployment instructions</>,
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailButton href={downloadUrls.fullPack}>Download Complete Bonus Pack</EmailButton>
+
+      <EmailCallout title="Or download individual components:" surface="panel">
+        <table width="100%" cellPadding={4} cellSpacing={0}>
+          <tbody>
+            {COMPONENT_LINKS.map(({ key, label }) => (
+              <tr key={key}>
+                <td style={{ padding: '4px 0', fontSize: '14px' }}>
+                  <EmailLink href={downloadUrls[key]}>{label}</EmailLink>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </EmailCallout>
+
+      <EmailCallout accent="amber" surface="panel">
+        <EmailText style={{ margin: 0, fontSize: '14px' }}>
+          <strong style={{ color: EMAIL_COLORS.amber }}>Important:</strong> These download links expire in 24 hours
+          for security. Save the files to your device now. If your links expire, you can request new ones by
+          contacting support.
+        </EmailText>
+      </EmailCallout>
+
+      <EmailText tone="muted">
+        <strong>Claim ID:</strong> {claimId}
+        <br />
+        Questions? Reply to this email or visit our <EmailLink href={`${SITE_URL}/faq`}>FAQ</EmailLink>.
+      </EmailText>
+    </>
+  );
+}
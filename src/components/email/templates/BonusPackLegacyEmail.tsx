@@ -0,0 +1,46 @@
+/**
+ * Bonus Pack Email (legacy)
+ * Static asset links, kept for `sendBonusPackEmailLegacy`
+ *
+ * @deprecated Use BonusPackEmail with signed download URLs instead
+ */
+
+import { EmailButton, EmailCallout, EmailHeading, EmailLink, EmailList, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface BonusPackLegacyEmailProps {
+  orderId: string;
+}
+
+export function BonusPackLegacyEmail({ orderId }: BonusPackLegacyEmailProps) {
+  return (
+    <>
+      <EmailHeading>Your Pre-order Bonus Pack is Here</EmailHeading>
+
+      <EmailText>
+        Thank you for pre-ordering <strong>AI-Born</strong>. Your exclusive Agent Charter Pack and Cognitive
+        Overhead Index diagnostic are ready for download.
+      </EmailText>
+
+      <EmailCallout title="What's Included:" accent="cyan">
+        <EmailList
+          items={[
+            <><strong>Agent Charter Pack:</strong> VP-agent templates, sub-agent ladders, escalation/override protocols</>,
+            <><strong>Cognitive Overhead Index (COI):</strong> Interactive diagnostic tool (Excel/Google Sheets)</>,
+            <><strong>Implementation Guide:</strong> Step-by-step setup instructions</>,
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailButton href={`${SITE_URL}/assets/ai-born-bonus-pack.zip`}>Download Agent Charter Pack</EmailButton>
+      <EmailButton href={`${SITE_URL}/assets/cognitive-overhead-index.xlsx`} variant="secondary" padding="12px 0 0">
+        Download COI Diagnostic Tool
+      </EmailButton>
+
+      <EmailText tone="muted">
+        <strong>Order ID:</strong> {orderId}
+        <br />
+        Questions? Reply to this email or visit our <EmailLink href={`${SITE_URL}/faq`}>FAQ</EmailLink>.
+      </EmailText>
+    </>
+  );
+}
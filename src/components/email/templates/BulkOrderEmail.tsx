@@ -0,0 +1,100 @@
+/**
+ * Bulk Order Email
+ * Confirms a corporate / bulk order inquiry to the requester
+ */
+
+import {
+  EMAIL_COLORS,
+  EmailCallout,
+  EmailDetails,
+  EmailHeading,
+  EmailLink,
+  EmailList,
+  EmailText,
+  SITE_URL,
+} from '../EmailComponents';
+
+export interface BulkOrderEmailProps {
+  email: string;
+  name: string;
+  company: string;
+  quantity: number;
+  format?: string;
+  distributionStrategy?: string;
+  timeline?: string;
+  inquiryId: string;
+}
+
+export function BulkOrderEmail({
+  email,
+  company,
+  quantity,
+  format,
+  distributionStrategy,
+  timeline,
+  inquiryId,
+}: BulkOrderEmailProps) {
+  const isNYTEligible = distributionStrategy === 'multi-store';
+  const formatLabel = format ? format.charAt(0).toUpperCase() + format.slice(1) : 'Hardcover';
+  const timelineLabel = timeline
+    ? timeline.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase())
+    : 'Flexible';
+
+  return (
+    <>
+      <EmailHeading>Bulk Order Inquiry Received</EmailHeading>
+
+      <EmailText>
+        Thank you for your interest in bulk orders of <strong>AI-Born</strong>. We&apos;ve received your inquiry and
+        our sales team will contact you within 24-48 hours.
+      </EmailText>
+
+      <EmailCallout title="Inquiry Details:" accent="cyan">
+        <EmailDetails
+          rows={[
+            ['Inquiry ID', inquiryId],
+            ['Organisation', company],
+            ['Quantity', `${quantity} copies`],
+            ['Format', formatLabel],
+            ['Timeline', timelineLabel],
+          ]}
+        />
+      </EmailCallout>
+
+      {isNYTEligible ? (
+        <EmailCallout title="NYT Bestseller List Eligibility" accent="amber">
+          <EmailText style={{ margin: 0, fontSize: '14px' }}>
+            You&apos;ve selected <strong>multi-store distribution</strong>, which supports NYT bestseller list
+            eligibility. Our team will coordinate:
+          </EmailText>
+          <EmailList
+            style={{ margin: '12px 0 0', fontSize: '14px' }}
+            items={[
+              'Distributed purchases across multiple retailers and locations',
+              'Regional store partnerships for coordinated fulfillment',
+              'Multi-store invoicing that complies with NYT reporting standards',
+            ]}
+          />
+        </EmailCallout>
+      ) : (
+        <EmailCallout title="NYT List Eligibility Information" accent="gray">
+          <EmailText style={{ margin: 0, fontSize: '14px', color: EMAIL_COLORS.muted }}>
+            For NYT bestseller list eligibility, we recommend coordinating bulk orders through multiple retailers and
+            locations. Our sales team can provide guidance on distributed fulfillment strategies.
+          </EmailText>
+        </EmailCallout>
+      )}
+
+      <EmailText tone="muted">
+        <strong>Next Steps:</strong>
+        <br />
+        Our sales team will contact you at <strong>{email}</strong> within 1-2 business days to discuss pricing,
+        distribution options, and fulfillment logistics.
+      </EmailText>
+
+      <EmailText tone="muted" style={{ marginTop: '16px' }}>
+        Questions? Reply to this email or visit our <EmailLink href={`${SITE_URL}/contact`}>contact page</EmailLink>.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Excerpt Email
+ * Sent when a reader requests the free chapter
+ */
+
+import { EmailButton, EmailHeading, EmailLink, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface ExcerptEmailProps {
+  downloadUrl: string;
+}
+
+export function ExcerptEmail({ downloadUrl }: ExcerptEmailProps) {
+  return (
+    <>
+      <EmailHeading>Your Free Excerpt is Ready</EmailHeading>
+
+      <EmailText>
+        Thank you for your interest in <strong>AI-Born</strong>. Your complimentary chapter is ready to download.
+      </EmailText>
+
+      <EmailText style={{ marginBottom: '24px' }}>
+        This excerpt introduces the Five Planes framework—the architectural blueprint for organisations where
+        autonomous agents execute, learn, and adapt, whilst humans provide intent, judgement, and taste.
+      </EmailText>
+
+      <EmailButton href={downloadUrl}>Download Your Excerpt</EmailButton>
+
+      <EmailText tone="muted">
+        Prefer to pre-order now? The book is available in hardcover, eBook, and audiobook formats from{' '}
+        <EmailLink href={`${SITE_URL}/#retailers`}>all major retailers</EmailLink>.
+      </EmailText>
+    </>
+  );
+}
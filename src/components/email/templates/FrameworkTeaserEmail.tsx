@@ -0,0 +1,49 @@
+/**
+ * Framework Teaser Email
+ * Drip step a few days after the excerpt: a closer look at the book's
+ * frameworks and the pre-order bonus
+ */
+
+import { EmailButton, EmailCallout, EmailHeading, EmailLink, EmailList, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface FrameworkTeaserEmailProps {
+  name?: string;
+}
+
+export function FrameworkTeaserEmail({ name }: FrameworkTeaserEmailProps) {
+  return (
+    <>
+      <EmailHeading>Inside the Frameworks</EmailHeading>
+
+      <EmailText>{name ? `Hi ${name},` : 'Hello,'}</EmailText>
+
+      <EmailText>
+        The excerpt introduced the Five Planes. The full book turns them into working tools for leaders redesigning
+        their organisations around autonomous agents:
+      </EmailText>
+
+      <EmailCallout title="What You'll Put to Work" accent="cyan">
+        <EmailList
+          items={[
+            <><strong>The Machine Core and the Human Cortex:</strong> what agents own, and where human intent, judgement and taste stay in charge</>,
+            <><strong>Agent Charters:</strong> mandates, limits and escalation paths for VP-agents and their sub-agents</>,
+            <><strong>Cognitive Overhead Index (COI):</strong> a diagnostic for where coordination cost is holding your teams back</>,
+            <><strong>Defensibility:</strong> what still compounds when every competitor has the same models</>,
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailText style={{ marginBottom: '24px' }}>
+        Pre-order now and claim the <strong>Agent Charter Pack</strong>: templates, ladders and override protocols you
+        can adapt on day one.
+      </EmailText>
+
+      <EmailButton href={`${SITE_URL}/#retailers`}>Pre-order AI-Born</EmailButton>
+
+      <EmailText tone="muted">
+        Already ordered? <EmailLink href={`${SITE_URL}/bonus-pack`}>Upload your receipt</EmailLink> to claim your
+        bonus pack.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Magic Link Email
+ * Passwordless sign-in link
+ */
+
+import { EmailButton, EmailHeading, EmailText } from '../EmailComponents';
+
+export interface MagicLinkEmailProps {
+  signInUrl: string;
+}
+
+export function MagicLinkEmail({ signInUrl }: MagicLinkEmailProps) {
+  return (
+    <>
+      <EmailHeading>Your Sign-in Link</EmailHeading>
+
+      <EmailText>
+        Click the button below to securely sign in to your AI-Born account. This link will expire in 15 minutes.
+      </EmailText>
+
+      <EmailButton href={signInUrl} padding="24px 0">
+        Sign In to AI-Born
+      </EmailButton>
+
+      <EmailText tone="muted" style={{ margin: 0 }}>
+        If you didn&apos;t request this link, you can safely ignore this email.
+      </EmailText>
+
+      <EmailText tone="fine">
+        For security reasons, this link can only be used once and expires in 15 minutes.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Media Request Email
+ * Internal notification to the PR team for a journalist / media request
+ */
+
+import { EMAIL_COLORS, EmailButton, EmailCallout, EmailLink, EmailList, EmailText } from '../EmailComponents';
+
+export interface MediaRequestEmailProps {
+  name: string;
+  email: string;
+  outlet: string;
+  /** Display label, e.g. "Interview Request" */
+  requestType: string;
+  message: string;
+  phone?: string;
+  deadline?: Date;
+  requestId: string;
+  submittedAt: Date;
+}
+
+const TIME_ZONE = 'America/New_York';
+
+const labelStyle = {
+  padding: '8px 12px',
+  fontWeight: 600,
+  color: EMAIL_COLORS.cyan,
+  borderBottom: `1px solid ${EMAIL_COLORS.border}`,
+};
+
+const valueStyle = {
+  padding: '8px 12px',
+  color: EMAIL_COLORS.text,
+  borderBottom: `1px solid ${EMAIL_COLORS.border}`,
+};
+
+export function MediaRequestEmail({
+  name,
+  email,
+  outlet,
+  requestType,
+  message,
+  phone,
+  deadline,
+  requestId,
+  submittedAt,
+}: MediaRequestEmailProps) {
+  return (
+    <>
+      <div
+        style={{
+          backgroundColor: EMAIL_COLORS.panel,
+          borderLeft: `4px solid ${EMAIL_COLORS.amber}`,
+          padding: '16px',
+          marginBottom: '24px',
+        }}
+      >
+        <h2 style={{ margin: '0 0 4px', fontSize: '20px', fontWeight: 600, color: EMAIL_COLORS.amber }}>
+          New Media Request
+        </h2>
+        <p style={{ margin: 0, fontSize: '14px', color: EMAIL_COLORS.muted }}>Request ID: {requestId}</p>
+      </div>
+
+      <table
+        width="100%"
+        cellPadding={0}
+        cellSpacing={0}
+        style={{ marginBottom: '24px', border: `1px solid ${EMAIL_COLORS.border}` }}
+      >
+        <tbody>
+          <tr>
+            <td style={labelStyle}>Contact Name:</td>
+            <td style={valueStyle}>{name}</td>
+          </tr>
+          <tr>
+            <td style={labelStyle}>Email:</td>
+            <td style={valueStyle}>
+              <EmailLink href={`mailto:${email}`}>{email}</EmailLink>
+            </td>
+          </tr>
+          {phone && (
+            <tr>
+              <td style={labelStyle}>Phone:</td>
+              <td style={valueStyle}>
+                <EmailLink href={`tel:${phone}`}>{phone}</EmailLink>
+              </td>
+            </tr>
+          )}
+          <tr>
+            <td style={labelStyle}>Outlet/Publication:</td>
+            <td style={valueStyle}>{outlet}</td>
+          </tr>
+          <tr>
+            <td style={labelStyle}>Request Type:</td>
+            <td style={valueStyle}>{requestType}</td>
+          </tr>
+          {deadline && (
+            <tr>
+              <td style={{ padding: '8px 12px', fontWeight: 600, color: EMAIL_COLORS.amber }}>Deadline:</td>
+              <td style={{ padding: '8px 12px', color: EMAIL_COLORS.text }}>
+                {deadline.toLocaleDateString('en-GB', {
+                  weekday: 'long',
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  timeZone: TIME_ZONE,
+                  timeZoneName: 'short',
+                })}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <EmailCallout title="Message:">
+        <EmailText style={{ margin: 0, fontSize: '14px', whiteSpace: 'pre-wrap' }}>{message}</EmailText>
+      </EmailCallout>
+
+      <EmailCallout surface="panel">
+        <EmailText tone="muted" style={{ margin: '0 0 12px' }}>
+          <strong>Recommended Actions:</strong>
+        </EmailText>
+        <EmailList
+          items={[
+            'Respond within 24-48 hours for optimal media relations',
+            'For galley/review copy requests: Verify outlet credentials before sending',
+            "For interview requests: Coordinate with author's calendar",
+            'Track this request in your CRM/PR management system',
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailButton href={`mailto:${email}?subject=Re: AI-Born Media Request (${requestId})`}>
+        Reply to {name}
+      </EmailButton>
+
+      <EmailText tone="fine" style={{ marginTop: '24px', textAlign: 'center' }}>
+        This request was submitted via the AI-Born media request form at{' '}
+        {submittedAt.toLocaleString('en-GB', { timeZone: TIME_ZONE })} EST
+      </EmailText>
+    </>
+  );
+}
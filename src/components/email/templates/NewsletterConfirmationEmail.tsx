@@ -0,0 +1,46 @@
+/**
+ * Newsletter Confirmation Email
+ * Double opt-in confirmation link
+ */
+
+import { EmailButton, EmailHeading, EmailList, EmailText } from '../EmailComponents';
+
+export interface NewsletterConfirmationEmailProps {
+  confirmUrl: string;
+}
+
+export function NewsletterConfirmationEmail({ confirmUrl }: NewsletterConfirmationEmailProps) {
+  return (
+    <>
+      <EmailHeading>Confirm Your Subscription</EmailHeading>
+
+      <EmailText>
+        Thank you for subscribing to the <strong>AI-Born</strong> newsletter. To complete your subscription and
+        receive updates about the book launch, please confirm your email address.
+      </EmailText>
+
+      <EmailButton href={confirmUrl} padding="24px 0">
+        Confirm Subscription
+      </EmailButton>
+
+      <EmailText tone="muted" style={{ margin: '0 0 16px' }}>
+        By confirming, you&apos;ll receive:
+      </EmailText>
+
+      <EmailList
+        style={{ margin: '0 0 24px' }}
+        items={[
+          'Launch announcements and pre-order updates',
+          'Exclusive excerpts and early access content',
+          'Speaking event invitations',
+          'Insights on AI-native organisation design',
+        ]}
+      />
+
+      <EmailText tone="fine" style={{ margin: 0 }}>
+        If you didn&apos;t request this subscription, you can safely ignore this email. This confirmation link will
+        expire in 7 days.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Newsletter Issue Email
+ * Wraps a campaign body rendered from MDX (see `@/lib/newsletter-content`)
+ */
+
+export interface NewsletterIssueEmailProps {
+  subject: string;
+  /** Rendered, admin-authored body HTML */
+  contentHtml: string;
+}
+
+export function NewsletterIssueEmail({ contentHtml }: NewsletterIssueEmailProps) {
+  return <div dangerouslySetInnerHTML={{ __html: contentHtml }} />;
+}
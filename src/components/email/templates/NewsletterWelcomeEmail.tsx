@@ -0,0 +1,38 @@
+/**
+ * Newsletter Welcome Email
+ * Sent once a subscription is confirmed
+ */
+
+import { EmailCallout, EmailHeading, EmailLink, EmailList, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface NewsletterWelcomeEmailProps {
+  name?: string;
+}
+
+export function NewsletterWelcomeEmail({ name }: NewsletterWelcomeEmailProps) {
+  return (
+    <>
+      <EmailHeading>{name ? `Hi ${name}` : 'Welcome'}, You&apos;re Confirmed</EmailHeading>
+
+      <EmailText>
+        Welcome to the <strong>AI-Born</strong> community. You&apos;re now on the list for launch updates, exclusive
+        insights, and early access to content about building AI-native organisations.
+      </EmailText>
+
+      <EmailCallout title="What's Next?" accent="cyan">
+        <EmailList
+          items={[
+            <>Read a <EmailLink href={`${SITE_URL}/#excerpt`}>free sample chapter</EmailLink></>,
+            <><EmailLink href={`${SITE_URL}/#retailers`}>Pre-order your copy</EmailLink> (hardcover, eBook, or audiobook)</>,
+            'Stay tuned for launch announcements and bonus content',
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailText tone="muted">
+        We&apos;ll send occasional updates leading up to the launch. No spam, no daily emails—just the important
+        stuff.
+      </EmailText>
+    </>
+  );
+}
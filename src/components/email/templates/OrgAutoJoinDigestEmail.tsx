@@ -0,0 +1,65 @@
+/**
+ * Organisation Auto-Join Digest Email
+ * Tells organisation owners who joined through their verified email domain
+ */
+
+import { EmailButton, EmailCallout, EmailHeading, EmailList, EmailText } from '../EmailComponents';
+
+export interface AutoJoinedMemberSummary {
+  name: string | null;
+  email: string;
+  /** Display label, e.g. "Member" */
+  role: string;
+}
+
+export interface OrgAutoJoinDigestEmailProps {
+  orgName: string;
+  domain: string;
+  /** Listed members (may be truncated) */
+  members: AutoJoinedMemberSummary[];
+  /** All members covered by this digest */
+  totalCount: number;
+  membersUrl: string;
+}
+
+export function OrgAutoJoinDigestEmail({
+  orgName,
+  domain,
+  members,
+  totalCount,
+  membersUrl,
+}: OrgAutoJoinDigestEmailProps) {
+  const hidden = totalCount - members.length;
+
+  return (
+    <>
+      <EmailHeading>
+        {totalCount === 1 ? '1 person' : `${totalCount} people`} joined {orgName}
+      </EmailHeading>
+
+      <EmailText>
+        Domain auto-join is on for <strong>{domain}</strong>, so anyone who signs in with a verified @{domain} email
+        is added to {orgName} automatically.
+      </EmailText>
+
+      <EmailCallout title="New members" surface="panel">
+        <EmailList
+          items={[
+            ...members.map(
+              (member) => `${member.name ? `${member.name} (${member.email})` : member.email} · ${member.role}`
+            ),
+            ...(hidden > 0 ? [`and ${hidden} more`] : []),
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailButton href={membersUrl} padding="0 0 24px">
+        Review Members
+      </EmailButton>
+
+      <EmailText tone="muted">
+        You can change roles or remove members from the organisation page, and turn off auto-join in its settings.
+      </EmailText>
+    </>
+  );
+}
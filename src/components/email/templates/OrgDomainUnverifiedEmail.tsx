@@ -0,0 +1,48 @@
+/**
+ * Organisation Domain Unverified Email
+ * Tells organisation owners their domain verification was revoked
+ */
+
+import { EmailButton, EmailHeading, EmailText } from '../EmailComponents';
+
+export interface OrgDomainUnverifiedEmailProps {
+  orgName: string;
+  domain: string;
+  /** Whether domain auto-join was on (and is now paused) */
+  autoJoinPaused: boolean;
+  settingsUrl: string;
+}
+
+export function OrgDomainUnverifiedEmail({
+  orgName,
+  domain,
+  autoJoinPaused,
+  settingsUrl,
+}: OrgDomainUnverifiedEmailProps) {
+  return (
+    <>
+      <EmailHeading>{domain} is no longer verified</EmailHeading>
+
+      <EmailText>
+        The DNS record proving that {orgName} owns <strong>{domain}</strong> stayed missing through the grace period,
+        so we have removed the domain&apos;s verification.
+      </EmailText>
+
+      {autoJoinPaused && (
+        <EmailText>
+          Domain auto-join is paused: people signing in with an @{domain} email are no longer added to {orgName}.
+          Existing members keep their access.
+        </EmailText>
+      )}
+
+      <EmailButton href={settingsUrl} padding="0 0 24px">
+        Verify Domain Again
+      </EmailButton>
+
+      <EmailText tone="muted">
+        Add the TXT record shown in your organisation settings and verify again; auto-join resumes once the domain is
+        verified.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Organisation Domain Warning Email
+ * Tells organisation owners their domain's verification record has gone missing
+ */
+
+import { EmailButton, EmailCallout, EmailDetails, EmailHeading, EmailText } from '../EmailComponents';
+
+export interface OrgDomainWarningEmailProps {
+  orgName: string;
+  domain: string;
+  /** TXT record host, e.g. "_aiborn-verify.acme.example" */
+  recordName: string;
+  recordValue: string;
+  /** When verification is revoked if the record is still missing */
+  revokesAt: Date;
+  /** Last warning before revocation */
+  final: boolean;
+  settingsUrl: string;
+}
+
+export function OrgDomainWarningEmail({
+  orgName,
+  domain,
+  recordName,
+  recordValue,
+  revokesAt,
+  final,
+  settingsUrl,
+}: OrgDomainWarningEmailProps) {
+  const formattedDeadline = revokesAt.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <>
+      <EmailHeading>
+        {final ? 'Final notice: ' : ''}
+        {domain} verification record not found
+      </EmailHeading>
+
+      <EmailText>
+        We re-check verified domains regularly, and the DNS record proving that {orgName} owns{' '}
+        <strong>{domain}</strong> is no longer there.
+      </EmailText>
+
+      <EmailText>
+        Unless the record is restored by <strong>{formattedDeadline}</strong>, the domain will be unverified and
+        domain auto-join will stop adding new members.
+      </EmailText>
+
+      <EmailCallout title="Restore this TXT record" accent="amber" surface="panel">
+        <EmailDetails
+          rows={[
+            ['Type', 'TXT'],
+            ['Name', recordName],
+            ['Value', recordValue],
+          ]}
+        />
+      </EmailCallout>
+
+      <EmailButton href={settingsUrl} padding="0 0 24px">
+        Review Domain Settings
+      </EmailButton>
+
+      <EmailText tone="muted">
+        If {domain} no longer belongs to {orgName}, no action is needed; existing members keep their access.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Organisation Invite Email
+ * Invites a colleague into a coordinated bulk pre-order
+ */
+
+import { EmailButton, EmailHeading, EmailText } from '../EmailComponents';
+
+export interface OrgInviteEmailProps {
+  orgName: string;
+  inviteLink: string;
+}
+
+export function OrgInviteEmail({ orgName, inviteLink }: OrgInviteEmailProps) {
+  return (
+    <>
+      <EmailHeading>Bulk Order Invitation from {orgName}</EmailHeading>
+
+      <EmailText>
+        You&apos;ve been invited to participate in a bulk pre-order of <strong>AI-Born</strong> coordinated by{' '}
+        {orgName}.
+      </EmailText>
+
+      <EmailText style={{ marginBottom: '24px' }}>
+        To support NYT bestseller list eligibility, this order is being distributed across multiple retailers and
+        locations. Click below to select your preferred retailer and complete your purchase.
+      </EmailText>
+
+      <EmailButton href={inviteLink}>View Order Details</EmailButton>
+
+      <EmailText tone="muted">
+        This invitation expires in 7 days. Questions? Contact your organisation coordinator or reply to this email.
+      </EmailText>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Pre-order Reminder Email
+ * Launch-week drip step with retailer links for the reader's region
+ */
+
+import { EMAIL_COLORS, EmailCallout, EmailHeading, EmailLink, EmailText, SITE_URL } from '../EmailComponents';
+
+export interface PreorderRetailerLink {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface PreorderReminderEmailProps {
+  name?: string;
+  /** Publication date; omitted while it is unannounced */
+  launchDate?: Date;
+  /** Retailers available in the reader's region, in display order */
+  retailers: PreorderRetailerLink[];
+}
+
+export function PreorderReminderEmail({ name, launchDate, retailers }: PreorderReminderEmailProps) {
+  const formattedLaunchDate = launchDate?.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <>
+      <EmailHeading>AI-Born Launches {formattedLaunchDate ? `on ${formattedLaunchDate}` : 'This Week'}</EmailHeading>
+
+      <EmailText>{name ? `Hi ${name},` : 'Hello,'}</EmailText>
+
+      <EmailText>
+        Launch week is here. Pre-orders placed before publication count toward launch-week rankings, and they come
+        with the <strong>Agent Charter Pack</strong> and Cognitive Overhead Index diagnostic.
+      </EmailText>
+
+      <EmailCallout title="Pre-order from your preferred retailer" accent="cyan">
+        <table width="100%" cellPadding={0} cellSpacing={0}>
+          <tbody>
+            {retailers.map((retailer) => (
+              <tr key={retailer.id}>
+                <td style={{ padding: '6px 0', fontSize: '16px' }}>
+                  <a
+                    href={retailer.url}
+                    style={{ color: EMAIL_COLORS.cyan, fontWeight: 600, textDecoration: 'none' }}
+                  >
+                    {retailer.name} →
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </EmailCallout>
+
+      <EmailText>
+        Once you&apos;ve ordered, <EmailLink href={`${SITE_URL}/bonus-pack`}>upload your receipt</EmailLink> and
+        we&apos;ll send your bonus pack.
+      </EmailText>
+
+      <EmailText tone="muted">
+        Looking for a different format or region? See <EmailLink href={`${SITE_URL}/#retailers`}>every retailer</EmailLink>.
+      </EmailText>
+    </>
+  );
+}
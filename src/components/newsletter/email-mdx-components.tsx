@@ -0,0 +1,64 @@
+import type { ComponentPropsWithoutRef } from 'react';
+
+/**
+ * MDX components for newsletter issues
+ *
+ * Email clients ignore stylesheets, so every element carries inline styles
+ * matching the branded email layout in `@/lib/email`.
+ */
+
+const TEXT_COLOR = '#d1d5db';
+const HEADING_COLOR = '#fafafa';
+const ACCENT_COLOR = '#00d9ff';
+
+export const emailMdxComponents = {
+  h1: (props: ComponentPropsWithoutRef<'h1'>) => (
+    <h1 style={{ margin: '0 0 20px', fontSize: '28px', fontWeight: 700, color: HEADING_COLOR }} {...props} />
+  ),
+  h2: (props: ComponentPropsWithoutRef<'h2'>) => (
+    <h2 style={{ margin: '32px 0 16px', fontSize: '24px', fontWeight: 600, color: HEADING_COLOR }} {...props} />
+  ),
+  h3: (props: ComponentPropsWithoutRef<'h3'>) => (
+    <h3 style={{ margin: '24px 0 12px', fontSize: '18px', fontWeight: 600, color: ACCENT_COLOR }} {...props} />
+  ),
+  p: (props: ComponentPropsWithoutRef<'p'>) => (
+    <p style={{ margin: '0 0 16px', fontSize: '16px', lineHeight: 1.6, color: TEXT_COLOR }} {...props} />
+  ),
+  a: ({ children, ...props }: ComponentPropsWithoutRef<'a'>) => (
+    <a style={{ color: ACCENT_COLOR, textDecoration: 'underline' }} {...props}>
+      {children}
+    </a>
+  ),
+  ul: (props: ComponentPropsWithoutRef<'ul'>) => (
+    <ul style={{ margin: '0 0 16px', paddingLeft: '20px', color: TEXT_COLOR, lineHeight: 1.8 }} {...props} />
+  ),
+  ol: (props: ComponentPropsWithoutRef<'ol'>) => (
+    <ol style={{ margin: '0 0 16px', paddingLeft: '20px', color: TEXT_COLOR, lineHeight: 1.8 }} {...props} />
+  ),
+  blockquote: (props: ComponentPropsWithoutRef<'blockquote'>) => (
+    <blockquote
+      style={{
+        margin: '24px 0',
+        padding: '16px 20px',
+        backgroundColor: '#0a0a0f',
+        borderLeft: `4px solid ${ACCENT_COLOR}`,
+        borderRadius: '8px',
+        color: TEXT_COLOR,
+      }}
+      {...props}
+    />
+  ),
+  hr: (props: ComponentPropsWithoutRef<'hr'>) => (
+    <hr style={{ margin: '32px 0', border: 'none', borderTop: '1px solid #374151' }} {...props} />
+  ),
+  img: (props: ComponentPropsWithoutRef<'img'>) => (
+    // eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text
+    <img style={{ maxWidth: '100%', height: 'auto', borderRadius: '8px' }} {...props} />
+  ),
+  code: (props: ComponentPropsWithoutRef<'code'>) => (
+    <code
+      style={{ padding: '2px 6px', backgroundColor: '#0a0a0f', borderRadius: '4px', fontSize: '14px', color: ACCENT_COLOR }}
+      {...props}
+    />
+  ),
+};
@@ -0,0 +1,108 @@
+/**
+ * Domain Verification History Component
+ * Current domain status and the recent verification and re-check events
+ */
+
+'use client';
+
+import { AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import type { Org, OrgDomainEvent, OrgDomainEventType } from '@prisma/client';
+
+interface DomainVerificationHistoryProps {
+  org: Org;
+  events: OrgDomainEvent[];
+  /** When verification is revoked if the record stays missing */
+  revokesAt: Date | null;
+}
+
+const EVENT_LABELS: Record<OrgDomainEventType, string> = {
+  VERIFIED: 'Verified',
+  CHECK_FAILED: 'Re-check failed',
+  CHECK_RECOVERED: 'Record restored',
+  UNVERIFIED: 'Unverified',
+};
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function EventIcon({ type }: { type: OrgDomainEventType }) {
+  switch (type) {
+    case 'VERIFIED':
+    case 'CHECK_RECOVERED':
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'CHECK_FAILED':
+      return <AlertCircle className="h-4 w-4 text-amber-600" />;
+    default:
+      return <XCircle className="h-4 w-4 text-destructive" />;
+  }
+}
+
+export function DomainVerificationHistory({ org, events, revokesAt }: DomainVerificationHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Domain Verification</CardTitle>
+            <CardDescription>
+              {org.domain} is re-checked daily while verified
+            </CardDescription>
+          </div>
+          {org.domainVerified ? (
+            <Badge variant={revokesAt ? 'outline' : 'default'}>
+              {revokesAt ? 'Record missing' : 'Verified'}
+            </Badge>
+          ) : (
+            <Badge variant="outline">Not verified</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revokesAt && (
+          <p className="text-sm text-amber-600">
+            The verification TXT record was not found. Restore it before {formatDate(revokesAt)} or the domain
+            will be unverified and auto-join paused.
+          </p>
+        )}
+
+        {org.domainVerified && org.domainCheckedAt && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            Last checked {formatDate(org.domainCheckedAt)}
+          </p>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No verification history yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-start gap-3">
+                <EventIcon type={event.type} />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">
+                    {EVENT_LABELS[event.type]}
+                    {event.domain !== org.domain && (
+                      <span className="text-muted-foreground"> ({event.domain})</span>
+                    )}
+                  </p>
+                  {event.reason && (
+                    <p className="text-sm text-muted-foreground">{event.reason}</p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatDate(event.createdAt)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Invite Response Component
+ * Accept and decline buttons for an organization invite
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+
+interface InviteResponseProps {
+  token: string;
+  orgName: string;
+  /** Accepting needs a session with the invited email; declining does not */
+  canAccept: boolean;
+}
+
+export function InviteResponse({ token, orgName, canAccept }: InviteResponseProps) {
+  const [pending, setPending] = useState<'accept' | 'decline' | null>(null);
+  const [declined, setDeclined] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setPending(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/orgs/invites/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = (await response.json()) as { success: boolean; orgId?: string; error?: string };
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Something went wrong. Please try again.');
+        return;
+      }
+
+      if (action === 'accept') {
+        window.location.href = `/org/${data.orgId}`;
+        return;
+      }
+
+      setDeclined(true);
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (declined) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You declined the invite to join {orgName}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-3">
+        {canAccept && (
+          <Button onClick={() => respond('accept')} disabled={pending !== null}>
+            {pending === 'accept' ? 'Joining...' : `Join ${orgName}`}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => respond('decline')}
+          disabled={pending !== null}
+        >
+          {pending === 'decline' ? 'Declining...' : 'Decline'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * Member List Component
- * Displays and manages organization members
+ * Displays and manages organization members, and for owners and admins
+ * the invites not yet accepted
  */
 
 'use client';
@@ -10,12 +11,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { UserPlus, MoreVertical, Shield, User, Eye } from 'lucide-react';
-import type { OrgMemberWithUser, OrgPermissions } from '@/types/organization';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { UserPlus, MoreVertical, Shield, User, Eye, Mail } from 'lucide-react';
+import type {
+  AddMemberResponse,
+  InviteActionResponse,
+  OrgMemberRole,
+  OrgMemberWithUser,
+  OrgPermissions,
+  PendingOrgInvite,
+} from '@/types/organization';
 
 interface MemberListProps {
   orgId: string;
   members: OrgMemberWithUser[];
+  /** Only passed to members who can invite */
+  pendingInvites?: PendingOrgInvite[];
   permissions: OrgPermissions;
   currentUserId: string;
 }
@@ -23,10 +35,79 @@ interface MemberListProps {
 export function MemberList({
   orgId,
   members,
+  pendingInvites = [],
   permissions,
   currentUserId,
 }: MemberListProps) {
   const [isAddingMember, setIsAddingMember] = useState(false);
+  const [invites, setInvites] = useState<PendingOrgInvite[]>(pendingInvites);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrgMemberRole>('MEMBER');
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [notice, setNotice] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const inviteRoles: OrgMemberRole[] = permissions.canManageOrg
+    ? ['MEMBER', 'VIEWER', 'ADMIN', 'OWNER']
+    : ['MEMBER', 'VIEWER', 'ADMIN'];
+
+  const sendInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSending(true);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/orgs/${orgId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      const data = (await response.json()) as AddMemberResponse & { error?: string };
+
+      if (!response.ok || !data.success) {
+        setNotice({ tone: 'error', text: data.error || 'Failed to send invite' });
+        return;
+      }
+
+      setInvites((current) => [data.invite, ...current.filter((invite) => invite.id !== data.invite.id)]);
+      setInviteEmail('');
+      setIsAddingMember(false);
+      setNotice({ tone: 'success', text: data.message });
+    } catch {
+      setNotice({ tone: 'error', text: 'Failed to send invite' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const updateInvite = async (invite: PendingOrgInvite, action: 'resend' | 'revoke') => {
+    setBusyInviteId(invite.id);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/orgs/${orgId}/invites/${invite.id}`, {
+        method: action === 'resend' ? 'POST' : 'DELETE',
+      });
+      const data = (await response.json()) as InviteActionResponse & { error?: string };
+
+      if (!response.ok || !data.success) {
+        setNotice({ tone: 'error', text: data.error || `Failed to ${action} invite` });
+        return;
+      }
+
+      const renewed = action === 'resend' ? data.invite : undefined;
+      setInvites((current) =>
+        renewed
+          ? current.map((entry) => (entry.id === invite.id ? renewed : entry))
+          : current.filter((entry) => entry.id !== invite.id)
+      );
+      setNotice({ tone: 'success', text: data.message });
+    } catch {
+      setNotice({ tone: 'error', text: `Failed to ${action} invite` });
+    } finally {
+      setBusyInviteId(null);
+    }
+  };
 
   const getRoleIcon = (role: string) => {
     switch (role) {
@@ -63,14 +144,61 @@ export function MemberList({
             </CardDescription>
           </div>
           {permissions.canInviteMembers && (
-            <Button onClick={() => setIsAddingMember(true)}>
+            <Button onClick={() => setIsAddingMember(!isAddingMember)}>
               <UserPlus className="mr-2 h-4 w-4" />
-              Add Member
+              Invite Member
             </Button>
           )}
         </div>
       </CardHeader>
       <CardContent>
+        {notice && (
+          <p
+            className={`mb-4 text-sm ${
+              notice.tone === 'success' ? 'text-green-600' : 'text-destructive'
+            }`}
+          >
+            {notice.text}
+          </p>
+        )}
+
+        {isAddingMember && (
+          <form
+            onSubmit={sendInvite}
+            className="mb-6 flex flex-col gap-4 p-4 border rounded-lg md:flex-row md:items-end"
+          >
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="inviteEmail">Email</Label>
+              <Input
+                id="inviteEmail"
+                type="email"
+                required
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="colleague@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inviteRole">Role</Label>
+              <select
+                id="inviteRole"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as OrgMemberRole)}
+                className="h-9 w-full px-3 border-2 border-input bg-transparent text-sm"
+              >
+                {inviteRoles.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" disabled={isSending}>
+              {isSending ? 'Sending...' : 'Send Invite'}
+            </Button>
+          </form>
+        )}
+
         <div className="space-y-4">
           {members.map((member) => (
             <div
@@ -124,6 +252,62 @@ export function MemberList({
             No members found
           </div>
         )}
+
+        {permissions.canInviteMembers && invites.length > 0 && (
+          <div className="mt-8">
+            <h3 className="mb-1 font-semibold">Pending Invites</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Invited people join once they accept the emailed link
+            </p>
+            <div className="space-y-4">
+              {invites.map((invite) => (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between p-4 border border-dashed rounded-lg"
+                >
+                  <div className="flex items-center gap-4">
+                    <Avatar>
+                      <AvatarFallback>
+                        <Mail className="h-4 w-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="font-medium">{invite.email}</p>
+                      {invite.status === 'EXPIRED' ? (
+                        <p className="text-xs text-amber-600">Invite expired</p>
+                      ) : (
+                        invite.expiresAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                          </p>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline">{invite.role}</Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyInviteId === invite.id}
+                      onClick={() => updateInvite(invite, 'resend')}
+                    >
+                      Resend
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busyInviteId === invite.id}
+                      onClick={() => updateInvite(invite, 'revoke')}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -5,22 +5,31 @@
 
 'use client';
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Users, Code, FileText, TrendingUp } from 'lucide-react';
-import type { Org } from '@prisma/client';
+
+import { DomainVerificationHistory } from '@/components/org/DomainVerificationHistory';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import type { OrganizationStats, OrgPermissions } from '@/types/organization';
 
+import type { Org, OrgDomainEvent } from '@prisma/client';
+
 interface OrganizationOverviewProps {
   org: Org;
   stats: OrganizationStats;
   permissions: OrgPermissions;
+  /** Recent domain verification history, newest first */
+  domainEvents: OrgDomainEvent[];
+  /** When a failing domain loses verification */
+  domainRevokesAt: Date | null;
 }
 
 export function OrganizationOverview({
   org,
   stats,
   permissions,
+  domainEvents,
+  domainRevokesAt,
 }: OrganizationOverviewProps) {
   const statCards = [
     {
@@ -156,6 +165,15 @@ export function OrganizationOverview({
           )}
         </CardContent>
       </Card>
+
+      {/* Domain Verification History */}
+      {org.domain && (
+        <DomainVerificationHistory
+          org={org}
+          events={domainEvents}
+          revokesAt={domainRevokesAt}
+        />
+      )}
     </div>
   );
 }
@@ -5,6 +5,8 @@
 
 'use client';
 
+import { useState } from 'react';
+
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,7 +15,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, CheckCircle } from 'lucide-react';
-import type { Org } from '@prisma/client';
+import type { Org, OrgMemberRole } from '@prisma/client';
 import type { OrgPermissions } from '@/types/organization';
 
 interface OrganizationSettingsProps {
@@ -21,10 +23,52 @@ interface OrganizationSettingsProps {
   permissions: OrgPermissions;
 }
 
+/**
+ * Roles an admin may give auto-joined members
+ */
+const AUTO_JOIN_ROLES: OrgMemberRole[] = ['MEMBER', 'VIEWER', 'ADMIN'];
+
 export function OrganizationSettings({
   org,
   permissions,
 }: OrganizationSettingsProps) {
+  const [allowAutoJoin, setAllowAutoJoin] = useState(org.allowAutoJoin);
+  const [autoJoinRole, setAutoJoinRole] = useState<OrgMemberRole>(org.autoJoinRole);
+  const [isSavingDomain, setIsSavingDomain] = useState(false);
+  const [notice, setNotice] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const canManageAutoJoin = permissions.canManageMembers && org.domainVerified;
+
+  const saveDomainSettings = async () => {
+    setIsSavingDomain(true);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/orgs/${org.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allowAutoJoin, autoJoinRole }),
+      });
+      const data = (await response.json()) as { success: boolean; backfillStarted?: boolean; error?: string };
+
+      if (!response.ok || !data.success) {
+        setNotice({ tone: 'error', text: data.error || 'Failed to save domain settings' });
+        return;
+      }
+
+      setNotice({
+        tone: 'success',
+        text: data.backfillStarted
+          ? `Auto-join enabled. Existing @${org.domain} users are being added.`
+          : 'Domain settings saved',
+      });
+    } catch {
+      setNotice({ tone: 'error', text: 'Failed to save domain settings' });
+    } finally {
+      setIsSavingDomain(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Basic Information */}
@@ -149,16 +193,47 @@ export function OrganizationSettings({
             </div>
             <Switch
               id="autoJoin"
-              checked={org.allowAutoJoin}
-              disabled={
-                !permissions.canManageOrg || !org.domainVerified
-              }
+              checked={allowAutoJoin}
+              onCheckedChange={setAllowAutoJoin}
+              disabled={!canManageAutoJoin}
             />
           </div>
 
-          {permissions.canManageOrg && (
+          <div className="space-y-2">
+            <Label htmlFor="autoJoinRole">Default Role</Label>
+            <select
+              id="autoJoinRole"
+              value={autoJoinRole}
+              onChange={(e) => setAutoJoinRole(e.target.value as OrgMemberRole)}
+              disabled={!canManageAutoJoin}
+              className="h-9 w-full px-3 border-2 border-input bg-transparent text-sm"
+            >
+              {AUTO_JOIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <p className="text-sm text-muted-foreground">
+              Role given to members who join through the domain. Owners get a daily summary of who joined.
+            </p>
+          </div>
+
+          {notice && (
+            <p
+              className={`text-sm ${
+                notice.tone === 'success' ? 'text-green-600' : 'text-destructive'
+              }`}
+            >
+              {notice.text}
+            </p>
+          )}
+
+          {canManageAutoJoin && (
             <div className="flex justify-end">
-              <Button>Save Domain Settings</Button>
+              <Button onClick={saveDomainSettings} disabled={isSavingDomain}>
+                {isSavingDomain ? 'Saving...' : 'Save Domain Settings'}
+              </Button>
             </div>
           )}
         </CardContent>
@@ -0,0 +1,128 @@
+/**
+ * Plan Generation Progress Component
+ * Follows a generating plan over server-sent events
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Loader2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import type { PlanGenerationEvent } from '@/types/organization';
+
+import type { OrgPlanStatus } from '@prisma/client';
+
+interface PlanGenerationProgressProps {
+  orgId: string;
+  planId: string;
+  canCancel: boolean;
+  /** Called once generation ends, with the plan's new status */
+  onSettled: (planId: string, status: OrgPlanStatus | null, error: string | null) => void;
+}
+
+/**
+ * Characters of the latest output shown as a preview
+ */
+const PREVIEW_LENGTH = 280;
+
+export function PlanGenerationProgress({
+  orgId,
+  planId,
+  canCancel,
+  onSettled,
+}: PlanGenerationProgressProps) {
+  const [content, setContent] = useState('');
+  const [sections, setSections] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // EventSource reconnects on its own and resumes from the last event ID
+    const source = new EventSource(`/api/orgs/${orgId}/plans/${planId}/stream`);
+
+    const parse = <T extends PlanGenerationEvent['event']>(event: Event) =>
+      JSON.parse((event as MessageEvent<string>).data) as Extract<PlanGenerationEvent, { event: T }>['data'];
+
+    source.addEventListener('token', (event) => {
+      const { text } = parse<'token'>(event);
+      setContent((previous) => previous + text);
+    });
+
+    source.addEventListener('reset', () => {
+      setContent('');
+      setSections([]);
+    });
+
+    source.addEventListener('section', (event) => {
+      const data = parse<'section'>(event);
+      setSections(data.sections);
+      setTotal(data.total);
+    });
+
+    source.addEventListener('status', (event) => {
+      const data = parse<'status'>(event);
+      source.close();
+      onSettled(planId, data.status, data.error);
+    });
+
+    return () => source.close();
+  }, [orgId, planId, onSettled]);
+
+  const cancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/orgs/${orgId}/plans/${planId}/cancel`, { method: 'POST' });
+      const data = (await response.json()) as { success: boolean; error?: string };
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to cancel generation');
+      }
+    } catch {
+      setError('Failed to cancel generation');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const current = sections[sections.length - 1];
+  const preview = content.length > PREVIEW_LENGTH ? `…${content.slice(-PREVIEW_LENGTH)}` : content;
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {current
+            ? `Section ${sections.length}${total ? ` of ${total}` : ''}: ${current}`
+            : 'Starting generation…'}
+        </div>
+        {canCancel && (
+          <Button variant="ghost" size="sm" onClick={cancel} disabled={isCancelling}>
+            <X className="mr-1 h-3 w-3" />
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </Button>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${Math.min(100, (sections.length / total) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {preview && (
+        <p className="line-clamp-4 whitespace-pre-wrap text-xs text-muted-foreground">{preview}</p>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
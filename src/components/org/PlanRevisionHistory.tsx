@@ -0,0 +1,312 @@
+/**
+ * Plan Revision History Component
+ * Lists a plan's revisions, compares any two side by side and restores one
+ */
+
+'use client';
+
+import { type ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { History, RotateCcw } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { diffPlanContent, type SideBySideRow } from '@/lib/plan-diff';
+import type { PlanRevisionSummary } from '@/lib/plan-revisions';
+
+import type { OrgPlanRevision, OrgPlanRevisionSource } from '@prisma/client';
+
+interface PlanRevisionHistoryProps {
+  orgId: string;
+  planId: string;
+  revisions: PlanRevisionSummary[];
+  canRestore: boolean;
+}
+
+const SOURCE_LABELS: Record<OrgPlanRevisionSource, string> = {
+  GENERATION: 'Generated',
+  MANUAL_EDIT: 'Edited',
+  SECTION_REGENERATION: 'Section regenerated',
+  RESTORE: 'Restored',
+};
+
+/**
+ * Unchanged lines kept around each change; longer unchanged runs collapse
+ */
+const CONTEXT_LINES = 3;
+
+const ROW_CLASSES: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  changed: { left: 'bg-red-50 dark:bg-red-950/40', right: 'bg-green-50 dark:bg-green-950/40' },
+  removed: { left: 'bg-red-50 dark:bg-red-950/40', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-green-50 dark:bg-green-950/40' },
+};
+
+type DisplayRow = SideBySideRow | { type: 'collapsed'; count: number };
+
+/**
+ * Collapse unchanged runs away from any change
+ */
+function collapseUnchanged(rows: SideBySideRow[]): DisplayRow[] {
+  const display: DisplayRow[] = [];
+  let run: SideBySideRow[] = [];
+
+  const flush = (atStart: boolean, atEnd: boolean) => {
+    const keepBefore = atStart ? 0 : CONTEXT_LINES;
+    const keepAfter = atEnd ? 0 : CONTEXT_LINES;
+
+    if (run.length > keepBefore + keepAfter + 1) {
+      display.push(...run.slice(0, keepBefore));
+      display.push({ type: 'collapsed', count: run.length - keepBefore - keepAfter });
+      display.push(...run.slice(run.length - keepAfter));
+    } else {
+      display.push(...run);
+    }
+    run = [];
+  };
+
+  rows.forEach((row) => {
+    if (row.type === 'unchanged') {
+      run.push(row);
+    } else {
+      flush(display.length === 0, false);
+      display.push(row);
+    }
+  });
+  flush(display.length === 0, true);
+
+  return display;
+}
+
+export function PlanRevisionHistory({
+  orgId,
+  planId,
+  revisions,
+  canRestore,
+}: PlanRevisionHistoryProps) {
+  const router = useRouter();
+  const [leftId, setLeftId] = useState(revisions[1]?.id ?? revisions[0]?.id ?? '');
+  const [rightId, setRightId] = useState(revisions[0]?.id ?? '');
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const requested = useRef(new Set<string>());
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const numbers = useMemo(
+    () => new Map(revisions.map((revision) => [revision.id, revision.number])),
+    [revisions]
+  );
+
+  // Fetch the compared revisions' content once each
+  useEffect(() => {
+    const missing = [leftId, rightId].filter((id) => id && !requested.current.has(id));
+
+    missing.forEach(async (id) => {
+      requested.current.add(id);
+
+      try {
+        const response = await fetch(`/api/orgs/${orgId}/plans/${planId}/revisions/${id}`);
+        const data = (await response.json()) as { success: boolean; revision?: OrgPlanRevision; error?: string };
+
+        if (!response.ok || !data.revision) {
+          requested.current.delete(id);
+          setNotice({ tone: 'error', text: data.error || 'Failed to load revision' });
+          return;
+        }
+
+        const { content } = data.revision;
+        setContents((previous) => ({ ...previous, [id]: content }));
+      } catch {
+        requested.current.delete(id);
+        setNotice({ tone: 'error', text: 'Failed to load revision' });
+      }
+    });
+  }, [orgId, planId, leftId, rightId]);
+
+  const left = contents[leftId];
+  const right = contents[rightId];
+  const diff = useMemo(
+    () => (left !== undefined && right !== undefined ? diffPlanContent(left, right) : null),
+    [left, right]
+  );
+
+  const restore = async (revisionId: string) => {
+    setRestoringId(revisionId);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/orgs/${orgId}/plans/${planId}/revisions/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+      const data = (await response.json()) as { success: boolean; revision?: OrgPlanRevision; error?: string };
+
+      if (!response.ok || !data.revision) {
+        setNotice({ tone: 'error', text: data.error || 'Failed to restore revision' });
+        return;
+      }
+
+      setNotice({
+        tone: 'success',
+        text: `Restored revision #${numbers.get(revisionId)} as revision #${data.revision.number}`,
+      });
+      // Compare what the restore replaced with the new current revision
+      setLeftId(revisions[0].id);
+      setRightId(data.revision.id);
+      router.refresh();
+    } catch {
+      setNotice({ tone: 'error', text: 'Failed to restore revision' });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const describe = (revision: PlanRevisionSummary) => {
+    const label =
+      revision.source === 'RESTORE' && revision.restoredFromId
+        ? `${SOURCE_LABELS.RESTORE} #${numbers.get(revision.restoredFromId) ?? '?'}`
+        : SOURCE_LABELS[revision.source];
+    const by = revision.author?.name || revision.author?.email || revision.model || 'Unknown';
+    return `#${revision.number} · ${label} · ${by}`;
+  };
+
+  let comparison: ReactNode;
+  if (!diff) {
+    comparison = <p className="text-sm text-muted-foreground">Loading revisions...</p>;
+  } else if (diff.added === 0 && diff.removed === 0) {
+    comparison = <p className="text-sm text-muted-foreground">These revisions have the same content.</p>;
+  } else {
+    comparison = (
+      <div className="overflow-x-auto rounded-md border font-mono text-xs">
+        <table className="w-full table-fixed border-collapse">
+          <tbody>
+            {collapseUnchanged(diff.rows).map((row, index) =>
+              row.type === 'collapsed' ? (
+                <tr key={index} className="bg-muted/40 text-muted-foreground">
+                  <td colSpan={4} className="px-2 py-1 text-center">
+                    {row.count} unchanged lines
+                  </td>
+                </tr>
+              ) : (
+                <tr key={index} className="align-top">
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                    {row.left?.number}
+                  </td>
+                  <td className={`whitespace-pre-wrap break-words border-r px-2 ${ROW_CLASSES[row.type].left}`}>
+                    {row.left?.text}
+                  </td>
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                    {row.right?.number}
+                  </td>
+                  <td className={`whitespace-pre-wrap break-words px-2 ${ROW_CLASSES[row.type].right}`}>
+                    {row.right?.text}
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          No revisions yet
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Revisions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </CardTitle>
+          <CardDescription>
+            Every change to this plan is kept. Compare any two revisions or restore an earlier one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{describe(revision)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(revision.createdAt).toLocaleString()} · {revision.length.toLocaleString()} characters
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {index === 0 ? (
+                    <Badge variant="secondary">Current</Badge>
+                  ) : (
+                    canRestore && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restore(revision.id)}
+                        disabled={restoringId !== null}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                      </Button>
+                    )
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {notice && (
+            <p className={`mt-3 text-sm ${notice.tone === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+              {notice.text}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Side-by-side diff */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-3">
+            <CardTitle className="mr-auto">Compare</CardTitle>
+            {(['left', 'right'] as const).map((side) => (
+              <select
+                key={side}
+                aria-label={side === 'left' ? 'Earlier revision' : 'Later revision'}
+                value={side === 'left' ? leftId : rightId}
+                onChange={(event) => (side === 'left' ? setLeftId : setRightId)(event.target.value)}
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {revisions.map((revision) => (
+                  <option key={revision.id} value={revision.id}>
+                    {describe(revision)}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+          {diff && (
+            <CardDescription>
+              <span className="text-green-600">+{diff.added}</span>{' '}
+              <span className="text-red-600">-{diff.removed}</span> lines
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {comparison}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
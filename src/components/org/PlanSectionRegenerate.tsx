@@ -0,0 +1,89 @@
+/**
+ * Plan Section Regenerate Component
+ * Regenerates one section of a plan with Claude, as a new revision
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { RefreshCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+
+import type { OrgPlanRevision } from '@prisma/client';
+
+interface PlanSectionRegenerateProps {
+  orgId: string;
+  planId: string;
+  sections: string[];
+}
+
+export function PlanSectionRegenerate({ orgId, planId, sections }: PlanSectionRegenerateProps) {
+  const router = useRouter();
+  const [heading, setHeading] = useState(sections[0] ?? '');
+  const [regenerating, setRegenerating] = useState(false);
+  const [notice, setNotice] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const regenerate = async () => {
+    setRegenerating(true);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/orgs/${orgId}/plans/${planId}/sections/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ heading }),
+      });
+      const data = (await response.json()) as { success: boolean; revision?: OrgPlanRevision; error?: string };
+
+      if (!response.ok || !data.revision) {
+        setNotice({ tone: 'error', text: data.error || 'Failed to regenerate section' });
+        return;
+      }
+
+      setNotice({ tone: 'success', text: `Regenerated "${heading}" as revision #${data.revision.number}` });
+      router.refresh();
+    } catch {
+      setNotice({ tone: 'error', text: 'Failed to regenerate section' });
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Section to regenerate"
+          value={heading}
+          onChange={(event) => setHeading(event.target.value)}
+          disabled={regenerating}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          {sections.map((section) => (
+            <option key={section} value={section}>
+              {section}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={regenerate} disabled={regenerating || !heading}>
+          <RefreshCw className={`mr-1 h-3 w-3 ${regenerating ? 'animate-spin' : ''}`} />
+          {regenerating ? 'Regenerating...' : 'Regenerate section'}
+        </Button>
+      </div>
+
+      {notice && (
+        <p className={`text-sm ${notice.tone === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {notice.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,13 +5,18 @@
 
 'use client';
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
+import { useCallback, useState } from 'react';
+
 import { Plus, Eye, Download, Share2, MoreVertical } from 'lucide-react';
-import type { OrgPlan } from '@prisma/client';
+
+import { PlanGenerationProgress } from '@/components/org/PlanGenerationProgress';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import type { OrgPermissions } from '@/types/organization';
 
+import type { OrgPlan, OrgPlanStatus } from '@prisma/client';
+
 interface PlansListProps {
   orgId: string;
   plans: (OrgPlan & { _count?: { shares: number } })[];
@@ -20,6 +25,16 @@ interface PlansListProps {
 }
 
 export function PlansList({ orgId, plans, permissions, userId }: PlansListProps) {
+  // Outcomes of generations followed on this page
+  const [settled, setSettled] = useState<Record<string, { status: OrgPlanStatus; error: string | null }>>({});
+
+  const settle = useCallback((planId: string, status: OrgPlanStatus | null, error: string | null) => {
+    setSettled((previous) => ({ ...previous, [planId]: { status: status ?? 'DRAFT', error } }));
+  }, []);
+
+  const statusOf = (plan: OrgPlan) => settled[plan.id]?.status ?? plan.status;
+  const generationErrorOf = (plan: OrgPlan) => settled[plan.id]?.error ?? plan.generationError;
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case 'PUBLISHED':
@@ -94,14 +109,27 @@ export function PlansList({ orgId, plans, permissions, userId }: PlansListProps)
             <CardContent className="space-y-4">
               {/* Badges */}
               <div className="flex items-center gap-2 flex-wrap">
-                <Badge variant={getStatusBadgeVariant(plan.status)}>
-                  {plan.status}
+                <Badge variant={getStatusBadgeVariant(statusOf(plan))}>
+                  {statusOf(plan)}
                 </Badge>
                 <Badge variant={getPrivacyBadgeVariant(plan.privacy)}>
                   {plan.privacy}
                 </Badge>
               </div>
 
+              {/* Live generation */}
+              {statusOf(plan) === 'GENERATING' && (
+                <PlanGenerationProgress
+                  orgId={orgId}
+                  planId={plan.id}
+                  canCancel={plan.createdBy === userId || permissions.canManagePlans}
+                  onSettled={settle}
+                />
+              )}
+              {statusOf(plan) === 'DRAFT' && generationErrorOf(plan) && (
+                <p className="text-xs text-muted-foreground">{generationErrorOf(plan)}</p>
+              )}
+
               {/* Metadata */}
               <div className="space-y-1 text-sm text-muted-foreground">
                 <p>
@@ -137,9 +165,11 @@ export function PlansList({ orgId, plans, permissions, userId }: PlansListProps)
 
               {/* Actions */}
               <div className="flex gap-2">
-                <Button variant="outline" size="sm" className="flex-1">
-                  <Eye className="mr-2 h-3 w-3" />
-                  View
+                <Button variant="outline" size="sm" className="flex-1" asChild>
+                  <a href={`/org/${orgId}/plans/${plan.id}`}>
+                    <Eye className="mr-2 h-3 w-3" />
+                    View
+                  </a>
                 </Button>
                 {plan.privacy !== 'PRIVATE' && (
                   <Button variant="outline" size="sm">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -39,6 +39,15 @@ interface User {
   image?: string | null;
 }
 
+/**
+ * Personalised invite read from an `?invite=` link
+ */
+interface Invite {
+  token: string;
+  code: string;
+  email: string;
+}
+
 /**
  * VIP Code Redemption Form Component
  * Handles VIP code validation, submission, and success/error states
@@ -47,13 +56,18 @@ interface User {
  * - Auto-fills email for authenticated users
  * - Associates redemptions with user accounts
  * - Redirects to downloads page after successful redemption
+ * - Pre-fills invite codes and redeems them once the user is signed in
  */
 interface RedeemFormProps {
   user: User | null;
+  invite?: Invite | null;
+  /** An invite link was opened but its token is invalid or expired */
+  inviteInvalid?: boolean;
 }
 
-export function RedeemForm({ user }: RedeemFormProps) {
+export function RedeemForm({ user, invite = null, inviteInvalid = false }: RedeemFormProps) {
   const router = useRouter();
+  const autoRedeemed = useRef(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [successData, setSuccessData] = useState<{
     benefits: string[];
@@ -64,7 +78,7 @@ export function RedeemForm({ user }: RedeemFormProps) {
   const form = useForm<VIPCodeRedemptionInput>({
     resolver: zodResolver(VIPCodeRedemptionSchema),
     defaultValues: {
-      code: '',
+      code: invite?.code ?? '',
       honeypot: '',
     },
   });
@@ -77,7 +91,7 @@ export function RedeemForm({ user }: RedeemFormProps) {
   /**
    * Handle form submission
    */
-  const onSubmit = async (data: VIPCodeRedemptionInput) => {
+  const onSubmit = useCallback(async (data: VIPCodeRedemptionInput) => {
     // Check honeypot
     if (data.honeypot && data.honeypot.length > 0) {
       return;
@@ -130,6 +144,11 @@ export function RedeemForm({ user }: RedeemFormProps) {
       } else if (error.code === 'CODE_ALREADY_USED') {
         failureReason = 'already_used';
         message = 'This VIP code has already been redeemed.';
+      } else if (error.code === 'CODE_RECIPIENT_MISMATCH') {
+        failureReason = 'invalid_code';
+        message = invite
+          ? `This invite was sent to ${invite.email}. Sign in with that address to redeem it.`
+          : 'This VIP code was issued to a different email address.';
       } else if (error.code === 'UNAUTHORIZED' || error.status === 401) {
         failureReason = 'not_authenticated';
         message = 'You must be logged in to redeem a VIP code. Please sign in and try again.';
@@ -147,15 +166,27 @@ export function RedeemForm({ user }: RedeemFormProps) {
     } finally {
       setIsSubmitting(false);
     }
-  };
+  }, [user, invite, form, router]);
 
   /**
    * Handle validation errors
    */
-  const onError = () => {
+  const onError = useCallback(() => {
     trackFormError('vip-redeem', 'validation', 'code');
     trackVIPCodeRedeemAttempt('invalid');
-  };
+  }, []);
+
+  // Invite links redeem themselves once the user is signed in
+  useEffect(() => {
+    if (invite && user && !autoRedeemed.current) {
+      autoRedeemed.current = true;
+      void form.handleSubmit(onSubmit, onError)();
+    }
+  }, [invite, user, form, onSubmit, onError]);
+
+  const signInUrl = `/auth/signin?callbackUrl=${encodeURIComponent(
+    invite ? `/redeem?invite=${encodeURIComponent(invite.token)}` : '/redeem'
+  )}`;
 
   return (
     <Card className="bg-brand-obsidian border-brand-cyan/20 mx-auto max-w-2xl">
@@ -168,12 +199,22 @@ export function RedeemForm({ user }: RedeemFormProps) {
             Signed in as <span className="text-brand-cyan">{user.email}</span>
           </p>
         )}
+        {invite && (
+          <p className="text-muted-foreground mt-2 text-center text-sm">
+            Personal invite for <span className="text-brand-cyan">{invite.email}</span>
+          </p>
+        )}
+        {inviteInvalid && (
+          <p className="text-brand-ember mt-2 text-center text-sm">
+            This invite link is invalid or has expired. If you have the code, you can still enter it below.
+          </p>
+        )}
         {!user && (
           <div className="bg-brand-ember/10 border-brand-ember/20 mt-4 rounded-lg border p-4">
             <p className="text-brand-ember text-center text-sm">
               You must be signed in to redeem a VIP code.{' '}
               <a
-                href="/auth/signin?callbackUrl=/redeem"
+                href={signInUrl}
                 className="underline hover:no-underline"
               >
                 Sign in now
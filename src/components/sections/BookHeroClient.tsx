@@ -6,6 +6,8 @@ import { motion } from "framer-motion";
 
 import { ExcerptModal } from "@/components/ExcerptModal";
 import { RetailerMenu } from "@/components/RetailerMenu";
+import { ExperimentIds, getCTALabel, getHeroHeadline } from "@/config/experiments";
+import { useExperiment } from "@/hooks/useExperiment";
 
 interface BookHeroClientProps {
   isAuthenticated: boolean;
@@ -18,6 +20,10 @@ export function BookHeroClient({
 }: BookHeroClientProps) {
   const [showExcerpt, setShowExcerpt] = useState(false);
 
+  // Server-assigned inside ExperimentProvider, so no flicker on first paint
+  const headlineVariant = useExperiment(ExperimentIds.HERO_HEADLINE);
+  const ctaVariant = useExperiment(ExperimentIds.CTA_LABEL);
+
   return (
     <section className="relative flex min-h-[85vh] items-center justify-center overflow-hidden bg-white text-black dark:bg-black dark:text-white">
       {/* Subtle grid pattern */}
@@ -66,7 +72,7 @@ export function BookHeroClient({
                 transition={{ duration: 0.6, delay: 0.4 }}
                 className="font-outfit mb-8 text-4xl leading-[0.95] font-extrabold tracking-tight text-black md:text-5xl lg:text-4xl xl:text-5xl dark:text-white"
               >
-                The job title is dying. <br />
+                {getHeroHeadline(headlineVariant)} <br />
                 What comes next will
                 <br /> define our species.
               </motion.h2>
@@ -90,7 +96,7 @@ export function BookHeroClient({
             >
               {/* Pre-order CTA - always visible */}
               <RetailerMenu
-                triggerText="Pre‑order Now"
+                triggerText={getCTALabel(ctaVariant)}
                 triggerVariant="primary"
                 initialFormat="hardcover"
                 originSection="hero"
@@ -7,6 +7,11 @@
  *
  * All experiments are configured with proper traffic allocation,
  * variant weights, and tracking integration.
+ *
+ * These definitions are the seed data for the `experiments` table
+ * (prisma/migrations/add_managed_experiments.sql). At runtime the database
+ * is the source of truth (see `@/lib/experiment-store`); the definitions
+ * here are only used by hooks rendered outside `ExperimentProvider`.
  */
 
 import { type Experiment } from '@/lib/ab-testing';
@@ -64,6 +69,7 @@ export const heroHeadlineExperiment: Experiment = {
     },
   ],
   trafficAllocation: 1.0, // 100% of users
+  primaryMetric: 'hero_cta_click',
   // startDate: '2025-10-18T00:00:00Z', // Uncomment to set start date
   // endDate: '2025-11-18T00:00:00Z',   // Uncomment to set end date (30 days)
 };
@@ -98,6 +104,7 @@ export const ctaLabelExperiment: Experiment = {
     },
   ],
   trafficAllocation: 1.0,
+  primaryMetric: 'hero_cta_click',
 };
 
 /**
@@ -130,6 +137,7 @@ export const bonusPlacementExperiment: Experiment = {
     },
   ],
   trafficAllocation: 1.0,
+  primaryMetric: 'bonus_claim_submit',
 };
 
 // ==================== Experiment Registry ====================
@@ -186,11 +194,12 @@ export const heroHeadlineVariants = {
 
 /**
  * CTA label content variants
- * Maps variant ID to actual CTA text
+ * Maps variant ID to actual CTA text (A matches the live hero button,
+ * non-breaking hyphen included)
  */
 export const ctaLabelVariants = {
-  A: 'Pre-order now',
-  B: 'Reserve your copy',
+  A: 'Pre‑order Now',
+  B: 'Reserve Your Copy',
 } as const;
 
 /**
@@ -244,7 +253,8 @@ export function getBonusPlacement(variantId: string): 'hero' | 'dedicated' {
 
 /**
  * Standard conversion event names for experiments
- * Used with trackExperiment() function
+ * Used with trackExperiment(); `trackEvent()` also records these
+ * automatically for every experiment the visitor is assigned to
  */
 export const ConversionEvents = {
   // Hero CTA events
@@ -0,0 +1,122 @@
+/**
+ * Receipt Fraud Rule Configuration
+ *
+ * Declarative settings for the receipt rules engine (`@/lib/receipt-rules`).
+ * Tune thresholds and weights here rather than in the engine.
+ *
+ * Price ranges are expressed as multiples of the list price in
+ * `src/lib/pricing.ts`, so they follow the receipt's currency.
+ *
+ * Environment Variables:
+ * - BOOK_PUBLICATION_DATE: ISO date the book goes on sale (e.g. "2026-03-03").
+ *   Purchase date windows are relative to it; without it, purchases older
+ *   than `defaultPurchaseWindowDays` are rejected.
+ */
+
+// ==================== Rule IDs ====================
+
+/**
+ * All receipt rule IDs
+ */
+export const ReceiptRuleIds = {
+  PARSE_CONFIDENCE: 'parse-confidence',
+  BOOK_TITLE: 'book-title',
+  RETAILER_DETECTED: 'retailer-detected',
+  RETAILER_MATCH: 'retailer-match',
+  PRICE_RANGE: 'price-range',
+  PURCHASE_DATE: 'purchase-date',
+} as const;
+
+export type ReceiptRuleId = typeof ReceiptRuleIds[keyof typeof ReceiptRuleIds];
+
+// ==================== Types ====================
+
+/**
+ * Price band as multiples of the list price
+ */
+export interface PriceBand {
+  minMultiplier: number;
+  maxMultiplier: number;
+}
+
+/**
+ * Receipt rules configuration
+ */
+export interface ReceiptRulesConfig {
+  /** Bumped whenever rules or weights change; stored with each evaluation */
+  version: number;
+  /** Book publication date (null when not configured) */
+  publicationDate: Date | null;
+  /** Earliest accepted purchase, in days before publication (pre-orders) */
+  purchaseWindowOpensDaysBefore: number;
+  /** Latest accepted purchase, in days after publication */
+  purchaseWindowClosesDaysAfter: number;
+  /** Oldest accepted purchase, in days before today, when no publication date is set */
+  defaultPurchaseWindowDays: number;
+  /** Case-insensitive substrings that identify the book title */
+  titleKeywords: string[];
+  /** Parse confidence below this is treated as fraud */
+  minConfidence: number;
+  /** Accepted price range per format (multiples of the list price) */
+  priceBands: Record<'hardcover' | 'ebook' | 'audiobook', PriceBand>;
+  /** Score points per rule (sum to 100) */
+  weights: Record<ReceiptRuleId, number>;
+  /** Perceptual-hash similarity thresholds (0-1) for near-duplicate receipts */
+  duplicateSimilarity: {
+    /** At or above: marked DUPLICATE automatically */
+    duplicate: number;
+    /** At or above: sent to manual review with a link to the original */
+    review: number;
+  };
+}
+
+// ==================== Configuration ====================
+
+/**
+ * Read the configured publication date
+ */
+function readPublicationDate(): Date | null {
+  const value = process.env.BOOK_PUBLICATION_DATE;
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Get the active receipt rules configuration
+ *
+ * Price bands allow for discounting, tax and shipping on the low and high
+ * end; a band of 0.4x-3x on a $32 hardcover accepts $12.80-$96.
+ */
+export function getReceiptRulesConfig(): ReceiptRulesConfig {
+  return {
+    version: 2,
+    publicationDate: readPublicationDate(),
+    purchaseWindowOpensDaysBefore: 180,
+    purchaseWindowClosesDaysAfter: 180,
+    defaultPurchaseWindowDays: 180,
+    titleKeywords: ['ai-born', 'ai born'],
+    minConfidence: 0.5,
+    priceBands: {
+      hardcover: { minMultiplier: 0.4, maxMultiplier: 3 },
+      ebook: { minMultiplier: 0.3, maxMultiplier: 2 },
+      audiobook: { minMultiplier: 0.4, maxMultiplier: 2 },
+    },
+    weights: {
+      [ReceiptRuleIds.PARSE_CONFIDENCE]: 40,
+      [ReceiptRuleIds.BOOK_TITLE]: 20,
+      [ReceiptRuleIds.RETAILER_DETECTED]: 15,
+      [ReceiptRuleIds.RETAILER_MATCH]: 0,
+      [ReceiptRuleIds.PRICE_RANGE]: 15,
+      [ReceiptRuleIds.PURCHASE_DATE]: 10,
+    },
+    // 64-bit hashes: 0.93 allows 4 differing bits, 0.89 allows 7
+    duplicateSimilarity: {
+      duplicate: 0.93,
+      review: 0.89,
+    },
+  };
+}
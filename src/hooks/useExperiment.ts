@@ -6,14 +6,35 @@
  * - useTrackExperiment: Track conversion events for experiments
  *
  * These hooks handle all the complexity of variant assignment,
- * persistence, and analytics tracking.
+ * persistence, and analytics tracking. Inside an `ExperimentProvider`
+ * they start from the server-assigned variant, so there is no flicker.
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { getVariant, trackExperiment as trackExperimentLib } from '@/lib/ab-testing';
+import { useServerExperiments } from '@/components/ExperimentProvider';
+import {
+  getDefaultVariantId,
+  getVariant,
+  trackExperiment as trackExperimentLib,
+  type Experiment,
+} from '@/lib/ab-testing';
 import { getExperiment } from '@/config/experiments';
+import type { ServerExperimentAssignments } from '@/lib/experiments-server';
+
+/**
+ * Look up an experiment: the stored definition inside an
+ * `ExperimentProvider`, otherwise the bundled default
+ */
+function findExperiment(
+  serverExperiments: ServerExperimentAssignments | null,
+  experimentId: string
+): Experiment | undefined {
+  return serverExperiments
+    ? serverExperiments.experiments[experimentId]
+    : getExperiment(experimentId);
+}
 
 // ==================== useExperiment Hook ====================
 
@@ -41,12 +62,17 @@ import { getExperiment } from '@/config/experiments';
  */
 export function useExperiment(experimentId: string): string {
   // Get experiment configuration
-  const experiment = getExperiment(experimentId);
+  const serverExperiments = useServerExperiments();
+  const experiment = findExperiment(serverExperiments, experimentId);
+  const isBot = serverExperiments?.isBot ?? false;
 
-  // State for variant (initially undefined for SSR)
+  // State for variant (server-assigned when available, so SSR matches)
   const [variant, setVariant] = useState<string>(() => {
-    // Return first variant as default (will be updated on client)
-    return experiment?.variants[0]?.id || 'A';
+    // Otherwise return default variant (will be updated on client)
+    return (
+      serverExperiments?.variants[experimentId] ||
+      (experiment ? getDefaultVariantId(experiment) : 'A')
+    );
   });
 
   // Effect to assign variant on client side
@@ -56,10 +82,15 @@ export function useExperiment(experimentId: string): string {
       return;
     }
 
-    // Get or assign variant
+    // Bots always see control and are never assigned or tracked
+    if (isBot) {
+      return;
+    }
+
+    // Get or assign variant (records the exposure of server assignments)
     const assignedVariant = getVariant(experimentId, experiment);
     setVariant(assignedVariant);
-  }, [experimentId, experiment]);
+  }, [experimentId, experiment, isBot]);
 
   return variant;
 }
@@ -133,7 +164,7 @@ export function useTrackExperiment(experimentId: string) {
  */
 export function useExperimentVariant(experimentId: string) {
   const variant = useExperiment(experimentId);
-  const experiment = getExperiment(experimentId);
+  const experiment = findExperiment(useServerExperiments(), experimentId);
 
   const variantConfig = experiment?.variants.find(v => v.id === variant);
 
@@ -177,20 +208,29 @@ export function useExperimentVariant(experimentId: string) {
  * ```
  */
 export function useMultipleExperiments(experimentIds: string[]): Record<string, string> {
+  const serverExperiments = useServerExperiments();
+  const isBot = serverExperiments?.isBot ?? false;
+
   const [variants, setVariants] = useState<Record<string, string>>(() => {
-    // Initialize with first variant of each experiment
+    // Initialize with server-assigned or default variant of each experiment
     return experimentIds.reduce((acc, id) => {
-      const experiment = getExperiment(id);
-      acc[id] = experiment?.variants[0]?.id || 'A';
+      const experiment = findExperiment(serverExperiments, id);
+      acc[id] =
+        serverExperiments?.variants[id] || (experiment ? getDefaultVariantId(experiment) : 'A');
       return acc;
     }, {} as Record<string, string>);
   });
 
   useEffect(() => {
+    // Bots always see control and are never assigned or tracked
+    if (isBot) {
+      return;
+    }
+
     const newVariants: Record<string, string> = {};
 
     for (const experimentId of experimentIds) {
-      const experiment = getExperiment(experimentId);
+      const experiment = findExperiment(serverExperiments, experimentId);
 
       if (!experiment) {
         console.warn(`[useMultipleExperiments] Experiment not found: ${experimentId}`);
@@ -201,7 +241,7 @@ export function useMultipleExperiments(experimentIds: string[]): Record<string,
     }
 
     setVariants(newVariants);
-  }, [experimentIds]);
+  }, [experimentIds, isBot, serverExperiments]);
 
   return variants;
 }
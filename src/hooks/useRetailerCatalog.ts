@@ -0,0 +1,68 @@
+/**
+ * React Hook for the Retailer Catalog
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { FALLBACK_RETAILER_CATALOG } from '@/lib/retailers';
+import type { RetailerCatalog } from '@/types';
+
+/**
+ * Public endpoint serving the stored catalog
+ */
+const RETAILER_CATALOG_ENDPOINT = '/api/retailers';
+
+/**
+ * Catalog request shared by every menu on the page
+ */
+let catalogRequest: Promise<RetailerCatalog> | null = null;
+
+/**
+ * Fetch the stored catalog once per page load
+ * On failure the fallback catalog is kept and the next mount retries.
+ */
+function loadRetailerCatalog(): Promise<RetailerCatalog> {
+  catalogRequest ??= fetch(RETAILER_CATALOG_ENDPOINT)
+    .then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Unexpected status ${response.status}`);
+      }
+      const data = (await response.json()) as { catalog: RetailerCatalog };
+      return data.catalog;
+    })
+    .catch((error: unknown) => {
+      console.error('[Retailers] Failed to load retailer catalog:', error);
+      catalogRequest = null;
+      return FALLBACK_RETAILER_CATALOG;
+    });
+
+  return catalogRequest;
+}
+
+/**
+ * Hook returning the retailers shown in each region
+ * Renders with the built-in catalog until the stored one has loaded.
+ *
+ * @example
+ * const catalog = useRetailerCatalog();
+ * const retailers = getDefaultRetailers(region, catalog);
+ */
+export function useRetailerCatalog(): RetailerCatalog {
+  const [catalog, setCatalog] = useState<RetailerCatalog>(FALLBACK_RETAILER_CATALOG);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadRetailerCatalog().then((loaded) => {
+      if (!cancelled) setCatalog(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return catalog;
+}
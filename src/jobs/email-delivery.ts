@@ -0,0 +1,50 @@
+/**
+ * Background Email Sender
+ *
+ * Retries outbox messages whose in-call send attempts all failed (see
+ * `@/lib/email-outbox`). Each failed message gets one job on the
+ * `email-delivery` queue; the queue's exponential backoff spaces out the
+ * retries and dead-letters the job once they are exhausted.
+ *
+ * Jobs are executed by the worker in `src/jobs/worker.ts`.
+ */
+
+import { type Job, type Prisma } from '@prisma/client';
+
+import { retryEmailMessage } from '@/lib/email';
+import { type EmailDeliveryJob } from '@/lib/email-outbox';
+import { recordCampaignRetryResult } from '@/lib/newsletter-campaigns';
+
+/**
+ * Job handler for the email delivery queue
+ *
+ * Throws on failed sends so the job is retried with backoff. Suppressed
+ * recipients complete the job without sending. Newsletter campaign
+ * recipients waiting on the message are updated with the outcome.
+ */
+export async function handleEmailDeliveryJob(
+  payload: unknown,
+  queueJob: Job
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as EmailDeliveryJob;
+
+  if (!job?.messageId) {
+    throw new Error('Invalid email delivery job payload');
+  }
+
+  const result = await retryEmailMessage(job.messageId);
+
+  // The queue dead-letters the job after this attempt
+  const final = queueJob.attempts >= queueJob.maxAttempts;
+  await recordCampaignRetryResult(job.messageId, result, final);
+
+  if (!result.success && result.errorCode !== 'SUPPRESSED') {
+    throw new Error(result.error || 'Email send failed');
+  }
+
+  return {
+    messageId: job.messageId,
+    providerMessageId: result.messageId ?? null,
+    suppressed: result.errorCode === 'SUPPRESSED',
+  };
+}
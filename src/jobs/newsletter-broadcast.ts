@@ -0,0 +1,45 @@
+/**
+ * Newsletter Broadcast Sender
+ *
+ * Sends newsletter campaigns in throttled batches (see
+ * `@/lib/newsletter-campaigns`). Each job sends one batch, then queues the
+ * next with a delay until no recipients are pending.
+ *
+ * Jobs are executed by the worker in `src/jobs/worker.ts`.
+ */
+
+import { type Prisma } from '@prisma/client';
+
+import {
+  scheduleCampaignBatch,
+  sendCampaignBatch,
+  type NewsletterBroadcastJob,
+} from '@/lib/newsletter-campaigns';
+
+/**
+ * Job handler for the newsletter broadcast queue
+ *
+ * Per-recipient failures are recorded on the recipient and do not fail the
+ * job; only infrastructure errors (database, rendering) throw and retry.
+ */
+export async function handleNewsletterBroadcastJob(
+  payload: unknown
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as NewsletterBroadcastJob;
+
+  if (!job?.campaignId || !job.batch) {
+    throw new Error('Invalid newsletter broadcast job payload');
+  }
+
+  const result = await sendCampaignBatch(job.campaignId);
+
+  if (result.remaining > 0) {
+    await scheduleCampaignBatch(job.campaignId, job.batch + 1);
+  }
+
+  return {
+    campaignId: job.campaignId,
+    batch: job.batch,
+    ...result,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Organization Auto-Join Jobs
+ *
+ * Backfills existing users into organizations that turn on domain auto-join,
+ * one batch per job, and sends the owner digest of who joined (see
+ * `@/lib/org-auto-join`).
+ *
+ * Jobs are executed by the worker in `src/jobs/worker.ts`.
+ */
+
+import { type Prisma } from '@prisma/client';
+
+import {
+  runAutoJoinBackfillBatch,
+  scheduleAutoJoinBackfill,
+  sendAutoJoinDigest,
+  type AutoJoinBackfillJob,
+  type AutoJoinDigestJob,
+} from '@/lib/org-auto-join';
+
+/**
+ * Job handler for the auto-join backfill queue
+ *
+ * Queues the next batch until every user on the domain has been checked.
+ */
+export async function handleAutoJoinBackfillJob(
+  payload: unknown
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as AutoJoinBackfillJob;
+
+  if (!job?.orgId || !job.runId) {
+    throw new Error('Invalid auto-join backfill job payload');
+  }
+
+  const result = await runAutoJoinBackfillBatch(job);
+
+  if (result.nextCursor) {
+    await scheduleAutoJoinBackfill(job.orgId, job.runId, result.nextCursor);
+  }
+
+  return {
+    orgId: job.orgId,
+    runId: job.runId,
+    ...result,
+  };
+}
+
+/**
+ * Job handler for the auto-join digest queue
+ */
+export async function handleAutoJoinDigestJob(
+  payload: unknown
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as AutoJoinDigestJob;
+
+  if (!job?.orgId) {
+    throw new Error('Invalid auto-join digest job payload');
+  }
+
+  const result = await sendAutoJoinDigest(job.orgId);
+
+  return {
+    orgId: job.orgId,
+    ...result,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Organization Plan Generation Job
+ *
+ * Streams a plan created by `POST /api/orgs/[orgId]/plans` from the model
+ * into the database (see `@/lib/plan-generation`).
+ *
+ * Jobs are executed by the worker in `src/jobs/worker.ts`.
+ */
+
+import { type Job, type Prisma } from '@prisma/client';
+
+import {
+  abandonPlanGeneration,
+  runPlanGeneration,
+  type PlanGenerationJob,
+} from '@/lib/plan-generation';
+
+import type { JobAbandonReason } from './worker';
+
+/**
+ * Job handler for the plan generation queue
+ *
+ * Model errors end the plan as DRAFT rather than retrying. Other errors
+ * (e.g. a failed save) are retried, continuing from the saved content.
+ */
+export async function handlePlanGenerationJob(
+  payload: unknown
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as PlanGenerationJob;
+
+  if (!job?.planId || !job.context) {
+    throw new Error('Invalid plan generation job payload');
+  }
+
+  const result = await runPlanGeneration(job);
+
+  return {
+    planId: job.planId,
+    ...result,
+  };
+}
+
+/**
+ * Abandoned-job handler for the plan generation queue
+ *
+ * Ends the plan as DRAFT so it is not left GENERATING with no job behind it.
+ */
+export async function handlePlanGenerationAbandoned(
+  payload: unknown,
+  _job: Job,
+  reason: JobAbandonReason
+): Promise<void> {
+  const job = payload as PlanGenerationJob;
+
+  if (!job?.planId) {
+    return;
+  }
+
+  await abandonPlanGeneration(
+    job.planId,
+    reason === 'timed-out' ? 'Generation timed out' : 'Generation failed'
+  );
+}
@@ -2,7 +2,7 @@
  * Background Receipt Processor
  *
  * Processes receipt verification jobs asynchronously
- * Uses BullMQ for job queue management (or simple Promise-based processing)
+ * Uses the durable Postgres-backed job queue for retries and dead-lettering
  *
  * Job Flow:
  * 1. Fetch receipt from storage
@@ -10,21 +10,30 @@
  * 3. LLM parsing (extract retailer, amount, book title)
  * 4. PII redaction (triple-layer)
  * 5. Fraud detection checks
- * 6. Update database with results
- * 7. Send notification email
+ * 6. Near-duplicate detection (perceptual hash, order number)
+ * 7. Update database with results
+ * 8. Send notification email
  *
- * NOTE: This is a simplified implementation without BullMQ.
- * In production, integrate with BullMQ or similar job queue.
+ * Jobs are persisted in Postgres via `@/lib/job-queue` and executed by
+ * the worker in `src/jobs/worker.ts`.
  */
 
-import { prisma } from '@/lib/prisma';
-import { processReceiptFile } from '@/lib/receipt-processor';
-import { parseReceipt, checkReceiptFraud, calculateVerificationScore } from '@/lib/receipt-parser';
-import { ReceiptStatus, BonusClaimStatus } from '@prisma/client';
-import { sendBonusPackEmail } from '@/lib/email';
+import { ReceiptStatus, BonusClaimStatus, type Prisma } from '@prisma/client';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+import { fulfillEntitlements } from '@/lib/code-redemption';
+import { sendBonusPackEmail } from '@/lib/email';
+import { enqueueJob } from '@/lib/job-queue';
+import { computePerceptualHashes, hashBands } from '@/lib/perceptual-hash';
+import { prisma } from '@/lib/prisma';
+import { buildOrderKey, findNearDuplicateReceipt } from '@/lib/receipt-duplicates';
+import { parseReceipt } from '@/lib/receipt-parser';
+import { processReceiptFile } from '@/lib/receipt-processor';
+import { buildReceiptReviewData } from '@/lib/receipt-review';
+import { evaluateReceiptRules } from '@/lib/receipt-rules';
+import { readStorageObject } from '@/lib/storage';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -56,6 +65,10 @@ export interface ReceiptProcessingResult {
   requiresManualReview: boolean;
   manualReviewReason: string | null;
   piiDetected: string[];
+  /** The receipt was no longer pending (e.g. an admin decided it first) */
+  skipped?: boolean;
+  /** Whether the failure was transient and the job should be retried */
+  retryable?: boolean;
   error?: string;
 }
 
@@ -63,9 +76,44 @@ export interface ReceiptProcessingResult {
 // JOB PROCESSOR
 // ============================================================================
 
+/**
+ * Result for a receipt that is no longer pending
+ */
+async function skippedResult(receiptId: string): Promise<ReceiptProcessingResult> {
+  console.log(`[Receipt Processor] Receipt ${receiptId} is no longer pending; skipping`);
+
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: { status: true },
+  });
+
+  return {
+    success: false,
+    receiptId,
+    status: receipt?.status ?? ReceiptStatus.PENDING,
+    retailer: null,
+    amount: null,
+    currency: null,
+    bookTitle: null,
+    purchaseDate: null,
+    format: null,
+    confidence: 0,
+    verificationScore: 0,
+    requiresManualReview: false,
+    manualReviewReason: null,
+    piiDetected: [],
+    skipped: true,
+    error: receipt ? 'Receipt is no longer pending' : 'Receipt not found',
+  };
+}
+
 /**
  * Process receipt verification job
  *
+ * Only pending receipts are processed, and every write is conditional on
+ * the receipt still being PENDING, so a re-driven or retried job cannot
+ * overwrite an admin's decision or send the bonus pack again.
+ *
  * @param job - Receipt processing job
  * @returns Processing result
  */
@@ -77,30 +125,38 @@ export async function processReceiptVerification(
   try {
     console.log(`[Receipt Processor] Processing receipt ${receiptId}`);
 
-    // ==================== Update Status to PROCESSING ====================
-    await prisma.receipt.update({
-      where: { id: receiptId },
+    // ==================== Claim Pending Receipt ====================
+    const { count: claimed } = await prisma.receipt.updateMany({
+      where: { id: receiptId, status: ReceiptStatus.PENDING },
       data: { status: ReceiptStatus.PENDING },
     });
 
+    if (claimed === 0) {
+      return await skippedResult(receiptId);
+    }
+
     // ==================== Fetch Receipt File ====================
     const fileBuffer = await fetchReceiptFile(fileUrl);
     const mimeType = getMimeTypeFromUrl(fileUrl);
+    const perceptualHashes = await computeReceiptHashes(receiptId, fileBuffer, mimeType);
 
     // ==================== Step 1: OCR Preprocessing ====================
     console.log(`[Receipt Processor] Extracting text from receipt ${receiptId}`);
     const processingResult = await processReceiptFile(fileBuffer, mimeType);
 
     if (!processingResult.success || !processingResult.redactedText) {
-      // OCR failed
-      await updateReceiptStatus(receiptId, ReceiptStatus.REJECTED, {
-        rejectionReason: processingResult.error || 'OCR extraction failed',
+      // OCR failed (unreadable image, unsupported format) - needs a human
+      const reason = processingResult.error || 'OCR extraction failed';
+      await updateReceiptStatus(receiptId, ReceiptStatus.PENDING, {
+        rejectionReason: `Manual review required: ${reason}`,
+        perceptualHashes,
+        perceptualHashBands: hashBands(perceptualHashes),
       });
 
       return {
         success: false,
         receiptId,
-        status: ReceiptStatus.REJECTED,
+        status: ReceiptStatus.PENDING,
         retailer: null,
         amount: null,
         currency: null,
@@ -109,8 +165,8 @@ export async function processReceiptVerification(
         format: null,
         confidence: 0,
         verificationScore: 0,
-        requiresManualReview: false,
-        manualReviewReason: null,
+        requiresManualReview: true,
+        manualReviewReason: reason,
         piiDetected: [],
         error: processingResult.error,
       };
@@ -118,22 +174,44 @@ export async function processReceiptVerification(
 
     // ==================== Step 2: LLM Parsing ====================
     console.log(`[Receipt Processor] Parsing receipt data with LLM for ${receiptId}`);
-    const parsingResult = await parseReceipt(processingResult.redactedText);
+    const parsingResult = await parseReceipt(processingResult.redactedText, {
+      lines: processingResult.redactedLines,
+      confidence: processingResult.confidence,
+      provider: processingResult.ocrProvider,
+    });
 
     // ==================== Step 3: Fraud Detection ====================
     console.log(`[Receipt Processor] Running fraud detection for ${receiptId}`);
-    const fraudCheck = checkReceiptFraud(parsingResult);
-    const verificationScore = calculateVerificationScore(parsingResult);
+    const ruleEvaluation = evaluateReceiptRules(parsingResult);
+    const verificationScore = ruleEvaluation.score;
+
+    // ==================== Step 4: Near-Duplicate Detection ====================
+    // Catches re-cropped / re-compressed copies that slip past the fileHash check
+    const orderKey = buildOrderKey(parsingResult.retailer, parsingResult.orderNumber);
+    const duplicateCheck = await findNearDuplicateReceipt({
+      receiptId,
+      perceptualHashes,
+      orderKey,
+    });
 
-    // ==================== Step 4: Determine Status ====================
+    // ==================== Step 5: Determine Status ====================
     let finalStatus: ReceiptStatus;
     let requiresManualReview = parsingResult.requiresManualReview;
     let manualReviewReason = parsingResult.manualReviewReason;
 
-    if (fraudCheck.isFraudulent) {
+    if (duplicateCheck.verdict === 'duplicate') {
+      finalStatus = ReceiptStatus.DUPLICATE;
+      manualReviewReason = duplicateCheck.detail;
+      requiresManualReview = false;
+    } else if (ruleEvaluation.isFraudulent) {
       finalStatus = ReceiptStatus.REJECTED;
-      manualReviewReason = `Fraud detected: ${fraudCheck.reasons.join(', ')}`;
+      manualReviewReason = `Fraud detected: ${ruleEvaluation.reasons.join(', ')}`;
       requiresManualReview = false; // Auto-reject fraud
+    } else if (duplicateCheck.verdict === 'review') {
+      // Never auto-verify a possible duplicate
+      finalStatus = ReceiptStatus.PENDING;
+      requiresManualReview = true;
+      manualReviewReason = duplicateCheck.detail;
     } else if (verificationScore >= 80 && parsingResult.confidence >= 0.8) {
       finalStatus = ReceiptStatus.VERIFIED;
       requiresManualReview = false;
@@ -147,23 +225,44 @@ export async function processReceiptVerification(
       requiresManualReview = false;
     }
 
-    // ==================== Step 5: Update Database ====================
+    // ==================== Step 6: Update Database ====================
+    // Parsed fields are kept for the admin review queue
+    const reviewData = buildReceiptReviewData(parsingResult, {
+      provider: processingResult.ocrProvider,
+      confidence: processingResult.confidence,
+      redactedRegions: processingResult.redactedRegions,
+    });
+
     console.log(`[Receipt Processor] Updating receipt ${receiptId} with status ${finalStatus}`);
-    await updateReceiptStatus(receiptId, finalStatus, {
-      retailer: parsingResult.retailer,
+    const updated = await updateReceiptStatus(receiptId, finalStatus, {
+      retailer: parsingResult.retailer ?? undefined,
       purchaseDate: parsingResult.purchaseDate,
       format: parsingResult.format,
       verifiedAt: finalStatus === ReceiptStatus.VERIFIED ? new Date() : null,
       rejectionReason:
-        finalStatus === ReceiptStatus.REJECTED ? manualReviewReason : null,
+        finalStatus === ReceiptStatus.REJECTED || duplicateCheck.verdict !== 'unique'
+          ? manualReviewReason
+          : null,
+      parsedData: reviewData as unknown as Prisma.InputJsonValue,
+      verificationScore,
+      fraudReasons: ruleEvaluation.reasons,
+      ruleEvaluation: ruleEvaluation as unknown as Prisma.InputJsonValue,
+      duplicateOfId: duplicateCheck.match?.receiptId ?? null,
+      orderKey,
+      perceptualHashes,
+      perceptualHashBands: hashBands(perceptualHashes),
     });
 
-    // ==================== Step 6: Handle Bonus Claim ====================
+    if (!updated) {
+      return await skippedResult(receiptId);
+    }
+
+    // ==================== Step 7: Handle Bonus Claim ====================
     if (finalStatus === ReceiptStatus.VERIFIED) {
       await handleBonusClaimApproval(receiptId, userId);
     }
 
-    // ==================== Step 7: Send Notification Email ====================
+    // ==================== Step 8: Send Notification Email ====================
     await sendVerificationNotification(receiptId, userId, finalStatus);
 
     // ==================== Return Result ====================
@@ -208,6 +307,7 @@ export async function processReceiptVerification(
       requiresManualReview: true,
       manualReviewReason: 'Processing error',
       piiDetected: [],
+      retryable: true,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -219,26 +319,38 @@ export async function processReceiptVerification(
 
 /**
  * Fetch receipt file from storage
+ *
+ * `fileUrl` is a storage key (e.g. "receipts/receipt-123.jpg"). Receipts
+ * uploaded before the storage drivers may hold a `/uploads/` path under
+ * `public/` or a public bucket URL instead.
  */
-async function fetchReceiptFile(fileUrl: string): Promise<Buffer> {
-  // If file is stored locally
+export async function fetchReceiptFile(fileUrl: string): Promise<Buffer> {
+  // Legacy: file saved under public/uploads
   if (fileUrl.startsWith('/uploads/')) {
     const filePath = path.join(process.cwd(), 'public', fileUrl);
     return await fs.readFile(filePath);
   }
 
-  // If file is stored in S3/R2 (TODO: implement)
-  // const s3 = new AWS.S3();
-  // const result = await s3.getObject({ Bucket: 'bucket', Key: fileUrl }).promise();
-  // return result.Body as Buffer;
+  // Legacy: public S3/R2 URL
+  if (/^https?:\/\//.test(fileUrl)) {
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch receipt file (HTTP ${response.status})`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
 
-  throw new Error('File storage not configured');
+  const file = await readStorageObject(fileUrl);
+  if (!file) {
+    throw new Error(`Receipt file not found in storage: ${fileUrl}`);
+  }
+  return file;
 }
 
 /**
  * Get MIME type from file URL
  */
-function getMimeTypeFromUrl(fileUrl: string): string {
+export function getMimeTypeFromUrl(fileUrl: string): string {
   const ext = path.extname(fileUrl).toLowerCase();
 
   const mimeTypes: Record<string, string> = {
@@ -253,32 +365,61 @@ function getMimeTypeFromUrl(fileUrl: string): string {
 }
 
 /**
- * Update receipt status in database
+ * Compute perceptual hashes for near-duplicate detection
+ *
+ * Hashing is best-effort: a failure (corrupt image, unrenderable PDF) is
+ * logged and leaves the receipt to the remaining checks.
+ */
+async function computeReceiptHashes(
+  receiptId: string,
+  fileBuffer: Buffer,
+  mimeType: string
+): Promise<string[]> {
+  try {
+    return await computePerceptualHashes(fileBuffer, mimeType);
+  } catch (error) {
+    console.error(`[Receipt Processor] Perceptual hashing failed for receipt ${receiptId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Update a pending receipt's status in the database
+ *
+ * Null values clear their field.
+ *
+ * @returns False if the receipt is no longer pending
  */
 async function updateReceiptStatus(
   receiptId: string,
   status: ReceiptStatus,
   data: {
-    retailer?: string | null;
+    /** Not nullable; omit to keep the current value */
+    retailer?: string;
     purchaseDate?: Date | null;
     format?: string | null;
     verifiedAt?: Date | null;
     verifiedBy?: string | null;
     rejectionReason?: string | null;
+    parsedData?: Prisma.InputJsonValue;
+    verificationScore?: number;
+    fraudReasons?: string[];
+    ruleEvaluation?: Prisma.InputJsonValue;
+    duplicateOfId?: string | null;
+    orderKey?: string | null;
+    perceptualHashes?: string[];
+    perceptualHashBands?: string[];
   }
-): Promise<void> {
-  // Filter out null values for Prisma (null becomes undefined)
-  const filteredData = Object.fromEntries(
-    Object.entries(data).map(([key, value]) => [key, value === null ? undefined : value])
-  );
-
-  await prisma.receipt.update({
-    where: { id: receiptId },
+): Promise<boolean> {
+  const { count } = await prisma.receipt.updateMany({
+    where: { id: receiptId, status: ReceiptStatus.PENDING },
     data: {
       status,
-      ...filteredData,
+      ...data,
     },
   });
+
+  return count > 0;
 }
 
 /**
@@ -338,6 +479,9 @@ async function handleBonusClaimApproval(
         },
       });
 
+      // Bonus entitlements redeemed from VIP codes are now delivered
+      await fulfillEntitlements(userId, ['BONUS_PACK', 'ENHANCED_BONUS']);
+
       console.log(`[Receipt Processor] Bonus pack delivered for claim ${bonusClaim.id}`);
     } else {
       console.error(`[Receipt Processor] Failed to send bonus pack for claim ${bonusClaim.id}:`, emailResult.error);
@@ -379,47 +523,117 @@ async function sendVerificationNotification(
 }
 
 // ============================================================================
-// JOB QUEUE INTEGRATION (Optional)
+// JOB QUEUE INTEGRATION
 // ============================================================================
 
+/**
+ * Durable queue name for receipt verification jobs
+ */
+export const RECEIPT_VERIFICATION_QUEUE = 'receipt-verification';
+
 /**
  * Queue receipt for processing
  *
- * In production, this would add job to BullMQ queue
- * For now, process immediately in background
+ * Persists the job to the durable queue (keyed on receiptId, so repeated
+ * calls for the same receipt are no-ops). The worker in `src/jobs/worker.ts`
+ * picks it up, retrying with exponential backoff on failure.
  *
  * @param job - Receipt processing job
+ * @returns Queue job ID
  */
 export async function queueReceiptProcessing(
   job: ReceiptProcessingJob
-): Promise<void> {
-  // TODO: Integrate with BullMQ
-  // const queue = new Queue('receipt-processing', {
-  //   connection: redis,
-  // });
-  //
-  // await queue.add('process-receipt', job, {
-  //   attempts: 3,
-  //   backoff: {
-  //     type: 'exponential',
-  //     delay: 2000,
-  //   },
-  // });
-
-  // For now, process in background (non-blocking)
-  processReceiptVerification(job)
-    .then((result) => {
-      console.log(`[Receipt Processor] Job completed:`, result);
-    })
-    .catch((error) => {
-      console.error(`[Receipt Processor] Job failed:`, error);
-    });
+): Promise<string> {
+  const { job: queued, created } = await enqueueJob(
+    RECEIPT_VERIFICATION_QUEUE,
+    { ...job },
+    { idempotencyKey: job.receiptId }
+  );
+
+  if (!created) {
+    console.log(
+      `[Receipt Processor] Receipt ${job.receiptId} already queued as job ${queued.id} (${queued.status})`
+    );
+  }
+
+  return queued.id;
+}
+
+/**
+ * Queue handler for receipt verification jobs
+ *
+ * Throws on retryable failures so the queue reschedules the job.
+ */
+export async function handleReceiptVerificationJob(
+  payload: unknown
+): Promise<Prisma.InputJsonValue> {
+  const job = payload as ReceiptProcessingJob;
+
+  if (!job?.receiptId || !job.userId || !job.fileUrl) {
+    throw new Error('Invalid receipt verification job payload');
+  }
+
+  const result = await processReceiptVerification(job);
+
+  if (result.retryable) {
+    throw new Error(result.error || 'Receipt processing failed');
+  }
+
+  return {
+    receiptId: result.receiptId,
+    status: result.status,
+    verificationScore: result.verificationScore,
+    requiresManualReview: result.requiresManualReview,
+  };
 }
 
 // ============================================================================
 // ADMIN MANUAL REVIEW HELPERS
 // ============================================================================
 
+/**
+ * Receipt that cannot be reviewed because it does not exist or was already
+ * decided
+ */
+export class ReceiptNotPendingError extends Error {
+  public readonly statusCode = 409;
+
+  constructor(message: string = 'Receipt not found or no longer pending') {
+    super(message);
+    this.name = 'ReceiptNotPendingError';
+  }
+}
+
+/**
+ * Apply a review decision to a pending receipt
+ *
+ * Conditional on the receipt still being PENDING, so overlapping reviews
+ * (two admins, or a bulk action over a stale list) cannot decide a receipt
+ * twice or re-send its bonus pack.
+ *
+ * @throws ReceiptNotPendingError if the receipt does not exist or was
+ *   already reviewed
+ */
+async function reviewPendingReceipt(
+  receiptId: string,
+  status: ReceiptStatus,
+  data: {
+    verifiedAt?: Date;
+    verifiedBy: string;
+    rejectionReason?: string;
+    duplicateOfId?: string;
+  }
+): Promise<void> {
+  const { count } = await prisma.receipt.updateMany({
+    where: { id: receiptId, status: ReceiptStatus.PENDING },
+    data: { status, ...data },
+  });
+
+  if (count === 0) {
+    throw new ReceiptNotPendingError();
+  }
+}
+
 /**
  * Manually approve receipt
  */
@@ -428,7 +642,7 @@ export async function manuallyApproveReceipt(
   adminId: string,
   notes?: string
 ): Promise<void> {
-  await updateReceiptStatus(receiptId, ReceiptStatus.VERIFIED, {
+  await reviewPendingReceipt(receiptId, ReceiptStatus.VERIFIED, {
     verifiedAt: new Date(),
     verifiedBy: adminId,
   });
@@ -460,9 +674,48 @@ export async function manuallyRejectReceipt(
   adminId: string,
   reason: string
 ): Promise<void> {
-  await updateReceiptStatus(receiptId, ReceiptStatus.REJECTED, {
+  await reviewPendingReceipt(receiptId, ReceiptStatus.REJECTED, {
+    verifiedBy: adminId,
+    rejectionReason: reason,
+  });
+
+  // Update bonus claim
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    include: { bonusClaim: true },
+  });
+
+  if (receipt?.bonusClaim) {
+    await prisma.bonusClaim.update({
+      where: { id: receipt.bonusClaim.id },
+      data: {
+        status: BonusClaimStatus.REJECTED,
+        processedAt: new Date(),
+        processedBy: adminId,
+        adminNotes: reason,
+      },
+    });
+  }
+}
+
+/**
+ * Manually mark receipt as a duplicate
+ *
+ * @param duplicateOfId - Original receipt, when known
+ */
+export async function manuallyMarkDuplicate(
+  receiptId: string,
+  adminId: string,
+  duplicateOfId?: string
+): Promise<void> {
+  const reason = duplicateOfId
+    ? `Duplicate of receipt ${duplicateOfId}`
+    : 'Duplicate receipt';
+
+  await reviewPendingReceipt(receiptId, ReceiptStatus.DUPLICATE, {
     verifiedBy: adminId,
     rejectionReason: reason,
+    duplicateOfId,
   });
 
   // Update bonus claim
@@ -0,0 +1,311 @@
+/**
+ * Background Job Worker
+ *
+ * Drains the durable job queue (see `@/lib/job-queue`), dispatching each
+ * job to the handler registered for its queue.
+ *
+ * Entrypoints:
+ * - Long-running process: `npm run jobs:worker`
+ * - Single drain (cron / serverless): `npm run jobs:worker -- --once`
+ *   or `GET /api/cron/jobs` (`GET /api/cron/plan-generation` for plans)
+ * - A single job right after it is enqueued: `runJobNow`
+ */
+
+import { type Job, type Prisma } from '@prisma/client';
+import { hostname } from 'os';
+
+import { handleEmailDeliveryJob } from './email-delivery';
+import { handleNewsletterBroadcastJob } from './newsletter-broadcast';
+import { handleAutoJoinBackfillJob, handleAutoJoinDigestJob } from './org-auto-join';
+import { handlePlanGenerationAbandoned, handlePlanGenerationJob } from './plan-generation';
+import {
+  RECEIPT_VERIFICATION_QUEUE,
+  handleReceiptVerificationJob,
+} from './receipt-processor';
+
+import { EMAIL_DELIVERY_QUEUE } from '@/lib/email-outbox';
+import {
+  claimJob,
+  claimNextJob,
+  completeJob,
+  failJob,
+  releaseStaleJobs,
+} from '@/lib/job-queue';
+import { NEWSLETTER_BROADCAST_QUEUE } from '@/lib/newsletter-campaigns';
+import {
+  ORG_AUTO_JOIN_BACKFILL_QUEUE,
+  ORG_AUTO_JOIN_DIGEST_QUEUE,
+} from '@/lib/org-auto-join';
+import {
+  ORG_PLAN_GENERATION_QUEUE,
+  PLAN_GENERATION_STALE_LOCK_MS,
+} from '@/lib/plan-generation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Job handler - throw to retry, return to complete
+ */
+export type JobHandler = (
+  payload: unknown,
+  job: Job
+) => Promise<Prisma.InputJsonValue | void>;
+
+/**
+ * Why a job stopped without completing
+ */
+export type JobAbandonReason = 'timed-out' | 'dead-lettered';
+
+/**
+ * Cleanup for a job that will not complete its current attempt
+ *
+ * Called when a job is dead-lettered, or when its worker timed out (whether
+ * or not the job is retried).
+ */
+export type JobAbandonedHandler = (
+  payload: unknown,
+  job: Job,
+  reason: JobAbandonReason
+) => Promise<void>;
+
+/**
+ * Options for a single drain pass
+ */
+export interface RunJobsOptions {
+  /** Queues to process (defaults to all registered queues) */
+  queues?: string[];
+  /** Maximum jobs to process in this pass */
+  maxJobs?: number;
+  /** Worker identifier stored on claimed jobs */
+  workerId?: string;
+}
+
+/**
+ * Summary of a drain pass
+ */
+export interface RunJobsSummary {
+  processed: number;
+  completed: number;
+  failed: number;
+  deadLettered: number;
+  released: number;
+}
+
+/**
+ * Options for the long-running worker loop
+ */
+export interface WorkerLoopOptions extends RunJobsOptions {
+  /** Delay between polls when the queue is empty (ms) */
+  pollIntervalMs?: number;
+  /** Abort to stop the loop after the current job */
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// HANDLER REGISTRY
+// ============================================================================
+
+/**
+ * Handlers per queue name
+ */
+export const jobHandlers: Record<string, JobHandler> = {
+  [RECEIPT_VERIFICATION_QUEUE]: handleReceiptVerificationJob,
+  [EMAIL_DELIVERY_QUEUE]: handleEmailDeliveryJob,
+  [NEWSLETTER_BROADCAST_QUEUE]: handleNewsletterBroadcastJob,
+  [ORG_AUTO_JOIN_BACKFILL_QUEUE]: handleAutoJoinBackfillJob,
+  [ORG_AUTO_JOIN_DIGEST_QUEUE]: handleAutoJoinDigestJob,
+  [ORG_PLAN_GENERATION_QUEUE]: handlePlanGenerationJob,
+};
+
+/**
+ * Abandoned-job handlers per queue name (optional)
+ */
+export const jobAbandonedHandlers: Record<string, JobAbandonedHandler> = {
+  [ORG_PLAN_GENERATION_QUEUE]: handlePlanGenerationAbandoned,
+};
+
+/**
+ * Stale lock thresholds per queue name (defaults to `STALE_LOCK_MS`)
+ */
+export const jobStaleLockMs: Record<string, number> = {
+  [ORG_PLAN_GENERATION_QUEUE]: PLAN_GENERATION_STALE_LOCK_MS,
+};
+
+/**
+ * Default worker identifier (host + pid)
+ */
+function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Summary with nothing processed yet
+ */
+function emptySummary(): RunJobsSummary {
+  return {
+    processed: 0,
+    completed: 0,
+    failed: 0,
+    deadLettered: 0,
+    released: 0,
+  };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Run the abandoned-job handler for a job's queue, if any
+ *
+ * Errors are logged rather than thrown so they do not block the worker.
+ */
+async function abandonJob(job: Job, reason: JobAbandonReason): Promise<void> {
+  const handler = jobAbandonedHandlers[job.queue];
+  if (!handler) {
+    return;
+  }
+
+  try {
+    await handler(job.payload, job, reason);
+  } catch (error) {
+    console.error(`[Job Worker] Cleanup for abandoned job ${job.id} (${job.queue}) failed:`, error);
+  }
+}
+
+/**
+ * Execute a single claimed job and record the outcome
+ */
+async function executeJob(
+  job: Job,
+  summary: RunJobsSummary
+): Promise<void> {
+  const handler = jobHandlers[job.queue];
+  summary.processed++;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for queue "${job.queue}"`);
+    }
+
+    const result = await handler(job.payload, job);
+    await completeJob(job.id, result ?? undefined);
+    summary.completed++;
+  } catch (error) {
+    const updated = await failJob(job, error);
+    summary.failed++;
+
+    if (updated.status === 'DEAD') {
+      summary.deadLettered++;
+      console.error(
+        `[Job Worker] Job ${job.id} (${job.queue}) dead-lettered after ${job.attempts} attempts:`,
+        error
+      );
+      await abandonJob(updated, 'dead-lettered');
+    } else {
+      console.warn(
+        `[Job Worker] Job ${job.id} (${job.queue}) attempt ${job.attempts}/${job.maxAttempts} failed; retrying at ${updated.runAt.toISOString()}`
+      );
+    }
+  }
+}
+
+/**
+ * Drain due jobs once
+ *
+ * Processes up to `maxJobs` jobs across the given queues and returns.
+ * Suitable for cron triggers and serverless functions.
+ */
+export async function runJobsOnce(
+  options: RunJobsOptions = {}
+): Promise<RunJobsSummary> {
+  const {
+    queues = Object.keys(jobHandlers),
+    maxJobs = 25,
+    workerId = defaultWorkerId(),
+  } = options;
+
+  const summary = emptySummary();
+
+  for (const queue of queues) {
+    const released = await releaseStaleJobs(queue, jobStaleLockMs[queue]);
+    summary.released += released.length;
+
+    for (const job of released) {
+      await abandonJob(job, 'timed-out');
+    }
+  }
+
+  let idleQueues = 0;
+  let queueIndex = 0;
+
+  // Round-robin across queues until all are empty or the budget is spent
+  while (summary.processed < maxJobs && idleQueues < queues.length) {
+    const queue = queues[queueIndex % queues.length];
+    queueIndex++;
+
+    const job = await claimNextJob(queue, workerId);
+    if (!job) {
+      idleQueues++;
+      continue;
+    }
+
+    idleQueues = 0;
+    await executeJob(job, summary);
+  }
+
+  return summary;
+}
+
+/**
+ * Run one job straight away
+ *
+ * For work that should start as soon as it is enqueued (e.g. from `after()`
+ * in the route that enqueued it). Does nothing if a worker already claimed
+ * the job; failures are retried by the worker like any other job.
+ */
+export async function runJobNow(
+  jobId: string,
+  workerId: string = defaultWorkerId()
+): Promise<RunJobsSummary> {
+  const summary = emptySummary();
+
+  const job = await claimJob(jobId, workerId);
+  if (job) {
+    await executeJob(job, summary);
+  }
+
+  return summary;
+}
+
+/**
+ * Run the worker until aborted
+ */
+export async function runWorkerLoop(
+  options: WorkerLoopOptions = {}
+): Promise<void> {
+  const { pollIntervalMs = 5000, signal, ...runOptions } = options;
+
+  while (!signal?.aborted) {
+    const summary = await runJobsOnce(runOptions);
+
+    if (summary.processed > 0) {
+      console.log('[Job Worker] Pass complete:', summary);
+      continue;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, pollIntervalMs);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { buildAnalyticsEventRecords, ingestAnalyticsEvents } from '../analytics-ingest';
+
+import { analyticsQueries } from '@/lib/db/queries';
+import { AnalyticsEventBatchSchema, type AnalyticsEventBatchInput } from '@/lib/validation';
+
+vi.mock('@/lib/db/queries', () => ({
+  analyticsQueries: {
+    trackMany: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/**
+ * Validated batch with the given overrides
+ */
+function buildBatch(overrides: Record<string, unknown> = {}): AnalyticsEventBatchInput {
+  return AnalyticsEventBatchSchema.parse({
+    consent: { analytics: true },
+    context: {
+      sessionId: 'session-1234',
+      referrer: 'https://news.example.com/article',
+      utmSource: 'newsletter',
+      utmCampaign: 'launch',
+      geo: 'UK',
+    },
+    events: [
+      {
+        event: 'preorder_click',
+        timestamp: '2026-10-19T11:59:00.000Z',
+        properties: { book: 'ai-born', retailer: 'amazon', format: 'hardcover', geo: 'UK' },
+      },
+    ],
+    ...overrides,
+  });
+}
+
+describe('Analytics Ingestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should map events onto AnalyticsEventType with session, UTM and geo', () => {
+    const [record] = buildAnalyticsEventRecords(buildBatch(), {
+      consented: true,
+      userId: 'user_1',
+      userAgent: 'Mozilla/5.0',
+      now: NOW,
+    });
+
+    expect(record).toEqual({
+      eventType: 'PREORDER_CLICK',
+      eventName: 'preorder_click',
+      properties: { retailer: 'amazon', format: 'hardcover', geo: 'UK' },
+      sessionId: 'session-1234',
+      userId: 'user_1',
+      userAgent: 'Mozilla/5.0',
+      referrer: 'https://news.example.com/article',
+      utmSource: 'newsletter',
+      utmMedium: undefined,
+      utmCampaign: 'launch',
+      utmContent: undefined,
+      utmTerm: undefined,
+      geo: 'UK',
+      timestamp: new Date('2026-10-19T11:59:00.000Z'),
+    });
+  });
+
+  it('should keep only anonymous fields without consent', () => {
+    const [record] = buildAnalyticsEventRecords(buildBatch(), {
+      consented: false,
+      userId: 'user_1',
+      userAgent: 'Mozilla/5.0',
+      now: NOW,
+    });
+
+    expect(record).toMatchObject({ utmSource: 'newsletter', geo: 'UK' });
+    expect(record.sessionId).toBeUndefined();
+    expect(record.userId).toBeUndefined();
+    expect(record.userAgent).toBeUndefined();
+    expect(record.referrer).toBeUndefined();
+  });
+
+  it('should strip identifying and nested properties', () => {
+    const batch = buildBatch({
+      events: [
+        {
+          event: 'presskit_download',
+          properties: {
+            asset_type: 'full_kit',
+            user_email: 'journalist@example.com',
+            user_name: 'Jo Reporter',
+            nested: { email: 'x@example.com' },
+            title: 'x'.repeat(500),
+          },
+        },
+      ],
+    });
+
+    const [record] = buildAnalyticsEventRecords(batch, { consented: true, now: NOW });
+
+    expect(record.properties).toEqual({ asset_type: 'full_kit', title: 'x'.repeat(200) });
+  });
+
+  it('should replace implausible client timestamps with the receive time', () => {
+    const batch = buildBatch({
+      events: [
+        { event: 'faq_open', timestamp: '2026-10-10T00:00:00.000Z' },
+        { event: 'faq_open', timestamp: '2026-10-19T13:00:00.000Z' },
+      ],
+    });
+
+    const records = buildAnalyticsEventRecords(batch, { consented: true, now: NOW });
+
+    expect(records.map((record) => record.timestamp)).toEqual([NOW, NOW]);
+  });
+
+  it('should drop unmapped events and report the counts', async () => {
+    const batch = buildBatch({
+      events: [
+        { event: 'hero_cta_click', properties: { cta_id: 'preorder' } },
+        { event: 'scroll_depth', properties: { pct: 50 } },
+        { event: 'toString' },
+      ],
+    });
+
+    const result = await ingestAnalyticsEvents(batch, { consented: true, now: NOW });
+
+    expect(result).toEqual({ accepted: 1, dropped: 2 });
+    expect(analyticsQueries.trackMany).toHaveBeenCalledWith([
+      expect.objectContaining({ eventType: 'HERO_CTA_CLICK', eventName: 'hero_cta_click' }),
+    ]);
+  });
+
+  it('should reject oversized batches', () => {
+    const events = Array.from({ length: 26 }, () => ({ event: 'faq_open' }));
+
+    expect(
+      AnalyticsEventBatchSchema.safeParse({ consent: { analytics: true }, events }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  auditLogsToCsv,
+  buildAuditLogWhere,
+  diffAuditState,
+  recordAuditEvent,
+} from '../audit-log';
+
+import { prisma } from '@/lib/prisma';
+
+import type { AuditLog } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+function buildEntry(overrides: Partial<AuditLog> = {}): AuditLog {
+  return {
+    id: 'log_1',
+    actorType: 'ADMIN',
+    actorId: 'admin@example.com',
+    action: 'RECEIPT_APPROVE',
+    entityType: 'receipts',
+    entityId: 'receipt_1',
+    before: { status: 'PENDING' },
+    after: { status: 'VERIFIED' },
+    details: null,
+    ipAddress: '203.0.113.7',
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64)',
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Audit Log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should build filters from actor, entity, action and date range', () => {
+    const from = new Date('2026-03-01T00:00:00Z');
+    const to = new Date('2026-03-31T23:59:59Z');
+
+    expect(
+      buildAuditLogWhere({
+        actorId: 'admin@',
+        entityType: 'receipts',
+        entityId: 'receipt_1',
+        action: 'RECEIPT_APPROVE',
+        from,
+        to,
+      })
+    ).toEqual({
+      actorId: { contains: 'admin@', mode: 'insensitive' },
+      entityType: 'receipts',
+      entityId: 'receipt_1',
+      action: 'RECEIPT_APPROVE',
+      createdAt: { gte: from, lte: to },
+    });
+    expect(buildAuditLogWhere({ to })).toEqual({ createdAt: { lte: to } });
+    expect(buildAuditLogWhere({})).toEqual({});
+  });
+
+  it('should reduce snapshots to the changed fields', () => {
+    expect(
+      diffAuditState(
+        { name: 'Acme', domain: 'acme.com', settings: { sso: false } },
+        { name: 'Acme Inc', domain: 'acme.com', settings: { sso: true } }
+      )
+    ).toEqual({
+      before: { name: 'Acme', settings: { sso: false } },
+      after: { name: 'Acme Inc', settings: { sso: true } },
+    });
+  });
+
+  it('should store dates in before/after state as ISO strings', async () => {
+    await recordAuditEvent({
+      actorType: 'USER',
+      actorId: 'user_1',
+      action: 'ORG_UPDATE',
+      entityType: 'orgs',
+      entityId: 'org_1',
+      after: { domainVerifiedAt: new Date('2026-03-01T12:00:00Z') },
+    });
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        after: { domainVerifiedAt: '2026-03-01T12:00:00.000Z' },
+        before: undefined,
+      }),
+    });
+  });
+
+  it('should not throw when the insert fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(prisma.auditLog.create).mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(
+      recordAuditEvent({
+        actorType: 'SYSTEM',
+        actorId: 'receipt-processor',
+        action: 'RECEIPT_VERIFY',
+        entityType: 'receipts',
+      })
+    ).resolves.toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalled();
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should export CSV with escaped cells', () => {
+    const csv = auditLogsToCsv([
+      buildEntry({ details: { notes: 'Looks fine, "approved"' } }),
+      buildEntry({ id: 'log_2', actorId: '=HYPERLINK("http://evil")', before: null, after: null }),
+    ]);
+    const [header, first, second] = csv.split('\n');
+
+    expect(header).toBe(
+      'createdAt,actorType,actorId,action,entityType,entityId,before,after,details,ipAddress,userAgent'
+    );
+    expect(first).toBe(
+      '2026-03-01T12:00:00.000Z,ADMIN,admin@example.com,RECEIPT_APPROVE,receipts,receipt_1,' +
+        '"{""status"":""PENDING""}","{""status"":""VERIFIED""}",' +
+        '"{""notes"":""Looks fine, \\""approved\\""""}",203.0.113.7,Mozilla/5.0 (X11; Linux x86_64)'
+    );
+    // Formula prefixes are neutralized
+    expect(second).toContain(`"'=HYPERLINK(""http://evil"")"`);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { extendCampaign, getCampaignFunnels, revokeCampaign } from '../code-campaigns';
+import { fulfillEntitlements } from '../code-redemption';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    code: {
+      groupBy: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    codeCampaign: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    entitlement: {
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+describe('Code Campaigns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((async (operations: unknown[]) =>
+      Promise.all(operations)) as never);
+  });
+
+  it('should assemble funnels from per-step counts', async () => {
+    vi.mocked(prisma.code.groupBy).mockImplementation((async ({
+      where,
+      _sum,
+    }: {
+      where: Record<string, unknown>;
+      _sum?: unknown;
+    }) => {
+      if (_sum) {
+        return [{ campaignId: 'camp_1', _sum: { redemptionCount: 45 } }];
+      }
+      const counts: Record<string, number> = where.firstValidatedAt
+        ? { camp_1: 60 }
+        : where.redemptionCount
+          ? { camp_1: 40 }
+          : where.entitlements
+            ? { camp_1: 12 }
+            : { camp_1: 100, camp_2: 5 };
+      return Object.entries(counts).map(([campaignId, count]) => ({
+        campaignId,
+        _count: { _all: count },
+      }));
+    }) as never);
+
+    const funnels = await getCampaignFunnels(['camp_1', 'camp_2']);
+
+    expect(funnels.get('camp_1')).toEqual({
+      issued: 100,
+      validated: 60,
+      redeemed: 40,
+      fulfilled: 12,
+      redemptions: 45,
+    });
+    expect(funnels.get('camp_2')).toEqual({
+      issued: 5,
+      validated: 0,
+      redeemed: 0,
+      fulfilled: 0,
+      redemptions: 0,
+    });
+  });
+
+  it('should count codes whose entitlements were fulfilled on delivery', async () => {
+    vi.mocked(prisma.entitlement.updateMany).mockResolvedValue({ count: 1 });
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    expect(await fulfillEntitlements('user_1', ['BONUS_PACK', 'ENHANCED_BONUS'], now)).toBe(1);
+    const [{ data: written }] = vi.mocked(prisma.entitlement.updateMany).mock.calls[0];
+    expect(written).toEqual({ status: 'FULFILLED', fulfilledAt: now });
+
+    // The funnel's fulfilled stage matches what fulfillment writes
+    vi.mocked(prisma.code.groupBy).mockImplementation((async ({
+      where,
+      _sum,
+    }: {
+      where: { entitlements?: { some: { status: string } } };
+      _sum?: unknown;
+    }) => {
+      if (_sum) {
+        return [];
+      }
+      const fulfilled = where.entitlements?.some.status === written.status;
+      return where.entitlements && !fulfilled ? [] : [{ campaignId: 'camp_1', _count: { _all: 1 } }];
+    }) as never);
+
+    expect((await getCampaignFunnels(['camp_1'])).get('camp_1')?.fulfilled).toBe(1);
+  });
+
+  it('should skip queries for an empty campaign list', async () => {
+    expect((await getCampaignFunnels([])).size).toBe(0);
+    expect(prisma.code.groupBy).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the campaign and only its active codes', async () => {
+    vi.mocked(prisma.codeCampaign.findUnique).mockResolvedValue({ id: 'camp_1' } as never);
+    vi.mocked(prisma.code.updateMany).mockResolvedValue({ count: 37 });
+
+    expect(await revokeCampaign('camp_1')).toEqual({ revokedCodes: 37 });
+    expect(prisma.codeCampaign.update).toHaveBeenCalledWith({
+      where: { id: 'camp_1' },
+      data: { status: 'REVOKED' },
+    });
+    expect(prisma.code.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'camp_1', status: 'ACTIVE' },
+      data: { status: 'REVOKED' },
+    });
+  });
+
+  it('should extend active and expired codes to the new end date', async () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const endsAt = new Date('2026-06-30T23:59:59Z');
+    vi.mocked(prisma.codeCampaign.findUnique).mockResolvedValue({ status: 'ACTIVE' } as never);
+    vi.mocked(prisma.code.updateMany).mockResolvedValue({ count: 80 });
+
+    expect(await extendCampaign('camp_1', endsAt, now)).toEqual({ updatedCodes: 80 });
+    expect(prisma.code.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'camp_1', status: { in: ['ACTIVE', 'EXPIRED'] } },
+      data: { status: 'ACTIVE', validUntil: endsAt },
+    });
+  });
+
+  it('should not extend revoked campaigns or into the past', async () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    vi.mocked(prisma.codeCampaign.findUnique).mockResolvedValue({ status: 'REVOKED' } as never);
+
+    expect(await extendCampaign('camp_1', new Date('2026-06-30T00:00:00Z'), now)).toBeNull();
+    await expect(
+      extendCampaign('camp_1', new Date('2026-02-01T00:00:00Z'), now)
+    ).rejects.toThrow('New end date must be in the future');
+    expect(prisma.code.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createCodeInvites, resolveCodeInvite } from '../code-invites';
+
+import { generateAndSaveCodes } from '@/lib/code-generator';
+import { generateNewsletterConfirmationToken, verifyCodeInviteToken } from '@/lib/tokens';
+
+vi.hoisted(() => {
+  process.env.NEXTAUTH_SECRET = 'test-invite-secret';
+});
+
+vi.mock('@/lib/code-generator', () => ({
+  generateAndSaveCodes: vi.fn(),
+}));
+
+/**
+ * Token query parameter from an invite URL
+ */
+function tokenFromUrl(url: string): string {
+  return new URL(url).searchParams.get('invite') ?? '';
+}
+
+describe('Code Invites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should issue one single-use code per unique email', async () => {
+    const validUntil = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    vi.mocked(generateAndSaveCodes).mockResolvedValue([
+      {
+        id: 'code_1',
+        code: 'ABC234',
+        type: 'MEDIA',
+        validFrom: new Date(),
+        validUntil,
+        recipientEmail: 'editor@press.example',
+      },
+    ]);
+
+    const invites = await createCodeInvites({
+      emails: ['Editor@Press.example', ' editor@press.example '],
+      type: 'MEDIA',
+      createdBy: 'admin@ai-born.org',
+    });
+
+    expect(generateAndSaveCodes).toHaveBeenCalledWith(
+      expect.objectContaining({
+        count: 1,
+        recipientEmails: ['editor@press.example'],
+        maxRedemptions: 1,
+      })
+    );
+    expect(invites).toEqual([
+      expect.objectContaining({
+        email: 'editor@press.example',
+        code: 'ABC234',
+        expiresAt: validUntil,
+      }),
+    ]);
+    expect(invites[0].url).toMatch(/\/redeem\?invite=/);
+    expect(resolveCodeInvite(tokenFromUrl(invites[0].url))).toEqual({
+      code: 'ABC234',
+      email: 'editor@press.example',
+    });
+  });
+
+  it('should reject tampered invite tokens', async () => {
+    vi.mocked(generateAndSaveCodes).mockResolvedValue([
+      {
+        id: 'code_1',
+        code: 'ABC234',
+        type: 'MEDIA',
+        validFrom: new Date(),
+        validUntil: null,
+        recipientEmail: 'editor@press.example',
+      },
+    ]);
+
+    const [invite] = await createCodeInvites({
+      emails: ['editor@press.example'],
+      type: 'MEDIA',
+      createdBy: 'admin@ai-born.org',
+    });
+    const [header, payload, signature] = tokenFromUrl(invite.url).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+        email: 'attacker@example.com',
+      })
+    ).toString('base64url');
+
+    expect(verifyCodeInviteToken(`${header}.${forged}.${signature}`)).toMatchObject({
+      valid: false,
+      error: 'invalid',
+    });
+    expect(resolveCodeInvite('not-a-token')).toBeNull();
+  });
+
+  it('should not accept other tokens signed with the same secret', () => {
+    const newsletterToken = generateNewsletterConfirmationToken('reader@example.com');
+
+    expect(verifyCodeInviteToken(newsletterToken)).toMatchObject({
+      valid: false,
+      error: 'invalid',
+    });
+  });
+});
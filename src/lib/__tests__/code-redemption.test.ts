@@ -0,0 +1,309 @@
+import { Prisma, type Code, type Entitlement } from '@prisma/client';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { redeemCodeForUser } from '../code-redemption';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+  },
+}));
+
+// ============================================================================
+// IN-MEMORY DATABASE
+// ============================================================================
+
+/**
+ * Minimal in-memory stand-in for the code / entitlement tables.
+ *
+ * Every query yields to the event loop first, so concurrent redemptions
+ * interleave between their read and their write like separate connections.
+ */
+function createFakeDatabase(
+  initialCodes: Code[],
+  campaigns: Array<{ id: string; redemptionBudget: number | null }> = []
+) {
+  const codes = new Map(initialCodes.map((code) => [code.id, { ...code }]));
+  const entitlements: Entitlement[] = [];
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const tx = {
+    code: {
+      findUnique: vi.fn(async ({ where }: { where: { code: string } }) => {
+        await tick();
+        const code = Array.from(codes.values()).find((c) => c.code === where.code);
+        return code ? { ...code } : null;
+      }),
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: Pick<Code, 'id' | 'status' | 'redemptionCount'>;
+          data: Partial<Code>;
+        }) => {
+          await tick();
+          // The compare-and-set itself is atomic, as a single UPDATE is
+          const code = codes.get(where.id);
+          if (
+            !code ||
+            code.status !== where.status ||
+            code.redemptionCount !== where.redemptionCount
+          ) {
+            return { count: 0 };
+          }
+          Object.assign(code, data);
+          return { count: 1 };
+        }
+      ),
+      aggregate: vi.fn(async ({ where }: { where: { campaignId: string } }) => {
+        await tick();
+        const redemptionCount = Array.from(codes.values())
+          .filter((c) => c.campaignId === where.campaignId)
+          .reduce((sum, c) => sum + c.redemptionCount, 0);
+        return { _sum: { redemptionCount } };
+      }),
+    },
+    codeCampaign: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => {
+        await tick();
+        return campaigns.find((campaign) => campaign.id === where.id) ?? null;
+      }),
+    },
+    entitlement: {
+      findFirst: vi.fn(async ({ where }: { where: { userId: string; codeId: string } }) => {
+        await tick();
+        return (
+          entitlements.find((e) => e.userId === where.userId && e.codeId === where.codeId) ?? null
+        );
+      }),
+      create: vi.fn(async ({ data }: { data: Partial<Entitlement> }) => {
+        await tick();
+        const entitlement = {
+          id: `ent_${entitlements.length + 1}`,
+          createdAt: new Date(),
+          ...data,
+        } as Entitlement;
+        entitlements.push(entitlement);
+        return entitlement;
+      }),
+    },
+  };
+
+  vi.mocked(prisma.$transaction).mockImplementation((async (
+    fn: (client: typeof tx) => Promise<unknown>
+  ) => fn(tx)) as never);
+
+  return { codes, entitlements, tx };
+}
+
+function buildCode(overrides: Partial<Code> = {}): Code {
+  return {
+    id: 'code_1',
+    code: 'ABC234',
+    type: 'VIP_PREVIEW',
+    status: 'ACTIVE',
+    description: null,
+    maxRedemptions: 1,
+    redemptionCount: 0,
+    validFrom: new Date('2026-01-01T00:00:00Z'),
+    validUntil: null,
+    createdBy: null,
+    recipientEmail: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    orgId: null,
+    campaignId: null,
+    validationCount: 0,
+    firstValidatedAt: null,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Code Redemption', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should redeem a single-use code and grant mapped entitlements', async () => {
+    const db = createFakeDatabase([buildCode({ type: 'PARTNER' })]);
+
+    const result = await redeemCodeForUser({
+      code: 'abc-234',
+      userId: 'user_1',
+      metadata: { retailer: 'amazon' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 1, status: 'REDEEMED' });
+    expect(db.entitlements.map((e) => e.type)).toEqual(['BONUS_PACK', 'BULK_DISCOUNT']);
+    expect(db.entitlements[0]).toMatchObject({
+      userId: 'user_1',
+      codeId: 'code_1',
+      status: 'ACTIVE',
+      metadata: { retailer: 'amazon' },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: 'Serializable',
+    });
+  });
+
+  it('should keep multi-use codes active until the last redemption', async () => {
+    const db = createFakeDatabase([buildCode({ maxRedemptions: 2 })]);
+
+    await redeemCodeForUser({ code: 'ABC234', userId: 'user_1' });
+    expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 1, status: 'ACTIVE' });
+
+    await redeemCodeForUser({ code: 'ABC234', userId: 'user_2' });
+    expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 2, status: 'REDEEMED' });
+  });
+
+  it('should never exhaust unlimited codes', async () => {
+    const db = createFakeDatabase([buildCode({ maxRedemptions: null, redemptionCount: 500 })]);
+
+    const result = await redeemCodeForUser({ code: 'ABC234', userId: 'user_1' });
+
+    expect(result.success).toBe(true);
+    expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 501, status: 'ACTIVE' });
+  });
+
+  it.each([
+    ['revoked', { status: 'REVOKED' as const }],
+    ['expired', { status: 'EXPIRED' as const }],
+    ['expired', { validUntil: new Date('2026-02-01T00:00:00Z') }],
+    ['not_yet_valid', { validFrom: new Date('2026-06-01T00:00:00Z') }],
+    ['already_redeemed', { status: 'REDEEMED' as const, redemptionCount: 1 }],
+  ])('should refuse %s codes without writing', async (reason, overrides) => {
+    const db = createFakeDatabase([buildCode(overrides)]);
+
+    const result = await redeemCodeForUser({
+      code: 'ABC234',
+      userId: 'user_1',
+      now: new Date('2026-03-01T00:00:00Z'),
+    });
+
+    expect(result).toMatchObject({ success: false, reason });
+    expect(db.tx.code.updateMany).not.toHaveBeenCalled();
+    expect(db.entitlements).toHaveLength(0);
+  });
+
+  it('should report unknown codes', async () => {
+    createFakeDatabase([]);
+
+    expect(await redeemCodeForUser({ code: 'ZZZ999', userId: 'user_1' })).toEqual({
+      success: false,
+      reason: 'not_found',
+      code: null,
+    });
+  });
+
+  it('should not let a user redeem the same code twice', async () => {
+    createFakeDatabase([buildCode({ maxRedemptions: 5 })]);
+
+    await redeemCodeForUser({ code: 'ABC234', userId: 'user_1' });
+    const second = await redeemCodeForUser({ code: 'ABC234', userId: 'user_1' });
+
+    expect(second).toMatchObject({ success: false, reason: 'duplicate_redemption' });
+  });
+
+  it('should stop redemptions once the campaign budget is used', async () => {
+    const db = createFakeDatabase(
+      [
+        buildCode({ campaignId: 'camp_1', redemptionCount: 1, status: 'REDEEMED' }),
+        buildCode({ id: 'code_2', code: 'DEF567', campaignId: 'camp_1' }),
+      ],
+      [{ id: 'camp_1', redemptionBudget: 1 }]
+    );
+
+    const result = await redeemCodeForUser({ code: 'DEF567', userId: 'user_1' });
+
+    expect(result).toMatchObject({ success: false, reason: 'campaign_exhausted' });
+    expect(db.tx.code.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should only redeem invite codes for their recipient', async () => {
+    const db = createFakeDatabase([buildCode({ recipientEmail: 'editor@press.example' })]);
+
+    const stranger = await redeemCodeForUser({
+      code: 'ABC234',
+      userId: 'user_2',
+      email: 'someone@else.example',
+    });
+    expect(stranger).toMatchObject({ success: false, reason: 'recipient_mismatch' });
+    expect(db.tx.code.updateMany).not.toHaveBeenCalled();
+
+    const recipient = await redeemCodeForUser({
+      code: 'ABC234',
+      userId: 'user_1',
+      email: 'Editor@Press.example',
+    });
+    expect(recipient.success).toBe(true);
+  });
+
+  describe('concurrency', () => {
+    it('should let only one of two concurrent redemptions of a single-use code succeed', async () => {
+      const db = createFakeDatabase([buildCode()]);
+
+      const results = await Promise.all([
+        redeemCodeForUser({ code: 'ABC234', userId: 'user_1' }),
+        redeemCodeForUser({ code: 'ABC234', userId: 'user_2' }),
+      ]);
+
+      const successes = results.filter((result) => result.success);
+      const failures = results.filter((result) => !result.success);
+
+      expect(successes).toHaveLength(1);
+      expect(failures).toEqual([expect.objectContaining({ reason: 'already_redeemed' })]);
+      expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 1, status: 'REDEEMED' });
+      expect(db.entitlements).toHaveLength(1);
+      // Both read the code before either wrote; the loser retried
+      expect(db.tx.code.updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never exceed maxRedemptions under contention', async () => {
+      const db = createFakeDatabase([buildCode({ maxRedemptions: 3 })]);
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, (_, i) =>
+          redeemCodeForUser({ code: 'ABC234', userId: `user_${i}` })
+        )
+      );
+
+      expect(results.filter((result) => result.success)).toHaveLength(3);
+      expect(db.codes.get('code_1')).toMatchObject({ redemptionCount: 3, status: 'REDEEMED' });
+      expect(db.entitlements).toHaveLength(3);
+    });
+
+    it('should retry serialization failures', async () => {
+      const db = createFakeDatabase([buildCode()]);
+      vi.mocked(prisma.$transaction).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', {
+          code: 'P2034',
+          clientVersion: '6.0.0',
+        })
+      );
+
+      const result = await redeemCodeForUser({ code: 'ABC234', userId: 'user_1' });
+
+      expect(result.success).toBe(true);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(db.entitlements).toHaveLength(1);
+    });
+
+    it('should not retry other errors', async () => {
+      createFakeDatabase([buildCode()]);
+      vi.mocked(prisma.$transaction).mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(redeemCodeForUser({ code: 'ABC234', userId: 'user_1' })).rejects.toThrow(
+        'connection lost'
+      );
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { getDripRetailerLinks, runDripTick, startDripSequence } from '../drip-sequences';
+
+import { sendDripEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    dripEnrollment: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    newsletterSubscriber: {
+      findUnique: vi.fn(),
+    },
+    receipt: {
+      count: vi.fn(),
+    },
+    bonusClaim: {
+      count: vi.fn(),
+    },
+    retailerSelection: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendDripEmail: vi.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/**
+ * Stored enrollment with the given overrides
+ */
+function buildEnrollment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'de_1',
+    email: 'reader@example.com',
+    name: 'Alex',
+    sequenceId: 'excerpt-nurture',
+    source: 'HERO_EXCERPT',
+    geo: 'UK',
+    status: 'ACTIVE',
+    stepIndex: 1,
+    nextSendAt: NOW,
+    attempts: 0,
+    createdAt: new Date(NOW.getTime() - 3 * DAY_MS),
+    ...overrides,
+  };
+}
+
+/**
+ * Data passed to each dripEnrollment.update call
+ */
+function updates() {
+  return vi.mocked(prisma.dripEnrollment.update).mock.calls.map(([args]) => args.data);
+}
+
+describe('Drip Sequences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('BOOK_LAUNCH_DATE', '2026-11-10T00:00:00.000Z');
+    vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.receipt.count).mockResolvedValue(0);
+    vi.mocked(prisma.retailerSelection.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.bonusClaim.count).mockResolvedValue(0);
+    vi.mocked(prisma.dripEnrollment.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.dripEnrollment.create).mockImplementation((async ({ data }: { data: object }) => ({
+      id: 'de_1',
+      status: 'ACTIVE',
+      stepIndex: 0,
+      attempts: 0,
+      ...data,
+    })) as never);
+    vi.mocked(sendDripEmail).mockResolvedValue({ success: true, messageId: 're_1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('startDripSequence', () => {
+    it('should send the excerpt straight away and schedule the day 3 teaser', async () => {
+      const started = await startDripSequence(
+        { email: 'Reader@Example.com', name: 'Alex', source: 'HERO_EXCERPT', geo: 'UK' },
+        NOW
+      );
+
+      expect(started?.result).toEqual({ success: true, messageId: 're_1' });
+      expect(prisma.dripEnrollment.create).toHaveBeenCalledWith({
+        data: {
+          email: 'reader@example.com',
+          name: 'Alex',
+          sequenceId: 'excerpt-nurture',
+          source: 'HERO_EXCERPT',
+          geo: 'UK',
+          nextSendAt: NOW,
+          createdAt: NOW,
+        },
+      });
+      expect(sendDripEmail).toHaveBeenCalledWith(
+        'reader@example.com',
+        'excerpt',
+        { downloadUrl: expect.stringContaining('/assets/ai-born-excerpt.pdf') },
+        'drip_excerpt'
+      );
+      expect(updates()).toEqual([
+        {
+          stepIndex: 1,
+          attempts: 0,
+          lastError: null,
+          lastSentAt: NOW,
+          nextSendAt: new Date(NOW.getTime() + 3 * DAY_MS),
+        },
+      ]);
+    });
+
+    it('should not enroll sources without a sequence or leads who already bought', async () => {
+      expect(await startDripSequence({ email: 'reader@example.com', source: 'OTHER' }, NOW)).toBeNull();
+
+      vi.mocked(prisma.receipt.count).mockResolvedValue(1);
+      expect(await startDripSequence({ email: 'reader@example.com', source: 'FOOTER' }, NOW)).toBeNull();
+
+      expect(prisma.dripEnrollment.create).not.toHaveBeenCalled();
+      expect(sendDripEmail).not.toHaveBeenCalled();
+    });
+
+    it('should remove the enrollment when the first send fails', async () => {
+      vi.mocked(sendDripEmail).mockResolvedValue({
+        success: false,
+        error: 'Too many requests',
+        errorCode: 'RATE_LIMIT_ERROR',
+      });
+
+      const started = await startDripSequence({ email: 'reader@example.com', source: 'POPUP' }, NOW);
+
+      expect(started?.result?.success).toBe(false);
+      expect(prisma.dripEnrollment.delete).toHaveBeenCalledWith({ where: { id: 'de_1' } });
+    });
+  });
+
+  describe('runDripTick', () => {
+    it('should stop sequences for leads who bought or unsubscribed', async () => {
+      vi.mocked(prisma.dripEnrollment.findMany).mockResolvedValue([
+        buildEnrollment({ id: 'de_1', email: 'bought@example.com' }),
+        buildEnrollment({ id: 'de_2', email: 'left@example.com' }),
+      ] as never);
+      vi.mocked(prisma.bonusClaim.count).mockImplementation((async ({ where }: { where: { OR: Array<{ deliveryEmail?: string }> } }) =>
+        where.OR[0].deliveryEmail === 'bought@example.com' ? 1 : 0) as never);
+      vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue({ status: 'UNSUBSCRIBED' } as never);
+
+      const result = await runDripTick({ now: NOW, sendIntervalMs: 0 });
+
+      expect(result).toMatchObject({ processed: 2, stopped: 2, sent: 0 });
+      expect(sendDripEmail).not.toHaveBeenCalled();
+      expect(updates()).toEqual([
+        { status: 'STOPPED', stopReason: 'purchased', nextSendAt: null },
+        { status: 'STOPPED', stopReason: 'unsubscribed', nextSendAt: null },
+      ]);
+    });
+
+    it('should send the launch reminder with retailer links for the lead\'s region', async () => {
+      vi.mocked(prisma.dripEnrollment.findMany).mockResolvedValue([
+        buildEnrollment({ stepIndex: 2, nextSendAt: new Date('2026-11-05T00:00:00.000Z') }),
+      ] as never);
+      const now = new Date('2026-11-05T09:00:00.000Z');
+
+      const result = await runDripTick({ now, sendIntervalMs: 0 });
+
+      expect(result).toMatchObject({ processed: 1, completed: 1 });
+      expect(sendDripEmail).toHaveBeenCalledWith(
+        'reader@example.com',
+        'preorder-reminder',
+        {
+          name: 'Alex',
+          launchDate: new Date('2026-11-10T00:00:00.000Z'),
+          retailers: getDripRetailerLinks('UK'),
+        },
+        'drip_preorder_reminder'
+      );
+      expect(prisma.dripEnrollment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'de_1', status: 'ACTIVE', stepIndex: 2, nextSendAt: new Date('2026-11-05T00:00:00.000Z') },
+        data: { nextSendAt: new Date(now.getTime() + 60 * 60 * 1000) },
+      });
+      expect(updates()[0]).toMatchObject({ status: 'COMPLETED', completedAt: now, stepIndex: 3 });
+    });
+
+    it('should hold launch reminders until the launch date is set and skip them after launch', async () => {
+      vi.stubEnv('BOOK_LAUNCH_DATE', '');
+      vi.mocked(prisma.dripEnrollment.findMany).mockResolvedValue([
+        buildEnrollment({ stepIndex: 2, nextSendAt: null }),
+      ] as never);
+
+      expect(await runDripTick({ now: NOW, sendIntervalMs: 0 })).toMatchObject({ deferred: 1 });
+      expect(prisma.dripEnrollment.update).not.toHaveBeenCalled();
+
+      vi.stubEnv('BOOK_LAUNCH_DATE', '2026-10-01T00:00:00.000Z');
+
+      expect(await runDripTick({ now: NOW, sendIntervalMs: 0 })).toMatchObject({ completed: 1 });
+      expect(sendDripEmail).not.toHaveBeenCalled();
+      expect(updates()).toEqual([
+        { stepIndex: 3, attempts: 0, lastError: null, status: 'COMPLETED', completedAt: NOW, nextSendAt: null },
+      ]);
+    });
+
+    it('should retry failed steps and stop after the last attempt', async () => {
+      vi.mocked(prisma.dripEnrollment.findMany).mockResolvedValue([buildEnrollment({ attempts: 2 })] as never);
+      vi.mocked(sendDripEmail).mockResolvedValue({ success: false, error: 'Resend down', errorCode: 'SEND_ERROR' });
+
+      const result = await runDripTick({ now: NOW, sendIntervalMs: 0 });
+
+      expect(result).toMatchObject({ failed: 1 });
+      expect(updates()).toEqual([
+        { attempts: 3, lastError: 'Resend down', status: 'STOPPED', stopReason: 'failed', nextSendAt: null },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { applyEmailEvent, isEmailSuppressed, type ResendWebhookEvent } from '../email-outbox';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    emailMessage: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    emailSuppression: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/job-queue', () => ({
+  enqueueJob: vi.fn(),
+}));
+
+function buildEvent(
+  type: string,
+  data: Partial<ResendWebhookEvent['data']> = {}
+): ResendWebhookEvent {
+  return {
+    type,
+    created_at: '2026-03-01T12:00:00.000Z',
+    data: { email_id: 're_123', to: ['Reader@Example.com'], ...data },
+  };
+}
+
+describe('Email Outbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.emailMessage.findUnique).mockResolvedValue({
+      id: 'msg_1',
+      recipient: 'reader@example.com',
+      status: 'SENT',
+    } as never);
+  });
+
+  it('should mark sent messages as delivered', async () => {
+    const result = await applyEmailEvent(buildEvent('email.delivered'));
+
+    expect(result).toEqual({
+      messageId: 'msg_1',
+      status: 'DELIVERED',
+      suppressed: [],
+      ignored: false,
+    });
+    expect(prisma.emailMessage.update).toHaveBeenCalledWith({
+      where: { id: 'msg_1' },
+      data: {
+        status: 'DELIVERED',
+        lastEventAt: new Date('2026-03-01T12:00:00.000Z'),
+        deliveredAt: new Date('2026-03-01T12:00:00.000Z'),
+      },
+    });
+    expect(prisma.emailSuppression.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should suppress hard-bounced recipients but not soft bounces', async () => {
+    const hard = await applyEmailEvent(
+      buildEvent('email.bounced', { bounce: { type: 'Permanent', message: 'Mailbox does not exist' } })
+    );
+
+    expect(hard).toMatchObject({ status: 'BOUNCED', suppressed: ['reader@example.com'] });
+    expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith({
+      where: { email: 'reader@example.com' },
+      create: { email: 'reader@example.com', reason: 'HARD_BOUNCE', providerMessageId: 're_123' },
+      update: {},
+    });
+
+    vi.mocked(prisma.emailSuppression.upsert).mockClear();
+    const soft = await applyEmailEvent(
+      buildEvent('email.bounced', { bounce: { type: 'Transient', message: 'Mailbox full' } })
+    );
+
+    expect(soft).toMatchObject({ status: 'BOUNCED', suppressed: [] });
+    expect(prisma.emailSuppression.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should not let a late delivery overwrite a complaint', async () => {
+    vi.mocked(prisma.emailMessage.findUnique).mockResolvedValue({
+      id: 'msg_1',
+      recipient: 'reader@example.com',
+      status: 'COMPLAINED',
+    } as never);
+
+    const result = await applyEmailEvent(buildEvent('email.delivered'));
+
+    expect(result.status).toBe('COMPLAINED');
+    expect(prisma.emailMessage.update).not.toHaveBeenCalled();
+  });
+
+  it('should suppress complaints for messages sent outside the outbox', async () => {
+    vi.mocked(prisma.emailMessage.findUnique).mockResolvedValue(null);
+
+    const result = await applyEmailEvent(buildEvent('email.complained'));
+
+    expect(result).toEqual({
+      messageId: null,
+      status: null,
+      suppressed: ['reader@example.com'],
+      ignored: false,
+    });
+    expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ reason: 'COMPLAINT' }),
+      })
+    );
+  });
+
+  it('should ignore untracked event types', async () => {
+    expect(await applyEmailEvent(buildEvent('email.opened'))).toMatchObject({ ignored: true });
+    expect(prisma.emailMessage.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should not block sends when the suppression lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(prisma.emailSuppression.findUnique).mockRejectedValue(new Error('db down'));
+
+    expect(await isEmailSuppressed('reader@example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+
+import {
+  emailTemplates,
+  htmlToText,
+  renderEmailTemplate,
+  renderEmailTemplatePreviews,
+  type EmailTemplatePreview,
+} from '../email-templates';
+
+describe('Email Templates', () => {
+  let previews: EmailTemplatePreview[];
+
+  beforeAll(async () => {
+    previews = await renderEmailTemplatePreviews();
+  });
+
+  it('should render every registered template', () => {
+    expect(previews.map((preview) => preview.name)).toEqual(Object.keys(emailTemplates));
+  });
+
+  it.each(Object.keys(emailTemplates))('should match the %s snapshot', (name) => {
+    const preview = previews.find((p) => p.name === name);
+
+    expect(preview?.subject).toMatchSnapshot('subject');
+    expect(preview?.html).toMatchSnapshot('html');
+    expect(preview?.text).toMatchSnapshot('text');
+  });
+
+  it('should escape interpolated props', async () => {
+    const { html, text } = await renderEmailTemplate(
+      'org-invite',
+      { orgName: '<script>alert(1)</script>', inviteLink: 'https://ai-born.org/bulk/invite/x' },
+      { recipient: 'reader@example.com' }
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(text).toContain('Bulk Order Invitation from <script>alert(1)</script>');
+  });
+
+  it('should use the given unsubscribe link and hide the preview text from the text part', async () => {
+    const { html, text } = await renderEmailTemplate(
+      'newsletter-welcome',
+      {},
+      {
+        recipient: 'reader@example.com',
+        unsubscribeUrl: 'https://ai-born.org/newsletter/unsubscribe?token=abc',
+        previewText: 'Inbox preview',
+      }
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html><html lang="en">/);
+    expect(html).toContain('Inbox preview');
+    expect(text).not.toContain('Inbox preview');
+    expect(text).toContain('Unsubscribe (https://ai-born.org/newsletter/unsubscribe?token=abc)');
+  });
+
+  it('should convert HTML to readable text', () => {
+    expect(
+      htmlToText(
+        '<h2>Title</h2><p>Hello &amp; welcome<br/>to <a href="https://ai-born.org/faq">our FAQ</a></p>' +
+          '<ul><li>One</li><li>Two</li></ul><p><a href="https://ai-born.org">https://ai-born.org</a></p>'
+      )
+    ).toBe('Title\n\nHello & welcome\nto our FAQ (https://ai-born.org/faq)\n\n- One\n- Two\n\nhttps://ai-born.org');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  assignVariant,
+  isBotUserAgent,
+  parseExperimentAssignments,
+  serializeExperimentAssignments,
+  type Experiment,
+} from '../ab-testing';
+import { assignRequestExperiments, resolveExperimentVariants } from '../experiment-assignment';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const BROWSER_UA =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36';
+
+const experiment: Experiment = {
+  id: 'cta-label',
+  name: 'CTA Label Variant Test',
+  description: 'Test different CTA labels',
+  active: true,
+  variants: [
+    { id: 'A', name: 'Pre-order Now', weight: 0.5 },
+    { id: 'B', name: 'Reserve Your Copy', weight: 0.5 },
+  ],
+};
+
+const inactiveExperiment: Experiment = {
+  ...experiment,
+  id: 'bonus-placement',
+  active: false,
+};
+
+describe('Experiment Assignment', () => {
+  it('should assign the same variant for the same participant', () => {
+    const first = assignVariant('user_abc', experiment);
+
+    expect(first).not.toBeNull();
+    expect(assignVariant('user_abc', experiment)).toEqual(first);
+    expect(assignVariant('user_abc', inactiveExperiment)).toBeNull();
+  });
+
+  it('should spread participants across variants', () => {
+    const counts: Record<string, number> = { A: 0, B: 0 };
+
+    for (let i = 0; i < 1000; i++) {
+      const variant = assignVariant(`user_${i}`, experiment);
+      if (variant) counts[variant.id] += 1;
+    }
+
+    expect(counts.A).toBeGreaterThan(400);
+    expect(counts.B).toBeGreaterThan(400);
+  });
+
+  it('should detect bots and crawlers', () => {
+    expect(isBotUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)')).toBe(true);
+    expect(isBotUserAgent('facebookexternalhit/1.1')).toBe(true);
+    expect(isBotUserAgent('Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/120.0')).toBe(true);
+    expect(isBotUserAgent(BROWSER_UA)).toBe(false);
+    expect(isBotUserAgent(null)).toBe(false);
+  });
+
+  it('should assign new participants and flag the exposure as pending', () => {
+    const result = assignRequestExperiments({}, BROWSER_UA, [experiment], NOW);
+
+    expect(result?.changed).toBe(true);
+    expect(result?.participantId).toMatch(/^user_[0-9a-f]{32}$/);
+    expect(result?.assignments.get('cta-label')).toEqual({
+      experimentId: 'cta-label',
+      variantId: assignVariant(result?.participantId ?? '', experiment)?.id,
+      variantName: expect.any(String),
+      assignedAt: NOW.toISOString(),
+      pendingExposure: true,
+    });
+  });
+
+  it('should keep existing assignments without rewriting cookies', () => {
+    const existing = serializeExperimentAssignments(
+      new Map([
+        [
+          'cta-label',
+          { experimentId: 'cta-label', variantId: 'B', variantName: 'Reserve Your Copy', assignedAt: '2026-10-01T00:00:00.000Z' },
+        ],
+      ])
+    );
+
+    const result = assignRequestExperiments(
+      { participantId: 'user_abc', assignments: existing },
+      BROWSER_UA,
+      [experiment],
+      NOW
+    );
+
+    expect(result?.changed).toBe(false);
+    expect(result?.assignments.get('cta-label')?.variantId).toBe('B');
+  });
+
+  it('should never assign bots', () => {
+    expect(assignRequestExperiments({}, 'Bingbot/2.0', [experiment], NOW)).toBeNull();
+  });
+
+  it('should resolve control for bots, inactive experiments and stale variants', () => {
+    const assignments = parseExperimentAssignments(
+      JSON.stringify({
+        'cta-label': { experimentId: 'cta-label', variantId: 'B', variantName: 'B', assignedAt: NOW.toISOString() },
+        'bonus-placement': { experimentId: 'bonus-placement', variantId: 'B', variantName: 'B', assignedAt: NOW.toISOString() },
+      })
+    );
+    const experiments = [experiment, inactiveExperiment];
+
+    expect(resolveExperimentVariants(assignments, false, experiments)).toEqual({
+      'cta-label': 'B',
+      'bonus-placement': 'A',
+    });
+    expect(resolveExperimentVariants(assignments, true, experiments)).toEqual({
+      'cta-label': 'A',
+      'bonus-placement': 'A',
+    });
+    expect(
+      resolveExperimentVariants(
+        parseExperimentAssignments('{"cta-label":{"variantId":"Z"}}'),
+        false,
+        experiments
+      )['cta-label']
+    ).toBe('A');
+    expect(parseExperimentAssignments('not json').size).toBe(0);
+  });
+
+  it('should serve a declared winner to everyone once stopped', () => {
+    const assignments = parseExperimentAssignments(
+      JSON.stringify({
+        'cta-label': { experimentId: 'cta-label', variantId: 'A', variantName: 'A', assignedAt: NOW.toISOString() },
+      })
+    );
+    const stopped: Experiment = { ...experiment, active: false, winnerVariantId: 'B' };
+
+    expect(resolveExperimentVariants(assignments, false, [stopped])).toEqual({ 'cta-label': 'B' });
+    expect(resolveExperimentVariants(assignments, true, [stopped])).toEqual({ 'cta-label': 'B' });
+    expect(assignVariant('user_abc', stopped)).toBeNull();
+  });
+});
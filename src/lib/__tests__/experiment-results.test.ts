@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  calculateConversionRateInterval,
+  calculateLift,
+  calculateVariantMetrics,
+  detectSampleRatioMismatch,
+  type Experiment,
+} from '../ab-testing';
+import {
+  computeExperimentResults,
+  recordExperimentConversion,
+  recordExperimentExposure,
+} from '../experiment-results';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    experimentExposure: {
+      createMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    experimentConversion: {
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const experiment: Experiment = {
+  id: 'cta-label',
+  name: 'CTA Label Variant Test',
+  description: 'Test different CTA labels',
+  active: true,
+  variants: [
+    { id: 'A', name: 'Pre-order Now', weight: 0.5 },
+    { id: 'B', name: 'Reserve Your Copy', weight: 0.5 },
+  ],
+  primaryMetric: 'hero_cta_click',
+};
+
+/**
+ * Daily count row for a variant
+ */
+function row(variantId: string, date: string, count: number) {
+  return { variantId, day: new Date(`${date}T00:00:00.000Z`), count };
+}
+
+describe('Experiment Results', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('statistics', () => {
+    it('should compute Wilson intervals that contain the observed rate', () => {
+      const interval = calculateConversionRateInterval(100, 1000, 95);
+
+      expect(interval.lower).toBeCloseTo(0.0829, 3);
+      expect(interval.upper).toBeCloseTo(0.1202, 3);
+      expect(calculateConversionRateInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+      expect(calculateConversionRateInterval(0, 20).lower).toBe(0);
+    });
+
+    it('should compute lift with an interval on the difference', () => {
+      const lift = calculateLift(
+        calculateVariantMetrics('A', 'Control', 1000, 100),
+        calculateVariantMetrics('B', 'Challenger', 1000, 150),
+        95
+      );
+
+      expect(lift.absoluteDifference).toBeCloseTo(0.05, 6);
+      expect(lift.relativeLift).toBeCloseTo(50, 6);
+      expect(lift.interval.lower).toBeGreaterThan(0);
+      expect(lift.interval.upper).toBeLessThan(0.1);
+    });
+
+    it('should flag sample ratio mismatch only for large imbalances', () => {
+      expect(detectSampleRatioMismatch(experiment, { A: 5050, B: 4950 }).detected).toBe(false);
+
+      const mismatch = detectSampleRatioMismatch(experiment, { A: 5500, B: 4500 });
+      expect(mismatch.detected).toBe(true);
+      expect(mismatch.observedShares).toEqual({ A: 0.55, B: 0.45 });
+      expect(mismatch.expectedShares).toEqual({ A: 0.5, B: 0.5 });
+    });
+  });
+
+  describe('computeExperimentResults', () => {
+    it('should aggregate variants, lift and a cumulative lift series', () => {
+      const results = computeExperimentResults(
+        experiment,
+        [
+          row('A', '2026-10-17', 100),
+          row('B', '2026-10-17', 100),
+          row('A', '2026-10-18', 100),
+          row('B', '2026-10-18', 100),
+          row('Z', '2026-10-18', 999),
+        ],
+        [
+          row('A', '2026-10-17', 10),
+          row('B', '2026-10-17', 20),
+          row('A', '2026-10-18', 10),
+          row('B', '2026-10-18', 10),
+        ],
+        {},
+        NOW
+      );
+
+      expect(results.metric).toBe('hero_cta_click');
+      expect(results.totalParticipants).toBe(400);
+      expect(results.totalConversions).toBe(50);
+      expect(results.variants.map((v) => [v.variantId, v.participants, v.conversions])).toEqual([
+        ['A', 200, 20],
+        ['B', 200, 30],
+      ]);
+      expect(results.variants[0].lift).toBeNull();
+      expect(results.variants[1].lift?.relativeLift).toBeCloseTo(50, 6);
+      expect(results.sampleRatioMismatch.detected).toBe(false);
+      expect(results.generatedAt).toBe(NOW.toISOString());
+
+      expect(results.timeSeries.map((point) => point.date)).toEqual(['2026-10-17', '2026-10-18']);
+      expect(results.timeSeries[0].variants.B.relativeLift).toBeCloseTo(100, 6);
+      expect(results.timeSeries[1].variants.B).toMatchObject({ participants: 200, conversions: 30 });
+      expect(results.timeSeries[1].variants.A.relativeLift).toBeNull();
+    });
+
+    it('should report empty experiments without dividing by zero', () => {
+      const results = computeExperimentResults(experiment, [], [], { metric: null }, NOW);
+
+      expect(results.metric).toBeNull();
+      expect(results.overallConversionRate).toBe(0);
+      expect(results.variants[1].lift?.relativeLift).toBeNull();
+      expect(results.timeSeries).toEqual([]);
+    });
+  });
+
+  describe('recording', () => {
+    it('should store the first exposure per participant', async () => {
+      vi.mocked(prisma.experimentExposure.createMany).mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        recordExperimentExposure(experiment, { variantId: 'B', participantId: 'user_abc' })
+      ).resolves.toBe(true);
+      expect(prisma.experimentExposure.createMany).toHaveBeenCalledWith({
+        data: [{ experimentId: 'cta-label', variantId: 'B', participantId: 'user_abc' }],
+        skipDuplicates: true,
+      });
+
+      await expect(
+        recordExperimentExposure(experiment, { variantId: 'Z', participantId: 'user_abc' })
+      ).rejects.toThrow('Unknown variant');
+    });
+
+    it('should attribute conversions to the stored exposure', async () => {
+      vi.mocked(prisma.experimentExposure.findUnique).mockResolvedValueOnce({
+        id: 'exp_1',
+        experimentId: 'cta-label',
+        variantId: 'A',
+        participantId: 'user_abc',
+        exposedAt: NOW,
+      });
+      vi.mocked(prisma.experimentConversion.createMany).mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        recordExperimentConversion(experiment, { participantId: 'user_abc', eventName: 'hero_cta_click' })
+      ).resolves.toBe(true);
+      expect(prisma.experimentConversion.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ variantId: 'A', participantId: 'user_abc', eventName: 'hero_cta_click' }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should ignore conversions from participants never exposed', async () => {
+      vi.mocked(prisma.experimentExposure.findUnique).mockResolvedValueOnce(null);
+
+      await expect(
+        recordExperimentConversion(experiment, { participantId: 'user_new', eventName: 'hero_cta_click' })
+      ).resolves.toBe(false);
+      expect(prisma.experimentConversion.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
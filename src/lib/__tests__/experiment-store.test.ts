@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  applyExperimentAction,
+  createExperiment,
+  getExperimentConfigs,
+  invalidateExperimentConfigCache,
+  toExperiment,
+  updateExperiment,
+} from '../experiment-store';
+
+import { prisma } from '@/lib/prisma';
+import { ExperimentCreateSchema } from '@/lib/validation';
+
+import type { Experiment as ExperimentRecord } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    experiment: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/**
+ * Stored experiment with the given overrides
+ */
+function buildRecord(overrides: Partial<ExperimentRecord> = {}): ExperimentRecord {
+  return {
+    id: 'cta-label',
+    name: 'CTA Label Variant Test',
+    description: 'Test different CTA labels',
+    status: 'RUNNING',
+    variants: [
+      { id: 'A', name: 'Pre-order Now', weight: 0.5 },
+      { id: 'B', name: 'Reserve Your Copy', weight: 0.5 },
+    ],
+    trafficAllocation: 1,
+    primaryMetric: 'hero_cta_click',
+    startDate: null,
+    endDate: null,
+    winnerVariantId: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Experiment Store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateExperimentConfigCache();
+  });
+
+  describe('toExperiment', () => {
+    it('should be active only while running inside the schedule', () => {
+      expect(toExperiment(buildRecord(), NOW).active).toBe(true);
+      expect(toExperiment(buildRecord({ status: 'PAUSED' }), NOW).active).toBe(false);
+      expect(
+        toExperiment(buildRecord({ startDate: new Date('2026-10-20T00:00:00.000Z') }), NOW).active
+      ).toBe(false);
+      expect(
+        toExperiment(buildRecord({ endDate: new Date('2026-10-19T00:00:00.000Z') }), NOW).active
+      ).toBe(false);
+    });
+
+    it('should serve the winner only once stopped', () => {
+      expect(toExperiment(buildRecord({ winnerVariantId: 'B' }), NOW).winnerVariantId).toBeUndefined();
+
+      const stopped = toExperiment(buildRecord({ status: 'STOPPED', winnerVariantId: 'B' }), NOW);
+      expect(stopped).toMatchObject({ active: false, winnerVariantId: 'B' });
+    });
+  });
+
+  describe('getExperimentConfigs', () => {
+    it('should reuse loaded definitions within the cache window', async () => {
+      vi.mocked(prisma.experiment.findMany).mockResolvedValue([buildRecord()]);
+
+      await getExperimentConfigs(NOW);
+      const experiments = await getExperimentConfigs(new Date(NOW.getTime() + 30_000));
+
+      expect(experiments.map((experiment) => experiment.id)).toEqual(['cta-label']);
+      expect(prisma.experiment.findMany).toHaveBeenCalledTimes(1);
+
+      await getExperimentConfigs(new Date(NOW.getTime() + 61_000));
+      expect(prisma.experiment.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving the last definitions when the database fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(prisma.experiment.findMany)
+        .mockResolvedValueOnce([buildRecord()])
+        .mockRejectedValueOnce(new Error('connection refused'));
+
+      await getExperimentConfigs(NOW);
+      const experiments = await getExperimentConfigs(new Date(NOW.getTime() + 61_000));
+
+      expect(experiments).toHaveLength(1);
+    });
+  });
+
+  describe('admin changes', () => {
+    it('should reject definitions that fail validateExperiment', async () => {
+      const input = ExperimentCreateSchema.parse({
+        id: 'pricing-copy',
+        name: 'Pricing Copy',
+        variants: [
+          { id: 'A', name: 'Control', weight: 0.5 },
+          { id: 'B', name: 'Challenger', weight: 0.4 },
+        ],
+      });
+
+      await expect(createExperiment(input)).rejects.toMatchObject({
+        statusCode: 400,
+        message: expect.stringContaining('must sum to 1.0'),
+      });
+      expect(prisma.experiment.create).not.toHaveBeenCalled();
+    });
+
+    it('should update variant weights but not unknown variants', async () => {
+      vi.mocked(prisma.experiment.findUnique).mockResolvedValue(buildRecord());
+      vi.mocked(prisma.experiment.update).mockResolvedValueOnce(buildRecord());
+
+      await updateExperiment('cta-label', { weights: { A: 0.7, B: 0.3 } });
+      expect(prisma.experiment.update).toHaveBeenCalledWith({
+        where: { id: 'cta-label' },
+        data: expect.objectContaining({
+          variants: [
+            { id: 'A', name: 'Pre-order Now', weight: 0.7 },
+            { id: 'B', name: 'Reserve Your Copy', weight: 0.3 },
+          ],
+        }),
+      });
+
+      await expect(updateExperiment('cta-label', { weights: { Z: 1 } })).rejects.toThrow(
+        'Unknown variant'
+      );
+    });
+
+    it('should only allow lifecycle actions from valid statuses', async () => {
+      vi.mocked(prisma.experiment.findUnique).mockResolvedValue(buildRecord({ status: 'DRAFT' }));
+
+      await expect(applyExperimentAction('cta-label', 'pause')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      await expect(applyExperimentAction('cta-label', 'declare_winner', 'B')).rejects.toMatchObject(
+        { statusCode: 409 }
+      );
+      expect(prisma.experiment.update).not.toHaveBeenCalled();
+    });
+
+    it('should stop the experiment when declaring a winner', async () => {
+      vi.mocked(prisma.experiment.findUnique).mockResolvedValue(buildRecord());
+      vi.mocked(prisma.experiment.update).mockResolvedValueOnce(
+        buildRecord({ status: 'STOPPED', winnerVariantId: 'B' })
+      );
+
+      const experiment = await applyExperimentAction('cta-label', 'declare_winner', 'B');
+
+      expect(prisma.experiment.update).toHaveBeenCalledWith({
+        where: { id: 'cta-label' },
+        data: { status: 'STOPPED', winnerVariantId: 'B' },
+      });
+      expect(experiment).toMatchObject({ status: 'STOPPED', winnerVariantId: 'B', active: false });
+    });
+  });
+});
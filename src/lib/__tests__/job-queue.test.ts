@@ -0,0 +1,126 @@
+import { Prisma, type Job } from '@prisma/client';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  computeBackoffDelay,
+  enqueueJob,
+  failJob,
+  retryJob,
+} from '../job-queue';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const mockJob = prisma.job as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+  findUniqueOrThrow: ReturnType<typeof vi.fn>;
+  create: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job_1',
+    queue: 'receipt-verification',
+    payload: { receiptId: 'receipt_1' },
+    idempotencyKey: 'receipt_1',
+    status: 'RUNNING',
+    attempts: 1,
+    maxAttempts: 5,
+    runAt: new Date('2026-01-01T00:00:00Z'),
+    lockedAt: new Date('2026-01-01T00:00:00Z'),
+    lockedBy: 'worker-1',
+    lastError: null,
+    result: null,
+    completedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Job Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockJob.update.mockImplementation(async ({ data }) => buildJob(data));
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should double the delay for each attempt', () => {
+      expect(computeBackoffDelay(1)).toBe(30_000);
+      expect(computeBackoffDelay(2)).toBe(60_000);
+      expect(computeBackoffDelay(3)).toBe(120_000);
+    });
+
+    it('should cap the delay at one hour', () => {
+      expect(computeBackoffDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('enqueueJob', () => {
+    it('should return the existing job for a repeated idempotency key', async () => {
+      const existing = buildJob({ status: 'COMPLETED' });
+      mockJob.findUnique.mockResolvedValue(existing);
+
+      const result = await enqueueJob('receipt-verification', {}, { idempotencyKey: 'receipt_1' });
+
+      expect(result).toEqual({ job: existing, created: false });
+      expect(mockJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should recover from a concurrent enqueue of the same key', async () => {
+      const existing = buildJob({ status: 'PENDING' });
+      mockJob.findUnique.mockResolvedValue(null);
+      mockJob.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+      mockJob.findUniqueOrThrow.mockResolvedValue(existing);
+
+      const result = await enqueueJob('receipt-verification', {}, { idempotencyKey: 'receipt_1' });
+
+      expect(result).toEqual({ job: existing, created: false });
+    });
+  });
+
+  describe('failJob', () => {
+    it('should reschedule with backoff while attempts remain', async () => {
+      const before = Date.now();
+      const updated = await failJob(buildJob({ attempts: 2 }), new Error('OCR timeout'));
+
+      expect(updated.status).toBe('PENDING');
+      expect(updated.lastError).toBe('OCR timeout');
+      expect(updated.lockedBy).toBeNull();
+      expect(updated.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    });
+
+    it('should dead-letter once attempts are exhausted', async () => {
+      const updated = await failJob(buildJob({ attempts: 5 }), new Error('OCR timeout'));
+
+      expect(updated.status).toBe('DEAD');
+    });
+  });
+
+  describe('retryJob', () => {
+    it('should return null for jobs that cannot be re-driven', async () => {
+      mockJob.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await retryJob('job_1')).toBeNull();
+      expect(mockJob.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
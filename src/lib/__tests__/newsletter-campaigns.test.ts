@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  NEWSLETTER_BROADCAST_QUEUE,
+  createNewsletterCampaign,
+  recordCampaignEngagement,
+  recordCampaignRetryResult,
+  sendCampaignBatch,
+  startCampaignBroadcast,
+} from '../newsletter-campaigns';
+
+import { sendNewsletterIssueEmail } from '@/lib/email';
+import { enqueueJob } from '@/lib/job-queue';
+import { renderNewsletterContent } from '@/lib/newsletter-content';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    newsletterCampaign: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    newsletterCampaignRecipient: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    newsletterSubscriber: {
+      findMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendNewsletterIssueEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/job-queue', () => ({
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('@/lib/newsletter-content', () => ({
+  renderNewsletterContent: vi.fn(),
+}));
+
+/**
+ * Stored campaign with the given overrides
+ */
+function buildCampaign(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'nc_1',
+    subject: 'Chapter 3 is live',
+    previewText: null,
+    body: '# Chapter 3',
+    segment: { interest: 'governance' },
+    status: 'SENDING',
+    ...overrides,
+  };
+}
+
+/**
+ * Pending recipient row
+ */
+function buildRecipient(id: string, email: string, subscriberId: string) {
+  return { id, campaignId: 'nc_1', email, subscriberId, status: 'PENDING' };
+}
+
+describe('Newsletter Campaigns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(renderNewsletterContent).mockResolvedValue('<h1>Chapter 3</h1>');
+    vi.mocked(prisma.newsletterCampaign.findUnique).mockResolvedValue(buildCampaign() as never);
+    vi.mocked(prisma.newsletterCampaign.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.newsletterCampaignRecipient.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.newsletterCampaignRecipient.count).mockResolvedValue(0);
+  });
+
+  it('should reject bodies that do not compile', async () => {
+    vi.mocked(renderNewsletterContent).mockRejectedValue(new Error('Unexpected closing tag'));
+
+    await expect(
+      createNewsletterCampaign({ subject: 'Hello', body: '<div>', createdBy: 'admin@example.com' })
+    ).rejects.toThrow('Body does not compile: Unexpected closing tag');
+    expect(prisma.newsletterCampaign.create).not.toHaveBeenCalled();
+  });
+
+  it('should snapshot the confirmed segment and queue the first batch', async () => {
+    vi.mocked(prisma.newsletterCampaign.findUnique).mockResolvedValue(
+      buildCampaign({ status: 'DRAFT', segment: { interest: 'governance', geo: 'unknown' } }) as never
+    );
+    vi.mocked(prisma.newsletterSubscriber.findMany).mockResolvedValue([
+      { id: 'sub_1', email: 'a@example.com' },
+      { id: 'sub_2', email: 'b@example.com' },
+    ] as never);
+
+    const result = await startCampaignBroadcast('nc_1');
+
+    expect(result).toEqual({ recipientCount: 2 });
+    expect(prisma.newsletterSubscriber.findMany).toHaveBeenCalledWith({
+      where: { status: 'CONFIRMED', interests: { has: 'governance' }, geo: null },
+      select: { id: true, email: true },
+    });
+    expect(prisma.newsletterCampaignRecipient.createMany).toHaveBeenCalledWith({
+      data: [
+        { campaignId: 'nc_1', subscriberId: 'sub_1', email: 'a@example.com' },
+        { campaignId: 'nc_1', subscriberId: 'sub_2', email: 'b@example.com' },
+      ],
+      skipDuplicates: true,
+    });
+    expect(enqueueJob).toHaveBeenCalledWith(
+      NEWSLETTER_BROADCAST_QUEUE,
+      { campaignId: 'nc_1', batch: 1 },
+      { idempotencyKey: 'nc_1:1', delayMs: 0 }
+    );
+  });
+
+  it('should not broadcast campaigns that are no longer drafts', async () => {
+    expect(await startCampaignBroadcast('nc_1')).toBeNull();
+    expect(prisma.newsletterCampaignRecipient.createMany).not.toHaveBeenCalled();
+    expect(enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should skip recipients who opted out, hit their frequency cap or left the list', async () => {
+    vi.mocked(prisma.newsletterCampaignRecipient.findMany).mockResolvedValue([
+      buildRecipient('r_1', 'sends@example.com', 'sub_1'),
+      buildRecipient('r_2', 'left@example.com', 'sub_2'),
+      buildRecipient('r_3', 'optout@example.com', 'sub_3'),
+      buildRecipient('r_4', 'weekly@example.com', 'sub_4'),
+      buildRecipient('r_5', 'suppressed@example.com', 'sub_5'),
+    ] as never);
+    vi.mocked(prisma.newsletterSubscriber.findMany).mockResolvedValue([
+      { id: 'sub_1' },
+      { id: 'sub_3' },
+      { id: 'sub_4' },
+      { id: 'sub_5' },
+    ] as never);
+    vi.mocked(prisma.user.findUnique).mockImplementation((async ({ where }: { where: { email: string } }) => {
+      if (where.email === 'optout@example.com') {
+        return { preferences: { emailNotifications: { newsletter: false } } };
+      }
+      if (where.email === 'weekly@example.com') {
+        return { preferences: { communication: { emailFrequency: 'weekly' } } };
+      }
+      return null;
+    }) as never);
+    vi.mocked(prisma.newsletterCampaignRecipient.findFirst).mockResolvedValue({ id: 'r_prev' } as never);
+    vi.mocked(sendNewsletterIssueEmail).mockImplementation((async (email: string) =>
+      email === 'suppressed@example.com'
+        ? { success: false, error: 'Suppressed', errorCode: 'SUPPRESSED' }
+        : { success: true, messageId: 're_1' }) as never);
+
+    const result = await sendCampaignBatch('nc_1', { sendIntervalMs: 0 });
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 4, retrying: 0, remaining: 0 });
+    expect(sendNewsletterIssueEmail).toHaveBeenCalledTimes(2);
+    expect(sendNewsletterIssueEmail).toHaveBeenCalledWith('sends@example.com', {
+      subject: 'Chapter 3 is live',
+      content: '<h1>Chapter 3</h1>',
+      previewText: null,
+    });
+
+    const updates = vi.mocked(prisma.newsletterCampaignRecipient.update).mock.calls.map(
+      ([args]) => [args.where.id, args.data]
+    );
+    expect(updates).toEqual([
+      ['r_1', { status: 'SENT', sentAt: expect.any(Date), providerMessageId: 're_1' }],
+      ['r_2', { status: 'SKIPPED', skipReason: 'unsubscribed' }],
+      ['r_3', { status: 'SKIPPED', skipReason: 'preferences' }],
+      ['r_4', { status: 'SKIPPED', skipReason: 'frequency' }],
+      ['r_5', { status: 'SKIPPED', skipReason: 'suppressed' }],
+    ]);
+    expect(prisma.newsletterCampaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'nc_1', status: 'SENDING' },
+      data: { status: 'SENT', completedAt: expect.any(Date) },
+    });
+  });
+
+  it('should keep sends the outbox is retrying as SENDING until the retry resolves', async () => {
+    vi.mocked(prisma.newsletterCampaignRecipient.findMany).mockResolvedValue([
+      buildRecipient('r_1', 'flaky@example.com', 'sub_1'),
+    ] as never);
+    vi.mocked(prisma.newsletterSubscriber.findMany).mockResolvedValue([{ id: 'sub_1' }] as never);
+    vi.mocked(sendNewsletterIssueEmail).mockResolvedValue({
+      success: false,
+      error: 'Service unavailable',
+      errorCode: 'RETRY_EXHAUSTED',
+      outboxMessageId: 'em_1',
+    });
+
+    const result = await sendCampaignBatch('nc_1', { sendIntervalMs: 0 });
+
+    expect(result).toEqual({ sent: 0, failed: 0, skipped: 0, retrying: 1, remaining: 0 });
+    expect(prisma.newsletterCampaignRecipient.update).toHaveBeenCalledWith({
+      where: { id: 'r_1' },
+      data: { status: 'SENDING', emailMessageId: 'em_1', lastError: 'Service unavailable' },
+    });
+
+    vi.mocked(prisma.newsletterCampaignRecipient.updateMany).mockResolvedValue({ count: 1 });
+
+    expect(
+      await recordCampaignRetryResult('em_1', { success: false, errorCode: 'SEND_ERROR' }, false)
+    ).toBe(0);
+    expect(await recordCampaignRetryResult('em_1', { success: true, messageId: 're_9' }, false)).toBe(1);
+    expect(prisma.newsletterCampaignRecipient.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.newsletterCampaignRecipient.updateMany).toHaveBeenCalledWith({
+      where: { emailMessageId: 'em_1', status: { in: ['SENDING', 'FAILED'] } },
+      data: { status: 'SENT', sentAt: expect.any(Date), providerMessageId: 're_9', lastError: null },
+    });
+
+    await recordCampaignRetryResult('em_1', { success: false, error: 'Gave up', errorCode: 'SEND_ERROR' }, true);
+    expect(prisma.newsletterCampaignRecipient.updateMany).toHaveBeenLastCalledWith({
+      where: { emailMessageId: 'em_1', status: { in: ['SENDING', 'FAILED'] } },
+      data: { status: 'FAILED', lastError: 'Gave up' },
+    });
+  });
+
+  it('should leave cancelled campaigns untouched', async () => {
+    vi.mocked(prisma.newsletterCampaign.findUnique).mockResolvedValue(
+      buildCampaign({ status: 'CANCELLED' }) as never
+    );
+
+    const result = await sendCampaignBatch('nc_1', { sendIntervalMs: 0 });
+
+    expect(result).toEqual({ sent: 0, failed: 0, skipped: 0, retrying: 0, remaining: 0 });
+    expect(prisma.newsletterCampaignRecipient.findMany).not.toHaveBeenCalled();
+    expect(sendNewsletterIssueEmail).not.toHaveBeenCalled();
+  });
+
+  it('should record clicks as opens too and ignore other events', async () => {
+    vi.mocked(prisma.newsletterCampaignRecipient.findUnique).mockResolvedValue({
+      id: 'r_1',
+      openedAt: null,
+      clickedAt: null,
+    } as never);
+
+    await recordCampaignEngagement({
+      type: 'email.clicked',
+      created_at: '2026-03-01T12:00:00.000Z',
+      data: { email_id: 're_1' },
+    });
+
+    const clickedAt = new Date('2026-03-01T12:00:00.000Z');
+    expect(prisma.newsletterCampaignRecipient.update).toHaveBeenCalledWith({
+      where: { id: 'r_1' },
+      data: { clickCount: { increment: 1 }, clickedAt, openedAt: clickedAt },
+    });
+
+    expect(
+      await recordCampaignEngagement({
+        type: 'email.delivered',
+        created_at: '2026-03-01T12:00:00.000Z',
+        data: { email_id: 're_1' },
+      })
+    ).toBeNull();
+    expect(prisma.newsletterCampaignRecipient.update).toHaveBeenCalledTimes(1);
+  });
+});
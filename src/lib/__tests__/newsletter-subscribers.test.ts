@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  buildSubscriberWhere,
+  markSubscribersSuppressed,
+  subscribeToNewsletter,
+} from '../newsletter-subscribers';
+
+import { emailQueries } from '@/lib/db/queries';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    newsletterSubscriber: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/db/queries', () => ({
+  emailQueries: {
+    capture: vi.fn(),
+  },
+}));
+
+/**
+ * Stored subscriber with the given overrides
+ */
+function buildSubscriber(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub_1',
+    email: 'reader@example.com',
+    name: null,
+    status: 'CONFIRMED',
+    interests: ['launch-updates'],
+    source: 'hero',
+    ...overrides,
+  };
+}
+
+describe('Newsletter Subscribers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.newsletterSubscriber.create).mockImplementation(
+      (async ({ data }: { data: object }) => ({ id: 'sub_new', ...data })) as never
+    );
+    vi.mocked(prisma.newsletterSubscriber.update).mockImplementation(
+      (async ({ data }: { data: object }) => ({ ...buildSubscriber(), ...data })) as never
+    );
+  });
+
+  it('should create pending subscribers with first-touch attribution', async () => {
+    vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue(null);
+
+    const result = await subscribeToNewsletter({
+      email: ' Reader@Example.com ',
+      source: 'footer',
+      interests: ['governance'],
+      attribution: { utmSource: 'linkedin', geo: 'UK' },
+    });
+
+    expect(result.action).toBe('created');
+    expect(prisma.newsletterSubscriber.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        email: 'reader@example.com',
+        source: 'footer',
+        interests: ['governance'],
+        utmSource: 'linkedin',
+        geo: 'UK',
+      }),
+    });
+    expect(emailQueries.capture).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'reader@example.com', source: 'FOOTER' })
+    );
+  });
+
+  it('should merge interests without re-confirming confirmed subscribers', async () => {
+    vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue(buildSubscriber() as never);
+
+    const result = await subscribeToNewsletter({
+      email: 'reader@example.com',
+      source: 'popup',
+      interests: ['governance', 'launch-updates'],
+    });
+
+    expect(result.action).toBe('updated');
+    expect(prisma.newsletterSubscriber.update).toHaveBeenCalledWith({
+      where: { id: 'sub_1' },
+      data: { name: null, interests: ['launch-updates', 'governance'] },
+    });
+  });
+
+  it('should send unsubscribed addresses back through double opt-in', async () => {
+    vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue(
+      buildSubscriber({ status: 'UNSUBSCRIBED', unsubscribedAt: new Date() }) as never
+    );
+
+    const result = await subscribeToNewsletter({
+      email: 'reader@example.com',
+      source: 'hero',
+      interests: ['defensibility'],
+    });
+
+    expect(result.action).toBe('resubscribed');
+    expect(prisma.newsletterSubscriber.update).toHaveBeenCalledWith({
+      where: { id: 'sub_1' },
+      data: expect.objectContaining({
+        status: 'PENDING',
+        interests: ['defensibility'],
+        unsubscribedAt: null,
+      }),
+    });
+  });
+
+  it('should still subscribe when the capture record fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(emailQueries.capture).mockRejectedValue(new Error('db down'));
+    vi.mocked(prisma.newsletterSubscriber.findUnique).mockResolvedValue(null);
+
+    const result = await subscribeToNewsletter({
+      email: 'reader@example.com',
+      source: 'blog',
+      interests: [],
+    });
+
+    expect(result.action).toBe('created');
+  });
+
+  it('should mark bounced subscribers and unsubscribe complainers', async () => {
+    vi.mocked(prisma.newsletterSubscriber.updateMany).mockResolvedValue({ count: 1 });
+
+    await markSubscribersSuppressed(['Reader@Example.com'], 'HARD_BOUNCE');
+    expect(prisma.newsletterSubscriber.updateMany).toHaveBeenLastCalledWith({
+      where: {
+        email: { in: ['reader@example.com'] },
+        status: { in: ['PENDING', 'CONFIRMED'] },
+      },
+      data: { status: 'BOUNCED', bouncedAt: expect.any(Date) },
+    });
+
+    await markSubscribersSuppressed(['reader@example.com'], 'COMPLAINT');
+    expect(prisma.newsletterSubscriber.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: { status: 'UNSUBSCRIBED', unsubscribedAt: expect.any(Date) },
+      })
+    );
+
+    expect(await markSubscribersSuppressed([], 'COMPLAINT')).toBe(0);
+    expect(prisma.newsletterSubscriber.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should build segment filters', () => {
+    expect(
+      buildSubscriberWhere({ status: 'CONFIRMED', interest: 'governance', geo: 'unknown', source: 'hero' })
+    ).toEqual({
+      status: 'CONFIRMED',
+      interests: { has: 'governance' },
+      geo: null,
+      source: 'hero',
+    });
+  });
+});
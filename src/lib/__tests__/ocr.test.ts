@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  disposeOcrProvider,
+  getOcrProvider,
+  resolveOcrProviderName,
+} from '../ocr';
+import { mapTesseractPage, readImageDimensions } from '../ocr/tesseract';
+import { mapTextractBlocks } from '../ocr/textract';
+import { processReceiptFile } from '../receipt-processor';
+
+import {
+  receiptPdfBuffer,
+  receiptPngBuffer,
+  tesseractReceiptPage,
+  textractReceiptBlocks,
+} from '@/__tests__/fixtures/receipts';
+
+const recognize = vi.fn();
+const terminate = vi.fn();
+
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(async () => ({ recognize, terminate })),
+}));
+
+describe('OCR Providers', () => {
+  beforeEach(() => {
+    vi.stubEnv('OCR_PROVIDER', '');
+    vi.stubEnv('AWS_TEXTRACT_REGION', '');
+    vi.stubEnv('AWS_ACCESS_KEY_ID', '');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', '');
+    recognize.mockReset();
+    recognize.mockResolvedValue({ data: tesseractReceiptPage });
+  });
+
+  afterEach(async () => {
+    await disposeOcrProvider();
+    vi.unstubAllEnvs();
+  });
+
+  describe('resolveOcrProviderName', () => {
+    it('should default to tesseract when Textract is not configured', () => {
+      expect(resolveOcrProviderName()).toBe('tesseract');
+    });
+
+    it('should default to textract when credentials are configured', () => {
+      vi.stubEnv('AWS_TEXTRACT_REGION', 'us-east-1');
+      vi.stubEnv('AWS_ACCESS_KEY_ID', 'key');
+      vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+
+      expect(resolveOcrProviderName()).toBe('textract');
+    });
+
+    it('should honour an explicit OCR_PROVIDER', () => {
+      vi.stubEnv('AWS_TEXTRACT_REGION', 'us-east-1');
+      vi.stubEnv('AWS_ACCESS_KEY_ID', 'key');
+      vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+      vi.stubEnv('OCR_PROVIDER', 'tesseract');
+
+      expect(resolveOcrProviderName()).toBe('tesseract');
+    });
+
+    it('should fall back to tesseract when textract is requested without credentials', () => {
+      vi.stubEnv('OCR_PROVIDER', 'textract');
+
+      expect(resolveOcrProviderName()).toBe('tesseract');
+    });
+  });
+
+  describe('readImageDimensions', () => {
+    it('should read PNG dimensions', () => {
+      expect(readImageDimensions(receiptPngBuffer)).toEqual({ width: 400, height: 600 });
+    });
+
+    it('should return null for non-image data', () => {
+      expect(readImageDimensions(receiptPdfBuffer)).toBeNull();
+    });
+  });
+
+  describe('mapTesseractPage', () => {
+    it('should normalise confidence and bounding boxes', () => {
+      const result = mapTesseractPage(tesseractReceiptPage, { width: 400, height: 600 });
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('tesseract');
+      expect(result.confidence).toBeCloseTo(0.84);
+      expect(result.lines).toHaveLength(5);
+      expect(result.lines[4]).toEqual({
+        text: 'Grand Total: $28.99',
+        confidence: 0.54,
+        boundingBox: { left: 0.05, top: 0.9, width: 0.65, height: 22 / 600 },
+      });
+    });
+
+    it('should fail when no text is recognised', () => {
+      const result = mapTesseractPage(
+        { ...tesseractReceiptPage, blocks: [] },
+        { width: 400, height: 600 }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No text recognised');
+    });
+  });
+
+  describe('mapTextractBlocks', () => {
+    it('should keep LINE blocks only and average their confidence', () => {
+      const result = mapTextractBlocks(textractReceiptBlocks);
+
+      expect(result.provider).toBe('textract');
+      expect(result.lines.map((line) => line.text)).toEqual([
+        'amazon.com',
+        'Order #112-4455667-1234567',
+        'Ordered by: Jane Smith',
+        'AI-Born (Hardcover)',
+        'Grand Total: $28.99',
+      ]);
+      expect(result.confidence).toBeCloseTo((96 + 91 + 88 + 93 + 54) / 500);
+      expect(result.lines[4].boundingBox?.top).toBeCloseTo(0.9);
+    });
+  });
+
+  describe('processReceiptFile', () => {
+    it('should run a fixture receipt through OCR and redaction', async () => {
+      const result = await processReceiptFile(receiptPngBuffer, 'image/png');
+
+      expect(getOcrProvider().name).toBe('tesseract');
+      expect(recognize).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.ocrProvider).toBe('tesseract');
+      expect(result.text).toContain('AI-Born (Hardcover)');
+      expect(result.redactedText).not.toContain('Jane Smith');
+      expect(result.redactedLines).toHaveLength(5);
+      expect(result.redactedLines[2].text).toBe('Ordered by: [REDACTED]');
+      expect(result.redactedLines[2].boundingBox).not.toBeNull();
+      expect(result.redactedRegions).toContainEqual(result.redactedLines[2].boundingBox);
+      expect(result.redactedRegions).not.toContainEqual(result.redactedLines[3].boundingBox);
+    });
+
+    it('should not send PDFs to Tesseract', async () => {
+      const result = await processReceiptFile(receiptPdfBuffer, 'application/pdf');
+
+      expect(recognize).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unsupported file type');
+    });
+
+    it('should surface engine failures as unsuccessful results', async () => {
+      recognize.mockRejectedValueOnce(new Error('worker crashed'));
+
+      const result = await processReceiptFile(receiptPngBuffer, 'image/png');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('worker crashed');
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { Prisma, type Org, type OrgMember } from '@prisma/client';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  ORG_AUTO_JOIN_BACKFILL_QUEUE,
+  ORG_AUTO_JOIN_DIGEST_QUEUE,
+  autoJoinVerifiedOrgs,
+  isAutoJoinRole,
+  runAutoJoinBackfillBatch,
+  sendAutoJoinDigest,
+} from '../org-auto-join';
+
+import { recordAuditEvent } from '@/lib/audit-log';
+import { sendOrgAutoJoinDigestEmail } from '@/lib/email';
+import { enqueueJob } from '@/lib/job-queue';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendOrgAutoJoinDigestEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/job-queue', () => ({
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    org: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    orgMember: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const NOW = new Date('2026-10-19T15:00:00Z');
+
+const ORG = {
+  id: 'org_1',
+  name: 'Acme',
+  domain: 'acme.example',
+  domainVerified: true,
+  allowAutoJoin: true,
+  autoJoinRole: 'VIEWER',
+} as Org;
+
+const USER = {
+  id: 'user_1',
+  email: 'Reader@Acme.example',
+  emailVerified: NOW,
+};
+
+/**
+ * Membership with the given overrides
+ */
+function buildMember(overrides: Partial<OrgMember> = {}): OrgMember {
+  return {
+    id: 'mem_1',
+    orgId: 'org_1',
+    userId: 'user_1',
+    role: 'VIEWER',
+    status: 'ACTIVE',
+    inviteEmail: null,
+    invitedBy: null,
+    invitedAt: null,
+    inviteExpiresAt: null,
+    joinedAt: NOW,
+    autoJoinedAt: NOW,
+    autoJoinNotifiedAt: null,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Org Auto-Join', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.org.findMany).mockResolvedValue([ORG]);
+    vi.mocked(prisma.orgMember.findMany).mockResolvedValue([]);
+  });
+
+  it('should only allow non-owner roles', () => {
+    expect(isAutoJoinRole('MEMBER')).toBe(true);
+    expect(isAutoJoinRole('ADMIN')).toBe(true);
+    expect(isAutoJoinRole('OWNER')).toBe(false);
+    expect(isAutoJoinRole(undefined)).toBe(false);
+  });
+
+  describe('autoJoinVerifiedOrgs', () => {
+    it('should join matching orgs with the default role and queue a digest', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+      vi.mocked(prisma.orgMember.create).mockResolvedValue(buildMember());
+
+      const joined = await autoJoinVerifiedOrgs('user_1', NOW);
+
+      expect(prisma.org.findMany).toHaveBeenCalledWith({
+        where: { domain: 'acme.example', domainVerified: true, allowAutoJoin: true },
+      });
+      expect(prisma.orgMember.create).toHaveBeenCalledWith({
+        data: {
+          orgId: 'org_1',
+          userId: 'user_1',
+          role: 'VIEWER',
+          status: 'ACTIVE',
+          joinedAt: NOW,
+          autoJoinedAt: NOW,
+        },
+      });
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actorType: 'SYSTEM', action: 'ORG_MEMBER_AUTO_JOIN', entityId: 'mem_1' })
+      );
+      expect(enqueueJob).toHaveBeenCalledWith(
+        ORG_AUTO_JOIN_DIGEST_QUEUE,
+        { orgId: 'org_1' },
+        { idempotencyKey: 'org_1:20745', delayMs: 9 * 60 * 60 * 1000 }
+      );
+      expect(joined).toHaveLength(1);
+    });
+
+    it('should skip unverified emails', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...USER, emailVerified: null } as never);
+
+      expect(await autoJoinVerifiedOrgs('user_1', NOW)).toEqual([]);
+      expect(prisma.org.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not re-add removed or suspended members', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+
+      for (const status of ['REMOVED', 'SUSPENDED', 'ACTIVE'] as const) {
+        vi.mocked(prisma.orgMember.findMany).mockResolvedValueOnce([buildMember({ status })]);
+        expect(await autoJoinVerifiedOrgs('user_1', NOW)).toEqual([]);
+      }
+
+      expect(prisma.orgMember.create).not.toHaveBeenCalled();
+      expect(prisma.orgMember.update).not.toHaveBeenCalled();
+      expect(enqueueJob).not.toHaveBeenCalled();
+    });
+
+    it('should not add someone who declined an invite before signing up', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+      vi.mocked(prisma.orgMember.findMany).mockResolvedValue([
+        buildMember({ userId: null, status: 'REMOVED', inviteEmail: 'reader@acme.example' }),
+      ]);
+
+      expect(await autoJoinVerifiedOrgs('user_1', NOW)).toEqual([]);
+      expect(prisma.orgMember.create).not.toHaveBeenCalled();
+      expect(prisma.orgMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should join over an expired invite with the default role, not the invited one', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+      vi.mocked(prisma.orgMember.findMany).mockResolvedValue([
+        buildMember({ userId: null, status: 'EXPIRED', role: 'ADMIN', inviteEmail: 'reader@acme.example' }),
+      ]);
+      vi.mocked(prisma.orgMember.update).mockResolvedValue(buildMember());
+
+      await autoJoinVerifiedOrgs('user_1', NOW);
+
+      expect(prisma.orgMember.findMany).toHaveBeenCalledWith({
+        where: { orgId: 'org_1', OR: [{ userId: 'user_1' }, { inviteEmail: 'reader@acme.example' }] },
+      });
+      expect(prisma.orgMember.update).toHaveBeenCalledWith({
+        where: { id: 'mem_1' },
+        data: {
+          userId: 'user_1',
+          role: 'VIEWER',
+          status: 'ACTIVE',
+          joinedAt: NOW,
+          inviteExpiresAt: null,
+          autoJoinedAt: NOW,
+        },
+      });
+      expect(prisma.orgMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave a pending invite for the user to answer', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+
+      for (const invite of [
+        buildMember({ status: 'INVITED', role: 'ADMIN' }),
+        buildMember({ userId: null, status: 'INVITED', role: 'ADMIN', inviteEmail: 'reader@acme.example' }),
+      ]) {
+        vi.mocked(prisma.orgMember.findMany).mockResolvedValueOnce([invite]);
+        expect(await autoJoinVerifiedOrgs('user_1', NOW)).toEqual([]);
+      }
+
+      expect(prisma.orgMember.create).not.toHaveBeenCalled();
+      expect(prisma.orgMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a concurrent join', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(USER as never);
+      vi.mocked(prisma.orgMember.create).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      expect(await autoJoinVerifiedOrgs('user_1', NOW)).toEqual([]);
+      expect(recordAuditEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runAutoJoinBackfillBatch', () => {
+    it('should join verified domain users and return the next cursor', async () => {
+      vi.mocked(prisma.org.findUnique).mockResolvedValue(ORG);
+      vi.mocked(prisma.user.findMany).mockResolvedValue(
+        Array.from({ length: 200 }, (_, index) => ({ id: `user_${index}`, email: `u${index}@acme.example` })) as never
+      );
+      vi.mocked(prisma.orgMember.create).mockResolvedValue(buildMember());
+
+      const result = await runAutoJoinBackfillBatch({ orgId: 'org_1', runId: 'run_1', cursor: 'user_a' }, NOW);
+
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          email: { endsWith: '@acme.example', mode: 'insensitive' },
+          emailVerified: { not: null },
+        },
+        select: { id: true, email: true },
+        orderBy: { id: 'asc' },
+        take: 200,
+        cursor: { id: 'user_a' },
+        skip: 1,
+      });
+      expect(result).toEqual({ scanned: 200, joined: 200, nextCursor: 'user_199' });
+      expect(enqueueJob).toHaveBeenCalledTimes(1);
+      expect(enqueueJob).not.toHaveBeenCalledWith(ORG_AUTO_JOIN_BACKFILL_QUEUE, expect.anything(), expect.anything());
+    });
+
+    it('should stop once auto-join is turned off', async () => {
+      vi.mocked(prisma.org.findUnique).mockResolvedValue({ ...ORG, allowAutoJoin: false });
+
+      expect(await runAutoJoinBackfillBatch({ orgId: 'org_1', runId: 'run_1' }, NOW)).toEqual({
+        scanned: 0,
+        joined: 0,
+        nextCursor: null,
+      });
+      expect(prisma.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendAutoJoinDigest', () => {
+    it('should email owners and mark members notified', async () => {
+      vi.mocked(prisma.org.findUnique).mockResolvedValue(ORG);
+      vi.mocked(prisma.orgMember.findMany)
+        .mockResolvedValueOnce([
+          { ...buildMember(), user: { name: 'Reader', email: 'reader@acme.example' } },
+        ] as never)
+        .mockResolvedValueOnce([
+          { ...buildMember({ id: 'mem_owner', role: 'OWNER' }), user: { email: 'owner@acme.example' } },
+        ] as never);
+      vi.mocked(sendOrgAutoJoinDigestEmail).mockResolvedValue({ success: true });
+
+      expect(await sendAutoJoinDigest('org_1', NOW)).toEqual({ members: 1, owners: 1, sent: 1 });
+      expect(sendOrgAutoJoinDigestEmail).toHaveBeenCalledWith('owner@acme.example', {
+        orgName: 'Acme',
+        domain: 'acme.example',
+        members: [{ name: 'Reader', email: 'reader@acme.example', role: 'Viewer' }],
+        totalCount: 1,
+        membersUrl: expect.stringMatching(/\/org\/org_1$/),
+      });
+      expect(prisma.orgMember.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['mem_1'] } },
+        data: { autoJoinNotifiedAt: NOW },
+      });
+    });
+
+    it('should retry when no owner could be emailed', async () => {
+      vi.mocked(prisma.org.findUnique).mockResolvedValue(ORG);
+      vi.mocked(prisma.orgMember.findMany)
+        .mockResolvedValueOnce([{ ...buildMember(), user: { name: null, email: 'reader@acme.example' } }] as never)
+        .mockResolvedValueOnce([{ ...buildMember({ role: 'OWNER' }), user: { email: 'owner@acme.example' } }] as never);
+      vi.mocked(sendOrgAutoJoinDigestEmail).mockResolvedValue({ success: false, error: 'down' });
+
+      await expect(sendAutoJoinDigest('org_1', NOW)).rejects.toThrow('could not be sent');
+      expect(prisma.orgMember.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { checkDNSPropagation, type TxtResolverFactory } from '../domain-verification';
+import { recheckOrgDomain, runDomainReverification } from '../org-domain-reverification';
+
+import { recordAuditEvent } from '@/lib/audit-log';
+import { sendOrgDomainUnverifiedEmail, sendOrgDomainWarningEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+
+import type { Org } from '@prisma/client';
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendOrgDomainWarningEmail: vi.fn(),
+  sendOrgDomainUnverifiedEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    org: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    orgMember: {
+      findMany: vi.fn(),
+    },
+    orgDomainEvent: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+const NOW = new Date('2026-10-19T15:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECORD = 'aiborn-verification=token_1';
+
+const ORG = {
+  id: 'org_1',
+  name: 'Acme',
+  domain: 'acme.example',
+  domainVerificationToken: 'token_1',
+  domainVerified: true,
+  domainVerifiedAt: new Date(NOW.getTime() - 30 * DAY_MS),
+  domainCheckedAt: new Date(NOW.getTime() - DAY_MS),
+  domainCheckFailedAt: null,
+  domainWarnedAt: null,
+  allowAutoJoin: true,
+} as Org;
+
+/**
+ * Resolver answering per server with TXT records or a DNS error code
+ */
+function fakeResolver(answers: Record<string, string[][] | string>): TxtResolverFactory {
+  return (server) => ({
+    resolveTxt: async () => {
+      const answer = answers[server] ?? 'ENODATA';
+      if (typeof answer === 'string') {
+        throw Object.assign(new Error(`queryTxt ${answer}`), { code: answer });
+      }
+      return answer;
+    },
+  });
+}
+
+const missing = fakeResolver({});
+const timedOut = fakeResolver({ '8.8.8.8': 'ETIMEOUT', '1.1.1.1': 'ETIMEOUT', '208.67.222.222': 'ECONNREFUSED' });
+
+describe('Org Domain Re-verification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.orgMember.findMany).mockResolvedValue([
+      { user: { email: 'owner@acme.example' } },
+    ] as never);
+    vi.mocked(sendOrgDomainWarningEmail).mockResolvedValue({ success: true });
+    vi.mocked(sendOrgDomainUnverifiedEmail).mockResolvedValue({ success: true });
+  });
+
+  it('should check propagation through the given resolver', async () => {
+    const result = await checkDNSPropagation(
+      'acme.example',
+      'token_1',
+      fakeResolver({ '8.8.8.8': [[RECORD]], '1.1.1.1': [['aiborn-', 'verification=token_1']], '208.67.222.222': 'ETIMEOUT' })
+    );
+
+    expect(result.propagated).toBe(false);
+    expect(result.servers).toEqual([
+      { server: 'Google', found: true, records: [RECORD] },
+      { server: 'Cloudflare', found: true, records: [RECORD] },
+      { server: 'OpenDNS', found: false, records: [], error: 'ETIMEOUT' },
+    ]);
+  });
+
+  it('should pass when any server has the record', async () => {
+    const outcome = await recheckOrgDomain(ORG, NOW, fakeResolver({ '1.1.1.1': [[RECORD]] }));
+
+    expect(outcome).toBe('passed');
+    expect(prisma.org.update).toHaveBeenCalledWith({
+      where: { id: 'org_1' },
+      data: { domainCheckedAt: NOW, domainCheckAttemptedAt: NOW, domainCheckFailedAt: null, domainWarnedAt: null },
+    });
+    expect(prisma.orgDomainEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should only record the attempt when every lookup fails', async () => {
+    expect(await recheckOrgDomain(ORG, NOW, timedOut)).toBe('inconclusive');
+    expect(prisma.org.update).toHaveBeenCalledTimes(1);
+    expect(prisma.org.update).toHaveBeenCalledWith({
+      where: { id: 'org_1' },
+      data: { domainCheckAttemptedAt: NOW },
+    });
+    expect(prisma.orgDomainEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should start the grace period and warn owners', async () => {
+    expect(await recheckOrgDomain(ORG, NOW, missing)).toBe('failed');
+
+    expect(prisma.org.update).toHaveBeenCalledWith({
+      where: { id: 'org_1' },
+      data: { domainCheckedAt: NOW, domainCheckAttemptedAt: NOW, domainCheckFailedAt: NOW },
+    });
+    expect(prisma.orgDomainEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orgId: 'org_1', type: 'CHECK_FAILED' }),
+    });
+    expect(sendOrgDomainWarningEmail).toHaveBeenCalledWith(
+      'owner@acme.example',
+      expect.objectContaining({
+        domain: 'acme.example',
+        recordName: '_aiborn-verify.acme.example',
+        recordValue: RECORD,
+        revokesAt: new Date(NOW.getTime() + 7 * DAY_MS),
+        final: false,
+      })
+    );
+    expect(prisma.org.update).toHaveBeenLastCalledWith({
+      where: { id: 'org_1' },
+      data: { domainWarnedAt: NOW },
+    });
+  });
+
+  it('should warn again only in the final day', async () => {
+    const failing = {
+      ...ORG,
+      domainCheckFailedAt: new Date(NOW.getTime() - 3 * DAY_MS),
+      domainWarnedAt: new Date(NOW.getTime() - 3 * DAY_MS),
+    };
+
+    await recheckOrgDomain(failing, NOW, missing);
+    expect(sendOrgDomainWarningEmail).not.toHaveBeenCalled();
+
+    const lastDay = new Date(NOW.getTime() + 3.5 * DAY_MS);
+    await recheckOrgDomain(failing, lastDay, missing);
+    expect(sendOrgDomainWarningEmail).toHaveBeenCalledWith(
+      'owner@acme.example',
+      expect.objectContaining({ final: true })
+    );
+  });
+
+  it('should unverify once the grace period is over', async () => {
+    const failing = { ...ORG, domainCheckFailedAt: new Date(NOW.getTime() - 7 * DAY_MS) };
+
+    expect(await recheckOrgDomain(failing, NOW, missing)).toBe('unverified');
+
+    expect(prisma.org.update).toHaveBeenCalledWith({
+      where: { id: 'org_1' },
+      data: expect.objectContaining({ domainVerified: false, domainVerifiedAt: null, domainCheckFailedAt: null }),
+    });
+    expect(prisma.orgDomainEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'UNVERIFIED', reason: 'TXT record missing for 7 days' }),
+    });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ actorType: 'SYSTEM', action: 'ORG_DOMAIN_UNVERIFY', entityId: 'org_1' })
+    );
+    expect(sendOrgDomainUnverifiedEmail).toHaveBeenCalledWith(
+      'owner@acme.example',
+      expect.objectContaining({ domain: 'acme.example', autoJoinPaused: true })
+    );
+    expect(sendOrgDomainWarningEmail).not.toHaveBeenCalled();
+  });
+
+  it('should record a recovery within the grace period', async () => {
+    const failing = { ...ORG, domainCheckFailedAt: new Date(NOW.getTime() - 2 * DAY_MS) };
+
+    expect(await recheckOrgDomain(failing, NOW, fakeResolver({ '8.8.8.8': [[RECORD]] }))).toBe('recovered');
+    expect(prisma.orgDomainEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'CHECK_RECOVERED' }),
+    });
+  });
+
+  it('should re-check domains not checked within the interval', async () => {
+    vi.mocked(prisma.org.findMany).mockResolvedValue([ORG, { ...ORG, id: 'org_2' }]);
+
+    const summary = await runDomainReverification(NOW, fakeResolver({ '8.8.8.8': [[RECORD]] }));
+
+    expect(prisma.org.findMany).toHaveBeenCalledWith({
+      where: {
+        domainVerified: true,
+        domain: { not: null },
+        domainVerificationToken: { not: null },
+        AND: [
+          { OR: [{ domainCheckedAt: null }, { domainCheckedAt: { lt: new Date(NOW.getTime() - DAY_MS) } }] },
+          {
+            OR: [
+              { domainCheckAttemptedAt: null },
+              { domainCheckAttemptedAt: { lt: new Date(NOW.getTime() - 6 * 60 * 60 * 1000) } },
+            ],
+          },
+        ],
+      },
+      orderBy: { domainCheckAttemptedAt: { sort: 'asc', nulls: 'first' } },
+      take: 20,
+    });
+    expect(summary).toEqual({ checked: 2, passed: 2, recovered: 0, failed: 0, unverified: 0, inconclusive: 0 });
+  });
+
+  it('should check a few domains at a time', async () => {
+    vi.mocked(prisma.org.findMany).mockResolvedValue(
+      Array.from({ length: 12 }, (_, i) => ({ ...ORG, id: `org_${i}` }))
+    );
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slow: TxtResolverFactory = () => ({
+      resolveTxt: async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return [[RECORD]];
+      },
+    });
+
+    const summary = await runDomainReverification(NOW, slow);
+
+    expect(summary.passed).toBe(12);
+    // Three public resolvers per domain, five domains at a time
+    expect(maxInFlight).toBe(15);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  acceptOrgInvite,
+  buildOrgInviteUrl,
+  createOrgInvite,
+  expireStaleOrgInvites,
+  resolveOrgInvite,
+} from '../org-invitations';
+
+import { sendOrgInviteEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+
+import type { OrgMember } from '@prisma/client';
+
+vi.hoisted(() => {
+  process.env.NEXTAUTH_SECRET = 'test-invite-secret';
+});
+
+vi.mock('@/lib/email', () => ({
+  sendOrgInviteEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    orgMember: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const NOW = new Date();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Invited membership with the given overrides
+ */
+function buildInvite(overrides: Partial<OrgMember> = {}): OrgMember {
+  return {
+    id: 'mem_1',
+    orgId: 'org_1',
+    userId: null,
+    role: 'MEMBER',
+    status: 'INVITED',
+    inviteEmail: 'reader@acme.example',
+    invitedBy: 'user_owner',
+    invitedAt: NOW,
+    inviteExpiresAt: new Date(NOW.getTime() + 7 * DAY_MS),
+    joinedAt: null,
+    autoJoinedAt: null,
+    autoJoinNotifiedAt: null,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+/**
+ * Token from an accept link
+ */
+function tokenFor(member: OrgMember): string {
+  return buildOrgInviteUrl(member).split('/org/invite/')[1];
+}
+
+describe('Org Invitations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sendOrgInviteEmail).mockResolvedValue({ success: true });
+    vi.mocked(prisma.$transaction).mockImplementation(((callback: (tx: unknown) => unknown) =>
+      callback(prisma)) as never);
+  });
+
+  describe('createOrgInvite', () => {
+    it('should invite unknown emails without creating an account', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.orgMember.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.orgMember.create).mockResolvedValue(buildInvite());
+
+      const { invite, inviteUrl, emailSent } = await createOrgInvite(
+        {
+          orgId: 'org_1',
+          orgName: 'Acme',
+          email: ' Reader@Acme.example ',
+          invitedBy: 'user_owner',
+        },
+        NOW
+      );
+
+      expect(prisma.orgMember.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orgId: 'org_1',
+          userId: undefined,
+          inviteEmail: 'reader@acme.example',
+          status: 'INVITED',
+          role: 'MEMBER',
+          inviteExpiresAt: new Date(NOW.getTime() + 7 * DAY_MS),
+        }),
+      });
+      expect(sendOrgInviteEmail).toHaveBeenCalledWith('reader@acme.example', 'Acme', inviteUrl);
+      expect(inviteUrl).toMatch(/\/org\/invite\/[\w-]+\.[\w-]+\.[\w-]+$/);
+      expect(invite).toMatchObject({ id: 'mem_1', email: 'reader@acme.example', status: 'INVITED' });
+      expect(emailSent).toBe(true);
+    });
+
+    it('should refuse existing members and pending invites', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+      vi.mocked(prisma.orgMember.findFirst).mockResolvedValueOnce(
+        buildInvite({ userId: 'user_1', status: 'ACTIVE' })
+      );
+
+      const input = { orgId: 'org_1', orgName: 'Acme', email: 'reader@acme.example', invitedBy: 'user_owner' };
+
+      await expect(createOrgInvite(input, NOW)).rejects.toMatchObject({ statusCode: 409 });
+
+      vi.mocked(prisma.orgMember.findFirst).mockResolvedValueOnce(buildInvite());
+      await expect(createOrgInvite(input, NOW)).rejects.toThrow('resend it instead');
+
+      expect(prisma.orgMember.create).not.toHaveBeenCalled();
+      expect(sendOrgInviteEmail).not.toHaveBeenCalled();
+    });
+
+    it('should re-invite removed members on their existing membership', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+      vi.mocked(prisma.orgMember.findFirst).mockResolvedValue(
+        buildInvite({ userId: 'user_1', status: 'REMOVED', inviteEmail: null })
+      );
+      vi.mocked(prisma.orgMember.update).mockResolvedValue(buildInvite({ userId: 'user_1' }));
+
+      await createOrgInvite(
+        { orgId: 'org_1', orgName: 'Acme', email: 'reader@acme.example', role: 'ADMIN', invitedBy: 'user_owner' },
+        NOW
+      );
+
+      expect(prisma.orgMember.update).toHaveBeenCalledWith({
+        where: { id: 'mem_1' },
+        data: expect.objectContaining({ userId: 'user_1', status: 'INVITED', role: 'ADMIN' }),
+      });
+    });
+  });
+
+  describe('answering invites', () => {
+    it('should accept as the invited email', async () => {
+      const member = buildInvite();
+      vi.mocked(prisma.orgMember.findUnique)
+        .mockResolvedValueOnce({ ...member, org: { id: 'org_1', name: 'Acme' } } as never)
+        .mockResolvedValueOnce(null);
+      vi.mocked(prisma.orgMember.update).mockResolvedValue(
+        buildInvite({ userId: 'user_1', status: 'ACTIVE' })
+      );
+
+      await acceptOrgInvite(tokenFor(member), { id: 'user_1', email: 'Reader@Acme.example' }, NOW);
+
+      expect(prisma.orgMember.update).toHaveBeenCalledWith({
+        where: { id: 'mem_1' },
+        data: { userId: 'user_1', status: 'ACTIVE', joinedAt: NOW, inviteExpiresAt: null },
+      });
+    });
+
+    it('should not accept for another email', async () => {
+      const member = buildInvite();
+      vi.mocked(prisma.orgMember.findUnique).mockResolvedValue({
+        ...member,
+        org: { id: 'org_1', name: 'Acme' },
+      } as never);
+
+      await expect(
+        acceptOrgInvite(tokenFor(member), { id: 'user_2', email: 'someone@else.example' }, NOW)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.orgMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject links from before a resend', async () => {
+      const original = buildInvite({ invitedAt: new Date(NOW.getTime() - DAY_MS) });
+      vi.mocked(prisma.orgMember.findUnique).mockResolvedValue({
+        ...buildInvite(),
+        org: { id: 'org_1', name: 'Acme' },
+      } as never);
+
+      await expect(resolveOrgInvite(tokenFor(original), NOW)).rejects.toMatchObject({
+        statusCode: 410,
+        message: expect.stringContaining('newer invite'),
+      });
+    });
+
+    it('should reject expired and withdrawn invites', async () => {
+      const member = buildInvite();
+      const token = tokenFor(member);
+
+      vi.mocked(prisma.orgMember.findUnique).mockResolvedValueOnce({
+        ...member,
+        org: { id: 'org_1', name: 'Acme' },
+      } as never);
+      await expect(
+        resolveOrgInvite(token, new Date(NOW.getTime() + 8 * DAY_MS))
+      ).rejects.toMatchObject({ statusCode: 410 });
+
+      vi.mocked(prisma.orgMember.findUnique).mockResolvedValueOnce({
+        ...member,
+        status: 'REMOVED',
+        org: { id: 'org_1', name: 'Acme' },
+      } as never);
+      await expect(resolveOrgInvite(token, NOW)).rejects.toMatchObject({ statusCode: 404 });
+
+      await expect(resolveOrgInvite('not-a-token', NOW)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  it('should mark lapsed invites expired', async () => {
+    vi.mocked(prisma.orgMember.updateMany).mockResolvedValue({ count: 2 });
+
+    expect(await expireStaleOrgInvites(NOW, 'org_1')).toBe(2);
+    expect(prisma.orgMember.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org_1', status: 'INVITED', inviteExpiresAt: { lt: NOW } },
+      data: { status: 'EXPIRED' },
+    });
+  });
+});
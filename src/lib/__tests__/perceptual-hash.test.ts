@@ -0,0 +1,207 @@
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  computeImageHash,
+  computePerceptualHashes,
+  hammingDistance,
+  hashBands,
+  hashSimilarity,
+} from '../perceptual-hash';
+import { buildOrderKey, findNearDuplicateReceipt } from '../receipt-duplicates';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    receipt: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+/**
+ * Receipt-like test image: a white page with dark "text" bars
+ */
+function receiptSvg(bars: Array<[number, number]>): string {
+  const rects = bars
+    .map(([y, width]) => `<rect x="40" y="${y}" width="${width}" height="14" fill="#222"/>`)
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="600"><rect width="400" height="600" fill="#fff"/>${rects}</svg>`;
+}
+
+const RECEIPT_BARS: Array<[number, number]> = [
+  [40, 200], [80, 300], [120, 150], [200, 320], [240, 90], [280, 260], [400, 180], [520, 300],
+];
+
+const OTHER_BARS: Array<[number, number]> = [
+  [60, 320], [100, 80], [180, 240], [220, 310], [340, 120], [380, 200], [460, 300], [540, 60],
+];
+
+async function renderPng(bars: Array<[number, number]>): Promise<Buffer> {
+  return sharp(Buffer.from(receiptSvg(bars))).png().toBuffer();
+}
+
+/**
+ * Minimal single-page PDF drawing the same bars as `receiptSvg`
+ */
+function receiptPdf(bars: Array<[number, number]>): Buffer {
+  const content = bars.map(([y, width]) => `40 ${600 - y - 14} ${width} 14 re f`).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 400 600] /Contents 4 0 R >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('Perceptual Hash', () => {
+  it('should produce 64-bit hex hashes', async () => {
+    const hash = await computeImageHash(await renderPng(RECEIPT_BARS));
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should match re-encoded, resized and padded copies', async () => {
+    const original = await renderPng(RECEIPT_BARS);
+    const originalHash = await computeImageHash(original);
+
+    const jpeg = await sharp(original).jpeg({ quality: 40 }).toBuffer();
+    const resized = await sharp(original).resize(220).webp({ quality: 60 }).toBuffer();
+    // Screenshot with extra margin around the receipt
+    const padded = await sharp(original)
+      .extend({ top: 50, bottom: 30, left: 25, right: 25, background: '#ffffff' })
+      .png()
+      .toBuffer();
+
+    for (const copy of [jpeg, resized, padded]) {
+      expect(hashSimilarity(originalHash, await computeImageHash(copy))).toBeGreaterThanOrEqual(0.93);
+    }
+  });
+
+  it('should keep slightly cropped copies within review range', async () => {
+    const original = await renderPng(RECEIPT_BARS);
+    const cropped = await sharp(original)
+      .extract({ left: 0, top: 10, width: 390, height: 580 })
+      .toBuffer();
+
+    expect(
+      hashSimilarity(await computeImageHash(original), await computeImageHash(cropped))
+    ).toBeGreaterThanOrEqual(0.89);
+  });
+
+  it('should tell different receipts apart', async () => {
+    const a = await computeImageHash(await renderPng(RECEIPT_BARS));
+    const b = await computeImageHash(await renderPng(OTHER_BARS));
+
+    expect(hashSimilarity(a, b)).toBeLessThan(0.89);
+  });
+
+  it('should hash rendered PDF pages like the equivalent image', async () => {
+    const [pdfHash] = await computePerceptualHashes(receiptPdf(RECEIPT_BARS), 'application/pdf');
+    const imageHash = await computeImageHash(await renderPng(RECEIPT_BARS));
+
+    expect(hashSimilarity(pdfHash, imageHash)).toBeGreaterThanOrEqual(0.93);
+  });
+
+  it('should skip unsupported file types', async () => {
+    expect(await computePerceptualHashes(Buffer.from('hello'), 'text/plain')).toEqual([]);
+  });
+
+  it('should share a band between hashes fewer than 8 bits apart', () => {
+    const a = '0123456789abcdef';
+    const b = '1133557799bbddef'; // One bit differs in each of the first 7 bands
+
+    expect(hammingDistance(a, b)).toBe(7);
+    const bandsA = new Set(hashBands([a]));
+    expect(hashBands([b]).some((token) => bandsA.has(token))).toBe(true);
+  });
+});
+
+describe('Near-Duplicate Receipts', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.receipt.findFirst).mockReset().mockResolvedValue(null);
+    vi.mocked(prisma.receipt.findMany).mockReset().mockResolvedValue([]);
+  });
+
+  it('should normalize retailer and order number into an order key', () => {
+    expect(buildOrderKey('Amazon.co.uk', '#112-4455667 1234567')).toBe(
+      'amazon:11244556671234567'
+    );
+    expect(buildOrderKey('amazon', '112 4455667-1234567')).toBe('amazon:11244556671234567');
+    expect(buildOrderKey('Amazon', '12')).toBeNull();
+    expect(buildOrderKey(null, '112-4455667-1234567')).toBeNull();
+  });
+
+  it('should mark a reused order number as a duplicate', async () => {
+    vi.mocked(prisma.receipt.findFirst).mockResolvedValue({ id: 'original' } as never);
+
+    const result = await findNearDuplicateReceipt({
+      receiptId: 'new',
+      perceptualHashes: [],
+      orderKey: 'amazon:11244556671234567',
+    });
+
+    expect(result.verdict).toBe('duplicate');
+    expect(result.match).toEqual({ receiptId: 'original', reason: 'order-number', similarity: 1 });
+  });
+
+  it('should grade perceptual matches against the thresholds', async () => {
+    const hash = '0123456789abcdef';
+    vi.mocked(prisma.receipt.findMany).mockResolvedValue([
+      { id: 'close', perceptualHashes: ['0123456789abcde0'] }, // 4 bits
+      { id: 'far', perceptualHashes: ['fedcba9876543210'] },
+    ] as never);
+
+    const duplicate = await findNearDuplicateReceipt({
+      receiptId: 'new',
+      perceptualHashes: [hash],
+      orderKey: null,
+    });
+    expect(duplicate).toMatchObject({
+      verdict: 'duplicate',
+      match: { receiptId: 'close', reason: 'perceptual-hash' },
+    });
+
+    vi.mocked(prisma.receipt.findMany).mockResolvedValue([
+      { id: 'similar', perceptualHashes: ['0123456789abcce0'] }, // 5 bits
+    ] as never);
+
+    const review = await findNearDuplicateReceipt({
+      receiptId: 'new',
+      perceptualHashes: [hash],
+      orderKey: null,
+    });
+    expect(review.verdict).toBe('review');
+    expect(review.detail).toBe('Possible duplicate of receipt similar (92% similar)');
+  });
+
+  it('should report unique receipts', async () => {
+    vi.mocked(prisma.receipt.findMany).mockResolvedValue([
+      { id: 'far', perceptualHashes: ['fedcba9876543210'] },
+    ] as never);
+
+    expect(
+      await findNearDuplicateReceipt({
+        receiptId: 'new',
+        perceptualHashes: ['0123456789abcdef'],
+        orderKey: null,
+      })
+    ).toEqual({ verdict: 'unique', match: null, detail: null });
+  });
+});
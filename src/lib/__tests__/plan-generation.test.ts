@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { DEFAULT_PLAN_MODEL, type PlanModel, type PlanModelRequest } from '../llm-plan-generator';
+import {
+  ORG_PLAN_GENERATION_QUEUE,
+  PlanSectionError,
+  abandonPlanGeneration,
+  cancelPlanGeneration,
+  createPlanEventStream,
+  getPlanSections,
+  regeneratePlanSection,
+  runPlanGeneration,
+  schedulePlanGeneration,
+} from '../plan-generation';
+
+import { enqueueJob } from '@/lib/job-queue';
+import { PlanRevisionError, savePlanRevision } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/job-queue', () => ({
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('@/lib/plan-revisions', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  savePlanRevision: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    orgPlan: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const JOB = {
+  planId: 'plan_1',
+  context: { organizationName: 'Acme', organizationType: 'CORPORATE' as const },
+};
+
+const FILLER = 'Concrete, phased work the organization can start this quarter. '.repeat(3);
+
+/**
+ * A complete plan, one chunk per line
+ */
+const PLAN_CHUNKS = [
+  '# Executive Summary\n',
+  `${FILLER}\n`,
+  '## Implementation Roadmap\n',
+  `${FILLER}\n`,
+  '## Next Steps\n',
+  `${FILLER}\n`,
+];
+
+/**
+ * Fake model replaying chunks, optionally failing partway
+ */
+function scriptedModel(chunks: string[], failAt?: number) {
+  const requests: PlanModelRequest[] = [];
+  const state = { emitted: 0, finished: false };
+
+  const model: PlanModel = {
+    async *stream(request) {
+      requests.push(request);
+      try {
+        for (const [index, text] of chunks.entries()) {
+          if (index === failAt) {
+            throw new Error('Claude API error: overloaded (Status: 529)');
+          }
+          state.emitted++;
+          yield { type: 'text', text };
+        }
+        yield { type: 'done', tokenCount: 1234, finishReason: 'end_turn' };
+      } finally {
+        state.finished = true;
+      }
+    },
+  };
+
+  return { model, requests, state };
+}
+
+/**
+ * Read a whole SSE stream as text
+ */
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('Plan Generation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.orgPlan.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.orgPlan.findUnique).mockResolvedValue({
+      status: 'GENERATING',
+      content: '',
+      generationStartedAt: null,
+    } as never);
+  });
+
+  it('should only report complete headings', () => {
+    expect(getPlanSections('# Executive Summary\nText\n## Implementation Road')).toEqual(['Executive Summary']);
+    expect(getPlanSections('# Executive Summary\n## Next Steps\n')).toEqual(['Executive Summary', 'Next Steps']);
+  });
+
+  it('should queue one job per plan', async () => {
+    vi.mocked(enqueueJob).mockResolvedValue({ job: { id: 'job_1' }, created: true } as never);
+
+    expect(await schedulePlanGeneration('plan_1', JOB.context)).toBe('job_1');
+    expect(enqueueJob).toHaveBeenCalledWith(ORG_PLAN_GENERATION_QUEUE, JOB, { idempotencyKey: 'plan_1' });
+  });
+
+  it('should stream a plan to READY, saving each section as it starts', async () => {
+    const { model, requests } = scriptedModel(PLAN_CHUNKS);
+
+    const result = await runPlanGeneration(JOB, model);
+    const content = PLAN_CHUNKS.join('');
+
+    expect(result).toEqual({ outcome: 'ready', length: content.length, tokenCount: 1234 });
+    expect(requests[0].prompt).toContain('Name: Acme');
+
+    const saves = vi.mocked(prisma.orgPlan.updateMany).mock.calls.map(([args]) => args);
+    expect(saves[0]).toEqual({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: { generationStartedAt: expect.any(Date), generationError: null },
+    });
+    expect(saves.map((save) => save?.data.content)).toEqual(
+      expect.arrayContaining([PLAN_CHUNKS[0], PLAN_CHUNKS.slice(0, 3).join('')])
+    );
+    expect(saves[saves.length - 1]).toEqual({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: expect.objectContaining({
+        content,
+        status: 'READY',
+        model: DEFAULT_PLAN_MODEL,
+        tokenCount: 1234,
+        contentJson: expect.objectContaining({ fullContent: content }),
+      }),
+    });
+    expect(savePlanRevision).toHaveBeenCalledWith('plan_1', content, {
+      source: 'GENERATION',
+      model: DEFAULT_PLAN_MODEL,
+    });
+  });
+
+  it('should keep an invalid plan as a draft with the reason', async () => {
+    const { model } = scriptedModel(['# Executive Summary\n', 'Too short.']);
+
+    expect((await runPlanGeneration(JOB, model)).outcome).toBe('invalid');
+    expect(prisma.orgPlan.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: expect.objectContaining({
+        status: 'DRAFT',
+        generationError: expect.stringContaining('Generated plan validation failed'),
+      }),
+    });
+  });
+
+  it('should stop the model and keep partial content once cancelled', async () => {
+    vi.mocked(prisma.orgPlan.updateMany)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+    const { model, state } = scriptedModel(PLAN_CHUNKS);
+
+    const result = await runPlanGeneration(JOB, model);
+    const partial = PLAN_CHUNKS.slice(0, 3).join('');
+
+    expect(result).toEqual({ outcome: 'cancelled', length: partial.length, tokenCount: null });
+    expect(state).toEqual({ emitted: 3, finished: true });
+    expect(prisma.orgPlan.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'plan_1', generationCancelledAt: { not: null } },
+      data: { content: partial },
+    });
+    expect(savePlanRevision).toHaveBeenCalledWith('plan_1', partial, expect.objectContaining({ source: 'GENERATION' }));
+  });
+
+  it('should keep partial content when the model fails', async () => {
+    const { model } = scriptedModel(PLAN_CHUNKS, 2);
+
+    const result = await runPlanGeneration(JOB, model);
+
+    expect(result.outcome).toBe('failed');
+    expect(prisma.orgPlan.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: {
+        content: PLAN_CHUNKS.slice(0, 2).join(''),
+        status: 'DRAFT',
+        generationError: 'Claude API error: overloaded (Status: 529)',
+      },
+    });
+  });
+
+  it('should continue from the content an earlier attempt saved', async () => {
+    const startedAt = new Date('2026-10-19T15:00:00Z');
+    const partial = PLAN_CHUNKS.slice(0, 3).join('');
+    vi.mocked(prisma.orgPlan.findUnique).mockResolvedValue({
+      status: 'GENERATING',
+      content: partial,
+      generationStartedAt: startedAt,
+    } as never);
+    const { model, requests } = scriptedModel(PLAN_CHUNKS.slice(3));
+
+    const result = await runPlanGeneration(JOB, model);
+    const content = PLAN_CHUNKS.join('');
+
+    expect(result).toEqual({ outcome: 'ready', length: content.length, tokenCount: 1234 });
+    expect(requests[0].prefill).toBe(partial);
+    expect(prisma.orgPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: { generationStartedAt: startedAt, generationError: null },
+    });
+    expect(prisma.orgPlan.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: expect.objectContaining({ content, status: 'READY' }),
+    });
+  });
+
+  it('should skip plans that are no longer generating', async () => {
+    vi.mocked(prisma.orgPlan.findUnique).mockResolvedValue({
+      status: 'DRAFT',
+      content: '',
+      generationStartedAt: null,
+    } as never);
+    const { model, requests } = scriptedModel(PLAN_CHUNKS);
+
+    expect((await runPlanGeneration(JOB, model)).outcome).toBe('skipped');
+    expect(requests).toHaveLength(0);
+    expect(savePlanRevision).not.toHaveBeenCalled();
+  });
+
+  it('should cancel only generating plans', async () => {
+    const now = new Date('2026-10-19T15:00:00Z');
+
+    expect(await cancelPlanGeneration('plan_1', now)).toBe(true);
+    expect(prisma.orgPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: { status: 'DRAFT', generationCancelledAt: now, generationError: 'Generation cancelled' },
+    });
+
+    vi.mocked(prisma.orgPlan.updateMany).mockResolvedValueOnce({ count: 0 });
+    expect(await cancelPlanGeneration('plan_1', now)).toBe(false);
+  });
+
+  it('should end an abandoned plan as a draft, keeping its content', async () => {
+    vi.mocked(prisma.orgPlan.findUnique).mockResolvedValue({ content: PLAN_CHUNKS[0] } as never);
+
+    expect(await abandonPlanGeneration('plan_1', 'Generation timed out')).toBe(true);
+    expect(prisma.orgPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: 'plan_1', status: 'GENERATING' },
+      data: { status: 'DRAFT', generationError: 'Generation timed out' },
+    });
+    expect(savePlanRevision).toHaveBeenCalledWith('plan_1', PLAN_CHUNKS[0], {
+      source: 'GENERATION',
+      model: DEFAULT_PLAN_MODEL,
+    });
+
+    vi.clearAllMocks();
+    vi.mocked(prisma.orgPlan.updateMany).mockResolvedValue({ count: 0 });
+    expect(await abandonPlanGeneration('plan_1', 'Generation failed')).toBe(false);
+    expect(savePlanRevision).not.toHaveBeenCalled();
+  });
+
+  it('should stream new content, sections and the final status', async () => {
+    const plan = { generationError: null, generationCancelledAt: null };
+    vi.mocked(prisma.orgPlan.findUnique)
+      .mockResolvedValueOnce({ ...plan, status: 'GENERATING', content: '# Executive Summary\nHel' } as never)
+      .mockResolvedValueOnce({ ...plan, status: 'READY', content: '# Executive Summary\nHello\n' } as never);
+
+    const text = await readStream(createPlanEventStream('plan_1', { offset: 20, pollIntervalMs: 0 }));
+
+    expect(text).toBe(
+      [
+        'retry: 0\n\n',
+        'id: 23\nevent: token\ndata: {"text":"Hel"}\n\n',
+        'event: section\ndata: {"sections":["Executive Summary"],"total":8}\n\n',
+        'id: 26\nevent: token\ndata: {"text":"lo\\n"}\n\n',
+        'event: status\ndata: {"status":"READY","error":null,"cancelled":false}\n\n',
+      ].join('')
+    );
+  });
+});
+
+describe('Section Regeneration', () => {
+  const PLAN = {
+    id: 'plan_1',
+    status: 'READY',
+    prompt: 'Create a plan for Acme',
+    content: PLAN_CHUNKS.join(''),
+  } as never;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should rewrite only the chosen section and store a revision', async () => {
+    const { model, requests, state } = scriptedModel([
+      '\n\nA new roadmap.\n',
+      '\n## Next Steps\n',
+      'Not part of the section.',
+    ]);
+
+    await regeneratePlanSection(PLAN, 'Implementation Roadmap', 'user_1', model);
+    const content = [
+      PLAN_CHUNKS[0],
+      PLAN_CHUNKS[1],
+      '## Implementation Roadmap\n\nA new roadmap.\n\n',
+      PLAN_CHUNKS[4],
+      PLAN_CHUNKS[5],
+    ].join('');
+
+    expect(requests[0]).toMatchObject({ prefill: '## Implementation Roadmap' });
+    expect(requests[0].prompt).toContain('Create a plan for Acme');
+    expect(requests[0].prompt).toContain('Rewrite only its "Implementation Roadmap" section');
+    expect(state).toEqual({ emitted: 2, finished: true });
+    expect(savePlanRevision).toHaveBeenCalledWith(
+      'plan_1',
+      content,
+      { source: 'SECTION_REGENERATION', authorId: 'user_1', model: DEFAULT_PLAN_MODEL },
+      { contentJson: expect.objectContaining({ fullContent: content }) }
+    );
+  });
+
+  it('should refuse unknown sections, generating plans and empty rewrites', async () => {
+    const { model, requests } = scriptedModel(['\n\n  \n']);
+
+    await expect(regeneratePlanSection(PLAN, 'Budget', 'user_1', model)).rejects.toEqual(
+      new PlanSectionError('Section not found', 404)
+    );
+    await expect(
+      regeneratePlanSection({ ...(PLAN as object), status: 'GENERATING' } as never, 'Next Steps', 'user_1', model)
+    ).rejects.toBeInstanceOf(PlanRevisionError);
+    expect(requests).toHaveLength(0);
+
+    await expect(regeneratePlanSection(PLAN, 'Next Steps', 'user_1', model)).rejects.toMatchObject({
+      statusCode: 502,
+    });
+    expect(savePlanRevision).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import { Prisma, type OrgPlan, type OrgPlanRevision } from '@prisma/client';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { diffPlanContent } from '../plan-diff';
+import { PlanRevisionError, getPlanRevision, restorePlanRevision, savePlanRevision } from '../plan-revisions';
+
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    orgPlan: {
+      update: vi.fn(),
+    },
+    orgPlanRevision: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const PLAN = {
+  id: 'plan_1',
+  status: 'READY',
+  content: '# Executive Summary\nVersion two\n',
+  revisionCount: 2,
+} as OrgPlan;
+
+/**
+ * Revision of PLAN with the given overrides
+ */
+function buildRevision(overrides: Partial<OrgPlanRevision> = {}): OrgPlanRevision {
+  return {
+    id: 'rev_1',
+    planId: 'plan_1',
+    number: 1,
+    content: '# Executive Summary\nVersion one\n',
+    source: 'GENERATION',
+    authorId: null,
+    model: 'claude-sonnet-4-5',
+    restoredFromId: null,
+    createdAt: new Date('2026-10-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Plan Revisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((callback: (tx: unknown) => unknown) =>
+      callback(prisma)) as never);
+    vi.mocked(prisma.orgPlan.update).mockResolvedValue({ ...PLAN, revisionCount: 3 } as never);
+    vi.mocked(prisma.orgPlanRevision.create).mockImplementation((async ({ data }: { data: object }) =>
+      buildRevision({ id: 'rev_3', ...data })) as never);
+  });
+
+  it('should number a saved revision from the plan count', async () => {
+    const { revision } = await savePlanRevision('plan_1', 'New content', {
+      source: 'MANUAL_EDIT',
+      authorId: 'user_1',
+    });
+
+    expect(prisma.orgPlan.update).toHaveBeenCalledWith({
+      where: { id: 'plan_1', status: { not: 'GENERATING' } },
+      data: { content: 'New content', revisionCount: { increment: 1 } },
+    });
+    expect(prisma.orgPlanRevision.create).toHaveBeenCalledWith({
+      data: {
+        planId: 'plan_1',
+        number: 3,
+        content: 'New content',
+        source: 'MANUAL_EDIT',
+        authorId: 'user_1',
+        model: null,
+        restoredFromId: null,
+      },
+    });
+    expect(revision.number).toBe(3);
+  });
+
+  it('should refuse to save over a plan that started generating', async () => {
+    vi.mocked(prisma.orgPlan.update).mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Record to update not found', {
+        code: 'P2025',
+        clientVersion: 'test',
+      })
+    );
+
+    await expect(
+      savePlanRevision('plan_1', 'New content', { source: 'MANUAL_EDIT', authorId: 'user_1' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.orgPlanRevision.create).not.toHaveBeenCalled();
+  });
+
+  it('should not return another plan\'s revision', async () => {
+    vi.mocked(prisma.orgPlanRevision.findUnique).mockResolvedValue(buildRevision({ planId: 'plan_2' }));
+
+    await expect(getPlanRevision('plan_1', 'rev_1')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should restore an earlier revision as a new revision', async () => {
+    const restored = buildRevision();
+    vi.mocked(prisma.orgPlanRevision.findUnique).mockResolvedValue(restored);
+
+    const { revision } = await restorePlanRevision(PLAN, 'rev_1', 'user_1');
+
+    expect(prisma.orgPlan.update).toHaveBeenCalledWith({
+      where: { id: 'plan_1', status: { not: 'GENERATING' } },
+      data: expect.objectContaining({
+        content: restored.content,
+        contentJson: expect.objectContaining({ fullContent: restored.content }),
+      }),
+    });
+    expect(revision).toMatchObject({
+      number: 3,
+      source: 'RESTORE',
+      authorId: 'user_1',
+      restoredFromId: 'rev_1',
+    });
+  });
+
+  it('should refuse to restore while generating or when nothing changes', async () => {
+    vi.mocked(prisma.orgPlanRevision.findUnique).mockResolvedValue(buildRevision());
+
+    await expect(restorePlanRevision({ ...PLAN, status: 'GENERATING' }, 'rev_1', 'user_1')).rejects.toThrow(
+      PlanRevisionError
+    );
+    await expect(
+      restorePlanRevision({ ...PLAN, content: buildRevision().content }, 'rev_1', 'user_1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('Plan Diff', () => {
+  it('should pair replaced lines and number both sides', () => {
+    const diff = diffPlanContent('# Plan\nOne\nTwo\nEnd', '# Plan\nUno\nTwo\nNew\nEnd');
+
+    expect(diff.rows).toEqual([
+      { type: 'unchanged', left: { number: 1, text: '# Plan' }, right: { number: 1, text: '# Plan' } },
+      { type: 'changed', left: { number: 2, text: 'One' }, right: { number: 2, text: 'Uno' } },
+      { type: 'unchanged', left: { number: 3, text: 'Two' }, right: { number: 3, text: 'Two' } },
+      { type: 'added', left: null, right: { number: 4, text: 'New' } },
+      { type: 'unchanged', left: { number: 4, text: 'End' }, right: { number: 5, text: 'End' } },
+    ]);
+    expect(diff).toMatchObject({ added: 2, removed: 1 });
+  });
+
+  it('should show removed lines on the left only', () => {
+    const diff = diffPlanContent('A\nB\nC', 'A\nC');
+
+    expect(diff.rows[1]).toEqual({ type: 'removed', left: { number: 2, text: 'B' }, right: null });
+    expect(diff).toMatchObject({ added: 0, removed: 1 });
+  });
+
+  it('should report no changes for identical content', () => {
+    const diff = diffPlanContent('A\r\nB', 'A\nB');
+
+    expect(diff.rows.every((row) => row.type === 'unchanged')).toBe(true);
+    expect(diff).toMatchObject({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,414 @@
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  canRedactReceipt,
+  getReceiptStatusCounts,
+  listReceiptsForReview,
+  readReceiptReviewData,
+  redactReceiptFile,
+} from '../receipt-review';
+
+import {
+  manuallyApproveReceipt,
+  manuallyMarkDuplicate,
+  manuallyRejectReceipt,
+  processReceiptVerification,
+} from '@/jobs/receipt-processor';
+import { sendBonusPackEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+import { findNearDuplicateReceipt } from '@/lib/receipt-duplicates';
+import { parseReceipt } from '@/lib/receipt-parser';
+import { processReceiptFile } from '@/lib/receipt-processor';
+import { evaluateReceiptRules } from '@/lib/receipt-rules';
+import { readStorageObject } from '@/lib/storage';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    receipt: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      groupBy: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    bonusClaim: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    entitlement: {
+      updateMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendBonusPackEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/storage', () => ({
+  readStorageObject: vi.fn(),
+}));
+
+vi.mock('@/lib/receipt-processor', () => ({
+  processReceiptFile: vi.fn(),
+}));
+
+vi.mock('@/lib/receipt-parser', () => ({
+  parseReceipt: vi.fn(),
+}));
+
+vi.mock('@/lib/receipt-rules', () => ({
+  evaluateReceiptRules: vi.fn(),
+}));
+
+vi.mock('@/lib/receipt-duplicates', () => ({
+  buildOrderKey: () => null,
+  findNearDuplicateReceipt: vi.fn(),
+}));
+
+const BONUS_CLAIM = {
+  id: 'claim_1',
+  receiptId: 'rcpt_1',
+  deliveryEmail: 'reader@example.com',
+};
+
+/**
+ * Solid white test image
+ */
+async function whitePng(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: '#ffffff' },
+  })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Minimal single-page 400x600 PDF with a blank page
+ */
+function blankPdf(): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 400 600] >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * RGB value of a pixel
+ */
+async function pixelAt(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+describe('Receipt Redaction', () => {
+  it('should paint over PII regions before the image is returned', async () => {
+    const { buffer, mimeType } = await redactReceiptFile(await whitePng(200, 100), 'image/png', [
+      { left: 0.1, top: 0.2, width: 0.5, height: 0.3 },
+    ]);
+
+    expect(mimeType).toBe('image/png');
+    expect(await pixelAt(buffer, 50, 35)).toEqual([0, 0, 0]);
+    expect(await pixelAt(buffer, 150, 80)).toEqual([255, 255, 255]);
+  });
+
+  it('should clip regions that run past the edge of the image', async () => {
+    const { buffer } = await redactReceiptFile(await whitePng(200, 100), 'image/png', [
+      { left: 0.9, top: 0.9, width: 0.3, height: 0.3 },
+      { left: 1.2, top: 0, width: 0.1, height: 0.1 },
+    ]);
+
+    expect(await pixelAt(buffer, 199, 99)).toEqual([0, 0, 0]);
+    expect(await pixelAt(buffer, 0, 0)).toEqual([255, 255, 255]);
+  });
+
+  it('should render PDFs to a redacted image of the first page', async () => {
+    const { buffer, mimeType } = await redactReceiptFile(blankPdf(), 'application/pdf', [
+      { left: 0, top: 0, width: 0.5, height: 0.5 },
+    ]);
+    const { format, width = 0, height = 0 } = await sharp(buffer).metadata();
+
+    expect(mimeType).toBe('image/png');
+    expect(format).toBe('png');
+    expect(await pixelAt(buffer, 10, 10)).toEqual([0, 0, 0]);
+    expect(await pixelAt(buffer, width - 10, height - 10)).toEqual([255, 255, 255]);
+  });
+});
+
+describe('Review Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list pending receipts oldest first', async () => {
+    vi.mocked(prisma.receipt.findMany).mockResolvedValue([
+      {
+        id: 'rcpt_1',
+        status: 'PENDING',
+        retailer: 'Amazon',
+        orderNumber: '123-456',
+        purchaseDate: new Date('2026-03-01T00:00:00Z'),
+        format: 'hardcover',
+        fileUrl: 'receipts/rcpt_1.pdf',
+        verificationScore: 0.6,
+        fraudReasons: [],
+        rejectionReason: null,
+        verifiedBy: null,
+        verifiedAt: null,
+        duplicateOfId: null,
+        parsedData: { retailer: 'Amazon', redactedRegions: [] },
+        ruleEvaluation: null,
+        createdAt: new Date('2026-03-02T00:00:00Z'),
+        user: { email: 'reader@example.com' },
+        bonusClaim: { status: 'PENDING' },
+      },
+    ] as never);
+    vi.mocked(prisma.receipt.count).mockResolvedValue(1);
+
+    const result = await listReceiptsForReview({ status: 'PENDING', page: 2, limit: 10 });
+
+    expect(prisma.receipt.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'PENDING' },
+        orderBy: { createdAt: 'asc' },
+        skip: 10,
+        take: 10,
+      })
+    );
+    expect(result.total).toBe(1);
+    expect(result.receipts[0]).toMatchObject({
+      id: 'rcpt_1',
+      userEmail: 'reader@example.com',
+      purchaseDate: '2026-03-01T00:00:00.000Z',
+      bonusClaimStatus: 'PENDING',
+      parsedData: { retailer: 'Amazon', amount: null, redactedRegions: [] },
+      imageRedactable: false,
+    });
+  });
+
+  it('should count every status, including empty ones', async () => {
+    vi.mocked(prisma.receipt.groupBy).mockResolvedValue([
+      { status: 'PENDING', _count: { _all: 4 } },
+      { status: 'VERIFIED', _count: { _all: 2 } },
+    ] as never);
+
+    expect(await getReceiptStatusCounts()).toEqual({
+      PENDING: 4,
+      VERIFIED: 2,
+      REJECTED: 0,
+      DUPLICATE: 0,
+    });
+  });
+
+  it('should ignore review data that is not an object', () => {
+    expect(readReceiptReviewData(null)).toBeNull();
+    expect(readReceiptReviewData(['a'])).toBeNull();
+    expect(readReceiptReviewData({})?.redactedRegions).toEqual([]);
+  });
+
+  it('should only show images whose PII was located by OCR', () => {
+    const region = { left: 0, top: 0, width: 0.5, height: 0.1 };
+
+    expect(canRedactReceipt(readReceiptReviewData({ ocrProvider: 'tesseract', piiDetected: [] }))).toBe(true);
+    expect(
+      canRedactReceipt(
+        readReceiptReviewData({ ocrProvider: 'tesseract', piiDetected: ['email'], redactedRegions: [region] })
+      )
+    ).toBe(true);
+    expect(canRedactReceipt(readReceiptReviewData({ ocrProvider: 'tesseract', piiDetected: ['email'] }))).toBe(false);
+    expect(canRedactReceipt(readReceiptReviewData({ piiDetected: [] }))).toBe(false);
+    expect(canRedactReceipt(null)).toBe(false);
+  });
+});
+
+describe('Manual Review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.receipt.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({
+      id: 'rcpt_1',
+      userId: 'user_1',
+      bonusClaim: BONUS_CLAIM,
+    } as never);
+    vi.mocked(prisma.bonusClaim.findUnique).mockResolvedValue(BONUS_CLAIM as never);
+    vi.mocked(prisma.entitlement.updateMany).mockResolvedValue({ count: 0 });
+    vi.mocked(sendBonusPackEmail).mockResolvedValue({ success: true, messageId: 're_1' });
+  });
+
+  it('should approve a pending receipt and deliver its bonus pack', async () => {
+    await manuallyApproveReceipt('rcpt_1', 'admin@example.com', 'Looks good');
+
+    expect(prisma.receipt.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rcpt_1', status: 'PENDING' },
+      data: {
+        status: 'VERIFIED',
+        verifiedAt: expect.any(Date),
+        verifiedBy: 'admin@example.com',
+      },
+    });
+    expect(sendBonusPackEmail).toHaveBeenCalledWith(
+      'reader@example.com',
+      'claim_1',
+      expect.any(Object)
+    );
+    expect(prisma.bonusClaim.update).toHaveBeenCalledWith({
+      where: { id: 'claim_1' },
+      data: { adminNotes: 'Looks good' },
+    });
+  });
+
+  it('should reject a pending receipt and its bonus claim', async () => {
+    await manuallyRejectReceipt('rcpt_1', 'admin@example.com', 'Wrong book');
+
+    expect(prisma.receipt.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rcpt_1', status: 'PENDING' },
+      data: { status: 'REJECTED', verifiedBy: 'admin@example.com', rejectionReason: 'Wrong book' },
+    });
+    expect(prisma.bonusClaim.update).toHaveBeenCalledWith({
+      where: { id: 'claim_1' },
+      data: expect.objectContaining({ status: 'REJECTED', adminNotes: 'Wrong book' }),
+    });
+    expect(sendBonusPackEmail).not.toHaveBeenCalled();
+  });
+
+  it('should mark a pending receipt as a duplicate of the original', async () => {
+    await manuallyMarkDuplicate('rcpt_1', 'admin@example.com', 'rcpt_0');
+
+    expect(prisma.receipt.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rcpt_1', status: 'PENDING' },
+      data: {
+        status: 'DUPLICATE',
+        verifiedBy: 'admin@example.com',
+        rejectionReason: 'Duplicate of receipt rcpt_0',
+        duplicateOfId: 'rcpt_0',
+      },
+    });
+    expect(prisma.bonusClaim.update).toHaveBeenCalledWith({
+      where: { id: 'claim_1' },
+      data: expect.objectContaining({
+        status: 'REJECTED',
+        adminNotes: 'Duplicate of receipt rcpt_0',
+      }),
+    });
+  });
+
+  it('should refuse receipts that are no longer pending', async () => {
+    vi.mocked(prisma.receipt.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(manuallyApproveReceipt('rcpt_1', 'admin@example.com')).rejects.toThrow(
+      'Receipt not found or no longer pending'
+    );
+    await expect(manuallyRejectReceipt('rcpt_1', 'admin@example.com', 'Wrong book')).rejects.toThrow(
+      'no longer pending'
+    );
+    await expect(manuallyMarkDuplicate('rcpt_1', 'admin@example.com')).rejects.toThrow(
+      'no longer pending'
+    );
+    expect(sendBonusPackEmail).not.toHaveBeenCalled();
+    expect(prisma.bonusClaim.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Receipt Verification Job', () => {
+  const JOB = { receiptId: 'rcpt_1', userId: 'user_1', fileUrl: 'receipts/rcpt_1.png' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.receipt.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(readStorageObject).mockResolvedValue(Buffer.from('receipt'));
+    vi.mocked(processReceiptFile).mockResolvedValue({
+      success: true,
+      redactedText: 'Amazon order',
+      redactedLines: [],
+      redactedRegions: [],
+      confidence: 0.9,
+      ocrProvider: 'tesseract',
+      piiDetected: [],
+    } as never);
+    vi.mocked(parseReceipt).mockResolvedValue({
+      success: true,
+      retailer: null,
+      amount: null,
+      currency: null,
+      bookTitle: null,
+      purchaseDate: null,
+      orderNumber: null,
+      format: null,
+      confidence: 0.7,
+      requiresManualReview: false,
+      manualReviewReason: null,
+      piiDetected: [],
+      rawData: {},
+    });
+    vi.mocked(evaluateReceiptRules).mockReturnValue({ score: 70, isFraudulent: false, reasons: [] } as never);
+    vi.mocked(findNearDuplicateReceipt).mockResolvedValue({ verdict: 'unique' } as never);
+  });
+
+  it('should skip receipts an admin already decided', async () => {
+    vi.mocked(prisma.receipt.updateMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({ status: 'VERIFIED' } as never);
+
+    const result = await processReceiptVerification(JOB);
+
+    expect(prisma.receipt.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rcpt_1', status: 'PENDING' },
+      data: { status: 'PENDING' },
+    });
+    expect(result).toMatchObject({ skipped: true, status: 'VERIFIED' });
+    expect(readStorageObject).not.toHaveBeenCalled();
+    expect(prisma.receipt.updateMany).toHaveBeenCalledTimes(1);
+    expect(sendBonusPackEmail).not.toHaveBeenCalled();
+  });
+
+  it('should not overwrite a decision made while the receipt was processing', async () => {
+    vi.mocked(prisma.receipt.updateMany).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    vi.mocked(prisma.receipt.findUnique).mockResolvedValue({ status: 'REJECTED' } as never);
+
+    const result = await processReceiptVerification(JOB);
+
+    expect(prisma.receipt.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { id: 'rcpt_1', status: 'PENDING' } })
+    );
+    expect(result).toMatchObject({ skipped: true, status: 'REJECTED' });
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should clear a previous rejection reason and duplicate link', async () => {
+    const result = await processReceiptVerification(JOB);
+
+    expect(result).toMatchObject({ status: 'PENDING', requiresManualReview: true });
+    expect(prisma.receipt.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'rcpt_1', status: 'PENDING' },
+      data: expect.objectContaining({
+        status: 'PENDING',
+        rejectionReason: null,
+        duplicateOfId: null,
+        verifiedAt: null,
+      }),
+    });
+    expect(prisma.receipt.updateMany).toHaveBeenLastCalledWith({
+      where: expect.anything(),
+      data: expect.not.objectContaining({ retailer: expect.anything() }),
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { checkReceiptFraud } from '../receipt-parser';
+import { evaluateReceiptRules } from '../receipt-rules';
+
+import { getReceiptRulesConfig } from '@/config/receipt-rules';
+import type { ReceiptParsingResult } from '@/lib/receipt-parser';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+function buildParsing(overrides: Partial<ReceiptParsingResult> = {}): ReceiptParsingResult {
+  return {
+    success: true,
+    retailer: 'Amazon',
+    amount: 28.99,
+    currency: 'USD',
+    bookTitle: 'AI-Born (Hardcover)',
+    purchaseDate: new Date('2026-05-20T00:00:00Z'),
+    orderNumber: '112-4455667-1234567',
+    format: 'hardcover',
+    confidence: 0.95,
+    requiresManualReview: false,
+    manualReviewReason: null,
+    piiDetected: [],
+    rawData: {},
+    ...overrides,
+  };
+}
+
+function ruleById(parsing: ReceiptParsingResult, id: string) {
+  return evaluateReceiptRules(parsing, { now: NOW }).rules.find((rule) => rule.id === id);
+}
+
+describe('Receipt Rules Engine', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should score a clean receipt from the rule weights', () => {
+    const evaluation = evaluateReceiptRules(buildParsing(), { now: NOW });
+
+    expect(evaluation.isFraudulent).toBe(false);
+    expect(evaluation.reasons).toEqual([]);
+    expect(evaluation.score).toBe(98); // 0.95 * 40 + 20 + 15 + 15 + 10
+    expect(evaluation.rules.map((rule) => rule.id)).toEqual([
+      'parse-confidence',
+      'book-title',
+      'retailer-detected',
+      'retailer-match',
+      'price-range',
+      'purchase-date',
+    ]);
+  });
+
+  it('should report points and a reason for every rule', () => {
+    const evaluation = evaluateReceiptRules(buildParsing({ retailer: null }), { now: NOW });
+    const total = evaluation.rules.reduce((sum, rule) => sum + rule.points, 0);
+
+    expect(Math.round(total)).toBe(evaluation.score);
+    expect(evaluation.rules.every((rule) => rule.detail.length > 0)).toBe(true);
+    expect(ruleById(buildParsing({ retailer: null }), 'retailer-detected')).toMatchObject({
+      outcome: 'fail',
+      fraud: false,
+      points: 0,
+      weight: 15,
+    });
+  });
+
+  it('should flag a title mismatch as fraud', () => {
+    const evaluation = evaluateReceiptRules(
+      buildParsing({ bookTitle: 'Some Other Book' }),
+      { now: NOW }
+    );
+
+    expect(evaluation.isFraudulent).toBe(true);
+    expect(evaluation.reasons).toEqual(['Book title "Some Other Book" does not match AI-Born']);
+  });
+
+  describe('price ranges', () => {
+    it('should use list prices in the receipt currency', () => {
+      // £4 ebook: below the old $5 USD floor, but within 0.3x of the £11.99 list price
+      expect(
+        ruleById(buildParsing({ format: 'ebook', amount: 4, currency: 'GBP' }), 'price-range')
+      ).toMatchObject({ outcome: 'pass', fraud: false });
+
+      // A$110 hardcover: above the old $100 ceiling, but within 3x of the A$45 list price
+      expect(
+        ruleById(buildParsing({ amount: 110, currency: 'AUD' }), 'price-range')
+      ).toMatchObject({ outcome: 'pass', fraud: false });
+    });
+
+    it('should flag amounts outside the band for the currency', () => {
+      const rule = ruleById(buildParsing({ amount: 5, currency: 'EUR' }), 'price-range');
+
+      expect(rule).toMatchObject({ outcome: 'fail', fraud: true, points: 0 });
+      expect(rule?.detail).toBe(
+        'hardcover price 5.00 EUR outside expected range (12.00-90.00 EUR)'
+      );
+    });
+
+    it('should award the points without a list price to compare against', () => {
+      expect(
+        ruleById(buildParsing({ amount: 30, currency: 'CAD' }), 'price-range')
+      ).toMatchObject({ outcome: 'pass', fraud: false, points: 15 });
+    });
+
+    it('should fail without flagging fraud when no amount was found', () => {
+      expect(ruleById(buildParsing({ amount: null }), 'price-range')).toMatchObject({
+        outcome: 'fail',
+        fraud: false,
+      });
+    });
+  });
+
+  describe('purchase date window', () => {
+    it('should fall back to a window ending today when no publication date is configured', () => {
+      vi.stubEnv('BOOK_PUBLICATION_DATE', '');
+      const rule = ruleById(
+        buildParsing({ purchaseDate: new Date('2020-01-01T00:00:00Z') }),
+        'purchase-date'
+      );
+
+      expect(rule).toMatchObject({ outcome: 'fail', fraud: true });
+      expect(rule?.detail).toBe('Purchase date 2020-01-01 is more than 180 days old');
+    });
+
+    it('should accept purchases inside the window around publication', () => {
+      vi.stubEnv('BOOK_PUBLICATION_DATE', '2026-03-03');
+
+      expect(
+        ruleById(buildParsing({ purchaseDate: new Date('2025-10-01T00:00:00Z') }), 'purchase-date')
+      ).toMatchObject({ outcome: 'pass', fraud: false });
+    });
+
+    it('should reject purchases before pre-orders opened', () => {
+      vi.stubEnv('BOOK_PUBLICATION_DATE', '2026-03-03');
+      const rule = ruleById(
+        buildParsing({ purchaseDate: new Date('2025-06-01T00:00:00Z') }),
+        'purchase-date'
+      );
+
+      expect(rule).toMatchObject({ outcome: 'fail', fraud: true });
+      expect(rule?.detail).toBe(
+        'Purchase date 2025-06-01 is before pre-orders opened (2025-09-04)'
+      );
+    });
+
+    it('should reject purchases after the claim window closed', () => {
+      vi.stubEnv('BOOK_PUBLICATION_DATE', '2025-06-01');
+
+      expect(
+        ruleById(buildParsing({ purchaseDate: new Date('2026-05-20T00:00:00Z') }), 'purchase-date')
+      ).toMatchObject({ outcome: 'fail', fraud: true });
+    });
+
+    it('should reject future purchase dates', () => {
+      expect(
+        ruleById(buildParsing({ purchaseDate: new Date('2026-07-01T00:00:00Z') }), 'purchase-date')
+      ).toMatchObject({ outcome: 'fail', fraud: true });
+    });
+  });
+
+  describe('retailer match', () => {
+    it('should be skipped when no retailer was claimed', () => {
+      expect(ruleById(buildParsing(), 'retailer-match')).toMatchObject({
+        outcome: 'skip',
+        points: 0,
+      });
+    });
+
+    it('should flag a mismatch with the claimed retailer', () => {
+      const evaluation = evaluateReceiptRules(buildParsing(), {
+        now: NOW,
+        expectedRetailer: 'Waterstones',
+      });
+
+      expect(evaluation.isFraudulent).toBe(true);
+      expect(evaluation.reasons[0]).toContain('Retailer mismatch');
+    });
+  });
+
+  it('should apply weight overrides from the config', () => {
+    const config = getReceiptRulesConfig();
+    config.weights['parse-confidence'] = 0;
+    config.weights['book-title'] = 60;
+
+    expect(evaluateReceiptRules(buildParsing(), { now: NOW, config }).score).toBe(100);
+  });
+
+  it('should keep checkReceiptFraud in line with the engine', () => {
+    const parsing = buildParsing({ confidence: 0.3 });
+
+    expect(checkReceiptFraud(parsing)).toEqual({
+      isFraudulent: true,
+      reasons: ['Low confidence score (30% < 50%)'],
+    });
+  });
+});
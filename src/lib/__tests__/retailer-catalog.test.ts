@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  buildRetailerCatalog,
+  createRetailerSelection,
+  getRetailerCatalog,
+  invalidateRetailerCatalogCache,
+  reorderRetailerSelections,
+} from '../retailer-catalog';
+
+import { prisma } from '@/lib/prisma';
+import { FALLBACK_RETAILER_CATALOG, getRetailersByFormat, getRetailerUrl } from '@/lib/retailers';
+import { RetailerSelectionCreateSchema } from '@/lib/validation';
+
+import type { RetailerSelection } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    retailerSelection: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/**
+ * Stored retailer with the given overrides
+ */
+function buildRow(overrides: Partial<RetailerSelection> = {}): RetailerSelection {
+  return {
+    id: 'rs_amazon_us',
+    retailerName: 'Amazon',
+    retailerSlug: 'amazon',
+    geo: 'US',
+    hardcoverUrl: 'https://www.amazon.com/dp/HARDCOVER',
+    paperbackUrl: null,
+    ebookUrl: 'https://www.amazon.com/dp/KINDLE',
+    audiobookUrl: 'https://www.audible.com/pd/AUDIO',
+    displayName: 'Amazon',
+    logoUrl: null,
+    priority: 90,
+    isActive: true,
+    clickCount: 0,
+    conversionCount: 0,
+    nytEligible: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Retailer Catalog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateRetailerCatalogCache();
+  });
+
+  describe('buildRetailerCatalog', () => {
+    it('should order each region by priority and skip hidden retailers', () => {
+      const catalog = buildRetailerCatalog([
+        buildRow(),
+        buildRow({ id: 'rs_bn_us', retailerSlug: 'barnesnoble', displayName: 'Barnes & Noble', priority: 95 }),
+        buildRow({ id: 'rs_kobo_us', retailerSlug: 'kobo', displayName: 'Kobo', isActive: false }),
+      ]);
+
+      expect(catalog.US.map((retailer) => retailer.id)).toEqual(['barnesnoble', 'amazon']);
+      expect(catalog.US.map((retailer) => retailer.priority)).toEqual([1, 2]);
+      expect(catalog.UK).toEqual([]);
+    });
+
+    it('should use GLOBAL rows only where a region has no row of its own', () => {
+      const catalog = buildRetailerCatalog([
+        buildRow({ id: 'rs_amazon_global', geo: 'GLOBAL' }),
+        buildRow({ id: 'rs_amazon_uk', geo: 'UK', isActive: false }),
+        buildRow({ id: 'rs_amazon_eu', geo: 'EU', hardcoverUrl: 'https://www.amazon.de/dp/HARDCOVER' }),
+      ]);
+
+      expect(catalog.UK).toEqual([]);
+      expect(catalog.US[0].urls?.hardcover).toBe('https://www.amazon.com/dp/HARDCOVER');
+      expect(catalog.EU[0].urls?.hardcover).toBe('https://www.amazon.de/dp/HARDCOVER');
+      expect(catalog.US[0].geoAvailability).toEqual(['US', 'EU', 'AU']);
+    });
+
+    it('should offer formats and bundles from the stored links', () => {
+      const catalog = buildRetailerCatalog([
+        buildRow(),
+        buildRow({
+          id: 'rs_bookshop_us',
+          retailerSlug: 'bookshop',
+          displayName: 'Bookshop.org',
+          paperbackUrl: 'https://bookshop.org/books/ai-born/PAPERBACK',
+          ebookUrl: null,
+          audiobookUrl: null,
+          priority: 60,
+        }),
+      ]);
+      const [amazon, bookshop] = catalog.US;
+
+      expect(amazon.formats).toEqual(['hardcover', 'ebook', 'audiobook', 'bundle-hardcover']);
+      expect(bookshop.formats).toEqual(['hardcover', 'paperback']);
+      expect(getRetailersByFormat('paperback', 'US', catalog).map((retailer) => retailer.id)).toEqual([
+        'bookshop',
+      ]);
+      expect(getRetailerUrl(amazon, 'bundle-hardcover')).toMatch(
+        /^https:\/\/www\.amazon\.com\/dp\/HARDCOVER\?utm_source=website/
+      );
+    });
+  });
+
+  describe('getRetailerCatalog', () => {
+    it('should reuse the loaded catalog within the cache window', async () => {
+      vi.mocked(prisma.retailerSelection.findMany).mockResolvedValue([buildRow()]);
+
+      await getRetailerCatalog(NOW);
+      const catalog = await getRetailerCatalog(new Date(NOW.getTime() + 30_000));
+
+      expect(catalog.US.map((retailer) => retailer.id)).toEqual(['amazon']);
+      expect(prisma.retailerSelection.findMany).toHaveBeenCalledTimes(1);
+
+      await getRetailerCatalog(new Date(NOW.getTime() + 61_000));
+      expect(prisma.retailerSelection.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve the static catalog while the table is empty', async () => {
+      vi.mocked(prisma.retailerSelection.findMany).mockResolvedValue([]);
+
+      expect(await getRetailerCatalog(NOW)).toBe(FALLBACK_RETAILER_CATALOG);
+    });
+
+    it('should keep serving the last catalog when the database fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(prisma.retailerSelection.findMany)
+        .mockResolvedValueOnce([buildRow()])
+        .mockRejectedValueOnce(new Error('connection refused'));
+
+      const loaded = await getRetailerCatalog(NOW);
+
+      expect(await getRetailerCatalog(new Date(NOW.getTime() + 61_000))).toBe(loaded);
+    });
+  });
+
+  describe('admin changes', () => {
+    it('should require at least one link when adding a retailer', async () => {
+      const input = RetailerSelectionCreateSchema.parse({
+        retailerSlug: 'waterstones',
+        retailerName: 'Waterstones',
+        displayName: 'Waterstones',
+        geo: 'UK',
+      });
+
+      await expect(createRetailerSelection(input)).rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.retailerSelection.create).not.toHaveBeenCalled();
+    });
+
+    it('should add new retailers after the last one in the region', async () => {
+      vi.mocked(prisma.retailerSelection.findFirst).mockResolvedValue(buildRow({ priority: 20 }));
+      vi.mocked(prisma.retailerSelection.create).mockResolvedValue(buildRow());
+
+      await createRetailerSelection(
+        RetailerSelectionCreateSchema.parse({
+          retailerSlug: 'waterstones',
+          retailerName: 'Waterstones',
+          displayName: 'Waterstones',
+          geo: 'UK',
+          hardcoverUrl: 'https://www.waterstones.com/book/ai-born/HARDCOVER',
+        })
+      );
+
+      expect(prisma.retailerSelection.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ retailerSlug: 'waterstones', geo: 'UK', priority: 10 }),
+      });
+    });
+
+    it('should write descending priorities in the given order', async () => {
+      vi.mocked(prisma.retailerSelection.findMany).mockResolvedValue([
+        { id: 'rs_a' },
+        { id: 'rs_b' },
+        { id: 'rs_c' },
+      ] as never);
+      vi.mocked(prisma.$transaction).mockResolvedValue([] as never);
+
+      await reorderRetailerSelections({ geo: 'US', ids: ['rs_c', 'rs_a', 'rs_b'] });
+
+      expect(prisma.retailerSelection.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 'rs_c' },
+        data: { priority: 30 },
+      });
+      expect(prisma.retailerSelection.update).toHaveBeenNthCalledWith(3, {
+        where: { id: 'rs_b' },
+        data: { priority: 10 },
+      });
+    });
+
+    it('should reject an order that does not match the region', async () => {
+      vi.mocked(prisma.retailerSelection.findMany).mockResolvedValue([
+        { id: 'rs_a' },
+        { id: 'rs_b' },
+      ] as never);
+
+      await expect(
+        reorderRetailerSelections({ geo: 'US', ids: ['rs_a', 'rs_a'] })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  createLocalStorageDriver,
+  createSignedFileUrl,
+  readStorageObject,
+  resetStorage,
+  resolveStorageDriverName,
+  verifySignedFileUrl,
+  type StorageDriver,
+} from '../storage';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/**
+ * Query parameters of a signed URL
+ */
+function paramsOf(url: string): URLSearchParams {
+  return new URL(url, 'https://ai-born.org').searchParams;
+}
+
+describe('Storage', () => {
+  let root: string;
+  let storage: StorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    storage = createLocalStorageDriver({ root });
+    vi.stubEnv('STORAGE_SIGNING_SECRET', 'test-signing-secret');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    resetStorage();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('local driver', () => {
+    it('should write, read, inspect and delete objects', async () => {
+      const info = await storage.put('receipts/receipt-1.jpg', Buffer.from('jpeg-bytes'), {
+        contentType: 'image/jpeg',
+        metadata: { userId: 'user_1' },
+      });
+
+      expect(info).toMatchObject({
+        key: 'receipts/receipt-1.jpg',
+        size: 10,
+        contentType: 'image/jpeg',
+        metadata: { userId: 'user_1' },
+      });
+      expect(await storage.head('receipts/receipt-1.jpg')).toEqual(info);
+      expect((await readStorageObject('receipts/receipt-1.jpg', storage))?.toString()).toBe('jpeg-bytes');
+
+      await storage.delete('receipts/receipt-1.jpg');
+
+      expect(await storage.head('receipts/receipt-1.jpg')).toBeNull();
+      expect(await storage.getStream('receipts/receipt-1.jpg')).toBeNull();
+      await expect(storage.delete('receipts/receipt-1.jpg')).resolves.toBeUndefined();
+    });
+
+    it('should infer the content type of files written outside the driver', async () => {
+      await writeFile(path.join(root, 'synopsis.txt'), 'AI-Born');
+
+      expect(await storage.head('synopsis.txt')).toMatchObject({
+        size: 7,
+        contentType: 'text/plain; charset=utf-8',
+        metadata: {},
+      });
+    });
+
+    it('should reject keys that escape the root', async () => {
+      for (const key of ['', '/etc/passwd', '../secrets.json', 'receipts/../../x', 'a//b', 'a.jpg.meta.json']) {
+        await expect(storage.put(key, 'x')).rejects.toThrow('Invalid storage key');
+      }
+    });
+  });
+
+  describe('signed URLs', () => {
+    it('should sign URLs that verify until they expire', () => {
+      const url = createSignedFileUrl('receipts/receipt 1.pdf', { expiresIn: 60, filename: 'Receipt.pdf' }, NOW);
+
+      expect(url).toMatch(/^\/api\/files\/receipts\/receipt%201\.pdf\?expires=\d+&filename=Receipt\.pdf&signature=/);
+      expect(verifySignedFileUrl('receipts/receipt 1.pdf', paramsOf(url), NOW)).toBe(true);
+      expect(verifySignedFileUrl('receipts/receipt 1.pdf', paramsOf(url), new Date(NOW.getTime() + 61_000))).toBe(false);
+    });
+
+    it('should reject tampered keys, filenames and signatures', () => {
+      const params = paramsOf(createSignedFileUrl('receipts/a.pdf', {}, NOW));
+
+      expect(verifySignedFileUrl('receipts/b.pdf', params, NOW)).toBe(false);
+
+      const renamed = new URLSearchParams(params);
+      renamed.set('filename', 'other.pdf');
+      expect(verifySignedFileUrl('receipts/a.pdf', renamed, NOW)).toBe(false);
+
+      const forged = new URLSearchParams(params);
+      forged.set('signature', 'forged');
+      expect(verifySignedFileUrl('receipts/a.pdf', forged, NOW)).toBe(false);
+    });
+
+    it('should return signed URLs from the driver', async () => {
+      const url = await storage.getSignedUrl('plans/org_1/plan_1.pdf');
+
+      expect(verifySignedFileUrl('plans/org_1/plan_1.pdf', paramsOf(url))).toBe(true);
+    });
+  });
+
+  describe('resolveStorageDriverName', () => {
+    it('should prefer R2, then S3, then local disk', () => {
+      vi.stubEnv('STORAGE_DRIVER', '');
+      vi.stubEnv('R2_BUCKET', '');
+      vi.stubEnv('AWS_S3_BUCKET', '');
+      expect(resolveStorageDriverName()).toBe('local');
+
+      vi.stubEnv('AWS_S3_BUCKET', 'ai-born-receipts');
+      expect(resolveStorageDriverName()).toBe('s3');
+
+      vi.stubEnv('R2_BUCKET', 'ai-born-receipts');
+      expect(resolveStorageDriverName()).toBe('r2');
+
+      vi.stubEnv('STORAGE_DRIVER', 'local');
+      expect(resolveStorageDriverName()).toBe('local');
+    });
+
+    it('should fall back to local disk when the selected bucket is missing', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubEnv('R2_BUCKET', '');
+      vi.stubEnv('STORAGE_DRIVER', 'r2');
+
+      expect(resolveStorageDriverName()).toBe('local');
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+});
@@ -5,8 +5,14 @@
  * Features:
  * - Deterministic variant assignment based on user ID
  * - Cookie-based persistence for consistent experience
+ * - Server-side assignment in middleware (same hashing), so server
+ *   components render the assigned variant without flicker
+ * - Bots and crawlers always get the control variant
  * - Statistical significance calculation (Chi-squared test)
+ * - Confidence intervals, lift and sample ratio mismatch checks
  * - Integration with GTM dataLayer for tracking
+ * - Exposures and conversions persisted server-side for results
+ *   (`/api/experiments/track`, see `@/lib/experiment-results`)
  * - Type-safe experiment configuration
  *
  * Based on CLAUDE.md A/B test candidates:
@@ -53,6 +59,10 @@ export interface Experiment {
   endDate?: string;
   /** Traffic allocation (0-1, percentage of users to include) */
   trafficAllocation?: number;
+  /** Conversion event used for results by default (any conversion if unset) */
+  primaryMetric?: string;
+  /** Declared winner, served to everyone once the experiment is stopped */
+  winnerVariantId?: string;
 }
 
 /**
@@ -67,6 +77,8 @@ export interface ExperimentAssignment {
   variantName: string;
   /** Assignment timestamp (ISO 8601) */
   assignedAt: string;
+  /** Assigned server-side; the exposure is tracked once the variant renders */
+  pendingExposure?: boolean;
 }
 
 /**
@@ -149,17 +161,82 @@ export interface ExperimentResults {
   endDate?: string;
 }
 
+/**
+ * Supported confidence levels (percent)
+ */
+export type ConfidenceLevel = 90 | 95 | 99 | 99.9;
+
+/**
+ * Two-sided confidence interval
+ */
+export interface ConfidenceInterval {
+  /** Lower bound */
+  lower: number;
+  /** Upper bound */
+  upper: number;
+}
+
+/**
+ * Difference between a variant and the control
+ */
+export interface LiftResult {
+  /** Variant rate minus control rate */
+  absoluteDifference: number;
+  /** Confidence interval of the absolute difference */
+  interval: ConfidenceInterval;
+  /** Relative lift over control (percentage), null when control has no conversions */
+  relativeLift: number | null;
+}
+
+/**
+ * Sample ratio mismatch check result
+ */
+export interface SampleRatioMismatchResult {
+  /** Whether observed traffic split differs from configured weights (p < 0.001) */
+  detected: boolean;
+  /** Goodness-of-fit chi-squared statistic */
+  chiSquared: number;
+  /** Degrees of freedom */
+  degreesOfFreedom: number;
+  /** Expected share of participants per variant (0-1) */
+  expectedShares: Record<string, number>;
+  /** Observed share of participants per variant (0-1) */
+  observedShares: Record<string, number>;
+}
+
 // ==================== Constants ====================
 
 /**
  * Cookie name for storing experiment assignments
  */
-const EXPERIMENT_COOKIE_NAME = 'ab_experiments';
+export const EXPERIMENT_COOKIE_NAME = 'ab_experiments';
+
+/**
+ * Cookie name for the anonymous participant ID used for hashing
+ */
+export const PARTICIPANT_COOKIE_NAME = 'ab_uid';
+
+/**
+ * Cookie expiration in seconds (90 days)
+ */
+export const EXPERIMENT_COOKIE_MAX_AGE_SECONDS = 90 * 24 * 60 * 60;
 
 /**
  * Cookie expiration (90 days)
  */
-const COOKIE_MAX_AGE = 90 * 24 * 60 * 60 * 1000;
+const COOKIE_MAX_AGE = EXPERIMENT_COOKIE_MAX_AGE_SECONDS * 1000;
+
+/**
+ * User agents that always get the control variant (search engines,
+ * social previews, monitoring and headless browsers)
+ */
+const BOT_USER_AGENT_PATTERN =
+  /bot|crawl|spider|slurp|mediapartners|facebookexternalhit|embedly|preview|lighthouse|pagespeed|headlesschrome|phantomjs|pingdom|uptime|curl|wget|python-requests/i;
+
+/**
+ * Endpoint that persists exposures and conversions
+ */
+const EXPERIMENT_TRACKING_ENDPOINT = '/api/experiments/track';
 
 /**
  * Default traffic allocation (100%)
@@ -177,6 +254,30 @@ const CHI_SQUARED_CRITICAL_VALUES: Record<number, number> = {
   99.9: 10.828 // 99.9% confidence
 };
 
+/**
+ * Two-sided z-scores for different confidence levels
+ */
+const Z_SCORES: Record<ConfidenceLevel, number> = {
+  90: 1.645,
+  95: 1.96,
+  99: 2.576,
+  99.9: 3.291,
+};
+
+/**
+ * Chi-squared critical values at p = 0.001 by degrees of freedom
+ * Used for sample ratio mismatch detection (conventionally strict to
+ * avoid false alarms)
+ */
+const SRM_CRITICAL_VALUES: Record<number, number> = {
+  1: 10.828,
+  2: 13.816,
+  3: 16.266,
+  4: 18.467,
+  5: 20.515,
+  6: 22.458,
+};
+
 // ==================== Utility Functions ====================
 
 /**
@@ -212,6 +313,16 @@ function getUserId(): string {
 
   const storageKey = 'ab_user_id';
 
+  // Prefer the participant ID set by middleware so client and server hash alike
+  const cookieUserId = document.cookie
+    .split('; ')
+    .find(row => row.startsWith(`${PARTICIPANT_COOKIE_NAME}=`))
+    ?.split('=')[1];
+
+  if (cookieUserId) {
+    return decodeURIComponent(cookieUserId);
+  }
+
   try {
     let userId = localStorage.getItem(storageKey);
 
@@ -221,6 +332,10 @@ function getUserId(): string {
       localStorage.setItem(storageKey, userId);
     }
 
+    // Share with middleware for future server-side assignments
+    const expires = new Date(Date.now() + COOKIE_MAX_AGE).toUTCString();
+    document.cookie = `${PARTICIPANT_COOKIE_NAME}=${encodeURIComponent(userId)}; expires=${expires}; path=/; SameSite=Lax`;
+
     return userId;
   } catch (error) {
     // Fallback if localStorage is not available
@@ -245,12 +360,7 @@ function getAssignmentsFromCookie(): Map<string, ExperimentAssignment> {
       .find(row => row.startsWith(`${EXPERIMENT_COOKIE_NAME}=`))
       ?.split('=')[1];
 
-    if (!cookieValue) {
-      return new Map();
-    }
-
-    const assignments = JSON.parse(decodeURIComponent(cookieValue));
-    return new Map(Object.entries(assignments));
+    return parseExperimentAssignments(cookieValue ? decodeURIComponent(cookieValue) : undefined);
   } catch (error) {
     console.error('Error reading experiment assignments:', error);
     return new Map();
@@ -268,8 +378,7 @@ function saveAssignmentsToCookie(assignments: Map<string, ExperimentAssignment>)
   }
 
   try {
-    const assignmentsObj = Object.fromEntries(assignments);
-    const cookieValue = encodeURIComponent(JSON.stringify(assignmentsObj));
+    const cookieValue = encodeURIComponent(serializeExperimentAssignments(assignments));
     const expires = new Date(Date.now() + COOKIE_MAX_AGE).toUTCString();
 
     document.cookie = `${EXPERIMENT_COOKIE_NAME}=${cookieValue}; expires=${expires}; path=/; SameSite=Lax`;
@@ -278,6 +387,47 @@ function saveAssignmentsToCookie(assignments: Map<string, ExperimentAssignment>)
   }
 }
 
+/**
+ * Persist an exposure or conversion server-side
+ * Uses `navigator.sendBeacon` so conversions on outbound clicks survive
+ * navigation, falling back to a keepalive fetch. Failures are ignored.
+ *
+ * @param payload - Tracking payload for `/api/experiments/track`
+ */
+function sendExperimentEvent(payload: {
+  type: 'exposure' | 'conversion';
+  experimentId: string;
+  variantId: string;
+  eventName?: string;
+  value?: number;
+}): void {
+  if (!isBrowser()) {
+    return;
+  }
+
+  const body = JSON.stringify({ ...payload, participantId: getUserId() });
+
+  try {
+    const sent =
+      typeof navigator.sendBeacon === 'function' &&
+      navigator.sendBeacon(
+        EXPERIMENT_TRACKING_ENDPOINT,
+        new Blob([body], { type: 'application/json' })
+      );
+
+    if (!sent) {
+      void fetch(EXPERIMENT_TRACKING_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      }).catch(() => {});
+    }
+  } catch (error) {
+    console.error('Error persisting experiment event:', error);
+  }
+}
+
 /**
  * Select a variant based on user ID and variant weights
  * Uses deterministic hashing for consistent assignment
@@ -327,6 +477,95 @@ function shouldIncludeUser(
   return hash <= trafficAllocation;
 }
 
+/**
+ * Parse the assignments cookie value (already URI-decoded)
+ * Shared by the browser, middleware and server components
+ *
+ * @param value - Cookie value (JSON object of experiment ID to assignment)
+ * @returns Map of experiment ID to assignment (empty if missing or invalid)
+ */
+export function parseExperimentAssignments(
+  value: string | undefined
+): Map<string, ExperimentAssignment> {
+  if (!value) {
+    return new Map();
+  }
+
+  try {
+    const assignments = JSON.parse(value) as Record<string, ExperimentAssignment>;
+    return new Map(Object.entries(assignments));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Serialize assignments for the cookie (before URI encoding)
+ *
+ * @param assignments - Map of experiment ID to assignment
+ * @returns JSON cookie value
+ */
+export function serializeExperimentAssignments(
+  assignments: Map<string, ExperimentAssignment>
+): string {
+  return JSON.stringify(Object.fromEntries(assignments));
+}
+
+/**
+ * Check whether a user agent is a bot or crawler
+ * Bots are never assigned, so they always see (and index) the control
+ *
+ * @param userAgent - User-Agent header value
+ * @returns Whether the user agent looks automated
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  return !!userAgent && BOT_USER_AGENT_PATTERN.test(userAgent);
+}
+
+/**
+ * Variant shown to everyone not assigned: the declared winner of a stopped
+ * experiment, otherwise the control (first variant)
+ *
+ * @param experiment - Experiment configuration
+ * @returns Variant ID
+ */
+export function getDefaultVariantId(experiment: Experiment): string {
+  const winner = experiment.winnerVariantId;
+
+  if (winner && experiment.variants.some(v => v.id === winner)) {
+    return winner;
+  }
+
+  return experiment.variants[0].id;
+}
+
+/**
+ * Choose a participant's variant using deterministic hashing
+ * The same participant ID always gets the same variant, whether this runs
+ * in the browser or in middleware
+ *
+ * @param participantId - Participant ID
+ * @param experiment - Experiment configuration
+ * @returns Assigned variant, or null when the experiment is inactive or the
+ *          participant is outside its traffic allocation (show control)
+ */
+export function assignVariant(
+  participantId: string,
+  experiment: Experiment
+): ExperimentVariant | null {
+  if (!experiment.active) {
+    return null;
+  }
+
+  const trafficAllocation = experiment.trafficAllocation ?? DEFAULT_TRAFFIC_ALLOCATION;
+
+  if (!shouldIncludeUser(participantId, experiment.id, trafficAllocation)) {
+    return null;
+  }
+
+  return selectVariant(participantId, experiment.id, experiment.variants);
+}
+
 // ==================== Core A/B Testing Functions ====================
 
 /**
@@ -346,32 +585,36 @@ export function getVariant(
   experimentId: string,
   experiment: Experiment
 ): string {
-  // Return first variant if experiment is inactive
+  // Return winner or first variant if experiment is inactive
   if (!experiment.active) {
-    return experiment.variants[0].id;
-  }
-
-  // Get user ID
-  const userId = getUserId();
-
-  // Check traffic allocation
-  const trafficAllocation = experiment.trafficAllocation ?? DEFAULT_TRAFFIC_ALLOCATION;
-
-  if (!shouldIncludeUser(userId, experimentId, trafficAllocation)) {
-    // User not included in experiment, return control variant
-    return experiment.variants[0].id;
+    return getDefaultVariantId(experiment);
   }
 
-  // Check for existing assignment
+  // Check for existing assignment (possibly made by middleware)
   const assignments = getAssignmentsFromCookie();
   const existingAssignment = assignments.get(experimentId);
 
   if (existingAssignment) {
+    if (existingAssignment.pendingExposure) {
+      // First render of a server-side assignment
+      assignments.set(experimentId, { ...existingAssignment, pendingExposure: undefined });
+      saveAssignmentsToCookie(assignments);
+      trackExperimentAssignment(
+        experimentId,
+        existingAssignment.variantId,
+        existingAssignment.variantName
+      );
+    }
+
     return existingAssignment.variantId;
   }
 
-  // Assign new variant
-  const selectedVariant = selectVariant(userId, experimentId, experiment.variants);
+  // Assign new variant (null: outside traffic allocation, show control)
+  const selectedVariant = assignVariant(getUserId(), { ...experiment, id: experimentId });
+
+  if (!selectedVariant) {
+    return experiment.variants[0].id;
+  }
 
   const assignment: ExperimentAssignment = {
     experimentId,
@@ -392,7 +635,7 @@ export function getVariant(
 
 /**
  * Track experiment variant assignment
- * Pushes event to GTM dataLayer
+ * Persists the exposure and pushes event to GTM dataLayer
  *
  * @param experimentId - Experiment ID
  * @param variantId - Variant ID
@@ -403,6 +646,8 @@ function trackExperimentAssignment(
   variantId: string,
   variantName: string
 ): void {
+  sendExperimentEvent({ type: 'exposure', experimentId, variantId });
+
   if (!isBrowser() || typeof window.dataLayer === 'undefined') {
     return;
   }
@@ -427,6 +672,7 @@ function trackExperimentAssignment(
 /**
  * Track experiment conversion event
  * Used to track goal completions for experiment variants
+ * Persists the conversion and pushes event to GTM dataLayer
  *
  * @param experimentId - Experiment ID
  * @param eventName - Conversion event name (e.g., 'preorder_click', 'lead_capture')
@@ -447,7 +693,7 @@ export function trackExperiment(
   value?: number,
   metadata?: Record<string, unknown>
 ): void {
-  if (!isBrowser() || typeof window.dataLayer === 'undefined') {
+  if (!isBrowser()) {
     return;
   }
 
@@ -460,6 +706,18 @@ export function trackExperiment(
     return;
   }
 
+  sendExperimentEvent({
+    type: 'conversion',
+    experimentId,
+    variantId: assignment.variantId,
+    eventName,
+    value,
+  });
+
+  if (typeof window.dataLayer === 'undefined') {
+    return;
+  }
+
   // Push conversion event to dataLayer
   window.dataLayer?.push({
     event: 'experiment_conversion',
@@ -483,6 +741,28 @@ export function trackExperiment(
   }
 }
 
+/**
+ * Record a conversion for every experiment the user is assigned to
+ * Called by `trackEvent()` for `ConversionEvents`, so experiment results
+ * do not depend on components calling `trackExperiment()`. The server
+ * keeps the first conversion per participant and event, so overlapping
+ * calls are harmless.
+ *
+ * @param eventName - Conversion event name
+ * @param value - Optional conversion value
+ */
+export function recordExperimentConversions(eventName: string, value?: number): void {
+  for (const assignment of getAssignmentsFromCookie().values()) {
+    sendExperimentEvent({
+      type: 'conversion',
+      experimentId: assignment.experimentId,
+      variantId: assignment.variantId,
+      eventName,
+      value,
+    });
+  }
+}
+
 /**
  * Get all active experiment assignments for current user
  *
@@ -612,7 +892,7 @@ function calculateChiSquared(variants: VariantMetrics[]): {
  */
 export function calculateSignificance(
   variants: VariantMetrics[],
-  confidenceLevel: 90 | 95 | 99 | 99.9 = 95
+  confidenceLevel: ConfidenceLevel = 95
 ): SignificanceResult {
   if (variants.length < 2) {
     return {
@@ -684,6 +964,129 @@ export function calculateVariantMetrics(
   };
 }
 
+/**
+ * Calculate a confidence interval for a conversion rate
+ * Uses the Wilson score interval, which stays within [0, 1] and behaves
+ * well for small samples and rates near zero
+ *
+ * @param conversions - Number of conversions
+ * @param participants - Number of participants
+ * @param confidenceLevel - Confidence level (90, 95, 99, 99.9)
+ * @returns Confidence interval (0-1)
+ */
+export function calculateConversionRateInterval(
+  conversions: number,
+  participants: number,
+  confidenceLevel: ConfidenceLevel = 95
+): ConfidenceInterval {
+  if (participants === 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const z = Z_SCORES[confidenceLevel];
+  const rate = conversions / participants;
+  const denominator = 1 + (z * z) / participants;
+  const center = (rate + (z * z) / (2 * participants)) / denominator;
+  const margin =
+    (z * Math.sqrt((rate * (1 - rate)) / participants + (z * z) / (4 * participants * participants))) /
+    denominator;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Calculate the lift of a variant over the control
+ * The interval is for the absolute difference in conversion rates
+ * (normal approximation, unpooled variance)
+ *
+ * @param control - Control variant metrics
+ * @param variant - Variant metrics
+ * @param confidenceLevel - Confidence level (90, 95, 99, 99.9)
+ * @returns Lift result
+ *
+ * @example
+ * ```ts
+ * const lift = calculateLift(metrics[0], metrics[1], 95);
+ * // Interval excluding 0 means the difference is significant
+ * ```
+ */
+export function calculateLift(
+  control: VariantMetrics,
+  variant: VariantMetrics,
+  confidenceLevel: ConfidenceLevel = 95
+): LiftResult {
+  const absoluteDifference = variant.conversionRate - control.conversionRate;
+
+  const variance =
+    (control.participants > 0
+      ? (control.conversionRate * (1 - control.conversionRate)) / control.participants
+      : 0) +
+    (variant.participants > 0
+      ? (variant.conversionRate * (1 - variant.conversionRate)) / variant.participants
+      : 0);
+  const margin = Z_SCORES[confidenceLevel] * Math.sqrt(variance);
+
+  return {
+    absoluteDifference,
+    interval: {
+      lower: absoluteDifference - margin,
+      upper: absoluteDifference + margin,
+    },
+    relativeLift:
+      control.conversionRate > 0 ? (absoluteDifference / control.conversionRate) * 100 : null,
+  };
+}
+
+/**
+ * Detect sample ratio mismatch (SRM)
+ * Compares the observed participant split with the configured variant
+ * weights. A mismatch usually means assignment or tracking is broken, and
+ * the experiment's results should not be trusted.
+ *
+ * @param experiment - Experiment configuration
+ * @param participants - Participants per variant ID
+ * @returns Sample ratio mismatch result
+ */
+export function detectSampleRatioMismatch(
+  experiment: Experiment,
+  participants: Record<string, number>
+): SampleRatioMismatchResult {
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+  const total = experiment.variants.reduce((sum, v) => sum + (participants[v.id] ?? 0), 0);
+  const degreesOfFreedom = Math.max(0, experiment.variants.length - 1);
+
+  const expectedShares: Record<string, number> = {};
+  const observedShares: Record<string, number> = {};
+  let chiSquared = 0;
+
+  for (const variant of experiment.variants) {
+    const observed = participants[variant.id] ?? 0;
+    const expectedShare = totalWeight > 0 ? variant.weight / totalWeight : 0;
+    const expected = total * expectedShare;
+
+    expectedShares[variant.id] = expectedShare;
+    observedShares[variant.id] = total > 0 ? observed / total : 0;
+
+    if (expected > 0) {
+      chiSquared += Math.pow(observed - expected, 2) / expected;
+    }
+  }
+
+  const criticalValue =
+    SRM_CRITICAL_VALUES[degreesOfFreedom] ?? SRM_CRITICAL_VALUES[6];
+
+  return {
+    detected: degreesOfFreedom > 0 && chiSquared >= criticalValue,
+    chiSquared,
+    degreesOfFreedom,
+    expectedShares,
+    observedShares,
+  };
+}
+
 // ==================== Helper Functions ====================
 
 /**
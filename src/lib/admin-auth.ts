@@ -17,6 +17,8 @@ import { auth } from "../../auth";
 import { redirect } from "next/navigation";
 import { NextRequest } from "next/server";
 
+import { recordAuditEvent } from "@/lib/audit-log";
+
 /**
  * Get list of admin email addresses from environment
  * Supports comma-separated list in ADMIN_EMAILS env var
@@ -245,6 +247,10 @@ export interface AuditLogEntry {
   action: string;
   resource: string;
   resourceId?: string;
+  /** Resource state before the action */
+  before?: unknown;
+  /** Resource state after the action */
+  after?: unknown;
   details?: Record<string, unknown>;
   ipAddress?: string;
   userAgent?: string;
@@ -252,20 +258,30 @@ export interface AuditLogEntry {
 
 /**
  * Log admin action
- * In production, send to logging service (Datadog, Sentry, etc.)
+ * Persisted to the append-only audit log (viewable at /admin/audit) and
+ * echoed to stdout for the logging service
  */
-export function logAdminAction(entry: AuditLogEntry): void {
-  // In production, send to logging service
+export async function logAdminAction(entry: AuditLogEntry): Promise<void> {
   console.log('[ADMIN_AUDIT]', JSON.stringify(entry));
 
-  // Optionally, store in database for compliance
-  // await prisma.auditLog.create({ data: entry });
+  await recordAuditEvent({
+    actorType: 'ADMIN',
+    actorId: entry.adminId,
+    action: entry.action,
+    entityType: entry.resource,
+    entityId: entry.resourceId,
+    before: entry.before,
+    after: entry.after,
+    details: entry.details,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+  });
 }
 
 /**
  * Extract client IP from request
  */
-export function getClientIp(request: NextRequest): string | undefined {
+export function getClientIp(request: Request): string | undefined {
   // Check various headers (depending on your hosting provider)
   const xForwardedFor = request.headers.get('x-forwarded-for');
   if (xForwardedFor) {
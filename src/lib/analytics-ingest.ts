@@ -0,0 +1,192 @@
+/**
+ * First-Party Analytics Ingestion
+ *
+ * Turns `/api/events` beacon batches into `AnalyticsEvent` rows, so
+ * conversion reporting does not depend on GTM or ad blockers.
+ *
+ * Privacy rules:
+ * - Only events mapped in `FIRST_PARTY_EVENT_TYPES` are stored
+ * - IP addresses are never stored; the route uses them for rate limiting only
+ * - Properties that could identify a person (email, name) are stripped
+ * - Without analytics consent the session ID, user ID, user agent and
+ *   referrer are dropped, leaving anonymous counts with UTM and region
+ */
+
+import { analyticsQueries, type AnalyticsEventData } from '@/lib/db/queries';
+import type { AnalyticsEventBatchInput } from '@/lib/validation';
+import { FIRST_PARTY_EVENT_TYPES, type FirstPartyEventName } from '@/types/analytics';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Property keys never stored, whatever the event
+ */
+const IDENTIFYING_PROPERTY_KEYS = new Set([
+  'email',
+  'name',
+  'user_email',
+  'user_name',
+  'phone',
+  'book',
+  'event',
+  'timestamp',
+]);
+
+/**
+ * Maximum properties kept per event
+ */
+const MAX_PROPERTIES = 20;
+
+/**
+ * Maximum length of a string property value
+ */
+const MAX_PROPERTY_LENGTH = 200;
+
+/**
+ * Oldest client timestamp accepted as-is (queued events from a
+ * backgrounded tab); older events are stamped with the receive time
+ */
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Allowed client clock skew into the future
+ */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Request details known to the server
+ */
+export interface AnalyticsIngestContext {
+  /** Whether the visitor consented to analytics (and did not send Sec-GPC) */
+  consented: boolean;
+  /** Signed-in user, only looked up with consent */
+  userId?: string;
+  userAgent?: string;
+  now?: Date;
+}
+
+/**
+ * Outcome of an ingestion
+ */
+export interface AnalyticsIngestResult {
+  accepted: number;
+  /** Events with no `AnalyticsEventType` mapping */
+  dropped: number;
+}
+
+/**
+ * Row ready for `analyticsQueries.trackMany`
+ */
+export type AnalyticsEventRecord = AnalyticsEventData & { timestamp: Date };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether an event name is recorded first-party
+ */
+export function isFirstPartyEvent(event: string): event is FirstPartyEventName {
+  return Object.prototype.hasOwnProperty.call(FIRST_PARTY_EVENT_TYPES, event);
+}
+
+/**
+ * Keep flat, non-identifying properties with bounded size
+ */
+function sanitizeProperties(
+  properties: Record<string, unknown> = {}
+): Record<string, string | number | boolean> {
+  const sanitized: Record<string, string | number | boolean> = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (Object.keys(sanitized).length >= MAX_PROPERTIES) break;
+    if (IDENTIFYING_PROPERTY_KEYS.has(key.toLowerCase())) continue;
+
+    if (typeof value === 'string') {
+      sanitized[key] = value.slice(0, MAX_PROPERTY_LENGTH);
+    } else if (typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))) {
+      sanitized[key] = value;
+    }
+  }
+
+  return sanitized;
+}
+
+/**
+ * Use the client timestamp unless it is implausibly old or in the future
+ */
+function resolveTimestamp(timestamp: string | undefined, now: Date): Date {
+  if (!timestamp) return now;
+
+  const time = new Date(timestamp).getTime();
+  if (time < now.getTime() - MAX_EVENT_AGE_MS || time > now.getTime() + MAX_CLOCK_SKEW_MS) {
+    return now;
+  }
+  return new Date(time);
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Map a validated batch onto `AnalyticsEvent` rows
+ */
+export function buildAnalyticsEventRecords(
+  batch: AnalyticsEventBatchInput,
+  context: AnalyticsIngestContext
+): AnalyticsEventRecord[] {
+  const now = context.now ?? new Date();
+  const { consented } = context;
+  const { sessionId, referrer, utmSource, utmMedium, utmCampaign, utmContent, utmTerm, geo } =
+    batch.context;
+
+  const shared = {
+    sessionId: consented ? sessionId : undefined,
+    userId: consented ? context.userId : undefined,
+    userAgent: consented ? context.userAgent?.slice(0, 500) : undefined,
+    referrer: consented ? referrer : undefined,
+    utmSource,
+    utmMedium,
+    utmCampaign,
+    utmContent,
+    utmTerm,
+    geo,
+  };
+
+  return batch.events.flatMap((event) => {
+    if (!isFirstPartyEvent(event.event)) return [];
+
+    return [
+      {
+        ...shared,
+        eventType: FIRST_PARTY_EVENT_TYPES[event.event],
+        eventName: event.event,
+        properties: sanitizeProperties(event.properties),
+        timestamp: resolveTimestamp(event.timestamp, now),
+      },
+    ];
+  });
+}
+
+/**
+ * Store a beacon batch
+ */
+export async function ingestAnalyticsEvents(
+  batch: AnalyticsEventBatchInput,
+  context: AnalyticsIngestContext
+): Promise<AnalyticsIngestResult> {
+  const records = buildAnalyticsEventRecords(batch, context);
+  await analyticsQueries.trackMany(records);
+
+  return {
+    accepted: records.length,
+    dropped: batch.events.length - records.length,
+  };
+}
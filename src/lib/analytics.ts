@@ -4,9 +4,12 @@
  * Includes Vercel Analytics and Web Vitals integration
  */
 
+import { recordExperimentConversions } from './ab-testing';
+import { hasConsent } from './consent';
+import { detectUserGeo } from './geo';
 import { isBrowser } from './utils';
-import type { Metric } from 'web-vitals';
 
+import { ConversionEvents } from '@/config/experiments';
 import type {
   AnalyticsEvent,
   BookFormat,
@@ -40,7 +43,12 @@ import type {
   VIPCodeRedeemFailureEvent,
   ExperimentAssignedEvent,
   ExperimentConversionEvent,
+  FirstPartyEventBatch,
+  FirstPartyEventPayload,
 } from '@/types';
+import { FIRST_PARTY_EVENT_TYPES, FIRST_PARTY_MAX_BATCH_SIZE } from '@/types/analytics';
+
+import type { Metric } from 'web-vitals';
 
 // ==================== Performance Budgets (from CLAUDE.md) ====================
 
@@ -344,10 +352,186 @@ export function trackConversion(
   });
 }
 
+// ==================== First-Party Beacon ====================
+
+/**
+ * Endpoint that stores events in our own database
+ */
+const FIRST_PARTY_ENDPOINT = '/api/events';
+
+/**
+ * Delay before a partial batch is sent (milliseconds)
+ */
+const FIRST_PARTY_FLUSH_DELAY_MS = 2000;
+
+/**
+ * sessionStorage keys for the session ID and landing-page UTMs
+ */
+const SESSION_ID_KEY = 'ai-born-analytics-session';
+const SESSION_UTM_KEY = 'ai-born-analytics-utm';
+
+const firstPartyQueue: FirstPartyEventPayload[] = [];
+let firstPartyFlushTimer: ReturnType<typeof setTimeout> | null = null;
+let firstPartyListenersAttached = false;
+
+/**
+ * Read sessionStorage, tolerating disabled storage
+ */
+function readSessionValue(key: string): string | null {
+  try {
+    return window.sessionStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write sessionStorage, tolerating disabled storage
+ */
+function writeSessionValue(key: string, value: string): void {
+  try {
+    window.sessionStorage.setItem(key, value);
+  } catch {
+    // Storage unavailable (private mode, quota); fall back to no persistence
+  }
+}
+
+/**
+ * Get or create the per-tab session ID (only called with consent)
+ */
+function getAnalyticsSessionId(): string {
+  const existing = readSessionValue(SESSION_ID_KEY);
+  if (existing) return existing;
+
+  const sessionId = crypto.randomUUID();
+  writeSessionValue(SESSION_ID_KEY, sessionId);
+  return sessionId;
+}
+
+/**
+ * UTM parameters from the current URL, or from the landing page when the
+ * visitor consented and they were remembered for the session
+ */
+function getSessionUTMParams(consented: boolean): Partial<FirstPartyEventBatch['context']> {
+  const params = new URLSearchParams(window.location.search);
+  const param = (name: string) => params.get(name)?.slice(0, 200) || undefined;
+  const current = {
+    utmSource: param('utm_source'),
+    utmMedium: param('utm_medium'),
+    utmCampaign: param('utm_campaign'),
+    utmContent: param('utm_content'),
+    utmTerm: param('utm_term'),
+  };
+
+  if (!consented) return current;
+
+  if (current.utmSource) {
+    writeSessionValue(SESSION_UTM_KEY, JSON.stringify(current));
+    return current;
+  }
+
+  try {
+    return JSON.parse(readSessionValue(SESSION_UTM_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Send queued events to the first-party endpoint
+ *
+ * Uses `navigator.sendBeacon` so batches survive page unloads, falling
+ * back to a keepalive fetch. Failures are ignored; GTM still has the events.
+ */
+export function flushFirstPartyEvents(): void {
+  if (firstPartyFlushTimer) {
+    clearTimeout(firstPartyFlushTimer);
+    firstPartyFlushTimer = null;
+  }
+  if (!isBrowser() || firstPartyQueue.length === 0) return;
+
+  const events = firstPartyQueue.splice(0, FIRST_PARTY_MAX_BATCH_SIZE);
+  const consented = hasConsent('analytics');
+  const batch: FirstPartyEventBatch = {
+    consent: { analytics: consented },
+    context: {
+      sessionId: consented ? getAnalyticsSessionId() : undefined,
+      referrer: consented ? document.referrer.slice(0, 500) || undefined : undefined,
+      ...getSessionUTMParams(consented),
+      geo: detectUserGeo(),
+    },
+    events,
+  };
+  const body = JSON.stringify(batch);
+
+  try {
+    const sent =
+      typeof navigator.sendBeacon === 'function' &&
+      navigator.sendBeacon(FIRST_PARTY_ENDPOINT, new Blob([body], { type: 'application/json' }));
+
+    if (!sent) {
+      void fetch(FIRST_PARTY_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      }).catch(() => {});
+    }
+  } catch (error) {
+    console.error('Error sending analytics events:', error);
+  }
+
+  if (firstPartyQueue.length > 0) {
+    flushFirstPartyEvents();
+  }
+}
+
+/**
+ * Flush when the page is hidden or unloaded
+ */
+function attachFirstPartyListeners(): void {
+  if (firstPartyListenersAttached) return;
+  firstPartyListenersAttached = true;
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushFirstPartyEvents();
+  });
+  window.addEventListener('pagehide', flushFirstPartyEvents);
+}
+
+/**
+ * Queue an event for the first-party endpoint if it has an
+ * `AnalyticsEventType` mapping
+ */
+function queueFirstPartyEvent(event: AnalyticsEvent): void {
+  if (!Object.prototype.hasOwnProperty.call(FIRST_PARTY_EVENT_TYPES, event.event)) return;
+
+  const { event: name, timestamp, ...properties } = event;
+  firstPartyQueue.push({
+    event: name as FirstPartyEventPayload['event'],
+    timestamp: timestamp || new Date().toISOString(),
+    properties,
+  });
+
+  attachFirstPartyListeners();
+
+  if (firstPartyQueue.length >= FIRST_PARTY_MAX_BATCH_SIZE) {
+    flushFirstPartyEvents();
+  } else if (!firstPartyFlushTimer) {
+    firstPartyFlushTimer = setTimeout(flushFirstPartyEvents, FIRST_PARTY_FLUSH_DELAY_MS);
+  }
+}
+
 // ==================== Core Event Tracking ====================
 
+/**
+ * Event names counted as A/B experiment conversions
+ */
+const CONVERSION_EVENT_NAMES: ReadonlySet<string> = new Set(Object.values(ConversionEvents));
+
 /**
  * Track an analytics event through GTM dataLayer
+ * Conversion events are also sent to `/api/events` (see First-Party Beacon)
  * Safe for SSR - will not execute on server
  *
  * @param event - Analytics event object with event name and properties
@@ -375,9 +559,15 @@ export function trackEvent(event: AnalyticsEvent): void {
     timestamp: event.timestamp || new Date().toISOString(),
   };
 
-  // Push to GTM dataLayer
+  // Push to GTM dataLayer and queue for first-party storage
   try {
     window.dataLayer?.push(eventWithMetadata);
+    queueFirstPartyEvent(eventWithMetadata);
+
+    // Attribute conversions to the visitor's A/B experiment variants
+    if (CONVERSION_EVENT_NAMES.has(eventWithMetadata.event)) {
+      recordExperimentConversions(eventWithMetadata.event);
+    }
 
     // Log in development
     if (process.env.NODE_ENV === 'development') {
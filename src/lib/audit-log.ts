@@ -0,0 +1,306 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of admin and user actions for compliance reviews.
+ * Entries are only ever inserted; the `audit_logs` table rejects UPDATE,
+ * DELETE and TRUNCATE at the database level.
+ *
+ * Features:
+ * - Actor, action, target entity, before/after state, IP and user agent
+ * - Filtered, paginated listing for the admin viewer
+ * - CSV export
+ *
+ * Usage:
+ * ```typescript
+ * await recordAuditEvent({
+ *   actorType: 'USER',
+ *   actorId: session.user.id,
+ *   action: 'ORG_UPDATE',
+ *   entityType: 'orgs',
+ *   entityId: org.id,
+ *   before: { name: 'Acme' },
+ *   after: { name: 'Acme Inc' },
+ * });
+ * ```
+ *
+ * Admin API routes record through `logAdminAction` in `@/lib/admin-auth`.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+import type { AuditActorType, AuditLog, Prisma } from '@prisma/client';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Audit event to record
+ */
+export interface AuditEvent {
+  actorType: AuditActorType;
+  /** Admin email, user ID or system identifier */
+  actorId: string;
+  /** Upper snake case verb, e.g. "RECEIPT_APPROVE" */
+  action: string;
+  /** Plural lower case entity name, e.g. "receipts" */
+  entityType: string;
+  entityId?: string | null;
+  /** Entity state before the action (changed fields are enough) */
+  before?: unknown;
+  /** Entity state after the action */
+  after?: unknown;
+  details?: Record<string, unknown>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Audit log filters
+ */
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  /** Inclusive lower bound on createdAt */
+  from?: Date;
+  /** Inclusive upper bound on createdAt */
+  to?: Date;
+}
+
+/**
+ * Paginated audit log listing
+ */
+export interface AuditLogPage {
+  entries: AuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Maximum rows in a single CSV export
+ */
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+/**
+ * CSV columns, in order
+ */
+const CSV_COLUMNS = [
+  'createdAt',
+  'actorType',
+  'actorId',
+  'action',
+  'entityType',
+  'entityId',
+  'before',
+  'after',
+  'details',
+  'ipAddress',
+  'userAgent',
+] as const;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Convert a value to JSON for storage (Dates become ISO strings)
+ */
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+/**
+ * Build the Prisma filter for audit log queries
+ */
+export function buildAuditLogWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filters.actorId) {
+    where.actorId = { contains: filters.actorId, mode: 'insensitive' };
+  }
+  if (filters.entityType) {
+    where.entityType = filters.entityType;
+  }
+  if (filters.entityId) {
+    where.entityId = filters.entityId;
+  }
+  if (filters.action) {
+    where.action = filters.action;
+  }
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+
+  return where;
+}
+
+/**
+ * Escape a value for a CSV cell
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  // Neutralize spreadsheet formulas in user-controlled values
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Reduce two snapshots of an entity to the fields that changed
+ *
+ * @returns `before` / `after` holding only the differing fields
+ */
+export function diffAuditState<T extends Record<string, unknown>>(
+  before: T,
+  after: T
+): { before: Partial<T>; after: Partial<T> } {
+  const changedBefore: Partial<T> = {};
+  const changedAfter: Partial<T> = {};
+
+  for (const key of Object.keys({ ...before, ...after }) as Array<keyof T>) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Record an audit event
+ *
+ * Never throws: a failed insert is logged so the audited action itself
+ * still completes.
+ *
+ * @param event - Actor, action, entity and change
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorType: event.actorType,
+        actorId: event.actorId,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId ?? undefined,
+        before: toJson(event.before),
+        after: toJson(event.after),
+        details: toJson(event.details),
+        ipAddress: event.ipAddress ?? undefined,
+        userAgent: event.userAgent ?? undefined,
+      },
+    });
+  } catch (error) {
+    console.error(
+      `[Audit Log] Failed to record ${event.action} on ${event.entityType} ${event.entityId ?? ''}:`,
+      error
+    );
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * List audit log entries, newest first
+ *
+ * @param filters - Actor, entity, action and date filters
+ * @param pagination - Page (1-based) and page size
+ */
+export async function listAuditLogs(
+  filters: AuditLogFilters,
+  { page = 1, limit = 50 }: { page?: number; limit?: number } = {}
+): Promise<AuditLogPage> {
+  const where = buildAuditLogWhere(filters);
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return { entries, total, page, limit };
+}
+
+/**
+ * Distinct entity types and actions, for filter dropdowns
+ */
+export async function getAuditLogFacets(): Promise<{
+  entityTypes: string[];
+  actions: string[];
+}> {
+  const [entityTypes, actions] = await Promise.all([
+    prisma.auditLog.findMany({
+      distinct: ['entityType'],
+      select: { entityType: true },
+      orderBy: { entityType: 'asc' },
+    }),
+    prisma.auditLog.findMany({
+      distinct: ['action'],
+      select: { action: true },
+      orderBy: { action: 'asc' },
+    }),
+  ]);
+
+  return {
+    entityTypes: entityTypes.map((row) => row.entityType),
+    actions: actions.map((row) => row.action),
+  };
+}
+
+/**
+ * Fetch entries for export, newest first (capped at AUDIT_LOG_EXPORT_LIMIT)
+ */
+export async function exportAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]> {
+  return prisma.auditLog.findMany({
+    where: buildAuditLogWhere(filters),
+    orderBy: { createdAt: 'desc' },
+    take: AUDIT_LOG_EXPORT_LIMIT,
+  });
+}
+
+/**
+ * Serialize audit log entries to CSV
+ */
+export function auditLogsToCsv(entries: AuditLog[]): string {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
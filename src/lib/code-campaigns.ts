@@ -0,0 +1,278 @@
+/**
+ * VIP Code Campaigns
+ *
+ * Named batches of VIP codes with an owner, optional partner org,
+ * redemption budget and validity dates. Codes are generated into a
+ * campaign (see `generateAndSaveCodes`) and inherit its type, org and dates.
+ *
+ * Features:
+ * - Funnel metrics: issued → validated → redeemed → entitlement fulfilled
+ * - Bulk revoke every active code in a campaign
+ * - Bulk extend a campaign's end date (reactivating expired codes)
+ *
+ * The redemption budget is enforced at redemption time by
+ * `redeemCodeForUser` in `@/lib/code-redemption`.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+import type { CodeCampaign, CodeType, Prisma } from '@prisma/client';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Campaign creation input
+ */
+export interface CreateCampaignInput {
+  name: string;
+  description?: string;
+  type: CodeType;
+  /** Admin email */
+  ownerId: string;
+  orgId?: string;
+  /** Total redemptions across all codes (omit for unlimited) */
+  redemptionBudget?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+}
+
+/**
+ * Funnel counts for a campaign, in codes
+ */
+export interface CampaignFunnel {
+  /** Codes generated */
+  issued: number;
+  /** Codes looked up at least once via the validate endpoint */
+  validated: number;
+  /** Codes redeemed at least once */
+  redeemed: number;
+  /** Codes with at least one fulfilled entitlement */
+  fulfilled: number;
+  /** Total redemptions (multi-use codes count once per redemption) */
+  redemptions: number;
+}
+
+/**
+ * Campaign with its funnel
+ */
+export interface CampaignWithFunnel extends CodeCampaign {
+  org: { id: string; name: string } | null;
+  funnel: CampaignFunnel;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Empty funnel for campaigns without codes
+ */
+function emptyFunnel(): CampaignFunnel {
+  return { issued: 0, validated: 0, redeemed: 0, fulfilled: 0, redemptions: 0 };
+}
+
+/**
+ * Count codes per campaign matching an extra filter
+ */
+async function countCodesByCampaign(
+  campaignIds: string[],
+  where: Prisma.CodeWhereInput = {}
+): Promise<Map<string, number>> {
+  const groups = await prisma.code.groupBy({
+    by: ['campaignId'],
+    where: { campaignId: { in: campaignIds }, ...where },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.campaignId!, group._count._all]));
+}
+
+/**
+ * Compute funnels for several campaigns in one round of queries
+ */
+export async function getCampaignFunnels(
+  campaignIds: string[]
+): Promise<Map<string, CampaignFunnel>> {
+  if (campaignIds.length === 0) {
+    return new Map();
+  }
+
+  const [issued, validated, redeemed, fulfilled, redemptions] = await Promise.all([
+    countCodesByCampaign(campaignIds),
+    countCodesByCampaign(campaignIds, { firstValidatedAt: { not: null } }),
+    countCodesByCampaign(campaignIds, { redemptionCount: { gt: 0 } }),
+    countCodesByCampaign(campaignIds, {
+      entitlements: { some: { status: 'FULFILLED' } },
+    }),
+    prisma.code.groupBy({
+      by: ['campaignId'],
+      where: { campaignId: { in: campaignIds } },
+      _sum: { redemptionCount: true },
+    }),
+  ]);
+
+  const redemptionsByCampaign = new Map(
+    redemptions.map((group) => [group.campaignId!, group._sum.redemptionCount ?? 0])
+  );
+
+  return new Map(
+    campaignIds.map((id) => [
+      id,
+      {
+        issued: issued.get(id) ?? 0,
+        validated: validated.get(id) ?? 0,
+        redeemed: redeemed.get(id) ?? 0,
+        fulfilled: fulfilled.get(id) ?? 0,
+        redemptions: redemptionsByCampaign.get(id) ?? 0,
+      },
+    ])
+  );
+}
+
+// ============================================================================
+// CAMPAIGNS
+// ============================================================================
+
+/**
+ * Create a campaign
+ *
+ * @throws Error if the dates or budget are invalid
+ */
+export async function createCampaign(input: CreateCampaignInput): Promise<CodeCampaign> {
+  const startsAt = input.startsAt ?? new Date();
+
+  if (input.endsAt && input.endsAt <= startsAt) {
+    throw new Error('Campaign must end after it starts');
+  }
+
+  if (input.redemptionBudget !== undefined && input.redemptionBudget < 1) {
+    throw new Error('Redemption budget must be a positive number');
+  }
+
+  return prisma.codeCampaign.create({
+    data: {
+      name: input.name.trim(),
+      description: input.description,
+      type: input.type,
+      ownerId: input.ownerId,
+      orgId: input.orgId,
+      redemptionBudget: input.redemptionBudget,
+      startsAt,
+      endsAt: input.endsAt,
+    },
+  });
+}
+
+/**
+ * List campaigns with their funnels, newest first
+ */
+export async function listCampaigns(): Promise<CampaignWithFunnel[]> {
+  const campaigns = await prisma.codeCampaign.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: { org: { select: { id: true, name: true } } },
+  });
+
+  const funnels = await getCampaignFunnels(campaigns.map((campaign) => campaign.id));
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    funnel: funnels.get(campaign.id) ?? emptyFunnel(),
+  }));
+}
+
+/**
+ * Get a campaign with its funnel
+ *
+ * @returns Campaign, or null if not found
+ */
+export async function getCampaign(campaignId: string): Promise<CampaignWithFunnel | null> {
+  const campaign = await prisma.codeCampaign.findUnique({
+    where: { id: campaignId },
+    include: { org: { select: { id: true, name: true } } },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const funnels = await getCampaignFunnels([campaign.id]);
+  return { ...campaign, funnel: funnels.get(campaign.id) ?? emptyFunnel() };
+}
+
+/**
+ * Revoke a campaign and every active code in it
+ *
+ * Redeemed codes keep their status; entitlements already granted are not
+ * touched.
+ *
+ * @returns Number of codes revoked, or null if the campaign does not exist
+ */
+export async function revokeCampaign(
+  campaignId: string
+): Promise<{ revokedCodes: number } | null> {
+  const campaign = await prisma.codeCampaign.findUnique({
+    where: { id: campaignId },
+    select: { id: true },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const [, codes] = await prisma.$transaction([
+    prisma.codeCampaign.update({
+      where: { id: campaignId },
+      data: { status: 'REVOKED' },
+    }),
+    prisma.code.updateMany({
+      where: { campaignId, status: 'ACTIVE' },
+      data: { status: 'REVOKED' },
+    }),
+  ]);
+
+  return { revokedCodes: codes.count };
+}
+
+/**
+ * Move a campaign's end date and apply it to its codes
+ *
+ * Active codes get the new `validUntil`; codes that had EXPIRED are
+ * reactivated. Revoked and fully redeemed codes are left alone.
+ *
+ * @returns Number of codes updated, or null if the campaign does not exist
+ *          or has been revoked
+ * @throws Error if the new end date is not in the future
+ */
+export async function extendCampaign(
+  campaignId: string,
+  endsAt: Date,
+  now: Date = new Date()
+): Promise<{ updatedCodes: number } | null> {
+  if (endsAt <= now) {
+    throw new Error('New end date must be in the future');
+  }
+
+  const campaign = await prisma.codeCampaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true },
+  });
+
+  if (!campaign || campaign.status === 'REVOKED') {
+    return null;
+  }
+
+  const [, codes] = await prisma.$transaction([
+    prisma.codeCampaign.update({
+      where: { id: campaignId },
+      data: { endsAt },
+    }),
+    prisma.code.updateMany({
+      where: { campaignId, status: { in: ['ACTIVE', 'EXPIRED'] } },
+      data: { status: 'ACTIVE', validUntil: endsAt },
+    }),
+  ]);
+
+  return { updatedCodes: codes.count };
+}
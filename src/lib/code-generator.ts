@@ -115,13 +115,18 @@ export async function generateUniqueCodes(
  */
 export interface CodeGenerationOptions {
   count: number;
-  type: CodeType;
+  /** Required unless generating into a campaign (defaults to the campaign type) */
+  type?: CodeType;
   description?: string;
   maxRedemptions?: number;
   validFrom?: Date;
   validUntil?: Date;
   createdBy?: string;
   orgId?: string;
+  /** Campaign to generate into; its type, org and dates are the defaults */
+  campaignId?: string;
+  /** One code per email, redeemable only by that address (overrides count) */
+  recipientEmails?: string[];
   entitlementTypes?: string[]; // For future use with entitlements
 }
 
@@ -137,40 +142,61 @@ export async function generateAndSaveCodes(
     type: CodeType;
     validFrom: Date;
     validUntil: Date | null;
+    recipientEmail: string | null;
   }>
 > {
-  const {
-    count,
-    type,
-    description,
-    maxRedemptions,
-    validFrom = new Date(),
-    validUntil,
-    createdBy,
-    orgId,
-  } = options;
+  const { description, maxRedemptions, createdBy, campaignId } = options;
+  const recipientEmails = options.recipientEmails?.map((email) => email.trim().toLowerCase());
+  const count = recipientEmails?.length ?? options.count;
+  let { type, validFrom = new Date(), validUntil, orgId } = options;
 
   // Validate count
   if (count <= 0 || count > 10000) {
     throw new Error('Count must be between 1 and 10,000');
   }
 
+  // Inherit defaults from the campaign
+  if (campaignId) {
+    const campaign = await prisma.codeCampaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new Error(`Campaign ${campaignId} not found`);
+    }
+    if (campaign.status !== 'ACTIVE') {
+      throw new Error(`Campaign ${campaign.name} has been revoked`);
+    }
+
+    type = type ?? campaign.type;
+    orgId = orgId ?? campaign.orgId ?? undefined;
+    validFrom = options.validFrom ?? campaign.startsAt;
+    validUntil = validUntil ?? campaign.endsAt ?? undefined;
+  }
+
+  if (!type) {
+    throw new Error('Code type is required');
+  }
+  const codeType = type;
+
   // Generate unique codes
   const codes = await generateUniqueCodes(count);
 
   // Batch insert
   const createdCodes = await prisma.$transaction(
-    codes.map((code) =>
+    codes.map((code, index) =>
       prisma.code.create({
         data: {
           code,
-          type,
+          type: codeType,
           description,
           maxRedemptions,
           validFrom,
           validUntil,
           createdBy,
           orgId,
+          campaignId,
+          recipientEmail: recipientEmails?.[index],
         },
         select: {
           id: true,
@@ -178,6 +204,7 @@ export async function generateAndSaveCodes(
           type: true,
           validFrom: true,
           validUntil: true,
+          recipientEmail: true,
         },
       })
     )
@@ -219,6 +246,7 @@ export async function validateCode(
       maxRedemptions: true,
       validFrom: true,
       validUntil: true,
+      firstValidatedAt: true,
     },
   });
 
@@ -229,6 +257,16 @@ export async function validateCode(
     };
   }
 
+  // Track the lookup for campaign funnels
+  const now = new Date();
+  await prisma.code.update({
+    where: { id: code.id },
+    data: {
+      validationCount: { increment: 1 },
+      firstValidatedAt: code.firstValidatedAt ?? now,
+    },
+  });
+
   // Check status
   if (code.status === 'REVOKED') {
     return {
@@ -245,7 +283,6 @@ export async function validateCode(
   }
 
   // Check validity period
-  const now = new Date();
   if (code.validFrom > now) {
     return {
       valid: false,
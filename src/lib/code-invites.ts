@@ -0,0 +1,145 @@
+/**
+ * VIP Code Invite Links
+ *
+ * Personalised, single-use redemption URLs for partner and media outreach.
+ * Each invite is a single-use code bound to one email address
+ * (`Code.recipientEmail`) plus a signed token carrying the code, so the
+ * recipient never has to type it:
+ *
+ *   https://ai-born.org/redeem?invite=<token>
+ *
+ * The redeem page pre-fills the code from the token and redeems it once the
+ * recipient has signed in. `redeemCodeForUser` refuses the code for any
+ * other email, whether it arrives via the link or is typed in.
+ */
+
+import { generateAndSaveCodes } from '@/lib/code-generator';
+import { generateCodeInviteToken, verifyCodeInviteToken } from '@/lib/tokens';
+
+import type { CodeType } from '@prisma/client';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
+
+/**
+ * Link lifetime for codes without an end date
+ */
+const INVITE_LINK_EXPIRY_DAYS = 30;
+
+/**
+ * Invites issued per request (one code each)
+ */
+export const MAX_INVITES_PER_BATCH = 500;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Invite creation input
+ */
+export interface CreateCodeInvitesInput {
+  emails: string[];
+  /** Required unless issuing into a campaign */
+  type?: CodeType;
+  campaignId?: string;
+  description?: string;
+  /** Code expiry (defaults to the campaign end) */
+  validUntil?: Date;
+  /** Admin email */
+  createdBy: string;
+}
+
+/**
+ * Issued invite
+ */
+export interface CodeInvite {
+  email: string;
+  code: string;
+  codeId: string;
+  url: string;
+  /** Link expiry: the code's `validUntil`, or 30 days for open-ended codes */
+  expiresAt: Date;
+}
+
+/**
+ * Invite as read from a link
+ */
+export interface ResolvedCodeInvite {
+  code: string;
+  email: string;
+}
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+/**
+ * Build the redeem page URL for an invite token
+ */
+export function buildCodeInviteUrl(token: string): string {
+  return `${SITE_URL}/redeem?invite=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Issue one single-use invite link per email
+ *
+ * Duplicate addresses (case-insensitive) get a single invite.
+ *
+ * @throws Error if there are no emails, too many, or code generation fails
+ */
+export async function createCodeInvites(input: CreateCodeInvitesInput): Promise<CodeInvite[]> {
+  const emails = Array.from(new Set(input.emails.map((email) => email.trim().toLowerCase())));
+
+  if (emails.length === 0 || emails.length > MAX_INVITES_PER_BATCH) {
+    throw new Error(`Between 1 and ${MAX_INVITES_PER_BATCH} emails are required`);
+  }
+
+  const codes = await generateAndSaveCodes({
+    count: emails.length,
+    recipientEmails: emails,
+    type: input.type,
+    campaignId: input.campaignId,
+    description: input.description,
+    maxRedemptions: 1,
+    validUntil: input.validUntil,
+    createdBy: input.createdBy,
+  });
+
+  const defaultExpiry = new Date(Date.now() + INVITE_LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  return codes.map((code, index) => {
+    const email = code.recipientEmail ?? emails[index];
+    const expiresAt = code.validUntil ?? defaultExpiry;
+    const token = generateCodeInviteToken(code.code, email, expiresAt);
+
+    return {
+      email,
+      code: code.code,
+      codeId: code.id,
+      url: buildCodeInviteUrl(token),
+      expiresAt,
+    };
+  });
+}
+
+/**
+ * Read the code and intended recipient from an invite token
+ *
+ * Only checks the signature and expiry; whether the code can still be
+ * redeemed is decided at redemption.
+ *
+ * @returns Invite, or null if the token is invalid or expired
+ */
+export function resolveCodeInvite(token: string): ResolvedCodeInvite | null {
+  const result = verifyCodeInviteToken(token);
+
+  if (!result.valid || !result.payload) {
+    return null;
+  }
+
+  return { code: result.payload.code, email: result.payload.email };
+}
@@ -0,0 +1,329 @@
+/**
+ * VIP Code Redemption
+ *
+ * Redeems a code for a user in a single serializable transaction:
+ * validates status, validity window and redemption limit, increments
+ * `redemptionCount` (flipping the code to REDEEMED once exhausted) and
+ * grants the entitlements mapped from the code type as ACTIVE. They become
+ * FULFILLED once delivered (see `fulfillEntitlements`).
+ *
+ * Race safety:
+ * - The increment is a compare-and-set on the `redemptionCount` that was
+ *   read, so two concurrent redemptions of the last slot cannot both win
+ * - Serialization failures and lost compare-and-sets are retried from a
+ *   fresh read, which then sees the updated code
+ *
+ * Usage:
+ * ```typescript
+ * const result = await redeemCodeForUser({ code: 'ABC234', userId });
+ * if (!result.success) {
+ *   result.reason; // 'not_found' | 'already_redeemed' | 'expired' | ...
+ * }
+ * ```
+ */
+
+import { Prisma, type Code, type Entitlement, type EntitlementType } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { mapCodeTypeToEntitlements, normalizeCodeInput } from '@/types/vip-codes';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Why a redemption was refused
+ * - not_found: no such code
+ * - revoked: code revoked by an admin
+ * - expired: status EXPIRED or past `validUntil`
+ * - not_yet_valid: before `validFrom`
+ * - already_redeemed: all redemptions used up
+ * - duplicate_redemption: this user already redeemed this code
+ * - campaign_exhausted: the code's campaign has used its redemption budget
+ * - recipient_mismatch: the code is bound to a different email (invite link)
+ */
+export type CodeRedemptionFailureReason =
+  | 'not_found'
+  | 'revoked'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'already_redeemed'
+  | 'duplicate_redemption'
+  | 'campaign_exhausted'
+  | 'recipient_mismatch';
+
+/**
+ * Code redemption input
+ */
+export interface RedeemCodeInput {
+  /** Code as entered (normalized before lookup) */
+  code: string;
+  userId: string;
+  /** Redeeming user's email, checked against the code's `recipientEmail` */
+  email?: string | null;
+  /** Stored on each granted entitlement (retailer, device fingerprint, ...) */
+  metadata?: Prisma.InputJsonObject;
+  /** Redemption time (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Code redemption result
+ */
+export type CodeRedemptionResult =
+  | {
+      success: true;
+      /** Code after the redemption */
+      code: Code;
+      entitlements: Entitlement[];
+    }
+  | {
+      success: false;
+      reason: CodeRedemptionFailureReason;
+      /** Code as read (null when not found) */
+      code: Code | null;
+    };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Transaction attempts before giving up on a contended code
+ */
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Prisma error code for serialization failures / deadlocks
+ */
+const SERIALIZATION_FAILURE_CODE = 'P2034';
+
+/**
+ * Thrown inside the transaction when another redemption changed the code
+ * between our read and our write
+ */
+class RedemptionConflictError extends Error {
+  constructor(codeId: string) {
+    super(`Concurrent redemption of code ${codeId}`);
+    this.name = 'RedemptionConflictError';
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Whether a failed transaction should be retried from a fresh read
+ */
+function isRetryableTransactionError(error: unknown): boolean {
+  return (
+    error instanceof RedemptionConflictError ||
+    (error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === SERIALIZATION_FAILURE_CODE)
+  );
+}
+
+/**
+ * Check a code can be redeemed right now
+ *
+ * @returns Failure reason, or null if redeemable
+ */
+function checkRedeemable(code: Code, now: Date): CodeRedemptionFailureReason | null {
+  if (code.status === 'REVOKED') {
+    return 'revoked';
+  }
+
+  if (code.status === 'EXPIRED' || (code.validUntil && code.validUntil < now)) {
+    return 'expired';
+  }
+
+  if (code.validFrom > now) {
+    return 'not_yet_valid';
+  }
+
+  if (
+    code.status === 'REDEEMED' ||
+    (code.maxRedemptions !== null && code.redemptionCount >= code.maxRedemptions)
+  ) {
+    return 'already_redeemed';
+  }
+
+  return null;
+}
+
+/**
+ * Whether the code's campaign has used up its redemption budget
+ *
+ * Sums redemptions across the campaign's codes; under serializable
+ * isolation two redemptions racing for the last slot conflict and one
+ * retries.
+ */
+async function isCampaignBudgetExhausted(
+  tx: Prisma.TransactionClient,
+  campaignId: string
+): Promise<boolean> {
+  const campaign = await tx.codeCampaign.findUnique({
+    where: { id: campaignId },
+    select: { redemptionBudget: true },
+  });
+
+  if (!campaign || campaign.redemptionBudget === null) {
+    return false;
+  }
+
+  const used = await tx.code.aggregate({
+    where: { campaignId },
+    _sum: { redemptionCount: true },
+  });
+
+  return (used._sum.redemptionCount ?? 0) >= campaign.redemptionBudget;
+}
+
+/**
+ * Run one redemption attempt inside a transaction
+ */
+async function redeemInTransaction(
+  tx: Prisma.TransactionClient,
+  input: RedeemCodeInput
+): Promise<CodeRedemptionResult> {
+  const now = input.now ?? new Date();
+
+  const code = await tx.code.findUnique({
+    where: { code: normalizeCodeInput(input.code) },
+  });
+
+  if (!code) {
+    return { success: false, reason: 'not_found', code: null };
+  }
+
+  // Checked first so someone else's invite reveals nothing about its state
+  if (
+    code.recipientEmail &&
+    code.recipientEmail !== input.email?.trim().toLowerCase()
+  ) {
+    return { success: false, reason: 'recipient_mismatch', code };
+  }
+
+  const failure = checkRedeemable(code, now);
+  if (failure) {
+    return { success: false, reason: failure, code };
+  }
+
+  const existing = await tx.entitlement.findFirst({
+    where: { userId: input.userId, codeId: code.id },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return { success: false, reason: 'duplicate_redemption', code };
+  }
+
+  if (code.campaignId && (await isCampaignBudgetExhausted(tx, code.campaignId))) {
+    return { success: false, reason: 'campaign_exhausted', code };
+  }
+
+  // Compare-and-set: only succeeds if nobody redeemed since our read
+  const redemptionCount = code.redemptionCount + 1;
+  const exhausted = code.maxRedemptions !== null && redemptionCount >= code.maxRedemptions;
+
+  const claimed = await tx.code.updateMany({
+    where: {
+      id: code.id,
+      status: 'ACTIVE',
+      redemptionCount: code.redemptionCount,
+    },
+    data: {
+      redemptionCount,
+      ...(exhausted && { status: 'REDEEMED' as const }),
+    },
+  });
+
+  if (claimed.count === 0) {
+    throw new RedemptionConflictError(code.id);
+  }
+
+  const entitlements: Entitlement[] = [];
+  for (const type of mapCodeTypeToEntitlements(code.type)) {
+    entitlements.push(
+      await tx.entitlement.create({
+        data: {
+          userId: input.userId,
+          codeId: code.id,
+          type,
+          status: 'ACTIVE',
+          metadata: input.metadata,
+        },
+      })
+    );
+  }
+
+  return {
+    success: true,
+    code: {
+      ...code,
+      redemptionCount,
+      status: exhausted ? 'REDEEMED' : code.status,
+    },
+    entitlements,
+  };
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+/**
+ * Redeem a VIP code for a user
+ *
+ * Runs as a serializable transaction, retried on write conflicts. Refused
+ * redemptions write nothing.
+ *
+ * @param input - Code, user and entitlement metadata
+ * @returns Updated code and granted entitlements, or the failure reason
+ */
+export async function redeemCodeForUser(
+  input: RedeemCodeInput
+): Promise<CodeRedemptionResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction((tx) => redeemInTransaction(tx, input), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    } catch (error) {
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS || !isRetryableTransactionError(error)) {
+        throw error;
+      }
+
+      console.warn(
+        `[Code Redemption] Retrying contended redemption of ${input.code} (attempt ${attempt + 1})`
+      );
+    }
+  }
+}
+
+// ============================================================================
+// FULFILLMENT
+// ============================================================================
+
+/**
+ * Mark a user's active entitlements of the given types as delivered
+ *
+ * Called where the benefit reaches the user: bonus pack delivery after
+ * receipt verification, and the excerpt PDF download. FULFILLED entitlements keep
+ * granting access; campaign funnels count them as fulfilled.
+ *
+ * @returns Number of entitlements fulfilled
+ */
+export async function fulfillEntitlements(
+  userId: string,
+  types: EntitlementType[],
+  now: Date = new Date()
+): Promise<number> {
+  const { count } = await prisma.entitlement.updateMany({
+    where: { userId, type: { in: types }, status: 'ACTIVE' },
+    data: { status: 'FULFILLED', fulfilledAt: now },
+  });
+
+  return count;
+}
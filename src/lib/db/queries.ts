@@ -15,6 +15,7 @@ import type {
   RetailerGeo,
   EmailCaptureSource,
   AnalyticsEventType,
+  Prisma,
 } from '@prisma/client';
 
 // ============================================================================
@@ -45,7 +46,7 @@ export const userQueries = {
       where: { id: userId },
       include: {
         entitlements: {
-          where: { status: 'ACTIVE' },
+          where: { status: { in: ['ACTIVE', 'FULFILLED'] } },
           include: { code: true },
         },
       },
@@ -62,7 +63,8 @@ export const userQueries = {
     return prisma.entitlement.findMany({
       where: {
         userId,
-        status: 'ACTIVE',
+        // Fulfilled entitlements were delivered and still grant access
+        status: { in: ['ACTIVE', 'FULFILLED'] },
         ...(type && { type }),
         OR: [{ expiresAt: null }, { expiresAt: { gte: new Date() } }],
       },
@@ -491,26 +493,31 @@ export const bulkOrderQueries = {
 // ANALYTICS QUERIES
 // ============================================================================
 
+/**
+ * Fields recorded for an analytics event
+ */
+export interface AnalyticsEventData {
+  eventType: AnalyticsEventType;
+  eventName: string;
+  properties?: Record<string, unknown>;
+  sessionId?: string;
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  referrer?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmContent?: string;
+  utmTerm?: string;
+  geo?: string;
+}
+
 export const analyticsQueries = {
   /**
    * Track event
    */
-  track: async (data: {
-    eventType: AnalyticsEventType;
-    eventName: string;
-    properties?: Record<string, unknown>;
-    sessionId?: string;
-    userId?: string;
-    ipAddress?: string;
-    userAgent?: string;
-    referrer?: string;
-    utmSource?: string;
-    utmMedium?: string;
-    utmCampaign?: string;
-    utmContent?: string;
-    utmTerm?: string;
-    geo?: string;
-  }) => {
+  track: async (data: AnalyticsEventData) => {
     return prisma.analyticsEvent.create({
       data: {
         ...data,
@@ -519,6 +526,20 @@ export const analyticsQueries = {
     });
   },
 
+  /**
+   * Track a batch of events in one insert
+   */
+  trackMany: async (events: Array<AnalyticsEventData & { timestamp?: Date }>) => {
+    if (events.length === 0) return { count: 0 };
+
+    return prisma.analyticsEvent.createMany({
+      data: events.map((event) => ({
+        ...event,
+        properties: event.properties as Prisma.InputJsonValue | undefined,
+      })),
+    });
+  },
+
   /**
    * Get event count by type
    */
@@ -15,6 +15,66 @@ export interface DomainVerificationRecord {
   recordValue: string;
 }
 
+/**
+ * TXT lookups against one DNS server
+ *
+ * Matches `dns.promises.Resolver`; tests pass a fake.
+ */
+export interface TxtResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+/**
+ * Creates a resolver bound to the given server address
+ */
+export type TxtResolverFactory = (server: string) => TxtResolver;
+
+/**
+ * Lookup result from one public DNS server
+ */
+export interface DNSPropagationServerResult {
+  server: string;
+  found: boolean;
+  records: string[];
+  /** DNS error code, if the lookup failed */
+  error?: string;
+}
+
+/**
+ * Public DNS servers queried for propagation checks
+ */
+export const PUBLIC_DNS_SERVERS = [
+  { name: 'Google', server: '8.8.8.8' },
+  { name: 'Cloudflare', server: '1.1.1.1' },
+  { name: 'OpenDNS', server: '208.67.222.222' },
+] as const;
+
+/**
+ * Error codes meaning the server answered and the record does not exist,
+ * as opposed to the lookup itself failing
+ */
+const MISSING_RECORD_ERRORS = new Set(['ENOTFOUND', 'ENODATA']);
+
+/**
+ * Per-attempt DNS query timeout (ms); Node's default retries back off to
+ * well over a minute per server
+ */
+const DNS_TIMEOUT_MS = 2000;
+
+/**
+ * Attempts per DNS server before a lookup fails
+ */
+const DNS_TRIES = 2;
+
+/**
+ * Resolver using Node's DNS client
+ */
+export const systemTxtResolver: TxtResolverFactory = (server) => {
+  const resolver = new dns.Resolver({ timeout: DNS_TIMEOUT_MS, tries: DNS_TRIES });
+  resolver.setServers([server]);
+  return resolver;
+};
+
 /**
  * Generate a verification token for domain ownership
  */
@@ -245,34 +305,23 @@ export function getVerificationInstructions(provider?: string): {
 /**
  * Check DNS propagation status
  * Queries multiple public DNS servers to check propagation
+ *
+ * @param resolver - Resolver per server (defaults to the system DNS client)
  */
 export async function checkDNSPropagation(
   domain: string,
-  token: string
+  token: string,
+  resolver: TxtResolverFactory = systemTxtResolver
 ): Promise<{
   propagated: boolean;
-  servers: {
-    server: string;
-    found: boolean;
-    records: string[];
-  }[];
+  servers: DNSPropagationServerResult[];
 }> {
   const verificationRecord = getVerificationRecord(domain, token);
 
-  // Public DNS servers to check
-  const dnsServers = [
-    { name: 'Google', server: '8.8.8.8' },
-    { name: 'Cloudflare', server: '1.1.1.1' },
-    { name: 'OpenDNS', server: '208.67.222.222' },
-  ];
-
   const results = await Promise.all(
-    dnsServers.map(async ({ name, server }) => {
+    PUBLIC_DNS_SERVERS.map(async ({ name, server }): Promise<DNSPropagationServerResult> => {
       try {
-        const resolver = new dns.Resolver();
-        resolver.setServers([server]);
-
-        const records = await resolver.resolveTxt(verificationRecord.recordName);
+        const records = await resolver(server).resolveTxt(verificationRecord.recordName);
         const flatRecords = records.map((record) =>
           Array.isArray(record) ? record.join('') : record
         );
@@ -286,11 +335,15 @@ export async function checkDNSPropagation(
           found,
           records: flatRecords,
         };
-      } catch {
+      } catch (error) {
         return {
           server: name,
           found: false,
           records: [],
+          error:
+            error instanceof Error && 'code' in error
+              ? String((error as { code: unknown }).code)
+              : 'UNKNOWN',
         };
       }
     })
@@ -304,6 +357,16 @@ export async function checkDNSPropagation(
   };
 }
 
+/**
+ * Whether a server's lookup shows the record is missing
+ *
+ * False for lookups that failed (timeouts, refused connections), which say
+ * nothing about the record.
+ */
+export function isRecordMissing(result: DNSPropagationServerResult): boolean {
+  return !result.found && (!result.error || MISSING_RECORD_ERRORS.has(result.error));
+}
+
 /**
  * Format verification record for display
  */
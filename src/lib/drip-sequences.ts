@@ -0,0 +1,573 @@
+/**
+ * Drip Sequences
+ *
+ * Multi-step pre-launch email sequences, chosen by the lead's
+ * `EmailCapture.source`. For example, excerpt requests get:
+ * excerpt → day 3 framework teaser → launch week pre-order reminder with
+ * retailer links for the reader's region (from `@/lib/retailer-catalog`).
+ *
+ * Features:
+ * - Sequences and the source → sequence mapping are configured below
+ * - Steps are timed from enrollment (`delayDays`) or from the launch date
+ *   (`launchOffsetDays`, using `BOOK_LAUNCH_DATE`)
+ * - A sequence stops once the lead has a verified `Receipt` or approved
+ *   `BonusClaim`, unsubscribes from the newsletter, or is suppressed
+ * - Progress is stored per lead (`DripEnrollment`); `runDripTick` sends due
+ *   steps and is run by `npm run drip:scheduler` locally or
+ *   `GET /api/cron/drip` in production
+ *
+ * Drip emails carry the newsletter's signed unsubscribe link (see
+ * `sendDripEmail` in `@/lib/email`).
+ */
+
+import { Prisma, type DripEnrollment, type EmailCaptureSource } from '@prisma/client';
+
+import { SITE_URL } from '@/components/email/EmailComponents';
+import type { PreorderRetailerLink } from '@/components/email/templates/PreorderReminderEmail';
+import { sendDripEmail, type EmailResult } from '@/lib/email';
+import { type EmailTemplateName, type EmailTemplateProps } from '@/lib/email-templates';
+import { prisma } from '@/lib/prisma';
+import { getRetailerCatalog } from '@/lib/retailer-catalog';
+import {
+  buildUTMParams,
+  FALLBACK_RETAILER_CATALOG,
+  getDefaultRetailers,
+  getRetailerUrl,
+} from '@/lib/retailers';
+import type { BookFormat, GeoRegion, RetailerCatalog } from '@/types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * When a step is due: days after enrollment, or days relative to launch
+ * (negative = before publication)
+ */
+export type DripStepTiming = { delayDays: number } | { launchOffsetDays: number };
+
+/**
+ * Lead details available to step templates
+ */
+export interface DripStepContext {
+  email: string;
+  name?: string;
+  geo: GeoRegion;
+  launchDate: Date | null;
+}
+
+/**
+ * One email in a sequence
+ */
+export interface DripStep {
+  /** Stable identifier, also the outbox template name ("drip_<key>") */
+  key: string;
+  template: EmailTemplateName;
+  timing: DripStepTiming;
+  send: (context: DripStepContext) => Promise<EmailResult>;
+}
+
+/**
+ * An ordered list of steps
+ */
+export interface DripSequence {
+  label: string;
+  steps: DripStep[];
+}
+
+/**
+ * New lead to enroll
+ */
+export interface StartDripSequenceInput {
+  email: string;
+  name?: string;
+  source: EmailCaptureSource;
+  geo?: string;
+}
+
+/**
+ * Enrollment outcome
+ */
+export interface StartDripSequenceResult {
+  enrollment: DripEnrollment;
+  /** Result of the first step, when it was due immediately */
+  result?: EmailResult;
+}
+
+/**
+ * What happened to one enrollment in a tick
+ */
+export type DripStepOutcome = 'sent' | 'completed' | 'stopped' | 'failed' | 'deferred';
+
+/**
+ * Summary of a scheduler tick
+ */
+export interface DripTickResult {
+  processed: number;
+  sent: number;
+  completed: number;
+  stopped: number;
+  failed: number;
+  deferred: number;
+}
+
+// ============================================================================
+// SEQUENCES
+// ============================================================================
+
+/**
+ * Build a step whose props are checked against its template
+ */
+function dripStep<N extends EmailTemplateName>(
+  key: string,
+  template: N,
+  timing: DripStepTiming,
+  props: (context: DripStepContext) => EmailTemplateProps<N> | Promise<EmailTemplateProps<N>>
+): DripStep {
+  return {
+    key,
+    template,
+    timing,
+    send: async (context) =>
+      sendDripEmail(context.email, template, await props(context), `drip_${key}`),
+  };
+}
+
+const EXCERPT_STEP = dripStep('excerpt', 'excerpt', { delayDays: 0 }, () => ({
+  downloadUrl: `${SITE_URL}/assets/ai-born-excerpt.pdf`,
+}));
+
+const FRAMEWORK_TEASER_STEP = dripStep('framework_teaser', 'framework-teaser', { delayDays: 3 }, ({ name }) => ({
+  name,
+}));
+
+const PREORDER_REMINDER_STEP = dripStep(
+  'preorder_reminder',
+  'preorder-reminder',
+  { launchOffsetDays: -5 },
+  async ({ name, geo, launchDate }) => ({
+    name,
+    launchDate: launchDate ?? undefined,
+    retailers: getDripRetailerLinks(geo, await getRetailerCatalog()),
+  })
+);
+
+/**
+ * Configured sequences, keyed by the ID stored on enrollments
+ *
+ * Removing a sequence stops its active enrollments on the next tick;
+ * appending steps extends them. Reordering steps shifts in-flight leads,
+ * so add a new sequence instead.
+ */
+export const DRIP_SEQUENCES: Record<string, DripSequence> = {
+  'excerpt-nurture': {
+    label: 'Excerpt → framework teaser → launch reminder',
+    steps: [EXCERPT_STEP, FRAMEWORK_TEASER_STEP, PREORDER_REMINDER_STEP],
+  },
+  'bonus-claim': {
+    label: 'Excerpt → launch reminder',
+    steps: [EXCERPT_STEP, PREORDER_REMINDER_STEP],
+  },
+};
+
+/**
+ * Sequence started for each capture source (unmapped sources get the
+ * one-off excerpt email only)
+ */
+export const DRIP_SEQUENCE_BY_SOURCE: Partial<Record<EmailCaptureSource, string>> = {
+  HERO_EXCERPT: 'excerpt-nurture',
+  FOOTER: 'excerpt-nurture',
+  POPUP: 'excerpt-nurture',
+  SOCIAL: 'excerpt-nurture',
+  REFERRAL: 'excerpt-nurture',
+  BONUS_CLAIM: 'bonus-claim',
+};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Enrollments processed per tick
+ */
+export const DRIP_TICK_BATCH_SIZE = 50;
+
+/**
+ * Pause between sends within a tick (keeps under Resend's 2 requests/second)
+ */
+const SEND_INTERVAL_MS = 600;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum gap between two steps for the same lead
+ */
+const MIN_STEP_GAP_MS = DAY_MS;
+
+/**
+ * Delay before retrying a failed step (also the claim lease for a send)
+ */
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Failed attempts per step before the enrollment is stopped
+ */
+const MAX_STEP_ATTEMPTS = 3;
+
+/**
+ * Max length of stored error messages
+ */
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Format linked for each retailer in the reminder, in order of preference
+ */
+const REMINDER_FORMATS: BookFormat[] = ['hardcover', 'ebook', 'audiobook'];
+
+const GEO_REGIONS: GeoRegion[] = ['US', 'UK', 'EU', 'AU'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Publication date from `BOOK_LAUNCH_DATE` (ISO 8601), or null if unset
+ */
+export function getLaunchDate(): Date | null {
+  const value = process.env.BOOK_LAUNCH_DATE;
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.warn(`[Drip] Ignoring invalid BOOK_LAUNCH_DATE "${value}"`);
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Map a stored geo value to a retailer region (defaults to US)
+ */
+function toGeoRegion(geo: string | null | undefined): GeoRegion {
+  return GEO_REGIONS.includes(geo as GeoRegion) ? (geo as GeoRegion) : 'US';
+}
+
+/**
+ * Retailer links for a region, tagged for drip attribution
+ */
+export function getDripRetailerLinks(
+  geo: GeoRegion,
+  catalog: RetailerCatalog = FALLBACK_RETAILER_CATALOG
+): PreorderRetailerLink[] {
+  return getDefaultRetailers(geo, catalog).map((retailer) => {
+    const format = REMINDER_FORMATS.find((f) => retailer.formats.includes(f)) ?? retailer.formats[0];
+    return {
+      id: retailer.id,
+      name: retailer.name,
+      url: getRetailerUrl(
+        retailer,
+        format,
+        buildUTMParams({ source: 'email', medium: 'drip', content: `${retailer.id}-${format}` })
+      ),
+    };
+  });
+}
+
+/**
+ * When a step is due
+ *
+ * @returns Due date, or null for launch-relative steps while the launch
+ *   date is unset
+ */
+export function getStepSendAt(step: DripStep, enrolledAt: Date, launchDate: Date | null): Date | null {
+  if ('delayDays' in step.timing) {
+    return new Date(enrolledAt.getTime() + step.timing.delayDays * DAY_MS);
+  }
+  if (!launchDate) {
+    return null;
+  }
+  return new Date(launchDate.getTime() + step.timing.launchOffsetDays * DAY_MS);
+}
+
+/**
+ * Why a lead's sequence should end, if it should
+ *
+ * @returns "purchased" (verified receipt or approved bonus claim),
+ *   "unsubscribed", or null to continue
+ */
+export async function getDripStopReason(email: string): Promise<string | null> {
+  const [subscriber, receipts, claims] = await Promise.all([
+    prisma.newsletterSubscriber.findUnique({
+      where: { email },
+      select: { status: true },
+    }),
+    prisma.receipt.count({
+      where: { status: 'VERIFIED', user: { email } },
+    }),
+    prisma.bonusClaim.count({
+      where: {
+        status: { in: ['APPROVED', 'DELIVERED'] },
+        OR: [{ deliveryEmail: email }, { user: { email } }],
+      },
+    }),
+  ]);
+
+  if (receipts > 0 || claims > 0) {
+    return 'purchased';
+  }
+  if (subscriber?.status === 'UNSUBSCRIBED' || subscriber?.status === 'BOUNCED') {
+    return 'unsubscribed';
+  }
+  return null;
+}
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+/**
+ * Enroll a new lead in the sequence for their capture source
+ *
+ * The first step is sent straight away when it is due (the excerpt, for
+ * the built-in sequences). If that send fails, the enrollment is removed
+ * so the lead can try again.
+ *
+ * @returns Enrollment and first-step result, or null if the source has no
+ *   sequence, the lead is already enrolled, or they have already bought
+ *   or unsubscribed
+ */
+export async function startDripSequence(
+  input: StartDripSequenceInput,
+  now: Date = new Date()
+): Promise<StartDripSequenceResult | null> {
+  const sequenceId = DRIP_SEQUENCE_BY_SOURCE[input.source];
+  const sequence = sequenceId ? DRIP_SEQUENCES[sequenceId] : undefined;
+  if (!sequenceId || !sequence || sequence.steps.length === 0) {
+    return null;
+  }
+
+  const email = input.email.toLowerCase().trim();
+
+  if (await getDripStopReason(email)) {
+    return null;
+  }
+
+  let enrollment: DripEnrollment;
+  try {
+    enrollment = await prisma.dripEnrollment.create({
+      data: {
+        email,
+        name: input.name || null,
+        sequenceId,
+        source: input.source,
+        geo: input.geo ?? null,
+        nextSendAt: getStepSendAt(sequence.steps[0], now, getLaunchDate()),
+        createdAt: now,
+      },
+    });
+  } catch (error) {
+    // Already enrolled (or lost a race with a concurrent signup)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+
+  if (!enrollment.nextSendAt || enrollment.nextSendAt > now) {
+    return { enrollment };
+  }
+
+  const { outcome, result } = await processDripEnrollment(enrollment, now);
+
+  if (outcome === 'failed') {
+    await prisma.dripEnrollment.delete({ where: { id: enrollment.id } });
+  }
+
+  return { enrollment, result };
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Move an enrollment past its current step
+ *
+ * Schedules the next step (at least a day after a send) or completes the
+ * enrollment.
+ *
+ * @param sent - Whether the current step was sent (false when skipped)
+ */
+async function advanceDripEnrollment(
+  enrollment: DripEnrollment,
+  sequence: DripSequence,
+  now: Date,
+  launchDate: Date | null,
+  sent: boolean
+): Promise<DripStepOutcome> {
+  const stepIndex = enrollment.stepIndex + 1;
+  const nextStep = sequence.steps[stepIndex];
+  const progress = {
+    stepIndex,
+    attempts: 0,
+    lastError: null,
+    ...(sent && { lastSentAt: now }),
+  };
+
+  if (!nextStep) {
+    await prisma.dripEnrollment.update({
+      where: { id: enrollment.id },
+      data: { ...progress, status: 'COMPLETED', completedAt: now, nextSendAt: null },
+    });
+    return 'completed';
+  }
+
+  const dueAt = getStepSendAt(nextStep, enrollment.createdAt, launchDate);
+  const earliest = sent ? new Date(now.getTime() + MIN_STEP_GAP_MS) : now;
+
+  await prisma.dripEnrollment.update({
+    where: { id: enrollment.id },
+    data: { ...progress, nextSendAt: dueAt && dueAt < earliest ? earliest : dueAt },
+  });
+  return sent ? 'sent' : 'deferred';
+}
+
+/**
+ * Send the current step of an enrollment if it is due
+ *
+ * Claims the step first (moving `nextSendAt` forward by the retry delay),
+ * so concurrent ticks never send it twice.
+ */
+async function processDripEnrollment(
+  enrollment: DripEnrollment,
+  now: Date
+): Promise<{ outcome: DripStepOutcome; result?: EmailResult }> {
+  const sequence = DRIP_SEQUENCES[enrollment.sequenceId];
+  const step = sequence?.steps[enrollment.stepIndex];
+  const launchDate = getLaunchDate();
+
+  if (!sequence) {
+    await prisma.dripEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'STOPPED', stopReason: 'removed', nextSendAt: null },
+    });
+    return { outcome: 'stopped' };
+  }
+
+  if (!step) {
+    await prisma.dripEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'COMPLETED', completedAt: now, nextSendAt: null },
+    });
+    return { outcome: 'completed' };
+  }
+
+  // Launch-relative steps wait for the launch date; re-check on each tick
+  const dueAt = enrollment.nextSendAt ?? getStepSendAt(step, enrollment.createdAt, launchDate);
+  if (!dueAt || dueAt > now) {
+    if (dueAt) {
+      await prisma.dripEnrollment.update({
+        where: { id: enrollment.id },
+        data: { nextSendAt: dueAt },
+      });
+    }
+    return { outcome: 'deferred' };
+  }
+
+  // Pre-order reminders are pointless once the book is out
+  if ('launchOffsetDays' in step.timing && launchDate && launchDate <= now) {
+    return { outcome: await advanceDripEnrollment(enrollment, sequence, now, launchDate, false) };
+  }
+
+  const stopReason = await getDripStopReason(enrollment.email);
+  if (stopReason) {
+    await prisma.dripEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'STOPPED', stopReason, nextSendAt: null },
+    });
+    return { outcome: 'stopped' };
+  }
+
+  const claimed = await prisma.dripEnrollment.updateMany({
+    where: {
+      id: enrollment.id,
+      status: 'ACTIVE',
+      stepIndex: enrollment.stepIndex,
+      nextSendAt: enrollment.nextSendAt,
+    },
+    data: { nextSendAt: new Date(now.getTime() + RETRY_DELAY_MS) },
+  });
+  if (claimed.count === 0) {
+    return { outcome: 'deferred' };
+  }
+
+  const result = await step.send({
+    email: enrollment.email,
+    name: enrollment.name ?? undefined,
+    geo: toGeoRegion(enrollment.geo),
+    launchDate,
+  });
+
+  // RETRY_EXHAUSTED sends stay in the outbox for background retries, so the
+  // step counts as sent
+  if (result.success || result.errorCode === 'RETRY_EXHAUSTED') {
+    const outcome = await advanceDripEnrollment(enrollment, sequence, now, launchDate, true);
+    return { outcome, result };
+  }
+
+  if (result.errorCode === 'SUPPRESSED') {
+    await prisma.dripEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'STOPPED', stopReason: 'suppressed', nextSendAt: null },
+    });
+    return { outcome: 'stopped', result };
+  }
+
+  const attempts = enrollment.attempts + 1;
+  const lastError = (result.error ?? 'Unknown error').slice(0, MAX_ERROR_LENGTH);
+
+  await prisma.dripEnrollment.update({
+    where: { id: enrollment.id },
+    data:
+      attempts >= MAX_STEP_ATTEMPTS
+        ? { attempts, lastError, status: 'STOPPED', stopReason: 'failed', nextSendAt: null }
+        : { attempts, lastError },
+  });
+  return { outcome: 'failed', result };
+}
+
+/**
+ * Send every due drip step (one scheduler tick)
+ *
+ * Safe to run concurrently and as often as you like; each step is sent at
+ * most once.
+ */
+export async function runDripTick(
+  options: { batchSize?: number; sendIntervalMs?: number; now?: Date } = {}
+): Promise<DripTickResult> {
+  const { batchSize = DRIP_TICK_BATCH_SIZE, sendIntervalMs = SEND_INTERVAL_MS, now = new Date() } = options;
+  const result: DripTickResult = { processed: 0, sent: 0, completed: 0, stopped: 0, failed: 0, deferred: 0 };
+
+  const enrollments = await prisma.dripEnrollment.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: [{ nextSendAt: { lte: now } }, { nextSendAt: null }],
+    },
+    orderBy: { nextSendAt: { sort: 'asc', nulls: 'last' } },
+    take: batchSize,
+  });
+
+  for (const enrollment of enrollments) {
+    const { outcome, result: sendResult } = await processDripEnrollment(enrollment, now);
+    result.processed++;
+    result[outcome]++;
+
+    if (sendResult && sendIntervalMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, sendIntervalMs));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,353 @@
+/**
+ * Email Outbox
+ *
+ * Persisted history of every email the site sends, one row per message
+ * with its template, recipient and delivery status. `sendEmailWithRetry`
+ * in `@/lib/email` writes to it; this module owns the bookkeeping.
+ *
+ * Features:
+ * - Failed sends are retried in the background via the durable job queue
+ *   (`email-delivery` queue, handled by `src/jobs/email-delivery.ts`)
+ * - Resend webhook events (delivered / bounced / complained) update status
+ * - Hard-bounced and complaining addresses are suppressed from future sends
+ *
+ * Outbox writes never throw: a database outage must not stop email from
+ * going out, so failures are logged and the send carries on unrecorded.
+ */
+
+import { enqueueJob } from '@/lib/job-queue';
+import { prisma } from '@/lib/prisma';
+
+import type { EmailMessage, EmailMessageStatus, EmailSuppressionReason } from '@prisma/client';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Durable queue name for background email retries
+ */
+export const EMAIL_DELIVERY_QUEUE = 'email-delivery';
+
+/**
+ * Delay before the first background retry (later ones back off in the queue)
+ */
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Max length of stored error messages
+ */
+const MAX_ERROR_LENGTH = 2000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Outbox message creation input
+ */
+export interface CreateEmailMessageInput {
+  template: string;
+  recipient: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternate */
+  text?: string;
+  /** Extra headers (e.g. List-Unsubscribe), resent on background retries */
+  headers?: Record<string, string>;
+  status?: EmailMessageStatus;
+}
+
+/**
+ * Background retry job payload
+ */
+export interface EmailDeliveryJob {
+  messageId: string;
+}
+
+/**
+ * Resend webhook event (the fields we use)
+ *
+ * @see https://resend.com/docs/dashboard/webhooks/event-types
+ */
+export interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    bounce?: {
+      /** "Permanent" for hard bounces, "Transient" for soft bounces */
+      type?: string;
+      message?: string;
+    };
+  };
+}
+
+/**
+ * Outcome of applying a webhook event
+ */
+export interface EmailEventResult {
+  /** Outbox message the event belongs to, if we sent it */
+  messageId: string | null;
+  status: EmailMessageStatus | null;
+  /** Addresses added to the suppression list */
+  suppressed: string[];
+  /** Event type we do not track */
+  ignored: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalise an address for suppression lookups
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Truncate an error for storage
+ */
+function formatError(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+}
+
+// ============================================================================
+// SUPPRESSION
+// ============================================================================
+
+/**
+ * Whether an address is on the suppression list
+ *
+ * Returns false if the lookup fails, so sends are not blocked by an outage.
+ */
+export async function isEmailSuppressed(email: string): Promise<boolean> {
+  try {
+    const suppression = await prisma.emailSuppression.findUnique({
+      where: { email: normalizeEmail(email) },
+      select: { email: true },
+    });
+    return suppression !== null;
+  } catch (error) {
+    console.error('[Email Outbox] Suppression lookup failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Add an address to the suppression list (keeps the first reason)
+ */
+export async function suppressEmail(
+  email: string,
+  reason: EmailSuppressionReason,
+  providerMessageId?: string
+): Promise<void> {
+  const normalized = normalizeEmail(email);
+
+  await prisma.emailSuppression.upsert({
+    where: { email: normalized },
+    create: { email: normalized, reason, providerMessageId },
+    update: {},
+  });
+}
+
+// ============================================================================
+// OUTBOX
+// ============================================================================
+
+/**
+ * Record a message before sending it
+ *
+ * @returns Message, or null if it could not be stored
+ */
+export async function createEmailMessage(
+  input: CreateEmailMessageInput
+): Promise<EmailMessage | null> {
+  try {
+    return await prisma.emailMessage.create({
+      data: {
+        template: input.template,
+        recipient: input.recipient,
+        subject: input.subject,
+        html: input.html,
+        text: input.text,
+        headers: input.headers,
+        status: input.status,
+      },
+    });
+  } catch (error) {
+    console.error('[Email Outbox] Failed to record message:', error);
+    return null;
+  }
+}
+
+/**
+ * Record a message accepted by Resend
+ */
+export async function recordEmailSent(
+  messageId: string | undefined,
+  providerMessageId: string | undefined,
+  attempts: number
+): Promise<void> {
+  if (!messageId) {
+    return;
+  }
+
+  try {
+    await prisma.emailMessage.update({
+      where: { id: messageId },
+      data: {
+        status: 'SENT',
+        providerMessageId,
+        sentAt: new Date(),
+        attempts: { increment: attempts },
+        lastError: null,
+      },
+    });
+  } catch (error) {
+    console.error(`[Email Outbox] Failed to record send of ${messageId}:`, error);
+  }
+}
+
+/**
+ * Record failed send attempts
+ */
+export async function recordEmailFailure(
+  messageId: string | undefined,
+  error: unknown,
+  attempts: number
+): Promise<void> {
+  if (!messageId) {
+    return;
+  }
+
+  try {
+    await prisma.emailMessage.update({
+      where: { id: messageId },
+      data: {
+        status: 'FAILED',
+        attempts: { increment: attempts },
+        lastError: formatError(error),
+      },
+    });
+  } catch (updateError) {
+    console.error(`[Email Outbox] Failed to record failure of ${messageId}:`, updateError);
+  }
+}
+
+/**
+ * Queue a failed message for background retry
+ *
+ * One job per message; the job queue handles backoff and dead-lettering.
+ */
+export async function scheduleEmailRetry(messageId: string | undefined): Promise<void> {
+  if (!messageId) {
+    return;
+  }
+
+  try {
+    const payload: EmailDeliveryJob = { messageId };
+    await enqueueJob(EMAIL_DELIVERY_QUEUE, { ...payload }, {
+      idempotencyKey: messageId,
+      delayMs: RETRY_DELAY_MS,
+    });
+  } catch (error) {
+    console.error(`[Email Outbox] Failed to schedule retry of ${messageId}:`, error);
+  }
+}
+
+/**
+ * Load an outbox message
+ */
+export async function getEmailMessage(messageId: string): Promise<EmailMessage | null> {
+  return prisma.emailMessage.findUnique({ where: { id: messageId } });
+}
+
+/**
+ * Mark a message as suppressed instead of sending it
+ */
+export async function markEmailSuppressed(messageId: string): Promise<void> {
+  await prisma.emailMessage.update({
+    where: { id: messageId },
+    data: { status: 'SUPPRESSED' },
+  });
+}
+
+// ============================================================================
+// WEBHOOK EVENTS
+// ============================================================================
+
+/**
+ * Apply a Resend webhook event to the outbox
+ *
+ * - `email.delivered` moves a sent message to DELIVERED
+ * - `email.bounced` marks it BOUNCED and suppresses the recipient unless the
+ *   bounce is transient
+ * - `email.complained` marks it COMPLAINED and suppresses the recipient
+ *
+ * Events for messages not in the outbox (sent before it existed) still
+ * suppress their recipients. Other event types are ignored.
+ */
+export async function applyEmailEvent(event: ResendWebhookEvent): Promise<EmailEventResult> {
+  const providerMessageId = event.data.email_id;
+  const occurredAt = new Date(event.created_at);
+
+  let status: EmailMessageStatus;
+  let suppressionReason: EmailSuppressionReason | null = null;
+
+  switch (event.type) {
+    case 'email.delivered':
+      status = 'DELIVERED';
+      break;
+    case 'email.bounced':
+      status = 'BOUNCED';
+      if (event.data.bounce?.type !== 'Transient') {
+        suppressionReason = 'HARD_BOUNCE';
+      }
+      break;
+    case 'email.complained':
+      status = 'COMPLAINED';
+      suppressionReason = 'COMPLAINT';
+      break;
+    default:
+      return { messageId: null, status: null, suppressed: [], ignored: true };
+  }
+
+  const message = await prisma.emailMessage.findUnique({
+    where: { providerMessageId },
+  });
+
+  // A late "delivered" must not overwrite a bounce or complaint
+  let currentStatus: EmailMessageStatus | null = message?.status ?? null;
+  if (message && (status !== 'DELIVERED' || message.status === 'SENT')) {
+    await prisma.emailMessage.update({
+      where: { id: message.id },
+      data: {
+        status,
+        lastEventAt: occurredAt,
+        ...(status === 'DELIVERED' && { deliveredAt: occurredAt }),
+        ...(status === 'BOUNCED' && { lastError: event.data.bounce?.message ?? null }),
+      },
+    });
+    currentStatus = status;
+  }
+
+  const suppressed: string[] = [];
+  if (suppressionReason) {
+    const recipients = message ? [message.recipient] : (event.data.to ?? []);
+    for (const recipient of recipients) {
+      await suppressEmail(recipient, suppressionReason, providerMessageId);
+      suppressed.push(normalizeEmail(recipient));
+    }
+  }
+
+  return {
+    messageId: message?.id ?? null,
+    status: currentStatus,
+    suppressed,
+    ignored: false,
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Email Template Registry
+ *
+ * Typed registry of the React email templates in `src/components/email`.
+ * Each template declares its props, subject line and component; rendering
+ * wraps it in the shared branded layout and derives a plain-text
+ * alternate from the HTML.
+ *
+ * Senders in `@/lib/email` render through `renderEmailTemplate`; the
+ * dev-only gallery at `/admin/emails` renders every template with the
+ * fixtures in `src/components/email/fixtures.ts`.
+ */
+
+import { createElement, type ComponentType } from 'react';
+
+import { EmailLayout } from '@/components/email/EmailComponents';
+import { emailTemplateFixtures } from '@/components/email/fixtures';
+import { AccountDeletionEmail, type AccountDeletionEmailProps } from '@/components/email/templates/AccountDeletionEmail';
+import { BonusPackEmail, type BonusPackEmailProps } from '@/components/email/templates/BonusPackEmail';
+import {
+  BonusPackLegacyEmail,
+  type BonusPackLegacyEmailProps,
+} from '@/components/email/templates/BonusPackLegacyEmail';
+import { BulkOrderEmail, type BulkOrderEmailProps } from '@/components/email/templates/BulkOrderEmail';
+import { ExcerptEmail, type ExcerptEmailProps } from '@/components/email/templates/ExcerptEmail';
+import {
+  FrameworkTeaserEmail,
+  type FrameworkTeaserEmailProps,
+} from '@/components/email/templates/FrameworkTeaserEmail';
+import { MagicLinkEmail, type MagicLinkEmailProps } from '@/components/email/templates/MagicLinkEmail';
+import { MediaRequestEmail, type MediaRequestEmailProps } from '@/components/email/templates/MediaRequestEmail';
+import {
+  NewsletterConfirmationEmail,
+  type NewsletterConfirmationEmailProps,
+} from '@/components/email/templates/NewsletterConfirmationEmail';
+import { NewsletterIssueEmail, type NewsletterIssueEmailProps } from '@/components/email/templates/NewsletterIssueEmail';
+import {
+  NewsletterWelcomeEmail,
+  type NewsletterWelcomeEmailProps,
+} from '@/components/email/templates/NewsletterWelcomeEmail';
+import {
+  OrgAutoJoinDigestEmail,
+  type OrgAutoJoinDigestEmailProps,
+} from '@/components/email/templates/OrgAutoJoinDigestEmail';
+import {
+  OrgDomainUnverifiedEmail,
+  type OrgDomainUnverifiedEmailProps,
+} from '@/components/email/templates/OrgDomainUnverifiedEmail';
+import {
+  OrgDomainWarningEmail,
+  type OrgDomainWarningEmailProps,
+} from '@/components/email/templates/OrgDomainWarningEmail';
+import { OrgInviteEmail, type OrgInviteEmailProps } from '@/components/email/templates/OrgInviteEmail';
+import {
+  PreorderReminderEmail,
+  type PreorderReminderEmailProps,
+} from '@/components/email/templates/PreorderReminderEmail';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A registered template
+ */
+export interface EmailTemplateDefinition<P> {
+  /** Display name for the preview gallery */
+  label: string;
+  subject: (props: P) => string;
+  component: ComponentType<P>;
+}
+
+/**
+ * Layout options applied around every template
+ */
+export interface EmailRenderOptions {
+  /** Recipient address, for the default unsubscribe link */
+  recipient: string;
+  /** Footer unsubscribe link; defaults to the email form */
+  unsubscribeUrl?: string;
+  /** Hidden inbox preview line */
+  previewText?: string;
+}
+
+/**
+ * A rendered email, ready to send
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  /** Plain-text alternate */
+  text: string;
+}
+
+/**
+ * A template rendered with its fixture, for the gallery
+ */
+export interface EmailTemplatePreview extends RenderedEmail {
+  name: EmailTemplateName;
+  label: string;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Identity helper that checks a definition against its props type
+ */
+function defineTemplate<P>(definition: EmailTemplateDefinition<P>): EmailTemplateDefinition<P> {
+  return definition;
+}
+
+export const emailTemplates = {
+  excerpt: defineTemplate<ExcerptEmailProps>({
+    label: 'Excerpt',
+    subject: () => 'Your AI-Born Excerpt is Ready',
+    component: ExcerptEmail,
+  }),
+  'bonus-pack': defineTemplate<BonusPackEmailProps>({
+    label: 'Bonus Pack',
+    subject: () => 'Your AI-Born Pre-order Bonus Pack is Ready',
+    component: BonusPackEmail,
+  }),
+  'bonus-pack-legacy': defineTemplate<BonusPackLegacyEmailProps>({
+    label: 'Bonus Pack (legacy)',
+    subject: () => 'Your AI-Born Pre-order Bonus Pack',
+    component: BonusPackLegacyEmail,
+  }),
+  'org-invite': defineTemplate<OrgInviteEmailProps>({
+    label: 'Organisation Invite',
+    subject: ({ orgName }) => `Bulk Order Invitation: AI-Born (${orgName})`,
+    component: OrgInviteEmail,
+  }),
+  'org-auto-join-digest': defineTemplate<OrgAutoJoinDigestEmailProps>({
+    label: 'Organisation Auto-Join Digest',
+    subject: ({ orgName, totalCount }) =>
+      `${totalCount === 1 ? '1 new member' : `${totalCount} new members`} joined ${orgName}`,
+    component: OrgAutoJoinDigestEmail,
+  }),
+  'org-domain-warning': defineTemplate<OrgDomainWarningEmailProps>({
+    label: 'Organisation Domain Warning',
+    subject: ({ domain, final }) =>
+      `${final ? 'Final notice: ' : 'Action needed: '}${domain} will be unverified`,
+    component: OrgDomainWarningEmail,
+  }),
+  'org-domain-unverified': defineTemplate<OrgDomainUnverifiedEmailProps>({
+    label: 'Organisation Domain Unverified',
+    subject: ({ domain }) => `${domain} is no longer verified`,
+    component: OrgDomainUnverifiedEmail,
+  }),
+  'bulk-order': defineTemplate<BulkOrderEmailProps>({
+    label: 'Bulk Order Inquiry',
+    subject: ({ company, quantity }) => `Bulk Order Inquiry Received: ${company} (${quantity} copies)`,
+    component: BulkOrderEmail,
+  }),
+  'magic-link': defineTemplate<MagicLinkEmailProps>({
+    label: 'Magic Link',
+    subject: () => 'Your AI-Born Sign-in Link',
+    component: MagicLinkEmail,
+  }),
+  'media-request': defineTemplate<MediaRequestEmailProps>({
+    label: 'Media Request (PR team)',
+    subject: ({ requestType, outlet }) => `Media Request: ${requestType} from ${outlet}`,
+    component: MediaRequestEmail,
+  }),
+  'newsletter-confirmation': defineTemplate<NewsletterConfirmationEmailProps>({
+    label: 'Newsletter Confirmation',
+    subject: () => 'Confirm Your AI-Born Newsletter Subscription',
+    component: NewsletterConfirmationEmail,
+  }),
+  'newsletter-welcome': defineTemplate<NewsletterWelcomeEmailProps>({
+    label: 'Newsletter Welcome',
+    subject: () => 'Welcome to AI-Born Updates',
+    component: NewsletterWelcomeEmail,
+  }),
+  'newsletter-issue': defineTemplate<NewsletterIssueEmailProps>({
+    label: 'Newsletter Issue',
+    subject: ({ subject }) => subject,
+    component: NewsletterIssueEmail,
+  }),
+  'framework-teaser': defineTemplate<FrameworkTeaserEmailProps>({
+    label: 'Drip: Framework Teaser',
+    subject: () => 'Inside AI-Born: The Frameworks Behind the Excerpt',
+    component: FrameworkTeaserEmail,
+  }),
+  'preorder-reminder': defineTemplate<PreorderReminderEmailProps>({
+    label: 'Drip: Launch Week Pre-order Reminder',
+    subject: () => 'AI-Born Launches This Week: Pre-order Your Copy',
+    component: PreorderReminderEmail,
+  }),
+  'account-deletion': defineTemplate<AccountDeletionEmailProps>({
+    label: 'Account Deletion',
+    subject: () => 'AI-Born Account Deletion Confirmation',
+    component: AccountDeletionEmail,
+  }),
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type EmailTemplateProps<N extends EmailTemplateName> =
+  (typeof emailTemplates)[N] extends EmailTemplateDefinition<infer P> ? P : never;
+
+// ============================================================================
+// PLAIN TEXT
+// ============================================================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode the HTML entities React emits
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Derive a plain-text alternate from rendered email HTML
+ *
+ * Keeps paragraph breaks and list bullets, and writes links as
+ * "label (url)" so every call to action survives.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<head[\s\S]*?<\/head>/gi, '')
+    .replace(/<div data-preheader[^>]*>[\s\S]*?<\/div>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const linkText = label.replace(/<[^>]+>/g, '').trim();
+      const url = decodeEntities(href);
+      const plainUrl = url.replace(/^(mailto|tel):/, '');
+      if (!linkText) return url;
+      return [url, plainUrl].includes(decodeEntities(linkText)) ? linkText : `${linkText} (${url})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|h[1-6]|div|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+    .replace(/<\/td>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render a template in the branded layout
+ *
+ * @returns Subject, HTML document and plain-text alternate
+ */
+export async function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  props: EmailTemplateProps<N>,
+  options: EmailRenderOptions
+): Promise<RenderedEmail> {
+  const template = emailTemplates[name] as unknown as EmailTemplateDefinition<EmailTemplateProps<N>>;
+  const content = createElement(template.component as ComponentType<object>, props as object);
+
+  // Loaded lazily: react-dom/server cannot be a static import in the app router
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const html = `<!DOCTYPE html>${renderToStaticMarkup(
+    createElement(EmailLayout, options, content)
+  )}`;
+
+  return {
+    subject: template.subject(props),
+    html,
+    text: htmlToText(html),
+  };
+}
+
+/**
+ * Render every template with its fixture props
+ * Used by the `/admin/emails` gallery and the template snapshot tests
+ */
+export async function renderEmailTemplatePreviews(): Promise<EmailTemplatePreview[]> {
+  const names = Object.keys(emailTemplates) as EmailTemplateName[];
+  return Promise.all(names.map((name) => renderEmailTemplatePreview(name)));
+}
+
+/**
+ * Render one template with its fixture props
+ */
+async function renderEmailTemplatePreview<N extends EmailTemplateName>(name: N): Promise<EmailTemplatePreview> {
+  const rendered = await renderEmailTemplate(name, emailTemplateFixtures[name], {
+    recipient: 'reader@example.com',
+    previewText: name === 'newsletter-issue' ? 'What changed in chapter 3' : undefined,
+  });
+
+  return { name, label: emailTemplates[name].label, ...rendered };
+}
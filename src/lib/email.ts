@@ -9,11 +9,34 @@
  * - Comprehensive error handling
  * - Email event logging
  * - CAN-SPAM compliant unsubscribe links
+ * - React templates with plain-text alternates (see `@/lib/email-templates`)
+ * - Persisted outbox with background retries and bounce suppression
+ *   (see `@/lib/email-outbox`)
  */
 
 import { Resend } from 'resend';
 import { checkRateLimit } from './rate-limit';
 
+import type { BonusPackDownloadUrls } from '@/components/email/templates/BonusPackEmail';
+import type { BulkOrderEmailProps } from '@/components/email/templates/BulkOrderEmail';
+import {
+  createEmailMessage,
+  getEmailMessage,
+  isEmailSuppressed,
+  markEmailSuppressed,
+  recordEmailFailure,
+  recordEmailSent,
+  scheduleEmailRetry,
+  type ResendWebhookEvent,
+} from '@/lib/email-outbox';
+import {
+  renderEmailTemplate,
+  type EmailTemplateName,
+  type EmailTemplateProps,
+  type RenderedEmail,
+} from '@/lib/email-templates';
+import { generateNewsletterUnsubscribeToken } from '@/lib/tokens';
+
 // ============================================================================
 // Configuration & Types
 // ============================================================================
@@ -60,13 +83,16 @@ export type EmailErrorCode =
   | 'RATE_LIMIT_ERROR'
   | 'SEND_ERROR'
   | 'RETRY_EXHAUSTED'
-  | 'VALIDATION_ERROR';
+  | 'VALIDATION_ERROR'
+  | 'SUPPRESSED';
 
 export interface EmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
   errorCode?: EmailErrorCode;
+  /** Outbox message queued for background retry (RETRY_EXHAUSTED only) */
+  outboxMessageId?: string;
 }
 
 export interface RetryConfig {
@@ -96,7 +122,7 @@ export interface EmailEvent {
   timestamp: string;
   recipient: string;
   emailType: string;
-  status: 'sent' | 'failed' | 'rate_limited';
+  status: 'sent' | 'failed' | 'rate_limited' | 'suppressed';
   messageId?: string;
   error?: string;
 }
@@ -115,6 +141,8 @@ function logEmailEvent(event: EmailEvent): void {
     console.error('[Email Service] Failed:', logEntry);
   } else if (event.status === 'rate_limited') {
     console.warn('[Email Service] Rate Limited:', logEntry);
+  } else if (event.status === 'suppressed') {
+    console.warn('[Email Service] Suppressed:', logEntry);
   } else {
     console.info('[Email Service] Sent:', logEntry);
   }
@@ -168,32 +196,100 @@ function checkEmailRateLimit(recipient: string): boolean {
   return result.allowed;
 }
 
+/**
+ * Send one email through Resend
+ *
+ * @returns Resend email ID
+ * @throws Error if Resend rejects the send
+ */
+async function sendViaResend(
+  client: Resend,
+  to: string,
+  email: { subject: string; html: string; text?: string },
+  headers?: Record<string, string>
+): Promise<string | undefined> {
+  const { data, error } = await client.emails.send({
+    from: EMAIL_FROM,
+    to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    replyTo: EMAIL_REPLY_TO,
+    headers,
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Unknown Resend API error');
+  }
+
+  return data?.id;
+}
+
+/**
+ * Result for a send skipped because the recipient is suppressed
+ */
+function suppressedResult(to: string, emailType: string): EmailResult {
+  logEmailEvent({
+    timestamp: new Date().toISOString(),
+    recipient: to,
+    emailType,
+    status: 'suppressed',
+    error: 'Recipient previously hard-bounced or complained',
+  });
+
+  return {
+    success: false,
+    error: 'Recipient address is suppressed',
+    errorCode: 'SUPPRESSED',
+  };
+}
+
 /**
  * Send email with retry logic
+ *
+ * Every send is recorded in the outbox. If all in-call retries fail, the
+ * message is queued for background retry.
+ *
+ * @param email - Rendered subject, HTML and plain-text alternate
+ * @param headers - Extra headers (e.g. List-Unsubscribe), kept for retries
  */
 async function sendEmailWithRetry(
   to: string,
-  subject: string,
-  html: string,
+  email: RenderedEmail,
   emailType: string,
-  config: RetryConfig = DEFAULT_RETRY_CONFIG
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  headers?: Record<string, string>
 ): Promise<EmailResult> {
   const client = getResendClient();
   let lastError: Error | null = null;
 
+  // Hard-bounced and complaining addresses are never sent to again
+  if (await isEmailSuppressed(to)) {
+    await createEmailMessage({
+      template: emailType,
+      recipient: to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers,
+      status: 'SUPPRESSED',
+    });
+    return suppressedResult(to, emailType);
+  }
+
+  const message = await createEmailMessage({
+    template: emailType,
+    recipient: to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    headers,
+  });
+
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
     try {
-      const { data, error } = await client.emails.send({
-        from: EMAIL_FROM,
-        to,
-        subject,
-        html,
-        replyTo: EMAIL_REPLY_TO,
-      });
-
-      if (error) {
-        throw new Error(error.message || 'Unknown Resend API error');
-      }
+      const messageId = await sendViaResend(client, to, email, headers);
+      await recordEmailSent(message?.id, messageId, attempt + 1);
 
       // Success
       logEmailEvent({
@@ -201,12 +297,12 @@ async function sendEmailWithRetry(
         recipient: to,
         emailType,
         status: 'sent',
-        messageId: data?.id,
+        messageId,
       });
 
       return {
         success: true,
-        messageId: data?.id,
+        messageId,
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
@@ -225,8 +321,11 @@ async function sendEmailWithRetry(
     }
   }
 
-  // All retries exhausted
+  // All retries exhausted - hand over to the background sender
   const errorMessage = lastError?.message || 'Unknown error';
+  await recordEmailFailure(message?.id, lastError, config.maxRetries + 1);
+  await scheduleEmailRetry(message?.id);
+
   logEmailEvent({
     timestamp: new Date().toISOString(),
     recipient: to,
@@ -239,82 +338,84 @@ async function sendEmailWithRetry(
     success: false,
     error: errorMessage,
     errorCode: 'RETRY_EXHAUSTED',
+    outboxMessageId: message?.id,
   };
 }
 
 // ============================================================================
-// Email Templates
+// Outbox Delivery
 // ============================================================================
 
 /**
- * Get unsubscribe footer (CAN-SPAM compliant)
+ * Retry a failed outbox message once
+ * Called by the background sender (`src/jobs/email-delivery.ts`)
+ *
+ * Messages that are no longer FAILED (sent meanwhile, or missing) are
+ * reported as successful so the job completes.
  */
-function getUnsubscribeFooter(email: string): string {
-  const unsubscribeUrl = `${SITE_URL}/unsubscribe?email=${encodeURIComponent(email)}`;
-
-  return `
-    <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 12px; line-height: 1.5;">
-      <p>
-        <strong>AI-Born</strong><br />
-        Mic Press, LLC<br />
-        New York, NY
-      </p>
-      <p>
-        You received this email because you requested content from ai-born.org.<br />
-        <a href="${unsubscribeUrl}" style="color: #00d9ff; text-decoration: underline;">Unsubscribe</a> |
-        <a href="${SITE_URL}/privacy" style="color: #00d9ff; text-decoration: underline;">Privacy Policy</a>
-      </p>
-    </div>
-  `;
+export async function retryEmailMessage(messageId: string): Promise<EmailResult> {
+  const message = await getEmailMessage(messageId);
+
+  if (!message || message.status !== 'FAILED') {
+    return {
+      success: true,
+      messageId: message?.providerMessageId ?? undefined,
+    };
+  }
+
+  if (await isEmailSuppressed(message.recipient)) {
+    await markEmailSuppressed(message.id);
+    return suppressedResult(message.recipient, message.template);
+  }
+
+  try {
+    const providerMessageId = await sendViaResend(
+      getResendClient(),
+      message.recipient,
+      { subject: message.subject, html: message.html, text: message.text ?? undefined },
+      (message.headers as Record<string, string> | null) ?? undefined
+    );
+    await recordEmailSent(message.id, providerMessageId, 1);
+
+    logEmailEvent({
+      timestamp: new Date().toISOString(),
+      recipient: message.recipient,
+      emailType: message.template,
+      status: 'sent',
+      messageId: providerMessageId,
+    });
+
+    return { success: true, messageId: providerMessageId };
+  } catch (error) {
+    await recordEmailFailure(message.id, error, 1);
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: 'SEND_ERROR',
+    };
+  }
 }
 
 /**
- * Base email template with branding
+ * Verify a Resend webhook request (Svix signature headers)
+ *
+ * @param payload - Raw request body
+ * @param headers - `svix-id`, `svix-timestamp` and `svix-signature` values
+ * @param webhookSecret - Signing secret from the Resend dashboard
+ * @returns Parsed event
+ * @throws Error if the signature is invalid or the timestamp is stale
  */
-function getEmailTemplate(content: string, recipient: string): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>AI-Born</title>
-</head>
-<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #0a0a0f; color: #fafafa;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0a0a0f;">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #1a1a1f; border-radius: 16px; overflow: hidden;">
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <h1 style="margin: 0; font-size: 32px; font-weight: 700; color: #00d9ff; letter-spacing: -0.5px;">
-                AI-BORN
-              </h1>
-              <p style="margin: 8px 0 0; font-size: 14px; color: #9ca3af;">
-                The Machine Core, the Human Cortex, and the Next Economy of Being
-              </p>
-            </td>
-          </tr>
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px 40px;">
-              ${content}
-            </td>
-          </tr>
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 0 40px 40px;">
-              ${getUnsubscribeFooter(recipient)}
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
+export function verifyResendWebhook(
+  payload: string,
+  headers: { id: string; timestamp: string; signature: string },
+  webhookSecret: string
+): ResendWebhookEvent {
+  return getResendClient().webhooks.verify({
+    payload,
+    headers,
+    webhookSecret,
+  }) as ResendWebhookEvent;
 }
 
 // ============================================================================
@@ -344,44 +445,13 @@ export async function sendExcerptEmail(email: string): Promise<EmailResult> {
     };
   }
 
-  const excerptUrl = `${SITE_URL}/assets/ai-born-excerpt.pdf`;
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Your Free Excerpt is Ready
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Thank you for your interest in <strong>AI-Born</strong>. Your complimentary chapter is ready to download.
-    </p>
-
-    <p style="margin: 0 0 24px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      This excerpt introduces the Five Planes framework—the architectural blueprint for organisations where autonomous agents execute, learn, and adapt, whilst humans provide intent, judgement, and taste.
-    </p>
-
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center">
-          <a href="${excerptUrl}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
-            Download Your Excerpt
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      Prefer to pre-order now? The book is available in hardcover, eBook, and audiobook formats from <a href="${SITE_URL}/#retailers" style="color: #00d9ff; text-decoration: underline;">all major retailers</a>.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
-
-  return sendEmailWithRetry(
-    email,
-    'Your AI-Born Excerpt is Ready',
-    html,
-    'excerpt'
+  const rendered = await renderEmailTemplate(
+    'excerpt',
+    { downloadUrl: `${SITE_URL}/assets/ai-born-excerpt.pdf` },
+    { recipient: email }
   );
+
+  return sendEmailWithRetry(email, rendered, 'excerpt');
 }
 
 /**
@@ -391,15 +461,7 @@ export async function sendExcerptEmail(email: string): Promise<EmailResult> {
 export async function sendBonusPackEmail(
   email: string,
   claimId: string,
-  downloadUrls: {
-    fullPack: string;
-    agentCharterPack: string;
-    coiDiagnostic: string;
-    vpAgentTemplates: string;
-    subAgentLadders: string;
-    escalationProtocols: string;
-    implementationGuide: string;
-  }
+  downloadUrls: BonusPackDownloadUrls
 ): Promise<EmailResult> {
   // Validate inputs
   if (!email || !email.includes('@')) {
@@ -436,98 +498,9 @@ export async function sendBonusPackEmail(
     };
   }
 
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Your Pre-order Bonus Pack is Ready
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Thank you for pre-ordering <strong>AI-Born</strong>. Your exclusive Agent Charter Pack and Cognitive Overhead Index diagnostic are now available for download.
-    </p>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #00d9ff;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #00d9ff;">
-        What's Included:
-      </h3>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-        <li><strong>Agent Charter Pack:</strong> VP-agent templates, sub-agent ladders, escalation/override protocols</li>
-        <li><strong>Cognitive Overhead Index (COI):</strong> Interactive diagnostic tool (Excel/Google Sheets)</li>
-        <li><strong>VP-Agent Templates:</strong> Ready-to-use templates for top-level autonomous agents</li>
-        <li><strong>Sub-Agent Ladders:</strong> Hierarchical organization patterns and delegation protocols</li>
-        <li><strong>Escalation Protocols:</strong> Human oversight frameworks and emergency intervention patterns</li>
-        <li><strong>Implementation Guide:</strong> Step-by-step setup and deployment instructions</li>
-      </ul>
-    </div>
-
-    <!-- Primary CTA: Download Full Pack -->
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center">
-          <a href="${downloadUrls.fullPack}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; margin-bottom: 12px;">
-            Download Complete Bonus Pack
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <div style="margin: 24px 0; padding: 16px; background-color: #1a1a1f; border-radius: 8px;">
-      <h3 style="margin: 0 0 12px; font-size: 16px; font-weight: 600; color: #fafafa;">
-        Or download individual components:
-      </h3>
-      <table width="100%" cellpadding="4" cellspacing="0">
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.agentCharterPack}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">Agent Charter Pack (PDF)</a>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.coiDiagnostic}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">COI Diagnostic Tool (Excel)</a>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.vpAgentTemplates}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">VP-Agent Templates (PDF)</a>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.subAgentLadders}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">Sub-Agent Ladders (PDF)</a>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.escalationProtocols}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">Escalation & Override Protocols (PDF)</a>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 0;">
-            <a href="${downloadUrls.implementationGuide}" style="color: #00d9ff; text-decoration: underline; font-size: 14px;">Implementation Guide (PDF)</a>
-          </td>
-        </tr>
-      </table>
-    </div>
-
-    <div style="margin: 24px 0; padding: 16px; background-color: #1a1a1f; border-radius: 8px; border-left: 4px solid #ff9f40;">
-      <p style="margin: 0; font-size: 14px; line-height: 1.6; color: #d1d5db;">
-        <strong style="color: #ff9f40;">Important:</strong> These download links expire in 24 hours for security. Save the files to your device now. If your links expire, you can request new ones by contacting support.
-      </p>
-    </div>
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      <strong>Claim ID:</strong> ${claimId}<br />
-      Questions? Reply to this email or visit our <a href="${SITE_URL}/faq" style="color: #00d9ff; text-decoration: underline;">FAQ</a>.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
+  const rendered = await renderEmailTemplate('bonus-pack', { claimId, downloadUrls }, { recipient: email });
 
-  return sendEmailWithRetry(
-    email,
-    'Your AI-Born Pre-order Bonus Pack is Ready',
-    html,
-    'bonus_pack'
-  );
+  return sendEmailWithRetry(email, rendered, 'bonus_pack');
 }
 
 /**
@@ -540,60 +513,9 @@ export async function sendBonusPackEmailLegacy(
 ): Promise<EmailResult> {
   // This is the old implementation for backwards compatibility
   // It will be removed once all callers are updated
-  const bonusPackUrl = `${SITE_URL}/assets/ai-born-bonus-pack.zip`;
-  const coiToolUrl = `${SITE_URL}/assets/cognitive-overhead-index.xlsx`;
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Your Pre-order Bonus Pack is Here
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Thank you for pre-ordering <strong>AI-Born</strong>. Your exclusive Agent Charter Pack and Cognitive Overhead Index diagnostic are ready for download.
-    </p>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #00d9ff;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #00d9ff;">
-        What's Included:
-      </h3>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-        <li><strong>Agent Charter Pack:</strong> VP-agent templates, sub-agent ladders, escalation/override protocols</li>
-        <li><strong>Cognitive Overhead Index (COI):</strong> Interactive diagnostic tool (Excel/Google Sheets)</li>
-        <li><strong>Implementation Guide:</strong> Step-by-step setup instructions</li>
-      </ul>
-    </div>
-
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center">
-          <a href="${bonusPackUrl}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; margin-bottom: 12px;">
-            Download Agent Charter Pack
-          </a>
-        </td>
-      </tr>
-      <tr>
-        <td align="center" style="padding-top: 12px;">
-          <a href="${coiToolUrl}" style="display: inline-block; padding: 16px 32px; background-color: #1a1a1f; border: 2px solid #00d9ff; color: #00d9ff; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
-            Download COI Diagnostic Tool
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      <strong>Order ID:</strong> ${orderId}<br />
-      Questions? Reply to this email or visit our <a href="${SITE_URL}/faq" style="color: #00d9ff; text-decoration: underline;">FAQ</a>.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
+  const rendered = await renderEmailTemplate('bonus-pack-legacy', { orderId }, { recipient: email });
 
-  return sendEmailWithRetry(
-    email,
-    'Your AI-Born Pre-order Bonus Pack',
-    html,
-    'bonus_pack'
-  );
+  return sendEmailWithRetry(email, rendered, 'bonus_pack');
 }
 
 /**
@@ -639,42 +561,110 @@ export async function sendOrgInviteEmail(
     };
   }
 
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Bulk Order Invitation from ${orgName}
-    </h2>
+  const rendered = await renderEmailTemplate('org-invite', { orgName, inviteLink }, { recipient: email });
 
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      You've been invited to participate in a bulk pre-order of <strong>AI-Born</strong> coordinated by ${orgName}.
-    </p>
+  return sendEmailWithRetry(email, rendered, 'org_invite');
+}
 
-    <p style="margin: 0 0 24px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      To support NYT bestseller list eligibility, this order is being distributed across multiple retailers and locations. Click below to select your preferred retailer and complete your purchase.
-    </p>
+/**
+ * Send organisation auto-join digest email
+ * Lists members who joined an organisation through its verified domain
+ */
+export async function sendOrgAutoJoinDigestEmail(
+  email: string,
+  props: EmailTemplateProps<'org-auto-join-digest'>
+): Promise<EmailResult> {
+  // Validate inputs
+  if (!email || !email.includes('@')) {
+    return {
+      success: false,
+      error: 'Invalid email address',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
 
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center">
-          <a href="${inviteLink}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
-            View Order Details
-          </a>
-        </td>
-      </tr>
-    </table>
+  if (props.members.length === 0) {
+    return {
+      success: false,
+      error: 'No members to report',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
 
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      This invitation expires in 7 days. Questions? Contact your organisation coordinator or reply to this email.
-    </p>
-  `;
+  // Check rate limit
+  if (!checkEmailRateLimit(email)) {
+    return {
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      errorCode: 'RATE_LIMIT_ERROR',
+    };
+  }
 
-  const html = getEmailTemplate(content, email);
+  const rendered = await renderEmailTemplate('org-auto-join-digest', props, { recipient: email });
 
-  return sendEmailWithRetry(
-    email,
-    `Bulk Order Invitation: AI-Born (${orgName})`,
-    html,
-    'org_invite'
-  );
+  return sendEmailWithRetry(email, rendered, 'org_auto_join_digest');
+}
+
+/**
+ * Send organisation domain warning email
+ * Sent to owners while a verified domain's TXT record is missing
+ */
+export async function sendOrgDomainWarningEmail(
+  email: string,
+  props: EmailTemplateProps<'org-domain-warning'>
+): Promise<EmailResult> {
+  // Validate inputs
+  if (!email || !email.includes('@')) {
+    return {
+      success: false,
+      error: 'Invalid email address',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
+
+  // Check rate limit
+  if (!checkEmailRateLimit(email)) {
+    return {
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      errorCode: 'RATE_LIMIT_ERROR',
+    };
+  }
+
+  const rendered = await renderEmailTemplate('org-domain-warning', props, { recipient: email });
+
+  return sendEmailWithRetry(email, rendered, 'org_domain_warning');
+}
+
+/**
+ * Send organisation domain unverified email
+ * Sent to owners when re-verification revokes a domain
+ */
+export async function sendOrgDomainUnverifiedEmail(
+  email: string,
+  props: EmailTemplateProps<'org-domain-unverified'>
+): Promise<EmailResult> {
+  // Validate inputs
+  if (!email || !email.includes('@')) {
+    return {
+      success: false,
+      error: 'Invalid email address',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
+
+  // Check rate limit
+  if (!checkEmailRateLimit(email)) {
+    return {
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      errorCode: 'RATE_LIMIT_ERROR',
+    };
+  }
+
+  const rendered = await renderEmailTemplate('org-domain-unverified', props, { recipient: email });
+
+  return sendEmailWithRetry(email, rendered, 'org_domain_unverified');
 }
 
 /**
@@ -683,15 +673,7 @@ export async function sendOrgInviteEmail(
  */
 export async function sendBulkOrderEmail(
   email: string,
-  data: {
-    name: string;
-    company: string;
-    quantity: number;
-    format?: string;
-    distributionStrategy?: string;
-    timeline?: string;
-    inquiryId: string;
-  }
+  data: Omit<BulkOrderEmailProps, 'email'>
 ): Promise<EmailResult> {
   // Validate inputs
   if (!email || !email.includes('@')) {
@@ -719,96 +701,9 @@ export async function sendBulkOrderEmail(
     };
   }
 
-  const isNYTEligible = data.distributionStrategy === 'multi-store';
-  const formatLabel = data.format ? data.format.charAt(0).toUpperCase() + data.format.slice(1) : 'Hardcover';
-  const timelineLabel = data.timeline
-    ? data.timeline.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase())
-    : 'Flexible';
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Bulk Order Inquiry Received
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Thank you for your interest in bulk orders of <strong>AI-Born</strong>. We've received your inquiry and our sales team will contact you within 24-48 hours.
-    </p>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #00d9ff;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #00d9ff;">
-        Inquiry Details:
-      </h3>
-      <table style="width: 100%; color: #d1d5db; font-size: 14px; line-height: 1.8;">
-        <tr>
-          <td style="padding: 4px 12px 4px 0;"><strong>Inquiry ID:</strong></td>
-          <td style="padding: 4px 0;">${data.inquiryId}</td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 12px 4px 0;"><strong>Organisation:</strong></td>
-          <td style="padding: 4px 0;">${data.company}</td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 12px 4px 0;"><strong>Quantity:</strong></td>
-          <td style="padding: 4px 0;">${data.quantity} copies</td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 12px 4px 0;"><strong>Format:</strong></td>
-          <td style="padding: 4px 0;">${formatLabel}</td>
-        </tr>
-        <tr>
-          <td style="padding: 4px 12px 4px 0;"><strong>Timeline:</strong></td>
-          <td style="padding: 4px 0;">${timelineLabel}</td>
-        </tr>
-      </table>
-    </div>
-
-    ${
-      isNYTEligible
-        ? `
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #ff9f40;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #ff9f40;">
-        NYT Bestseller List Eligibility
-      </h3>
-      <p style="margin: 0; color: #d1d5db; font-size: 14px; line-height: 1.6;">
-        You've selected <strong>multi-store distribution</strong>, which supports NYT bestseller list eligibility. Our team will coordinate:
-      </p>
-      <ul style="margin: 12px 0 0; padding-left: 20px; color: #d1d5db; font-size: 14px; line-height: 1.8;">
-        <li>Distributed purchases across multiple retailers and locations</li>
-        <li>Regional store partnerships for coordinated fulfillment</li>
-        <li>Multi-store invoicing that complies with NYT reporting standards</li>
-      </ul>
-    </div>
-    `
-        : `
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #6b7280;">
-      <h3 style="margin: 0 0 12px; font-size: 16px; font-weight: 600; color: #9ca3af;">
-        NYT List Eligibility Information
-      </h3>
-      <p style="margin: 0; color: #9ca3af; font-size: 14px; line-height: 1.6;">
-        For NYT bestseller list eligibility, we recommend coordinating bulk orders through multiple retailers and locations. Our sales team can provide guidance on distributed fulfillment strategies.
-      </p>
-    </div>
-    `
-    }
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      <strong>Next Steps:</strong><br />
-      Our sales team will contact you at <strong>${email}</strong> within 1-2 business days to discuss pricing, distribution options, and fulfillment logistics.
-    </p>
-
-    <p style="margin: 16px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      Questions? Reply to this email or visit our <a href="${SITE_URL}/contact" style="color: #00d9ff; text-decoration: underline;">contact page</a>.
-    </p>
-  `;
+  const rendered = await renderEmailTemplate('bulk-order', { ...data, email }, { recipient: email });
 
-  const html = getEmailTemplate(content, email);
-
-  return sendEmailWithRetry(
-    email,
-    `Bulk Order Inquiry Received: ${data.company} (${data.quantity} copies)`,
-    html,
-    'bulk_order'
-  );
+  return sendEmailWithRetry(email, rendered, 'bulk_order');
 }
 
 /**
@@ -845,44 +740,13 @@ export async function sendMagicLinkEmail(
     };
   }
 
-  const magicLink = `${SITE_URL}/auth/verify?token=${encodeURIComponent(token)}`;
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Your Sign-in Link
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Click the button below to securely sign in to your AI-Born account. This link will expire in 15 minutes.
-    </p>
-
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center" style="padding: 24px 0;">
-          <a href="${magicLink}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
-            Sign In to AI-Born
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <p style="margin: 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      If you didn't request this link, you can safely ignore this email.
-    </p>
-
-    <p style="margin: 16px 0 0; font-size: 12px; line-height: 1.6; color: #6b7280;">
-      For security reasons, this link can only be used once and expires in 15 minutes.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
-
-  return sendEmailWithRetry(
-    email,
-    'Your AI-Born Sign-in Link',
-    html,
-    'magic_link'
+  const rendered = await renderEmailTemplate(
+    'magic-link',
+    { signInUrl: `${SITE_URL}/auth/verify?token=${encodeURIComponent(token)}` },
+    { recipient: email }
   );
+
+  return sendEmailWithRetry(email, rendered, 'magic_link');
 }
 
 // ============================================================================
@@ -932,113 +796,23 @@ export async function sendMediaRequestNotification(data: {
     other: 'Other',
   };
 
-  const displayType = requestTypeDisplay[data.requestType] || data.requestType;
+  // Invalid deadline formats are left out
+  const deadline = data.deadline ? new Date(data.deadline) : undefined;
 
-  // Format deadline if provided
-  let deadlineHtml = '';
-  if (data.deadline) {
-    try {
-      const deadlineDate = new Date(data.deadline);
-      deadlineHtml = `
-        <tr>
-          <td style="padding: 8px 12px; font-weight: 600; color: #ff9f40;">Deadline:</td>
-          <td style="padding: 8px 12px; color: #d1d5db;">${deadlineDate.toLocaleDateString('en-GB', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit',
-            timeZoneName: 'short'
-          })}</td>
-        </tr>
-      `;
-    } catch {
-      // Invalid date format - skip deadline
-    }
-  }
-
-  const content = `
-    <div style="background-color: #1a1a1f; border-left: 4px solid #ff9f40; padding: 16px; margin-bottom: 24px;">
-      <h2 style="margin: 0 0 4px; font-size: 20px; font-weight: 600; color: #ff9f40;">
-        New Media Request
-      </h2>
-      <p style="margin: 0; font-size: 14px; color: #9ca3af;">
-        Request ID: ${data.requestId}
-      </p>
-    </div>
-
-    <table width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px; border: 1px solid #374151;">
-      <tr>
-        <td style="padding: 8px 12px; font-weight: 600; color: #00d9ff; border-bottom: 1px solid #374151;">Contact Name:</td>
-        <td style="padding: 8px 12px; color: #d1d5db; border-bottom: 1px solid #374151;">${data.name}</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px 12px; font-weight: 600; color: #00d9ff; border-bottom: 1px solid #374151;">Email:</td>
-        <td style="padding: 8px 12px; border-bottom: 1px solid #374151;">
-          <a href="mailto:${data.email}" style="color: #00d9ff; text-decoration: underline;">${data.email}</a>
-        </td>
-      </tr>
-      ${data.phone ? `
-      <tr>
-        <td style="padding: 8px 12px; font-weight: 600; color: #00d9ff; border-bottom: 1px solid #374151;">Phone:</td>
-        <td style="padding: 8px 12px; color: #d1d5db; border-bottom: 1px solid #374151;">
-          <a href="tel:${data.phone}" style="color: #00d9ff; text-decoration: underline;">${data.phone}</a>
-        </td>
-      </tr>
-      ` : ''}
-      <tr>
-        <td style="padding: 8px 12px; font-weight: 600; color: #00d9ff; border-bottom: 1px solid #374151;">Outlet/Publication:</td>
-        <td style="padding: 8px 12px; color: #d1d5db; border-bottom: 1px solid #374151;">${data.outlet}</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px 12px; font-weight: 600; color: #00d9ff; border-bottom: 1px solid #374151;">Request Type:</td>
-        <td style="padding: 8px 12px; color: #d1d5db; border-bottom: 1px solid #374151;">${displayType}</td>
-      </tr>
-      ${deadlineHtml}
-    </table>
-
-    <div style="background-color: #0a0a0f; padding: 16px; border-radius: 8px;">
-      <h3 style="margin: 0 0 12px; font-size: 16px; font-weight: 600; color: #fafafa;">
-        Message:
-      </h3>
-      <p style="margin: 0; font-size: 14px; line-height: 1.6; color: #d1d5db; white-space: pre-wrap;">${data.message}</p>
-    </div>
-
-    <div style="margin-top: 24px; padding: 16px; background-color: #1a1a1f; border-radius: 8px;">
-      <p style="margin: 0 0 12px; font-size: 14px; color: #9ca3af;">
-        <strong>Recommended Actions:</strong>
-      </p>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-        <li>Respond within 24-48 hours for optimal media relations</li>
-        <li>For galley/review copy requests: Verify outlet credentials before sending</li>
-        <li>For interview requests: Coordinate with author's calendar</li>
-        <li>Track this request in your CRM/PR management system</li>
-      </ul>
-    </div>
-
-    <table width="100%" cellpadding="0" cellspacing="0" style="margin-top: 24px;">
-      <tr>
-        <td align="center">
-          <a href="mailto:${data.email}?subject=Re: AI-Born Media Request (${data.requestId})"
-             style="display: inline-block; padding: 14px 28px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 15px;">
-            Reply to ${data.name}
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <p style="margin: 24px 0 0; font-size: 12px; line-height: 1.6; color: #6b7280; text-align: center;">
-      This request was submitted via the AI-Born media request form at ${new Date().toLocaleString('en-GB', { timeZone: 'America/New_York' })} EST
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, prEmail);
+  const rendered = await renderEmailTemplate(
+    'media-request',
+    {
+      ...data,
+      requestType: requestTypeDisplay[data.requestType] || data.requestType,
+      deadline: deadline && !isNaN(deadline.getTime()) ? deadline : undefined,
+      submittedAt: new Date(),
+    },
+    { recipient: prEmail }
+  );
 
   return sendEmailWithRetry(
     prEmail,
-    `Media Request: ${displayType} from ${data.outlet}`,
-    html,
+    rendered,
     'media_request_notification',
     {
       maxRetries: 5, // Higher retries for critical PR notifications
@@ -1082,51 +856,13 @@ export async function sendNewsletterConfirmationEmail(
     };
   }
 
-  const confirmUrl = `${SITE_URL}/newsletter/confirm?token=${encodeURIComponent(confirmationToken)}`;
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Confirm Your Subscription
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Thank you for subscribing to the <strong>AI-Born</strong> newsletter. To complete your subscription and receive updates about the book launch, please confirm your email address.
-    </p>
-
-    <table width="100%" cellpadding="0" cellspacing="0">
-      <tr>
-        <td align="center" style="padding: 24px 0;">
-          <a href="${confirmUrl}" style="display: inline-block; padding: 16px 32px; background-color: #00d9ff; color: #0a0a0f; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
-            Confirm Subscription
-          </a>
-        </td>
-      </tr>
-    </table>
-
-    <p style="margin: 0 0 16px; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      By confirming, you'll receive:
-    </p>
-
-    <ul style="margin: 0 0 24px; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-      <li>Launch announcements and pre-order updates</li>
-      <li>Exclusive excerpts and early access content</li>
-      <li>Speaking event invitations</li>
-      <li>Insights on AI-native organisation design</li>
-    </ul>
-
-    <p style="margin: 0; font-size: 12px; line-height: 1.6; color: #6b7280;">
-      If you didn't request this subscription, you can safely ignore this email. This confirmation link will expire in 7 days.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
-
-  return sendEmailWithRetry(
-    email,
-    'Confirm Your AI-Born Newsletter Subscription',
-    html,
-    'newsletter_confirmation'
+  const rendered = await renderEmailTemplate(
+    'newsletter-confirmation',
+    { confirmUrl: `${SITE_URL}/newsletter/confirm?token=${encodeURIComponent(confirmationToken)}` },
+    { recipient: email }
   );
+
+  return sendEmailWithRetry(email, rendered, 'newsletter_confirmation');
 }
 
 /**
@@ -1155,45 +891,131 @@ export async function sendNewsletterWelcomeEmail(
     };
   }
 
-  const greeting = name ? `Hi ${name}` : 'Welcome';
-  const excerptUrl = `${SITE_URL}/#excerpt`;
-  const preorderUrl = `${SITE_URL}/#retailers`;
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      ${greeting}, You're Confirmed
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      Welcome to the <strong>AI-Born</strong> community. You're now on the list for launch updates, exclusive insights, and early access to content about building AI-native organisations.
-    </p>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #00d9ff;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #00d9ff;">
-        What's Next?
-      </h3>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-        <li>Read a <a href="${excerptUrl}" style="color: #00d9ff; text-decoration: underline;">free sample chapter</a></li>
-        <li><a href="${preorderUrl}" style="color: #00d9ff; text-decoration: underline;">Pre-order your copy</a> (hardcover, eBook, or audiobook)</li>
-        <li>Stay tuned for launch announcements and bonus content</li>
-      </ul>
-    </div>
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      We'll send occasional updates leading up to the launch. No spam, no daily emails—just the important stuff.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
+  const rendered = await renderEmailTemplate('newsletter-welcome', { name }, { recipient: email });
+
+  return sendEmailWithRetry(email, rendered, 'newsletter_welcome');
+}
+
+/**
+ * Newsletter issue content
+ */
+export interface NewsletterIssue {
+  subject: string;
+  /** Rendered body HTML (see `@/lib/newsletter-content`) */
+  content: string;
+  previewText?: string | null;
+}
+
+/**
+ * Signed one-click unsubscribe link for a newsletter recipient
+ */
+function getNewsletterUnsubscribeUrl(email: string): string {
+  const token = generateNewsletterUnsubscribeToken(email);
+  return `${SITE_URL}/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Render a newsletter issue in the branded layout for one recipient
+ * Used for sends and for the admin composer preview
+ */
+export async function renderNewsletterIssue(issue: NewsletterIssue, email: string): Promise<RenderedEmail> {
+  return renderEmailTemplate(
+    'newsletter-issue',
+    { subject: issue.subject, contentHtml: issue.content },
+    {
+      recipient: email,
+      unsubscribeUrl: getNewsletterUnsubscribeUrl(email),
+      previewText: issue.previewText ?? undefined,
+    }
+  );
+}
+
+/**
+ * Send a newsletter issue (broadcast or test send)
+ *
+ * Every issue carries a signed unsubscribe link in the footer and in the
+ * `List-Unsubscribe` header, with RFC 8058 one-click support.
+ *
+ * @param options.test - Prefix the subject with "[Test]"
+ */
+export async function sendNewsletterIssueEmail(
+  email: string,
+  issue: NewsletterIssue,
+  options: { test?: boolean } = {}
+): Promise<EmailResult> {
+  // Validate email
+  if (!email || !email.includes('@')) {
+    return {
+      success: false,
+      error: 'Invalid email address',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
+
+  // Check rate limit
+  if (!checkEmailRateLimit(email)) {
+    return {
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      errorCode: 'RATE_LIMIT_ERROR',
+    };
+  }
+
+  const rendered = await renderNewsletterIssue(issue, email);
 
   return sendEmailWithRetry(
     email,
-    'Welcome to AI-Born Updates',
-    html,
-    'newsletter_welcome'
+    { ...rendered, subject: options.test ? `[Test] ${rendered.subject}` : rendered.subject },
+    options.test ? 'newsletter_test' : 'newsletter_issue',
+    DEFAULT_RETRY_CONFIG,
+    {
+      'List-Unsubscribe': `<${getNewsletterUnsubscribeUrl(email)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    }
   );
 }
 
+/**
+ * Send one step of a pre-launch drip sequence (see `@/lib/drip-sequences`)
+ *
+ * Like newsletter issues, drip emails carry the signed one-click
+ * unsubscribe link; unsubscribing also ends the sequence.
+ *
+ * @param emailType - Outbox template name, e.g. "drip_framework_teaser"
+ */
+export async function sendDripEmail<N extends EmailTemplateName>(
+  email: string,
+  template: N,
+  props: EmailTemplateProps<N>,
+  emailType: string
+): Promise<EmailResult> {
+  // Validate email
+  if (!email || !email.includes('@')) {
+    return {
+      success: false,
+      error: 'Invalid email address',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
+
+  // Check rate limit
+  if (!checkEmailRateLimit(email)) {
+    return {
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      errorCode: 'RATE_LIMIT_ERROR',
+    };
+  }
+
+  const unsubscribeUrl = getNewsletterUnsubscribeUrl(email);
+  const rendered = await renderEmailTemplate(template, props, { recipient: email, unsubscribeUrl });
+
+  return sendEmailWithRetry(email, rendered, emailType, DEFAULT_RETRY_CONFIG, {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  });
+}
+
 /**
  * Send account deletion confirmation email
  * Triggered when user deletes their account
@@ -1220,99 +1042,13 @@ export async function sendAccountDeletionEmail(
     };
   }
 
-  const supportUrl = `${SITE_URL}/contact`;
-  const privacyUrl = `${SITE_URL}/privacy`;
-  const recoveryDeadline = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-  const formattedDeadline = recoveryDeadline.toLocaleDateString('en-GB', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
-  const content = `
-    <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #fafafa;">
-      Account Deletion Confirmed
-    </h2>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      ${name ? `Hi ${name},` : 'Hello,'}
-    </p>
-
-    <p style="margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #d1d5db;">
-      We've received your request to delete your <strong>AI-Born</strong> account. Your account has been deactivated and scheduled for permanent deletion.
-    </p>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #1a1a1f; border-radius: 8px; border-left: 4px solid #00d9ff;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #00d9ff;">
-        30-Day Recovery Period
-      </h3>
-      <p style="margin: 0 0 12px; color: #d1d5db; font-size: 14px; line-height: 1.6;">
-        Your account will be soft-deleted immediately, but you have until <strong>${formattedDeadline}</strong> to request account recovery.
-      </p>
-      <p style="margin: 0; color: #d1d5db; font-size: 14px; line-height: 1.6;">
-        To recover your account within this 30-day period, please <a href="${supportUrl}" style="color: #00d9ff; text-decoration: underline;">contact our support team</a>.
-      </p>
-    </div>
-
-    <div style="margin: 24px 0; padding: 20px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #ff9f40;">
-      <h3 style="margin: 0 0 12px; font-size: 18px; font-weight: 600; color: #ff9f40;">
-        What Happens Next
-      </h3>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; line-height: 1.8;">
-        <li><strong>Immediate:</strong> Account deactivated, sign-in disabled</li>
-        <li><strong>During grace period:</strong> Data retained for recovery</li>
-        <li><strong>After ${formattedDeadline}:</strong> Personal data permanently deleted</li>
-      </ul>
-    </div>
-
-    <div style="margin: 24px 0; padding: 16px; background-color: #1a1a1f; border-radius: 8px;">
-      <h3 style="margin: 0 0 12px; font-size: 16px; font-weight: 600; color: #fafafa;">
-        What Has Been Deleted:
-      </h3>
-      <ul style="margin: 0; padding-left: 20px; color: #d1d5db; font-size: 14px; line-height: 1.8;">
-        <li>Your profile information (name, email, preferences)</li>
-        <li>All entitlements and access to downloadable content</li>
-        <li>Newsletter subscription and communication preferences</li>
-        <li>Organisation memberships and shared plans</li>
-      </ul>
-    </div>
-
-    <div style="margin: 24px 0; padding: 16px; background-color: #1a1a1f; border-radius: 8px;">
-      <h3 style="margin: 0 0 12px; font-size: 16px; font-weight: 600; color: #fafafa;">
-        What Has Been Kept (Anonymized):
-      </h3>
-      <ul style="margin: 0 0 12px; padding-left: 20px; color: #d1d5db; font-size: 14px; line-height: 1.8;">
-        <li>Purchase history for accounting and legal compliance (disassociated from your identity)</li>
-        <li>Receipt verification records (anonymized, for fraud prevention)</li>
-      </ul>
-      <p style="margin: 0; color: #9ca3af; font-size: 12px; line-height: 1.6;">
-        This complies with GDPR Article 17 (Right to Erasure) whilst maintaining necessary legal and accounting records. For more details, see our <a href="${privacyUrl}" style="color: #00d9ff; text-decoration: underline;">Privacy Policy</a>.
-      </p>
-    </div>
-
-    <div style="margin: 24px 0; padding: 16px; background-color: #0a0a0f; border-radius: 8px; border-left: 4px solid #6b7280;">
-      <p style="margin: 0 0 8px; color: #d1d5db; font-size: 14px; line-height: 1.6;">
-        <strong>Didn't request this?</strong>
-      </p>
-      <p style="margin: 0; color: #9ca3af; font-size: 14px; line-height: 1.6;">
-        If you did not request account deletion, please <a href="${supportUrl}" style="color: #00d9ff; text-decoration: underline;">contact support immediately</a> to secure your account.
-      </p>
-    </div>
-
-    <p style="margin: 24px 0 0; font-size: 14px; line-height: 1.6; color: #9ca3af;">
-      We're sorry to see you go. If you have feedback on how we could have served you better, we'd appreciate hearing from you.
-    </p>
-  `;
-
-  const html = getEmailTemplate(content, email);
-
-  return sendEmailWithRetry(
-    email,
-    'AI-Born Account Deletion Confirmation',
-    html,
-    'account_deletion'
+  const rendered = await renderEmailTemplate(
+    'account-deletion',
+    { name, recoveryDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) },
+    { recipient: email }
   );
+
+  return sendEmailWithRetry(email, rendered, 'account_deletion');
 }
 
 /**
@@ -0,0 +1,199 @@
+/**
+ * Server-Side Experiment Assignment
+ *
+ * Assigns A/B variants before the page renders, so server components
+ * show the assigned variant on first paint instead of swapping it in
+ * after hydration. Runs in middleware (edge-safe: no Node APIs, no
+ * database) and uses the same hashing as `@/lib/ab-testing`, so a
+ * participant gets the same variant wherever the assignment happens.
+ *
+ * Middleware cannot query the database, so it reads the active
+ * experiments from `/api/experiments/config` and reuses them for
+ * `EDGE_CONFIG_TTL_MS` per instance.
+ *
+ * Rules:
+ * - Bots and crawlers are never assigned and always see the control
+ * - Existing assignments are kept (first assignment wins)
+ * - New assignments are flagged `pendingExposure`; the client records the
+ *   exposure when the variant actually renders (see `getVariant`)
+ */
+
+import {
+  assignVariant,
+  getDefaultVariantId,
+  isBotUserAgent,
+  parseExperimentAssignments,
+  type Experiment,
+  type ExperimentAssignment,
+} from './ab-testing';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Public endpoint serving the active experiment definitions
+ */
+export const EXPERIMENT_CONFIG_ENDPOINT = '/api/experiments/config';
+
+/**
+ * How long middleware reuses fetched definitions
+ */
+const EDGE_CONFIG_TTL_MS = 60 * 1000;
+
+/**
+ * Longest middleware waits for definitions before assigning nothing
+ */
+const EDGE_CONFIG_TIMEOUT_MS = 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Experiment cookies sent with the request
+ */
+export interface ExperimentCookieValues {
+  /** Participant ID cookie (`ab_uid`) */
+  participantId?: string;
+  /** Assignments cookie (`ab_experiments`), URI-decoded */
+  assignments?: string;
+}
+
+/**
+ * Assignments for one request
+ */
+export interface RequestExperimentAssignments {
+  participantId: string;
+  assignments: Map<string, ExperimentAssignment>;
+  /** Whether the cookies need writing (new participant or new assignment) */
+  changed: boolean;
+}
+
+// ============================================================================
+// CONFIG LOADING
+// ============================================================================
+
+let edgeConfigCache: { experiments: Experiment[]; loadedAt: number } | null = null;
+
+/**
+ * Load the active experiments for middleware (cached per instance)
+ * On failure the last loaded definitions are kept (none on a cold start),
+ * so new visitors simply see control until the next refresh.
+ *
+ * @param origin - Origin of the current request
+ * @param now - Current time (ms)
+ * @returns Active experiments
+ */
+export async function loadActiveExperiments(
+  origin: string,
+  now: number = Date.now()
+): Promise<Experiment[]> {
+  if (edgeConfigCache && now - edgeConfigCache.loadedAt < EDGE_CONFIG_TTL_MS) {
+    return edgeConfigCache.experiments;
+  }
+
+  try {
+    const response = await fetch(new URL(EXPERIMENT_CONFIG_ENDPOINT, origin), {
+      signal: AbortSignal.timeout(EDGE_CONFIG_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Unexpected status ${response.status}`);
+    }
+
+    const data = (await response.json()) as { experiments: Experiment[] };
+    edgeConfigCache = { experiments: data.experiments, loadedAt: now };
+  } catch (error) {
+    console.error('[Experiments] Failed to load experiment definitions:', error);
+    edgeConfigCache = { experiments: edgeConfigCache?.experiments ?? [], loadedAt: now };
+  }
+
+  return edgeConfigCache.experiments;
+}
+
+// ============================================================================
+// ASSIGNMENT
+// ============================================================================
+
+/**
+ * Generate an anonymous participant ID
+ */
+function generateParticipantId(): string {
+  return `user_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Assign the active experiments for a request
+ *
+ * @param cookies - Experiment cookies sent with the request
+ * @param userAgent - User-Agent header value
+ * @param experiments - Active experiments to assign
+ * @param now - Assignment time
+ * @returns Assignments, or null for bots (no cookies, control everywhere)
+ */
+export function assignRequestExperiments(
+  cookies: ExperimentCookieValues,
+  userAgent: string | null,
+  experiments: Experiment[],
+  now: Date = new Date()
+): RequestExperimentAssignments | null {
+  if (isBotUserAgent(userAgent)) {
+    return null;
+  }
+
+  const participantId = cookies.participantId || generateParticipantId();
+  const assignments = parseExperimentAssignments(cookies.assignments);
+  let changed = participantId !== cookies.participantId;
+
+  for (const experiment of experiments) {
+    if (assignments.has(experiment.id)) continue;
+
+    const variant = assignVariant(participantId, experiment);
+    if (!variant) continue;
+
+    assignments.set(experiment.id, {
+      experimentId: experiment.id,
+      variantId: variant.id,
+      variantName: variant.name,
+      assignedAt: now.toISOString(),
+      pendingExposure: true,
+    });
+    changed = true;
+  }
+
+  return { participantId, assignments, changed };
+}
+
+/**
+ * Resolve the variant to render for every experiment
+ * The default variant (declared winner or control) is used for bots,
+ * inactive experiments, participants outside the traffic allocation and
+ * stale assignments to removed variants.
+ *
+ * @param assignments - Assignments from the request cookie
+ * @param isBot - Whether the request comes from a bot
+ * @param experiments - All experiments
+ * @returns Map of experiment ID to variant ID
+ */
+export function resolveExperimentVariants(
+  assignments: Map<string, ExperimentAssignment>,
+  isBot: boolean,
+  experiments: Experiment[]
+): Record<string, string> {
+  return Object.fromEntries(
+    experiments.map((experiment) => {
+      const assigned = assignments.get(experiment.id)?.variantId;
+
+      const variantId =
+        !isBot &&
+        experiment.active &&
+        assigned &&
+        experiment.variants.some((variant) => variant.id === assigned)
+          ? assigned
+          : getDefaultVariantId(experiment);
+
+      return [experiment.id, variantId];
+    })
+  );
+}
@@ -0,0 +1,370 @@
+/**
+ * A/B Experiment Results
+ *
+ * Persists experiment exposures and conversions sent by `@/lib/ab-testing`
+ * and aggregates them into per-variant results for the admin dashboard.
+ *
+ * Features:
+ * - One exposure per participant per experiment (first assignment wins)
+ * - Conversions are attributed to the variant of the stored exposure, and
+ *   ignored for participants never exposed
+ * - Conversion rates with Wilson confidence intervals
+ * - Lift over control with a confidence interval on the difference
+ * - Sample ratio mismatch (SRM) detection against configured weights
+ * - Daily time series of cumulative lift
+ *
+ * A participant converts at most once per metric: with a metric selected
+ * the first conversion for that event counts, otherwise the first
+ * conversion of any kind.
+ */
+
+import { Prisma } from '@prisma/client';
+
+import {
+  calculateConversionRateInterval,
+  calculateLift,
+  calculateSignificance,
+  calculateVariantMetrics,
+  detectSampleRatioMismatch,
+  type ConfidenceInterval,
+  type ConfidenceLevel,
+  type Experiment,
+  type ExperimentResults,
+  type LiftResult,
+  type SampleRatioMismatchResult,
+  type VariantMetrics,
+} from '@/lib/ab-testing';
+import { prisma } from '@/lib/prisma';
+import type { ExperimentTrackingInput } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Daily count for one variant, as aggregated by the database
+ */
+export interface DailyVariantCount {
+  variantId: string;
+  day: Date;
+  count: number;
+  /** Summed conversion value (conversions only) */
+  value?: number;
+}
+
+/**
+ * Variant metrics with interval estimates
+ */
+export interface VariantResult extends VariantMetrics {
+  /** Confidence interval of the conversion rate */
+  confidenceInterval: ConfidenceInterval;
+  /** Lift over control; null for the control itself */
+  lift: LiftResult | null;
+}
+
+/**
+ * Cumulative totals at the end of one day
+ */
+export interface LiftTimeSeriesPoint {
+  /** Day (YYYY-MM-DD, UTC) */
+  date: string;
+  variants: Record<
+    string,
+    {
+      participants: number;
+      conversions: number;
+      conversionRate: number;
+      /** Relative lift over control (percentage); null for control or when undefined */
+      relativeLift: number | null;
+    }
+  >;
+}
+
+/**
+ * Full results for the admin dashboard
+ */
+export interface ExperimentResultsReport extends ExperimentResults {
+  /** Conversion event measured; null means any conversion */
+  metric: string | null;
+  confidenceLevel: ConfidenceLevel;
+  variants: VariantResult[];
+  sampleRatioMismatch: SampleRatioMismatchResult;
+  timeSeries: LiftTimeSeriesPoint[];
+  generatedAt: string;
+}
+
+/**
+ * Options when computing results
+ */
+export interface ExperimentResultsOptions {
+  /** Conversion event to measure; defaults to the experiment's primary metric */
+  metric?: string | null;
+  confidenceLevel?: ConfidenceLevel;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Check that an experiment variant exists
+ *
+ * @throws Error if the variant is not part of the experiment
+ */
+function assertVariant(experiment: Experiment, variantId: string): void {
+  if (!experiment.variants.some((variant) => variant.id === variantId)) {
+    throw new Error(`Unknown variant "${variantId}" for experiment ${experiment.id}`);
+  }
+}
+
+/**
+ * Record a participant's exposure to a variant
+ *
+ * @returns Whether a new exposure was stored (false if already exposed)
+ * @throws Error if the variant is not part of the experiment
+ */
+export async function recordExperimentExposure(
+  experiment: Experiment,
+  input: Pick<ExperimentTrackingInput, 'variantId' | 'participantId'>
+): Promise<boolean> {
+  assertVariant(experiment, input.variantId);
+
+  const { count } = await prisma.experimentExposure.createMany({
+    data: [
+      {
+        experimentId: experiment.id,
+        variantId: input.variantId,
+        participantId: input.participantId,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+/**
+ * Record a conversion against the participant's exposed variant
+ *
+ * @returns Whether a new conversion was stored (false if the participant
+ *          was never exposed or already converted on this event)
+ */
+export async function recordExperimentConversion(
+  experiment: Experiment,
+  input: { participantId: string; eventName: string; value?: number }
+): Promise<boolean> {
+  const exposure = await prisma.experimentExposure.findUnique({
+    where: {
+      experimentId_participantId: {
+        experimentId: experiment.id,
+        participantId: input.participantId,
+      },
+    },
+  });
+
+  if (!exposure) {
+    return false;
+  }
+
+  const { count } = await prisma.experimentConversion.createMany({
+    data: [
+      {
+        experimentId: experiment.id,
+        variantId: exposure.variantId,
+        participantId: input.participantId,
+        eventName: input.eventName,
+        value: input.value,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Day key (YYYY-MM-DD, UTC)
+ */
+function toDayKey(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Compute results from daily exposure and conversion counts
+ *
+ * @param experiment - Experiment configuration (first variant is control)
+ * @param exposures - Daily new participants per variant
+ * @param conversions - Daily new converters per variant
+ * @param options - Metric and confidence level
+ * @param now - Report time
+ */
+export function computeExperimentResults(
+  experiment: Experiment,
+  exposures: DailyVariantCount[],
+  conversions: DailyVariantCount[],
+  options: ExperimentResultsOptions = {},
+  now: Date = new Date()
+): ExperimentResultsReport {
+  const confidenceLevel = options.confidenceLevel ?? 95;
+  const metric = options.metric === undefined ? experiment.primaryMetric ?? null : options.metric;
+  const variantIds = new Set(experiment.variants.map((variant) => variant.id));
+
+  // Daily counts keyed by day, then variant
+  const daily: Record<string, Record<string, { participants: number; conversions: number }>> = {};
+  const bucket = (day: Date, variantId: string) => {
+    const byVariant = (daily[toDayKey(day)] ??= {});
+    return (byVariant[variantId] ??= { participants: 0, conversions: 0 });
+  };
+
+  const totals: Record<string, { participants: number; conversions: number; value: number }> =
+    Object.fromEntries(
+      experiment.variants.map((variant) => [variant.id, { participants: 0, conversions: 0, value: 0 }])
+    );
+
+  for (const row of exposures) {
+    if (!variantIds.has(row.variantId)) continue;
+    bucket(row.day, row.variantId).participants += row.count;
+    totals[row.variantId].participants += row.count;
+  }
+
+  for (const row of conversions) {
+    if (!variantIds.has(row.variantId)) continue;
+    bucket(row.day, row.variantId).conversions += row.count;
+    totals[row.variantId].conversions += row.count;
+    totals[row.variantId].value += row.value ?? 0;
+  }
+
+  // Overall metrics
+  const metrics = experiment.variants.map((variant) => {
+    const total = totals[variant.id];
+    return calculateVariantMetrics(
+      variant.id,
+      variant.name,
+      total.participants,
+      total.conversions,
+      total.value > 0 ? total.value : undefined
+    );
+  });
+  const control = metrics[0];
+
+  const variants: VariantResult[] = metrics.map((variantMetrics, index) => ({
+    ...variantMetrics,
+    confidenceInterval: calculateConversionRateInterval(
+      variantMetrics.conversions,
+      variantMetrics.participants,
+      confidenceLevel
+    ),
+    lift: index === 0 ? null : calculateLift(control, variantMetrics, confidenceLevel),
+  }));
+
+  // Cumulative lift per day
+  const running: Record<string, { participants: number; conversions: number }> =
+    Object.fromEntries(
+      experiment.variants.map((variant) => [variant.id, { participants: 0, conversions: 0 }])
+    );
+  const rateOf = (counts: { participants: number; conversions: number }) =>
+    counts.participants > 0 ? counts.conversions / counts.participants : 0;
+
+  const timeSeries: LiftTimeSeriesPoint[] = Object.keys(daily)
+    .sort()
+    .map((date) => {
+      for (const [variantId, counts] of Object.entries(daily[date])) {
+        running[variantId].participants += counts.participants;
+        running[variantId].conversions += counts.conversions;
+      }
+
+      const controlRate = rateOf(running[control.variantId]);
+
+      return {
+        date,
+        variants: Object.fromEntries(
+          experiment.variants.map((variant, index) => {
+            const conversionRate = rateOf(running[variant.id]);
+
+            return [
+              variant.id,
+              {
+                ...running[variant.id],
+                conversionRate,
+                relativeLift:
+                  index === 0 || controlRate === 0
+                    ? null
+                    : ((conversionRate - controlRate) / controlRate) * 100,
+              },
+            ];
+          })
+        ),
+      };
+    });
+
+  const totalParticipants = metrics.reduce((sum, v) => sum + v.participants, 0);
+  const totalConversions = metrics.reduce((sum, v) => sum + v.conversions, 0);
+
+  return {
+    experimentId: experiment.id,
+    experimentName: experiment.name,
+    metric,
+    confidenceLevel,
+    variants,
+    significance: calculateSignificance(metrics, confidenceLevel),
+    sampleRatioMismatch: detectSampleRatioMismatch(
+      experiment,
+      Object.fromEntries(metrics.map((v) => [v.variantId, v.participants]))
+    ),
+    totalParticipants,
+    totalConversions,
+    overallConversionRate: totalParticipants > 0 ? totalConversions / totalParticipants : 0,
+    timeSeries,
+    startDate: experiment.startDate,
+    endDate: experiment.endDate,
+    generatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Load and compute results for an experiment
+ *
+ * @param experiment - Experiment configuration
+ * @param options - Metric and confidence level
+ */
+export async function getExperimentResults(
+  experiment: Experiment,
+  options: ExperimentResultsOptions = {}
+): Promise<ExperimentResultsReport> {
+  const metric = options.metric === undefined ? experiment.primaryMetric ?? null : options.metric;
+
+  const [exposures, conversions] = await Promise.all([
+    prisma.$queryRaw<DailyVariantCount[]>`
+      SELECT "variantId",
+             date_trunc('day', "exposedAt") AS "day",
+             COUNT(*)::int AS "count"
+      FROM "experiment_exposures"
+      WHERE "experimentId" = ${experiment.id}
+      GROUP BY 1, 2
+    `,
+    // First conversion per participant (for the metric, or of any kind)
+    prisma.$queryRaw<DailyVariantCount[]>`
+      SELECT "variantId",
+             date_trunc('day', "convertedAt") AS "day",
+             COUNT(*)::int AS "count",
+             COALESCE(SUM("value"), 0)::float AS "value"
+      FROM (
+        SELECT "participantId",
+               "variantId",
+               MIN("convertedAt") AS "convertedAt",
+               SUM("value") AS "value"
+        FROM "experiment_conversions"
+        WHERE "experimentId" = ${experiment.id}
+          ${metric ? Prisma.sql`AND "eventName" = ${metric}` : Prisma.empty}
+        GROUP BY 1, 2
+      ) AS "converters"
+      GROUP BY 1, 2
+    `,
+  ]);
+
+  return computeExperimentResults(experiment, exposures, conversions, { ...options, metric });
+}
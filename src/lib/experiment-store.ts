@@ -0,0 +1,408 @@
+/**
+ * Managed A/B Experiments
+ *
+ * Experiment definitions live in the `experiments` table so admins can
+ * create, schedule, pause and stop experiments and roll out a winner
+ * without a deploy. The definitions in `@/config/experiments` are only the
+ * seed data and the client fallback outside `ExperimentProvider`.
+ *
+ * Lifecycle:
+ * - DRAFT: created, everyone sees control
+ * - RUNNING: assigns inside its start/end schedule
+ * - PAUSED: everyone sees control; cookie assignments are kept for resume
+ * - STOPPED: everyone sees the declared winner (or control)
+ *
+ * Reads go through a short in-memory cache, so per-request latency stays
+ * flat; admin changes clear it on the instance that made them and reach
+ * other instances within `CONFIG_CACHE_TTL_MS`.
+ */
+
+import {
+  type Experiment as ExperimentRecord,
+  type ExperimentStatus,
+  type Prisma,
+} from '@prisma/client';
+
+import { validateExperiment, type Experiment, type ExperimentVariant } from '@/lib/ab-testing';
+import { prisma } from '@/lib/prisma';
+import type { ExperimentCreateInput, ExperimentUpdateInput } from '@/lib/validation';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How long loaded experiment definitions are reused
+ */
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Status after each lifecycle action (declaring a winner also stops)
+ */
+const ACTION_STATUS: Record<ExperimentStatusAction, ExperimentStatus> = {
+  start: 'RUNNING',
+  pause: 'PAUSED',
+  stop: 'STOPPED',
+  declare_winner: 'STOPPED',
+};
+
+/**
+ * Statuses each admin action may be applied from
+ */
+const ACTION_ALLOWED_FROM: Record<ExperimentStatusAction, ExperimentStatus[]> = {
+  start: ['DRAFT', 'PAUSED'],
+  pause: ['RUNNING'],
+  stop: ['DRAFT', 'RUNNING', 'PAUSED'],
+  declare_winner: ['RUNNING', 'PAUSED', 'STOPPED'],
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Experiment with its lifecycle fields, for the admin dashboard
+ */
+export interface ManagedExperiment extends Experiment {
+  status: ExperimentStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lifecycle actions available from the admin dashboard
+ */
+export type ExperimentStatusAction = 'start' | 'pause' | 'stop' | 'declare_winner';
+
+/**
+ * Invalid experiment definition (400) or action not allowed in the
+ * experiment's current status (409)
+ */
+export class ExperimentConfigError extends Error {
+  public readonly statusCode: 400 | 409;
+  public readonly errors: string[];
+
+  constructor(message: string, statusCode: 400 | 409 = 400, errors: string[] = [message]) {
+    super(message);
+    this.name = 'ExperimentConfigError';
+    this.statusCode = statusCode;
+    this.errors = errors;
+  }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Variants stored as JSON
+ */
+function parseVariants(value: Prisma.JsonValue): ExperimentVariant[] {
+  return Array.isArray(value) ? (value as unknown as ExperimentVariant[]) : [];
+}
+
+/**
+ * Map a stored experiment onto the runtime configuration
+ * `active` is true only while RUNNING and inside the schedule; the winner
+ * is only served once the experiment is STOPPED.
+ *
+ * @param record - Stored experiment
+ * @param now - Evaluation time for the schedule
+ */
+export function toExperiment(record: ExperimentRecord, now: Date = new Date()): Experiment {
+  const started = !record.startDate || record.startDate <= now;
+  const ended = !!record.endDate && record.endDate <= now;
+
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    variants: parseVariants(record.variants),
+    active: record.status === 'RUNNING' && started && !ended,
+    startDate: record.startDate?.toISOString(),
+    endDate: record.endDate?.toISOString(),
+    trafficAllocation: record.trafficAllocation,
+    primaryMetric: record.primaryMetric ?? undefined,
+    winnerVariantId:
+      record.status === 'STOPPED' ? (record.winnerVariantId ?? undefined) : undefined,
+  };
+}
+
+/**
+ * Map a stored experiment for the admin dashboard
+ */
+function toManagedExperiment(record: ExperimentRecord, now: Date = new Date()): ManagedExperiment {
+  return {
+    ...toExperiment(record, now),
+    winnerVariantId: record.winnerVariantId ?? undefined,
+    status: record.status,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Validate a definition with `validateExperiment` and its schedule
+ *
+ * @throws ExperimentConfigError if invalid
+ */
+function assertValidExperiment(experiment: Experiment): void {
+  const { errors } = validateExperiment(experiment);
+
+  if (
+    experiment.startDate &&
+    experiment.endDate &&
+    new Date(experiment.endDate) <= new Date(experiment.startDate)
+  ) {
+    errors.push('End date must be after the start date');
+  }
+
+  if (errors.length > 0) {
+    throw new ExperimentConfigError(errors[0], 400, errors);
+  }
+}
+
+/**
+ * Optional ISO date input to a column value (null clears, undefined keeps)
+ */
+function toDateValue(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+// ============================================================================
+// CACHED CONFIG LOADER
+// ============================================================================
+
+let configCache: { records: ExperimentRecord[]; loadedAt: number } | null = null;
+let pendingLoad: Promise<ExperimentRecord[]> | null = null;
+
+/**
+ * Load stored experiments once per cache window, sharing concurrent loads
+ * Keeps serving the last loaded definitions (or none) if the database fails
+ */
+async function loadExperimentRecords(now: Date): Promise<ExperimentRecord[]> {
+  if (configCache && now.getTime() - configCache.loadedAt < CONFIG_CACHE_TTL_MS) {
+    return configCache.records;
+  }
+
+  pendingLoad ??= prisma.experiment
+    .findMany({ orderBy: { createdAt: 'asc' } })
+    .then((records) => {
+      configCache = { records, loadedAt: now.getTime() };
+      return records;
+    })
+    .catch((error: unknown) => {
+      console.error('[Experiments] Failed to load experiment definitions:', error);
+      // Retry after the next cache window instead of on every request
+      const records = configCache?.records ?? [];
+      configCache = { records, loadedAt: now.getTime() };
+      return records;
+    })
+    .finally(() => {
+      pendingLoad = null;
+    });
+
+  return pendingLoad;
+}
+
+/**
+ * Get all experiment configurations (cached)
+ *
+ * @param now - Evaluation time for schedules
+ * @returns Runtime configurations, oldest first
+ */
+export async function getExperimentConfigs(now: Date = new Date()): Promise<Experiment[]> {
+  const records = await loadExperimentRecords(now);
+  return records.map((record) => toExperiment(record, now));
+}
+
+/**
+ * Get one experiment configuration (cached)
+ *
+ * @param experimentId - Experiment ID
+ * @returns Runtime configuration, or undefined if unknown
+ */
+export async function getExperimentConfig(
+  experimentId: string,
+  now: Date = new Date()
+): Promise<Experiment | undefined> {
+  const experiments = await getExperimentConfigs(now);
+  return experiments.find((experiment) => experiment.id === experimentId);
+}
+
+/**
+ * Drop cached definitions so the next read hits the database
+ */
+export function invalidateExperimentConfigCache(): void {
+  configCache = null;
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * List experiments with their lifecycle fields (uncached)
+ */
+export async function listManagedExperiments(): Promise<ManagedExperiment[]> {
+  const records = await prisma.experiment.findMany({ orderBy: { createdAt: 'asc' } });
+  return records.map((record) => toManagedExperiment(record));
+}
+
+/**
+ * Get an experiment with its lifecycle fields (uncached)
+ */
+export async function getManagedExperiment(experimentId: string): Promise<ManagedExperiment | null> {
+  const record = await prisma.experiment.findUnique({ where: { id: experimentId } });
+  return record ? toManagedExperiment(record) : null;
+}
+
+/**
+ * Create an experiment as a draft
+ *
+ * @throws ExperimentConfigError if the definition is invalid
+ */
+export async function createExperiment(input: ExperimentCreateInput): Promise<ManagedExperiment> {
+  assertValidExperiment({
+    id: input.id,
+    name: input.name,
+    description: input.description,
+    variants: input.variants,
+    active: false,
+    trafficAllocation: input.trafficAllocation,
+    startDate: input.startDate ?? undefined,
+    endDate: input.endDate ?? undefined,
+  });
+
+  const record = await prisma.experiment.create({
+    data: {
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      variants: input.variants,
+      trafficAllocation: input.trafficAllocation,
+      primaryMetric: input.primaryMetric ?? null,
+      startDate: toDateValue(input.startDate),
+      endDate: toDateValue(input.endDate),
+    },
+  });
+
+  invalidateExperimentConfigCache();
+  return toManagedExperiment(record);
+}
+
+/**
+ * Edit an experiment's details, variant weights or schedule
+ * Variants cannot be added or removed once created, since exposures refer
+ * to them; only their weights change.
+ *
+ * @returns Updated experiment, or null if not found
+ * @throws ExperimentConfigError if stopped (409) or the result is invalid
+ */
+export async function updateExperiment(
+  experimentId: string,
+  changes: ExperimentUpdateInput
+): Promise<ManagedExperiment | null> {
+  const record = await prisma.experiment.findUnique({ where: { id: experimentId } });
+
+  if (!record) {
+    return null;
+  }
+
+  if (record.status === 'STOPPED') {
+    throw new ExperimentConfigError('Stopped experiments cannot be edited', 409);
+  }
+
+  const variants = parseVariants(record.variants);
+  const unknownVariant = Object.keys(changes.weights ?? {}).find(
+    (variantId) => !variants.some((variant) => variant.id === variantId)
+  );
+
+  if (unknownVariant) {
+    throw new ExperimentConfigError(`Unknown variant "${unknownVariant}"`);
+  }
+
+  const current = toExperiment(record);
+  const updated: Experiment = {
+    ...current,
+    name: changes.name ?? current.name,
+    description: changes.description ?? current.description,
+    variants: variants.map((variant) => ({
+      ...variant,
+      weight: changes.weights?.[variant.id] ?? variant.weight,
+    })),
+    trafficAllocation: changes.trafficAllocation ?? current.trafficAllocation,
+    startDate: changes.startDate === undefined ? current.startDate : (changes.startDate ?? undefined),
+    endDate: changes.endDate === undefined ? current.endDate : (changes.endDate ?? undefined),
+  };
+
+  assertValidExperiment(updated);
+
+  const saved = await prisma.experiment.update({
+    where: { id: experimentId },
+    data: {
+      name: changes.name,
+      description: changes.description,
+      variants: changes.weights
+        ? (updated.variants as unknown as Prisma.InputJsonArray)
+        : undefined,
+      trafficAllocation: changes.trafficAllocation,
+      primaryMetric: changes.primaryMetric,
+      startDate: toDateValue(changes.startDate),
+      endDate: toDateValue(changes.endDate),
+    },
+  });
+
+  invalidateExperimentConfigCache();
+  return toManagedExperiment(saved);
+}
+
+/**
+ * Start, pause or stop an experiment, or declare its winner
+ * Declaring a winner stops the experiment and serves the winning variant
+ * to 100% of traffic; existing assignments stop counting.
+ *
+ * @param experimentId - Experiment ID
+ * @param action - Lifecycle action
+ * @param winnerVariantId - Winning variant (declare_winner only)
+ * @returns Updated experiment, or null if not found
+ * @throws ExperimentConfigError if not allowed from the current status (409)
+ *         or the winner is not a variant of the experiment
+ */
+export async function applyExperimentAction(
+  experimentId: string,
+  action: ExperimentStatusAction,
+  winnerVariantId?: string
+): Promise<ManagedExperiment | null> {
+  const record = await prisma.experiment.findUnique({ where: { id: experimentId } });
+
+  if (!record) {
+    return null;
+  }
+
+  if (!ACTION_ALLOWED_FROM[action].includes(record.status)) {
+    throw new ExperimentConfigError(
+      `Cannot ${action.replace('_', ' ')} an experiment that is ${record.status.toLowerCase()}`,
+      409
+    );
+  }
+
+  if (
+    action === 'declare_winner' &&
+    !parseVariants(record.variants).some((variant) => variant.id === winnerVariantId)
+  ) {
+    throw new ExperimentConfigError(`Unknown variant "${winnerVariantId}"`);
+  }
+
+  const saved = await prisma.experiment.update({
+    where: { id: experimentId },
+    data: {
+      status: ACTION_STATUS[action],
+      winnerVariantId: action === 'declare_winner' ? winnerVariantId : undefined,
+    },
+  });
+
+  invalidateExperimentConfigCache();
+  return toManagedExperiment(saved);
+}
@@ -0,0 +1,77 @@
+/**
+ * Experiment Variants for Server Components
+ *
+ * Reads the assignments made by middleware (see
+ * `@/lib/experiment-assignment`) so server components render the
+ * assigned variant directly. Pass the result to `ExperimentProvider` so
+ * `useExperiment` hydrates with the same variant and uses the stored
+ * experiment definitions (see `@/lib/experiment-store`).
+ */
+
+import { cookies, headers } from 'next/headers';
+
+import {
+  EXPERIMENT_COOKIE_NAME,
+  isBotUserAgent,
+  parseExperimentAssignments,
+  type Experiment,
+} from './ab-testing';
+import { resolveExperimentVariants } from './experiment-assignment';
+import { getExperimentConfigs } from './experiment-store';
+
+/**
+ * Variants resolved for the current request
+ */
+export interface ServerExperimentAssignments {
+  /** Map of experiment ID to variant ID (control when not assigned) */
+  variants: Record<string, string>;
+  /** Whether the request comes from a bot (always control, never tracked) */
+  isBot: boolean;
+  /** Experiment definitions by ID, used by `useExperiment` */
+  experiments: Record<string, Experiment>;
+}
+
+/**
+ * Get the variants for the current request (server components only)
+ *
+ * @example
+ * ```tsx
+ * export default async function Page() {
+ *   const experiments = await getServerExperimentAssignments();
+ *
+ *   return (
+ *     <ExperimentProvider value={experiments}>
+ *       <Hero />
+ *     </ExperimentProvider>
+ *   );
+ * }
+ * ```
+ */
+export async function getServerExperimentAssignments(): Promise<ServerExperimentAssignments> {
+  const [cookieStore, headersList, experiments] = await Promise.all([
+    cookies(),
+    headers(),
+    getExperimentConfigs(),
+  ]);
+
+  const isBot = isBotUserAgent(headersList.get('user-agent'));
+  const assignments = parseExperimentAssignments(cookieStore.get(EXPERIMENT_COOKIE_NAME)?.value);
+
+  return {
+    variants: resolveExperimentVariants(assignments, isBot, experiments),
+    isBot,
+    experiments: Object.fromEntries(experiments.map((experiment) => [experiment.id, experiment])),
+  };
+}
+
+/**
+ * Get the variant for one experiment (server components only)
+ *
+ * @param experimentId - Experiment ID
+ * @returns Variant ID (winner or control when not assigned; 'A' for an
+ *          unknown experiment)
+ */
+export async function getServerVariant(experimentId: string): Promise<string> {
+  const { variants } = await getServerExperimentAssignments();
+  return variants[experimentId] ?? 'A';
+}
@@ -0,0 +1,382 @@
+/**
+ * Durable Job Queue (Postgres via Prisma)
+ *
+ * Persisted background jobs that survive crashes, deploys and serverless
+ * timeouts. Runs on the primary database, so no Redis is required.
+ *
+ * Features:
+ * - Idempotent enqueue (one job per idempotency key per queue)
+ * - Safe concurrent claiming with `FOR UPDATE SKIP LOCKED`
+ * - Retries with exponential backoff
+ * - Dead-letter state once retries are exhausted
+ * - Stale lock recovery for workers that died mid-job
+ * - Admin listing and re-drive of failed jobs
+ *
+ * Usage:
+ * ```typescript
+ * await enqueueJob('receipt-verification', payload, {
+ *   idempotencyKey: receiptId,
+ * });
+ * ```
+ *
+ * Jobs are executed by the worker in `src/jobs/worker.ts`.
+ */
+
+import { Prisma, JobStatus, type Job } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Options when enqueueing a job
+ */
+export interface EnqueueJobOptions {
+  /** Deduplication key (e.g. receiptId); repeated enqueues return the existing job */
+  idempotencyKey?: string;
+  /** Maximum attempts before the job is dead-lettered */
+  maxAttempts?: number;
+  /** Delay before the first attempt (ms) */
+  delayMs?: number;
+}
+
+/**
+ * Result of an enqueue call
+ */
+export interface EnqueueJobResult {
+  job: Job;
+  /** False when an existing job with the same idempotency key was returned */
+  created: boolean;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface ListJobsOptions {
+  queue?: string;
+  status?: JobStatus;
+  page?: number;
+  limit?: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Default maximum attempts per job
+ */
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Backoff base delay (ms) - doubled for each failed attempt
+ */
+const BACKOFF_BASE_MS = 30 * 1000;
+
+/**
+ * Backoff ceiling (ms)
+ */
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Running jobs locked for longer than this are assumed abandoned
+ */
+export const STALE_LOCK_MS = 15 * 60 * 1000;
+
+/**
+ * Max length of stored error messages
+ */
+const MAX_ERROR_LENGTH = 2000;
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+/**
+ * Add a job to a queue
+ *
+ * With an idempotency key, enqueueing is a no-op if a job with the same
+ * key already exists on the queue (whatever its status); use
+ * `retryJob` to re-drive a dead job.
+ *
+ * @param queue - Queue name
+ * @param payload - JSON-serialisable job payload
+ * @param options - Enqueue options
+ */
+export async function enqueueJob(
+  queue: string,
+  payload: Prisma.InputJsonValue,
+  options: EnqueueJobOptions = {}
+): Promise<EnqueueJobResult> {
+  const { idempotencyKey, maxAttempts = DEFAULT_MAX_ATTEMPTS, delayMs = 0 } = options;
+
+  if (idempotencyKey) {
+    const existing = await prisma.job.findUnique({
+      where: { queue_idempotencyKey: { queue, idempotencyKey } },
+    });
+    if (existing) {
+      return { job: existing, created: false };
+    }
+  }
+
+  try {
+    const job = await prisma.job.create({
+      data: {
+        queue,
+        payload,
+        idempotencyKey,
+        maxAttempts,
+        runAt: new Date(Date.now() + delayMs),
+      },
+    });
+
+    return { job, created: true };
+  } catch (error) {
+    // Lost a race with a concurrent enqueue of the same key
+    if (
+      idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      const job = await prisma.job.findUniqueOrThrow({
+        where: { queue_idempotencyKey: { queue, idempotencyKey } },
+      });
+      return { job, created: false };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// CLAIM / COMPLETE / FAIL
+// ============================================================================
+
+/**
+ * Atomically claim the next runnable job on a queue
+ *
+ * Uses `FOR UPDATE SKIP LOCKED` so concurrent workers never claim the
+ * same job. Increments the attempt counter on claim.
+ *
+ * @param queue - Queue name
+ * @param workerId - Identifier of the claiming worker
+ * @returns Claimed job, or null if none are due
+ */
+export async function claimNextJob(
+  queue: string,
+  workerId: string
+): Promise<Job | null> {
+  const claimed = await prisma.$queryRaw<Job[]>`
+    UPDATE "jobs"
+    SET "status" = 'RUNNING'::"JobStatus",
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "jobs"
+      WHERE "queue" = ${queue}
+        AND "status" = 'PENDING'::"JobStatus"
+        AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return claimed[0] ?? null;
+}
+
+/**
+ * Atomically claim a specific job, if it is due
+ *
+ * For running a job as soon as it is enqueued rather than waiting for a
+ * worker pass. Increments the attempt counter on claim.
+ *
+ * @param jobId - Job to claim
+ * @param workerId - Identifier of the claiming worker
+ * @returns Claimed job, or null if it is not pending or already claimed
+ */
+export async function claimJob(jobId: string, workerId: string): Promise<Job | null> {
+  const claimed = await prisma.$queryRaw<Job[]>`
+    UPDATE "jobs"
+    SET "status" = 'RUNNING'::"JobStatus",
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = ${jobId}
+      AND "status" = 'PENDING'::"JobStatus"
+      AND "runAt" <= NOW()
+    RETURNING *
+  `;
+
+  return claimed[0] ?? null;
+}
+
+/**
+ * Mark a claimed job as completed
+ */
+export async function completeJob(
+  jobId: string,
+  result?: Prisma.InputJsonValue
+): Promise<void> {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: JobStatus.COMPLETED,
+      result,
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  });
+}
+
+/**
+ * Calculate the retry delay after a failed attempt
+ *
+ * @param attempts - Attempts made so far (1 after the first failure)
+ * @returns Delay in milliseconds (exponential, capped)
+ */
+export function computeBackoffDelay(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** exponent);
+}
+
+/**
+ * Record a failed attempt
+ *
+ * Reschedules the job with exponential backoff, or moves it to the
+ * dead-letter state once `maxAttempts` is reached.
+ *
+ * @returns Updated job
+ */
+export async function failJob(job: Job, error: unknown): Promise<Job> {
+  const message = (error instanceof Error ? error.message : String(error)).slice(
+    0,
+    MAX_ERROR_LENGTH
+  );
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  return prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: exhausted ? JobStatus.DEAD : JobStatus.PENDING,
+      runAt: exhausted ? job.runAt : new Date(Date.now() + computeBackoffDelay(job.attempts)),
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+}
+
+/**
+ * Release jobs whose worker died mid-run
+ *
+ * Stale RUNNING jobs count the interrupted attempt as a failure so a job
+ * that repeatedly crashes its worker still ends up dead-lettered.
+ *
+ * @returns Released jobs, as rescheduled or dead-lettered
+ */
+export async function releaseStaleJobs(
+  queue?: string,
+  staleAfterMs: number = STALE_LOCK_MS
+): Promise<Job[]> {
+  const staleJobs = await prisma.job.findMany({
+    where: {
+      status: JobStatus.RUNNING,
+      lockedAt: { lt: new Date(Date.now() - staleAfterMs) },
+      ...(queue && { queue }),
+    },
+  });
+
+  const released: Job[] = [];
+  for (const job of staleJobs) {
+    released.push(await failJob(job, new Error(`Worker ${job.lockedBy ?? 'unknown'} timed out`)));
+  }
+
+  return released;
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * List jobs for the admin dashboard
+ */
+export async function listJobs(options: ListJobsOptions = {}): Promise<{
+  jobs: Job[];
+  total: number;
+  page: number;
+  limit: number;
+}> {
+  const { queue, status, page = 1, limit = 50 } = options;
+  const where: Prisma.JobWhereInput = {
+    ...(queue && { queue }),
+    ...(status && { status }),
+  };
+
+  const [jobs, total] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      orderBy: { updatedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.job.count({ where }),
+  ]);
+
+  return { jobs, total, page, limit };
+}
+
+/**
+ * Count jobs per queue and status
+ */
+export async function getJobCounts(): Promise<
+  Array<{ queue: string; status: JobStatus; count: number }>
+> {
+  const groups = await prisma.job.groupBy({
+    by: ['queue', 'status'],
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({
+    queue: group.queue,
+    status: group.status,
+    count: group._count._all,
+  }));
+}
+
+/**
+ * Re-drive a dead (or stuck pending) job
+ *
+ * Resets the attempt counter and schedules it to run immediately.
+ *
+ * @returns Updated job, or null if the job does not exist or is not re-drivable
+ */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  const result = await prisma.job.updateMany({
+    where: {
+      id: jobId,
+      status: { in: [JobStatus.DEAD, JobStatus.PENDING] },
+    },
+    data: {
+      status: JobStatus.PENDING,
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return prisma.job.findUnique({ where: { id: jobId } });
+}
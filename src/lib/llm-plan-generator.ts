@@ -33,6 +33,25 @@ Structure your plans with:
 
 Use clear, professional language. Avoid jargon unless necessary, and define technical terms when used.`;
 
+/**
+ * Sections the default system prompt asks for, in order
+ */
+export const PLAN_SECTIONS = [
+  'Executive Summary',
+  'Current State Assessment',
+  'Strategic Vision',
+  'Implementation Roadmap',
+  'Key Success Metrics',
+  'Risk Mitigation',
+  'Resource Requirements',
+  'Next Steps',
+] as const;
+
+/**
+ * Model used when the caller does not choose one
+ */
+export const DEFAULT_PLAN_MODEL = 'claude-3-5-sonnet-20241022';
+
 // Default prompt template
 const DEFAULT_PROMPT_TEMPLATE = `Generate a comprehensive AI-native transformation plan for the following organization:
 
@@ -63,6 +82,44 @@ Additional Context:
 
 Please generate a detailed transformation plan that addresses these specific needs and follows the AI-Born framework. The plan should be practical, actionable, and tailored to this organization's unique situation.`;
 
+/**
+ * Streamed plan output: text as it is generated, then the final usage
+ */
+export type PlanStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; tokenCount: number; finishReason: string };
+
+/**
+ * Request sent to a plan model
+ */
+export interface PlanModelRequest {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  system: string;
+  prompt: string;
+  /** Text the response continues from (resuming an interrupted generation) */
+  prefill?: string;
+}
+
+/**
+ * Options for streaming a plan
+ */
+export interface PlanStreamOptions extends LLMGenerationOptions {
+  /** Content generated by an earlier attempt; the model continues from it */
+  prefill?: string;
+}
+
+/**
+ * Model that streams plan text
+ *
+ * Stopping iteration early must stop generation, so cancelling a plan does
+ * not keep paying for tokens.
+ */
+export interface PlanModel {
+  stream(request: PlanModelRequest): AsyncIterable<PlanStreamEvent>;
+}
+
 /**
  * Initialize Anthropic client
  */
@@ -150,7 +207,7 @@ export async function generatePlan(
     const userPrompt = buildPrompt(context, options.systemPrompt);
 
     // Default options
-    const model = options.model || 'claude-3-5-sonnet-20241022';
+    const model = options.model || DEFAULT_PLAN_MODEL;
     const maxTokens = options.maxTokens || 4096;
     const temperature = options.temperature ?? 0.7;
 
@@ -331,40 +388,108 @@ export function estimateGenerationCost(
   };
 }
 
+/**
+ * Claude plan model
+ * Breaking out of the stream aborts the underlying request.
+ */
+export const anthropicPlanModel: PlanModel = {
+  async *stream(request) {
+    const client = getAnthropicClient();
+    // The API rejects a final assistant turn ending in whitespace
+    const prefill = request.prefill?.trimEnd();
+
+    const stream = client.messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+        ...(prefill ? [{ role: 'assistant' as const, content: prefill }] : []),
+      ],
+    });
+
+    for await (const chunk of stream) {
+      if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'text_delta'
+      ) {
+        yield { type: 'text', text: chunk.delta.text };
+      }
+    }
+
+    const message = await stream.finalMessage();
+
+    yield {
+      type: 'done',
+      tokenCount: message.usage.input_tokens + message.usage.output_tokens,
+      finishReason: message.stop_reason || 'end_turn',
+    };
+  },
+};
+
 /**
  * Stream plan generation (for real-time updates)
- * Note: This requires streaming API support
+ *
+ * @param planModel - Model to stream from (defaults to Claude)
  */
-export async function* generatePlanStream(
+export function generatePlanStream(
   context: LLMPromptContext,
-  options: LLMGenerationOptions = {}
-): AsyncGenerator<string, void, unknown> {
-  const client = getAnthropicClient();
-
-  const userPrompt = buildPrompt(context, options.systemPrompt);
-  const model = options.model || 'claude-3-5-sonnet-20241022';
-  const maxTokens = options.maxTokens || 4096;
-  const temperature = options.temperature ?? 0.7;
-
-  const stream = await client.messages.stream({
-    model,
-    max_tokens: maxTokens,
-    temperature,
+  options: PlanStreamOptions = {},
+  planModel: PlanModel = anthropicPlanModel
+): AsyncIterable<PlanStreamEvent> {
+  return planModel.stream({
+    model: options.model || DEFAULT_PLAN_MODEL,
+    maxTokens: options.maxTokens || 4096,
+    temperature: options.temperature ?? 0.7,
     system: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: userPrompt,
-      },
-    ],
+    prompt: buildPrompt(context, options.systemPrompt),
+    ...(options.prefill && { prefill: options.prefill }),
   });
+}
 
-  for await (const chunk of stream) {
-    if (
-      chunk.type === 'content_block_delta' &&
-      chunk.delta.type === 'text_delta'
-    ) {
-      yield chunk.delta.text;
-    }
-  }
+/**
+ * Build the prompt for rewriting one section of an existing plan
+ *
+ * @param planPrompt - Prompt the plan was generated from (`OrgPlan.prompt`)
+ */
+export function buildSectionPrompt(planPrompt: string, content: string, heading: string): string {
+  return `${planPrompt}
+
+The current plan is below. Rewrite only its "${heading}" section, keeping the rest of the plan in mind and the same markdown style. Reply with that section alone, starting with its heading, and stop before the next section.
+
+<plan>
+${content}
+</plan>`;
+}
+
+/**
+ * Stream a rewrite of one section of an existing plan
+ *
+ * The response is prefilled with the section's heading line, so the stream
+ * starts with the section body.
+ *
+ * @param headingLine - The section's heading as it appears in the plan
+ * @param planModel - Model to stream from (defaults to Claude)
+ */
+export function generatePlanSectionStream(
+  planPrompt: string,
+  content: string,
+  headingLine: string,
+  options: LLMGenerationOptions = {},
+  planModel: PlanModel = anthropicPlanModel
+): AsyncIterable<PlanStreamEvent> {
+  const heading = headingLine.replace(/^#+\s+/, '').trim();
+
+  return planModel.stream({
+    model: options.model || DEFAULT_PLAN_MODEL,
+    maxTokens: options.maxTokens || 1024,
+    temperature: options.temperature ?? 0.7,
+    system: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+    prompt: buildSectionPrompt(planPrompt, content, heading),
+    prefill: headingLine,
+  });
 }
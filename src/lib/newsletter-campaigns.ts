@@ -0,0 +1,738 @@
+/**
+ * Newsletter Campaigns
+ *
+ * Compose newsletter issues and broadcast them to confirmed subscribers.
+ * A campaign is an MDX / Markdown body plus a segment (interest, geo and
+ * source filters from `@/lib/newsletter-subscribers`).
+ *
+ * Features:
+ * - Test sends to admin addresses before broadcasting
+ * - Broadcasts run in throttled batches on the durable job queue
+ *   (`newsletter-broadcast` queue, handled by `src/jobs/newsletter-broadcast.ts`)
+ * - Per-recipient send, open and click status (opens and clicks arrive as
+ *   Resend webhook events)
+ * - Sends the outbox retries in the background stay SENDING until the retry
+ *   succeeds or gives up (see `src/jobs/email-delivery.ts`)
+ * - Account holders' `newsletter`, `preferredChannel` and `emailFrequency`
+ *   preferences are checked at send time
+ *
+ * Every issue carries a signed unsubscribe link and `List-Unsubscribe`
+ * header (see `sendNewsletterIssueEmail` in `@/lib/email`).
+ */
+
+import { sendNewsletterIssueEmail, type EmailResult, type NewsletterIssue } from '@/lib/email';
+import { type ResendWebhookEvent } from '@/lib/email-outbox';
+import { enqueueJob } from '@/lib/job-queue';
+import { renderNewsletterContent } from '@/lib/newsletter-content';
+import { buildSubscriberWhere, type SubscriberFilters } from '@/lib/newsletter-subscribers';
+import { prisma } from '@/lib/prisma';
+import { sanitizePreferences, type UserPreferences } from '@/types/user';
+
+import type {
+  NewsletterCampaign,
+  NewsletterCampaignRecipient,
+  NewsletterRecipientStatus,
+  Prisma,
+} from '@prisma/client';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Durable queue name for broadcast batches
+ */
+export const NEWSLETTER_BROADCAST_QUEUE = 'newsletter-broadcast';
+
+/**
+ * Recipients sent per batch job
+ */
+export const BROADCAST_BATCH_SIZE = 50;
+
+/**
+ * Pause between sends within a batch (keeps under Resend's 2 requests/second)
+ */
+const SEND_INTERVAL_MS = 600;
+
+/**
+ * Pause between batch jobs
+ */
+const BATCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Maximum addresses per test send
+ */
+export const MAX_TEST_RECIPIENTS = 5;
+
+/**
+ * Minimum gap between newsletter issues for each `emailFrequency` preference
+ * (null = no cap; "never" is handled as an opt-out)
+ */
+const FREQUENCY_WINDOWS_MS: Record<UserPreferences['communication']['emailFrequency'], number | null> = {
+  immediate: null,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  never: null,
+};
+
+/**
+ * Max length of stored error messages
+ */
+const MAX_ERROR_LENGTH = 2000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Subscriber segment a campaign is sent to (always confirmed subscribers)
+ */
+export type CampaignSegment = Pick<SubscriberFilters, 'interest' | 'geo' | 'source'>;
+
+/**
+ * Campaign creation input
+ */
+export interface CreateNewsletterCampaignInput {
+  subject: string;
+  body: string;
+  previewText?: string;
+  segment?: CampaignSegment;
+  /** Admin email */
+  createdBy: string;
+}
+
+/**
+ * Draft update input
+ */
+export type UpdateNewsletterCampaignInput = Partial<Omit<CreateNewsletterCampaignInput, 'createdBy'>>;
+
+/**
+ * Per-recipient totals for a campaign
+ */
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  opened: number;
+  clicked: number;
+}
+
+/**
+ * Campaign with its recipient totals
+ */
+export interface NewsletterCampaignWithStats extends NewsletterCampaign {
+  stats: CampaignStats;
+}
+
+/**
+ * Broadcast batch job payload
+ */
+export interface NewsletterBroadcastJob {
+  campaignId: string;
+  /** Batch number, starting at 1 */
+  batch: number;
+}
+
+/**
+ * Outcome of a broadcast batch
+ */
+export interface CampaignBatchResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+  /** Handed to the outbox for background retry */
+  retrying: number;
+  /** Recipients still pending after this batch */
+  remaining: number;
+}
+
+/**
+ * Outcome of a test send, per address
+ */
+export interface CampaignTestResult {
+  email: string;
+  success: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Empty totals
+ */
+function emptyStats(): CampaignStats {
+  return { total: 0, pending: 0, sent: 0, failed: 0, skipped: 0, opened: 0, clicked: 0 };
+}
+
+/**
+ * Read a stored segment
+ */
+function parseSegment(value: Prisma.JsonValue | null): CampaignSegment {
+  const segment = (value ?? {}) as CampaignSegment;
+  return {
+    interest: segment.interest || undefined,
+    geo: segment.geo || undefined,
+    source: segment.source || undefined,
+  };
+}
+
+/**
+ * Drop empty segment filters for storage
+ */
+function toSegmentJson(segment: CampaignSegment): Prisma.InputJsonValue {
+  return Object.fromEntries(Object.entries(parseSegment(segment as Prisma.JsonValue)).filter(([, value]) => value));
+}
+
+/**
+ * Validate subject and body
+ *
+ * @throws Error if either is empty or the body does not compile
+ */
+async function validateContent(subject: string | undefined, body: string | undefined): Promise<void> {
+  if (subject !== undefined && !subject.trim()) {
+    throw new Error('Subject is required');
+  }
+  if (body !== undefined) {
+    if (!body.trim()) {
+      throw new Error('Body is required');
+    }
+    try {
+      await renderNewsletterContent(body);
+    } catch (error) {
+      throw new Error(`Body does not compile: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Recipient totals for a set of campaigns
+ */
+async function getCampaignStats(campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+  const stats = new Map<string, CampaignStats>(campaignIds.map((id) => [id, emptyStats()]));
+
+  if (campaignIds.length === 0) {
+    return stats;
+  }
+
+  const [byStatus, opened, clicked] = await Promise.all([
+    prisma.newsletterCampaignRecipient.groupBy({
+      by: ['campaignId', 'status'],
+      where: { campaignId: { in: campaignIds } },
+      _count: { _all: true },
+    }),
+    prisma.newsletterCampaignRecipient.groupBy({
+      by: ['campaignId'],
+      where: { campaignId: { in: campaignIds }, openedAt: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.newsletterCampaignRecipient.groupBy({
+      by: ['campaignId'],
+      where: { campaignId: { in: campaignIds }, clickedAt: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const statusKeys: Record<NewsletterRecipientStatus, keyof CampaignStats> = {
+    PENDING: 'pending',
+    // Still being retried by the outbox, so not yet sent or failed
+    SENDING: 'pending',
+    SENT: 'sent',
+    FAILED: 'failed',
+    SKIPPED: 'skipped',
+  };
+
+  for (const row of byStatus) {
+    const entry = stats.get(row.campaignId);
+    if (entry) {
+      entry[statusKeys[row.status]] += row._count._all;
+      entry.total += row._count._all;
+    }
+  }
+  for (const row of opened) {
+    const entry = stats.get(row.campaignId);
+    if (entry) entry.opened = row._count._all;
+  }
+  for (const row of clicked) {
+    const entry = stats.get(row.campaignId);
+    if (entry) entry.clicked = row._count._all;
+  }
+
+  return stats;
+}
+
+/**
+ * Why a recipient should not be sent this issue, based on their account
+ * preferences (subscribers without an account have none)
+ *
+ * @returns "preferences", "frequency", or null to send
+ */
+async function getPreferenceSkipReason(email: string, now: Date): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { preferences: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const preferences = sanitizePreferences((user.preferences ?? {}) as Partial<UserPreferences>);
+  const { emailFrequency, preferredChannel } = preferences.communication;
+
+  if (
+    !preferences.emailNotifications.newsletter ||
+    preferredChannel === 'none' ||
+    emailFrequency === 'never'
+  ) {
+    return 'preferences';
+  }
+
+  const windowMs = FREQUENCY_WINDOWS_MS[emailFrequency];
+  if (windowMs) {
+    const recent = await prisma.newsletterCampaignRecipient.findFirst({
+      where: {
+        email,
+        status: 'SENT',
+        sentAt: { gte: new Date(now.getTime() - windowMs) },
+      },
+      select: { id: true },
+    });
+    if (recent) {
+      return 'frequency';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Render a campaign's issue content
+ */
+export async function renderCampaignIssue(
+  campaign: Pick<NewsletterCampaign, 'subject' | 'body' | 'previewText'>
+): Promise<NewsletterIssue> {
+  return {
+    subject: campaign.subject,
+    content: await renderNewsletterContent(campaign.body),
+    previewText: campaign.previewText,
+  };
+}
+
+// ============================================================================
+// CAMPAIGN MANAGEMENT
+// ============================================================================
+
+/**
+ * Create a draft campaign
+ *
+ * @throws Error if the subject or body is empty or the body does not compile
+ */
+export async function createNewsletterCampaign(
+  input: CreateNewsletterCampaignInput
+): Promise<NewsletterCampaign> {
+  await validateContent(input.subject, input.body);
+
+  return prisma.newsletterCampaign.create({
+    data: {
+      subject: input.subject.trim(),
+      body: input.body,
+      previewText: input.previewText?.trim() || null,
+      segment: toSegmentJson(input.segment ?? {}),
+      createdBy: input.createdBy,
+    },
+  });
+}
+
+/**
+ * List campaigns, newest first, with recipient totals
+ */
+export async function listNewsletterCampaigns(): Promise<NewsletterCampaignWithStats[]> {
+  const campaigns = await prisma.newsletterCampaign.findMany({
+    orderBy: { createdAt: 'desc' },
+  });
+  const stats = await getCampaignStats(campaigns.map((campaign) => campaign.id));
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    stats: stats.get(campaign.id) ?? emptyStats(),
+  }));
+}
+
+/**
+ * Get a campaign with recipient totals
+ */
+export async function getNewsletterCampaign(
+  campaignId: string
+): Promise<NewsletterCampaignWithStats | null> {
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const stats = await getCampaignStats([campaign.id]);
+  return { ...campaign, stats: stats.get(campaign.id) ?? emptyStats() };
+}
+
+/**
+ * Edit a draft
+ *
+ * @returns Updated campaign, or null if it does not exist or is no longer a draft
+ * @throws Error if the new subject or body is invalid
+ */
+export async function updateNewsletterCampaign(
+  campaignId: string,
+  input: UpdateNewsletterCampaignInput
+): Promise<NewsletterCampaign | null> {
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true },
+  });
+
+  if (!campaign || campaign.status !== 'DRAFT') {
+    return null;
+  }
+
+  await validateContent(input.subject, input.body);
+
+  return prisma.newsletterCampaign.update({
+    where: { id: campaignId },
+    data: {
+      ...(input.subject !== undefined && { subject: input.subject.trim() }),
+      ...(input.body !== undefined && { body: input.body }),
+      ...(input.previewText !== undefined && { previewText: input.previewText.trim() || null }),
+      ...(input.segment !== undefined && { segment: toSegmentJson(input.segment) }),
+    },
+  });
+}
+
+/**
+ * Send the campaign to admin addresses with a "[Test]" subject prefix
+ *
+ * Test sends are not recorded as recipients.
+ *
+ * @returns Per-address results, or null if the campaign does not exist
+ */
+export async function sendCampaignTest(
+  campaignId: string,
+  emails: string[]
+): Promise<CampaignTestResult[] | null> {
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const issue = await renderCampaignIssue(campaign);
+  const results: CampaignTestResult[] = [];
+
+  for (const email of emails) {
+    const result = await sendNewsletterIssueEmail(email, issue, { test: true });
+    results.push({ email, success: result.success, error: result.error });
+  }
+
+  await prisma.newsletterCampaign.update({
+    where: { id: campaignId },
+    data: { testSentAt: new Date() },
+  });
+
+  return results;
+}
+
+// ============================================================================
+// BROADCAST
+// ============================================================================
+
+/**
+ * Queue a broadcast batch
+ *
+ * Batches are keyed by campaign and number, so a retried job cannot fork
+ * the broadcast.
+ */
+export async function scheduleCampaignBatch(
+  campaignId: string,
+  batch: number,
+  delayMs = BATCH_INTERVAL_MS
+): Promise<void> {
+  const payload: NewsletterBroadcastJob = { campaignId, batch };
+  await enqueueJob(NEWSLETTER_BROADCAST_QUEUE, { ...payload }, {
+    idempotencyKey: `${campaignId}:${batch}`,
+    delayMs,
+  });
+}
+
+/**
+ * Start broadcasting a draft to its segment
+ *
+ * Snapshots the segment's confirmed subscribers as PENDING recipients and
+ * queues the first batch.
+ *
+ * @returns Recipient count, or null if the campaign does not exist or is not a draft
+ */
+export async function startCampaignBroadcast(
+  campaignId: string
+): Promise<{ recipientCount: number } | null> {
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign || campaign.status !== 'DRAFT') {
+    return null;
+  }
+
+  const subscribers = await prisma.newsletterSubscriber.findMany({
+    where: buildSubscriberWhere({ ...parseSegment(campaign.segment), status: 'CONFIRMED' }),
+    select: { id: true, email: true },
+  });
+
+  // Claim the draft first so a double submit cannot start two broadcasts
+  const claimed = await prisma.newsletterCampaign.updateMany({
+    where: { id: campaignId, status: 'DRAFT' },
+    data: { status: 'SENDING', startedAt: new Date(), recipientCount: subscribers.length },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  await prisma.newsletterCampaignRecipient.createMany({
+    data: subscribers.map((subscriber) => ({
+      campaignId,
+      subscriberId: subscriber.id,
+      email: subscriber.email,
+    })),
+    skipDuplicates: true,
+  });
+
+  await scheduleCampaignBatch(campaignId, 1, 0);
+
+  return { recipientCount: subscribers.length };
+}
+
+/**
+ * Stop a broadcast (or discard a draft)
+ *
+ * Pending recipients are marked SKIPPED; queued batches find the campaign
+ * cancelled and exit.
+ *
+ * @returns Recipients skipped, or null if the campaign does not exist or has finished
+ */
+export async function cancelNewsletterCampaign(
+  campaignId: string
+): Promise<{ skippedRecipients: number } | null> {
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true },
+  });
+
+  if (!campaign || (campaign.status !== 'DRAFT' && campaign.status !== 'SENDING')) {
+    return null;
+  }
+
+  const [, skipped] = await prisma.$transaction([
+    prisma.newsletterCampaign.update({
+      where: { id: campaignId },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    }),
+    prisma.newsletterCampaignRecipient.updateMany({
+      where: { campaignId, status: 'PENDING' },
+      data: { status: 'SKIPPED', skipReason: 'cancelled' },
+    }),
+  ]);
+
+  return { skippedRecipients: skipped.count };
+}
+
+/**
+ * Send the next batch of a broadcast
+ *
+ * Each recipient is re-checked before sending: subscribers who have since
+ * left the list, opted out in their account preferences, received another
+ * issue within their `emailFrequency`, or are suppressed are SKIPPED.
+ * Marks the campaign SENT once no recipients are pending.
+ *
+ * @param options.batchSize - Recipients to process (default BROADCAST_BATCH_SIZE)
+ * @param options.sendIntervalMs - Pause between sends (default SEND_INTERVAL_MS)
+ */
+export async function sendCampaignBatch(
+  campaignId: string,
+  options: { batchSize?: number; sendIntervalMs?: number; now?: Date } = {}
+): Promise<CampaignBatchResult> {
+  const { batchSize = BROADCAST_BATCH_SIZE, sendIntervalMs = SEND_INTERVAL_MS, now = new Date() } = options;
+  const result: CampaignBatchResult = { sent: 0, failed: 0, skipped: 0, retrying: 0, remaining: 0 };
+
+  const campaign = await prisma.newsletterCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign || campaign.status !== 'SENDING') {
+    return result;
+  }
+
+  const recipients = await prisma.newsletterCampaignRecipient.findMany({
+    where: { campaignId, status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+  });
+
+  const subscriberIds = recipients
+    .map((recipient) => recipient.subscriberId)
+    .filter((id): id is string => Boolean(id));
+  const confirmed = new Set(
+    (
+      await prisma.newsletterSubscriber.findMany({
+        where: { id: { in: subscriberIds }, status: 'CONFIRMED' },
+        select: { id: true },
+      })
+    ).map((subscriber) => subscriber.id)
+  );
+
+  const issue = recipients.length > 0 ? await renderCampaignIssue(campaign) : null;
+
+  for (const [index, recipient] of recipients.entries()) {
+    if (index > 0 && sendIntervalMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, sendIntervalMs));
+    }
+
+    const skipReason =
+      recipient.subscriberId && !confirmed.has(recipient.subscriberId)
+        ? 'unsubscribed'
+        : await getPreferenceSkipReason(recipient.email, now);
+
+    if (skipReason || !issue) {
+      await prisma.newsletterCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: { status: 'SKIPPED', skipReason },
+      });
+      result.skipped++;
+      continue;
+    }
+
+    const sendResult = await sendNewsletterIssueEmail(recipient.email, issue);
+    let data: Prisma.NewsletterCampaignRecipientUpdateInput;
+
+    if (sendResult.success) {
+      data = { status: 'SENT', sentAt: new Date(), providerMessageId: sendResult.messageId ?? null };
+      result.sent++;
+    } else if (sendResult.errorCode === 'SUPPRESSED') {
+      data = { status: 'SKIPPED', skipReason: 'suppressed' };
+      result.skipped++;
+    } else if (sendResult.errorCode === 'RETRY_EXHAUSTED' && sendResult.outboxMessageId) {
+      // The outbox retries it in the background; resolved by recordCampaignRetryResult
+      data = {
+        status: 'SENDING',
+        emailMessageId: sendResult.outboxMessageId,
+        lastError: (sendResult.error ?? 'Unknown error').slice(0, MAX_ERROR_LENGTH),
+      };
+      result.retrying++;
+    } else {
+      data = { status: 'FAILED', lastError: (sendResult.error ?? 'Unknown error').slice(0, MAX_ERROR_LENGTH) };
+      result.failed++;
+    }
+
+    await prisma.newsletterCampaignRecipient.update({
+      where: { id: recipient.id },
+      data,
+    });
+  }
+
+  result.remaining = await prisma.newsletterCampaignRecipient.count({
+    where: { campaignId, status: 'PENDING' },
+  });
+
+  if (result.remaining === 0) {
+    await prisma.newsletterCampaign.updateMany({
+      where: { id: campaignId, status: 'SENDING' },
+      data: { status: 'SENT', completedAt: new Date() },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Resolve SENDING recipients once the outbox retries their message
+ *
+ * @param emailMessageId - Outbox message ID
+ * @param sendResult - Result of the background retry
+ * @param final - Whether this was the last retry before dead-lettering
+ * @returns Number of recipients updated (0 for non-campaign messages)
+ */
+export async function recordCampaignRetryResult(
+  emailMessageId: string,
+  sendResult: EmailResult,
+  final: boolean
+): Promise<number> {
+  let data: Prisma.NewsletterCampaignRecipientUpdateManyMutationInput;
+
+  if (sendResult.success) {
+    data = { status: 'SENT', sentAt: new Date(), providerMessageId: sendResult.messageId ?? null, lastError: null };
+  } else if (sendResult.errorCode === 'SUPPRESSED') {
+    data = { status: 'SKIPPED', skipReason: 'suppressed' };
+  } else if (final) {
+    data = { status: 'FAILED', lastError: (sendResult.error ?? 'Unknown error').slice(0, MAX_ERROR_LENGTH) };
+  } else {
+    return 0;
+  }
+
+  const { count } = await prisma.newsletterCampaignRecipient.updateMany({
+    // FAILED too: an admin may retry the dead-lettered job
+    where: { emailMessageId, status: { in: ['SENDING', 'FAILED'] } },
+    data,
+  });
+
+  return count;
+}
+
+// ============================================================================
+// ENGAGEMENT
+// ============================================================================
+
+/**
+ * Record an open or click from a Resend webhook event
+ *
+ * Requires open / click tracking to be enabled for the sending domain in
+ * Resend. Other event types, and emails that are not campaign sends, are
+ * ignored.
+ *
+ * @returns Updated recipient, or null if the event was ignored
+ */
+export async function recordCampaignEngagement(
+  event: ResendWebhookEvent
+): Promise<NewsletterCampaignRecipient | null> {
+  if (event.type !== 'email.opened' && event.type !== 'email.clicked') {
+    return null;
+  }
+
+  const recipient = await prisma.newsletterCampaignRecipient.findUnique({
+    where: { providerMessageId: event.data.email_id },
+    select: { id: true, openedAt: true, clickedAt: true },
+  });
+
+  if (!recipient) {
+    return null;
+  }
+
+  const occurredAt = new Date(event.created_at);
+
+  return prisma.newsletterCampaignRecipient.update({
+    where: { id: recipient.id },
+    data:
+      event.type === 'email.opened'
+        ? { openCount: { increment: 1 }, openedAt: recipient.openedAt ?? occurredAt }
+        : {
+            clickCount: { increment: 1 },
+            clickedAt: recipient.clickedAt ?? occurredAt,
+            // A click implies the email was opened, even if the pixel was blocked
+            openedAt: recipient.openedAt ?? occurredAt,
+          },
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Newsletter Content Rendering
+ *
+ * Renders newsletter issues written in MDX (or plain Markdown, with GFM
+ * tables and autolinks) to email-safe HTML. The result is the body that
+ * `renderNewsletterIssue` / `sendNewsletterIssueEmail` in `@/lib/email`
+ * wrap in the branded layout.
+ *
+ * Issues are authored by admins only; MDX expressions are evaluated.
+ */
+
+import { compileMDX } from 'next-mdx-remote/rsc';
+import remarkGfm from 'remark-gfm';
+
+import { emailMdxComponents } from '@/components/newsletter/email-mdx-components';
+
+/**
+ * Render an issue body to HTML
+ *
+ * @param source - MDX / Markdown source
+ * @returns Body HTML with inline styles
+ * @throws Error if the source does not compile
+ */
+export async function renderNewsletterContent(source: string): Promise<string> {
+  const { content } = await compileMDX({
+    source,
+    components: emailMdxComponents,
+    options: {
+      mdxOptions: {
+        remarkPlugins: [remarkGfm],
+      },
+    },
+  });
+
+  // Loaded lazily: react-dom/server cannot be a static import in the app router
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  return renderToStaticMarkup(content);
+}
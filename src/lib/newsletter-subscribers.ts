@@ -0,0 +1,493 @@
+/**
+ * Newsletter Subscribers
+ *
+ * Durable double opt-in subscriber list shared by the newsletter subscribe,
+ * confirm and unsubscribe routes and the excerpt email capture. One row per
+ * email holds its status, interests, first-touch attribution and consent
+ * timestamps; every signup is also recorded per source in `EmailCapture`.
+ *
+ * Features:
+ * - Re-subscribing merges interests and never downgrades a confirmed subscriber
+ * - Hard bounces and spam complaints (Resend webhook) take subscribers off the list
+ * - Segment listing and facet counts by status, interest, geo and source
+ *
+ * Usage:
+ * ```typescript
+ * const { subscriber, action } = await subscribeToNewsletter({
+ *   email: 'reader@example.com',
+ *   source: 'hero',
+ *   interests: ['governance'],
+ *   attribution: { utmSource: 'linkedin', geo: 'UK' },
+ * });
+ * if (action !== 'updated') {
+ *   await sendNewsletterConfirmationEmail(subscriber.email, token);
+ * }
+ * ```
+ */
+
+import { emailQueries } from '@/lib/db/queries';
+import { prisma } from '@/lib/prisma';
+import type { NewsletterInterest, NewsletterSource } from '@/types/newsletter';
+
+import type {
+  EmailCaptureSource,
+  EmailSuppressionReason,
+  NewsletterSubscriber,
+  NewsletterSubscriberStatus,
+  Prisma,
+} from '@prisma/client';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Signup sources, in display order
+ */
+export const NEWSLETTER_SOURCES: NewsletterSource[] = [
+  'hero',
+  'footer',
+  'excerpt',
+  'bonus',
+  'blog',
+  'popup',
+  'other',
+];
+
+/**
+ * Interest topics, in display order
+ */
+export const NEWSLETTER_INTERESTS: NewsletterInterest[] = [
+  'launch-updates',
+  'ai-native-org',
+  'governance',
+  'agent-architecture',
+  'defensibility',
+  'speaking-events',
+];
+
+/**
+ * Geo facet value (and filter) for subscribers without a detected region
+ */
+export const UNKNOWN_GEO = 'unknown';
+
+/**
+ * EmailCapture source recorded for each newsletter source
+ */
+const CAPTURE_SOURCES: Record<NewsletterSource, EmailCaptureSource> = {
+  hero: 'HERO_EXCERPT',
+  footer: 'FOOTER',
+  excerpt: 'HERO_EXCERPT',
+  bonus: 'BONUS_CLAIM',
+  blog: 'OTHER',
+  popup: 'POPUP',
+  other: 'OTHER',
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Where a signup came from
+ */
+export interface SubscriberAttribution {
+  referrer?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  geo?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Newsletter signup input
+ */
+export interface SubscribeInput {
+  email: string;
+  name?: string;
+  source: NewsletterSource;
+  interests: NewsletterInterest[];
+  attribution?: SubscriberAttribution;
+}
+
+/**
+ * Outcome of a signup
+ *
+ * - created: new subscriber, awaiting confirmation
+ * - pending: already awaiting confirmation (interests merged)
+ * - resubscribed: previously unsubscribed or bounced, awaiting confirmation again
+ * - updated: already confirmed (interests merged, no confirmation needed)
+ */
+export interface SubscribeResult {
+  subscriber: NewsletterSubscriber;
+  action: 'created' | 'pending' | 'resubscribed' | 'updated';
+}
+
+/**
+ * Outcome of a confirm / unsubscribe request
+ */
+export interface SubscriberStatusChange {
+  subscriber: NewsletterSubscriber;
+  /** Subscriber was already in the requested state */
+  unchanged: boolean;
+}
+
+/**
+ * Segment filters for the admin view
+ */
+export interface SubscriberFilters {
+  status?: NewsletterSubscriberStatus;
+  interest?: string;
+  geo?: string;
+  source?: string;
+  /** Email substring */
+  search?: string;
+}
+
+/**
+ * Paginated subscriber segment
+ */
+export interface SubscriberPage {
+  subscribers: NewsletterSubscriber[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Subscriber counts per value of a dimension
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Breakdown of a segment by each dimension
+ */
+export interface SubscriberFacets {
+  status: FacetCount[];
+  interests: FacetCount[];
+  geo: FacetCount[];
+  source: FacetCount[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalise an address for storage and lookups
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Union of two interest lists, preserving order
+ */
+function mergeInterests(current: string[], added: string[]): string[] {
+  return Array.from(new Set([...current, ...added]));
+}
+
+/**
+ * Record the signup against its EmailCapture source (attribution only; failures are logged)
+ */
+async function recordCapture(
+  email: string,
+  input: SubscribeInput,
+  attribution: SubscriberAttribution
+): Promise<void> {
+  try {
+    await emailQueries.capture({
+      email,
+      name: input.name || undefined,
+      source: CAPTURE_SOURCES[input.source],
+      ...attribution,
+    });
+  } catch (error) {
+    console.error('[Newsletter Subscribers] Failed to record email capture:', error);
+  }
+}
+
+/**
+ * EmailCapture source for a newsletter source
+ */
+export function getCaptureSource(source: NewsletterSource): EmailCaptureSource {
+  return CAPTURE_SOURCES[source];
+}
+
+/**
+ * Map a free-form source string to a newsletter source
+ *
+ * @param value - Source sent by the client
+ * @param fallback - Source to use when the value is missing or unknown
+ */
+export function parseNewsletterSource(
+  value: string | undefined,
+  fallback: NewsletterSource = 'other'
+): NewsletterSource {
+  return NEWSLETTER_SOURCES.includes(value as NewsletterSource)
+    ? (value as NewsletterSource)
+    : fallback;
+}
+
+/**
+ * Build the Prisma filter for a subscriber segment
+ */
+export function buildSubscriberWhere(
+  filters: SubscriberFilters
+): Prisma.NewsletterSubscriberWhereInput {
+  const where: Prisma.NewsletterSubscriberWhereInput = {};
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+  if (filters.interest) {
+    where.interests = { has: filters.interest };
+  }
+  if (filters.geo) {
+    where.geo = filters.geo === UNKNOWN_GEO ? null : filters.geo;
+  }
+  if (filters.source) {
+    where.source = filters.source;
+  }
+  if (filters.search) {
+    where.email = { contains: filters.search, mode: 'insensitive' };
+  }
+
+  return where;
+}
+
+// ============================================================================
+// SUBSCRIPTION LIFECYCLE
+// ============================================================================
+
+/**
+ * Find a subscriber by email
+ */
+export async function getSubscriberByEmail(email: string): Promise<NewsletterSubscriber | null> {
+  return prisma.newsletterSubscriber.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+}
+
+/**
+ * Add an email to the newsletter (double opt-in)
+ *
+ * New, unsubscribed and bounced addresses go to PENDING and need to confirm;
+ * pending and confirmed subscribers keep their status and gain any new
+ * interests. Attribution is first-touch: it is only set on creation.
+ */
+export async function subscribeToNewsletter(input: SubscribeInput): Promise<SubscribeResult> {
+  const email = normalizeEmail(input.email);
+  const attribution = input.attribution ?? {};
+  const now = new Date();
+
+  await recordCapture(email, input, attribution);
+
+  const existing = await prisma.newsletterSubscriber.findUnique({ where: { email } });
+
+  if (!existing) {
+    const subscriber = await prisma.newsletterSubscriber.create({
+      data: {
+        email,
+        name: input.name || null,
+        source: input.source,
+        interests: input.interests,
+        consentedAt: now,
+        ...attribution,
+      },
+    });
+    return { subscriber, action: 'created' };
+  }
+
+  if (existing.status === 'UNSUBSCRIBED' || existing.status === 'BOUNCED') {
+    const subscriber = await prisma.newsletterSubscriber.update({
+      where: { id: existing.id },
+      data: {
+        status: 'PENDING',
+        name: input.name || existing.name,
+        interests: input.interests,
+        consentedAt: now,
+        unsubscribedAt: null,
+        bouncedAt: null,
+        ipAddress: attribution.ipAddress,
+        userAgent: attribution.userAgent,
+      },
+    });
+    return { subscriber, action: 'resubscribed' };
+  }
+
+  const subscriber = await prisma.newsletterSubscriber.update({
+    where: { id: existing.id },
+    data: {
+      name: input.name || existing.name,
+      interests: mergeInterests(existing.interests, input.interests),
+    },
+  });
+  return { subscriber, action: existing.status === 'CONFIRMED' ? 'updated' : 'pending' };
+}
+
+/**
+ * Confirm a subscription (double opt-in link)
+ *
+ * Also marks the email's EmailCapture records as verified.
+ *
+ * @returns Status change, or null if the email is not on the list
+ */
+export async function confirmSubscriber(email: string): Promise<SubscriberStatusChange | null> {
+  const existing = await getSubscriberByEmail(email);
+  if (!existing) {
+    return null;
+  }
+  if (existing.status === 'CONFIRMED') {
+    return { subscriber: existing, unchanged: true };
+  }
+
+  const now = new Date();
+  const [subscriber] = await prisma.$transaction([
+    prisma.newsletterSubscriber.update({
+      where: { id: existing.id },
+      data: { status: 'CONFIRMED', confirmedAt: now },
+    }),
+    prisma.emailCapture.updateMany({
+      where: { email: existing.email, verifiedAt: null },
+      data: { doubleOptIn: true, verifiedAt: now },
+    }),
+  ]);
+
+  return { subscriber, unchanged: false };
+}
+
+/**
+ * Unsubscribe an email
+ *
+ * @returns Status change, or null if the email is not on the list
+ */
+export async function unsubscribeSubscriber(email: string): Promise<SubscriberStatusChange | null> {
+  const existing = await getSubscriberByEmail(email);
+  if (!existing) {
+    return null;
+  }
+  if (existing.status === 'UNSUBSCRIBED') {
+    return { subscriber: existing, unchanged: true };
+  }
+
+  const subscriber = await prisma.newsletterSubscriber.update({
+    where: { id: existing.id },
+    data: { status: 'UNSUBSCRIBED', unsubscribedAt: new Date() },
+  });
+
+  return { subscriber, unchanged: false };
+}
+
+/**
+ * Take suppressed addresses off the list
+ *
+ * Hard bounces mark subscribers BOUNCED; spam complaints unsubscribe them.
+ *
+ * @returns Number of subscribers updated
+ */
+export async function markSubscribersSuppressed(
+  emails: string[],
+  reason: EmailSuppressionReason
+): Promise<number> {
+  if (emails.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  const result = await prisma.newsletterSubscriber.updateMany({
+    where: {
+      email: { in: emails.map(normalizeEmail) },
+      status: { in: ['PENDING', 'CONFIRMED'] },
+    },
+    data:
+      reason === 'HARD_BOUNCE'
+        ? { status: 'BOUNCED', bouncedAt: now }
+        : { status: 'UNSUBSCRIBED', unsubscribedAt: now },
+  });
+
+  return result.count;
+}
+
+// ============================================================================
+// SEGMENTATION
+// ============================================================================
+
+/**
+ * List subscribers in a segment, newest first
+ *
+ * @param filters - Status, interest, geo, source and email filters
+ * @param pagination - Page (1-based) and page size
+ */
+export async function listSubscribers(
+  filters: SubscriberFilters,
+  { page = 1, limit = 50 }: { page?: number; limit?: number } = {}
+): Promise<SubscriberPage> {
+  const where = buildSubscriberWhere(filters);
+
+  const [subscribers, total] = await Promise.all([
+    prisma.newsletterSubscriber.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.newsletterSubscriber.count({ where }),
+  ]);
+
+  return { subscribers, total, page, limit };
+}
+
+/**
+ * Break a segment down by status, interest, geo and source
+ *
+ * Counts are largest first; subscribers without a geo are grouped as UNKNOWN_GEO.
+ */
+export async function getSubscriberFacets(filters: SubscriberFilters): Promise<SubscriberFacets> {
+  const where = buildSubscriberWhere(filters);
+
+  const [byStatus, byGeo, bySource, interestCounts] = await Promise.all([
+    prisma.newsletterSubscriber.groupBy({
+      by: ['status'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.newsletterSubscriber.groupBy({
+      by: ['geo'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.newsletterSubscriber.groupBy({
+      by: ['source'],
+      where,
+      _count: { _all: true },
+    }),
+    Promise.all(
+      NEWSLETTER_INTERESTS.map((interest) =>
+        prisma.newsletterSubscriber.count({
+          where: { AND: [where, { interests: { has: interest } }] },
+        })
+      )
+    ),
+  ]);
+
+  const sortByCount = (counts: FacetCount[]): FacetCount[] =>
+    counts.filter((facet) => facet.count > 0).sort((a, b) => b.count - a.count);
+
+  return {
+    status: sortByCount(byStatus.map((row) => ({ value: row.status, count: row._count._all }))),
+    interests: sortByCount(
+      NEWSLETTER_INTERESTS.map((interest, index) => ({
+        value: interest,
+        count: interestCounts[index],
+      }))
+    ),
+    geo: sortByCount(byGeo.map((row) => ({ value: row.geo ?? UNKNOWN_GEO, count: row._count._all }))),
+    source: sortByCount(bySource.map((row) => ({ value: row.source, count: row._count._all }))),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * OCR Provider Selection
+ *
+ * Resolves the OCR backend used by the receipt pipeline from configuration.
+ *
+ * Environment Variables:
+ * - OCR_PROVIDER: "tesseract" | "textract" (optional)
+ *
+ * When OCR_PROVIDER is unset, Textract is used if its credentials are
+ * configured; otherwise the offline Tesseract backend is used.
+ */
+
+import { createTesseractProvider } from './tesseract';
+import { createTextractProvider, isTextractConfigured } from './textract';
+
+import type { OcrProvider, OcrProviderName } from './types';
+
+export type { OCRLine, OCRResult, OcrBoundingBox, OcrProvider, OcrProviderName } from './types';
+export { createTesseractProvider } from './tesseract';
+export { createTextractProvider, isTextractConfigured } from './textract';
+
+let activeProvider: OcrProvider | null = null;
+
+/**
+ * Determine which backend the current configuration selects
+ */
+export function resolveOcrProviderName(): OcrProviderName {
+  const configured = process.env.OCR_PROVIDER?.toLowerCase();
+
+  if (configured === 'tesseract' || configured === 'textract') {
+    if (configured === 'textract' && !isTextractConfigured()) {
+      console.warn(
+        '[OCR] OCR_PROVIDER=textract but AWS Textract credentials are missing. Falling back to Tesseract.'
+      );
+      return 'tesseract';
+    }
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`[OCR] Unknown OCR_PROVIDER "${configured}". Falling back to default.`);
+  }
+
+  return isTextractConfigured() ? 'textract' : 'tesseract';
+}
+
+/**
+ * Create a provider instance by name
+ */
+export function createOcrProvider(name: OcrProviderName): OcrProvider {
+  return name === 'textract' ? createTextractProvider() : createTesseractProvider();
+}
+
+/**
+ * Get the shared OCR provider for this process
+ */
+export function getOcrProvider(): OcrProvider {
+  if (!activeProvider) {
+    activeProvider = createOcrProvider(resolveOcrProviderName());
+  }
+  return activeProvider;
+}
+
+/**
+ * Release the shared provider (e.g. at the end of a worker run)
+ */
+export async function disposeOcrProvider(): Promise<void> {
+  const provider = activeProvider;
+  activeProvider = null;
+  await provider?.dispose?.();
+}
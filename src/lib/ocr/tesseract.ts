@@ -0,0 +1,222 @@
+/**
+ * Tesseract OCR Provider
+ *
+ * Offline OCR backend built on tesseract.js. Runs entirely in-process,
+ * so receipts can be processed in development and tests without any
+ * cloud credentials.
+ *
+ * Environment Variables:
+ * - OCR_TESSERACT_LANG: Language(s) to load (default: "eng")
+ * - OCR_TESSERACT_LANG_PATH: Directory or URL holding *.traineddata files
+ *   (set this to a local directory for fully offline operation)
+ * - OCR_TESSERACT_CACHE_PATH: Where downloaded language data is cached
+ */
+
+import { createWorker, type Line, type Page, type Worker } from 'tesseract.js';
+
+import type { OCRLine, OCRResult, OcrProvider } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Image formats Tesseract can read directly (PDFs must be rasterised first)
+ */
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// ============================================================================
+// IMAGE DIMENSIONS
+// ============================================================================
+
+/**
+ * Read pixel dimensions from a PNG, JPEG or WebP header
+ *
+ * Used to normalise Tesseract's pixel bounding boxes to the 0-1 range
+ * returned by other providers. Returns null for unrecognised headers.
+ */
+export function readImageDimensions(
+  buffer: Buffer
+): { width: number; height: number } | null {
+  // PNG: IHDR chunk immediately follows the 8-byte signature
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return {
+          height: buffer.readUInt16BE(offset + 5),
+          width: buffer.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with VP8 / VP8L / VP8X chunk
+  if (
+    buffer.length >= 30 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    const chunk = buffer.toString('ascii', 12, 16);
+    if (chunk === 'VP8X') {
+      return {
+        width: 1 + buffer.readUIntLE(24, 3),
+        height: 1 + buffer.readUIntLE(27, 3),
+      };
+    }
+    if (chunk === 'VP8 ') {
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === 'VP8L') {
+      const bits = buffer.readUInt32LE(21);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// RESULT MAPPING
+// ============================================================================
+
+/**
+ * Flatten Tesseract's block → paragraph → line hierarchy
+ */
+function collectLines(page: Page): Line[] {
+  return (page.blocks ?? []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) => paragraph.lines)
+  );
+}
+
+/**
+ * Convert a Tesseract page into the provider-neutral OCR result
+ */
+export function mapTesseractPage(
+  page: Page,
+  dimensions: { width: number; height: number } | null
+): OCRResult {
+  const rawLines = collectLines(page);
+
+  // Fall back to the extent of the recognised text if the header was unreadable
+  const width =
+    dimensions?.width || Math.max(1, ...rawLines.map((line) => line.bbox.x1));
+  const height =
+    dimensions?.height || Math.max(1, ...rawLines.map((line) => line.bbox.y1));
+
+  const lines: OCRLine[] = rawLines
+    .map((line) => ({
+      text: line.text.trim(),
+      confidence: line.confidence / 100,
+      boundingBox: {
+        left: line.bbox.x0 / width,
+        top: line.bbox.y0 / height,
+        width: (line.bbox.x1 - line.bbox.x0) / width,
+        height: (line.bbox.y1 - line.bbox.y0) / height,
+      },
+    }))
+    .filter((line) => line.text.length > 0);
+
+  const text = lines.map((line) => line.text).join('\n');
+
+  return {
+    text,
+    confidence: page.confidence / 100,
+    lines,
+    provider: 'tesseract',
+    success: text.length > 0,
+    error: text.length > 0 ? undefined : 'No text recognised',
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Create a Tesseract-backed OCR provider
+ *
+ * The worker is created lazily on first use and reused across receipts.
+ */
+export function createTesseractProvider(): OcrProvider {
+  let workerPromise: Promise<Worker> | null = null;
+
+  const getWorker = (): Promise<Worker> => {
+    if (!workerPromise) {
+      workerPromise = createWorker(process.env.OCR_TESSERACT_LANG || 'eng', undefined, {
+        ...(process.env.OCR_TESSERACT_LANG_PATH && {
+          langPath: process.env.OCR_TESSERACT_LANG_PATH,
+        }),
+        ...(process.env.OCR_TESSERACT_CACHE_PATH && {
+          cachePath: process.env.OCR_TESSERACT_CACHE_PATH,
+        }),
+      }).catch((error) => {
+        // Allow a later call to retry worker initialisation
+        workerPromise = null;
+        throw error;
+      });
+    }
+    return workerPromise;
+  };
+
+  return {
+    name: 'tesseract',
+
+    supports(mimeType: string): boolean {
+      return SUPPORTED_MIME_TYPES.includes(mimeType);
+    },
+
+    async recognize(buffer: Buffer, mimeType: string): Promise<OCRResult> {
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+        return {
+          text: '',
+          confidence: 0,
+          lines: [],
+          provider: 'tesseract',
+          success: false,
+          error: `Tesseract cannot read ${mimeType} files`,
+        };
+      }
+
+      try {
+        const worker = await getWorker();
+        const { data } = await worker.recognize(buffer, {}, { text: true, blocks: true });
+
+        return mapTesseractPage(data, readImageDimensions(buffer));
+      } catch (error) {
+        console.error('[OCR] Tesseract recognition failed:', error);
+
+        return {
+          text: '',
+          confidence: 0,
+          lines: [],
+          provider: 'tesseract',
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    },
+
+    async dispose(): Promise<void> {
+      if (!workerPromise) return;
+      const pending = workerPromise;
+      workerPromise = null;
+      await (await pending).terminate();
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * AWS Textract OCR Provider
+ *
+ * Cloud OCR backend using Textract's synchronous DetectDocumentText API.
+ * Handles images and single-page PDFs.
+ *
+ * Environment Variables:
+ * - AWS_TEXTRACT_REGION: Textract region (e.g. "us-east-1")
+ * - AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY: IAM credentials
+ */
+
+import {
+  DetectDocumentTextCommand,
+  TextractClient,
+  type Block,
+} from '@aws-sdk/client-textract';
+
+import type { OCRLine, OCRResult, OcrProvider } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Formats accepted by DetectDocumentText
+ */
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+/**
+ * Check if Textract credentials are configured
+ */
+export function isTextractConfigured(): boolean {
+  return !!(
+    process.env.AWS_TEXTRACT_REGION &&
+    process.env.AWS_ACCESS_KEY_ID &&
+    process.env.AWS_SECRET_ACCESS_KEY
+  );
+}
+
+// ============================================================================
+// RESULT MAPPING
+// ============================================================================
+
+/**
+ * Convert Textract blocks into the provider-neutral OCR result
+ */
+export function mapTextractBlocks(blocks: Block[]): OCRResult {
+  const lines: OCRLine[] = blocks
+    .filter((block) => block.BlockType === 'LINE' && block.Text)
+    .map((block) => {
+      const box = block.Geometry?.BoundingBox;
+      return {
+        text: (block.Text ?? '').trim(),
+        confidence: (block.Confidence ?? 0) / 100,
+        boundingBox: box
+          ? {
+              left: box.Left ?? 0,
+              top: box.Top ?? 0,
+              width: box.Width ?? 0,
+              height: box.Height ?? 0,
+            }
+          : null,
+      };
+    });
+
+  const text = lines.map((line) => line.text).join('\n');
+  const confidence =
+    lines.length > 0
+      ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length
+      : 0;
+
+  return {
+    text,
+    confidence,
+    lines,
+    provider: 'textract',
+    success: text.length > 0,
+    error: text.length > 0 ? undefined : 'No text recognised',
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Create a Textract-backed OCR provider
+ *
+ * @param client - Optional pre-configured client (defaults to env credentials)
+ */
+export function createTextractProvider(client?: TextractClient): OcrProvider {
+  const textract =
+    client ??
+    new TextractClient({
+      region: process.env.AWS_TEXTRACT_REGION,
+      credentials: {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+      },
+    });
+
+  return {
+    name: 'textract',
+
+    supports(mimeType: string): boolean {
+      return SUPPORTED_MIME_TYPES.includes(mimeType);
+    },
+
+    async recognize(buffer: Buffer, mimeType: string): Promise<OCRResult> {
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+        return {
+          text: '',
+          confidence: 0,
+          lines: [],
+          provider: 'textract',
+          success: false,
+          error: `Textract cannot read ${mimeType} files`,
+        };
+      }
+
+      try {
+        const result = await textract.send(
+          new DetectDocumentTextCommand({ Document: { Bytes: buffer } })
+        );
+
+        return mapTextractBlocks(result.Blocks ?? []);
+      } catch (error) {
+        console.error('[OCR] Textract recognition failed:', error);
+
+        return {
+          text: '',
+          confidence: 0,
+          lines: [],
+          provider: 'textract',
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    },
+
+    async dispose(): Promise<void> {
+      textract.destroy();
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * OCR Provider Types
+ *
+ * Shared contract for the pluggable OCR backends used by the
+ * receipt verification pipeline.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported OCR backends
+ */
+export type OcrProviderName = 'tesseract' | 'textract';
+
+/**
+ * Bounding box of a recognised line, normalised to the page (0-1)
+ */
+export interface OcrBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Single line of recognised text
+ */
+export interface OCRLine {
+  /** Line text */
+  text: string;
+  /** Confidence score (0-1) */
+  confidence: number;
+  /** Position of the line on the page */
+  boundingBox: OcrBoundingBox | null;
+}
+
+/**
+ * OCR processing result
+ */
+export interface OCRResult {
+  /** Extracted text from receipt */
+  text: string;
+  /** Confidence score (0-1) */
+  confidence: number;
+  /** Recognised lines in reading order */
+  lines: OCRLine[];
+  /** Backend that produced the result */
+  provider: OcrProviderName | null;
+  /** Whether OCR was successful */
+  success: boolean;
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * OCR backend contract
+ *
+ * Implementations must never throw for recognition failures; they return
+ * an unsuccessful `OCRResult` so the caller can route the receipt to review.
+ */
+export interface OcrProvider {
+  /** Backend identifier */
+  readonly name: OcrProviderName;
+  /** Whether the backend can read files of this MIME type */
+  supports(mimeType: string): boolean;
+  /** Recognise text in the given file */
+  recognize(buffer: Buffer, mimeType: string): Promise<OCRResult>;
+  /** Release any long-lived resources (workers, clients) */
+  dispose?(): Promise<void>;
+}
@@ -0,0 +1,426 @@
+/**
+ * Organization Domain Auto-Join
+ *
+ * Organizations with a verified domain and `allowAutoJoin` turned on add
+ * users whose email is on that domain as ACTIVE members, with the org's
+ * `autoJoinRole`:
+ *
+ * - On sign-in, for the signed-in user (see `events.signIn` in `auth.config.ts`)
+ * - By a backfill job when auto-join is turned on, for existing users
+ *
+ * Only verified emails count; an unverified address on the domain proves
+ * nothing. Users the org removed or suspended (or who declined an invite)
+ * are never re-added. A pending invite is left for the user to accept or
+ * decline; an expired one is taken over with `autoJoinRole`, never the
+ * role it offered.
+ *
+ * Owners get a daily digest of who joined instead of an email per member.
+ */
+
+import { Prisma, type Org, type OrgMember, type OrgMemberRole } from '@prisma/client';
+
+import { SITE_URL } from '@/components/email/EmailComponents';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { extractDomainFromEmail } from '@/lib/domain-verification';
+import { sendOrgAutoJoinDigestEmail } from '@/lib/email';
+import { enqueueJob } from '@/lib/job-queue';
+import { prisma } from '@/lib/prisma';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Job queue for backfill batches (see `src/jobs/org-auto-join.ts`)
+ */
+export const ORG_AUTO_JOIN_BACKFILL_QUEUE = 'org-auto-join-backfill';
+
+/**
+ * Job queue for owner digests (see `src/jobs/org-auto-join.ts`)
+ */
+export const ORG_AUTO_JOIN_DIGEST_QUEUE = 'org-auto-join-digest';
+
+/**
+ * Roles an admin may choose for auto-joined members
+ */
+export const AUTO_JOIN_ROLES = ['ADMIN', 'MEMBER', 'VIEWER'] as const satisfies readonly OrgMemberRole[];
+
+export type AutoJoinRole = (typeof AUTO_JOIN_ROLES)[number];
+
+/**
+ * Users checked per backfill job
+ */
+const BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * One digest per organization per window
+ */
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Members listed by name in a digest; the rest are counted
+ */
+const DIGEST_LIST_LIMIT = 50;
+
+const ROLE_LABELS: Record<OrgMemberRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+  VIEWER: 'Viewer',
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Backfill batch job payload
+ */
+export interface AutoJoinBackfillJob {
+  orgId: string;
+  /** Identifies one backfill run; batches are keyed by run and cursor */
+  runId: string;
+  /** Last user ID of the previous batch */
+  cursor?: string;
+}
+
+/**
+ * Owner digest job payload
+ */
+export interface AutoJoinDigestJob {
+  orgId: string;
+}
+
+/**
+ * Outcome of a backfill batch
+ */
+export interface AutoJoinBackfillResult {
+  scanned: number;
+  joined: number;
+  /** Cursor for the next batch, or null when done */
+  nextCursor: string | null;
+}
+
+/**
+ * Outcome of an owner digest
+ */
+export interface AutoJoinDigestResult {
+  members: number;
+  owners: number;
+  sent: number;
+}
+
+type AutoJoinOrg = Pick<Org, 'id' | 'domain' | 'autoJoinRole'>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a role may be given to auto-joined members
+ */
+export function isAutoJoinRole(role: unknown): role is AutoJoinRole {
+  return typeof role === 'string' && (AUTO_JOIN_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Add a user to an organization through its domain
+ *
+ * @returns The joined membership, or null if the user is already a member,
+ *   was removed or suspended, has a pending invite, or joined concurrently
+ */
+async function joinOrg(
+  org: AutoJoinOrg,
+  user: { id: string; email: string },
+  now: Date
+): Promise<OrgMember | null> {
+  const email = user.email.trim().toLowerCase();
+  const existing = await prisma.orgMember.findMany({
+    where: {
+      orgId: org.id,
+      OR: [{ userId: user.id }, { inviteEmail: email }],
+    },
+  });
+
+  const own = existing.find((member) => member.userId === user.id);
+  if (own && own.status !== 'EXPIRED') {
+    return null;
+  }
+
+  // Removed, suspended or declined - including invites declined or revoked
+  // before the user had an account, whose rows only carry `inviteEmail`
+  if (existing.some((member) => member.status === 'REMOVED' || member.status === 'SUSPENDED')) {
+    return null;
+  }
+
+  // A pending invite is answered on the accept/decline page
+  if (existing.some((member) => member.status === 'INVITED')) {
+    return null;
+  }
+
+  // An expired invite grants nothing; only its row is reused
+  const invite = own ?? existing.find((member) => member.status === 'EXPIRED');
+  let member: OrgMember;
+
+  try {
+    member = invite
+      ? await prisma.orgMember.update({
+          where: { id: invite.id },
+          data: {
+            userId: user.id,
+            role: org.autoJoinRole,
+            status: 'ACTIVE',
+            joinedAt: now,
+            inviteExpiresAt: null,
+            autoJoinedAt: now,
+          },
+        })
+      : await prisma.orgMember.create({
+          data: {
+            orgId: org.id,
+            userId: user.id,
+            role: org.autoJoinRole,
+            status: 'ACTIVE',
+            joinedAt: now,
+            autoJoinedAt: now,
+          },
+        });
+  } catch (error) {
+    // Lost a race with a concurrent sign-in or backfill batch
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+
+  await recordAuditEvent({
+    actorType: 'SYSTEM',
+    actorId: 'org-auto-join',
+    action: 'ORG_MEMBER_AUTO_JOIN',
+    entityType: 'org_members',
+    entityId: member.id,
+    before: invite ? { status: invite.status, role: invite.role } : null,
+    after: { status: member.status, role: member.role },
+    details: { orgId: org.id, userId: user.id, domain: org.domain },
+  });
+
+  return member;
+}
+
+// ============================================================================
+// SIGN-IN
+// ============================================================================
+
+/**
+ * Organizations a user may auto-join by email domain
+ */
+export async function findAutoJoinOrgs(email: string): Promise<Org[]> {
+  const domain = extractDomainFromEmail(email.trim());
+  if (!domain) {
+    return [];
+  }
+
+  return prisma.org.findMany({
+    where: { domain, domainVerified: true, allowAutoJoin: true },
+  });
+}
+
+/**
+ * Join every auto-join organization matching a user's verified email
+ *
+ * @returns Memberships created or activated
+ */
+export async function autoJoinVerifiedOrgs(
+  userId: string,
+  now: Date = new Date()
+): Promise<OrgMember[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, emailVerified: true },
+  });
+
+  if (!user?.emailVerified) {
+    return [];
+  }
+
+  const joined: OrgMember[] = [];
+
+  for (const org of await findAutoJoinOrgs(user.email)) {
+    const member = await joinOrg(org, user, now);
+    if (member) {
+      joined.push(member);
+      await scheduleAutoJoinDigest(org.id, now);
+    }
+  }
+
+  return joined;
+}
+
+// ============================================================================
+// BACKFILL
+// ============================================================================
+
+/**
+ * Queue a backfill batch
+ *
+ * Batches are keyed by run and cursor, so a retried job cannot fork the run.
+ */
+export async function scheduleAutoJoinBackfill(
+  orgId: string,
+  runId: string,
+  cursor?: string
+): Promise<void> {
+  const payload: AutoJoinBackfillJob = { orgId, runId, ...(cursor && { cursor }) };
+  await enqueueJob(ORG_AUTO_JOIN_BACKFILL_QUEUE, { ...payload }, {
+    idempotencyKey: `${orgId}:${runId}:${cursor ?? 'start'}`,
+  });
+}
+
+/**
+ * Start adding an organization's existing domain users
+ *
+ * Called when auto-join is turned on; each run starts from the first user.
+ */
+export async function startAutoJoinBackfill(orgId: string, now: Date = new Date()): Promise<string> {
+  const runId = String(now.getTime());
+  await scheduleAutoJoinBackfill(orgId, runId);
+  return runId;
+}
+
+/**
+ * Join the next batch of existing users on an organization's domain
+ *
+ * Stops (with no next cursor) if auto-join was turned off or the domain
+ * lost its verification since the run started.
+ */
+export async function runAutoJoinBackfillBatch(
+  job: AutoJoinBackfillJob,
+  now: Date = new Date()
+): Promise<AutoJoinBackfillResult> {
+  const org = await prisma.org.findUnique({ where: { id: job.orgId } });
+
+  if (!org?.domain || !org.domainVerified || !org.allowAutoJoin) {
+    return { scanned: 0, joined: 0, nextCursor: null };
+  }
+
+  const users = await prisma.user.findMany({
+    where: {
+      email: { endsWith: `@${org.domain}`, mode: 'insensitive' },
+      emailVerified: { not: null },
+    },
+    select: { id: true, email: true },
+    orderBy: { id: 'asc' },
+    take: BACKFILL_BATCH_SIZE,
+    ...(job.cursor && { cursor: { id: job.cursor }, skip: 1 }),
+  });
+
+  let joined = 0;
+  for (const user of users) {
+    if (await joinOrg(org, user, now)) {
+      joined++;
+    }
+  }
+
+  if (joined > 0) {
+    await scheduleAutoJoinDigest(org.id, now);
+  }
+
+  return {
+    scanned: users.length,
+    joined,
+    nextCursor: users.length === BACKFILL_BATCH_SIZE ? users[users.length - 1].id : null,
+  };
+}
+
+// ============================================================================
+// OWNER DIGEST
+// ============================================================================
+
+/**
+ * Queue the owner digest for the end of the current window
+ *
+ * Keyed by organization and window, so any number of joins in a window
+ * produce one digest.
+ */
+export async function scheduleAutoJoinDigest(orgId: string, now: Date = new Date()): Promise<void> {
+  const window = Math.floor(now.getTime() / DIGEST_WINDOW_MS);
+  const payload: AutoJoinDigestJob = { orgId };
+
+  await enqueueJob(ORG_AUTO_JOIN_DIGEST_QUEUE, { ...payload }, {
+    idempotencyKey: `${orgId}:${window}`,
+    delayMs: (window + 1) * DIGEST_WINDOW_MS - now.getTime(),
+  });
+}
+
+/**
+ * Email active owners the members auto-joined since the last digest
+ *
+ * Members are marked notified once at least one owner was emailed; if every
+ * send fails this throws so the job retries.
+ */
+export async function sendAutoJoinDigest(
+  orgId: string,
+  now: Date = new Date()
+): Promise<AutoJoinDigestResult> {
+  const org = await prisma.org.findUnique({ where: { id: orgId } });
+  if (!org) {
+    return { members: 0, owners: 0, sent: 0 };
+  }
+
+  const members = await prisma.orgMember.findMany({
+    where: {
+      orgId,
+      status: 'ACTIVE',
+      autoJoinedAt: { not: null },
+      autoJoinNotifiedAt: null,
+    },
+    include: { user: { select: { name: true, email: true } } },
+    orderBy: { autoJoinedAt: 'asc' },
+  });
+
+  const owners = await prisma.orgMember.findMany({
+    where: { orgId, role: 'OWNER', status: 'ACTIVE' },
+    include: { user: { select: { email: true } } },
+  });
+
+  if (members.length === 0 || owners.length === 0) {
+    return { members: members.length, owners: owners.length, sent: 0 };
+  }
+
+  const props = {
+    orgName: org.name,
+    domain: org.domain ?? '',
+    members: members.slice(0, DIGEST_LIST_LIMIT).map((member) => ({
+      name: member.user?.name ?? null,
+      email: member.user?.email ?? member.inviteEmail ?? '',
+      role: ROLE_LABELS[member.role],
+    })),
+    totalCount: members.length,
+    membersUrl: `${SITE_URL}/org/${orgId}`,
+  };
+
+  let sent = 0;
+  for (const owner of owners) {
+    if (!owner.user) {
+      continue;
+    }
+
+    const result = await sendOrgAutoJoinDigestEmail(owner.user.email, props);
+    if (result.success) {
+      sent++;
+    } else {
+      console.error('[Org Auto-Join] Failed to send digest:', orgId, owner.user.email, result.error);
+    }
+  }
+
+  if (sent === 0) {
+    throw new Error(`Auto-join digest for org ${orgId} could not be sent`);
+  }
+
+  await prisma.orgMember.updateMany({
+    where: { id: { in: members.map((member) => member.id) } },
+    data: { autoJoinNotifiedAt: now },
+  });
+
+  return { members: members.length, owners: owners.length, sent };
+}
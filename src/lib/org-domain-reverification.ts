@@ -0,0 +1,390 @@
+/**
+ * Organization Domain Re-verification
+ *
+ * A verified domain only proves ownership at the moment it was checked. The
+ * re-verification cron (`/api/cron/domain-reverification`) re-checks each
+ * verified domain's TXT record every `DOMAIN_RECHECK_INTERVAL_HOURS` against
+ * the public DNS servers in `checkDNSPropagation`:
+ *
+ * - Record found on any server: the check passes (and ends a failing streak)
+ * - Record missing: the grace period starts and owners are warned, once at
+ *   the start and again in its final day
+ * - Still missing after `DOMAIN_GRACE_PERIOD_DAYS`: the domain is unverified,
+ *   which pauses auto-join, and owners are told
+ * - Every lookup failed (timeouts, unreachable servers): inconclusive, nothing
+ *   changes and the domain is retried after `DOMAIN_INCONCLUSIVE_RETRY_HOURS`,
+ *   behind domains that have not been tried yet
+ *
+ * Each run checks `RECHECK_BATCH_SIZE` domains, `RECHECK_CONCURRENCY` at a
+ * time, so it stays well inside the cron's `maxDuration`.
+ *
+ * Each step is recorded as an `OrgDomainEvent` for the organization's
+ * verification history.
+ */
+
+import {
+  type Org,
+  type OrgDomainEvent,
+  type OrgDomainEventType,
+  type Prisma,
+} from '@prisma/client';
+
+import { SITE_URL } from '@/components/email/EmailComponents';
+import { recordAuditEvent } from '@/lib/audit-log';
+import {
+  checkDNSPropagation,
+  getVerificationRecord,
+  isRecordMissing,
+  systemTxtResolver,
+  type DNSPropagationServerResult,
+  type TxtResolverFactory,
+} from '@/lib/domain-verification';
+import { sendOrgDomainUnverifiedEmail, sendOrgDomainWarningEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How often a verified domain is re-checked
+ */
+export const DOMAIN_RECHECK_INTERVAL_HOURS = 24;
+
+/**
+ * How long the record may stay missing before verification is revoked
+ */
+export const DOMAIN_GRACE_PERIOD_DAYS = 7;
+
+/**
+ * How long before an inconclusive check is retried
+ */
+export const DOMAIN_INCONCLUSIVE_RETRY_HOURS = 6;
+
+/**
+ * Domains re-checked per run
+ */
+const RECHECK_BATCH_SIZE = 20;
+
+/**
+ * Domains re-checked in parallel
+ */
+const RECHECK_CONCURRENCY = 5;
+
+/**
+ * Owners get a final warning within this long of revocation
+ */
+const FINAL_WARNING_MS = 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Outcome of re-checking one domain
+ */
+export type DomainCheckOutcome = 'passed' | 'recovered' | 'failed' | 'unverified' | 'inconclusive';
+
+/**
+ * Outcome of a re-verification run
+ */
+export type DomainReverificationSummary = Record<DomainCheckOutcome, number> & {
+  checked: number;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Record a step in an organization's verification history
+ */
+export async function recordOrgDomainEvent(
+  orgId: string,
+  domain: string,
+  type: OrgDomainEventType,
+  reason?: string,
+  servers?: DNSPropagationServerResult[]
+): Promise<OrgDomainEvent> {
+  return prisma.orgDomainEvent.create({
+    data: {
+      orgId,
+      domain,
+      type,
+      reason: reason ?? null,
+      details: servers ? { servers: toServerDetails(servers) } : undefined,
+    },
+  });
+}
+
+/**
+ * Most recent verification history for an organization
+ */
+export async function listOrgDomainEvents(orgId: string, limit = 10): Promise<OrgDomainEvent[]> {
+  return prisma.orgDomainEvent.findMany({
+    where: { orgId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+function toServerDetails(servers: DNSPropagationServerResult[]): Prisma.InputJsonArray {
+  return servers.map(({ server, found, error }) => ({ server, found, error: error ?? null }));
+}
+
+/**
+ * When a failing domain loses verification, or null if it is not failing
+ */
+export function getDomainRevocationDate(
+  org: Pick<Org, 'domainVerified' | 'domainCheckFailedAt'>
+): Date | null {
+  if (!org.domainVerified || !org.domainCheckFailedAt) {
+    return null;
+  }
+
+  return new Date(org.domainCheckFailedAt.getTime() + DOMAIN_GRACE_PERIOD_DAYS * DAY_MS);
+}
+
+/**
+ * Email addresses of an organization's active owners
+ */
+async function getOwnerEmails(orgId: string): Promise<string[]> {
+  const owners = await prisma.orgMember.findMany({
+    where: { orgId, role: 'OWNER', status: 'ACTIVE' },
+    include: { user: { select: { email: true } } },
+  });
+
+  return owners.flatMap((owner) => (owner.user ? [owner.user.email] : []));
+}
+
+/**
+ * Send one email per owner
+ *
+ * @returns Owners emailed successfully
+ */
+async function notifyOwners(
+  org: Org,
+  send: (email: string) => Promise<{ success: boolean; error?: string }>
+): Promise<number> {
+  let sent = 0;
+
+  for (const email of await getOwnerEmails(org.id)) {
+    const result = await send(email);
+    if (result.success) {
+      sent++;
+    } else {
+      console.error('[Domain Re-verification] Failed to email owner:', org.id, email, result.error);
+    }
+  }
+
+  return sent;
+}
+
+// ============================================================================
+// RE-VERIFICATION
+// ============================================================================
+
+/**
+ * Revoke an organization's domain verification after the grace period
+ *
+ * The verification token is kept, so restoring the same TXT record and
+ * verifying again is enough to recover.
+ */
+async function unverifyOrgDomain(
+  org: Org & { domain: string },
+  now: Date,
+  servers: DNSPropagationServerResult[]
+): Promise<void> {
+  await prisma.org.update({
+    where: { id: org.id },
+    data: {
+      domainVerified: false,
+      domainVerifiedAt: null,
+      domainCheckedAt: now,
+      domainCheckAttemptedAt: now,
+      domainCheckFailedAt: null,
+      domainWarnedAt: null,
+    },
+  });
+
+  await recordOrgDomainEvent(
+    org.id,
+    org.domain,
+    'UNVERIFIED',
+    `TXT record missing for ${DOMAIN_GRACE_PERIOD_DAYS} days`,
+    servers
+  );
+
+  await recordAuditEvent({
+    actorType: 'SYSTEM',
+    actorId: 'domain-reverification',
+    action: 'ORG_DOMAIN_UNVERIFY',
+    entityType: 'orgs',
+    entityId: org.id,
+    before: { domain: org.domain, domainVerified: true },
+    after: { domain: org.domain, domainVerified: false },
+    details: { failingSince: org.domainCheckFailedAt },
+  });
+
+  await notifyOwners(org, (email) =>
+    sendOrgDomainUnverifiedEmail(email, {
+      orgName: org.name,
+      domain: org.domain,
+      autoJoinPaused: org.allowAutoJoin,
+      settingsUrl: `${SITE_URL}/org/${org.id}`,
+    })
+  );
+}
+
+/**
+ * Re-check one verified domain's TXT record
+ *
+ * @param resolver - DNS resolver per server (defaults to the system DNS client)
+ */
+export async function recheckOrgDomain(
+  org: Org,
+  now: Date = new Date(),
+  resolver: TxtResolverFactory = systemTxtResolver
+): Promise<DomainCheckOutcome> {
+  const { domain, domainVerificationToken: token } = org;
+  if (!domain || !token) {
+    return 'inconclusive';
+  }
+
+  const { servers } = await checkDNSPropagation(domain, token, resolver);
+
+  if (servers.some((server) => server.found)) {
+    await prisma.org.update({
+      where: { id: org.id },
+      data: {
+        domainCheckedAt: now,
+        domainCheckAttemptedAt: now,
+        domainCheckFailedAt: null,
+        domainWarnedAt: null,
+      },
+    });
+
+    if (!org.domainCheckFailedAt) {
+      return 'passed';
+    }
+
+    await recordOrgDomainEvent(org.id, domain, 'CHECK_RECOVERED', 'TXT record found again', servers);
+    return 'recovered';
+  }
+
+  if (!servers.some(isRecordMissing)) {
+    await prisma.org.update({
+      where: { id: org.id },
+      data: { domainCheckAttemptedAt: now },
+    });
+    return 'inconclusive';
+  }
+
+  const failingSince = org.domainCheckFailedAt ?? now;
+  const revokesAt = new Date(failingSince.getTime() + DOMAIN_GRACE_PERIOD_DAYS * DAY_MS);
+
+  if (now >= revokesAt) {
+    await unverifyOrgDomain({ ...org, domain }, now, servers);
+    return 'unverified';
+  }
+
+  await prisma.org.update({
+    where: { id: org.id },
+    data: { domainCheckedAt: now, domainCheckAttemptedAt: now, domainCheckFailedAt: failingSince },
+  });
+
+  await recordOrgDomainEvent(org.id, domain, 'CHECK_FAILED', 'TXT record not found', servers);
+
+  // Warn when the streak starts, then once more in the final day
+  const finalWarningFrom = new Date(revokesAt.getTime() - FINAL_WARNING_MS);
+  const final = now >= finalWarningFrom;
+  const warn = !org.domainWarnedAt || (final && org.domainWarnedAt < finalWarningFrom);
+
+  if (warn) {
+    const record = getVerificationRecord(domain, token);
+    const sent = await notifyOwners(org, (email) =>
+      sendOrgDomainWarningEmail(email, {
+        orgName: org.name,
+        domain,
+        recordName: record.recordName,
+        recordValue: record.recordValue,
+        revokesAt,
+        final,
+        settingsUrl: `${SITE_URL}/org/${org.id}`,
+      })
+    );
+
+    if (sent > 0) {
+      await prisma.org.update({
+        where: { id: org.id },
+        data: { domainWarnedAt: now },
+      });
+    }
+  }
+
+  return 'failed';
+}
+
+/**
+ * Re-check verified domains not checked within the interval
+ *
+ * Domains tried longest ago go first. An inconclusive check only records
+ * the attempt, so the domain is retried later without holding up the rest.
+ */
+export async function runDomainReverification(
+  now: Date = new Date(),
+  resolver: TxtResolverFactory = systemTxtResolver
+): Promise<DomainReverificationSummary> {
+  const orgs = await prisma.org.findMany({
+    where: {
+      domainVerified: true,
+      domain: { not: null },
+      domainVerificationToken: { not: null },
+      AND: [
+        {
+          OR: [
+            { domainCheckedAt: null },
+            { domainCheckedAt: { lt: new Date(now.getTime() - DOMAIN_RECHECK_INTERVAL_HOURS * HOUR_MS) } },
+          ],
+        },
+        {
+          OR: [
+            { domainCheckAttemptedAt: null },
+            {
+              domainCheckAttemptedAt: {
+                lt: new Date(now.getTime() - DOMAIN_INCONCLUSIVE_RETRY_HOURS * HOUR_MS),
+              },
+            },
+          ],
+        },
+      ],
+    },
+    orderBy: { domainCheckAttemptedAt: { sort: 'asc', nulls: 'first' } },
+    take: RECHECK_BATCH_SIZE,
+  });
+
+  const summary: DomainReverificationSummary = {
+    checked: 0,
+    passed: 0,
+    recovered: 0,
+    failed: 0,
+    unverified: 0,
+    inconclusive: 0,
+  };
+
+  for (let i = 0; i < orgs.length; i += RECHECK_CONCURRENCY) {
+    const outcomes = await Promise.all(
+      orgs.slice(i, i + RECHECK_CONCURRENCY).map((org) => recheckOrgDomain(org, now, resolver))
+    );
+
+    for (const outcome of outcomes) {
+      summary.checked++;
+      summary[outcome]++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,436 @@
+/**
+ * Organization Invitations
+ *
+ * Adding someone to an organization creates an INVITED membership and
+ * emails them a signed accept link:
+ *
+ *   https://ai-born.org/org/invite/<token>
+ *
+ * Nobody joins until the invitee accepts while signed in with the invited
+ * email, and no account is created on their behalf: invites to emails
+ * without an account have no `userId` until accepted.
+ *
+ * Rules:
+ * - Invites expire after `ORG_INVITE_EXPIRY_DAYS`; lapsed invites are marked
+ *   EXPIRED by the cron sweep (and whenever an organization's invites are
+ *   listed) and stay listed until resent or revoked
+ * - Resending moves `invitedAt`, so links from earlier emails stop working
+ * - Revoking or declining sets the membership to REMOVED
+ */
+
+import { sendOrgInviteEmail } from '@/lib/email';
+import { prisma } from '@/lib/prisma';
+import { generateOrgInviteToken, verifyOrgInviteToken } from '@/lib/tokens';
+import type { MemberInvitation, PendingOrgInvite } from '@/types/organization';
+
+import type { OrgMember, OrgMemberRole } from '@prisma/client';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ai-born.org';
+
+/**
+ * How long an invite can be accepted (matches the invite email copy)
+ */
+export const ORG_INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * Statuses listed as pending invites
+ */
+const PENDING_STATUSES = ['INVITED', 'EXPIRED'] as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Invite that cannot be sent, found or used
+ * 403: signed in with another email, 404: unknown or revoked invite,
+ * 409: conflicts with an existing membership, 410: expired or superseded
+ */
+export class OrgInviteError extends Error {
+  public readonly statusCode: 403 | 404 | 409 | 410;
+
+  constructor(message: string, statusCode: 403 | 404 | 409 | 410) {
+    super(message);
+    this.name = 'OrgInviteError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * New invite input
+ */
+export interface CreateOrgInviteInput {
+  orgId: string;
+  orgName: string;
+  email: string;
+  role?: OrgMemberRole;
+  /** Inviting user ID */
+  invitedBy: string;
+}
+
+/**
+ * Sent (or resent) invite
+ */
+export interface SentOrgInvite {
+  invite: PendingOrgInvite;
+  inviteUrl: string;
+  /** False if the email could not be sent; the invite still stands */
+  emailSent: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Pending invite view of a membership
+ */
+export function toPendingOrgInvite(member: OrgMember): PendingOrgInvite {
+  return {
+    id: member.id,
+    email: member.inviteEmail ?? '',
+    role: member.role,
+    status: member.status,
+    invitedBy: member.invitedBy,
+    invitedAt: member.invitedAt,
+    expiresAt: member.inviteExpiresAt,
+  };
+}
+
+/**
+ * Accept link for an invite
+ */
+export function buildOrgInviteUrl(member: OrgMember): string {
+  if (!member.inviteEmail || !member.invitedAt || !member.inviteExpiresAt) {
+    throw new Error(`Membership ${member.id} is not an invite`);
+  }
+
+  const token = generateOrgInviteToken(
+    member.id,
+    member.inviteEmail,
+    member.invitedAt,
+    member.inviteExpiresAt
+  );
+
+  return `${SITE_URL}/org/invite/${token}`;
+}
+
+/**
+ * Email the accept link
+ */
+async function sendInvite(member: OrgMember, orgName: string): Promise<SentOrgInvite> {
+  const invite = toPendingOrgInvite(member);
+  const inviteUrl = buildOrgInviteUrl(member);
+  const result = await sendOrgInviteEmail(invite.email, orgName, inviteUrl);
+
+  if (!result.success) {
+    console.error('[Org Invites] Failed to send invite email:', member.id, result.error);
+  }
+
+  return { invite, inviteUrl, emailSent: result.success };
+}
+
+function getExpiry(now: Date): Date {
+  return new Date(now.getTime() + ORG_INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// ============================================================================
+// MANAGING INVITES
+// ============================================================================
+
+/**
+ * Invite an email address to an organization
+ * Re-invites people whose membership was removed or whose invite expired.
+ *
+ * @throws OrgInviteError (409) if they are already a member or have a
+ *         pending invite
+ */
+export async function createOrgInvite(
+  input: CreateOrgInviteInput,
+  now: Date = new Date()
+): Promise<SentOrgInvite> {
+  const email = input.email.trim().toLowerCase();
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  const existing = await prisma.orgMember.findFirst({
+    where: {
+      orgId: input.orgId,
+      OR: [{ inviteEmail: email }, ...(user ? [{ userId: user.id }] : [])],
+    },
+  });
+
+  if (existing?.status === 'ACTIVE') {
+    throw new OrgInviteError(`${email} is already a member`, 409);
+  }
+
+  if (existing?.status === 'INVITED') {
+    throw new OrgInviteError(`${email} already has a pending invite; resend it instead`, 409);
+  }
+
+  const data = {
+    inviteEmail: email,
+    role: input.role ?? 'MEMBER',
+    status: 'INVITED' as const,
+    invitedBy: input.invitedBy,
+    invitedAt: now,
+    inviteExpiresAt: getExpiry(now),
+  };
+
+  const member = existing
+    ? await prisma.orgMember.update({
+        where: { id: existing.id },
+        data: { ...data, userId: existing.userId ?? user?.id },
+      })
+    : await prisma.orgMember.create({
+        data: { ...data, orgId: input.orgId, userId: user?.id },
+      });
+
+  return sendInvite(member, input.orgName);
+}
+
+/**
+ * List an organization's pending and expired invites, newest first
+ * Marks lapsed invites EXPIRED first.
+ */
+export async function listPendingOrgInvites(
+  orgId: string,
+  now: Date = new Date()
+): Promise<PendingOrgInvite[]> {
+  await expireStaleOrgInvites(now, orgId);
+
+  const members = await prisma.orgMember.findMany({
+    where: { orgId, status: { in: [...PENDING_STATUSES] } },
+    orderBy: { invitedAt: 'desc' },
+  });
+
+  return members.map(toPendingOrgInvite);
+}
+
+/**
+ * Get a pending or expired invite of an organization
+ *
+ * @throws OrgInviteError (404) if there is none
+ */
+async function getPendingInvite(orgId: string, memberId: string) {
+  const member = await prisma.orgMember.findFirst({
+    where: { id: memberId, orgId, status: { in: [...PENDING_STATUSES] } },
+    include: { org: { select: { name: true } } },
+  });
+
+  if (!member) {
+    throw new OrgInviteError('Invite not found', 404);
+  }
+
+  return member;
+}
+
+/**
+ * Send an invite again with a fresh expiry
+ * Links from earlier emails stop working.
+ *
+ * @throws OrgInviteError (404) if the invite is not pending or expired
+ */
+export async function resendOrgInvite(
+  orgId: string,
+  memberId: string,
+  invitedBy: string,
+  now: Date = new Date()
+): Promise<SentOrgInvite> {
+  const existing = await getPendingInvite(orgId, memberId);
+
+  const member = await prisma.orgMember.update({
+    where: { id: existing.id },
+    data: {
+      status: 'INVITED',
+      invitedBy,
+      invitedAt: now,
+      inviteExpiresAt: getExpiry(now),
+    },
+  });
+
+  return sendInvite(member, existing.org.name);
+}
+
+/**
+ * Withdraw an invite; its link stops working
+ *
+ * @throws OrgInviteError (404) if the invite is not pending or expired
+ */
+export async function revokeOrgInvite(orgId: string, memberId: string): Promise<OrgMember> {
+  const existing = await getPendingInvite(orgId, memberId);
+
+  return prisma.orgMember.update({
+    where: { id: existing.id },
+    data: { status: 'REMOVED', inviteExpiresAt: null },
+  });
+}
+
+/**
+ * Mark invites past their expiry EXPIRED
+ *
+ * @param now - Current time
+ * @param orgId - Only this organization's invites (default: all)
+ * @returns Number of invites expired
+ */
+export async function expireStaleOrgInvites(
+  now: Date = new Date(),
+  orgId?: string
+): Promise<number> {
+  const { count } = await prisma.orgMember.updateMany({
+    where: {
+      ...(orgId ? { orgId } : {}),
+      status: 'INVITED',
+      inviteExpiresAt: { lt: now },
+    },
+    data: { status: 'EXPIRED' },
+  });
+
+  return count;
+}
+
+// ============================================================================
+// ANSWERING INVITES
+// ============================================================================
+
+/**
+ * Find the invite an accept link is for
+ *
+ * @throws OrgInviteError (404) for bad links and revoked or declined
+ *         invites, (409) once accepted, (410) once expired or resent
+ */
+async function findInviteForToken(token: string, now: Date) {
+  const verification = verifyOrgInviteToken(token);
+
+  if (!verification.payload || (!verification.valid && verification.error !== 'expired')) {
+    throw new OrgInviteError('This invite link is not valid', 404);
+  }
+
+  const { payload } = verification;
+
+  const member = await prisma.orgMember.findUnique({
+    where: { id: payload.memberId },
+    include: { org: { select: { id: true, name: true } } },
+  });
+
+  if (!member || member.inviteEmail !== payload.email || member.status === 'REMOVED') {
+    throw new OrgInviteError('This invite has been withdrawn', 404);
+  }
+
+  if (member.status === 'ACTIVE') {
+    throw new OrgInviteError('This invite has already been accepted', 409);
+  }
+
+  if (member.invitedAt?.getTime() !== payload.timestamp) {
+    throw new OrgInviteError('A newer invite has been sent; use the link in the latest email', 410);
+  }
+
+  if (
+    member.status !== 'INVITED' ||
+    !member.inviteExpiresAt ||
+    member.inviteExpiresAt <= now
+  ) {
+    throw new OrgInviteError('This invite has expired; ask the organization to resend it', 410);
+  }
+
+  return { member, email: payload.email, expiresAt: member.inviteExpiresAt };
+}
+
+/**
+ * Read an accept link
+ *
+ * @throws OrgInviteError if the invite cannot be answered
+ */
+export async function resolveOrgInvite(
+  token: string,
+  now: Date = new Date()
+): Promise<MemberInvitation> {
+  const { member, email, expiresAt } = await findInviteForToken(token, now);
+
+  const inviter = member.invitedBy
+    ? await prisma.user.findUnique({
+        where: { id: member.invitedBy },
+        select: { name: true, email: true },
+      })
+    : null;
+
+  return {
+    memberId: member.id,
+    email,
+    role: member.role,
+    orgId: member.org.id,
+    orgName: member.org.name,
+    invitedBy: member.invitedBy,
+    inviterName: inviter ? inviter.name || inviter.email : null,
+    expiresAt,
+  };
+}
+
+/**
+ * Accept an invite as the signed-in user
+ * A removed or expired membership of theirs in the same organization is
+ * replaced by the accepted one.
+ *
+ * @throws OrgInviteError (403) if signed in with another email, (409) if
+ *         they already belong to the organization
+ */
+export async function acceptOrgInvite(
+  token: string,
+  user: { id: string; email: string },
+  now: Date = new Date()
+): Promise<OrgMember> {
+  const { member, email } = await findInviteForToken(token, now);
+
+  if (user.email.trim().toLowerCase() !== email) {
+    throw new OrgInviteError(
+      `This invite was sent to ${email}; sign in with that email to accept it`,
+      403
+    );
+  }
+
+  const other = await prisma.orgMember.findUnique({
+    where: { orgId_userId: { orgId: member.orgId, userId: user.id } },
+  });
+
+  if (other && other.id !== member.id && ['ACTIVE', 'SUSPENDED'].includes(other.status)) {
+    throw new OrgInviteError('You already belong to this organization', 409);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (other && other.id !== member.id) {
+      await tx.orgMember.delete({ where: { id: other.id } });
+    }
+
+    return tx.orgMember.update({
+      where: { id: member.id },
+      data: {
+        userId: user.id,
+        status: 'ACTIVE',
+        joinedAt: now,
+        inviteExpiresAt: null,
+      },
+    });
+  });
+}
+
+/**
+ * Decline an invite; anyone holding the link may decline it
+ */
+export async function declineOrgInvite(
+  token: string,
+  now: Date = new Date()
+): Promise<OrgMember> {
+  const { member } = await findInviteForToken(token, now);
+
+  return prisma.orgMember.update({
+    where: { id: member.id },
+    data: { status: 'REMOVED', inviteExpiresAt: null },
+  });
+}
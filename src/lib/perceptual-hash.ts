@@ -0,0 +1,271 @@
+/**
+ * Perceptual Hashing for Receipt Images
+ *
+ * SHA-256 file hashes only catch byte-identical re-uploads. Perceptual
+ * hashes survive re-compression, re-screenshotting, resizing and small
+ * crops, so the same receipt submitted twice still hashes (almost) alike.
+ *
+ * Features:
+ * - 64-bit DCT perceptual hash (pHash) of images, via sharp
+ * - PDF pages rendered with pdf.js and hashed individually
+ * - Band tokens for indexed near-duplicate candidate lookup
+ *
+ * Hashes are 16-character hex strings; compare them with `hashSimilarity`.
+ */
+
+import sharp from 'sharp';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Canvas created by pdf.js in Node (backed by @napi-rs/canvas)
+ */
+interface NodeCanvas extends HTMLCanvasElement {
+  toBuffer(mimeType: 'image/png'): Buffer;
+}
+
+/**
+ * pdf.js canvas factory (typed as `Object` upstream)
+ */
+interface NodeCanvasFactory {
+  create(
+    width: number,
+    height: number
+  ): { canvas: NodeCanvas; context: CanvasRenderingContext2D };
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Side length of the grayscale image fed to the DCT
+ */
+const SAMPLE_SIZE = 32;
+
+/**
+ * Side length of the low-frequency DCT block kept in the hash
+ */
+const HASH_SIZE = 8;
+
+/**
+ * Bits per hash
+ */
+export const HASH_BITS = HASH_SIZE * HASH_SIZE;
+
+/**
+ * Number of bands a hash is split into for candidate lookup.
+ * Two hashes within (HASH_BAND_COUNT - 1) bits of each other always share
+ * at least one band exactly.
+ */
+export const HASH_BAND_COUNT = 8;
+
+/**
+ * Maximum PDF pages hashed per receipt
+ */
+const MAX_PDF_PAGES = 3;
+
+/**
+ * Target render width for PDF pages (px)
+ */
+const PDF_RENDER_WIDTH = 800;
+
+/**
+ * Cosine lookup table: COS_TABLE[u][x] = cos((2x + 1) * u * PI / (2 * SAMPLE_SIZE))
+ */
+const COS_TABLE: number[][] = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE))
+  )
+);
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Load an image as SAMPLE_SIZE x SAMPLE_SIZE grayscale pixels
+ *
+ * Uniform borders are trimmed first so padding added by screenshots or
+ * scans does not shift the hash.
+ */
+async function loadGrayscaleSample(buffer: Buffer): Promise<Buffer> {
+  const sample = (input: sharp.Sharp) =>
+    input
+      .grayscale()
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+  try {
+    return await sample(sharp(buffer).rotate().trim({ threshold: 20 }));
+  } catch {
+    // trim() fails on blank images - hash the untrimmed image instead
+    return sample(sharp(buffer).rotate());
+  }
+}
+
+/**
+ * Compute the 64-bit perceptual hash of an image
+ *
+ * @param buffer - JPEG, PNG or WebP image
+ * @returns 16-character hex hash
+ */
+export async function computeImageHash(buffer: Buffer): Promise<string> {
+  const pixels = await loadGrayscaleSample(buffer);
+
+  // Low-frequency 2D DCT coefficients
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        const rowOffset = y * SAMPLE_SIZE;
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum += pixels[rowOffset + x] * COS_TABLE[u][y] * COS_TABLE[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // Threshold against the median, ignoring the DC term (overall brightness)
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  let hash = '';
+  for (let i = 0; i < HASH_BITS; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+
+  return hash;
+}
+
+/**
+ * Render the first pages of a PDF to PNG images
+ *
+ * @param buffer - PDF file
+ * @param maxPages - Maximum pages to render
+ */
+export async function renderPdfPages(
+  buffer: Buffer,
+  maxPages: number = MAX_PDF_PAGES
+): Promise<Buffer[]> {
+  // Loaded lazily: pdf.js is large and only needed for PDF receipts
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const document = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+  }).promise;
+
+  try {
+    const pages: Buffer[] = [];
+    const pageCount = Math.min(document.numPages, maxPages);
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const { width } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / width });
+
+      const canvasFactory = document.canvasFactory as NodeCanvasFactory;
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      // White background - PDF pages are transparent by default
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: context, canvas, viewport }).promise;
+      pages.push(canvas.toBuffer('image/png'));
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Compute perceptual hashes for a receipt file
+ *
+ * @param buffer - Receipt file
+ * @param mimeType - Detected MIME type
+ * @returns One hash per image / PDF page (empty for unsupported types)
+ */
+export async function computePerceptualHashes(
+  buffer: Buffer,
+  mimeType: string
+): Promise<string[]> {
+  if (mimeType === 'application/pdf') {
+    const pages = await renderPdfPages(buffer);
+    return Promise.all(pages.map((page) => computeImageHash(page)));
+  }
+
+  if (['image/jpeg', 'image/png', 'image/webp'].includes(mimeType)) {
+    return [await computeImageHash(buffer)];
+  }
+
+  return [];
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return HASH_BITS;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Similarity between two hashes (1 = identical, ~0.5 = unrelated)
+ */
+export function hashSimilarity(a: string, b: string): number {
+  return 1 - hammingDistance(a, b) / HASH_BITS;
+}
+
+/**
+ * Split hashes into band tokens for indexed lookup
+ *
+ * Each token is "<band index>:<band hex>", so receipts sharing any token
+ * are near-duplicate candidates.
+ */
+export function hashBands(hashes: string[]): string[] {
+  const bandLength = hashes[0] ? hashes[0].length / HASH_BAND_COUNT : 0;
+  const tokens = new Set<string>();
+
+  for (const hash of hashes) {
+    for (let band = 0; band < HASH_BAND_COUNT; band++) {
+      tokens.add(`${band}:${hash.slice(band * bandLength, (band + 1) * bandLength)}`);
+    }
+  }
+
+  return Array.from(tokens);
+}
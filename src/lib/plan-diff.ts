@@ -0,0 +1,176 @@
+/**
+ * Plan Diff
+ *
+ * Line-by-line diff of two Markdown plan revisions, laid out side by side.
+ * Has no server dependencies, so the revision history computes it in the
+ * browser.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Largest changed region (lines before x lines after) aligned line by line;
+ * beyond it the region is shown as replaced
+ */
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DiffRowType = 'unchanged' | 'changed' | 'added' | 'removed';
+
+/**
+ * One line of one side, numbered from 1
+ */
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+/**
+ * A row of the side-by-side view; a side is null where it has no line
+ */
+export interface SideBySideRow {
+  type: DiffRowType;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/**
+ * Side-by-side diff with line counts
+ */
+export interface PlanDiff {
+  rows: SideBySideRow[];
+  added: number;
+  removed: number;
+}
+
+type LineOp = { op: 'equal' | 'delete' | 'insert'; text: string };
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function splitLines(content: string): string[] {
+  return content === '' ? [] : content.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Edit script turning one list of lines into another
+ *
+ * Common leading and trailing lines are matched first; the changed region
+ * between them is aligned on its longest common subsequence.
+ */
+function diffLines(before: string[], after: string[]): LineOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const a = before.slice(start, beforeEnd);
+  const b = after.slice(start, afterEnd);
+  const ops: LineOp[] = before.slice(0, start).map((text) => ({ op: 'equal', text }));
+
+  if (a.length * b.length > MAX_ALIGNED_CELLS) {
+    ops.push(...a.map((text): LineOp => ({ op: 'delete', text })));
+    ops.push(...b.map((text): LineOp => ({ op: 'insert', text })));
+  } else {
+    // lcs[i * width + j]: common subsequence length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        ops.push({ op: 'equal', text: a[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push({ op: 'delete', text: a[i++] });
+      } else {
+        ops.push({ op: 'insert', text: b[j++] });
+      }
+    }
+
+    ops.push(...a.slice(i).map((text): LineOp => ({ op: 'delete', text })));
+    ops.push(...b.slice(j).map((text): LineOp => ({ op: 'insert', text })));
+  }
+
+  ops.push(...before.slice(beforeEnd).map((text): LineOp => ({ op: 'equal', text })));
+  return ops;
+}
+
+/**
+ * Side-by-side diff of two plan contents
+ *
+ * Removed lines followed by added lines are paired up as changed rows, so an
+ * edited paragraph sits next to its earlier version.
+ */
+export function diffPlanContent(before: string, after: string): PlanDiff {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let added = 0;
+  let removed = 0;
+
+  for (let index = 0; index < ops.length; ) {
+    const { op, text } = ops[index];
+
+    if (op === 'equal') {
+      rows.push({
+        type: 'unchanged',
+        left: { number: ++leftNumber, text },
+        right: { number: ++rightNumber, text },
+      });
+      index++;
+      continue;
+    }
+
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].op !== 'equal') {
+      (ops[index].op === 'delete' ? deleted : inserted).push(ops[index].text);
+      index++;
+    }
+
+    removed += deleted.length;
+    added += inserted.length;
+
+    for (let line = 0; line < Math.max(deleted.length, inserted.length); line++) {
+      const left = line < deleted.length ? { number: ++leftNumber, text: deleted[line] } : null;
+      const right = line < inserted.length ? { number: ++rightNumber, text: inserted[line] } : null;
+
+      let type: DiffRowType = 'changed';
+      if (!right) {
+        type = 'removed';
+      } else if (!left) {
+        type = 'added';
+      }
+
+      rows.push({ type, left, right });
+    }
+  }
+
+  return { rows, added, removed };
+}
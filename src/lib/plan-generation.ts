@@ -0,0 +1,561 @@
+/**
+ * Background Plan Generation
+ *
+ * `POST /api/orgs/[orgId]/plans` creates the plan as GENERATING, queues a
+ * job (see `src/jobs/plan-generation.ts`) and runs it straight away after
+ * responding; the queue only matters for retries. The job streams the plan
+ * from the model:
+ *
+ * - Partial content is saved as it arrives, at most every
+ *   `FLUSH_INTERVAL_MS` and whenever a new section starts
+ * - A valid plan ends READY; an invalid one ends DRAFT with the reason in
+ *   `generationError`
+ * - Cancelling moves the plan to DRAFT; the job notices on its next save,
+ *   stops the model and keeps what was generated
+ * - A model error ends DRAFT too, keeping the partial content
+ * - A retried job continues from the saved content instead of starting over
+ * - A job whose worker timed out, or that was dead-lettered, ends the plan
+ *   DRAFT (see `abandonPlanGeneration`)
+ * - Whatever was generated is stored as a GENERATION revision
+ *   (see `@/lib/plan-revisions`)
+ *
+ * A finished plan's sections can also be regenerated one at a time
+ * (`regeneratePlanSection`), each stored as a SECTION_REGENERATION revision.
+ *
+ * Because progress lives in the database, the SSE endpoint
+ * (`/api/orgs/[orgId]/plans/[planId]/stream`) follows it by polling, and a
+ * dropped connection resumes from the last content offset it received.
+ */
+
+import { type OrgPlan, type OrgPlanRevision, type Prisma } from '@prisma/client';
+
+import { enqueueJob } from '@/lib/job-queue';
+import {
+  DEFAULT_PLAN_MODEL,
+  PLAN_SECTIONS,
+  anthropicPlanModel,
+  generatePlanSectionStream,
+  generatePlanStream,
+  parsePlanContent,
+  validatePlanContent,
+  type PlanModel,
+} from '@/lib/llm-plan-generator';
+import { PlanRevisionError, savePlanRevision } from '@/lib/plan-revisions';
+import { prisma } from '@/lib/prisma';
+import type { LLMPromptContext, PlanGenerationEvent } from '@/types/organization';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Job queue for plan generation (see `src/jobs/plan-generation.ts`)
+ */
+export const ORG_PLAN_GENERATION_QUEUE = 'org-plan-generation';
+
+/**
+ * Longest a generation job can run - the `maxDuration` of the routes that
+ * run it, which Next.js needs as a literal
+ */
+export const PLAN_GENERATION_MAX_DURATION_S = 300;
+
+/**
+ * A generation job locked for longer than this was killed with its function
+ */
+export const PLAN_GENERATION_STALE_LOCK_MS = (PLAN_GENERATION_MAX_DURATION_S + 60) * 1000;
+
+/**
+ * Longest partial content goes unsaved while streaming
+ */
+const FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * How often the SSE stream reads the plan
+ */
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * The SSE stream closes after this long; EventSource reconnects and resumes
+ */
+const STREAM_MAX_DURATION_MS = 4 * 60 * 1000;
+
+const SECTION_HEADER_REGEX = /^#{1,3}\s+(.+)$/gm;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Section that cannot be regenerated
+ * 404: no such heading in the plan, 502: the model returned nothing usable
+ */
+export class PlanSectionError extends Error {
+  public readonly statusCode: 404 | 502;
+
+  constructor(message: string, statusCode: 404 | 502) {
+    super(message);
+    this.name = 'PlanSectionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Location of one section in plan content
+ */
+interface PlanSectionRange {
+  /** The heading line, without its newline */
+  headingLine: string;
+  /** Offset of the heading line */
+  start: number;
+  /** Offset of the next heading, or the end of the content */
+  end: number;
+}
+
+/**
+ * Plan generation job payload
+ */
+export interface PlanGenerationJob {
+  planId: string;
+  context: LLMPromptContext;
+}
+
+/**
+ * How a generation job ended
+ */
+export type PlanGenerationOutcome = 'ready' | 'invalid' | 'cancelled' | 'failed' | 'skipped';
+
+/**
+ * Outcome of a generation job
+ */
+export interface PlanGenerationResult {
+  outcome: PlanGenerationOutcome;
+  length: number;
+  tokenCount: number | null;
+}
+
+/**
+ * Options for following a plan over SSE
+ */
+export interface PlanEventStreamOptions {
+  /** Content already received (the last event ID on reconnect) */
+  offset?: number;
+  /** Stops polling when the client disconnects */
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  maxDurationMs?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Section headings in plan content, in order
+ * Only complete lines count, so a heading still streaming is not reported.
+ */
+export function getPlanSections(content: string): string[] {
+  const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+  return Array.from(complete.matchAll(SECTION_HEADER_REGEX), (match) => match[1].trim());
+}
+
+/**
+ * Find a section by its heading text
+ *
+ * A section runs from its heading to the next heading, as in
+ * `parsePlanContent`.
+ */
+function findPlanSection(content: string, heading: string): PlanSectionRange | null {
+  const matches = Array.from(content.matchAll(SECTION_HEADER_REGEX));
+  const index = matches.findIndex((match) => match[1].trim() === heading.trim());
+
+  if (index === -1) {
+    return null;
+  }
+
+  const match = matches[index];
+  return {
+    headingLine: match[0].trimEnd(),
+    start: match.index,
+    end: matches[index + 1]?.index ?? content.length,
+  };
+}
+
+/**
+ * Format one server-sent event
+ */
+export function formatPlanEvent({ event, data }: PlanGenerationEvent, id?: number): string {
+  return `${id === undefined ? '' : `id: ${id}\n`}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Queue generation for a plan created as GENERATING
+ *
+ * Keyed by plan, so a plan is generated by one job.
+ *
+ * @returns ID of the queued job
+ */
+export async function schedulePlanGeneration(
+  planId: string,
+  context: LLMPromptContext
+): Promise<string> {
+  const payload: PlanGenerationJob = { planId, context };
+  const { job } = await enqueueJob(ORG_PLAN_GENERATION_QUEUE, { ...payload, context: { ...context } }, {
+    idempotencyKey: planId,
+  });
+  return job.id;
+}
+
+/**
+ * Cancel a plan that is still generating
+ *
+ * The plan moves to DRAFT straight away; a running job keeps the content
+ * generated so far.
+ *
+ * @returns Whether the plan was generating
+ */
+export async function cancelPlanGeneration(planId: string, now: Date = new Date()): Promise<boolean> {
+  const { count } = await prisma.orgPlan.updateMany({
+    where: { id: planId, status: 'GENERATING' },
+    data: {
+      status: 'DRAFT',
+      generationCancelledAt: now,
+      generationError: 'Generation cancelled',
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * End a plan whose generation job stopped without finishing it
+ *
+ * For jobs whose worker timed out or that were dead-lettered: the plan moves
+ * to DRAFT with the reason, and the content saved so far is kept as a
+ * GENERATION revision.
+ *
+ * @returns Whether the plan was generating
+ */
+export async function abandonPlanGeneration(planId: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.orgPlan.updateMany({
+    where: { id: planId, status: 'GENERATING' },
+    data: { status: 'DRAFT', generationError: reason },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const plan = await prisma.orgPlan.findUnique({
+    where: { id: planId },
+    select: { content: true },
+  });
+
+  if (plan?.content) {
+    await savePlanRevision(planId, plan.content, { source: 'GENERATION', model: DEFAULT_PLAN_MODEL });
+  }
+
+  return true;
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Stream a plan from the model into the database
+ *
+ * Every save is conditional on the plan still GENERATING, so a cancelled
+ * (or deleted) plan stops the model at the next save. A retry continues from
+ * the content an earlier attempt saved, so that part is not generated (and
+ * paid for) again.
+ *
+ * @param planModel - Model to stream from (defaults to Claude)
+ */
+export async function runPlanGeneration(
+  job: PlanGenerationJob,
+  planModel: PlanModel = anthropicPlanModel
+): Promise<PlanGenerationResult> {
+  const startTime = Date.now();
+
+  const plan = await prisma.orgPlan.findUnique({
+    where: { id: job.planId },
+    select: { status: true, content: true, generationStartedAt: true },
+  });
+
+  if (plan?.status !== 'GENERATING') {
+    return { outcome: 'skipped', length: 0, tokenCount: null };
+  }
+
+  let content = plan.content;
+
+  const { count: started } = await prisma.orgPlan.updateMany({
+    where: { id: job.planId, status: 'GENERATING' },
+    data: {
+      generationStartedAt: plan.generationStartedAt ?? new Date(startTime),
+      generationError: null,
+    },
+  });
+
+  if (started === 0) {
+    return { outcome: 'skipped', length: 0, tokenCount: null };
+  }
+
+  let tokenCount: number | null = null;
+  let lastFlush = startTime;
+  let sectionCount = getPlanSections(content).length;
+
+  /**
+   * Save the content while the plan is generating
+   * @returns False once the plan was cancelled
+   */
+  const save = async (data: Prisma.OrgPlanUpdateManyMutationInput): Promise<boolean> => {
+    const { count } = await prisma.orgPlan.updateMany({
+      where: { id: job.planId, status: 'GENERATING' },
+      data: { content, ...data },
+    });
+    return count > 0;
+  };
+
+  /**
+   * Keep what was generated as the plan's next revision
+   */
+  const finish = async (outcome: PlanGenerationOutcome): Promise<PlanGenerationResult> => {
+    if (content) {
+      await savePlanRevision(job.planId, content, { source: 'GENERATION', model: DEFAULT_PLAN_MODEL });
+    }
+    return { outcome, length: content.length, tokenCount };
+  };
+
+  /**
+   * Keep the partial content of a cancelled plan (unless it was deleted)
+   */
+  const keepCancelled = async (): Promise<PlanGenerationResult> => {
+    const { count } = await prisma.orgPlan.updateMany({
+      where: { id: job.planId, generationCancelledAt: { not: null } },
+      data: { content },
+    });
+    return count > 0
+      ? finish('cancelled')
+      : { outcome: 'cancelled', length: content.length, tokenCount };
+  };
+
+  try {
+    for await (const event of generatePlanStream(job.context, { prefill: content }, planModel)) {
+      if (event.type === 'done') {
+        tokenCount = event.tokenCount;
+        continue;
+      }
+
+      content += event.text;
+
+      // A heading is complete once its line ends
+      let newSection = false;
+      if (event.text.includes('\n')) {
+        const sections = getPlanSections(content).length;
+        newSection = sections > sectionCount;
+        sectionCount = sections;
+      }
+
+      if (newSection || Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        lastFlush = Date.now();
+        if (!(await save({}))) {
+          // Leaving the loop stops the model
+          return keepCancelled();
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[Plan Generation] Generation failed:', job.planId, error);
+
+    const saved = await save({ status: 'DRAFT', generationError: errorMessage(error) });
+    return saved ? finish('failed') : keepCancelled();
+  }
+
+  const validation = validatePlanContent(content);
+  const metadata = {
+    model: DEFAULT_PLAN_MODEL,
+    generationTime: Date.now() - startTime,
+    tokenCount,
+  };
+
+  const saved = validation.valid
+    ? await save({
+        ...metadata,
+        status: 'READY',
+        contentJson: parsePlanContent(content) as Prisma.InputJsonObject,
+      })
+    : await save({
+        ...metadata,
+        status: 'DRAFT',
+        generationError: `Generated plan validation failed: ${validation.errors.join(', ')}`,
+      });
+
+  if (!saved) {
+    return keepCancelled();
+  }
+
+  return finish(validation.valid ? 'ready' : 'invalid');
+}
+
+// ============================================================================
+// SECTION REGENERATION
+// ============================================================================
+
+/**
+ * Regenerate one section of a plan and store it as a revision
+ *
+ * The model sees the whole plan and rewrites only the named section; the
+ * rest of the content is kept as is.
+ *
+ * @param heading - Section heading text (as listed by `getPlanSections`)
+ * @param planModel - Model to stream from (defaults to Claude)
+ * @throws PlanSectionError (404) if the plan has no such section,
+ *   (502) if the model returned an empty section;
+ *   PlanRevisionError (409) if the plan is generating
+ */
+export async function regeneratePlanSection(
+  plan: OrgPlan,
+  heading: string,
+  authorId: string,
+  planModel: PlanModel = anthropicPlanModel
+): Promise<{ plan: OrgPlan; revision: OrgPlanRevision }> {
+  if (plan.status === 'GENERATING') {
+    throw new PlanRevisionError('Plan is still generating; cancel it first', 409);
+  }
+
+  const section = findPlanSection(plan.content, heading);
+  if (!section) {
+    throw new PlanSectionError('Section not found', 404);
+  }
+
+  let text = '';
+  for await (const event of generatePlanSectionStream(
+    plan.prompt ?? '',
+    plan.content,
+    section.headingLine,
+    {},
+    planModel
+  )) {
+    if (event.type === 'done') {
+      continue;
+    }
+
+    text += event.text;
+
+    // Leaving the loop stops a model that runs on into the next section
+    if (/^#{1,3}\s/m.test(text)) {
+      break;
+    }
+  }
+
+  const body = text.split(/^#{1,3}\s/m)[0].trim();
+  if (!body) {
+    throw new PlanSectionError('The model returned an empty section', 502);
+  }
+
+  const rest = plan.content.slice(section.end);
+  const content = `${plan.content.slice(0, section.start)}${section.headingLine}\n\n${body}\n${rest && '\n'}${rest}`;
+
+  return savePlanRevision(
+    plan.id,
+    content,
+    { source: 'SECTION_REGENERATION', authorId, model: DEFAULT_PLAN_MODEL },
+    { contentJson: parsePlanContent(content) as Prisma.InputJsonObject }
+  );
+}
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Follow a plan's generation as server-sent events
+ *
+ * Emits `token` events with content past the offset (the event ID is the new
+ * offset), `section` events as headings appear, `reset` if a retried job
+ * started over, and a final `status` event once the plan leaves GENERATING.
+ */
+export function createPlanEventStream(
+  planId: string,
+  options: PlanEventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  const deadline = Date.now() + (options.maxDurationMs ?? STREAM_MAX_DURATION_MS);
+  let offset = options.offset ?? 0;
+  let sentSections = -1;
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: PlanGenerationEvent, id?: number) =>
+        controller.enqueue(encoder.encode(formatPlanEvent(event, id)));
+
+      controller.enqueue(encoder.encode(`retry: ${pollIntervalMs * 2}\n\n`));
+
+      try {
+        while (!closed && !options.signal?.aborted && Date.now() < deadline) {
+          const plan = await prisma.orgPlan.findUnique({
+            where: { id: planId },
+            select: { status: true, content: true, generationError: true, generationCancelledAt: true },
+          });
+
+          if (!plan) {
+            send({ event: 'status', data: { status: null, error: 'Plan not found', cancelled: false } });
+            break;
+          }
+
+          if (plan.content.length < offset) {
+            offset = 0;
+            sentSections = -1;
+            send({ event: 'reset', data: {} }, 0);
+          }
+
+          if (plan.content.length > offset) {
+            send({ event: 'token', data: { text: plan.content.slice(offset) } }, plan.content.length);
+            offset = plan.content.length;
+          }
+
+          const sections = getPlanSections(plan.content);
+          if (sections.length !== sentSections) {
+            send({ event: 'section', data: { sections, total: PLAN_SECTIONS.length } });
+            sentSections = sections.length;
+          }
+
+          if (plan.status !== 'GENERATING') {
+            send({
+              event: 'status',
+              data: {
+                status: plan.status,
+                error: plan.generationError,
+                cancelled: plan.generationCancelledAt !== null,
+              },
+            });
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+      } catch (error) {
+        if (!closed) {
+          console.error('[Plan Generation] Stream failed:', planId, error);
+        }
+      }
+
+      if (!closed) {
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Organization Plan Revisions
+ *
+ * Every change to a plan's content is kept as an immutable `OrgPlanRevision`
+ * with its author, time and source:
+ *
+ * - GENERATION: the LLM finished generating the plan (see `@/lib/plan-generation`)
+ * - MANUAL_EDIT: a member changed the content (`PATCH /api/orgs/[orgId]/plans/[planId]`)
+ * - SECTION_REGENERATION: the LLM regenerated one section (see `regeneratePlanSection`)
+ * - RESTORE: an earlier revision was restored
+ *
+ * Revisions are numbered per plan from `OrgPlan.revisionCount`, incremented
+ * in the same transaction that writes the content, so concurrent saves get
+ * consecutive numbers and the plan always holds its latest revision.
+ */
+
+import {
+  Prisma,
+  type OrgPlan,
+  type OrgPlanRevision,
+  type OrgPlanRevisionSource,
+} from '@prisma/client';
+
+import { parsePlanContent } from '@/lib/llm-plan-generator';
+import { prisma } from '@/lib/prisma';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Revision that cannot be found or restored
+ * 404: unknown revision, 409: plan is generating or already has that content
+ */
+export class PlanRevisionError extends Error {
+  public readonly statusCode: 404 | 409;
+
+  constructor(message: string, statusCode: 404 | 409) {
+    super(message);
+    this.name = 'PlanRevisionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Who or what produced a revision
+ */
+export interface PlanRevisionInput {
+  source: OrgPlanRevisionSource;
+  /** User ID; omitted for LLM generation */
+  authorId?: string | null;
+  model?: string | null;
+  restoredFromId?: string | null;
+}
+
+/**
+ * Revision without its content, for listings
+ */
+export type PlanRevisionSummary = Omit<OrgPlanRevision, 'content'> & {
+  author: { id: string; name: string | null; email: string } | null;
+  length: number;
+};
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/**
+ * Plans a user may view: public, their own, or shared with them
+ */
+export function visiblePlanWhere(userId: string): Prisma.OrgPlanWhereInput {
+  return {
+    OR: [
+      { privacy: 'PUBLIC' },
+      { createdBy: userId },
+      {
+        privacy: 'SHARED',
+        shares: {
+          some: {
+            member: {
+              userId,
+              status: 'ACTIVE',
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * Store new content as a plan's next revision
+ *
+ * The generation job owns a GENERATING plan's content (its next save would
+ * overwrite anything written here), so such plans are refused.
+ *
+ * @param data - Other plan fields to update in the same transaction
+ * @returns The updated plan and its new revision
+ * @throws PlanRevisionError (409) if the plan is generating
+ */
+export async function savePlanRevision(
+  planId: string,
+  content: string,
+  input: PlanRevisionInput,
+  data: Omit<Prisma.OrgPlanUpdateInput, 'content' | 'revisionCount'> = {}
+): Promise<{ plan: OrgPlan; revision: OrgPlanRevision }> {
+  return prisma.$transaction(async (tx) => {
+    let plan: OrgPlan;
+    try {
+      plan = await tx.orgPlan.update({
+        where: { id: planId, status: { not: 'GENERATING' } },
+        data: { ...data, content, revisionCount: { increment: 1 } },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new PlanRevisionError('Plan is still generating; cancel it first', 409);
+      }
+      throw error;
+    }
+
+    const revision = await tx.orgPlanRevision.create({
+      data: {
+        planId,
+        number: plan.revisionCount,
+        content,
+        source: input.source,
+        authorId: input.authorId ?? null,
+        model: input.model ?? null,
+        restoredFromId: input.restoredFromId ?? null,
+      },
+    });
+
+    return { plan, revision };
+  });
+}
+
+/**
+ * A plan's revisions, newest first, without their content
+ */
+export async function listPlanRevisions(planId: string): Promise<PlanRevisionSummary[]> {
+  const revisions = await prisma.orgPlanRevision.findMany({
+    where: { planId },
+    orderBy: { number: 'desc' },
+  });
+
+  const authorIds = [
+    ...new Set(revisions.flatMap((revision) => (revision.authorId ? [revision.authorId] : []))),
+  ];
+  const authors = await prisma.user.findMany({
+    where: { id: { in: authorIds } },
+    select: { id: true, name: true, email: true },
+  });
+  const authorMap = new Map(authors.map((author) => [author.id, author]));
+
+  return revisions.map(({ content, ...revision }) => ({
+    ...revision,
+    author: revision.authorId ? (authorMap.get(revision.authorId) ?? null) : null,
+    length: content.length,
+  }));
+}
+
+/**
+ * One revision of a plan, with its content
+ *
+ * @throws PlanRevisionError (404) if the revision is not the plan's
+ */
+export async function getPlanRevision(planId: string, revisionId: string): Promise<OrgPlanRevision> {
+  const revision = await prisma.orgPlanRevision.findUnique({ where: { id: revisionId } });
+
+  if (!revision || revision.planId !== planId) {
+    throw new PlanRevisionError('Revision not found', 404);
+  }
+
+  return revision;
+}
+
+/**
+ * Make an earlier revision's content current again
+ *
+ * Restoring adds a RESTORE revision rather than rewinding, so the history
+ * keeps everything that came after.
+ *
+ * @throws PlanRevisionError (404) if the revision is not the plan's,
+ *   (409) if the plan is generating or already has that content
+ */
+export async function restorePlanRevision(
+  plan: OrgPlan,
+  revisionId: string,
+  authorId: string
+): Promise<{ plan: OrgPlan; revision: OrgPlanRevision }> {
+  const restored = await getPlanRevision(plan.id, revisionId);
+
+  if (plan.status === 'GENERATING') {
+    throw new PlanRevisionError('Plan is still generating; cancel it first', 409);
+  }
+
+  if (restored.content === plan.content) {
+    throw new PlanRevisionError('Plan already has this content', 409);
+  }
+
+  return savePlanRevision(
+    plan.id,
+    restored.content,
+    { source: 'RESTORE', authorId, restoredFromId: restored.id },
+    { contentJson: parsePlanContent(restored.content) as Prisma.InputJsonObject }
+  );
+}
@@ -3,9 +3,8 @@
  * Helper functions for press kit asset management
  */
 
+import type { StorageDriver } from '@/lib/storage';
 import { PressKitManifest, PressKitAsset } from '@/types/presskit';
-import path from 'node:path';
-import fs from 'node:fs';
 
 /**
  * Get the full press kit manifest with all assets
@@ -72,22 +71,33 @@ export function getPressKitManifest(): PressKitManifest {
 }
 
 /**
- * Validate that an asset exists in the filesystem
+ * Validate that an asset exists in asset storage
  */
-export function validateAsset(asset: PressKitAsset, publicDir: string): boolean {
-  const fullPath = path.join(publicDir, asset.path);
-  return fs.existsSync(fullPath);
+export async function validateAsset(asset: PressKitAsset, storage: StorageDriver): Promise<boolean> {
+  return (await storage.head(asset.path)) !== null;
+}
+
+/**
+ * Keep only the assets present in storage
+ */
+async function filterAvailable(assets: PressKitAsset[], storage: StorageDriver): Promise<PressKitAsset[]> {
+  const available = await Promise.all(assets.map((asset) => validateAsset(asset, storage)));
+  return assets.filter((_asset, index) => available[index]);
 }
 
 /**
  * Get available assets (filter out missing files)
  */
-export function getAvailableAssets(manifest: PressKitManifest, publicDir: string): PressKitManifest {
-  return {
-    documents: manifest.documents.filter((asset) => validateAsset(asset, publicDir)),
-    images: manifest.images.filter((asset) => validateAsset(asset, publicDir)),
-    logos: manifest.logos.filter((asset) => validateAsset(asset, publicDir)),
-  };
+export async function getAvailableAssets(
+  manifest: PressKitManifest,
+  storage: StorageDriver
+): Promise<PressKitManifest> {
+  const [documents, images, logos] = await Promise.all([
+    filterAvailable(manifest.documents, storage),
+    filterAvailable(manifest.images, storage),
+    filterAvailable(manifest.logos, storage),
+  ]);
+  return { documents, images, logos };
 }
 
 /**
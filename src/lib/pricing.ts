@@ -2,7 +2,7 @@
  * Pricing Data & Utilities
  */
 
-import { formatPrice } from './geo';
+import { formatPrice, getAllRegions, getRegionCurrencyCode } from './geo';
 
 import type { BookFormat, FormatPrice, GeoRegion } from '@/types';
 
@@ -60,6 +60,30 @@ export function getFormatPrice(format: BookFormat, region: GeoRegion): number {
   return formatPricing[format]?.[region] || 0;
 }
 
+/**
+ * Get list price for a format in a given currency
+ *
+ * Used to sanity-check purchase amounts on uploaded receipts.
+ *
+ * @param format - Book format
+ * @param currencyCode - ISO 4217 currency code (e.g. "GBP")
+ * @returns Price amount, or null if no region sells in that currency
+ */
+export function getFormatPriceForCurrency(
+  format: BookFormat,
+  currencyCode: string
+): number | null {
+  const region = getAllRegions().find(
+    (r) => getRegionCurrencyCode(r) === currencyCode.toUpperCase()
+  );
+
+  if (!region) {
+    return null;
+  }
+
+  return getFormatPrice(format, region) || null;
+}
+
 /**
  * Get formatted price string for a format and region
  *
@@ -217,6 +217,17 @@ export const generalFormRateLimiter = createRateLimiter({
   prefix: 'ratelimit:form',
 });
 
+/**
+ * Analytics Events: 120 beacons per 10 minutes
+ * Each beacon carries a batch of events, so this allows busy sessions
+ * while stopping scripted flooding of the events table
+ */
+export const analyticsEventsRateLimiter = createRateLimiter({
+  maxRequests: 120,
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  prefix: 'ratelimit:events',
+});
+
 // ============================================================================
 // IN-MEMORY FALLBACK (Development)
 // ============================================================================
@@ -0,0 +1,207 @@
+/**
+ * Near-Duplicate Receipt Detection
+ *
+ * Complements the SHA-256 `fileHash` check at upload with two signals that
+ * survive re-encoding:
+ * - Perceptual hashes of the image / PDF pages (see `@/lib/perceptual-hash`)
+ * - Normalized retailer + order number
+ *
+ * Close matches are marked DUPLICATE; weaker matches go to manual review,
+ * linked to the original receipt via `Receipt.duplicateOfId`.
+ */
+
+import { getReceiptRulesConfig } from '@/config/receipt-rules';
+import { hashBands, hashSimilarity } from '@/lib/perceptual-hash';
+import { prisma } from '@/lib/prisma';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Duplicate verdict
+ * - duplicate: auto-mark as DUPLICATE
+ * - review: possible duplicate, needs a human
+ * - unique: no match found
+ */
+export type DuplicateVerdict = 'duplicate' | 'review' | 'unique';
+
+/**
+ * Best matching earlier receipt
+ */
+export interface DuplicateMatch {
+  receiptId: string;
+  /** Signal that produced the match */
+  reason: 'order-number' | 'perceptual-hash';
+  /** Best perceptual similarity across pages (0-1), 1 for order number matches */
+  similarity: number;
+}
+
+/**
+ * Result of a near-duplicate check
+ */
+export interface NearDuplicateCheckResult {
+  verdict: DuplicateVerdict;
+  match: DuplicateMatch | null;
+  /** Human-readable explanation, null when unique */
+  detail: string | null;
+}
+
+/**
+ * Input for a near-duplicate check
+ */
+export interface NearDuplicateCheckInput {
+  /** Receipt being checked (excluded from candidates) */
+  receiptId: string;
+  perceptualHashes: string[];
+  orderKey: string | null;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Maximum candidate receipts compared per check
+ */
+const MAX_CANDIDATES = 200;
+
+/**
+ * Order numbers shorter than this are too generic to match on
+ */
+const MIN_ORDER_NUMBER_LENGTH = 5;
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Normalize a retailer name ("Amazon.co.uk" and "amazon" both become "amazon")
+ */
+export function normalizeRetailer(retailer: string): string {
+  return retailer
+    .toLowerCase()
+    .replace(/^www\./, '')
+    .replace(/\.(com|co\.uk|com\.au|de|fr|ca|org)$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Normalize an order number ("#112-4455667 1234567" becomes "11244556671234567")
+ */
+export function normalizeOrderNumber(orderNumber: string): string {
+  return orderNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Build the lookup key for retailer + order number matching
+ *
+ * @returns "retailer:ORDERNUMBER", or null if either part is missing or too short
+ */
+export function buildOrderKey(
+  retailer: string | null,
+  orderNumber: string | null
+): string | null {
+  if (!retailer || !orderNumber) {
+    return null;
+  }
+
+  const normalizedRetailer = normalizeRetailer(retailer);
+  const normalizedOrder = normalizeOrderNumber(orderNumber);
+
+  if (!normalizedRetailer || normalizedOrder.length < MIN_ORDER_NUMBER_LENGTH) {
+    return null;
+  }
+
+  return `${normalizedRetailer}:${normalizedOrder}`;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Best similarity between any page of one receipt and any page of another
+ */
+export function bestHashSimilarity(a: string[], b: string[]): number {
+  let best = 0;
+  for (const hashA of a) {
+    for (const hashB of b) {
+      best = Math.max(best, hashSimilarity(hashA, hashB));
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the earlier receipt this one most likely duplicates
+ *
+ * An order number match always counts as a duplicate. Otherwise the
+ * candidates sharing at least one perceptual-hash band are compared.
+ */
+export async function findNearDuplicateReceipt(
+  input: NearDuplicateCheckInput
+): Promise<NearDuplicateCheckResult> {
+  const { receiptId, perceptualHashes, orderKey } = input;
+  const thresholds = getReceiptRulesConfig().duplicateSimilarity;
+
+  // Order number reuse is conclusive - link to the earliest receipt
+  if (orderKey) {
+    const orderMatch = await prisma.receipt.findFirst({
+      where: { id: { not: receiptId }, orderKey },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (orderMatch) {
+      return {
+        verdict: 'duplicate',
+        match: { receiptId: orderMatch.id, reason: 'order-number', similarity: 1 },
+        detail: `Same retailer and order number as receipt ${orderMatch.id}`,
+      };
+    }
+  }
+
+  if (perceptualHashes.length === 0) {
+    return { verdict: 'unique', match: null, detail: null };
+  }
+
+  const candidates = await prisma.receipt.findMany({
+    where: {
+      id: { not: receiptId },
+      perceptualHashBands: { hasSome: hashBands(perceptualHashes) },
+    },
+    select: { id: true, perceptualHashes: true },
+    orderBy: { createdAt: 'asc' },
+    take: MAX_CANDIDATES,
+  });
+
+  let best: DuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    const similarity = bestHashSimilarity(perceptualHashes, candidate.perceptualHashes);
+    // Strictly greater keeps the earliest receipt on ties
+    if (!best || similarity > best.similarity) {
+      best = { receiptId: candidate.id, reason: 'perceptual-hash', similarity };
+    }
+  }
+
+  if (!best || best.similarity < thresholds.review) {
+    return { verdict: 'unique', match: null, detail: null };
+  }
+
+  const percent = Math.round(best.similarity * 100);
+
+  if (best.similarity >= thresholds.duplicate) {
+    return {
+      verdict: 'duplicate',
+      match: best,
+      detail: `Image matches receipt ${best.receiptId} (${percent}% similar)`,
+    };
+  }
+
+  return {
+    verdict: 'review',
+    match: best,
+    detail: `Possible duplicate of receipt ${best.receiptId} (${percent}% similar)`,
+  };
+}
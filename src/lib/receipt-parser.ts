@@ -15,6 +15,9 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 
+import type { OCRLine, OcrProviderName } from '@/lib/ocr';
+import { evaluateReceiptRules } from '@/lib/receipt-rules';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -51,6 +54,18 @@ export interface ReceiptParsingResult {
   rawData: Record<string, unknown>;
 }
 
+/**
+ * OCR layout context passed alongside the receipt text
+ */
+export interface ReceiptOCRContext {
+  /** Recognised lines (PII already redacted) */
+  lines: OCRLine[];
+  /** Overall OCR confidence (0-1) */
+  confidence: number;
+  /** OCR backend that produced the lines */
+  provider: OcrProviderName | null;
+}
+
 /**
  * LLM extraction response
  */
@@ -100,15 +115,52 @@ function createAnthropicClient(): Anthropic | null {
 // RECEIPT PARSING PROMPT
 // ============================================================================
 
+/**
+ * Lines below this OCR confidence are flagged to the LLM as unreliable
+ */
+const LOW_CONFIDENCE_LINE_THRESHOLD = 0.6;
+
+/**
+ * Overall OCR confidence below which a receipt always needs manual review
+ */
+const MIN_OCR_CONFIDENCE = 0.5;
+
+/**
+ * Render OCR lines with confidence and position so the LLM can use layout
+ * (e.g. totals near the bottom, retailer header at the top)
+ */
+function formatOCRLines(lines: OCRLine[]): string {
+  return lines
+    .map((line) => {
+      const position = line.boundingBox
+        ? `y=${line.boundingBox.top.toFixed(2)}`
+        : 'y=?';
+      const flag = line.confidence < LOW_CONFIDENCE_LINE_THRESHOLD ? ' LOW' : '';
+      return `[conf=${line.confidence.toFixed(2)}${flag} ${position}] ${line.text}`;
+    })
+    .join('\n');
+}
+
 /**
  * Generate receipt parsing prompt
  */
-function generateReceiptParsingPrompt(ocrText: string): string {
+function generateReceiptParsingPrompt(
+  ocrText: string,
+  ocr?: ReceiptOCRContext
+): string {
+  const layoutSection =
+    ocr && ocr.lines.length > 0
+      ? `
+OCR LINES (per-line confidence 0-1 and vertical position 0=top, 1=bottom; LOW marks unreliable lines):
+${formatOCRLines(ocr.lines)}
+`
+      : '';
+
   return `You are a receipt verification expert. Analyze the following receipt text and extract key information.
 
 RECEIPT TEXT:
 ${ocrText}
-
+${layoutSection}
 TASK:
 Extract the following information from this receipt:
 
@@ -141,6 +193,7 @@ Set requiresManualReview to true if:
 - Book title doesn't match "AI-Born"
 - Amount is outside expected range
 - Receipt quality is poor
+- Key fields (title, total, date) only appear on LOW confidence OCR lines
 - Important information is missing
 
 IMPORTANT: Respond ONLY with valid JSON matching this exact structure:
@@ -170,9 +223,24 @@ IMPORTANT: Respond ONLY with valid JSON matching this exact structure:
  * Parse receipt text using LLM
  *
  * @param ocrText - Text extracted from receipt image via OCR
+ * @param ocr - Optional OCR line layout and confidence
  * @returns Receipt parsing result
  */
-export async function parseReceipt(ocrText: string): Promise<ReceiptParsingResult> {
+export async function parseReceipt(
+  ocrText: string,
+  ocr?: ReceiptOCRContext
+): Promise<ReceiptParsingResult> {
+  const ocrSummary = ocr
+    ? {
+        provider: ocr.provider,
+        confidence: ocr.confidence,
+        lineCount: ocr.lines.length,
+        lowConfidenceLines: ocr.lines.filter(
+          (line) => line.confidence < LOW_CONFIDENCE_LINE_THRESHOLD
+        ).length,
+      }
+    : null;
+
   const client = createAnthropicClient();
 
   if (!client) {
@@ -203,7 +271,7 @@ export async function parseReceipt(ocrText: string): Promise<ReceiptParsingResul
       messages: [
         {
           role: 'user',
-          content: generateReceiptParsingPrompt(ocrText),
+          content: generateReceiptParsingPrompt(ocrText, ocr),
         },
       ],
     });
@@ -217,6 +285,9 @@ export async function parseReceipt(ocrText: string): Promise<ReceiptParsingResul
     // Parse JSON response
     const extraction = parseExtractionResponse(responseText);
 
+    // Poor OCR input always needs a human, whatever the LLM concluded
+    const lowOcrConfidence = !!ocr && ocr.confidence < MIN_OCR_CONFIDENCE;
+
     // Convert to standard result format
     return {
       success: true,
@@ -230,10 +301,12 @@ export async function parseReceipt(ocrText: string): Promise<ReceiptParsingResul
       orderNumber: extraction.orderNumber,
       format: normalizeFormat(extraction.format),
       confidence: extraction.overallConfidence,
-      requiresManualReview: extraction.requiresManualReview,
-      manualReviewReason: extraction.manualReviewReason,
+      requiresManualReview: extraction.requiresManualReview || lowOcrConfidence,
+      manualReviewReason:
+        extraction.manualReviewReason ||
+        (lowOcrConfidence ? 'Low OCR confidence' : null),
       piiDetected: extraction.piiDetected,
-      rawData: extraction as unknown as Record<string, unknown>,
+      rawData: { ...extraction, ocr: ocrSummary },
     };
   } catch (error) {
     console.error('[Receipt Parser] Failed to parse receipt:', error);
@@ -251,7 +324,7 @@ export async function parseReceipt(ocrText: string): Promise<ReceiptParsingResul
       requiresManualReview: true,
       manualReviewReason: `Parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`,
       piiDetected: [],
-      rawData: { error: String(error) },
+      rawData: { error: String(error), ocr: ocrSummary },
     };
   }
 }
@@ -380,6 +453,9 @@ function normalizeFormat(
 
 /**
  * Check if receipt appears fraudulent
+ *
+ * Thin wrapper over the rules engine; use `evaluateReceiptRules` directly
+ * when the per-rule breakdown is needed.
  */
 export function checkReceiptFraud(
   result: ReceiptParsingResult,
@@ -388,91 +464,17 @@ export function checkReceiptFraud(
   isFraudulent: boolean;
   reasons: string[];
 } {
-  const reasons: string[] = [];
-
-  // Check confidence threshold
-  if (result.confidence < 0.5) {
-    reasons.push('Low confidence score');
-  }
-
-  // Check book title match
-  if (!result.bookTitle || !result.bookTitle.toLowerCase().includes('ai-born')) {
-    reasons.push('Book title does not match AI-Born');
-  }
-
-  // Check amount range
-  if (result.amount !== null) {
-    if (result.format === 'hardcover' && (result.amount < 15 || result.amount > 100)) {
-      reasons.push('Hardcover price outside expected range ($15-$100)');
-    }
-    if (result.format === 'ebook' && (result.amount < 5 || result.amount > 30)) {
-      reasons.push('Ebook price outside expected range ($5-$30)');
-    }
-    if (result.format === 'audiobook' && (result.amount < 10 || result.amount > 50)) {
-      reasons.push('Audiobook price outside expected range ($10-$50)');
-    }
-  }
-
-  // Check retailer match (if provided)
-  if (expectedRetailer && result.retailer) {
-    if (
-      !result.retailer.toLowerCase().includes(expectedRetailer.toLowerCase())
-    ) {
-      reasons.push('Retailer mismatch');
-    }
-  }
-
-  // Check purchase date (not in future, not too old)
-  if (result.purchaseDate) {
-    const now = new Date();
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-
-    if (result.purchaseDate > now) {
-      reasons.push('Purchase date is in the future');
-    }
-
-    if (result.purchaseDate < sixMonthsAgo) {
-      reasons.push('Purchase date is more than 6 months old');
-    }
-  }
-
-  return {
-    isFraudulent: reasons.length > 0,
-    reasons,
-  };
+  const { isFraudulent, reasons } = evaluateReceiptRules(result, { expectedRetailer });
+  return { isFraudulent, reasons };
 }
 
 /**
  * Calculate verification score (0-100)
+ *
+ * Sum of the points awarded by each rule (see `@/config/receipt-rules`).
  */
 export function calculateVerificationScore(
   result: ReceiptParsingResult
 ): number {
-  let score = 0;
-
-  // Base confidence (0-40 points)
-  score += result.confidence * 40;
-
-  // Book title match (0-20 points)
-  if (result.bookTitle && result.bookTitle.toLowerCase().includes('ai-born')) {
-    score += 20;
-  }
-
-  // Retailer detected (0-15 points)
-  if (result.retailer) {
-    score += 15;
-  }
-
-  // Amount in valid range (0-15 points)
-  if (result.amount !== null && result.amount > 0 && result.amount < 200) {
-    score += 15;
-  }
-
-  // Purchase date valid (0-10 points)
-  if (result.purchaseDate && result.purchaseDate <= new Date()) {
-    score += 10;
-  }
-
-  return Math.min(100, Math.round(score));
+  return evaluateReceiptRules(result).score;
 }
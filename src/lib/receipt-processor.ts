@@ -7,31 +7,26 @@
  * Features:
  * - Image preprocessing for OCR
  * - PII detection and redaction (triple-layer)
- * - Text extraction
+ * - Text extraction (pluggable OCR providers)
  * - File format validation
  */
 
 import { fileTypeFromBuffer } from 'file-type';
 import crypto from 'crypto';
 
+import {
+  getOcrProvider,
+  type OCRLine,
+  type OCRResult,
+  type OcrBoundingBox,
+} from '@/lib/ocr';
+
+export type { OCRLine, OCRResult, OcrBoundingBox } from '@/lib/ocr';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * OCR processing result
- */
-export interface OCRResult {
-  /** Extracted text from receipt */
-  text: string;
-  /** Confidence score (0-1) */
-  confidence: number;
-  /** Whether OCR was successful */
-  success: boolean;
-  /** Error message if failed */
-  error?: string;
-}
-
 /**
  * PII redaction result
  */
@@ -93,91 +88,42 @@ const PII_PATTERNS = {
 };
 
 // ============================================================================
-// OCR PROCESSING (Placeholder for AWS Textract or similar)
+// OCR PROCESSING
 // ============================================================================
 
 /**
  * Extract text from receipt image using OCR
  *
- * NOTE: This is a placeholder implementation.
- * In production, integrate with:
- * - AWS Textract
- * - Google Cloud Vision API
- * - Azure Computer Vision
- * - Tesseract.js (open source, less accurate)
+ * Delegates to the configured OCR provider (see `@/lib/ocr`):
+ * - Tesseract (offline, default)
+ * - AWS Textract (when credentials are configured)
  *
  * @param imageBuffer - Receipt image buffer
- * @returns OCR result with extracted text
+ * @param mimeType - Detected MIME type of the file
+ * @returns OCR result with extracted text, per-line confidence and bounding boxes
  */
 export async function extractTextFromImage(
-  imageBuffer: Buffer
+  imageBuffer: Buffer,
+  mimeType: string
 ): Promise<OCRResult> {
-  // Check if AWS Textract is configured
-  const isTextractConfigured = !!(
-    process.env.AWS_TEXTRACT_REGION &&
-    process.env.AWS_ACCESS_KEY_ID &&
-    process.env.AWS_SECRET_ACCESS_KEY
-  );
+  const provider = getOcrProvider();
 
-  if (!isTextractConfigured) {
+  if (!provider.supports(mimeType)) {
     console.warn(
-      '[Receipt Processor] AWS Textract not configured. Using placeholder OCR.'
+      `[Receipt Processor] OCR provider "${provider.name}" cannot read ${mimeType}. Manual review required.`
     );
 
-    // Return placeholder result
-    // In development, you might return sample text for testing
-    return {
-      text: 'PLACEHOLDER OCR TEXT - Configure AWS Textract for production',
-      confidence: 0.5,
-      success: false,
-      error: 'AWS Textract not configured',
-    };
-  }
-
-  try {
-    // TODO: Implement AWS Textract integration
-    // Example:
-    // const textract = new AWS.Textract({
-    //   region: process.env.AWS_TEXTRACT_REGION,
-    //   credentials: {
-    //     accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-    //     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-    //   },
-    // });
-    //
-    // const result = await textract.detectDocumentText({
-    //   Document: {
-    //     Bytes: imageBuffer,
-    //   },
-    // }).promise();
-    //
-    // const text = result.Blocks
-    //   ?.filter(block => block.BlockType === 'LINE')
-    //   .map(block => block.Text)
-    //   .join('\n') || '';
-    //
-    // const confidence = result.Blocks
-    //   ?.filter(block => block.BlockType === 'LINE')
-    //   .reduce((sum, block) => sum + (block.Confidence || 0), 0) /
-    //   result.Blocks.length || 0;
-
-    // Placeholder return
-    return {
-      text: 'AWS Textract integration pending',
-      confidence: 0.5,
-      success: false,
-      error: 'AWS Textract not implemented',
-    };
-  } catch (error) {
-    console.error('[Receipt Processor] OCR extraction failed:', error);
-
     return {
       text: '',
       confidence: 0,
+      lines: [],
+      provider: provider.name,
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: `Unsupported file type for ${provider.name} OCR: ${mimeType}`,
     };
   }
+
+  return provider.recognize(imageBuffer, mimeType);
 }
 
 // ============================================================================
@@ -386,6 +332,9 @@ export async function validateReceiptFile(
  * 3. Extract text via OCR
  * 4. Redact PII
  *
+ * `redactedRegions` holds the bounding boxes of lines that contained PII,
+ * so reviewers can be shown the image with those areas masked.
+ *
  * @param fileBuffer - Receipt file buffer
  * @param mimeType - MIME type
  * @returns Processed text with PII redacted
@@ -397,8 +346,11 @@ export async function processReceiptFile(
   success: boolean;
   text: string;
   redactedText: string;
+  redactedLines: OCRLine[];
+  redactedRegions: OcrBoundingBox[];
   piiDetected: string[];
   confidence: number;
+  ocrProvider: OCRResult['provider'];
   error?: string;
 }> {
   // Step 1: Validate file
@@ -408,8 +360,11 @@ export async function processReceiptFile(
       success: false,
       text: '',
       redactedText: '',
+      redactedLines: [],
+      redactedRegions: [],
       piiDetected: [],
       confidence: 0,
+      ocrProvider: null,
       error: validation.error,
     };
   }
@@ -424,27 +379,43 @@ export async function processReceiptFile(
   }
 
   // Step 3: Extract text via OCR
-  const ocrResult = await extractTextFromImage(processedBuffer);
+  const ocrResult = await extractTextFromImage(
+    processedBuffer,
+    validation.detectedMimeType || mimeType
+  );
   if (!ocrResult.success || !ocrResult.text) {
     return {
       success: false,
       text: '',
       redactedText: '',
+      redactedLines: [],
+      redactedRegions: [],
       piiDetected: [],
       confidence: 0,
+      ocrProvider: ocrResult.provider,
       error: ocrResult.error || 'OCR extraction failed',
     };
   }
 
-  // Step 4: Redact PII
+  // Step 4: Redact PII (line by line so layout survives redaction)
   const redactionResult = redactPII(ocrResult.text);
+  const redactedLines = ocrResult.lines.map((line) => ({
+    ...line,
+    text: redactPII(line.text).redactedText,
+  }));
+  const redactedRegions = ocrResult.lines
+    .filter((line, index) => line.boundingBox && line.text !== redactedLines[index].text)
+    .map((line) => line.boundingBox as OcrBoundingBox);
 
   return {
     success: true,
     text: ocrResult.text,
     redactedText: redactionResult.redactedText,
+    redactedLines,
+    redactedRegions,
     piiDetected: redactionResult.piiDetected,
     confidence: ocrResult.confidence,
+    ocrProvider: ocrResult.provider,
   };
 }
 
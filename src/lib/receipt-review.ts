@@ -0,0 +1,315 @@
+/**
+ * Receipt Review Queue
+ *
+ * Persistence format and queries for the admin receipt review queue
+ * (`/admin/receipts`).
+ *
+ * The automated verifier stores its parsed fields on `Receipt.parsedData`
+ * so reviewers can compare them against the (redacted) receipt image
+ * without re-running OCR or the LLM.
+ *
+ * Receipt images are redacted server-side: the PII regions found by OCR are
+ * painted over before the file leaves the server. Receipts without that
+ * information - OCR failed or did not run, it found PII without locating it,
+ * or the receipt predates recorded regions - have their image withheld
+ * (see `canRedactReceipt`), so an unmasked receipt never reaches the
+ * reviewer's browser.
+ */
+
+import { ReceiptStatus, type Prisma } from '@prisma/client';
+import sharp from 'sharp';
+
+import type { OcrBoundingBox, OcrProviderName } from '@/lib/ocr';
+import { renderPdfPages } from '@/lib/perceptual-hash';
+import { prisma } from '@/lib/prisma';
+import type { ReceiptParsingResult } from '@/lib/receipt-parser';
+import type { ReceiptRuleEvaluation } from '@/lib/receipt-rules';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Automated verification output stored on `Receipt.parsedData`
+ */
+export interface ReceiptReviewData {
+  retailer: string | null;
+  amount: number | null;
+  currency: string | null;
+  bookTitle: string | null;
+  /** ISO date string */
+  purchaseDate: string | null;
+  orderNumber: string | null;
+  format: ReceiptParsingResult['format'];
+  /** LLM parsing confidence (0-1) */
+  confidence: number;
+  requiresManualReview: boolean;
+  manualReviewReason: string | null;
+  piiDetected: string[];
+  ocrProvider: OcrProviderName | null;
+  /** OCR confidence (0-1) */
+  ocrConfidence: number;
+  /** Normalised image regions (0-1) that contained PII */
+  redactedRegions: OcrBoundingBox[];
+}
+
+/**
+ * Receipt as shown in the review queue
+ */
+export interface ReceiptReviewItem {
+  id: string;
+  status: ReceiptStatus;
+  retailer: string;
+  orderNumber: string | null;
+  purchaseDate: string | null;
+  format: string | null;
+  userEmail: string;
+  verificationScore: number | null;
+  fraudReasons: string[];
+  rejectionReason: string | null;
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+  duplicateOfId: string | null;
+  bonusClaimStatus: string | null;
+  parsedData: ReceiptReviewData | null;
+  /** False when the image is withheld (see `canRedactReceipt`) */
+  imageRedactable: boolean;
+  /** Per-rule score breakdown */
+  ruleEvaluation: ReceiptRuleEvaluation | null;
+  createdAt: string;
+}
+
+/**
+ * Filters for the review queue
+ */
+export interface ListReceiptsForReviewOptions {
+  status?: ReceiptStatus;
+  page?: number;
+  limit?: number;
+}
+
+// ============================================================================
+// SERIALISATION
+// ============================================================================
+
+/**
+ * Build the stored review data from a parsing result
+ */
+export function buildReceiptReviewData(
+  parsing: ReceiptParsingResult,
+  ocr: {
+    provider: OcrProviderName | null;
+    confidence: number;
+    redactedRegions: OcrBoundingBox[];
+  }
+): ReceiptReviewData {
+  return {
+    retailer: parsing.retailer,
+    amount: parsing.amount,
+    currency: parsing.currency,
+    bookTitle: parsing.bookTitle,
+    purchaseDate: parsing.purchaseDate ? parsing.purchaseDate.toISOString() : null,
+    orderNumber: parsing.orderNumber,
+    format: parsing.format,
+    confidence: parsing.confidence,
+    requiresManualReview: parsing.requiresManualReview,
+    manualReviewReason: parsing.manualReviewReason,
+    piiDetected: parsing.piiDetected,
+    ocrProvider: ocr.provider,
+    ocrConfidence: ocr.confidence,
+    redactedRegions: ocr.redactedRegions,
+  };
+}
+
+/**
+ * Read stored review data (null for receipts processed before it was recorded)
+ */
+export function readReceiptReviewData(
+  value: Prisma.JsonValue | null
+): ReceiptReviewData | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const data = value as unknown as Partial<ReceiptReviewData>;
+
+  return {
+    retailer: data.retailer ?? null,
+    amount: data.amount ?? null,
+    currency: data.currency ?? null,
+    bookTitle: data.bookTitle ?? null,
+    purchaseDate: data.purchaseDate ?? null,
+    orderNumber: data.orderNumber ?? null,
+    format: data.format ?? null,
+    confidence: data.confidence ?? 0,
+    requiresManualReview: data.requiresManualReview ?? false,
+    manualReviewReason: data.manualReviewReason ?? null,
+    piiDetected: data.piiDetected ?? [],
+    ocrProvider: data.ocrProvider ?? null,
+    ocrConfidence: data.ocrConfidence ?? 0,
+    redactedRegions: data.redactedRegions ?? [],
+  };
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Whether a receipt's image can be shown redacted
+ *
+ * OCR must have run and located any PII it detected; otherwise there is
+ * nothing reliable to paint over.
+ */
+export function canRedactReceipt(data: ReceiptReviewData | null): data is ReceiptReviewData {
+  if (!data?.ocrProvider) {
+    return false;
+  }
+
+  return data.redactedRegions.length > 0 || data.piiDetected.length === 0;
+}
+
+/**
+ * Paint over PII regions on a receipt file
+ *
+ * PDFs are rendered to an image first (OCR regions refer to the first page).
+ * The output is always re-encoded, which also drops EXIF metadata such as
+ * GPS coordinates.
+ *
+ * @param file - Original receipt file
+ * @param mimeType - MIME type of the original file
+ * @param regions - Normalised regions (0-1) to mask
+ * @returns Redacted image and its MIME type
+ */
+export async function redactReceiptFile(
+  file: Buffer,
+  mimeType: string,
+  regions: OcrBoundingBox[]
+): Promise<{ buffer: Buffer; mimeType: string }> {
+  let image = file;
+  if (mimeType === 'application/pdf') {
+    const [firstPage] = await renderPdfPages(file, 1);
+    if (!firstPage) {
+      throw new Error('PDF has no pages');
+    }
+    image = firstPage;
+  }
+
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+
+  const masks = regions.flatMap((region) => {
+    const left = Math.max(0, Math.floor(region.left * width));
+    const top = Math.max(0, Math.floor(region.top * height));
+    const right = Math.min(width, Math.ceil((region.left + region.width) * width));
+    const bottom = Math.min(height, Math.ceil((region.top + region.height) * height));
+
+    if (right <= left || bottom <= top) {
+      return [];
+    }
+
+    return [
+      {
+        input: {
+          create: {
+            width: right - left,
+            height: bottom - top,
+            channels: 3 as const,
+            background: '#000000',
+          },
+        },
+        left,
+        top,
+      },
+    ];
+  });
+
+  const { data, info } = await sharp(image)
+    .composite(masks)
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, mimeType: `image/${info.format}` };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List receipts for the review queue
+ *
+ * Pending receipts are listed oldest first (review order); other statuses
+ * newest first.
+ */
+export async function listReceiptsForReview(
+  options: ListReceiptsForReviewOptions = {}
+): Promise<{ receipts: ReceiptReviewItem[]; total: number; page: number; limit: number }> {
+  const { status, page = 1, limit = 50 } = options;
+  const where: Prisma.ReceiptWhereInput = status ? { status } : {};
+
+  const [receipts, total] = await Promise.all([
+    prisma.receipt.findMany({
+      where,
+      orderBy: { createdAt: status === ReceiptStatus.PENDING ? 'asc' : 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        user: { select: { email: true } },
+        bonusClaim: { select: { status: true } },
+      },
+    }),
+    prisma.receipt.count({ where }),
+  ]);
+
+  return {
+    receipts: receipts.map((receipt) => {
+      const parsedData = readReceiptReviewData(receipt.parsedData);
+
+      return {
+        id: receipt.id,
+        status: receipt.status,
+        retailer: receipt.retailer,
+        orderNumber: receipt.orderNumber,
+        purchaseDate: receipt.purchaseDate?.toISOString() || null,
+        format: receipt.format,
+        userEmail: receipt.user.email,
+        verificationScore: receipt.verificationScore,
+        fraudReasons: receipt.fraudReasons,
+        rejectionReason: receipt.rejectionReason,
+        verifiedBy: receipt.verifiedBy,
+        verifiedAt: receipt.verifiedAt?.toISOString() || null,
+        duplicateOfId: receipt.duplicateOfId,
+        bonusClaimStatus: receipt.bonusClaim?.status || null,
+        parsedData,
+        imageRedactable: canRedactReceipt(parsedData),
+        ruleEvaluation: receipt.ruleEvaluation as unknown as ReceiptRuleEvaluation | null,
+        createdAt: receipt.createdAt.toISOString(),
+      };
+    }),
+    total,
+    page,
+    limit,
+  };
+}
+
+/**
+ * Count receipts per status
+ */
+export async function getReceiptStatusCounts(): Promise<Record<ReceiptStatus, number>> {
+  const groups = await prisma.receipt.groupBy({
+    by: ['status'],
+    _count: { _all: true },
+  });
+
+  const counts: Record<ReceiptStatus, number> = {
+    PENDING: 0,
+    VERIFIED: 0,
+    REJECTED: 0,
+    DUPLICATE: 0,
+  };
+
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+
+  return counts;
+}
@@ -0,0 +1,365 @@
+/**
+ * Receipt Rules Engine
+ *
+ * Explainable fraud detection and verification scoring for parsed
+ * receipts. Each rule awards up to its configured weight in score points
+ * and may flag the receipt as fraudulent; the per-rule breakdown is stored
+ * on the receipt so reviewers can see why a score came out the way it did.
+ *
+ * Thresholds, price bands and weights live in `@/config/receipt-rules`.
+ *
+ * Usage:
+ * ```typescript
+ * const evaluation = evaluateReceiptRules(parsingResult);
+ * evaluation.score;        // 0-100
+ * evaluation.isFraudulent; // any fraud rule failed
+ * evaluation.rules;        // per-rule breakdown
+ * ```
+ */
+
+import {
+  getReceiptRulesConfig,
+  ReceiptRuleIds,
+  type ReceiptRuleId,
+  type ReceiptRulesConfig,
+} from '@/config/receipt-rules';
+import { getFormatPriceForCurrency } from '@/lib/pricing';
+import type { ReceiptParsingResult } from '@/lib/receipt-parser';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Outcome of a single rule
+ * - pass: rule satisfied
+ * - fail: rule not satisfied
+ * - skip: rule not applicable (no points, never fraud)
+ */
+export type ReceiptRuleOutcome = 'pass' | 'fail' | 'skip';
+
+/**
+ * Input to every rule
+ */
+export interface ReceiptRuleContext {
+  parsing: ReceiptParsingResult;
+  config: ReceiptRulesConfig;
+  /** Retailer the user claimed at upload, if any */
+  expectedRetailer?: string;
+  now: Date;
+}
+
+/**
+ * Raw verdict returned by a rule
+ */
+interface RuleVerdict {
+  outcome: ReceiptRuleOutcome;
+  /** Human-readable explanation */
+  detail: string;
+  /** Share of the rule weight awarded (0-1, defaults to 1 on pass, 0 otherwise) */
+  credit?: number;
+  /** Whether this verdict marks the receipt as fraudulent */
+  fraud?: boolean;
+}
+
+/**
+ * Declarative rule definition
+ */
+export interface ReceiptRule {
+  id: ReceiptRuleId;
+  label: string;
+  evaluate: (context: ReceiptRuleContext) => RuleVerdict;
+}
+
+/**
+ * Per-rule breakdown entry (persisted on the receipt)
+ */
+export interface ReceiptRuleResult {
+  id: ReceiptRuleId;
+  label: string;
+  outcome: ReceiptRuleOutcome;
+  fraud: boolean;
+  /** Points awarded */
+  points: number;
+  /** Maximum points available */
+  weight: number;
+  detail: string;
+}
+
+/**
+ * Full evaluation of a receipt
+ */
+export interface ReceiptRuleEvaluation {
+  /** Config version the evaluation ran against */
+  version: number;
+  /** Verification score (0-100) */
+  score: number;
+  isFraudulent: boolean;
+  /** Details of the rules that flagged fraud */
+  reasons: string[];
+  rules: ReceiptRuleResult[];
+  evaluatedAt: string;
+}
+
+/**
+ * Options for evaluateReceiptRules
+ */
+export interface EvaluateReceiptRulesOptions {
+  expectedRetailer?: string;
+  /** Evaluation time (defaults to now) */
+  now?: Date;
+  /** Override the configured rules (tests, what-if analysis) */
+  config?: ReceiptRulesConfig;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD for rule details
+ */
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Rule set, evaluated in order
+ */
+export const RECEIPT_RULES: ReceiptRule[] = [
+  {
+    id: ReceiptRuleIds.PARSE_CONFIDENCE,
+    label: 'Parse confidence',
+    evaluate: ({ parsing, config }) => {
+      const percent = Math.round(parsing.confidence * 100);
+
+      if (parsing.confidence < config.minConfidence) {
+        return {
+          outcome: 'fail',
+          detail: `Low confidence score (${percent}% < ${Math.round(config.minConfidence * 100)}%)`,
+          credit: parsing.confidence,
+          fraud: true,
+        };
+      }
+
+      return {
+        outcome: 'pass',
+        detail: `Parsed with ${percent}% confidence`,
+        credit: parsing.confidence,
+      };
+    },
+  },
+  {
+    id: ReceiptRuleIds.BOOK_TITLE,
+    label: 'Book title',
+    evaluate: ({ parsing, config }) => {
+      const title = parsing.bookTitle?.toLowerCase() ?? '';
+      const matches = config.titleKeywords.some((keyword) => title.includes(keyword));
+
+      if (!matches) {
+        return {
+          outcome: 'fail',
+          detail: parsing.bookTitle
+            ? `Book title "${parsing.bookTitle}" does not match AI-Born`
+            : 'Book title not found on receipt',
+          fraud: true,
+        };
+      }
+
+      return { outcome: 'pass', detail: `Found "${parsing.bookTitle}"` };
+    },
+  },
+  {
+    id: ReceiptRuleIds.RETAILER_DETECTED,
+    label: 'Retailer detected',
+    evaluate: ({ parsing }) =>
+      parsing.retailer
+        ? { outcome: 'pass', detail: `Retailer: ${parsing.retailer}` }
+        : { outcome: 'fail', detail: 'No retailer detected' },
+  },
+  {
+    id: ReceiptRuleIds.RETAILER_MATCH,
+    label: 'Retailer matches upload',
+    evaluate: ({ parsing, expectedRetailer }) => {
+      if (!expectedRetailer || !parsing.retailer) {
+        return { outcome: 'skip', detail: 'No retailer to compare' };
+      }
+
+      if (!parsing.retailer.toLowerCase().includes(expectedRetailer.toLowerCase())) {
+        return {
+          outcome: 'fail',
+          detail: `Retailer mismatch (receipt: ${parsing.retailer}, claimed: ${expectedRetailer})`,
+          fraud: true,
+        };
+      }
+
+      return { outcome: 'pass', detail: `Matches claimed retailer ${expectedRetailer}` };
+    },
+  },
+  {
+    id: ReceiptRuleIds.PRICE_RANGE,
+    label: 'Price in expected range',
+    evaluate: ({ parsing, config }) => {
+      const { amount, format } = parsing;
+      const currency = (parsing.currency || 'USD').toUpperCase();
+
+      if (amount === null || amount <= 0) {
+        return { outcome: 'fail', detail: 'No purchase amount found' };
+      }
+
+      const listPrice = format ? getFormatPriceForCurrency(format, currency) : null;
+      if (!format || listPrice === null) {
+        // Nothing to compare against - an amount alone still earns the points
+        return {
+          outcome: 'pass',
+          detail: `${amount.toFixed(2)} ${currency} (no list price for ${format ?? 'unknown format'} in ${currency})`,
+        };
+      }
+
+      const band = config.priceBands[format];
+      const min = listPrice * band.minMultiplier;
+      const max = listPrice * band.maxMultiplier;
+      const range = `${min.toFixed(2)}-${max.toFixed(2)} ${currency}`;
+
+      if (amount < min || amount > max) {
+        return {
+          outcome: 'fail',
+          detail: `${format} price ${amount.toFixed(2)} ${currency} outside expected range (${range})`,
+          fraud: true,
+        };
+      }
+
+      return {
+        outcome: 'pass',
+        detail: `${amount.toFixed(2)} ${currency} within ${range}`,
+      };
+    },
+  },
+  {
+    id: ReceiptRuleIds.PURCHASE_DATE,
+    label: 'Purchase date',
+    evaluate: ({ parsing, config, now }) => {
+      const { purchaseDate } = parsing;
+
+      if (!purchaseDate) {
+        return { outcome: 'fail', detail: 'No purchase date found' };
+      }
+
+      if (purchaseDate > now) {
+        return {
+          outcome: 'fail',
+          detail: `Purchase date ${formatDay(purchaseDate)} is in the future`,
+          fraud: true,
+        };
+      }
+
+      // Without a publication date, fall back to a window ending today
+      if (!config.publicationDate) {
+        const oldest = new Date(now.getTime() - config.defaultPurchaseWindowDays * DAY_MS);
+
+        if (purchaseDate < oldest) {
+          return {
+            outcome: 'fail',
+            detail: `Purchase date ${formatDay(purchaseDate)} is more than ${config.defaultPurchaseWindowDays} days old`,
+            fraud: true,
+          };
+        }
+
+        return {
+          outcome: 'pass',
+          detail: `Purchased ${formatDay(purchaseDate)} (within the last ${config.defaultPurchaseWindowDays} days)`,
+        };
+      }
+
+      const opens = new Date(
+        config.publicationDate.getTime() - config.purchaseWindowOpensDaysBefore * DAY_MS
+      );
+      const closes = new Date(
+        config.publicationDate.getTime() + config.purchaseWindowClosesDaysAfter * DAY_MS
+      );
+
+      if (purchaseDate < opens) {
+        return {
+          outcome: 'fail',
+          detail: `Purchase date ${formatDay(purchaseDate)} is before pre-orders opened (${formatDay(opens)})`,
+          fraud: true,
+        };
+      }
+
+      if (purchaseDate > closes) {
+        return {
+          outcome: 'fail',
+          detail: `Purchase date ${formatDay(purchaseDate)} is after the claim window closed (${formatDay(closes)})`,
+          fraud: true,
+        };
+      }
+
+      return {
+        outcome: 'pass',
+        detail: `Purchased ${formatDay(purchaseDate)} (window ${formatDay(opens)} to ${formatDay(closes)})`,
+      };
+    },
+  },
+];
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate all receipt rules
+ *
+ * @param parsing - Parsed receipt
+ * @param options - Expected retailer, clock and config overrides
+ * @returns Score, fraud verdict and per-rule breakdown
+ */
+export function evaluateReceiptRules(
+  parsing: ReceiptParsingResult,
+  options: EvaluateReceiptRulesOptions = {}
+): ReceiptRuleEvaluation {
+  const config = options.config ?? getReceiptRulesConfig();
+  const now = options.now ?? new Date();
+  const context: ReceiptRuleContext = {
+    parsing,
+    config,
+    expectedRetailer: options.expectedRetailer,
+    now,
+  };
+
+  const rules: ReceiptRuleResult[] = RECEIPT_RULES.map((rule) => {
+    const verdict = rule.evaluate(context);
+    const weight = config.weights[rule.id] ?? 0;
+    const credit =
+      verdict.outcome === 'skip'
+        ? 0
+        : Math.max(0, Math.min(1, verdict.credit ?? (verdict.outcome === 'pass' ? 1 : 0)));
+
+    return {
+      id: rule.id,
+      label: rule.label,
+      outcome: verdict.outcome,
+      fraud: verdict.outcome === 'fail' && !!verdict.fraud,
+      points: Math.round(weight * credit * 10) / 10,
+      weight,
+      detail: verdict.detail,
+    };
+  });
+
+  const fraudRules = rules.filter((rule) => rule.fraud);
+  const total = rules.reduce((sum, rule) => sum + rule.points, 0);
+
+  return {
+    version: config.version,
+    score: Math.min(100, Math.round(total)),
+    isFraudulent: fraudRules.length > 0,
+    reasons: fraudRules.map((rule) => rule.detail),
+    rules,
+    evaluatedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * Retailer Catalog
+ *
+ * The retailers shown in the retailer menu live in `RetailerSelection`,
+ * one row per retailer and region, so admins can reorder them, toggle them
+ * per region and update links on launch day without a deploy. The static
+ * map in `@/lib/retailers` seeds the table and is served instead while the
+ * table is empty or unreachable.
+ *
+ * Rules:
+ * - A GLOBAL row applies to every region without its own row for that
+ *   retailer; a regional row (even inactive) overrides it
+ * - Higher `priority` is shown first
+ * - Formats follow the stored links; a bundle is offered where the
+ *   retailer links its print edition, the eBook and the audiobook
+ *
+ * Reads go through a short in-memory cache, so per-request latency stays
+ * flat; admin changes clear it on the instance that made them and reach
+ * other instances within `CATALOG_CACHE_TTL_MS`.
+ */
+
+import { type RetailerSelection } from '@prisma/client';
+
+import { getAllRegions } from '@/lib/geo';
+import { prisma } from '@/lib/prisma';
+import { FALLBACK_RETAILER_CATALOG, retailerData } from '@/lib/retailers';
+import type {
+  RetailerReorderInput,
+  RetailerSelectionCreateInput,
+  RetailerSelectionUpdateInput,
+} from '@/lib/validation';
+import type { BookFormat, Retailer, RetailerCatalog } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How long the loaded catalog is reused
+ */
+const CATALOG_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Gap between priorities written when reordering, so a retailer can later
+ * be slotted in between without renumbering
+ */
+const PRIORITY_STEP = 10;
+
+/**
+ * Column holding the link for each individual format
+ */
+const FORMAT_URL_FIELDS = {
+  hardcover: 'hardcoverUrl',
+  paperback: 'paperbackUrl',
+  ebook: 'ebookUrl',
+  audiobook: 'audiobookUrl',
+} as const satisfies Partial<Record<BookFormat, keyof RetailerSelection>>;
+
+/**
+ * Bundles and the print edition they link to; offered only where the
+ * retailer also sells the eBook and the audiobook
+ */
+const BUNDLE_PRINT_FORMATS = {
+  'bundle-hardcover': 'hardcover',
+  'bundle-paperback': 'paperback',
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Invalid retailer change (400) or conflicting region order (409)
+ */
+export class RetailerCatalogError extends Error {
+  public readonly statusCode: 400 | 409;
+
+  constructor(message: string, statusCode: 400 | 409 = 400) {
+    super(message);
+    this.name = 'RetailerCatalogError';
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Stored links by format, including bundles
+ */
+export function toRetailerLinks(row: RetailerSelection): Partial<Record<BookFormat, string>> {
+  const links: Partial<Record<BookFormat, string>> = {};
+
+  for (const [format, field] of Object.entries(FORMAT_URL_FIELDS)) {
+    const url = row[field];
+    if (url) links[format as BookFormat] = url;
+  }
+
+  for (const [bundle, printFormat] of Object.entries(BUNDLE_PRINT_FORMATS)) {
+    if (links[printFormat] && links.ebook && links.audiobook) {
+      links[bundle as BookFormat] = links[printFormat];
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Build the per-region catalog from stored rows
+ * Inactive retailers and retailers without links are left out.
+ *
+ * @param rows - All stored rows
+ * @returns Retailers per region, in display order (`priority` is the
+ *          1-based position)
+ */
+export function buildRetailerCatalog(rows: RetailerSelection[]): RetailerCatalog {
+  const byRegion = getAllRegions().map((region) => {
+    const regional = rows.filter((row) => row.geo === region);
+    const global = rows.filter(
+      (row) =>
+        row.geo === 'GLOBAL' && !regional.some((other) => other.retailerSlug === row.retailerSlug)
+    );
+
+    const selected = [...regional, ...global]
+      .filter((row) => row.isActive && Object.keys(toRetailerLinks(row)).length > 0)
+      .sort((a, b) => b.priority - a.priority || a.displayName.localeCompare(b.displayName));
+
+    return { region, selected };
+  });
+
+  return Object.fromEntries(
+    byRegion.map(({ region, selected }) => [
+      region,
+      selected.map((row, index): Retailer => {
+        const urls = toRetailerLinks(row);
+
+        return {
+          id: row.retailerSlug,
+          name: row.displayName,
+          logo: row.logoUrl ?? retailerData[row.retailerSlug]?.logo,
+          url: Object.values(urls)[0] ?? '#',
+          geoAvailability: byRegion
+            .filter((entry) => entry.selected.some((other) => other.retailerSlug === row.retailerSlug))
+            .map((entry) => entry.region),
+          formats: Object.keys(urls) as BookFormat[],
+          priority: index + 1,
+          urls,
+          nytEligible: row.nytEligible,
+        };
+      }),
+    ])
+  ) as RetailerCatalog;
+}
+
+// ============================================================================
+// CACHED LOADER
+// ============================================================================
+
+let catalogCache: { catalog: RetailerCatalog; loadedAt: number } | null = null;
+let pendingLoad: Promise<RetailerCatalog> | null = null;
+
+/**
+ * Get the retailer catalog (cached)
+ * Serves `FALLBACK_RETAILER_CATALOG` while the table is empty, and keeps
+ * serving the last loaded catalog if the database fails.
+ *
+ * @param now - Current time
+ * @returns Retailers per region, in display order
+ */
+export async function getRetailerCatalog(now: Date = new Date()): Promise<RetailerCatalog> {
+  if (catalogCache && now.getTime() - catalogCache.loadedAt < CATALOG_CACHE_TTL_MS) {
+    return catalogCache.catalog;
+  }
+
+  pendingLoad ??= prisma.retailerSelection
+    .findMany()
+    .then((rows) => {
+      const catalog = rows.length > 0 ? buildRetailerCatalog(rows) : FALLBACK_RETAILER_CATALOG;
+      catalogCache = { catalog, loadedAt: now.getTime() };
+      return catalog;
+    })
+    .catch((error: unknown) => {
+      console.error('[Retailers] Failed to load retailer catalog:', error);
+      // Retry after the next cache window instead of on every request
+      const catalog = catalogCache?.catalog ?? FALLBACK_RETAILER_CATALOG;
+      catalogCache = { catalog, loadedAt: now.getTime() };
+      return catalog;
+    })
+    .finally(() => {
+      pendingLoad = null;
+    });
+
+  return pendingLoad;
+}
+
+/**
+ * Drop the cached catalog so the next read hits the database
+ */
+export function invalidateRetailerCatalogCache(): void {
+  catalogCache = null;
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * List stored retailers by region, in display order (uncached)
+ */
+export async function listRetailerSelections(): Promise<RetailerSelection[]> {
+  return prisma.retailerSelection.findMany({
+    orderBy: [{ geo: 'asc' }, { priority: 'desc' }, { displayName: 'asc' }],
+  });
+}
+
+/**
+ * Get one stored retailer (uncached)
+ */
+export async function getRetailerSelection(id: string): Promise<RetailerSelection | null> {
+  return prisma.retailerSelection.findUnique({ where: { id } });
+}
+
+/**
+ * Add a retailer to a region, shown last
+ *
+ * @throws RetailerCatalogError if it has no links
+ */
+export async function createRetailerSelection(
+  input: RetailerSelectionCreateInput
+): Promise<RetailerSelection> {
+  if (!Object.values(FORMAT_URL_FIELDS).some((field) => input[field])) {
+    throw new RetailerCatalogError('Add a link for at least one format');
+  }
+
+  const last = await prisma.retailerSelection.findFirst({
+    where: { geo: input.geo },
+    orderBy: { priority: 'asc' },
+  });
+
+  const row = await prisma.retailerSelection.create({
+    data: {
+      ...input,
+      priority: last ? last.priority - PRIORITY_STEP : 0,
+    },
+  });
+
+  invalidateRetailerCatalogCache();
+  return row;
+}
+
+/**
+ * Update a retailer's links, display name or toggles in one region
+ *
+ * @returns Updated retailer, or null if not found
+ */
+export async function updateRetailerSelection(
+  id: string,
+  changes: RetailerSelectionUpdateInput
+): Promise<RetailerSelection | null> {
+  const existing = await prisma.retailerSelection.findUnique({ where: { id } });
+
+  if (!existing) {
+    return null;
+  }
+
+  const row = await prisma.retailerSelection.update({ where: { id }, data: changes });
+
+  invalidateRetailerCatalogCache();
+  return row;
+}
+
+/**
+ * Set the display order of a region
+ *
+ * @param input - Region and every retailer ID in it, first shown first
+ * @returns The region's retailers in their new order
+ * @throws RetailerCatalogError if the IDs are not exactly the region's
+ *         retailers (409: reload and retry)
+ */
+export async function reorderRetailerSelections({
+  geo,
+  ids,
+}: RetailerReorderInput): Promise<RetailerSelection[]> {
+  const rows = await prisma.retailerSelection.findMany({
+    where: { geo },
+    select: { id: true },
+  });
+
+  const current = new Set(rows.map((row) => row.id));
+  if (new Set(ids).size !== ids.length || ids.length !== current.size || !ids.every((id) => current.has(id))) {
+    throw new RetailerCatalogError(
+      'The order must list every retailer in the region exactly once',
+      409
+    );
+  }
+
+  const updated = await prisma.$transaction(
+    ids.map((id, index) =>
+      prisma.retailerSelection.update({
+        where: { id },
+        data: { priority: (ids.length - index) * PRIORITY_STEP },
+      })
+    )
+  );
+
+  invalidateRetailerCatalogCache();
+  return updated;
+}
@@ -1,8 +1,15 @@
 /**
  * Retailer Data & URL Building Utilities
+ *
+ * The live retailer catalog is stored in `RetailerSelection` and loaded by
+ * `@/lib/retailer-catalog` (server) or `useRetailerCatalog` (client). The
+ * lookups below take that catalog and default to
+ * `FALLBACK_RETAILER_CATALOG`, built from the static data in this file,
+ * which is also the seed for the table.
  */
 
-import type { Retailer, GeoRegion, BookFormat, UTMParams } from '@/types';
+import { getAllRegions } from '@/lib/geo';
+import type { Retailer, GeoRegion, BookFormat, RetailerCatalog, UTMParams } from '@/types';
 
 /**
  * Complete retailer data with geo-availability and format support
@@ -140,6 +147,19 @@ const retailerURLTemplates: Record<string, Partial<Record<BookFormat, string>>>
   },
 };
 
+/**
+ * Catalog used until (or when) the stored catalog cannot be loaded
+ */
+export const FALLBACK_RETAILER_CATALOG: RetailerCatalog = Object.fromEntries(
+  getAllRegions().map((region) => [
+    region,
+    Object.values(retailerData)
+      .filter((retailer) => retailer.geoAvailability.includes(region))
+      .sort((a, b) => (a.priority || 99) - (b.priority || 99))
+      .map((retailer) => ({ ...retailer, urls: retailerURLTemplates[retailer.id] ?? {} })),
+  ])
+) as RetailerCatalog;
+
 /**
  * Build UTM parameters for tracking
  */
@@ -172,14 +192,19 @@ export function utmParamsToString(params: UTMParams): string {
 
 /**
  * Get retailer URL with UTM tracking
+ *
+ * @param retailer - Catalog retailer (uses its stored links) or retailer ID
+ *   (uses the built-in URL templates)
  */
 export function getRetailerUrl(
-  retailerId: string,
+  retailer: Retailer | string,
   format: BookFormat,
   utmParams?: UTMParams
 ): string {
-  const template = retailerURLTemplates[retailerId]?.[format];
-  
+  const retailerId = typeof retailer === 'string' ? retailer : retailer.id;
+  const urls = typeof retailer === 'string' ? undefined : retailer.urls;
+  const template = (urls ?? retailerURLTemplates[retailerId])?.[format];
+
   if (!template) {
     console.warn(`No URL template for ${retailerId} - ${format}`);
     return '#';
@@ -200,38 +225,43 @@ export function getRetailerUrl(
 /**
  * Get retailers available for a specific geo region
  */
-export function getRetailersByGeo(region: GeoRegion): Retailer[] {
-  return Object.values(retailerData)
-    .filter((retailer) => retailer.geoAvailability.includes(region))
-    .sort((a, b) => (a.priority || 99) - (b.priority || 99));
+export function getRetailersByGeo(
+  region: GeoRegion,
+  catalog: RetailerCatalog = FALLBACK_RETAILER_CATALOG
+): Retailer[] {
+  return [...(catalog[region] ?? [])].sort((a, b) => (a.priority || 99) - (b.priority || 99));
 }
 
 /**
  * Get default retailers for a geo region (top 3-4)
  */
-export function getDefaultRetailers(region: GeoRegion): Retailer[] {
-  const retailers = getRetailersByGeo(region);
+export function getDefaultRetailers(
+  region: GeoRegion,
+  catalog: RetailerCatalog = FALLBACK_RETAILER_CATALOG
+): Retailer[] {
+  const retailers = getRetailersByGeo(region, catalog);
   return retailers.slice(0, 4);
 }
 
 /**
  * Get retailers by format availability
+ * Without a region, each retailer is listed once (first region it is in).
  */
 export function getRetailersByFormat(
   format: BookFormat,
-  region?: GeoRegion
+  region?: GeoRegion,
+  catalog: RetailerCatalog = FALLBACK_RETAILER_CATALOG
 ): Retailer[] {
-  let retailers = Object.values(retailerData).filter((retailer) =>
-    retailer.formats.includes(format)
-  );
+  const candidates = region ? (catalog[region] ?? []) : Object.values(catalog).flat();
+  const retailers = new Map<string, Retailer>();
 
-  if (region) {
-    retailers = retailers.filter((retailer) =>
-      retailer.geoAvailability.includes(region)
-    );
+  for (const retailer of candidates) {
+    if (retailer.formats.includes(format) && !retailers.has(retailer.id)) {
+      retailers.set(retailer.id, retailer);
+    }
   }
 
-  return retailers.sort((a, b) => (a.priority || 99) - (b.priority || 99));
+  return Array.from(retailers.values()).sort((a, b) => (a.priority || 99) - (b.priority || 99));
 }
 
 /**
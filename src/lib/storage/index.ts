@@ -0,0 +1,132 @@
+/**
+ * Storage Driver Selection
+ *
+ * Resolves the object storage backend used for receipts, avatars, plan
+ * PDFs and press kit assets from configuration.
+ *
+ * Environment Variables:
+ * - STORAGE_DRIVER: "local" | "s3" | "r2" (optional)
+ *
+ * When STORAGE_DRIVER is unset, R2 is used if R2_BUCKET is set, then S3
+ * if AWS_S3_BUCKET is set; otherwise files are kept on local disk.
+ */
+
+import path from 'node:path';
+
+import { createLocalStorageDriver } from './local';
+import { createS3StorageDriver, isR2Configured, isS3Configured } from './s3';
+
+import type { StorageDriver, StorageDriverName } from './types';
+
+export type {
+  S3StorageConfig,
+  SignedUrlOptions,
+  StorageDriver,
+  StorageDriverName,
+  StorageObject,
+  StorageObjectInfo,
+  StoragePutOptions,
+} from './types';
+export { assertValidStorageKey, getContentTypeForKey, isPublicStorageKey } from './keys';
+export { createLocalStorageDriver, getLocalStorageRoot } from './local';
+export { createS3StorageDriver, getS3StorageConfig, isR2Configured, isS3Configured } from './s3';
+export {
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  createSignedFileUrl,
+  getFileRoutePath,
+  verifySignedFileUrl,
+} from './signing';
+
+let activeStorage: StorageDriver | null = null;
+let activeAssetStorage: StorageDriver | null = null;
+
+/**
+ * Determine which backend the current configuration selects
+ */
+export function resolveStorageDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase();
+
+  if (configured === 'local') {
+    return configured;
+  }
+
+  if (configured === 'r2' || configured === 's3') {
+    const isConfigured = configured === 'r2' ? isR2Configured() : isS3Configured();
+    if (!isConfigured) {
+      console.warn(
+        `[Storage] STORAGE_DRIVER=${configured} but its bucket is not configured. Falling back to local storage.`
+      );
+      return 'local';
+    }
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`[Storage] Unknown STORAGE_DRIVER "${configured}". Falling back to default.`);
+  }
+
+  if (isR2Configured()) return 'r2';
+  if (isS3Configured()) return 's3';
+  return 'local';
+}
+
+/**
+ * Create a driver instance by name
+ */
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  return name === 'local' ? createLocalStorageDriver() : createS3StorageDriver(name);
+}
+
+/**
+ * Get the shared storage for uploaded and generated files
+ */
+export function getStorage(): StorageDriver {
+  if (!activeStorage) {
+    activeStorage = createStorageDriver(resolveStorageDriverName());
+  }
+  return activeStorage;
+}
+
+/**
+ * Get the shared storage for static assets (e.g. the press kit)
+ *
+ * Locally this reads straight from `public/`; bucket drivers serve
+ * assets from the same bucket as uploads.
+ */
+export function getAssetStorage(): StorageDriver {
+  if (!activeAssetStorage) {
+    const name = resolveStorageDriverName();
+    activeAssetStorage =
+      name === 'local'
+        ? createLocalStorageDriver({ root: path.join(process.cwd(), 'public') })
+        : getStorage();
+  }
+  return activeAssetStorage;
+}
+
+/**
+ * Drop the shared drivers so the next call re-reads configuration
+ */
+export function resetStorage(): void {
+  activeStorage = null;
+  activeAssetStorage = null;
+}
+
+/**
+ * Read a whole object into memory
+ *
+ * @returns Object contents, or null when the key does not exist
+ */
+export async function readStorageObject(
+  key: string,
+  storage: StorageDriver = getStorage()
+): Promise<Buffer | null> {
+  const object = await storage.getStream(key);
+  if (!object) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks);
+}
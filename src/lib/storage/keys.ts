@@ -0,0 +1,65 @@
+/**
+ * Storage Keys
+ *
+ * Key validation and content type inference shared by every driver.
+ */
+
+import path from 'node:path';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Content types by file extension, for objects stored without one
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.zip': 'application/zip',
+};
+
+/**
+ * Key prefixes served without a signature (see `/api/files`)
+ */
+const PUBLIC_KEY_PREFIXES = ['avatars/'];
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Reject keys that could escape the storage root
+ *
+ * @throws Error when the key is empty, absolute or contains `.`/`..` segments
+ */
+export function assertValidStorageKey(key: string): void {
+  if (!key || key.startsWith('/') || key.includes('\\') || key.includes('\0')) {
+    throw new Error(`Invalid storage key: "${key}"`);
+  }
+
+  const segments = key.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid storage key: "${key}"`);
+  }
+}
+
+/**
+ * Infer a content type from the key's extension
+ */
+export function getContentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Whether the key may be served without a signed URL
+ */
+export function isPublicStorageKey(key: string): boolean {
+  return PUBLIC_KEY_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
@@ -0,0 +1,165 @@
+/**
+ * Local Filesystem Storage Driver
+ *
+ * Stores objects as plain files under a root directory, with a
+ * `<file>.meta.json` sidecar holding the content type, cache policy and
+ * metadata. Used in development and tests so nothing needs a bucket.
+ *
+ * Environment Variables:
+ * - STORAGE_LOCAL_DIR: Root directory (default: ".storage" in the project)
+ */
+
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { assertValidStorageKey, getContentTypeForKey } from './keys';
+import { createSignedFileUrl } from './signing';
+
+import type { StorageDriver, StorageObjectInfo, StoragePutOptions } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Suffix of the metadata sidecar written next to each object
+ */
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Sidecar contents
+ */
+interface LocalObjectMeta {
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Local driver options
+ */
+export interface LocalStorageOptions {
+  /** Root directory; defaults to STORAGE_LOCAL_DIR or `.storage` */
+  root?: string;
+}
+
+/**
+ * Get the default root directory
+ */
+export function getLocalStorageRoot(): string {
+  return path.resolve(process.cwd(), process.env.STORAGE_LOCAL_DIR || '.storage');
+}
+
+/**
+ * Whether a filesystem error means the file does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+// ============================================================================
+// DRIVER
+// ============================================================================
+
+/**
+ * Create a driver rooted at a local directory
+ */
+export function createLocalStorageDriver(options: LocalStorageOptions = {}): StorageDriver {
+  const root = path.resolve(options.root ?? getLocalStorageRoot());
+
+  /**
+   * Map a key to its path under the root
+   */
+  function resolvePath(key: string): string {
+    assertValidStorageKey(key);
+    if (key.endsWith(META_SUFFIX)) {
+      throw new Error(`Invalid storage key: "${key}"`);
+    }
+
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: "${key}"`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Read the sidecar, if one was written
+   */
+  async function readMeta(filePath: string): Promise<LocalObjectMeta> {
+    try {
+      return JSON.parse(await fs.readFile(filePath + META_SUFFIX, 'utf-8')) as LocalObjectMeta;
+    } catch (error) {
+      if (isNotFound(error)) return {};
+      throw error;
+    }
+  }
+
+  /**
+   * Object details from the file and its sidecar
+   */
+  async function head(key: string): Promise<StorageObjectInfo | null> {
+    const filePath = resolvePath(key);
+
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+    if (!stats.isFile()) return null;
+
+    const meta = await readMeta(filePath);
+    return {
+      key,
+      size: stats.size,
+      contentType: meta.contentType ?? getContentTypeForKey(key),
+      cacheControl: meta.cacheControl ?? null,
+      lastModified: stats.mtime,
+      metadata: meta.metadata ?? {},
+    };
+  }
+
+  return {
+    name: 'local',
+
+    async put(key: string, body: Buffer | string, putOptions: StoragePutOptions = {}) {
+      const filePath = resolvePath(key);
+      const meta: LocalObjectMeta = {
+        contentType: putOptions.contentType ?? getContentTypeForKey(key),
+        cacheControl: putOptions.cacheControl,
+        metadata: putOptions.metadata ?? {},
+      };
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+      await fs.writeFile(filePath + META_SUFFIX, JSON.stringify(meta), 'utf-8');
+
+      const info = await head(key);
+      if (!info) {
+        throw new Error(`Failed to store "${key}"`);
+      }
+      return info;
+    },
+
+    async getStream(key: string) {
+      const info = await head(key);
+      if (!info) return null;
+
+      return { stream: createReadStream(resolvePath(key)), info };
+    },
+
+    head,
+
+    async delete(key: string) {
+      const filePath = resolvePath(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(filePath + META_SUFFIX, { force: true });
+    },
+
+    async getSignedUrl(key, signedUrlOptions) {
+      return createSignedFileUrl(key, signedUrlOptions);
+    },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * S3 / Cloudflare R2 Storage Driver
+ *
+ * Bucket-backed driver for production. R2 is S3-compatible, so both
+ * share one implementation and differ only in endpoint configuration.
+ * Objects stay private; downloads go through app-signed URLs.
+ *
+ * Environment Variables (R2):
+ * - R2_BUCKET, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY
+ * - R2_ENDPOINT or R2_ACCOUNT_ID
+ *
+ * Environment Variables (S3):
+ * - AWS_S3_BUCKET, AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  type HeadObjectCommandOutput,
+} from '@aws-sdk/client-s3';
+
+import { assertValidStorageKey, getContentTypeForKey } from './keys';
+import { createSignedFileUrl } from './signing';
+
+import type { S3StorageConfig, StorageDriver, StorageObject, StorageObjectInfo } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Check if an R2 bucket is configured
+ */
+export function isR2Configured(): boolean {
+  return !!process.env.R2_BUCKET;
+}
+
+/**
+ * Check if an S3 bucket is configured
+ */
+export function isS3Configured(): boolean {
+  return !!process.env.AWS_S3_BUCKET;
+}
+
+/**
+ * Read bucket configuration for a driver from the environment
+ *
+ * @throws Error when the bucket variable is missing
+ */
+export function getS3StorageConfig(name: 's3' | 'r2'): S3StorageConfig {
+  if (name === 'r2') {
+    if (!process.env.R2_BUCKET) {
+      throw new Error('Storage configuration not found. Set R2_BUCKET to use the R2 driver.');
+    }
+    return {
+      bucket: process.env.R2_BUCKET,
+      region: 'auto',
+      endpoint: process.env.R2_ENDPOINT || `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+      accessKeyId: process.env.R2_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || '',
+    };
+  }
+
+  if (!process.env.AWS_S3_BUCKET) {
+    throw new Error('Storage configuration not found. Set AWS_S3_BUCKET to use the S3 driver.');
+  }
+  return {
+    bucket: process.env.AWS_S3_BUCKET,
+    region: process.env.AWS_REGION || 'us-east-1',
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+  };
+}
+
+/**
+ * Whether an SDK error means the object does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  const sdkError = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return (
+    sdkError?.name === 'NotFound' ||
+    sdkError?.name === 'NoSuchKey' ||
+    sdkError?.$metadata?.httpStatusCode === 404
+  );
+}
+
+// ============================================================================
+// DRIVER
+// ============================================================================
+
+/**
+ * Create a driver for an S3-compatible bucket
+ */
+export function createS3StorageDriver(
+  name: 's3' | 'r2',
+  config: S3StorageConfig = getS3StorageConfig(name)
+): StorageDriver {
+  const client = new S3Client({
+    region: config.region || 'auto',
+    endpoint: config.endpoint,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+    // R2 requires path-style URLs
+    forcePathStyle: name === 'r2',
+  });
+
+  /**
+   * Map a HeadObject/GetObject response to object details
+   */
+  function toInfo(key: string, output: Omit<HeadObjectCommandOutput, '$metadata'>): StorageObjectInfo {
+    return {
+      key,
+      size: output.ContentLength ?? 0,
+      contentType: output.ContentType ?? getContentTypeForKey(key),
+      cacheControl: output.CacheControl ?? null,
+      lastModified: output.LastModified ?? null,
+      metadata: output.Metadata ?? {},
+    };
+  }
+
+  /**
+   * Object details, or null when missing
+   */
+  async function head(key: string): Promise<StorageObjectInfo | null> {
+    assertValidStorageKey(key);
+    try {
+      const output = await client.send(new HeadObjectCommand({ Bucket: config.bucket, Key: key }));
+      return toInfo(key, output);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  return {
+    name,
+
+    async put(key, body, options = {}) {
+      assertValidStorageKey(key);
+      const contentType = options.contentType ?? getContentTypeForKey(key);
+      const buffer = typeof body === 'string' ? Buffer.from(body) : body;
+
+      await client.send(
+        new PutObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          Body: buffer,
+          ContentType: contentType,
+          CacheControl: options.cacheControl,
+          Metadata: options.metadata ?? {},
+        })
+      );
+
+      return {
+        key,
+        size: buffer.length,
+        contentType,
+        cacheControl: options.cacheControl ?? null,
+        lastModified: new Date(),
+        metadata: options.metadata ?? {},
+      };
+    },
+
+    async getStream(key) {
+      assertValidStorageKey(key);
+      try {
+        const output = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+        if (!output.Body) return null;
+
+        // The Node.js SDK returns an IncomingMessage, which is a Readable
+        return { stream: output.Body as StorageObject['stream'], info: toInfo(key, output) };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    head,
+
+    async delete(key) {
+      assertValidStorageKey(key);
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+
+    async getSignedUrl(key, options) {
+      return createSignedFileUrl(key, options);
+    },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Signed File URLs
+ *
+ * Short-lived download links served by `GET /api/files/[...key]`. The
+ * URL carries an expiry and an HMAC over the key, expiry and download
+ * filename, so every driver (including local disk) gets the same
+ * access model.
+ *
+ * Environment Variables:
+ * - STORAGE_SIGNING_SECRET: HMAC secret (falls back to NEXTAUTH_SECRET)
+ */
+
+import crypto from 'node:crypto';
+
+import { assertValidStorageKey } from './keys';
+
+import type { SignedUrlOptions } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Default signed URL lifetime (15 minutes)
+ */
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Route that serves stored objects
+ */
+const FILES_ROUTE = '/api/files';
+
+/**
+ * Get the signing secret
+ *
+ * @throws Error when no secret is configured
+ */
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('Storage signing secret not configured. Set STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET.');
+  }
+  return secret;
+}
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+/**
+ * Path for a key under the files route, with each segment encoded
+ */
+export function getFileRoutePath(key: string): string {
+  assertValidStorageKey(key);
+  return `${FILES_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Compute the signature for a key, expiry and optional filename
+ */
+function signFileAccess(key: string, expires: number, filename?: string): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${key}\n${expires}\n${filename ?? ''}`)
+    .digest('base64url');
+}
+
+/**
+ * Create a signed, expiring download URL for a stored object
+ *
+ * @returns Site-relative URL
+ */
+export function createSignedFileUrl(
+  key: string,
+  options: SignedUrlOptions = {},
+  now: Date = new Date()
+): string {
+  const expiresIn = options.expiresIn ?? DEFAULT_SIGNED_URL_TTL_SECONDS;
+  const expires = Math.floor(now.getTime() / 1000) + expiresIn;
+
+  const params = new URLSearchParams({ expires: String(expires) });
+  if (options.filename) {
+    params.set('filename', options.filename);
+  }
+  params.set('signature', signFileAccess(key, expires, options.filename));
+
+  return `${getFileRoutePath(key)}?${params.toString()}`;
+}
+
+/**
+ * Check a signed URL's query parameters against the requested key
+ *
+ * @returns Whether the signature is valid and unexpired
+ */
+export function verifySignedFileUrl(
+  key: string,
+  params: URLSearchParams,
+  now: Date = new Date()
+): boolean {
+  const expires = Number(params.get('expires'));
+  const signature = params.get('signature');
+
+  if (!signature || !Number.isInteger(expires) || expires * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signFileAccess(key, expires, params.get('filename') ?? undefined));
+  const provided = Buffer.from(signature);
+
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
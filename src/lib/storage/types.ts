@@ -0,0 +1,97 @@
+/**
+ * Storage Driver Types
+ *
+ * Shared contract for the pluggable object storage backends used for
+ * receipts, avatars, plan PDFs and press kit assets.
+ */
+
+import type { Readable } from 'node:stream';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported storage backends
+ */
+export type StorageDriverName = 'local' | 's3' | 'r2';
+
+/**
+ * Options for writing an object
+ */
+export interface StoragePutOptions {
+  /** MIME type; inferred from the key extension when omitted */
+  contentType?: string;
+  /** Cache-Control header served with the object */
+  cacheControl?: string;
+  /** Custom metadata stored alongside the object */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Stored object details, without the body
+ */
+export interface StorageObjectInfo {
+  key: string;
+  /** Size in bytes */
+  size: number;
+  contentType: string;
+  cacheControl: string | null;
+  lastModified: Date | null;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Stored object with a readable body
+ */
+export interface StorageObject {
+  stream: Readable;
+  info: StorageObjectInfo;
+}
+
+/**
+ * Options for signed download URLs
+ */
+export interface SignedUrlOptions {
+  /** Lifetime in seconds (default: 15 minutes) */
+  expiresIn?: number;
+  /** Serve as an attachment with this filename */
+  filename?: string;
+}
+
+/**
+ * Object storage contract
+ *
+ * Keys are slash-separated paths relative to the driver root
+ * (e.g. "receipts/receipt-123.jpg"). Reads return null for missing
+ * objects; failures to reach the backend throw.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /** Write an object, replacing any existing one */
+  put(key: string, body: Buffer | string, options?: StoragePutOptions): Promise<StorageObjectInfo>;
+
+  /** Open an object for streaming */
+  getStream(key: string): Promise<StorageObject | null>;
+
+  /** Read object details without the body */
+  head(key: string): Promise<StorageObjectInfo | null>;
+
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+
+  /** Short-lived download URL for a private object */
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * S3-compatible bucket configuration
+ */
+export interface S3StorageConfig {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
@@ -1,8 +1,9 @@
 /**
  * Token Generation & Verification Utilities
  *
- * Provides secure JWT-based tokens for excerpt PDF downloads.
- * Tokens expire after 7 days and are signed using NEXTAUTH_SECRET.
+ * Provides secure JWT-based tokens for excerpt PDF downloads, newsletter
+ * confirmation/unsubscribe links and personalised VIP code invite links.
+ * Tokens are signed using NEXTAUTH_SECRET.
  */
 
 import crypto from 'crypto';
@@ -416,6 +417,252 @@ export function verifyNewsletterToken(token: string): {
   }
 }
 
+// ============================================================================
+// Code Invite Tokens
+// ============================================================================
+
+export interface CodeInviteTokenPayload {
+  /** VIP code the link redeems */
+  code: string;
+  /** Only this email may redeem the link */
+  email: string;
+  type: 'code_invite';
+  timestamp: number;
+  expiresAt: number;
+}
+
+/**
+ * Generate a personalised invite link token for a VIP code
+ * @param code - Code to redeem (normalised, e.g. "ABC234")
+ * @param email - Intended recipient's email address
+ * @param expiresAt - Link expiry
+ * @returns Signed JWT token
+ */
+export function generateCodeInviteToken(
+  code: string,
+  email: string,
+  expiresAt: Date
+): string {
+  if (!TOKEN_SECRET) {
+    throw new Error('TOKEN_SECRET not configured. Set NEXTAUTH_SECRET or EXCERPT_TOKEN_SECRET.');
+  }
+
+  const now = Date.now();
+
+  const payload: CodeInviteTokenPayload = {
+    code,
+    email: email.trim().toLowerCase(),
+    type: 'code_invite',
+    timestamp: now,
+    expiresAt: expiresAt.getTime(),
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify({ alg: TOKEN_ALGORITHM, typ: 'JWT' }));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signature = createSignature(`${encodedHeader}.${encodedPayload}`, TOKEN_SECRET);
+
+  return `${encodedHeader}.${encodedPayload}.${signature}`;
+}
+
+/**
+ * Verify and decode a code invite token
+ *
+ * Excerpt and newsletter tokens share the signing secret, so the payload
+ * type is checked as well as the signature.
+ *
+ * @param token - JWT token to verify
+ * @returns Verification result with payload if valid
+ */
+export function verifyCodeInviteToken(token: string): {
+  valid: boolean;
+  payload?: CodeInviteTokenPayload;
+  error?: 'expired' | 'invalid' | 'malformed' | 'missing_secret';
+} {
+  if (!TOKEN_SECRET) {
+    return {
+      valid: false,
+      error: 'missing_secret',
+    };
+  }
+
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return {
+        valid: false,
+        error: 'malformed',
+      };
+    }
+
+    const [encodedHeader, encodedPayload, providedSignature] = parts;
+
+    // Verify signature
+    const expectedSignature = createSignature(
+      `${encodedHeader}.${encodedPayload}`,
+      TOKEN_SECRET
+    );
+
+    if (providedSignature !== expectedSignature) {
+      return {
+        valid: false,
+        error: 'invalid',
+      };
+    }
+
+    // Decode and parse payload
+    const payload: CodeInviteTokenPayload = JSON.parse(base64UrlDecode(encodedPayload));
+
+    if (payload.type !== 'code_invite' || !payload.code || !payload.email) {
+      return {
+        valid: false,
+        error: 'invalid',
+      };
+    }
+
+    // Check expiration
+    if (payload.expiresAt < Date.now()) {
+      return {
+        valid: false,
+        error: 'expired',
+        payload,
+      };
+    }
+
+    return {
+      valid: true,
+      payload,
+    };
+  } catch (error) {
+    console.error('[Code Invite Token Verification Error]', error);
+    return {
+      valid: false,
+      error: 'malformed',
+    };
+  }
+}
+
+// ============================================================================
+// Organization Invite Tokens
+// ============================================================================
+
+export interface OrgInviteTokenPayload {
+  /** Invited `OrgMember` row */
+  memberId: string;
+  /** Only this email may accept the invite */
+  email: string;
+  type: 'org_invite';
+  /** `invitedAt` of the invite the link was sent for; a resend replaces it */
+  timestamp: number;
+  expiresAt: number;
+}
+
+/**
+ * Generate the accept link token for an organization invite
+ * @param memberId - Invited membership ID
+ * @param email - Invited email address
+ * @param invitedAt - When this invite was (re)sent
+ * @param expiresAt - Invite expiry
+ * @returns Signed JWT token
+ */
+export function generateOrgInviteToken(
+  memberId: string,
+  email: string,
+  invitedAt: Date,
+  expiresAt: Date
+): string {
+  if (!TOKEN_SECRET) {
+    throw new Error('TOKEN_SECRET not configured. Set NEXTAUTH_SECRET or EXCERPT_TOKEN_SECRET.');
+  }
+
+  const payload: OrgInviteTokenPayload = {
+    memberId,
+    email: email.trim().toLowerCase(),
+    type: 'org_invite',
+    timestamp: invitedAt.getTime(),
+    expiresAt: expiresAt.getTime(),
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify({ alg: TOKEN_ALGORITHM, typ: 'JWT' }));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signature = createSignature(`${encodedHeader}.${encodedPayload}`, TOKEN_SECRET);
+
+  return `${encodedHeader}.${encodedPayload}.${signature}`;
+}
+
+/**
+ * Verify and decode an organization invite token
+ *
+ * Only checks the signature, payload type and expiry; whether the invite
+ * is still pending is up to the caller.
+ *
+ * @param token - JWT token to verify
+ * @returns Verification result with payload if valid
+ */
+export function verifyOrgInviteToken(token: string): {
+  valid: boolean;
+  payload?: OrgInviteTokenPayload;
+  error?: 'expired' | 'invalid' | 'malformed' | 'missing_secret';
+} {
+  if (!TOKEN_SECRET) {
+    return {
+      valid: false,
+      error: 'missing_secret',
+    };
+  }
+
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return {
+        valid: false,
+        error: 'malformed',
+      };
+    }
+
+    const [encodedHeader, encodedPayload, providedSignature] = parts;
+
+    const expectedSignature = createSignature(
+      `${encodedHeader}.${encodedPayload}`,
+      TOKEN_SECRET
+    );
+
+    if (providedSignature !== expectedSignature) {
+      return {
+        valid: false,
+        error: 'invalid',
+      };
+    }
+
+    const payload: OrgInviteTokenPayload = JSON.parse(base64UrlDecode(encodedPayload));
+
+    if (payload.type !== 'org_invite' || !payload.memberId || !payload.email) {
+      return {
+        valid: false,
+        error: 'invalid',
+      };
+    }
+
+    if (payload.expiresAt < Date.now()) {
+      return {
+        valid: false,
+        error: 'expired',
+        payload,
+      };
+    }
+
+    return {
+      valid: true,
+      payload,
+    };
+  } catch (error) {
+    console.error('[Org Invite Token Verification Error]', error);
+    return {
+      valid: false,
+      error: 'malformed',
+    };
+  }
+}
+
 // ============================================================================
 // Development & Testing Utilities
 // ============================================================================
@@ -1,15 +1,13 @@
 /**
  * File Upload Utilities
- * Handles secure file uploads to S3/R2 with validation and virus scanning
+ * Validation, virus scanning and naming for uploaded receipts.
+ * Files are written through the storage drivers in `@/lib/storage`.
  */
 
 import crypto from 'crypto';
 import { fileTypeFromBuffer } from 'file-type';
-import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import type {
   FileUploadValidation,
-  StorageConfig,
-  UploadOptions,
   DuplicateCheckResult,
 } from '@/types/receipt';
 
@@ -36,64 +34,6 @@ const MIME_TO_EXTENSION: Record<string, string> = {
   'application/pdf': 'pdf',
 };
 
-/**
- * Storage client singleton
- */
-let storageClient: S3Client | null = null;
-
-/**
- * Get or create S3/R2 client
- */
-function getStorageClient(): S3Client {
-  if (storageClient) {
-    return storageClient;
-  }
-
-  const config = getStorageConfig();
-
-  storageClient = new S3Client({
-    region: config.region || 'auto',
-    endpoint: config.endpoint,
-    credentials: {
-      accessKeyId: config.accessKeyId,
-      secretAccessKey: config.secretAccessKey,
-    },
-    // For Cloudflare R2, force path-style URLs
-    forcePathStyle: config.endpoint?.includes('r2.cloudflarestorage.com'),
-  });
-
-  return storageClient;
-}
-
-/**
- * Get storage configuration from environment variables
- */
-function getStorageConfig(): StorageConfig {
-  // Check for R2 configuration first
-  if (process.env.R2_BUCKET) {
-    return {
-      bucket: process.env.R2_BUCKET,
-      endpoint: process.env.R2_ENDPOINT || `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-      accessKeyId: process.env.R2_ACCESS_KEY_ID || '',
-      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || '',
-      publicUrl: process.env.R2_PUBLIC_URL,
-    };
-  }
-
-  // Fall back to S3 configuration
-  if (process.env.AWS_S3_BUCKET) {
-    return {
-      bucket: process.env.AWS_S3_BUCKET,
-      region: process.env.AWS_REGION || 'us-east-1',
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-      publicUrl: process.env.S3_PUBLIC_URL,
-    };
-  }
-
-  throw new Error('Storage configuration not found. Set R2_BUCKET or AWS_S3_BUCKET environment variables.');
-}
-
 /**
  * Validate uploaded file
  */
@@ -215,86 +155,6 @@ export function sanitizeFilename(filename: string): string {
     .substring(0, 255);
 }
 
-/**
- * Upload file to S3/R2
- */
-export async function uploadToStorage(
-  fileBuffer: Buffer,
-  filename: string,
-  options: UploadOptions = {}
-): Promise<string> {
-  try {
-    const config = getStorageConfig();
-    const client = getStorageClient();
-
-    // Construct full key with optional folder
-    const key = options.folder
-      ? `${options.folder}/${filename}`
-      : filename;
-
-    // Upload file
-    const command = new PutObjectCommand({
-      Bucket: config.bucket,
-      Key: key,
-      Body: fileBuffer,
-      ContentType: options.contentType || 'application/octet-stream',
-      Metadata: options.metadata || {},
-      CacheControl: options.maxAge ? `max-age=${options.maxAge}` : undefined,
-    });
-
-    await client.send(command);
-
-    // Construct public URL
-    const fileUrl = constructFileUrl(config, key);
-
-    return fileUrl;
-  } catch (error) {
-    console.error('Upload to storage failed:', error);
-    throw new Error('Failed to upload file to storage');
-  }
-}
-
-/**
- * Check if file exists in storage
- */
-export async function fileExists(key: string): Promise<boolean> {
-  try {
-    const config = getStorageConfig();
-    const client = getStorageClient();
-
-    const command = new HeadObjectCommand({
-      Bucket: config.bucket,
-      Key: key,
-    });
-
-    await client.send(command);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Construct public URL for uploaded file
- */
-function constructFileUrl(config: StorageConfig, key: string): string {
-  // Use custom public URL if provided
-  if (config.publicUrl) {
-    return `${config.publicUrl}/${key}`;
-  }
-
-  // For R2, construct URL from endpoint
-  if (config.endpoint?.includes('r2.cloudflarestorage.com')) {
-    // This will need to be the public R2 domain, not the API endpoint
-    // In production, you should set R2_PUBLIC_URL environment variable
-    console.warn('R2_PUBLIC_URL not set. Using storage endpoint which may not be publicly accessible.');
-    return `${config.endpoint}/${config.bucket}/${key}`;
-  }
-
-  // For S3, construct standard URL
-  return `https://${config.bucket}.s3.${config.region}.amazonaws.com/${key}`;
-}
-
 /**
  * Virus scanning placeholder
  * In production, integrate with ClamAV or a cloud scanning service
@@ -407,35 +267,3 @@ export async function stripMetadata(
 
   return fileBuffer;
 }
-
-/**
- * Validate storage configuration
- */
-export function validateStorageConfig(): boolean {
-  try {
-    getStorageConfig();
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Check if storage is configured (for dev vs. production)
- */
-export function isStorageConfigured(): boolean {
-  return !!(process.env.R2_BUCKET || process.env.AWS_S3_BUCKET);
-}
-
-/**
- * Get storage provider name
- */
-export function getStorageProvider(): 'r2' | 's3' | 'none' {
-  if (process.env.R2_BUCKET) {
-    return 'r2';
-  }
-  if (process.env.AWS_S3_BUCKET) {
-    return 's3';
-  }
-  return 'none';
-}
@@ -1,12 +1,12 @@
-import { promises as fs } from "fs";
-import path from "path";
+import { getStorage, readStorageObject } from "@/lib/storage";
 
 /**
  * Storage utilities for persisting form submissions
- * For MVP: Uses JSON files. For production: Consider database integration
+ * For MVP: Appends to JSON objects under "submissions/" in the configured
+ * storage driver. For production: Consider database integration
  */
 
-const DATA_DIR = path.join(process.cwd(), "data");
+const SUBMISSIONS_PREFIX = "submissions";
 
 export interface StoredSubmission {
   id: string;
@@ -16,27 +16,14 @@ export interface StoredSubmission {
 }
 
 /**
- * Ensure data directory exists
- */
-async function ensureDataDir(): Promise<void> {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  }
-}
-
-/**
- * Store a submission to a JSON file
+ * Store a submission by appending it to a JSON object
  */
 export async function storeSubmission(
   fileName: string,
   data: Record<string, unknown>,
   ip?: string
 ): Promise<void> {
-  await ensureDataDir();
-
-  const filePath = path.join(DATA_DIR, fileName);
+  const key = `${SUBMISSIONS_PREFIX}/${fileName}`;
   const submission: StoredSubmission = {
     id: generateId(),
     timestamp: new Date().toISOString(),
@@ -46,18 +33,22 @@ export async function storeSubmission(
 
   // Read existing data
   let existingData: StoredSubmission[] = [];
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    existingData = JSON.parse(content);
-  } catch {
-    // File doesn't exist or is invalid, start fresh
+  const content = await readStorageObject(key);
+  if (content) {
+    try {
+      existingData = JSON.parse(content.toString("utf-8"));
+    } catch {
+      // Object is invalid, start fresh
+    }
   }
 
   // Append new submission
   existingData.push(submission);
 
-  // Write back to file
-  await fs.writeFile(filePath, JSON.stringify(existingData, null, 2), "utf-8");
+  // Write back to storage
+  await getStorage().put(key, JSON.stringify(existingData, null, 2), {
+    contentType: "application/json",
+  });
 }
 
 /**
@@ -68,15 +59,14 @@ function generateId(): string {
 }
 
 /**
- * Read all submissions from a file
+ * Read all submissions from a JSON object
  */
 export async function readSubmissions(
   fileName: string
 ): Promise<StoredSubmission[]> {
   try {
-    const filePath = path.join(DATA_DIR, fileName);
-    const content = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(content);
+    const content = await readStorageObject(`${SUBMISSIONS_PREFIX}/${fileName}`);
+    return content ? JSON.parse(content.toString("utf-8")) : [];
   } catch {
     return [];
   }
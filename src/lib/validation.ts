@@ -4,6 +4,24 @@
 
 import * as z from 'zod';
 
+import { FIRST_PARTY_MAX_BATCH_SIZE } from '@/types/analytics';
+
+// ============================================================================
+// Signup Attribution Fields
+// ============================================================================
+
+/**
+ * Optional attribution sent by signup forms (UTM parameters, referrer and
+ * the visitor's detected region), stored against the newsletter subscriber
+ */
+const signupAttributionFields = {
+  referrer: z.string().max(500).optional(),
+  utmSource: z.string().max(200).optional(),
+  utmMedium: z.string().max(200).optional(),
+  utmCampaign: z.string().max(200).optional(),
+  geo: z.enum(['US', 'UK', 'EU', 'AU']).optional(),
+};
+
 // ============================================================================
 // Email Capture Schema
 // ============================================================================
@@ -15,6 +33,7 @@ export const EmailCaptureSchema = z.object({
     .min(1, 'Email is required')
     .email('Please enter a valid email address'),
   source: z.string().optional(),
+  ...signupAttributionFields,
   honeypot: z.string().max(0, 'Invalid submission').optional(),
 });
 
@@ -132,6 +151,7 @@ export const NewsletterSubscribeSchema = z.object({
       ])
     )
     .default([]),
+  ...signupAttributionFields,
   honeypot: z.string().max(0, 'Invalid submission').optional(),
 });
 
@@ -173,6 +193,195 @@ export const VIPCodeRedemptionSchema = z.object({
 
 export type VIPCodeRedemptionInput = z.infer<typeof VIPCodeRedemptionSchema>;
 
+// ============================================================================
+// Analytics Event Batch Schema
+// ============================================================================
+
+/**
+ * Beacon batch posted to /api/events. Event names are free-form so older
+ * clients keep working; names without an `AnalyticsEventType` mapping are
+ * dropped during ingestion rather than failing the whole batch.
+ */
+export const AnalyticsEventBatchSchema = z.object({
+  consent: z.object({
+    analytics: z.boolean(),
+  }),
+  context: z
+    .object({
+      sessionId: z.string().min(8).max(64).regex(/^[A-Za-z0-9_-]+$/).optional(),
+      utmContent: z.string().max(200).optional(),
+      utmTerm: z.string().max(200).optional(),
+      ...signupAttributionFields,
+    })
+    .default({}),
+  events: z
+    .array(
+      z.object({
+        event: z.string().min(1).max(100),
+        timestamp: z.iso.datetime().optional(),
+        properties: z.record(z.string(), z.unknown()).optional(),
+      })
+    )
+    .min(1, 'At least one event is required')
+    .max(FIRST_PARTY_MAX_BATCH_SIZE, 'Too many events in one batch'),
+});
+
+export type AnalyticsEventBatchInput = z.infer<typeof AnalyticsEventBatchSchema>;
+
+// ============================================================================
+// Experiment Tracking Schema
+// ============================================================================
+
+const experimentTrackingFields = {
+  experimentId: z.string().min(1).max(100),
+  variantId: z.string().min(1).max(50),
+  participantId: z.string().min(1).max(100),
+};
+
+/**
+ * Exposure or conversion posted to /api/experiments/track
+ */
+export const ExperimentTrackingSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('exposure'),
+    ...experimentTrackingFields,
+  }),
+  z.object({
+    type: z.literal('conversion'),
+    ...experimentTrackingFields,
+    eventName: z.string().min(1).max(100),
+    value: z.number().nonnegative().optional(),
+  }),
+]);
+
+export type ExperimentTrackingInput = z.infer<typeof ExperimentTrackingSchema>;
+
+// ============================================================================
+// Experiment Management Schemas
+// ============================================================================
+
+const experimentScheduleFields = {
+  startDate: z.iso.datetime().nullable().optional(),
+  endDate: z.iso.datetime().nullable().optional(),
+};
+
+/**
+ * Experiment created from the admin dashboard
+ * Weights and traffic allocation are checked by validateExperiment()
+ */
+export const ExperimentCreateSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'ID must be lowercase words separated by hyphens'),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).default(''),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1).max(50),
+        name: z.string().trim().min(1).max(200),
+        weight: z.number().min(0).max(1),
+        description: z.string().trim().max(500).optional(),
+      })
+    )
+    .min(2, 'At least 2 variants are required')
+    .max(10),
+  trafficAllocation: z.number().min(0).max(1).default(1),
+  primaryMetric: z.string().min(1).max(100).nullable().optional(),
+  ...experimentScheduleFields,
+});
+
+export type ExperimentCreateInput = z.infer<typeof ExperimentCreateSchema>;
+
+/**
+ * Admin action on an existing experiment
+ */
+export const ExperimentActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('update'),
+    name: z.string().trim().min(1).max(200).optional(),
+    description: z.string().trim().max(1000).optional(),
+    weights: z.record(z.string(), z.number().min(0).max(1)).optional(),
+    trafficAllocation: z.number().min(0).max(1).optional(),
+    primaryMetric: z.string().min(1).max(100).nullable().optional(),
+    ...experimentScheduleFields,
+  }),
+  z.object({ action: z.literal('start') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('stop') }),
+  z.object({
+    action: z.literal('declare_winner'),
+    variantId: z.string().min(1).max(50),
+  }),
+]);
+
+export type ExperimentActionInput = z.infer<typeof ExperimentActionSchema>;
+
+export type ExperimentUpdateInput = Omit<
+  Extract<ExperimentActionInput, { action: 'update' }>,
+  'action'
+>;
+
+// ============================================================================
+// Retailer Catalog Schemas
+// ============================================================================
+
+const retailerUrlField = z.url({ protocol: /^https?$/ }).max(2000).nullable().optional();
+
+const retailerLinkFields = {
+  hardcoverUrl: retailerUrlField,
+  paperbackUrl: retailerUrlField,
+  ebookUrl: retailerUrlField,
+  audiobookUrl: retailerUrlField,
+};
+
+export const RetailerGeoSchema = z.enum(['US', 'UK', 'EU', 'AU', 'GLOBAL']);
+
+/**
+ * Retailer added to a region from the admin dashboard
+ */
+export const RetailerSelectionCreateSchema = z.object({
+  retailerSlug: z
+    .string()
+    .min(1)
+    .max(50)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and hyphens'),
+  retailerName: z.string().trim().min(1).max(100),
+  displayName: z.string().trim().min(1).max(100),
+  geo: RetailerGeoSchema,
+  logoUrl: z.string().trim().max(500).nullable().optional(),
+  isActive: z.boolean().default(true),
+  nytEligible: z.boolean().default(true),
+  ...retailerLinkFields,
+});
+
+export type RetailerSelectionCreateInput = z.infer<typeof RetailerSelectionCreateSchema>;
+
+/**
+ * Changes to a retailer in one region (links, display, toggle)
+ */
+export const RetailerSelectionUpdateSchema = z.object({
+  displayName: z.string().trim().min(1).max(100).optional(),
+  logoUrl: z.string().trim().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+  nytEligible: z.boolean().optional(),
+  ...retailerLinkFields,
+});
+
+export type RetailerSelectionUpdateInput = z.infer<typeof RetailerSelectionUpdateSchema>;
+
+/**
+ * New display order for a region, first shown first
+ */
+export const RetailerReorderSchema = z.object({
+  geo: RetailerGeoSchema,
+  ids: z.array(z.string().min(1)).min(1).max(100),
+});
+
+export type RetailerReorderInput = z.infer<typeof RetailerReorderSchema>;
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
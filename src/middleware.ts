@@ -1,8 +1,15 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import {
+  EXPERIMENT_COOKIE_MAX_AGE_SECONDS,
+  EXPERIMENT_COOKIE_NAME,
+  PARTICIPANT_COOKIE_NAME,
+  serializeExperimentAssignments,
+} from "./lib/ab-testing";
 import { isProtectedRoute, isAdminRoute } from "./lib/auth";
 import { isAdminEmail } from "./lib/admin-auth";
+import { assignRequestExperiments, loadActiveExperiments } from "./lib/experiment-assignment";
 
 /**
  * Security & Auth Middleware for AI-Born Landing Page
@@ -18,6 +25,7 @@ import { isAdminEmail } from "./lib/admin-auth";
  * - HTTPS enforcement
  * - Rate limiting headers
  * - CORS configuration
+ * - Server-side A/B experiment assignment for pages
  */
 
 // Rate limiting configuration
@@ -225,8 +233,13 @@ export async function middleware(request: NextRequest) {
     return applySecurityHeaders(response, request);
   }
 
-  // Rate Limiting (stricter for API routes)
-  const isAPIRoute = pathname.startsWith("/api");
+  // Rate Limiting (stricter for API routes). The analytics beacon fires
+  // on every tracked interaction, so it uses its own limiter instead, and
+  // the experiment config is fetched by this middleware itself.
+  const isAPIRoute =
+    pathname.startsWith("/api") &&
+    pathname !== "/api/events" &&
+    pathname !== "/api/experiments/config";
   if (isAPIRoute) {
     const clientIP = getClientIP(request);
     const rateLimit = checkRateLimit(clientIP);
@@ -261,11 +274,53 @@ export async function middleware(request: NextRequest) {
     return applySecurityHeaders(response, request);
   }
 
-  // Apply security headers to all responses
-  const response = NextResponse.next();
+  // Apply security headers to all responses (pages get experiment assignments)
+  const response = pathname.startsWith("/api")
+    ? NextResponse.next()
+    : await assignExperiments(request);
   return applySecurityHeaders(response, request);
 }
 
+/**
+ * Assign A/B experiment variants before the page renders
+ * The cookies are forwarded on the request so server components see the
+ * assignment on the very first visit, and set on the response to persist.
+ * Bots get no cookies and always render the control.
+ */
+async function assignExperiments(request: NextRequest): Promise<NextResponse> {
+  const result = assignRequestExperiments(
+    {
+      participantId: request.cookies.get(PARTICIPANT_COOKIE_NAME)?.value,
+      assignments: request.cookies.get(EXPERIMENT_COOKIE_NAME)?.value,
+    },
+    request.headers.get("user-agent"),
+    await loadActiveExperiments(request.nextUrl.origin)
+  );
+
+  if (!result?.changed) {
+    return NextResponse.next();
+  }
+
+  const assignments = serializeExperimentAssignments(result.assignments);
+
+  request.cookies.set(PARTICIPANT_COOKIE_NAME, result.participantId);
+  request.cookies.set(EXPERIMENT_COOKIE_NAME, assignments);
+
+  const response = NextResponse.next({ request: { headers: request.headers } });
+
+  // Readable by the client so useExperiment shares the assignment
+  const cookieOptions = {
+    path: "/",
+    maxAge: EXPERIMENT_COOKIE_MAX_AGE_SECONDS,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+  };
+  response.cookies.set(PARTICIPANT_COOKIE_NAME, result.participantId, cookieOptions);
+  response.cookies.set(EXPERIMENT_COOKIE_NAME, assignments, cookieOptions);
+
+  return response;
+}
+
 /**
  * Apply all security headers to the response
  */
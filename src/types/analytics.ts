@@ -5,6 +5,8 @@
 
 import { type BookFormat, type GeoRegion } from './index';
 
+import type { AnalyticsEventType } from '@prisma/client';
+
 // ==================== Base Event Structure ====================
 
 /**
@@ -562,6 +564,67 @@ export type AnalyticsEvent =
  */
 export type EventName = AnalyticsEvent['event'];
 
+// ==================== First-Party Events ====================
+
+/**
+ * Events also recorded first-party via the `/api/events` beacon, mapped
+ * to their `AnalyticsEventType`. Other events stay GTM-only.
+ */
+export const FIRST_PARTY_EVENT_TYPES = {
+  hero_cta_click: 'HERO_CTA_CLICK',
+  retailer_menu_open: 'RETAILER_MENU_OPEN',
+  preorder_click: 'PREORDER_CLICK',
+  lead_capture_submit: 'LEAD_CAPTURE_SUBMIT',
+  bonus_claim_submit: 'BONUS_CLAIM_SUBMIT',
+  framework_card_open: 'FRAMEWORK_CARD_OPEN',
+  overview_read_depth: 'OVERVIEW_READ_DEPTH',
+  social_proof_view: 'SOCIAL_PROOF_VIEW',
+  presskit_download: 'PRESSKIT_DOWNLOAD',
+  media_request_submit: 'MEDIA_REQUEST_SUBMIT',
+  bulk_interest_submit: 'BULK_INTEREST_SUBMIT',
+  faq_open: 'FAQ_OPEN',
+  newsletter_subscribed: 'NEWSLETTER_SUBSCRIBED',
+  endorsement_expand: 'ENDORSEMENT_EXPAND',
+} as const satisfies Partial<Record<EventName, AnalyticsEventType>>;
+
+export type FirstPartyEventName = keyof typeof FIRST_PARTY_EVENT_TYPES;
+
+/**
+ * Maximum events per `/api/events` request
+ */
+export const FIRST_PARTY_MAX_BATCH_SIZE = 25;
+
+/**
+ * Single event in a beacon batch
+ */
+export interface FirstPartyEventPayload {
+  event: FirstPartyEventName;
+  /** Client time the event fired (ISO 8601) */
+  timestamp: string;
+  /** Event fields other than `event` and `timestamp` */
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Body of a `/api/events` beacon
+ */
+export interface FirstPartyEventBatch {
+  /** Visitor's analytics consent; without it only anonymous data is kept */
+  consent: { analytics: boolean };
+  context: {
+    /** Per-tab session ID (only sent with consent) */
+    sessionId?: string;
+    referrer?: string;
+    utmSource?: string;
+    utmMedium?: string;
+    utmCampaign?: string;
+    utmContent?: string;
+    utmTerm?: string;
+    geo?: GeoRegion;
+  };
+  events: FirstPartyEventPayload[];
+}
+
 /**
  * GTM dataLayer array type
  */
@@ -9,6 +9,7 @@ export type EmailType =
   | 'org_invite'
   | 'magic_link'
   | 'newsletter'
+  | 'drip'
   | 'media_request'
   | 'bulk_order_inquiry';
 
@@ -58,8 +58,16 @@ export interface Retailer {
   geoAvailability: GeoRegion[];
   formats: BookFormat[];
   priority?: number;
+  /** Link per format; falls back to the built-in URL templates when absent */
+  urls?: Partial<Record<BookFormat, string>>;
+  nytEligible?: boolean;
 }
 
+/**
+ * Retailers shown in each region, in display order
+ */
+export type RetailerCatalog = Record<GeoRegion, Retailer[]>;
+
 export interface RetailerLink {
   retailer: string;
   format: BookFormat;
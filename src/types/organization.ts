@@ -53,6 +53,7 @@ export interface CreateOrganizationInput {
   domain?: string;
   notes?: string;
   allowAutoJoin?: boolean;
+  autoJoinRole?: OrgMemberRole;
 }
 
 export interface UpdateOrganizationInput {
@@ -63,6 +64,8 @@ export interface UpdateOrganizationInput {
   domain?: string;
   notes?: string;
   allowAutoJoin?: boolean;
+  /** Role for auto-joined members (not OWNER) */
+  autoJoinRole?: OrgMemberRole;
   settings?: Record<string, unknown>;
 }
 
@@ -71,6 +74,7 @@ export interface UpdateOrganizationInput {
 // ============================================================================
 
 export interface OrgMemberWithUser extends OrgMember {
+  userId: string;
   user: {
     id: string;
     email: string;
@@ -78,6 +82,19 @@ export interface OrgMemberWithUser extends OrgMember {
   };
 }
 
+/**
+ * Invite not yet accepted (INVITED, or EXPIRED until resent or revoked)
+ */
+export interface PendingOrgInvite {
+  id: string;
+  email: string;
+  role: OrgMemberRole;
+  status: OrgMemberStatus;
+  invitedBy: string | null;
+  invitedAt: Date | null;
+  expiresAt: Date | null;
+}
+
 export interface AddMemberInput {
   userId?: string;
   email?: string;
@@ -91,13 +108,17 @@ export interface UpdateMemberInput {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Invite as shown on the accept page
+ */
 export interface MemberInvitation {
+  memberId: string;
   email: string;
   role: OrgMemberRole;
   orgId: string;
   orgName: string;
-  invitedBy: string;
-  inviterName: string;
+  invitedBy: string | null;
+  inviterName: string | null;
   expiresAt: Date;
 }
 
@@ -292,7 +313,13 @@ export interface AddMemberRequest {
 
 export interface AddMemberResponse {
   success: boolean;
-  member: OrgMemberWithUser;
+  invite: PendingOrgInvite;
+  message: string;
+}
+
+export interface InviteActionResponse {
+  success: boolean;
+  invite?: PendingOrgInvite;
   message: string;
 }
 
@@ -325,9 +352,22 @@ export interface GeneratePlanRequest {
 export interface GeneratePlanResponse {
   success: boolean;
   plan: OrgPlanWithRelations;
-  generationTime: number;
+  /** Server-sent events following the generation */
+  streamUrl: string;
 }
 
+/**
+ * Server-sent event from `GET /api/orgs/[orgId]/plans/[planId]/stream`
+ */
+export type PlanGenerationEvent =
+  | { event: 'token'; data: { text: string } }
+  | { event: 'section'; data: { sections: string[]; total: number } }
+  | { event: 'reset'; data: Record<string, never> }
+  | {
+      event: 'status';
+      data: { status: OrgPlanStatus | null; error: string | null; cancelled: boolean };
+    };
+
 // ============================================================================
 // PERMISSIONS & ACCESS CONTROL
 // ============================================================================
@@ -4,7 +4,7 @@
  */
 
 export interface PressKitAsset {
-  /** Path to the asset relative to public directory */
+  /** Asset storage key (a path under public/ in development) */
   path: string;
   /** Filename to use in the ZIP archive */
   filename: string;
@@ -102,25 +102,3 @@ export interface DuplicateCheckResult {
   existingReceiptId?: string;
   existingUserId?: string;
 }
-
-/**
- * S3/R2 upload configuration
- */
-export interface StorageConfig {
-  bucket: string;
-  region?: string;
-  endpoint?: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  publicUrl?: string;
-}
-
-/**
- * Upload options for storage client
- */
-export interface UploadOptions {
-  folder?: string;
-  metadata?: Record<string, string>;
-  contentType?: string;
-  maxAge?: number;
-}